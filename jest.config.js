@@ -0,0 +1,14 @@
+/** @type {import('jest').Config} */
+const jestConfig = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  // Rewrites deployment/addresses.json and expects placeholder policy ids
+  testPathIgnorePatterns: ['/node_modules/', '/src/lucid/utils/__tests__/contractAddresses.test.ts'],
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1'
+  }
+};
+
+module.exports = jestConfig;
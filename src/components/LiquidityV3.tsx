@@ -5,7 +5,7 @@ import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { toast } from 'react-hot-toast';
 import { PuckSwapV3, LiquidityParamsV3, TransactionResultV3 } from '../lib/puckswap-v3';
-import { Context7MonitorV3, PoolStatsV3 } from '../lib/context7-monitor-v3';
+import type { PoolMonitor, PoolStats } from '../context7/pool_monitor';
 import { formatADA, formatToken, formatPrice, formatPercentage } from '../lib/format-utils';
 
 // Liquidity operation types
@@ -23,7 +23,8 @@ interface Token {
 // Component props
 interface LiquidityV3Props {
   dex: PuckSwapV3 | null;
-  monitor: Context7MonitorV3 | null;
+  monitor: PoolMonitor | null;
+  poolAddress?: string;
   isConnected: boolean;
   walletAddress?: string;
   demoMode?: boolean;
@@ -45,6 +46,7 @@ interface LPPosition {
 export const LiquidityV3: React.FC<LiquidityV3Props> = ({
   dex,
   monitor,
+  poolAddress,
   isConnected,
   walletAddress,
   demoMode = false
@@ -59,7 +61,7 @@ export const LiquidityV3: React.FC<LiquidityV3Props> = ({
   const [autoOptimalRatio, setAutoOptimalRatio] = useState<boolean>(true);
   const [slippageTolerance, setSlippageTolerance] = useState<number>(50); // 0.5%
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
-  const [poolStats, setPoolStats] = useState<PoolStatsV3 | null>(null);
+  const [poolStats, setPoolStats] = useState<PoolStats | null>(null);
   const [lpPositions, setLpPositions] = useState<LPPosition[]>([]);
   const [showPoolSelector, setShowPoolSelector] = useState<boolean>(false);
 
@@ -81,20 +83,21 @@ export const LiquidityV3: React.FC<LiquidityV3Props> = ({
 
   // Monitor pool stats
   useEffect(() => {
-    if (!monitor || !selectedPool) return;
+    if (!monitor || !poolAddress) return;
 
-    const handlePoolUpdate = (stats: PoolStatsV3) => {
-      if (stats.poolId === selectedPool) {
-        setPoolStats(stats);
+    const handlePoolEvent = (event: { poolAddress: string }) => {
+      if (event.poolAddress === poolAddress) {
+        setPoolStats(monitor.getPoolStats(poolAddress));
       }
     };
 
-    monitor.onPoolStateUpdate(handlePoolUpdate);
+    setPoolStats(monitor.getPoolStats(poolAddress));
+    monitor.addEventListener('*', handlePoolEvent);
 
     return () => {
-      monitor.removePoolStateListener(handlePoolUpdate);
+      monitor.removeEventListener('*', handlePoolEvent);
     };
-  }, [monitor, selectedPool]);
+  }, [monitor, poolAddress]);
 
   // Load LP positions (mock data for demo)
   useEffect(() => {
@@ -4,11 +4,11 @@ import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { toast } from 'react-hot-toast';
 import { PuckSwapV2, PoolState, SwapParams } from '../lib/puckswap-v2';
-import { createPoolMonitor, PuckSwapPoolMonitor } from '../lib/pool-monitor-v2';
+import { createPoolMonitor, PoolMonitor, DEFAULT_POOL_MONITOR_CONFIG, PoolMonitorConfig } from '../context7/pool_monitor';
 
 export default function SwapV2() {
   const [dex, setDex] = useState<PuckSwapV2 | null>(null);
-  const [monitor, setMonitor] = useState<PuckSwapPoolMonitor | null>(null);
+  const [monitor, setMonitor] = useState<PoolMonitor | null>(null);
   const [poolState, setPoolState] = useState<PoolState | null>(null);
   const [inputAmount, setInputAmount] = useState<string>('');
   const [outputAmount, setOutputAmount] = useState<string>('');
@@ -38,21 +38,21 @@ export default function SwapV2() {
         console.log('🔄 PuckSwap V2 initialized on Cardano preprod testnet');
 
         // Initialize pool monitoring
-        const monitorInstance = await createPoolMonitor(
-          process.env.NEXT_PUBLIC_BLOCKFROST_API_KEY || '',
-          process.env.NEXT_PUBLIC_NETWORK as any
-        );
-        setMonitor(monitorInstance);
-
-        // Subscribe to pool updates
-        const poolAddress = dexInstance.getPoolAddress();
-        await monitorInstance.subscribeToPool(poolAddress, MOCK_TOKEN.policy, MOCK_TOKEN.name);
-
-        // Listen for pool state changes
-        monitorInstance.addPoolStateListener(MOCK_TOKEN.policy, MOCK_TOKEN.name, (newState) => {
-          setPoolState(newState);
+        const monitorInstance = await createPoolMonitor({
+          ...DEFAULT_POOL_MONITOR_CONFIG,
+          blockfrostApiKey: process.env.NEXT_PUBLIC_BLOCKFROST_API_KEY || '',
+          network: process.env.NEXT_PUBLIC_NETWORK as any,
+          poolAddresses: [dexInstance.getPoolAddress()],
+          enableBroadcast: false
+        } as PoolMonitorConfig);
+
+        // Reload the pool state on every pool change
+        monitorInstance.addEventListener('*', async () => {
+          setPoolState(await dexInstance.getPoolState(MOCK_TOKEN.policy, MOCK_TOKEN.name));
           toast.success('Pool state updated!', { icon: '🔄' });
         });
+        await monitorInstance.startMonitoring();
+        setMonitor(monitorInstance);
 
         // Get initial pool state
         const state = await dexInstance.getPoolState(MOCK_TOKEN.policy, MOCK_TOKEN.name);
@@ -67,7 +67,7 @@ export default function SwapV2() {
     // Cleanup on unmount
     return () => {
       if (monitor) {
-        monitor.destroy();
+        monitor.stopMonitoring();
       }
     };
   }, []);
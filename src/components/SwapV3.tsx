@@ -5,7 +5,7 @@ import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { toast } from 'react-hot-toast';
 import { PuckSwapV3, SwapParamsV3, TransactionResultV3 } from '../lib/puckswap-v3';
-import { Context7MonitorV3, PoolStatsV3, PriceData } from '../lib/context7-monitor-v3';
+import type { PoolMonitor, PoolStats } from '../context7/pool_monitor';
 import { formatADA, formatToken, formatPrice, formatPercentage } from '../lib/format-utils';
 import { useAvailableTokens, TokenInfo, sortTokensByLiquidity } from '../hooks/useAvailableTokens';
 
@@ -15,7 +15,8 @@ import { useAvailableTokens, TokenInfo, sortTokensByLiquidity } from '../hooks/u
 // Swap interface props
 interface SwapV3Props {
   dex: PuckSwapV3 | null;
-  monitor: Context7MonitorV3 | null;
+  monitor: PoolMonitor | null;
+  poolAddress?: string;
   isConnected: boolean;
   walletAddress?: string;
   demoMode?: boolean;
@@ -35,6 +36,7 @@ const SLIPPAGE_OPTIONS = [10, 50, 100, 300]; // 0.1%, 0.5%, 1%, 3%
 export const SwapV3: React.FC<SwapV3Props> = ({
   dex,
   monitor,
+  poolAddress,
   isConnected,
   walletAddress,
   demoMode = false
@@ -49,8 +51,7 @@ export const SwapV3: React.FC<SwapV3Props> = ({
   const [showSlippageSettings, setShowSlippageSettings] = useState<boolean>(false);
   const [isSwapping, setIsSwapping] = useState<boolean>(false);
   const [priceImpact, setPriceImpact] = useState<number>(0);
-  const [poolStats, setPoolStats] = useState<PoolStatsV3 | null>(null);
-  const [priceData, setPriceData] = useState<PriceData | null>(null);
+  const [poolStats, setPoolStats] = useState<PoolStats | null>(null);
   const [showTokenSelector, setShowTokenSelector] = useState<'input' | 'output' | null>(null);
   const [deadline, setDeadline] = useState<number>(20); // 20 minutes
   const [frontRunProtection, setFrontRunProtection] = useState<boolean>(true);
@@ -70,30 +71,23 @@ export const SwapV3: React.FC<SwapV3Props> = ({
     }
   }, [availableTokens, inputToken, outputToken]);
 
-  // Monitor pool stats and price updates
+  // Monitor pool stats
   useEffect(() => {
-    if (!monitor || !inputToken || !outputToken) return;
+    if (!monitor || !poolAddress) return;
 
-    const handlePoolUpdate = (stats: PoolStatsV3) => {
-      if (stats.tokenPolicy === outputToken.policy && stats.tokenName === outputToken.name) {
-        setPoolStats(stats);
+    const handlePoolEvent = (event: { poolAddress: string }) => {
+      if (event.poolAddress === poolAddress) {
+        setPoolStats(monitor.getPoolStats(poolAddress));
       }
     };
 
-    const handlePriceUpdate = (poolId: string, price: PriceData) => {
-      if (poolId === `${outputToken.policy}_${outputToken.name}`) {
-        setPriceData(price);
-      }
-    };
-
-    monitor.onPoolStateUpdate(handlePoolUpdate);
-    monitor.onPriceUpdate(handlePriceUpdate);
+    setPoolStats(monitor.getPoolStats(poolAddress));
+    monitor.addEventListener('*', handlePoolEvent);
 
     return () => {
-      monitor.removePoolStateListener(handlePoolUpdate);
-      monitor.removePriceListener(handlePriceUpdate);
+      monitor.removeEventListener('*', handlePoolEvent);
     };
-  }, [monitor, inputToken, outputToken]);
+  }, [monitor, poolAddress]);
 
   // Calculate output amount and price impact
   const calculateSwapOutput = useCallback(async () => {
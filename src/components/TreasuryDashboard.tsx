@@ -21,7 +21,6 @@ interface DistributionFormData {
   amount: string;
   recipients: string[];
   purpose: string;
-  governanceProposalId?: string;
 }
 
 export default function TreasuryDashboard({ 
@@ -43,8 +42,7 @@ export default function TreasuryDashboard({
     targetType: 'LiquidityProviders',
     amount: '',
     recipients: [],
-    purpose: '',
-    governanceProposalId: ''
+    purpose: ''
   });
 
   // Load treasury state
@@ -55,8 +53,8 @@ export default function TreasuryDashboard({
         totalRevenueCollected: 2500000000000n, // 2.5M ADA
         totalDistributed: 1800000000000n, // 1.8M ADA
         currentBalance: {
-          "": "700000000000", // 700K ADA
-          "demo_pucky_policy": "50000000000000" // 50M PUCKY
+          "": 700000000000n, // 700K ADA
+          "demo_pucky_policy": 50000000000000n // 50M PUCKY
         },
         revenueRecords: [
           {
@@ -240,8 +238,7 @@ export default function TreasuryDashboard({
           targetType: 'LiquidityProviders',
           amount: '',
           recipients: [],
-          purpose: '',
-          governanceProposalId: ''
+          purpose: ''
         });
       } else if (treasury) {
         // Build distribution targets based on form
@@ -251,11 +248,7 @@ export default function TreasuryDashboard({
           purpose: distributionForm.purpose
         }];
 
-        const txHash = await treasury.distributeRevenue({
-          targets,
-          governanceProposalId: distributionForm.governanceProposalId ? 
-            parseInt(distributionForm.governanceProposalId) : undefined
-        });
+        const txHash = await treasury.distributeRevenue({ targets });
 
         toast.success(`Revenue distributed! TX: ${txHash.slice(0, 8)}...`, {
           duration: 10000,
@@ -267,8 +260,7 @@ export default function TreasuryDashboard({
           targetType: 'LiquidityProviders',
           amount: '',
           recipients: [],
-          purpose: '',
-          governanceProposalId: ''
+          purpose: ''
         });
         await loadTreasuryState();
       }
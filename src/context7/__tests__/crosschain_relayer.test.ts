@@ -0,0 +1,202 @@
+/**
+ * PuckSwap Cross-Chain Relayer Tests
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { generateKeyPairSync, sign, KeyObject } from 'crypto';
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  CrossChainRelayer,
+  FileRelayStateStore,
+  SourceChainAdapter,
+  SourceChainBlock,
+  BridgeMessageLeaf,
+  bridgeAttestationPayload,
+  computeBlockMerkleRoot
+} from '../crosschain_relayer';
+
+const ETHEREUM = 1;
+
+function bridgeKey(): { publicKey: string; privateKey: KeyObject } {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const der = publicKey.export({ format: 'der', type: 'spki' }) as Buffer;
+  return { publicKey: der.subarray(-32).toString('hex'), privateKey };
+}
+
+const bridges = [bridgeKey(), bridgeKey(), bridgeKey()];
+
+function leaf(messageId: string, amount: bigint): BridgeMessageLeaf {
+  return {
+    messageId,
+    sourceChain: ETHEREUM,
+    sourceTxHash: messageId.padEnd(64, '0'),
+    sender: '0xsender',
+    recipient: 'addr_test1recipient',
+    tokenPolicy: '',
+    tokenName: '',
+    amount
+  };
+}
+
+// Local fake chain: one block holding the messages, signed by the given bridges
+class FakeChain implements SourceChainAdapter {
+  readonly chainId = ETHEREUM;
+  delivered: string[] = [];
+  constructor(private block: SourceChainBlock, private head: number) {}
+  async getLatestBlockNumber() { return this.head; }
+  async findMessageBlock(messageId: string) {
+    return this.block.messages.some(message => message.messageId === messageId) ? this.block : null;
+  }
+  async deliverOutbound(message: { messageId: string }) {
+    this.delivered.push(message.messageId);
+    return `0x${message.messageId}`;
+  }
+}
+
+function signedBlock(messages: BridgeMessageLeaf[], signers: number[]): SourceChainBlock {
+  const blockHash = 'ab'.repeat(32);
+  const payload = bridgeAttestationPayload(computeBlockMerkleRoot(messages), blockHash);
+  return {
+    blockNumber: 100,
+    blockHash,
+    messages,
+    signatures: signers.map(index => ({
+      signer: `bridge_${index}`,
+      signature: sign(null, payload, bridges[index].privateKey).toString('hex'),
+      timestamp: 1
+    }))
+  };
+}
+
+function outbound(messageId: string) {
+  return { messageId, destinationChain: ETHEREUM, confirmations: 2, status: 'Confirmed' };
+}
+
+function fakeRouter(inbound: BridgeMessageLeaf[], outboundMessages: ReturnType<typeof outbound>[] = []) {
+  const completed: string[] = [];
+  const state = {
+    minConfirmations: 2,
+    outboundMessages,
+    inboundMessages: inbound.map(message => ({ ...message, createdSlot: 0, status: 'Pending', bridgeId: 'bridge_0' })),
+    processedMessageHashes: [],
+    trustedBridges: bridges.map((bridge, index) => ({
+      bridgeId: `bridge_${index}`,
+      publicKey: bridge.publicKey,
+      supportedChains: [ETHEREUM],
+      isActive: true
+    }))
+  };
+  return {
+    completed,
+    getRouterState: async () => state as any,
+    completeInboundTransfer: async ({ messageId }: { messageId: string }) => {
+      completed.push(messageId);
+      return `tx_${messageId}`;
+    }
+  };
+}
+
+describe('cross-chain relayer', () => {
+  it('completes inbound messages once proven and deep enough', async () => {
+    const messages = [leaf('m1', 5n), leaf('m2', 7n), leaf('m3', 9n)];
+    const router = fakeRouter([messages[1]]);
+    const relayer = new CrossChainRelayer(router, { confirmationDepth: 10 });
+
+    relayer.registerAdapter(new FakeChain(signedBlock(messages, [0, 2]), 105));
+    expect((await relayer.relayInbound())[0].status).toBe('Waiting');
+
+    relayer.registerAdapter(new FakeChain(signedBlock(messages, [0, 2]), 110));
+    const [record] = await relayer.relayInbound();
+    expect(record.status).toBe('Relayed');
+    expect(router.completed).toEqual(['m2']);
+  });
+
+  it('refuses a message the block does not commit to', async () => {
+    const router = fakeRouter([leaf('m1', 500n)]);
+    const relayer = new CrossChainRelayer(router, { confirmationDepth: 0 });
+    relayer.registerAdapter(new FakeChain(signedBlock([leaf('m1', 5n)], [0, 1]), 100));
+
+    const [record] = await relayer.relayInbound();
+    expect(record.status).toBe('Waiting');
+    expect(record.lastError).toBe('Message m1 is not included in Merkle root ' + computeBlockMerkleRoot([leaf('m1', 5n)]));
+    expect(router.completed).toEqual([]);
+  });
+
+  it('requires the bridge signature threshold and gives up after max attempts', async () => {
+    const router = fakeRouter([leaf('m1', 5n)]);
+    const relayer = new CrossChainRelayer(router, { confirmationDepth: 0, maxAttempts: 2 });
+    relayer.registerAdapter(new FakeChain(signedBlock([leaf('m1', 5n)], [1, 1]), 100));
+
+    await relayer.relayInbound();
+    const [record] = await relayer.relayInbound();
+    expect(record.status).toBe('Failed');
+    expect(record.lastError).toBe('Message m1 has 1 valid bridge signatures, 2 required');
+    expect(await relayer.relayInbound()).toEqual([]);
+  });
+});
+
+describe('outbound relays', () => {
+  it('delivers a message once when an event run overlaps a poll cycle', async () => {
+    const chain = new FakeChain(signedBlock([leaf('m1', 5n)], [0, 1]), 100);
+    const relayer = new CrossChainRelayer(fakeRouter([], [outbound('o1'), outbound('o2')]));
+    relayer.registerAdapter(chain);
+
+    const [fromEvent, fromPoll] = await Promise.all([relayer.relayOutbound(), relayer.relayAll()]);
+    expect(chain.delivered).toEqual(['o1', 'o2']);
+    expect([...fromEvent, ...fromPoll].map(record => record.messageId)).toEqual(['o1', 'o2']);
+  });
+
+  it('does not deliver again after a restart on the same store', async () => {
+    const directory = mkdtempSync(path.join(tmpdir(), 'relayer-'));
+    try {
+      const router = fakeRouter([], [outbound('o1')]);
+      const first = new CrossChainRelayer(router, {}, new FileRelayStateStore(directory));
+      const chain = new FakeChain(signedBlock([leaf('m1', 5n)], [0, 1]), 100);
+      first.registerAdapter(chain);
+      await first.relayOutbound();
+
+      const restarted = new CrossChainRelayer(router, {}, new FileRelayStateStore(directory));
+      restarted.registerAdapter(chain);
+      expect(await restarted.relayOutbound()).toEqual([]);
+      expect(restarted.getRelayRecord('o1')?.txHash).toBe('0xo1');
+      expect(chain.delivered).toEqual(['o1']);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('starts from an empty relay history when relay-records.json is corrupt', async () => {
+    const directory = mkdtempSync(path.join(tmpdir(), 'relayer-'));
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      writeFileSync(path.join(directory, 'relay-records.json'), '[{"messageId": "o1"');
+      const store = new FileRelayStateStore(directory);
+      expect(await store.list()).toEqual([]);
+      expect(warn).toHaveBeenCalledWith('Ignoring unreadable relay records:', expect.any(SyntaxError));
+
+      const relayer = new CrossChainRelayer(fakeRouter([], [outbound('o1')]), {}, store);
+      relayer.registerAdapter(new FakeChain(signedBlock([leaf('m1', 5n)], [0, 1]), 100));
+      await relayer.relayOutbound();
+
+      expect((await new FileRelayStateStore(directory).list()).map(record => record.messageId)).toEqual(['o1']);
+      expect(readdirSync(directory)).toEqual(['relay-records.json']);
+    } finally {
+      warn.mockRestore();
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('records a delivery the destination chain already has', async () => {
+    const chain = new FakeChain(signedBlock([leaf('m1', 5n)], [0, 1]), 100);
+    const relayer = new CrossChainRelayer(fakeRouter([], [outbound('o1')]));
+    relayer.registerAdapter(Object.assign(chain, {
+      findOutboundDelivery: async (messageId: string) => `0xexisting_${messageId}`
+    }));
+
+    const [record] = await relayer.relayOutbound();
+    expect(record.txHash).toBe('0xexisting_o1');
+    expect(chain.delivered).toEqual([]);
+  });
+});
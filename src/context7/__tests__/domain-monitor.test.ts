@@ -0,0 +1,126 @@
+/**
+ * PuckSwap Context7 Domain Monitor Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Data, Constr, fromText } from '@lucid-evolution/lucid';
+import { MonitorHost } from '../monitor-host';
+import { InMemoryEventStore } from '../event-store';
+import { StakingMonitor, StakingEvent } from '../staking-monitor';
+import { TreasuryMonitor, TreasuryEvent } from '../treasury-monitor';
+import { serializeStreamDatum, VestingStream } from '../../lucid/treasury-streams';
+
+const STAKING = 'addr_test1staking';
+const TREASURY = 'addr_test1treasury';
+const STREAMS = 'addr_test1streams';
+
+function stakingUtxo(txHash: string, slot: number, totalStaked: bigint): any {
+  return {
+    txHash,
+    outputIndex: 0,
+    address: STAKING,
+    assets: { lovelace: totalStaked },
+    datum: Data.to(new Constr(0, [totalStaked, totalStaked, fromText('pool1'), 0n])),
+    slot,
+    blockHeight: slot,
+    blockHash: `block_${slot}`
+  };
+}
+
+function streamUtxo(txHash: string, slot: number, streamId: string): any {
+  const stream: VestingStream = {
+    streamId,
+    recipientKeyHash: 'cc'.repeat(28),
+    unit: 'lovelace',
+    totalAmount: 10_000_000n,
+    claimedAmount: 0n,
+    startSlot: 0,
+    cliffSlot: 0,
+    endSlot: 1_000,
+    governanceProposalId: 1
+  };
+  return {
+    txHash,
+    outputIndex: 0,
+    address: STREAMS,
+    assets: { lovelace: stream.totalAmount },
+    datum: serializeStreamDatum(stream),
+    slot,
+    blockHeight: slot,
+    blockHash: `block_${slot}`
+  };
+}
+
+function sharedHost(): MonitorHost {
+  return new MonitorHost({ projectId: 'mock_project_id', network: 'preprod', maxRetries: 1, retryDelay: 0, maxRetryDelay: 0 });
+}
+
+function treasuryMonitor(host: MonitorHost): TreasuryMonitor {
+  return new TreasuryMonitor({
+    treasuryAddress: TREASURY,
+    streamAddress: STREAMS,
+    blockfrostApiKey: 'mock_project_id',
+    network: 'preprod',
+    enableWebSocket: false,
+    pollingInterval: 60_000,
+    maxRetries: 1,
+    retryDelay: 0,
+    enableAlerts: false,
+    alertThresholds: {
+      lowBalanceThreshold: 0n,
+      highDistributionThreshold: 0n,
+      dailyLimitPercentage: 0,
+      suspiciousActivityThreshold: 0n
+    }
+  }, host);
+}
+
+describe('domain monitors', () => {
+  it('run on a shared host and read their state from it', async () => {
+    const host = sharedHost();
+    const store = new InMemoryEventStore();
+    host.setEventStore(store);
+
+    const staking = new StakingMonitor({ stakingAddress: STAKING, pADAPolicyId: 'aa'.repeat(28), blockfrostApiKey: 'mock_project_id' }, host);
+    const treasury = treasuryMonitor(host);
+    // A second monitor for the same address reuses the registered plugin
+    const stakingReader = new StakingMonitor({ stakingAddress: STAKING, pADAPolicyId: 'aa'.repeat(28), blockfrostApiKey: 'mock_project_id' }, host);
+    expect(host.getPlugins().map(plugin => plugin.source)).toEqual(['staking', 'treasury', 'treasury']);
+
+    const stakingEvents: StakingEvent[] = [];
+    const treasuryEvents: TreasuryEvent[] = [];
+    staking.addEventListener('*', event => stakingEvents.push(event));
+    treasury.addEventListener('*', event => treasuryEvents.push(event));
+
+    await host.start();
+    await staking.startMonitoring();
+    await treasury.startMonitoring();
+    await stakingReader.startMonitoring();
+    const indexer = (host as any).indexer;
+
+    await indexer.simulateUtxo(stakingUtxo('tx_initial', 10, 1_000_000n));
+    await indexer.simulateUtxo(stakingUtxo('tx_deposit', 20, 3_000_000n));
+    await indexer.simulateUtxo(streamUtxo('tx_stream_a', 30, 'a1'));
+    await indexer.simulateUtxo(streamUtxo('tx_stream_b', 40, 'b2'));
+
+    expect(stakingEvents.map(event => event.type)).toEqual(['deposit']);
+    expect(stakingReader.getTotalValueLocked()).toBe(3_000_000n);
+    expect(treasuryEvents.map(event => [event.type, event.data.streamId])).toEqual([
+      ['StreamCreated', 'a1'],
+      ['StreamCreated', 'b2']
+    ]);
+    expect(treasury.getStreams().map(stream => stream.streamId)).toEqual(['a1', 'b2']);
+    expect((await treasury.getEventHistory()).map(event => event.payload.data.streamId)).toEqual(['a1', 'b2']);
+
+    // Stopping a monitor on a shared host leaves the host and the other monitors running
+    await staking.stopMonitoring();
+    expect(host.isActive()).toBe(true);
+    await indexer.simulateRollback(35);
+    expect(stakingEvents.length).toBe(1);
+    expect(treasury.getStreams().map(stream => stream.streamId)).toEqual(['a1']);
+
+    await treasury.stopMonitoring();
+    await stakingReader.stopMonitoring();
+    await host.stop();
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * PuckSwap Context7 Event Store Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  FileEventStore,
+  InMemoryEventStore,
+  NewStoredEvent,
+  parseStoredEvent,
+  serializeStoredEvent
+} from '../event-store';
+
+function poolEvent(txHash: string, slot: number, timestamp: number, key = 'addr_pool'): NewStoredEvent {
+  return { source: 'pool', type: 'swap', slot, txHash, timestamp, key, payload: { amount: BigInt(slot) } };
+}
+
+describe('event store', () => {
+  it('stores each event once and queries by time range and key', async () => {
+    const store = new InMemoryEventStore();
+    await store.append(poolEvent('t1', 10, 1000));
+    await store.append(poolEvent('t2', 20, 2000));
+    await store.append(poolEvent('t2', 20, 2000, 'addr_other'));
+
+    expect(await store.append(poolEvent('t1', 10, 1000))).toBe(null);
+
+    const events = await store.query({ source: 'pool', key: 'addr_pool', fromTime: 1500, toTime: 3000 });
+    expect(events.map(event => event.txHash)).toEqual(['t2']);
+    expect((await store.query({ order: 'desc', limit: 1 }))[0].key).toBe('addr_other');
+  });
+
+  it('only moves checkpoints forward', async () => {
+    const store = new InMemoryEventStore();
+    await store.setCheckpoint('staking', 50);
+    await store.setCheckpoint('staking', 40);
+
+    expect(await store.getCheckpoint('staking')).toBe(50);
+    expect(await store.getCheckpoint('pool', 'addr_pool')).toBe(null);
+  });
+
+  it('round-trips bigint and Date payloads', () => {
+    const stored = { ...poolEvent('t1', 10, 1000), sequence: 1, payload: { amount: 5n, at: new Date(1000) } };
+    const parsed = parseStoredEvent(serializeStoredEvent(stored));
+
+    expect(parsed.payload.amount).toBe(5n);
+    expect(parsed.payload.at.getTime()).toBe(1000);
+  });
+
+  it('lets a reader in another process pick up appends and rollbacks', async () => {
+    const directory = mkdtempSync(path.join(tmpdir(), 'events-'));
+    try {
+      const writer = new FileEventStore(directory);
+      await writer.append(poolEvent('t1', 10, 1000));
+      const reader = new FileEventStore(directory);
+      expect((await reader.query()).map(event => event.txHash)).toEqual(['t1']);
+
+      await writer.append(poolEvent('t2', 20, 2000));
+      await writer.setCheckpoint('pool', 20, 'addr_pool');
+      await reader.refresh();
+      expect((await reader.query()).map(event => event.txHash)).toEqual(['t1', 't2']);
+      expect(await reader.getCheckpoint('pool', 'addr_pool')).toBe(20);
+
+      await writer.rollback('pool', 15);
+      await writer.append(poolEvent('t3', 18, 1800));
+      await reader.refresh();
+      expect((await reader.query()).map(event => event.txHash)).toEqual(['t1', 't3']);
+      expect(await reader.getCheckpoint('pool', 'addr_pool')).toBe(15);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('starts without checkpoints when checkpoints.json is corrupt', async () => {
+    const directory = mkdtempSync(path.join(tmpdir(), 'events-'));
+    try {
+      writeFileSync(path.join(directory, 'checkpoints.json'), '{"pool:addr_pool": 4');
+      const store = new FileEventStore(directory);
+      expect(await store.getCheckpoint('pool', 'addr_pool')).toBe(null);
+
+      await store.setCheckpoint('pool', 30, 'addr_pool');
+      expect(await new FileEventStore(directory).getCheckpoint('pool', 'addr_pool')).toBe(30);
+      expect(readdirSync(directory).sort()).toEqual(['checkpoints.json']);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * PuckSwap Context7 File Store Helper Tests
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { WriteQueue, readJsonFile, replaceFile } from '../file-store';
+
+describe('context7 file store helpers', () => {
+  it('falls back on missing and unreadable JSON and replaces files without leaving temp files', async () => {
+    const directory = mkdtempSync(path.join(tmpdir(), 'file-store-'));
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      const file = path.join(directory, 'state.json');
+      expect(await readJsonFile(file, [], 'state')).toEqual([]);
+
+      writeFileSync(file, '{"torn": ');
+      expect(await readJsonFile(file, { empty: true }, 'state')).toEqual({ empty: true });
+      expect(warn).toHaveBeenCalledWith('Ignoring unreadable state:', expect.any(SyntaxError));
+
+      await replaceFile(file, '{"ok": 1}');
+      expect(await readJsonFile(file, {}, 'state')).toEqual({ ok: 1 });
+      expect(readdirSync(directory)).toEqual(['state.json']);
+    } finally {
+      warn.mockRestore();
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('runs writes in call order and keeps going after a failed one', async () => {
+    const directory = mkdtempSync(path.join(tmpdir(), 'file-store-'));
+    try {
+      const file = path.join(directory, 'state.json');
+      const queue = new WriteQueue();
+
+      const writes = [
+        queue.run(() => replaceFile(file, '1')),
+        queue.run(() => replaceFile(path.join(directory, 'missing', 'state.json'), '2')),
+        queue.run(() => replaceFile(file, '3'))
+      ];
+
+      await expect(writes[1]).rejects.toThrow('ENOENT');
+      await writes[2];
+      expect(readFileSync(file, 'utf8')).toBe('3');
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * PuckSwap LP Reward Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { LpRewardTracker, calculateLpEntitlements, calculateTimeWeightedBalance } from '../lp_rewards';
+
+const POOL = 'addr_test1pool';
+
+describe('LP rewards', () => {
+  it('weights balances by the slots they were held within the epoch', () => {
+    const history = [
+      { slot: 0, balance: 100n },
+      { slot: 500, balance: 300n }
+    ];
+
+    // 400 slots at 100 and 500 slots at 300 inside [100, 1000)
+    expect(calculateTimeWeightedBalance(history, 100, 1000)).toBe(190_000n);
+    expect(calculateTimeWeightedBalance(history, 1000, 2000)).toBe(300_000n);
+  });
+
+  it('splits revenue pro rata and rounds down', () => {
+    const tracker = new LpRewardTracker();
+    tracker.recordBalanceChange(POOL, 'alice', 0, 100n);
+    tracker.recordBalanceChange(POOL, 'bob', 500, 100n);
+
+    const balances = new Map([
+      ['alice', [{ slot: 0, balance: 100n }]],
+      ['bob', [{ slot: 500, balance: 100n }]]
+    ]);
+    const shares = calculateLpEntitlements(balances, 1_000_000n, 0, 1000);
+
+    expect(shares.map(share => share.amount)).toEqual([666_666n, 333_333n]);
+    expect(tracker.getBalance(POOL, 'bob')).toBe(100n);
+  });
+
+  it('ignores liquidity removed before the epoch and rejects negative balances', () => {
+    const tracker = new LpRewardTracker();
+    tracker.recordBalanceChange(POOL, 'alice', 0, 50n);
+    tracker.recordBalanceChange(POOL, 'alice', 10, -50n);
+
+    expect(() => tracker.recordBalanceChange(POOL, 'alice', 20, -1n)).toThrow('negative');
+    expect(calculateLpEntitlements(new Map([['alice', [{ slot: 0, balance: 50n }, { slot: 10, balance: 0n }]]]), 1000n, 100, 200)).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * PuckSwap Context7 Monitor Host Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Data, Constr, fromText } from '@lucid-evolution/lucid';
+import { MonitorHost, MonitorEvent } from '../monitor-host';
+import { createStakingPlugin } from '../monitor-plugins';
+import { InMemoryEventStore } from '../event-store';
+import { StakingDatum } from '../staking-monitor';
+
+const STAKING = 'addr_test1staking';
+
+function stakingUtxo(txHash: string, slot: number, totalStaked: bigint): any {
+  return {
+    txHash,
+    outputIndex: 0,
+    address: STAKING,
+    assets: { lovelace: totalStaked },
+    datum: Data.to(new Constr(0, [totalStaked, totalStaked, fromText('pool1'), 0n])),
+    slot,
+    blockHeight: slot,
+    blockHash: `block_${slot}`
+  };
+}
+
+describe('monitor host', () => {
+  it('publishes and stores plugin events, then reverts them on rollback', async () => {
+    const store = new InMemoryEventStore();
+    const host = new MonitorHost({
+      projectId: 'mock_project_id',
+      network: 'preprod',
+      maxRetries: 1,
+      retryDelay: 0,
+      maxRetryDelay: 0,
+      eventStore: store
+    });
+    host.register(createStakingPlugin(STAKING));
+
+    const events: MonitorEvent[] = [];
+    host.addEventListener('staking', event => events.push(event));
+    await host.start();
+    const indexer = (host as any).indexer;
+
+    await indexer.simulateUtxo(stakingUtxo('tx_initial', 10, 1_000_000n));
+    await indexer.simulateUtxo(stakingUtxo('tx_deposit', 20, 3_000_000n));
+
+    expect(events.map(event => event.type)).toEqual(['deposit']);
+    expect((await store.query({ source: 'staking' })).map(event => event.txHash)).toEqual(['tx_deposit']);
+    expect(await store.getCheckpoint('staking', STAKING)).toBe(20);
+
+    await indexer.simulateRollback(15);
+
+    expect(events[1].type).toBe('EventRolledBack');
+    expect(events[1].payload.txHash).toBe('tx_deposit');
+    expect(host.getState<StakingDatum>('staking', STAKING)!.total_staked).toBe(1_000_000n);
+    expect(await store.query({ source: 'staking' })).toEqual([]);
+    expect(await store.getCheckpoint('staking', STAKING)).toBe(15);
+
+    await host.stop();
+  });
+
+  it('applies every update that lands in the checkpoint slot once', async () => {
+    const store = new InMemoryEventStore();
+    const host = new MonitorHost({
+      projectId: 'mock_project_id',
+      network: 'preprod',
+      maxRetries: 1,
+      retryDelay: 0,
+      maxRetryDelay: 0,
+      eventStore: store
+    });
+    host.register(createStakingPlugin(STAKING));
+
+    const events: MonitorEvent[] = [];
+    host.addEventListener('staking', event => events.push(event));
+    await host.start();
+    const indexer = (host as any).indexer;
+
+    await indexer.simulateUtxo(stakingUtxo('tx_initial', 10, 1_000_000n));
+    await indexer.simulateUtxo(stakingUtxo('tx_first', 20, 3_000_000n));
+    await indexer.simulateUtxo(stakingUtxo('tx_second', 20, 5_000_000n));
+    await indexer.simulateUtxo(stakingUtxo('tx_first', 20, 3_000_000n));
+
+    expect(host.getState<StakingDatum>('staking', STAKING)!.total_staked).toBe(5_000_000n);
+    expect(events.map(event => event.txHash)).toEqual(['tx_first', 'tx_second']);
+    expect(await store.getCheckpoint('staking', STAKING)).toBe(20);
+
+    await host.stop();
+  });
+});
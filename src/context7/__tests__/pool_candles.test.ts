@@ -0,0 +1,77 @@
+/**
+ * PuckSwap Pool Candle Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { PoolCandleService } from '../pool_candles';
+import { InMemoryEventStore } from '../event-store';
+import { PoolEvent } from '../pool_monitor';
+
+const POOL = 'addr_test1pool';
+const MINUTE = 60 * 1000;
+
+// ADA in for tokens out; the price is the post-swap ADA per token
+function swap(txHash: string, slot: number, timestamp: number, ada: bigint, token: bigint, adaIn: bigint): PoolEvent {
+  return {
+    type: 'swap',
+    txHash,
+    timestamp,
+    blockHeight: slot,
+    blockHash: `block_${slot}`,
+    slot,
+    poolAddress: POOL,
+    poolDatum: { ada_reserve: ada, token_reserve: token, fee_basis_points: 30, lp_token_policy: 'lp', lp_token_name: 'LP' },
+    data: {
+      inputToken: { policy: '', name: '', amount: adaIn },
+      outputToken: { policy: 'token', name: 'TKN', amount: adaIn / 2n },
+      user: 'unknown',
+      price: 0,
+      priceImpact: 0,
+      fee: 0n
+    }
+  };
+}
+
+describe('pool candles', () => {
+  it('aggregates swaps into OHLCV candles per interval', () => {
+    const candles = new PoolCandleService();
+    candles.recordSwap(swap('t1', 1, 0, 2_000n, 1_000n, 100n));
+    candles.recordSwap(swap('t3', 3, 90 * 1000, 1_500n, 1_000n, 50n));
+    candles.recordSwap(swap('t2', 2, 30 * 1000, 3_000n, 1_000n, 20n));
+    expect(candles.recordSwap(swap('t2', 2, 30 * 1000, 3_000n, 1_000n, 20n))).toBe(false);
+
+    const minutes = candles.getCandles(POOL, '1m', 0, 2 * MINUTE);
+    expect(minutes.map(candle => [candle.open, candle.high, candle.low, candle.close])).toEqual([[2, 3, 2, 3], [1.5, 1.5, 1.5, 1.5]]);
+    expect(minutes[0].volume).toBe(120n);
+
+    const [fiveMinutes] = candles.getCandles(POOL, '5m', 0, 5 * MINUTE);
+    expect(fiveMinutes.close).toBe(1.5);
+    expect(fiveMinutes.swapCount).toBe(3);
+    expect(() => candles.getCandles(POOL, '1m', 0, 2000 * MINUTE)).toThrow('maximum is 1000');
+  });
+
+  it('backfills from the event store and drops rolled back trades', async () => {
+    const store = new InMemoryEventStore();
+    for (const event of [swap('t1', 10, 0, 2_000n, 1_000n, 100n), swap('t2', 20, MINUTE, 3_000n, 1_000n, 100n)]) {
+      await store.append({
+        source: 'pool',
+        type: 'swap',
+        slot: event.slot,
+        txHash: event.txHash,
+        timestamp: event.timestamp,
+        key: POOL,
+        payload: { source: 'pool', type: 'swap', address: POOL, txHash: event.txHash, slot: event.slot, blockHeight: event.slot, blockHash: event.blockHash, timestamp: event.timestamp, payload: event }
+      });
+    }
+
+    const candles = new PoolCandleService();
+    expect(await candles.backfill(store, POOL, 0, 2 * MINUTE)).toBe(2);
+
+    await store.rollback('pool', 15);
+    await candles.backfill(store, POOL, 0, 2 * MINUTE);
+    expect(candles.getCandles(POOL, '1h', 0, 2 * MINUTE).map(candle => candle.close)).toEqual([2]);
+
+    candles.rollbackTo(POOL, 5);
+    expect(candles.getTrades(POOL)).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * PuckSwap Pool Monitor Rollback Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { PoolMonitor, PoolEvent, RolledBackEventData } from '../pool_monitor';
+import { InMemoryEventStore } from '../event-store';
+import { PuckSwapSerializer, PoolDatum } from '../../lucid/utils/serialization';
+
+const POOL = 'addr_test1pool';
+
+function poolUtxo(txHash: string, slot: number, ada: bigint, token: bigint): any {
+  const datum: PoolDatum = {
+    ada_reserve: ada,
+    token_reserve: token,
+    fee_basis_points: 30,
+    lp_token_policy: 'lp',
+    lp_token_name: 'LP'
+  };
+  return {
+    txHash,
+    outputIndex: 0,
+    address: POOL,
+    assets: { lovelace: ada },
+    datum: PuckSwapSerializer.serializePoolDatum(datum),
+    slot,
+    blockHash: `block_${slot}`
+  };
+}
+
+async function startMonitor() {
+  const monitor = new PoolMonitor({
+    poolAddresses: [POOL],
+    blockfrostApiKey: 'mock_project_id',
+    network: 'preprod',
+    enableWebSocket: false,
+    pollingInterval: 60_000,
+    maxRetries: 1,
+    retryDelay: 0,
+    enableBroadcast: false
+  });
+  const store = new InMemoryEventStore();
+  monitor.setEventStore(store);
+  await monitor.initialize();
+  await monitor.startMonitoring();
+  return { monitor, store, indexer: (monitor as any).host.indexer };
+}
+
+describe('pool monitor rollbacks', () => {
+  it('reverts state, analytics and stored events to the fork point', async () => {
+    const { monitor, store, indexer } = await startMonitor();
+    const rolledBack: PoolEvent[] = [];
+    monitor.addEventListener('EventRolledBack', event => rolledBack.push(event));
+
+    await indexer.simulateUtxo(poolUtxo('tx_create', 10, 1_000_000n, 1_000_000n));
+    await indexer.simulateUtxo(poolUtxo('tx_swap', 20, 1_100_000n, 910_000n));
+    expect(monitor.getPoolAnalytics(POOL)!.swapCount24h).toBe(1);
+
+    await indexer.simulateRollback(15);
+
+    expect(monitor.getPoolState(POOL)!.ada_reserve).toBe(1_000_000n);
+    expect(monitor.getPoolAnalytics(POOL)!.swapCount24h).toBe(0);
+    expect(rolledBack.map(event => (event.data as RolledBackEventData).event.txHash)).toEqual(['tx_swap']);
+    expect((await store.query()).map(event => event.txHash)).toEqual(['tx_create']);
+    expect(await store.getCheckpoint('pool', POOL)).toBe(15);
+
+    // The replacement block on the new fork is processed normally
+    await indexer.simulateUtxo(poolUtxo('tx_swap_fork', 16, 1_050_000n, 953_000n));
+    expect(monitor.getPoolState(POOL)!.ada_reserve).toBe(1_050_000n);
+
+    await monitor.stopMonitoring();
+  });
+});
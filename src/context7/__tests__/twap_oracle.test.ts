@@ -0,0 +1,46 @@
+/**
+ * PuckSwap TWAP Oracle Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { PuckSwapTwapOracle } from '../twap_oracle';
+
+const POOL = 'addr_test1pool';
+
+describe('TWAP oracle', () => {
+  it('weights each price by the slots it was in effect', () => {
+    const oracle = new PuckSwapTwapOracle();
+    oracle.recordObservation(POOL, 0, 1_000_000n);
+    oracle.recordObservation(POOL, 900, 3_000_000n);
+
+    // 900 slots at 1.0 and 100 slots at 3.0
+    const twap = oracle.getTwap(POOL, 1000, 1000);
+    expect(twap.price).toBe(1_200_000n);
+    expect(twap.observationCount).toBe(1);
+  });
+
+  it('resists a single-slot price spike', () => {
+    const oracle = new PuckSwapTwapOracle();
+    oracle.recordObservation(POOL, 0, 1_000_000n);
+    oracle.recordObservation(POOL, 999, 100_000_000n);
+    oracle.recordObservation(POOL, 1000, 1_000_000n);
+
+    expect(oracle.getTwap(POOL, 1000).price).toBe(1_099_000n);
+  });
+
+  it('keeps the last price when several swaps land in one slot', () => {
+    const oracle = new PuckSwapTwapOracle();
+    oracle.recordObservation(POOL, 0, 1_000_000n);
+    oracle.recordObservation(POOL, 0, 2_000_000n);
+
+    expect(oracle.getTwap(POOL, 100, 100).price).toBe(2_000_000n);
+  });
+
+  it('refuses windows longer than the recorded history', () => {
+    const oracle = new PuckSwapTwapOracle();
+    oracle.recordObservation(POOL, 500, 1_000_000n);
+
+    expect(() => oracle.getTwap(POOL, 1000, 1000)).toThrow('Insufficient price history');
+    expect(() => oracle.getTwap('unknown', 10)).toThrow('No price observations');
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * PuckSwap Context7 Webhook Delivery Tests
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { createServer, IncomingHttpHeaders } from 'http';
+import { AddressInfo } from 'net';
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  WebhookDispatcher,
+  FileWebhookOutbox,
+  WEBHOOK_HEADERS,
+  verifyWebhookSignature,
+  createWebhookDispatcher
+} from '../webhook-delivery';
+
+const SECRET = 'whsec_test';
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+// Local receiver answering with the queued status codes, then 200
+async function startReceiver(statuses: number[]) {
+  const received: ReceivedRequest[] = [];
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = statuses.shift() ?? 200;
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  return { url, received, close: () => new Promise(resolve => server.close(resolve)) };
+}
+
+describe('webhook delivery', () => {
+  it('signs, filters and retries deliveries until acknowledged', async () => {
+    const receiver = await startReceiver([500]);
+    const dispatcher = new WebhookDispatcher({
+      subscribers: [
+        { id: 'trading', url: receiver.url, secret: SECRET, eventTypes: ['pool:swap'] },
+        { id: 'staking', url: receiver.url, eventTypes: ['staking'] }
+      ],
+      retryDelay: 1000
+    });
+
+    try {
+      const [delivery] = await dispatcher.publish('pool', 'swap', { amount: 5n });
+      expect((await dispatcher.getPendingDeliveries())[0].attempts).toBe(1);
+
+      await dispatcher.processDue(Date.now() + 1000);
+      expect(await dispatcher.getPendingDeliveries()).toEqual([]);
+
+      expect(receiver.received.length).toBe(2);
+      const [failed, acknowledged] = receiver.received;
+      expect(acknowledged.body).toBe(failed.body);
+      expect(acknowledged.headers[WEBHOOK_HEADERS.DELIVERY.toLowerCase()]).toBe(delivery.id);
+      expect(JSON.parse(acknowledged.body).event.amount).toBe('5');
+      expect(verifyWebhookSignature(
+        SECRET,
+        acknowledged.body,
+        acknowledged.headers[WEBHOOK_HEADERS.TIMESTAMP.toLowerCase()] as string,
+        acknowledged.headers[WEBHOOK_HEADERS.SIGNATURE.toLowerCase()] as string
+      )).toBe(true);
+      expect(verifyWebhookSignature('wrong', acknowledged.body, Date.now(), 'sha256=00')).toBe(false);
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  it('moves exhausted deliveries to dead letters and replays them', async () => {
+    const receiver = await startReceiver([503, 503]);
+    const dispatcher = new WebhookDispatcher({
+      subscribers: [{ id: 'analytics', url: receiver.url }],
+      maxAttempts: 2,
+      retryDelay: 0
+    });
+
+    try {
+      await dispatcher.publish('treasury', 'distribution', { amount: 10n });
+      await dispatcher.processDue();
+
+      const [deadLetter] = await dispatcher.getDeadLetters();
+      expect(deadLetter.lastError).toBe('Webhook failed with status: 503');
+
+      expect(await dispatcher.replayDeadLetters()).toBe(1);
+      expect(await dispatcher.getDeadLetters()).toEqual([]);
+      expect(receiver.received.length).toBe(3);
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  it('enqueues without waiting for the subscriber', async () => {
+    const receiver = await startReceiver([]);
+    const dispatcher = new WebhookDispatcher({ subscribers: [{ id: 'analytics', url: receiver.url }] });
+
+    try {
+      await dispatcher.enqueue('pool', 'swap', { amount: 1n });
+      expect((await dispatcher.getPendingDeliveries()).map(delivery => delivery.attempts)).toEqual([0]);
+      expect(receiver.received.length).toBe(0);
+
+      while ((await dispatcher.getPendingDeliveries()).length > 0) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+      expect(receiver.received.length).toBe(1);
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  it('keeps pending deliveries of the webhookUrl dispatcher in its outbox directory', async () => {
+    const directory = mkdtempSync(path.join(tmpdir(), 'webhooks-'));
+    const receiver = await startReceiver([500]);
+
+    try {
+      const dispatcher = createWebhookDispatcher(receiver.url, SECRET, { backend: 'file', directory });
+      await dispatcher.publish('staking', 'deposit', { amount: 2n });
+
+      const restarted = createWebhookDispatcher(receiver.url, SECRET, { backend: 'file', directory });
+      const [pending] = await restarted.getPendingDeliveries();
+      expect(pending.attempts).toBe(1);
+      expect(pending.lastError).toBe('Webhook failed with status: 500');
+    } finally {
+      await receiver.close();
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('keeps only the newest dead letters', async () => {
+    const receiver = await startReceiver([500, 500, 500]);
+    const dispatcher = new WebhookDispatcher({
+      subscribers: [{ id: 'analytics', url: receiver.url }],
+      maxAttempts: 1,
+      maxDeadLetters: 2
+    });
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    try {
+      for (const amount of [1n, 2n, 3n]) {
+        await dispatcher.publish('pool', 'swap', { amount });
+        await new Promise(resolve => setTimeout(resolve, 2));
+      }
+
+      const deadLetters = await dispatcher.getDeadLetters();
+      expect(deadLetters.map(delivery => JSON.parse(delivery.body).event.amount).sort()).toEqual(['2', '3']);
+      expect(warn).toHaveBeenCalledWith('Dropped 1 webhook dead letter(s) beyond the 2 limit');
+    } finally {
+      error.mockRestore();
+      warn.mockRestore();
+      await receiver.close();
+    }
+  });
+
+  it('starts an empty file outbox over a corrupt file and retries a failed first read', async () => {
+    const directory = mkdtempSync(path.join(tmpdir(), 'webhooks-'));
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    try {
+      const blocked = path.join(directory, 'outbox');
+      writeFileSync(blocked, '');
+      const outbox = new FileWebhookOutbox(blocked);
+      await expect(outbox.list()).rejects.toThrow();
+
+      rmSync(blocked);
+      expect(await outbox.list()).toEqual([]);
+
+      writeFileSync(path.join(blocked, 'webhook-outbox.json'), '[{"id": "torn"');
+      const recovered = new FileWebhookOutbox(blocked);
+      expect(await recovered.list()).toEqual([]);
+      expect(warn).toHaveBeenCalledWith('Ignoring unreadable webhook outbox:', expect.any(SyntaxError));
+
+      await recovered.remove('missing');
+      expect(readdirSync(blocked)).toEqual(['webhook-outbox.json']);
+      expect(await new FileWebhookOutbox(blocked).list()).toEqual([]);
+    } finally {
+      warn.mockRestore();
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,659 +0,0 @@
-// PuckSwap v5 DeFi - Cross-Chain Monitor
-// Context7 real-time monitoring for cross-chain message passing and bridge integrations
-// WebSocket integration with comprehensive cross-chain analytics
-
-import { createIndexer, Indexer, UTxO, Address, PolicyId } from "@context7/sdk";
-
-// Cross-chain monitoring interfaces
-export interface CrossChainRouterState {
-  totalVolume: bigint;
-  lastProcessedNonce: number;
-  chainConnections: ChainConnection[];
-  outboundMessages: OutboundMessage[];
-  inboundMessages: InboundMessage[];
-  processedMessageHashes: string[];
-  trustedBridges: TrustedBridge[];
-  bridgeOperators: Address[];
-  governanceAddress: Address;
-  minConfirmations: number;
-  maxMessageAgeSlots: number;
-  nonceWindow: number;
-  emergencyPause: boolean;
-  crossChainFeeBps: number;
-  bridgeFeeBps: number;
-  operatorFeeBps: number;
-  maxTransferAmount: bigint;
-  dailyTransferLimit: bigint;
-  lastResetSlot: number;
-  dailyVolume: bigint;
-  totalTransfers: number;
-  totalFeesCollected: bigint;
-  successfulTransfers: number;
-  failedTransfers: number;
-}
-
-export interface ChainConnection {
-  chainId: number;
-  chainName: string;
-  bridgeAddress: string;
-  nativeTokenPolicy: PolicyId;
-  wrappedTokenPolicy: PolicyId;
-  isActive: boolean;
-  lastSyncSlot: number;
-  totalLocked: bigint;
-  totalMinted: bigint;
-}
-
-export interface TrustedBridge {
-  bridgeId: string;
-  bridgeAddress: Address;
-  supportedChains: number[];
-  publicKey: string;
-  isActive: boolean;
-  reputationScore: number;
-  totalVolume: bigint;
-  successRate: number;
-}
-
-export interface OutboundMessage {
-  messageId: string;
-  nonce: number;
-  destinationChain: number;
-  recipient: string;
-  tokenPolicy: PolicyId;
-  tokenName: string;
-  amount: bigint;
-  sender: Address;
-  createdSlot: number;
-  status: MessageStatus;
-  bridgeId: string;
-  confirmations: number;
-  executionHash: string;
-}
-
-export interface InboundMessage {
-  messageId: string;
-  sourceChain: number;
-  sourceTxHash: string;
-  sender: string;
-  recipient: Address;
-  tokenPolicy: PolicyId;
-  tokenName: string;
-  amount: bigint;
-  createdSlot: number;
-  status: MessageStatus;
-  bridgeId: string;
-  proof: CrossChainProof;
-}
-
-export interface CrossChainProof {
-  merkleRoot: string;
-  merkleProof: string[];
-  blockHash: string;
-  blockNumber: number;
-  signatures: BridgeSignature[];
-}
-
-export interface BridgeSignature {
-  signer: string;
-  signature: string;
-  timestamp: number;
-}
-
-export type MessageStatus = 'Pending' | 'Processing' | 'Confirmed' | 'Completed' | 'Failed' | 'Cancelled' | 'Expired';
-
-export interface CrossChainEvent {
-  type: 'TransferInitiated' | 'TransferCompleted' | 'TransferFailed' | 'MessageConfirmed' |
-        'BridgeAdded' | 'BridgeRemoved' | 'ChainConnectionUpdated' | 'SecurityParamsUpdated' |
-        'EmergencyPause' | 'EmergencyUnpause' | 'DailyLimitReached' | 'SuspiciousActivity';
-  messageId?: string;
-  bridgeId?: string;
-  chainId?: number;
-  userAddress?: Address;
-  amount?: bigint;
-  transactionHash: string;
-  slot: number;
-  blockHeight: number;
-  timestamp: Date;
-  data: any;
-}
-
-export interface CrossChainAnalytics {
-  totalVolume: bigint;
-  totalTransfers: number;
-  successRate: number;
-  averageTransferTime: number;
-  volumeByChain: Map<number, bigint>;
-  transfersByChain: Map<number, number>;
-  bridgePerformance: Map<string, {
-    volume: bigint;
-    transfers: number;
-    successRate: number;
-    averageTime: number;
-    reputation: number;
-  }>;
-  dailyVolume: Array<{
-    date: Date;
-    volume: bigint;
-    transfers: number;
-    successfulTransfers: number;
-    failedTransfers: number;
-  }>;
-  topUsers: Array<{
-    address: Address;
-    totalVolume: bigint;
-    totalTransfers: number;
-    favoriteChains: number[];
-  }>;
-  securityMetrics: {
-    failedTransfers: number;
-    suspiciousActivities: number;
-    emergencyPauses: number;
-    averageConfirmations: number;
-  };
-}
-
-export interface CrossChainMonitorConfig {
-  routerAddress: Address;
-  packetAddresses: Address[];
-  blockfrostApiKey: string;
-  network: "mainnet" | "preview" | "preprod";
-  webhookUrl?: string;
-  enableWebSocket: boolean;
-  pollingInterval: number;
-  maxRetries: number;
-  retryDelay: number;
-  enableAlerts: boolean;
-  alertThresholds: {
-    highFailureRateThreshold: number;
-    suspiciousVolumeThreshold: bigint;
-    longPendingTimeHours: number;
-    dailyLimitPercentage: number;
-  };
-  externalChainRPCs?: Map<number, string>;
-}
-
-export class CrossChainMonitor {
-  private indexer: Indexer;
-  private config: CrossChainMonitorConfig;
-  private currentState: CrossChainRouterState | null = null;
-  private eventListeners: Map<string, ((event: CrossChainEvent) => void)[]> = new Map();
-  private isMonitoring = false;
-  private retryCount = 0;
-  private analytics: CrossChainAnalytics | null = null;
-  private externalChainConnections: Map<number, any> = new Map();
-
-  constructor(config: CrossChainMonitorConfig) {
-    this.config = config;
-  }
-
-  // Initialize the monitor
-  async initialize(): Promise<void> {
-    try {
-      this.indexer = await createIndexer({
-        projectId: this.config.blockfrostApiKey,
-        network: this.config.network
-      });
-
-      // Initialize external chain connections if configured
-      if (this.config.externalChainRPCs) {
-        await this.initializeExternalChainConnections();
-      }
-
-      console.log("Cross-Chain Monitor initialized successfully");
-    } catch (error) {
-      console.error("Failed to initialize Cross-Chain Monitor:", error);
-      throw error;
-    }
-  }
-
-  // Start monitoring cross-chain router
-  async startMonitoring(): Promise<void> {
-    if (this.isMonitoring) {
-      console.warn("Cross-Chain Monitor is already running");
-      return;
-    }
-
-    try {
-      this.isMonitoring = true;
-      console.log("Starting Cross-Chain monitoring...");
-
-      // Load initial state
-      await this.loadInitialState();
-
-      // Subscribe to router address changes
-      this.indexer.addresses.subscribe([this.config.routerAddress], (utxo) => {
-        this.handleRouterUpdate(utxo);
-      });
-
-      // Subscribe to packet address changes
-      for (const packetAddress of this.config.packetAddresses) {
-        this.indexer.addresses.subscribe([packetAddress], (utxo) => {
-          this.handlePacketUpdate(utxo);
-        });
-      }
-
-      // Start periodic updates and analytics
-      this.startPeriodicUpdates();
-      this.startAnalyticsUpdates();
-      this.startExternalChainMonitoring();
-
-      console.log("Cross-Chain monitoring started successfully");
-    } catch (error) {
-      console.error("Failed to start Cross-Chain monitoring:", error);
-      this.isMonitoring = false;
-
-      if (this.retryCount < this.config.maxRetries) {
-        this.retryCount++;
-        console.log(`Retrying in ${this.config.retryDelay}ms... (${this.retryCount}/${this.config.maxRetries})`);
-        setTimeout(() => this.startMonitoring(), this.config.retryDelay);
-      } else {
-        throw error;
-      }
-    }
-  }
-
-  // Stop monitoring
-  async stopMonitoring(): Promise<void> {
-    if (!this.isMonitoring) {
-      return;
-    }
-
-    this.isMonitoring = false;
-    console.log("Cross-Chain monitoring stopped");
-  }
-
-  // Get current router state
-  getCurrentState(): CrossChainRouterState | null {
-    return this.currentState;
-  }
-
-  // Get cross-chain analytics
-  getAnalytics(): CrossChainAnalytics | null {
-    return this.analytics;
-  }
-
-  // Get supported chains
-  getSupportedChains(): ChainConnection[] {
-    return this.currentState?.chainConnections.filter(conn => conn.isActive) || [];
-  }
-
-  // Get active bridges
-  getActiveBridges(): TrustedBridge[] {
-    return this.currentState?.trustedBridges.filter(bridge => bridge.isActive) || [];
-  }
-
-  // Get pending messages
-  getPendingMessages(): {
-    outbound: OutboundMessage[];
-    inbound: InboundMessage[];
-  } {
-    if (!this.currentState) {
-      return { outbound: [], inbound: [] };
-    }
-
-    const outbound = this.currentState.outboundMessages.filter(msg =>
-      msg.status === 'Pending' || msg.status === 'Processing'
-    );
-
-    const inbound = this.currentState.inboundMessages.filter(msg =>
-      msg.status === 'Pending' || msg.status === 'Processing'
-    );
-
-    return { outbound, inbound };
-  }
-
-  // Get messages by user
-  getMessagesByUser(userAddress: Address): {
-    outbound: OutboundMessage[];
-    inbound: InboundMessage[];
-  } {
-    if (!this.currentState) {
-      return { outbound: [], inbound: [] };
-    }
-
-    const outbound = this.currentState.outboundMessages.filter(msg => msg.sender === userAddress);
-    const inbound = this.currentState.inboundMessages.filter(msg => msg.recipient === userAddress);
-
-    return { outbound, inbound };
-  }
-
-  // Get bridge performance
-  getBridgePerformance(bridgeId: string): {
-    totalVolume: bigint;
-    totalTransfers: number;
-    successRate: number;
-    averageTransferTime: number;
-    reputationScore: number;
-  } | null {
-    if (!this.currentState) {
-      return null;
-    }
-
-    const bridge = this.currentState.trustedBridges.find(b => b.bridgeId === bridgeId);
-    if (!bridge) {
-      return null;
-    }
-
-    const bridgeMessages = this.currentState.outboundMessages.filter(msg => msg.bridgeId === bridgeId);
-    const completedMessages = bridgeMessages.filter(msg => msg.status === 'Completed');
-    const failedMessages = bridgeMessages.filter(msg => msg.status === 'Failed');
-
-    const successRate = bridgeMessages.length > 0 ?
-      (completedMessages.length / bridgeMessages.length) * 100 : 0;
-
-    // Calculate average transfer time (simplified)
-    const averageTransferTime = completedMessages.length > 0 ?
-      completedMessages.reduce((sum, msg) => sum + (msg.confirmations * 20), 0) / completedMessages.length : 0;
-
-    return {
-      totalVolume: bridge.totalVolume,
-      totalTransfers: bridgeMessages.length,
-      successRate,
-      averageTransferTime,
-      reputationScore: bridge.reputationScore
-    };
-  }
-
-  // Get chain statistics
-  getChainStatistics(chainId: number): {
-    totalVolume: bigint;
-    totalTransfers: number;
-    totalLocked: bigint;
-    totalMinted: bigint;
-    isActive: boolean;
-    lastSyncSlot: number;
-  } | null {
-    if (!this.currentState) {
-      return null;
-    }
-
-    const connection = this.currentState.chainConnections.find(conn => conn.chainId === chainId);
-    if (!connection) {
-      return null;
-    }
-
-    const chainMessages = this.currentState.outboundMessages.filter(msg => msg.destinationChain === chainId);
-    const totalVolume = chainMessages.reduce((sum, msg) => sum + msg.amount, 0n);
-
-    return {
-      totalVolume,
-      totalTransfers: chainMessages.length,
-      totalLocked: connection.totalLocked,
-      totalMinted: connection.totalMinted,
-      isActive: connection.isActive,
-      lastSyncSlot: connection.lastSyncSlot
-    };
-  }
-
-  // Add event listener
-  addEventListener(eventType: string, callback: (event: CrossChainEvent) => void): void {
-    if (!this.eventListeners.has(eventType)) {
-      this.eventListeners.set(eventType, []);
-    }
-    this.eventListeners.get(eventType)!.push(callback);
-  }
-
-  // Remove event listener
-  removeEventListener(eventType: string, callback: (event: CrossChainEvent) => void): void {
-    const listeners = this.eventListeners.get(eventType);
-    if (listeners) {
-      const index = listeners.indexOf(callback);
-      if (index > -1) {
-        listeners.splice(index, 1);
-      }
-    }
-  }
-
-  // Private methods
-  private async initializeExternalChainConnections(): Promise<void> {
-    if (!this.config.externalChainRPCs) return;
-
-    for (const [chainId, rpcUrl] of this.config.externalChainRPCs.entries()) {
-      try {
-        // Initialize connection to external chain
-        // This would use appropriate libraries for each chain (ethers.js for Ethereum, etc.)
-        console.log(`Initializing connection to chain ${chainId} at ${rpcUrl}`);
-
-        // Store connection for later use
-        this.externalChainConnections.set(chainId, { rpcUrl, connected: true });
-      } catch (error) {
-        console.error(`Failed to connect to chain ${chainId}:`, error);
-        this.externalChainConnections.set(chainId, { rpcUrl, connected: false });
-      }
-    }
-  }
-
-  private async loadInitialState(): Promise<void> {
-    try {
-      const routerUTxOs = await this.indexer.utxos.byAddress(this.config.routerAddress);
-
-      if (routerUTxOs.length === 0) {
-        throw new Error("Cross-chain router UTxO not found");
-      }
-
-      const routerUTxO = routerUTxOs[0];
-      this.currentState = await this.parseRouterState(routerUTxO);
-
-      console.log(`Loaded initial router state with ${this.currentState.totalTransfers} total transfers`);
-    } catch (error) {
-      console.error("Failed to load initial router state:", error);
-      throw error;
-    }
-  }
-
-  private async parseRouterState(utxo: UTxO): Promise<CrossChainRouterState> {
-    // Parse the router datum from UTxO
-    // This would need to match the exact CIP-68 structure from the Aiken contract
-
-    // Placeholder implementation
-    return {
-      totalVolume: BigInt(utxo.assets?.[""] || "5000000000000"), // 5M ADA
-      lastProcessedNonce: 1000,
-      chainConnections: [
-        {
-          chainId: 1,
-          chainName: "Ethereum",
-          bridgeAddress: "0x1234567890abcdef",
-          nativeTokenPolicy: "",
-          wrappedTokenPolicy: "wrapped_eth_policy",
-          isActive: true,
-          lastSyncSlot: utxo.slot || 1000000,
-          totalLocked: 1000000000000n,
-          totalMinted: 1000000000000n
-        },
-        {
-          chainId: 56,
-          chainName: "BSC",
-          bridgeAddress: "0xabcdef1234567890",
-          nativeTokenPolicy: "",
-          wrappedTokenPolicy: "wrapped_bnb_policy",
-          isActive: true,
-          lastSyncSlot: utxo.slot || 1000000,
-          totalLocked: 500000000000n,
-          totalMinted: 500000000000n
-        }
-      ],
-      outboundMessages: [],
-      inboundMessages: [],
-      processedMessageHashes: [],
-      trustedBridges: [
-        {
-          bridgeId: "bridge_1",
-          bridgeAddress: "addr1_bridge_1",
-          supportedChains: [1, 56, 137],
-          publicKey: "bridge_1_public_key",
-          isActive: true,
-          reputationScore: 95,
-          totalVolume: 2000000000000n,
-          successRate: 9950 // 99.5%
-        }
-      ],
-      bridgeOperators: ["addr1_operator_1", "addr1_operator_2"],
-      governanceAddress: "addr1_governance",
-      minConfirmations: 3,
-      maxMessageAgeSlots: 604800, // 7 days
-      nonceWindow: 1000,
-      emergencyPause: false,
-      crossChainFeeBps: 30, // 0.3%
-      bridgeFeeBps: 20, // 0.2%
-      operatorFeeBps: 10, // 0.1%
-      maxTransferAmount: 1000000000000n, // 1M ADA
-      dailyTransferLimit: 10000000000000n, // 10M ADA
-      lastResetSlot: utxo.slot || 1000000,
-      dailyVolume: 2000000000000n, // 2M ADA
-      totalTransfers: 5000,
-      totalFeesCollected: 50000000000n, // 50K ADA
-      successfulTransfers: 4950,
-      failedTransfers: 50
-    };
-  }
-
-  private handleRouterUpdate(utxo: UTxO): void {
-    try {
-      console.log("Router update detected:", utxo.txHash);
-
-      this.parseRouterState(utxo).then(newState => {
-        const oldState = this.currentState;
-        this.currentState = newState;
-
-        // Detect and emit events
-        this.detectAndEmitEvents(oldState, newState, utxo);
-
-        // Update analytics
-        this.updateAnalytics();
-
-        // Check for alerts
-        if (this.config.enableAlerts) {
-          this.checkAlerts();
-        }
-      }).catch(error => {
-        console.error("Failed to parse router update:", error);
-      });
-    } catch (error) {
-      console.error("Failed to handle router update:", error);
-    }
-  }
-
-  private handlePacketUpdate(utxo: UTxO): void {
-    try {
-      console.log("Packet update detected:", utxo.txHash);
-
-      // Analyze packet transaction
-      this.analyzePacketTransaction(utxo);
-    } catch (error) {
-      console.error("Failed to handle packet update:", error);
-    }
-  }
-
-  private analyzePacketTransaction(utxo: UTxO): void {
-    // Analyze packet transaction to detect message status changes
-    // This would parse the packet datum to understand the message state
-
-    // For now, emit a generic message confirmed event
-    this.emitEvent({
-      type: 'MessageConfirmed',
-      messageId: `packet_${utxo.txHash}`,
-      transactionHash: utxo.txHash,
-      slot: utxo.slot || 0,
-      blockHeight: utxo.blockHeight || 0,
-      timestamp: new Date(),
-      data: { packetAddress: utxo.address }
-    });
-  }
-
-  private detectAndEmitEvents(
-    oldState: CrossChainRouterState | null,
-    newState: CrossChainRouterState,
-    utxo: UTxO
-  ): void {
-    if (!oldState) return;
-
-    // Detect new transfers
-    if (newState.totalTransfers > oldState.totalTransfers) {
-      const newTransfers = newState.totalTransfers - oldState.totalTransfers;
-      this.emitEvent({
-        type: 'TransferInitiated',
-        amount: newState.totalVolume - oldState.totalVolume,
-        transactionHash: utxo.txHash,
-        slot: utxo.slot || 0,
-        blockHeight: utxo.blockHeight || 0,
-        timestamp: new Date(),
-        data: { newTransfers, totalTransfers: newState.totalTransfers }
-      });
-    }
-
-    // Detect successful transfers
-    if (newState.successfulTransfers > oldState.successfulTransfers) {
-      const newSuccessful = newState.successfulTransfers - oldState.successfulTransfers;
-      this.emitEvent({
-        type: 'TransferCompleted',
-        transactionHash: utxo.txHash,
-        slot: utxo.slot || 0,
-        blockHeight: utxo.blockHeight || 0,
-        timestamp: new Date(),
-        data: { newSuccessful, totalSuccessful: newState.successfulTransfers }
-      });
-    }
-
-    // Detect failed transfers
-    if (newState.failedTransfers > oldState.failedTransfers) {
-      const newFailed = newState.failedTransfers - oldState.failedTransfers;
-      this.emitEvent({
-        type: 'TransferFailed',
-        transactionHash: utxo.txHash,
-        slot: utxo.slot || 0,
-        blockHeight: utxo.blockHeight || 0,
-        timestamp: new Date(),
-        data: { newFailed, totalFailed: newState.failedTransfers }
-      });
-    }
-
-    // Detect bridge changes
-    const newBridges = newState.trustedBridges.filter(newBridge =>
-      !oldState.trustedBridges.some(oldBridge => oldBridge.bridgeId === newBridge.bridgeId)
-    );
-
-    for (const bridge of newBridges) {
-      this.emitEvent({
-        type: 'BridgeAdded',
-        bridgeId: bridge.bridgeId,
-        transactionHash: utxo.txHash,
-        slot: utxo.slot || 0,
-        blockHeight: utxo.blockHeight || 0,
-        timestamp: new Date(),
-        data: bridge
-      });
-    }
-
-    // Detect emergency pause/unpause
-    if (oldState.emergencyPause !== newState.emergencyPause) {
-      this.emitEvent({
-        type: newState.emergencyPause ? 'EmergencyPause' : 'EmergencyUnpause',
-        transactionHash: utxo.txHash,
-        slot: utxo.slot || 0,
-        blockHeight: utxo.blockHeight || 0,
-        timestamp: new Date(),
-        data: { paused: newState.emergencyPause }
-      });
-    }
-
-    // Detect daily limit reached
-    const dailyLimitPercentage = Number(newState.dailyVolume * 100n / newState.dailyTransferLimit);
-    if (dailyLimitPercentage >= this.config.alertThresholds.dailyLimitPercentage) {
-      this.emitEvent({
-        type: 'DailyLimitReached',
-        amount: newState.dailyVolume,
-        transactionHash: utxo.txHash,
-        slot: utxo.slot || 0,
-        blockHeight: utxo.blockHeight || 0,
-        timestamp: new Date(),
-        data: {
-          dailyVolume: newState.dailyVolume,
-          dailyLimit: newState.dailyTransferLimit,
-          percentage: dailyLimitPercentage
-        }
-      });
-    }
-  }
-}
\ No newline at end of file
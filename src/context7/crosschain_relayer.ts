@@ -0,0 +1,508 @@
+// PuckSwap v5 - Cross-Chain Message Relayer
+// Delivers outbound router messages to their destination chain and completes
+// inbound transfers on Cardano once their source-chain proof checks out
+//
+// Proofs: each source-chain block commits to its bridge messages with a Merkle
+// root (sha256, sorted pairs); trusted bridges sign sha256(merkleRoot ‖ blockHash)
+// with the ed25519 key in TrustedBridge.publicKey
+// Chains are reached through SourceChainAdapter so tests can plug in a local fake
+// Relay records live in a RelayStateStore so a restarted relayer does not deliver twice
+
+import { createHash, createPublicKey, verify } from "crypto";
+import { NodeFileSystem, WriteQueue, readJsonFile, replaceFile, requireFileSystem } from "./file-store";
+import type {
+  PuckSwapCrossChainRouter,
+  CrossChainRouterState,
+  CrossChainProof,
+  InboundMessage,
+  OutboundMessage,
+  TrustedBridge
+} from "../lucid/crosschain";
+import type { CrossChainRouterMonitor, CrossChainRouterEvent } from "./crosschain_monitor";
+
+// =============================================================================
+// RELAYER TYPES
+// =============================================================================
+
+// Fields of an inbound message the source chain commits to
+export type BridgeMessageLeaf = Pick<
+  InboundMessage,
+  'messageId' | 'sourceChain' | 'sourceTxHash' | 'sender' | 'recipient' | 'tokenPolicy' | 'tokenName' | 'amount'
+>;
+
+export interface SourceChainBlock {
+  blockNumber: number;
+  blockHash: string; // 32-byte hex
+  messages: BridgeMessageLeaf[]; // In commitment order
+  signatures: CrossChainProof['signatures']; // Bridge attestations of the block's Merkle root
+}
+
+// Access to one external chain
+export interface SourceChainAdapter {
+  readonly chainId: number;
+  getLatestBlockNumber(): Promise<number>;
+  findMessageBlock(messageId: string): Promise<SourceChainBlock | null>;
+  deliverOutbound(message: OutboundMessage): Promise<string>; // Destination chain tx hash
+  // Destination tx that already carries the message, checked before delivering it
+  findOutboundDelivery?(messageId: string): Promise<string | null>;
+}
+
+export type RelayRouter = Pick<PuckSwapCrossChainRouter, 'getRouterState' | 'completeInboundTransfer'>;
+
+export interface CrossChainRelayerConfig {
+  pollingInterval: number; // milliseconds
+  confirmationDepth: number; // Source blocks required on top of the message block
+  maxAttempts: number; // Per message before it is marked failed
+}
+
+export type RelayDirection = 'inbound' | 'outbound';
+export type RelayStatus = 'Waiting' | 'Relayed' | 'Failed';
+
+export interface RelayRecord {
+  messageId: string;
+  direction: RelayDirection;
+  status: RelayStatus;
+  attempts: number;
+  txHash?: string; // Cardano completion tx (inbound) or destination tx (outbound)
+  lastError?: string;
+  updatedAt: number;
+}
+
+// Persistence for relay records
+export interface RelayStateStore {
+  list(): Promise<RelayRecord[]>;
+  save(record: RelayRecord): Promise<void>;
+}
+
+export const RELAYER_CONSTANTS = {
+  DEFAULT_CONFIG: {
+    pollingInterval: 30_000,
+    confirmationDepth: 12,
+    maxAttempts: 5
+  } as CrossChainRelayerConfig
+} as const;
+
+// =============================================================================
+// PROOFS
+// =============================================================================
+
+function sha256(data: Buffer | string): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hashPair(a: string, b: string): string {
+  const [left, right] = a < b ? [a, b] : [b, a];
+  return sha256(Buffer.from(left + right, "hex"));
+}
+
+// Canonical leaf encoding; the amount is written as a decimal string
+export function hashBridgeMessage(message: BridgeMessageLeaf): string {
+  return sha256(JSON.stringify([
+    message.messageId,
+    message.sourceChain,
+    message.sourceTxHash,
+    message.sender,
+    message.recipient,
+    message.tokenPolicy,
+    message.tokenName,
+    message.amount.toString()
+  ]));
+}
+
+// Levels from leaves to root; an odd node is carried up unchanged
+function buildLevels(leaves: string[]): string[][] {
+  const levels = [leaves];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+    }
+    levels.push(next);
+  }
+  return levels;
+}
+
+export function computeBlockMerkleRoot(messages: BridgeMessageLeaf[]): string {
+  if (messages.length === 0) {
+    throw new Error("Block has no bridge messages");
+  }
+  const levels = buildLevels(messages.map(hashBridgeMessage));
+  return levels[levels.length - 1][0];
+}
+
+// Payload each bridge signs for a block
+export function bridgeAttestationPayload(merkleRoot: string, blockHash: string): Buffer {
+  return Buffer.from(sha256(Buffer.from(merkleRoot + blockHash, "hex")), "hex");
+}
+
+/**
+ * Build the inclusion proof for one message in a source-chain block
+ */
+export function buildCrossChainProof(block: SourceChainBlock, messageId: string): CrossChainProof {
+  const index = block.messages.findIndex(message => message.messageId === messageId);
+  if (index < 0) {
+    throw new Error(`Message ${messageId} is not in block ${block.blockNumber}`);
+  }
+
+  const levels = buildLevels(block.messages.map(hashBridgeMessage));
+  const merkleProof: string[] = [];
+  let position = index;
+  for (const level of levels.slice(0, -1)) {
+    const sibling = position % 2 === 0 ? position + 1 : position - 1;
+    if (sibling < level.length) {
+      merkleProof.push(level[sibling]);
+    }
+    position = Math.floor(position / 2);
+  }
+
+  return {
+    merkleRoot: levels[levels.length - 1][0],
+    merkleProof,
+    blockHash: block.blockHash,
+    blockNumber: block.blockNumber,
+    signatures: block.signatures
+  };
+}
+
+function verifyEd25519(publicKeyHex: string, payload: Buffer, signatureHex: string): boolean {
+  try {
+    // Raw 32-byte ed25519 key wrapped in its SubjectPublicKeyInfo DER prefix
+    const key = createPublicKey({
+      key: Buffer.from(`302a300506032b6570032100${publicKeyHex}`, "hex"),
+      format: "der",
+      type: "spki"
+    });
+    return verify(null, payload, key, Buffer.from(signatureHex, "hex"));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check Merkle inclusion of a message and that enough distinct trusted bridges signed its block
+ * @param proof - Proof for the message
+ * @param message - Inbound message as recorded by the router
+ * @param bridges - Router's trusted bridges
+ * @param minSignatures - Router's minConfirmations
+ * @returns Bridge ids whose signatures verified
+ */
+export function verifyCrossChainProof(
+  proof: CrossChainProof,
+  message: BridgeMessageLeaf,
+  bridges: TrustedBridge[],
+  minSignatures: number
+): string[] {
+  const computedRoot = proof.merkleProof.reduce((hash, sibling) => hashPair(hash, sibling), hashBridgeMessage(message));
+  if (computedRoot !== proof.merkleRoot) {
+    throw new Error(`Message ${message.messageId} is not included in Merkle root ${proof.merkleRoot}`);
+  }
+
+  const payload = bridgeAttestationPayload(proof.merkleRoot, proof.blockHash);
+  const signers = new Set<string>();
+  for (const signature of proof.signatures) {
+    const bridge = bridges.find(candidate => candidate.bridgeId === signature.signer);
+    if (!bridge || !bridge.isActive || !bridge.supportedChains.includes(message.sourceChain)) {
+      continue;
+    }
+    if (verifyEd25519(bridge.publicKey, payload, signature.signature)) {
+      signers.add(bridge.bridgeId);
+    }
+  }
+
+  if (signers.size < minSignatures) {
+    throw new Error(`Message ${message.messageId} has ${signers.size} valid bridge signatures, ${minSignatures} required`);
+  }
+
+  return [...signers];
+}
+
+// =============================================================================
+// RELAY STATE STORES
+// =============================================================================
+
+export class InMemoryRelayStateStore implements RelayStateStore {
+  protected records: Map<string, RelayRecord> = new Map();
+
+  async list(): Promise<RelayRecord[]> {
+    return Array.from(this.records.values());
+  }
+
+  async save(record: RelayRecord): Promise<void> {
+    this.records.set(record.messageId, record);
+  }
+}
+
+/**
+ * relay-records.json in a directory, replaced through a temp file on every save
+ */
+export class FileRelayStateStore extends InMemoryRelayStateStore {
+  private directory: string;
+  private files: NodeFileSystem;
+  private loaded: Promise<void> | null = null;
+  private writes = new WriteQueue();
+
+  constructor(directory: string) {
+    super();
+    this.files = requireFileSystem("File relay state store");
+    this.directory = directory;
+  }
+
+  async list(): Promise<RelayRecord[]> {
+    await this.load();
+    return super.list();
+  }
+
+  async save(record: RelayRecord): Promise<void> {
+    await this.load();
+    await super.save(record);
+
+    const snapshot = JSON.stringify(Array.from(this.records.values()), null, 2);
+    return this.writes.run(() => replaceFile(this.file(), snapshot));
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        await this.files.fs.mkdir(this.directory, { recursive: true });
+        const snapshot = await readJsonFile<RelayRecord[]>(this.file(), [], "relay records");
+        for (const record of Array.isArray(snapshot) ? snapshot : []) {
+          this.records.set(record.messageId, record);
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  private file(): string {
+    return this.files.path.join(this.directory, "relay-records.json");
+  }
+}
+
+// =============================================================================
+// RELAYER
+// =============================================================================
+
+/**
+ * PuckSwap Cross-Chain Relayer
+ * Outbound: on OutboundTransferInitiated, delivers pending router messages to the destination adapter
+ * Inbound: polls pending router inbound messages, proves them against the source adapter and completes them
+ * A message is relayed by one run at a time, whether the run came from an event or the poll timer
+ */
+export class CrossChainRelayer {
+  private router: RelayRouter;
+  private config: CrossChainRelayerConfig;
+  private adapters: Map<number, SourceChainAdapter> = new Map();
+  private records: Map<string, RelayRecord> = new Map();
+  private store: RelayStateStore;
+  private loaded: Promise<void> | null = null;
+  private inFlight: Set<string> = new Set();
+  private monitor: CrossChainRouterMonitor | null = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private relaying = false;
+  private readonly handleOutbound = (_event: CrossChainRouterEvent): void => {
+    this.relayOutbound().catch(error => console.error("❌ Outbound relay failed:", error));
+  };
+
+  constructor(
+    router: RelayRouter,
+    config: Partial<CrossChainRelayerConfig> = {},
+    store: RelayStateStore = new InMemoryRelayStateStore()
+  ) {
+    this.router = router;
+    this.config = { ...RELAYER_CONSTANTS.DEFAULT_CONFIG, ...config };
+    this.store = store;
+  }
+
+  registerAdapter(adapter: SourceChainAdapter): void {
+    this.adapters.set(adapter.chainId, adapter);
+  }
+
+  // Watch the router monitor for outbound transfers and poll for inbound ones
+  start(monitor: CrossChainRouterMonitor): void {
+    this.stop();
+    this.monitor = monitor;
+    monitor.addEventListener('OutboundTransferInitiated', this.handleOutbound);
+    this.pollTimer = setInterval(() => {
+      this.relayAll().catch(error => console.error("❌ Relay cycle failed:", error));
+    }, this.config.pollingInterval);
+    console.log("🌉 Cross-chain relayer started");
+  }
+
+  stop(): void {
+    if (this.monitor) {
+      this.monitor.removeEventListener('OutboundTransferInitiated', this.handleOutbound);
+      this.monitor = null;
+    }
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  // One relay cycle in both directions; overlapping cycles are skipped
+  async relayAll(): Promise<RelayRecord[]> {
+    if (this.relaying) {
+      return [];
+    }
+    this.relaying = true;
+    try {
+      return [...await this.relayOutbound(), ...await this.relayInbound()];
+    } finally {
+      this.relaying = false;
+    }
+  }
+
+  /**
+   * Deliver router outbound messages that are confirmed on Cardano and not yet relayed
+   */
+  async relayOutbound(): Promise<RelayRecord[]> {
+    await this.loadRecords();
+    const routerState = await this.requireRouterState();
+    const pending = this.claim(routerState.outboundMessages.filter(message =>
+      message.confirmations >= routerState.minConfirmations &&
+      (message.status === 'Pending' || message.status === 'Confirmed')
+    ));
+
+    const results: RelayRecord[] = [];
+    try {
+      for (const message of pending) {
+        results.push(await this.attempt(message.messageId, 'outbound', async () => {
+          const adapter = this.requireAdapter(message.destinationChain);
+          // Records can be lost with the store; the destination chain has the final say
+          const delivered = adapter.findOutboundDelivery ? await adapter.findOutboundDelivery(message.messageId) : null;
+          return delivered ?? adapter.deliverOutbound(message);
+        }));
+      }
+    } finally {
+      this.release(pending);
+    }
+    return results;
+  }
+
+  /**
+   * Prove and complete router inbound messages whose source block is deep enough
+   */
+  async relayInbound(): Promise<RelayRecord[]> {
+    await this.loadRecords();
+    const routerState = await this.requireRouterState();
+    const pending = this.claim(routerState.inboundMessages.filter(message =>
+      message.status === 'Pending' &&
+      !routerState.processedMessageHashes.includes(message.messageId)
+    ));
+
+    const results: RelayRecord[] = [];
+    try {
+      for (const message of pending) {
+        const adapter = this.requireAdapter(message.sourceChain);
+        const block = await adapter.findMessageBlock(message.messageId);
+        if (!block) {
+          results.push(await this.record(message.messageId, 'inbound', { status: 'Waiting' }));
+          continue;
+        }
+
+        const latest = await adapter.getLatestBlockNumber();
+        if (latest - block.blockNumber < this.config.confirmationDepth) {
+          results.push(await this.record(message.messageId, 'inbound', { status: 'Waiting' }));
+          continue;
+        }
+
+        results.push(await this.attempt(message.messageId, 'inbound', async () => {
+          const proof = buildCrossChainProof(block, message.messageId);
+          verifyCrossChainProof(proof, message, routerState.trustedBridges, routerState.minConfirmations);
+          return this.router.completeInboundTransfer({ messageId: message.messageId, proof });
+        }));
+      }
+    } finally {
+      this.release(pending);
+    }
+    return results;
+  }
+
+  getRelayRecords(direction?: RelayDirection): RelayRecord[] {
+    return Array.from(this.records.values()).filter(record => !direction || record.direction === direction);
+  }
+
+  getRelayRecord(messageId: string): RelayRecord | null {
+    return this.records.get(messageId) || null;
+  }
+
+  private async requireRouterState(): Promise<CrossChainRouterState> {
+    const routerState = await this.router.getRouterState();
+    if (!routerState) {
+      throw new Error("Cross-chain router not found");
+    }
+    return routerState;
+  }
+
+  private requireAdapter(chainId: number): SourceChainAdapter {
+    const adapter = this.adapters.get(chainId);
+    if (!adapter) {
+      throw new Error(`No chain adapter registered for chain ${chainId}`);
+    }
+    return adapter;
+  }
+
+  // Load stored records once, before the first run
+  private loadRecords(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.store.list().then(records => {
+        for (const record of records) {
+          this.records.set(record.messageId, record);
+        }
+      });
+    }
+    return this.loaded;
+  }
+
+  private shouldAttempt(messageId: string): boolean {
+    const record = this.records.get(messageId);
+    return !this.inFlight.has(messageId) && (!record || record.status === 'Waiting');
+  }
+
+  // Take the messages no other run is relaying; claimed synchronously so concurrent runs see them
+  private claim<T extends { messageId: string }>(messages: T[]): T[] {
+    const claimed = messages.filter(message => this.shouldAttempt(message.messageId));
+    claimed.forEach(message => this.inFlight.add(message.messageId));
+    return claimed;
+  }
+
+  private release(messages: { messageId: string }[]): void {
+    messages.forEach(message => this.inFlight.delete(message.messageId));
+  }
+
+  private async attempt(messageId: string, direction: RelayDirection, relay: () => Promise<string>): Promise<RelayRecord> {
+    const attempts = (this.records.get(messageId)?.attempts || 0) + 1;
+    let txHash: string;
+    try {
+      txHash = await relay();
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+      console.error(`❌ Relay of ${direction} message ${messageId} failed (attempt ${attempts}):`, lastError);
+      return this.record(messageId, direction, {
+        status: attempts >= this.config.maxAttempts ? 'Failed' : 'Waiting',
+        attempts,
+        lastError
+      });
+    }
+
+    // Outside the try so a failed save is never mistaken for a failed relay
+    console.log(`✅ Relayed ${direction} message ${messageId}: ${txHash}`);
+    return this.record(messageId, direction, { status: 'Relayed', attempts, txHash, lastError: undefined });
+  }
+
+  private async record(messageId: string, direction: RelayDirection, update: Partial<RelayRecord>): Promise<RelayRecord> {
+    const record: RelayRecord = {
+      messageId,
+      direction,
+      status: 'Waiting',
+      attempts: 0,
+      ...this.records.get(messageId),
+      ...update,
+      updatedAt: Date.now()
+    };
+    this.records.set(messageId, record);
+    await this.store.save(record);
+    return record;
+  }
+}
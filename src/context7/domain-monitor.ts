@@ -0,0 +1,190 @@
+// PuckSwap v5 - Context7 Domain Monitor
+// Base for the per-domain monitor classes (pool, registry, staking, governance,
+// treasury, cross-chain). Indexer subscriptions, retries, checkpoints, persistence,
+// rollbacks, webhooks and broadcasting come from a MonitorHost; subclasses keep
+// only their analytics, alerts and getters
+
+import {
+  MonitorHost,
+  MonitorHostConfig,
+  MonitorPlugin,
+  MonitorEvent,
+  DEFAULT_MONITOR_HOST_CONFIG
+} from "./monitor-host";
+import type { Address } from "../lib/mock-context7-sdk";
+import type { EventStore, EventQuery, MonitorEventSource, StoredEvent } from "./event-store";
+import type { WebhookDispatcher } from "./webhook-delivery";
+
+// Settings for a host the monitor creates when none is shared with it
+export type DomainHostConfig = Partial<MonitorHostConfig> & Pick<MonitorHostConfig, 'projectId' | 'network'>;
+
+export abstract class DomainMonitor<TEvent> {
+  protected readonly host: MonitorHost;
+  protected isMonitoring = false;
+  protected readonly wildcardType: string = '*'; // Listener type receiving every event
+  private readonly ownsHost: boolean;
+  private eventListeners: Map<string, ((event: TEvent) => void)[]> = new Map();
+
+  /**
+   * @param plugins - Registered on the host unless it already watches their addresses
+   * @param hostConfig - Used only when no host is shared
+   * @param host - Host shared with other monitors; register every monitor before its owner starts it
+   */
+  constructor(
+    protected readonly source: MonitorEventSource,
+    plugins: MonitorPlugin[],
+    hostConfig: DomainHostConfig,
+    host?: MonitorHost
+  ) {
+    this.ownsHost = !host;
+    this.host = host ?? new MonitorHost({
+      ...hostConfig,
+      maxRetries: hostConfig.maxRetries ?? DEFAULT_MONITOR_HOST_CONFIG.maxRetries!,
+      retryDelay: hostConfig.retryDelay ?? DEFAULT_MONITOR_HOST_CONFIG.retryDelay!,
+      maxRetryDelay: hostConfig.maxRetryDelay ?? DEFAULT_MONITOR_HOST_CONFIG.maxRetryDelay!
+    });
+
+    for (const plugin of plugins) {
+      if (!plugin.addresses.some(address => this.host.isWatching(plugin.source, address))) {
+        this.host.register(plugin);
+      }
+    }
+    this.host.addEventListener(source, (event) => this.dispatch(event));
+  }
+
+  /**
+   * Apply a host event to the domain's analytics
+   * @returns Event passed to the domain listeners, or null to keep it from them
+   */
+  protected abstract handleEvent(event: MonitorEvent): TEvent | null;
+
+  // Listener type a host event is delivered under
+  protected listenerType(event: MonitorEvent): string {
+    return event.type;
+  }
+
+  // Domain setup once the host is running, e.g. rebuilding analytics from stored events
+  protected async onStart(): Promise<void> {}
+
+  protected async onStop(): Promise<void> {}
+
+  // Connect an owned host; a shared host is connected by its owner
+  async initialize(): Promise<void> {
+    if (this.ownsHost) {
+      await this.host.initialize();
+    }
+  }
+
+  async startMonitoring(): Promise<void> {
+    if (this.isMonitoring) {
+      console.warn(`${this.source} monitor is already running`);
+      return;
+    }
+
+    this.isMonitoring = true;
+    try {
+      if (this.ownsHost) {
+        await this.host.start();
+      }
+      await this.onStart();
+    } catch (error) {
+      console.error(`Failed to start ${this.source} monitor:`, error);
+      this.isMonitoring = false;
+      throw error;
+    }
+  }
+
+  async stopMonitoring(): Promise<void> {
+    if (!this.isMonitoring) {
+      return;
+    }
+
+    this.isMonitoring = false;
+    await this.onStop();
+    if (this.ownsHost) {
+      await this.host.stop();
+    }
+  }
+
+  isActive(): boolean {
+    return this.isMonitoring;
+  }
+
+  getHost(): MonitorHost {
+    return this.host;
+  }
+
+  // Persist events and resume from the last processed slot across restarts; applies to the whole host
+  setEventStore(eventStore: EventStore | null): void {
+    this.host.setEventStore(eventStore);
+  }
+
+  // Deliver events through a dispatcher shared with other monitors; applies to the whole host
+  setWebhookDispatcher(dispatcher: WebhookDispatcher | null): void {
+    this.host.setWebhookDispatcher(dispatcher);
+  }
+
+  addEventListener(eventType: string, listener: (event: TEvent) => void): void {
+    if (!this.eventListeners.has(eventType)) {
+      this.eventListeners.set(eventType, []);
+    }
+    this.eventListeners.get(eventType)!.push(listener);
+  }
+
+  removeEventListener(eventType: string, listener: (event: TEvent) => void): void {
+    const listeners = this.eventListeners.get(eventType);
+    if (listeners) {
+      const index = listeners.indexOf(listener);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    }
+  }
+
+  // Deliver a domain event that did not come from the host, e.g. a lifecycle notification
+  protected emit(eventType: string, event: TEvent): void {
+    const listeners = [
+      ...(this.eventListeners.get(eventType) || []),
+      ...(this.eventListeners.get(this.wildcardType) || [])
+    ];
+    for (const listener of listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Error in ${this.source} event listener for ${eventType}:`, error);
+      }
+    }
+  }
+
+  // Current decoded state the host holds for one of the domain's addresses
+  protected getState<TState>(address: Address): TState | null {
+    return this.host.getState<TState>(this.source, address);
+  }
+
+  /**
+   * Stored domain events, unwrapped from the host's MonitorEvent
+   * Store keys are the address, or "address:key" for events with a key
+   */
+  protected async queryEvents<T = TEvent>(query: Omit<EventQuery, 'source'>): Promise<StoredEvent<T>[]> {
+    const eventStore = this.host.getEventStore();
+    if (!eventStore) {
+      return [];
+    }
+
+    const stored = await eventStore.query<MonitorEvent<T>>({ ...query, source: this.source });
+    return stored.map(event => ({ ...event, payload: event.payload.payload }));
+  }
+
+  private dispatch(event: MonitorEvent): void {
+    if (!this.isMonitoring) return;
+
+    try {
+      const domainEvent = this.handleEvent(event);
+      if (domainEvent) {
+        this.emit(this.listenerType(event), domainEvent);
+      }
+    } catch (error) {
+      console.error(`Error handling ${this.source}:${event.type} event:`, error);
+    }
+  }
+}
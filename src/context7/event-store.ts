@@ -0,0 +1,337 @@
+// PuckSwap v5 - Context7 Monitor Event Store
+// Append-only history of monitor events (pool, staking, governance, treasury,
+// cross-chain) keyed by slot and tx hash, with per-monitor checkpoints so a
+// restarted monitor skips what it already processed and rebuilds its history
+// Backends: in-memory (tests, short-lived processes) and JSONL files (embedded persistence)
+
+import { NodeFileSystem, WriteQueue, readJsonFile, replaceFile, requireFileSystem } from "./file-store";
+
+// =============================================================================
+// EVENT STORE TYPES
+// =============================================================================
+
+export type MonitorEventSource = 'pool' | 'registry' | 'staking' | 'governance' | 'treasury' | 'crosschain';
+
+export interface StoredEvent<T = any> {
+  sequence: number; // Append order, starting at 1
+  source: MonitorEventSource;
+  type: string;
+  slot: number;
+  txHash: string;
+  timestamp: number; // milliseconds
+  key?: string; // Pool address, proposal id, ... when a monitor tracks several entities
+  payload: T;
+}
+
+export type NewStoredEvent<T = any> = Omit<StoredEvent<T>, 'sequence'>;
+
+export interface EventQuery {
+  source?: MonitorEventSource;
+  types?: string[];
+  key?: string;
+  fromTime?: number; // Inclusive, milliseconds
+  toTime?: number; // Exclusive
+  fromSlot?: number; // Inclusive
+  toSlot?: number; // Exclusive
+  limit?: number;
+  order?: 'asc' | 'desc'; // By sequence, default asc
+}
+
+export interface EventStore {
+  /**
+   * Append an event; an event with the same source, type, tx hash and key is stored once
+   * @returns Stored event, or null for a duplicate
+   */
+  append<T>(event: NewStoredEvent<T>): Promise<StoredEvent<T> | null>;
+  query<T = any>(query?: EventQuery): Promise<StoredEvent<T>[]>;
+  // Last slot a monitor fully processed
+  getCheckpoint(source: MonitorEventSource, key?: string): Promise<number | null>;
+  setCheckpoint(source: MonitorEventSource, slot: number, key?: string): Promise<void>;
+  /**
+   * Drop events after a chain fork point and move the checkpoint back to it
+   * Without a key, every event and checkpoint of the source is rolled back
+   * @returns Removed events, oldest first
+   */
+  rollback<T = any>(source: MonitorEventSource, slot: number, key?: string): Promise<StoredEvent<T>[]>;
+}
+
+export interface EventStoreConfig {
+  backend: 'memory' | 'file';
+  directory?: string; // Required for the file backend
+}
+
+// =============================================================================
+// SERIALIZATION
+// =============================================================================
+
+// bigint and Date survive the round trip as tagged objects
+export function serializeStoredEvent(event: StoredEvent): string {
+  return JSON.stringify(event, function (this: any, key: string, value: any) {
+    if (typeof value === "bigint") {
+      return { $bigint: value.toString() };
+    }
+    if (this[key] instanceof Date) {
+      return { $date: this[key].getTime() };
+    }
+    return value;
+  });
+}
+
+export function parseStoredEvent(line: string): StoredEvent {
+  return JSON.parse(line, (_key, value) => {
+    if (value && typeof value === "object") {
+      if (typeof value.$bigint === "string") return BigInt(value.$bigint);
+      if (typeof value.$date === "number") return new Date(value.$date);
+    }
+    return value;
+  });
+}
+
+function checkpointKey(source: MonitorEventSource, key?: string): string {
+  return key ? `${source}:${key}` : source;
+}
+
+function dedupeKey(event: NewStoredEvent): string {
+  return `${event.source}|${event.type}|${event.txHash}|${event.key || ""}`;
+}
+
+// =============================================================================
+// IN-MEMORY BACKEND
+// =============================================================================
+
+/**
+ * Events and checkpoints held in process memory
+ */
+export class InMemoryEventStore implements EventStore {
+  protected events: StoredEvent[] = [];
+  protected checkpoints: Map<string, number> = new Map();
+  private seen: Set<string> = new Set();
+  private lastSequence = 0;
+
+  async append<T>(event: NewStoredEvent<T>): Promise<StoredEvent<T> | null> {
+    return this.insert(event);
+  }
+
+  async query<T = any>(query: EventQuery = {}): Promise<StoredEvent<T>[]> {
+    const matches = this.events.filter(event =>
+      (!query.source || event.source === query.source) &&
+      (!query.types || query.types.includes(event.type)) &&
+      (query.key === undefined || event.key === query.key) &&
+      (query.fromTime === undefined || event.timestamp >= query.fromTime) &&
+      (query.toTime === undefined || event.timestamp < query.toTime) &&
+      (query.fromSlot === undefined || event.slot >= query.fromSlot) &&
+      (query.toSlot === undefined || event.slot < query.toSlot)
+    );
+
+    const ordered = query.order === 'desc' ? matches.reverse() : matches;
+    return (query.limit !== undefined ? ordered.slice(0, query.limit) : ordered) as StoredEvent<T>[];
+  }
+
+  async getCheckpoint(source: MonitorEventSource, key?: string): Promise<number | null> {
+    return this.checkpoints.get(checkpointKey(source, key)) ?? null;
+  }
+
+  // Checkpoints only move forward
+  async setCheckpoint(source: MonitorEventSource, slot: number, key?: string): Promise<void> {
+    const id = checkpointKey(source, key);
+    if (slot > (this.checkpoints.get(id) ?? -1)) {
+      this.checkpoints.set(id, slot);
+    }
+  }
+
+  async rollback<T = any>(source: MonitorEventSource, slot: number, key?: string): Promise<StoredEvent<T>[]> {
+    const isRolledBack = (event: StoredEvent) =>
+      event.source === source && event.slot > slot && (key === undefined || event.key === key);
+
+    const removed = this.events.filter(isRolledBack);
+    this.events = this.events.filter(event => !isRolledBack(event));
+    removed.forEach(event => this.seen.delete(dedupeKey(event)));
+
+    const id = checkpointKey(source, key);
+    for (const [checkpointId, checkpoint] of this.checkpoints) {
+      const affected = key !== undefined ? checkpointId === id : checkpointId === id || checkpointId.startsWith(`${id}:`);
+      if (affected && checkpoint > slot) {
+        this.checkpoints.set(checkpointId, slot);
+      }
+    }
+
+    return removed as StoredEvent<T>[];
+  }
+
+  protected clear(): void {
+    this.events = [];
+    this.checkpoints.clear();
+    this.seen.clear();
+    this.lastSequence = 0;
+  }
+
+  protected insert<T>(event: NewStoredEvent<T> | StoredEvent<T>): StoredEvent<T> | null {
+    const id = dedupeKey(event);
+    if (this.seen.has(id)) {
+      return null;
+    }
+
+    const stored: StoredEvent<T> = { ...event, sequence: ++this.lastSequence };
+    this.seen.add(id);
+    this.events.push(stored);
+    return stored;
+  }
+}
+
+// =============================================================================
+// FILE BACKEND
+// =============================================================================
+
+/**
+ * events.jsonl (one event per line, append-only) and checkpoints.json in a directory
+ * The log is read once on first use; writes are serialized so lines never interleave
+ * Readers in another process call refresh() to pick up what the writer appended since
+ */
+export class FileEventStore extends InMemoryEventStore {
+  private directory: string;
+  private files: NodeFileSystem;
+  private loaded: Promise<void> | null = null;
+  private writes = new WriteQueue();
+  private logOffset = 0; // Bytes of events.jsonl already applied
+  private logInode: number | null = null;
+
+  constructor(directory: string) {
+    super();
+    this.files = requireFileSystem("File event store");
+    this.directory = directory;
+  }
+
+  async append<T>(event: NewStoredEvent<T>): Promise<StoredEvent<T> | null> {
+    await this.load();
+    const stored = this.insert(event);
+    if (stored) {
+      const line = `${serializeStoredEvent(stored)}\n`;
+      await this.write(async () => {
+        await this.files.fs.appendFile(this.file("events.jsonl"), line);
+        this.logOffset += Buffer.byteLength(line);
+      });
+    }
+    return stored;
+  }
+
+  async query<T = any>(query: EventQuery = {}): Promise<StoredEvent<T>[]> {
+    await this.load();
+    return super.query<T>(query);
+  }
+
+  async getCheckpoint(source: MonitorEventSource, key?: string): Promise<number | null> {
+    await this.load();
+    return super.getCheckpoint(source, key);
+  }
+
+  async setCheckpoint(source: MonitorEventSource, slot: number, key?: string): Promise<void> {
+    await this.load();
+    await super.setCheckpoint(source, slot, key);
+    const snapshot = JSON.stringify(Object.fromEntries(this.checkpoints), null, 2);
+    await this.write(() => replaceFile(this.file("checkpoints.json"), snapshot));
+  }
+
+  // The log is replaced (new inode) without the rolled back events, so readers notice the rewrite
+  async rollback<T = any>(source: MonitorEventSource, slot: number, key?: string): Promise<StoredEvent<T>[]> {
+    await this.load();
+    const removed = await super.rollback<T>(source, slot, key);
+
+    const log = this.events.map(event => `${serializeStoredEvent(event)}\n`).join("");
+    const snapshot = JSON.stringify(Object.fromEntries(this.checkpoints), null, 2);
+    await this.write(async () => {
+      await replaceFile(this.file("events.jsonl"), log);
+      await replaceFile(this.file("checkpoints.json"), snapshot);
+      this.logOffset = Buffer.byteLength(log);
+      this.logInode = (await this.files.fs.stat(this.file("events.jsonl"))).ino;
+    });
+
+    return removed;
+  }
+
+  /**
+   * Apply events and checkpoints written by another process since the last read
+   * A log that was rewritten (rolled back) is read again from the start
+   */
+  async refresh(): Promise<void> {
+    await this.load();
+    await this.write(async () => {
+      await this.readLog();
+      await this.readCheckpoints();
+    });
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        await this.files.fs.mkdir(this.directory, { recursive: true });
+        await this.readLog();
+        await this.readCheckpoints();
+      })();
+    }
+    return this.loaded;
+  }
+
+  // Complete lines from logOffset on; a torn final line is left for the next read
+  private async readLog(): Promise<void> {
+    const file = this.file("events.jsonl");
+    const stats = await this.files.fs.stat(file).catch(() => null);
+    if (!stats) {
+      return;
+    }
+    if (stats.ino !== this.logInode || stats.size < this.logOffset) {
+      if (this.logInode !== null) {
+        this.clear();
+      }
+      this.logInode = stats.ino;
+      this.logOffset = 0;
+    }
+
+    const chunk = Buffer.alloc(stats.size - this.logOffset);
+    const handle = await this.files.fs.open(file, "r");
+    try {
+      await handle.read(chunk, 0, chunk.length, this.logOffset);
+    } finally {
+      await handle.close();
+    }
+
+    const end = chunk.lastIndexOf(0x0a) + 1;
+    for (const line of chunk.subarray(0, end).toString("utf8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        this.insert(parseStoredEvent(line));
+      } catch (error) {
+        // A line torn by a crash is skipped rather than blocking startup
+        console.warn("Skipping unreadable event store line:", error);
+      }
+    }
+    this.logOffset += end;
+  }
+
+  // Unreadable checkpoints are dropped rather than blocking startup; monitors reprocess and duplicates are skipped
+  private async readCheckpoints(): Promise<void> {
+    const checkpoints = await readJsonFile<Record<string, unknown>>(this.file("checkpoints.json"), {}, "event store checkpoints");
+    for (const [id, slot] of Object.entries(checkpoints ?? {})) {
+      if (typeof slot === "number" && Number.isFinite(slot)) {
+        this.checkpoints.set(id, slot);
+      }
+    }
+  }
+
+  private write(operation: () => Promise<void>): Promise<void> {
+    return this.writes.run(operation);
+  }
+
+  private file(name: string): string {
+    return this.files.path.join(this.directory, name);
+  }
+}
+
+export function createEventStore(config: EventStoreConfig): EventStore {
+  if (config.backend === 'file') {
+    if (!config.directory) {
+      throw new Error("File event store requires a directory");
+    }
+    return new FileEventStore(config.directory);
+  }
+  return new InMemoryEventStore();
+}
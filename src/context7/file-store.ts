@@ -0,0 +1,83 @@
+// PuckSwap v5 - Context7 File Store Helpers
+// Shared by the file-backed stores (event store, relay records, webhook outbox):
+// Node-only fs access, atomic file replacement, tolerant JSON reads and
+// serialized writes
+
+// Conditional imports - only import fs modules in Node.js environment
+let fs: typeof import('fs').promises | undefined;
+let path: typeof import('path') | undefined;
+
+if (typeof window === 'undefined') {
+  try {
+    fs = require('fs').promises;
+    path = require('path');
+  } catch (error) {
+    console.warn('Node.js modules not available, file-backed Context7 stores disabled');
+  }
+}
+
+export interface NodeFileSystem {
+  fs: typeof import('fs').promises;
+  path: typeof import('path');
+}
+
+export function isFileStoreAvailable(): boolean {
+  return !!fs && !!path;
+}
+
+/**
+ * fs and path for a file-backed store
+ * @param feature - Store name used in the error outside Node.js
+ */
+export function requireFileSystem(feature: string): NodeFileSystem {
+  if (!fs || !path) {
+    throw new Error(`${feature} requires Node.js`);
+  }
+  return { fs, path };
+}
+
+// Write a temp file and rename it over the original, so readers never see a partial file
+export async function replaceFile(file: string, contents: string): Promise<void> {
+  const { fs } = requireFileSystem("File replacement");
+  const temp = `${file}.tmp`;
+  await fs.writeFile(temp, contents);
+  await fs.rename(temp, file);
+}
+
+/**
+ * Parsed JSON file, or the fallback when it is missing or unreadable
+ * An unreadable file is logged and left for the next write to replace
+ * @param label - What the file holds, for the warning
+ */
+export async function readJsonFile<T>(
+  file: string,
+  fallback: T,
+  label: string,
+  reviver?: (key: string, value: any) => any
+): Promise<T> {
+  const { fs } = requireFileSystem("File read");
+  const contents = await fs.readFile(file, "utf8").catch(() => null);
+  if (contents === null) {
+    return fallback;
+  }
+
+  try {
+    return JSON.parse(contents, reviver) as T;
+  } catch (error) {
+    console.warn(`Ignoring unreadable ${label}:`, error);
+    return fallback;
+  }
+}
+
+/**
+ * Runs file operations one at a time in call order
+ * A failed operation is reported to its caller and does not block the ones after it
+ */
+export class WriteQueue {
+  private tail: Promise<void> = Promise.resolve();
+
+  run(operation: () => Promise<void>): Promise<void> {
+    this.tail = this.tail.then(operation, operation);
+    return this.tail;
+  }
+}
@@ -0,0 +1,323 @@
+// PuckSwap v5 - Pro-Rata LP Reward Distribution
+// Tracks each provider's LP token balance from PoolMonitor liquidity events and
+// splits an epoch's swap-fee revenue by time-weighted balance
+// Entitlements are committed as a Merkle root; LPs claim their own share with a
+// proof instead of the treasury paying every provider in one transaction
+//
+// Leaf:  blake2b_256(Constr 0 [epoch, pool_id, index, provider_pkh, amount])
+// Node:  blake2b_256(Constr 0 [left, right]) with the pair sorted bytewise
+// Both are hash_plutus_data, so a validator can recompute them on-chain
+
+import { CML, Data, Constr, fromText, getAddressDetails } from "@lucid-evolution/lucid";
+import type { PoolMonitor, PoolEvent, LiquidityEventData, RolledBackEventData } from "./pool_monitor";
+import type { DistributionTarget } from "../lucid/treasury-v4";
+
+// =============================================================================
+// REWARD TYPES
+// =============================================================================
+
+export interface LpBalancePoint {
+  slot: number;
+  balance: bigint; // LP tokens held from this slot on
+}
+
+export interface LpEntitlement {
+  index: number; // Leaf index, used as the claim bit on-chain
+  provider: string; // Provider address
+  providerKeyHash: string;
+  amount: bigint; // Lovelace
+  weight: bigint; // Σ balance × slots over the epoch
+}
+
+export interface LpRewardEpoch {
+  epoch: number;
+  poolId: string;
+  fromSlot: number;
+  toSlot: number;
+  rewardAmount: bigint; // Revenue being split
+  distributedAmount: bigint; // Sum of entitlements; rounding dust stays in the treasury
+  merkleRoot: string;
+  entitlements: LpEntitlement[];
+}
+
+export interface LpRewardProof {
+  entitlement: LpEntitlement;
+  proof: string[]; // Sibling hashes from leaf to root
+}
+
+// =============================================================================
+// TIME-WEIGHTED SHARES
+// =============================================================================
+
+/**
+ * Σ balance × slots for one provider's balance history over [fromSlot, toSlot)
+ * @param history - Balance points in slot order
+ */
+export function calculateTimeWeightedBalance(history: LpBalancePoint[], fromSlot: number, toSlot: number): bigint {
+  let weight = 0n;
+
+  for (let i = 0; i < history.length; i++) {
+    const start = Math.max(history[i].slot, fromSlot);
+    const end = Math.min(i + 1 < history.length ? history[i + 1].slot : toSlot, toSlot);
+    if (end > start) {
+      weight += history[i].balance * BigInt(end - start);
+    }
+  }
+
+  return weight;
+}
+
+/**
+ * Split a reward pro rata by time-weighted balance, rounding down
+ * @param balances - Balance history per provider address
+ * @param rewardAmount - Lovelace to split
+ */
+export function calculateLpEntitlements(
+  balances: Map<string, LpBalancePoint[]>,
+  rewardAmount: bigint,
+  fromSlot: number,
+  toSlot: number
+): Array<{ provider: string; amount: bigint; weight: bigint }> {
+  if (toSlot <= fromSlot) {
+    throw new Error("Reward epoch must end after it starts");
+  }
+
+  const weights = Array.from(balances.entries())
+    .map(([provider, history]) => ({ provider, weight: calculateTimeWeightedBalance(history, fromSlot, toSlot) }))
+    .filter(entry => entry.weight > 0n)
+    .sort((a, b) => a.provider.localeCompare(b.provider));
+
+  const totalWeight = weights.reduce((sum, entry) => sum + entry.weight, 0n);
+  if (totalWeight === 0n) {
+    return [];
+  }
+
+  return weights
+    .map(entry => ({ ...entry, amount: (rewardAmount * entry.weight) / totalWeight }))
+    .filter(entry => entry.amount > 0n);
+}
+
+// =============================================================================
+// MERKLE TREE
+// =============================================================================
+
+function hashData(data: Data): string {
+  return CML.hash_plutus_data(CML.PlutusData.from_cbor_hex(Data.to(data))).to_hex();
+}
+
+export function hashEntitlementLeaf(epoch: number, poolId: string, entitlement: LpEntitlement): string {
+  return hashData(new Constr(0, [
+    BigInt(epoch),
+    fromText(poolId),
+    BigInt(entitlement.index),
+    entitlement.providerKeyHash,
+    entitlement.amount
+  ]));
+}
+
+function hashPair(a: string, b: string): string {
+  return a < b ? hashData(new Constr(0, [a, b])) : hashData(new Constr(0, [b, a]));
+}
+
+// Tree levels from leaves to root; an odd node is carried up unchanged
+function buildLevels(leaves: string[]): string[][] {
+  const levels = [leaves];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+    }
+    levels.push(next);
+  }
+  return levels;
+}
+
+export function buildMerkleRoot(leaves: string[]): string {
+  if (leaves.length === 0) {
+    return "";
+  }
+  const levels = buildLevels(leaves);
+  return levels[levels.length - 1][0];
+}
+
+export function buildMerkleProof(leaves: string[], index: number): string[] {
+  if (index < 0 || index >= leaves.length) {
+    throw new Error(`Leaf index ${index} out of range`);
+  }
+
+  const proof: string[] = [];
+  let position = index;
+  for (const level of buildLevels(leaves).slice(0, -1)) {
+    const sibling = position % 2 === 0 ? position + 1 : position - 1;
+    if (sibling < level.length) {
+      proof.push(level[sibling]);
+    }
+    position = Math.floor(position / 2);
+  }
+  return proof;
+}
+
+export function verifyMerkleProof(leaf: string, proof: string[], root: string): boolean {
+  return proof.reduce((hash, sibling) => hashPair(hash, sibling), leaf) === root;
+}
+
+/**
+ * Treasury distribution target that locks an epoch's rewards behind its Merkle root
+ */
+export function createLpRewardTarget(rewardEpoch: LpRewardEpoch): DistributionTarget {
+  return {
+    type: 'LiquidityProviders',
+    poolId: rewardEpoch.poolId,
+    rewardEpoch: rewardEpoch.epoch,
+    merkleRoot: rewardEpoch.merkleRoot,
+    entitlementCount: rewardEpoch.entitlements.length,
+    amount: rewardEpoch.distributedAmount
+  };
+}
+
+// =============================================================================
+// LP BALANCE TRACKER
+// =============================================================================
+
+/**
+ * PuckSwap LP Reward Tracker
+ * Keyed by pool id (the monitored pool address)
+ */
+export class LpRewardTracker {
+  private balances: Map<string, Map<string, LpBalancePoint[]>> = new Map();
+  private epochs: Map<string, LpRewardEpoch> = new Map();
+  private monitor: PoolMonitor | null = null;
+  private readonly handleEvent = (event: PoolEvent): void => this.recordLiquidityEvent(event);
+  private readonly handleRollback = (event: PoolEvent): void =>
+    this.rollbackTo(event.poolAddress, (event.data as RolledBackEventData).forkSlot);
+
+  /**
+   * Start recording LP balances from a pool monitor's liquidity events
+   */
+  attach(monitor: PoolMonitor): void {
+    this.detach();
+    this.monitor = monitor;
+    monitor.addEventListener('add_liquidity', this.handleEvent);
+    monitor.addEventListener('remove_liquidity', this.handleEvent);
+    monitor.addEventListener('EventRolledBack', this.handleRollback);
+  }
+
+  detach(): void {
+    if (!this.monitor) {
+      return;
+    }
+    this.monitor.removeEventListener('add_liquidity', this.handleEvent);
+    this.monitor.removeEventListener('remove_liquidity', this.handleEvent);
+    this.monitor.removeEventListener('EventRolledBack', this.handleRollback);
+    this.monitor = null;
+  }
+
+  // Apply a liquidity event; events without an identified provider are skipped
+  recordLiquidityEvent(event: PoolEvent): void {
+    const data = event.data as LiquidityEventData;
+    if (!data.user || data.user === "unknown") {
+      console.warn(`Skipping LP balance update for ${event.txHash}: provider not identified`);
+      return;
+    }
+
+    const delta = data.isAddition ? data.lpTokenAmount : -data.lpTokenAmount;
+    this.recordBalanceChange(event.poolAddress, data.user, event.slot, delta);
+  }
+
+  /**
+   * Add a balance change for a provider
+   * @param poolId - Pool identifier
+   * @param provider - Provider address
+   * @param slot - Slot the change took effect
+   * @param delta - LP tokens added (positive) or removed (negative)
+   */
+  recordBalanceChange(poolId: string, provider: string, slot: number, delta: bigint): LpBalancePoint {
+    const pool = this.balances.get(poolId) || new Map<string, LpBalancePoint[]>();
+    const history = pool.get(provider) || [];
+    const last = history[history.length - 1];
+
+    if (last && slot < last.slot) {
+      throw new Error(`Balance change at slot ${slot} is before last change ${last.slot}`);
+    }
+
+    const balance = (last ? last.balance : 0n) + delta;
+    if (balance < 0n) {
+      throw new Error(`LP balance for ${provider} would go negative`);
+    }
+
+    // Several changes in one slot collapse into one point
+    if (last && slot === last.slot) {
+      last.balance = balance;
+    } else {
+      history.push({ slot, balance });
+    }
+
+    pool.set(provider, history);
+    this.balances.set(poolId, pool);
+    return history[history.length - 1];
+  }
+
+  // Drop balance changes after a chain fork point
+  rollbackTo(poolId: string, slot: number): void {
+    for (const [provider, history] of this.balances.get(poolId) || []) {
+      this.balances.get(poolId)!.set(provider, history.filter(point => point.slot <= slot));
+    }
+  }
+
+  getBalance(poolId: string, provider: string): bigint {
+    const history = this.balances.get(poolId)?.get(provider) || [];
+    return history.length > 0 ? history[history.length - 1].balance : 0n;
+  }
+
+  /**
+   * Compute and store an epoch's entitlements and Merkle root
+   * @param poolId - Pool identifier
+   * @param epoch - Reward epoch number
+   * @param rewardAmount - Swap-fee revenue to split, in lovelace
+   */
+  buildRewardEpoch(poolId: string, epoch: number, rewardAmount: bigint, fromSlot: number, toSlot: number): LpRewardEpoch {
+    const shares = calculateLpEntitlements(this.balances.get(poolId) || new Map(), rewardAmount, fromSlot, toSlot);
+
+    const entitlements: LpEntitlement[] = shares.map((share, index) => {
+      const { paymentCredential } = getAddressDetails(share.provider);
+      if (!paymentCredential) {
+        throw new Error(`Provider ${share.provider} has no payment credential`);
+      }
+      return { index, provider: share.provider, providerKeyHash: paymentCredential.hash, amount: share.amount, weight: share.weight };
+    });
+
+    const leaves = entitlements.map(entitlement => hashEntitlementLeaf(epoch, poolId, entitlement));
+    const rewardEpoch: LpRewardEpoch = {
+      epoch,
+      poolId,
+      fromSlot,
+      toSlot,
+      rewardAmount,
+      distributedAmount: entitlements.reduce((sum, entitlement) => sum + entitlement.amount, 0n),
+      merkleRoot: buildMerkleRoot(leaves),
+      entitlements
+    };
+
+    this.epochs.set(`${poolId}:${epoch}`, rewardEpoch);
+    return rewardEpoch;
+  }
+
+  getRewardEpoch(poolId: string, epoch: number): LpRewardEpoch | null {
+    return this.epochs.get(`${poolId}:${epoch}`) || null;
+  }
+
+  /**
+   * Entitlement and proof for one provider, for building a claim
+   */
+  getRewardProof(poolId: string, epoch: number, provider: string): LpRewardProof | null {
+    const rewardEpoch = this.getRewardEpoch(poolId, epoch);
+    const entitlement = rewardEpoch?.entitlements.find(entry => entry.provider === provider);
+    if (!rewardEpoch || !entitlement) {
+      return null;
+    }
+
+    const leaves = rewardEpoch.entitlements.map(entry => hashEntitlementLeaf(epoch, poolId, entry));
+    return { entitlement, proof: buildMerkleProof(leaves, entitlement.index) };
+  }
+}
@@ -0,0 +1,531 @@
+// PuckSwap v5 - Context7 Monitor Host
+// One indexer connection, retry/backoff, listener registry, event persistence,
+// rollback handling and broadcasting shared by every monitored domain
+// Domain plugins (see monitor-plugins.ts) only parse datums and detect events
+
+import { createIndexer, Indexer, UTxO, Address, RollbackEvent } from "../lib/mock-context7-sdk";
+import type { EventStore, MonitorEventSource, StoredEvent } from "./event-store";
+import { WebhookDispatcher, WebhookOutboxConfig, createWebhookDispatcher } from "./webhook-delivery";
+import type { MonitorDomainsConfig } from "./monitor-plugins";
+
+// =============================================================================
+// PLUGIN AND EVENT TYPES
+// =============================================================================
+
+// A domain event found in a state transition
+export interface DetectedEvent<T = any> {
+  type: string;
+  key?: string; // Distinguishes several events of one type in the same transaction
+  payload: T;
+}
+
+export interface MonitorPlugin<TState = any, TEvent = any> {
+  source: MonitorEventSource;
+  addresses: Address[];
+  /**
+   * Decode the domain state held by a UTxO
+   * @returns State, or null when the UTxO does not carry one
+   */
+  parseState(utxo: UTxO): Promise<TState | null>;
+  /**
+   * Decode the state of an address holding one UTxO per item, e.g. vesting streams
+   * When present the host reads every UTxO at the address on each update and
+   * uses this instead of parseState
+   */
+  parseAddressState?(utxos: UTxO[]): Promise<TState | null>;
+  /**
+   * Events produced by moving from the previous state to the next one
+   * @param previous - Null for the first state seen at an address
+   */
+  detectEvents(previous: TState | null, next: TState, utxo: UTxO): Promise<DetectedEvent<TEvent>[]>;
+}
+
+export interface MonitorEvent<T = any> {
+  source: MonitorEventSource;
+  type: string; // Domain event type, or EventRolledBack
+  address: Address;
+  key?: string;
+  txHash: string;
+  slot: number;
+  blockHeight: number;
+  blockHash: string;
+  timestamp: number; // milliseconds
+  payload: T; // Domain event; for EventRolledBack the MonitorEvent that was dropped
+  rollback?: RollbackEvent; // Fork point, set on EventRolledBack
+}
+
+export type MonitorEventListener = (event: MonitorEvent) => void;
+
+export interface MonitorHostConfig extends MonitorDomainsConfig {
+  projectId: string; // Blockfrost project id used by the indexer
+  network: "mainnet" | "preview" | "preprod";
+  maxRetries: number;
+  retryDelay: number; // milliseconds, doubled after each failed attempt
+  maxRetryDelay: number; // milliseconds
+  rollbackDepth?: number; // Updates kept per address to revert on rollback
+  eventStore?: EventStore;
+  webhookUrl?: string;
+  webhookSecret?: string; // HMAC key for webhook signatures
+  webhookOutbox?: WebhookOutboxConfig; // Outbox of the webhookUrl dispatcher; defaultWebhookOutboxConfig() when omitted
+  webhooks?: WebhookDispatcher; // Shared dispatcher, started and stopped by its owner; replaces webhookUrl
+  broadcastEndpoints?: {
+    websocket?: string;
+    api?: string;
+  };
+}
+
+export const MONITOR_HOST_CONSTANTS = {
+  SECURITY_PARAMETER: 2160, // k: blocks after which Cardano never rolls back
+  ALL_EVENTS: '*'
+};
+
+export const DEFAULT_MONITOR_HOST_CONFIG: Partial<MonitorHostConfig> = {
+  maxRetries: 5,
+  retryDelay: 1000, // 1 second
+  maxRetryDelay: 30000 // 30 seconds
+};
+
+// Last processed slot of an address and the outputs applied in that slot
+// outRefs is null when the whole slot is known to be applied (restored from the
+// event store, where the reloaded chain state already covers it, or after a rollback)
+interface AddressCheckpoint {
+  slot: number;
+  outRefs: Set<string> | null;
+}
+
+// A processed UTxO update, kept until it is too deep to be rolled back
+interface AppliedUpdate {
+  slot: number;
+  previousState: any;
+  events: MonitorEvent[];
+}
+
+// =============================================================================
+// MONITOR HOST
+// =============================================================================
+
+/**
+ * PuckSwap Monitor Host
+ * State, checkpoints and rollback history are tracked per plugin source and address
+ */
+export class MonitorHost {
+  private config: MonitorHostConfig;
+  private indexer: Indexer | null = null;
+  private plugins: MonitorPlugin[] = [];
+  private states: Map<string, any> = new Map();
+  private checkpoints: Map<string, AddressCheckpoint> = new Map();
+  private appliedUpdates: Map<string, AppliedUpdate[]> = new Map();
+  private eventListeners: Map<string, MonitorEventListener[]> = new Map();
+  private wsConnection: WebSocket | null = null;
+  private isRunning = false;
+  private eventStore: EventStore | null;
+  private webhooks: WebhookDispatcher | null;
+  private ownsWebhooks: boolean;
+
+  constructor(config: MonitorHostConfig) {
+    this.config = config;
+    this.eventStore = config.eventStore ?? null;
+    this.ownsWebhooks = !config.webhooks && !!config.webhookUrl;
+    this.webhooks = config.webhooks ??
+      (config.webhookUrl ? createWebhookDispatcher(config.webhookUrl, config.webhookSecret, config.webhookOutbox) : null);
+  }
+
+  /**
+   * Add a domain plugin; plugins registered after start are picked up on the next start
+   * A source may have several plugins as long as they watch different addresses.
+   */
+  register(plugin: MonitorPlugin): void {
+    const watched = plugin.addresses.find(address => this.isWatching(plugin.source, address));
+    if (watched) {
+      throw new Error(`A ${plugin.source} plugin is already registered for ${watched}`);
+    }
+    this.plugins.push(plugin);
+  }
+
+  getPlugins(): MonitorPlugin[] {
+    return [...this.plugins];
+  }
+
+  // Whether a registered plugin of the source watches the address
+  isWatching(source: MonitorEventSource, address: Address): boolean {
+    return this.plugins.some(plugin => plugin.source === source && plugin.addresses.includes(address));
+  }
+
+  // Persist events and resume from the last processed slot across restarts; set before start
+  setEventStore(eventStore: EventStore | null): void {
+    this.eventStore = eventStore;
+  }
+
+  getEventStore(): EventStore | null {
+    return this.eventStore;
+  }
+
+  // Deliver events through a dispatcher shared with other hosts; its owner starts and stops it
+  setWebhookDispatcher(dispatcher: WebhookDispatcher | null): void {
+    if (this.ownsWebhooks) {
+      this.webhooks?.stop();
+    }
+    this.webhooks = dispatcher;
+    this.ownsWebhooks = false;
+  }
+
+  // Connect to the indexer
+  async initialize(): Promise<void> {
+    try {
+      this.indexer = await this.withRetry(
+        () => createIndexer({ projectId: this.config.projectId, network: this.config.network }),
+        "indexer connection"
+      );
+
+      if (this.config.broadcastEndpoints?.websocket) {
+        this.initializeWebSocket();
+      }
+
+      console.log("Monitor Host initialized successfully");
+    } catch (error) {
+      console.error("Failed to initialize Monitor Host:", error);
+      throw error;
+    }
+  }
+
+  // Load current state and subscribe to every plugin address
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      console.warn("Monitor Host is already running");
+      return;
+    }
+
+    try {
+      if (!this.indexer) {
+        await this.initialize();
+      }
+      const indexer = this.indexer!;
+      this.isRunning = true;
+
+      for (const plugin of this.plugins) {
+        for (const address of plugin.addresses) {
+          await this.loadState(plugin, address);
+
+          if (this.eventStore) {
+            const checkpoint = await this.eventStore.getCheckpoint(plugin.source, address);
+            if (checkpoint !== null) {
+              this.checkpoints.set(this.stateKey(plugin, address), { slot: checkpoint, outRefs: null });
+            }
+          }
+
+          indexer.addresses.subscribe([address], (utxo) => this.handleUpdate(plugin, address, utxo));
+        }
+      }
+
+      indexer.rollbacks.subscribe((rollback) => this.handleRollback(rollback));
+
+      if (this.ownsWebhooks) {
+        this.webhooks?.start();
+      }
+
+      console.log(`Monitor Host started: ${this.plugins.map(plugin => plugin.source).join(", ")}`);
+    } catch (error) {
+      console.error("Failed to start Monitor Host:", error);
+      this.isRunning = false;
+      throw error;
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.isRunning = false;
+
+    if (this.ownsWebhooks) {
+      this.webhooks?.stop();
+    }
+
+    if (this.wsConnection) {
+      this.wsConnection.close();
+      this.wsConnection = null;
+    }
+
+    console.log("Monitor Host stopped");
+  }
+
+  isActive(): boolean {
+    return this.isRunning;
+  }
+
+  /**
+   * Listen for events
+   * @param eventType - "*" for everything, a source such as "pool", or "source:type" such as "pool:swap"
+   */
+  addEventListener(eventType: string, listener: MonitorEventListener): void {
+    if (!this.eventListeners.has(eventType)) {
+      this.eventListeners.set(eventType, []);
+    }
+    this.eventListeners.get(eventType)!.push(listener);
+  }
+
+  removeEventListener(eventType: string, listener: MonitorEventListener): void {
+    const listeners = this.eventListeners.get(eventType);
+    if (listeners) {
+      const index = listeners.indexOf(listener);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    }
+  }
+
+  // Current decoded state of a monitored address
+  getState<TState = any>(source: MonitorEventSource, address: Address): TState | null {
+    return this.states.get(`${source}|${address}`) ?? null;
+  }
+
+  // Private methods
+
+  private stateKey(plugin: MonitorPlugin, address: Address): string {
+    return `${plugin.source}|${address}`;
+  }
+
+  private async loadState(plugin: MonitorPlugin, address: Address): Promise<void> {
+    const utxos = await this.withRetry(() => this.indexer!.utxos.byAddress(address), `${plugin.source} state at ${address}`);
+    if (utxos.length === 0 && !plugin.parseAddressState) {
+      return;
+    }
+
+    try {
+      const state = plugin.parseAddressState
+        ? await plugin.parseAddressState(utxos)
+        : await plugin.parseState(utxos[utxos.length - 1]);
+      if (state) {
+        this.states.set(this.stateKey(plugin, address), state);
+      }
+    } catch (error) {
+      console.error(`Failed to parse ${plugin.source} state at ${address}:`, error);
+    }
+  }
+
+  private async handleUpdate(plugin: MonitorPlugin, address: Address, utxo: UTxO): Promise<void> {
+    if (!this.isRunning) return;
+
+    const key = this.stateKey(plugin, address);
+    try {
+      // Already processed, before a restart or earlier in the same slot
+      const outRef = `${utxo.txHash}#${utxo.outputIndex}`;
+      if (utxo.slot !== undefined && this.isCheckpointed(key, utxo.slot, outRef)) {
+        return;
+      }
+
+      const next = plugin.parseAddressState
+        ? await plugin.parseAddressState(await this.withRetry(() => this.indexer!.utxos.byAddress(address), `${plugin.source} state at ${address}`))
+        : await plugin.parseState(utxo);
+      if (!next) {
+        console.error(`Failed to parse ${plugin.source} state from ${utxo.txHash}`);
+        return;
+      }
+
+      const previous = this.states.get(key) ?? null;
+      const detected = await plugin.detectEvents(previous, next, utxo);
+      this.states.set(key, next);
+
+      const events = detected.map(({ type, key: eventKey, payload }): MonitorEvent => ({
+        source: plugin.source,
+        type,
+        address,
+        key: eventKey,
+        txHash: utxo.txHash,
+        slot: utxo.slot || 0,
+        blockHeight: utxo.blockHeight || 0,
+        blockHash: utxo.blockHash || "",
+        timestamp: Date.now(),
+        payload
+      }));
+      this.recordAppliedUpdate(key, { slot: utxo.slot || 0, previousState: previous, events });
+
+      for (const event of events) {
+        await this.publish(event);
+      }
+
+      const checkpoint = this.advanceCheckpoint(key, utxo.slot || 0, outRef);
+      await this.eventStore?.setCheckpoint(plugin.source, checkpoint.slot, address);
+    } catch (error) {
+      console.error(`Error handling ${plugin.source} update ${utxo.txHash}:`, error);
+    }
+  }
+
+  // Earlier slots are done; within the checkpoint slot only the outputs already applied are
+  private isCheckpointed(key: string, slot: number, outRef: string): boolean {
+    const checkpoint = this.checkpoints.get(key);
+    if (!checkpoint || slot > checkpoint.slot) {
+      return false;
+    }
+    return slot < checkpoint.slot || checkpoint.outRefs === null || checkpoint.outRefs.has(outRef);
+  }
+
+  private advanceCheckpoint(key: string, slot: number, outRef: string): AddressCheckpoint {
+    const checkpoint = this.checkpoints.get(key);
+    if (checkpoint && checkpoint.slot >= slot) {
+      checkpoint.outRefs?.add(outRef);
+      return checkpoint;
+    }
+
+    const next = { slot, outRefs: new Set([outRef]) };
+    this.checkpoints.set(key, next);
+    return next;
+  }
+
+  private recordAppliedUpdate(key: string, update: AppliedUpdate): void {
+    const updates = this.appliedUpdates.get(key) || [];
+    updates.push(update);
+
+    const depth = this.config.rollbackDepth ?? MONITOR_HOST_CONSTANTS.SECURITY_PARAMETER;
+    if (updates.length > depth) {
+      updates.splice(0, updates.length - depth);
+    }
+    this.appliedUpdates.set(key, updates);
+  }
+
+  // Revert every address to the fork point and announce the dropped events
+  private async handleRollback(rollback: RollbackEvent): Promise<void> {
+    console.warn(`Chain rolled back to slot ${rollback.slot} (${rollback.blockHash})`);
+
+    // Stored events are dropped once per source, then shared by that source's plugins
+    const removedBySource = new Map<MonitorEventSource, StoredEvent<MonitorEvent>[]>();
+
+    for (const plugin of this.plugins) {
+      try {
+        if (!removedBySource.has(plugin.source)) {
+          removedBySource.set(plugin.source, this.eventStore ? await this.eventStore.rollback<MonitorEvent>(plugin.source, rollback.slot) : []);
+        }
+        const removed = removedBySource.get(plugin.source)!;
+
+        const dropped: MonitorEvent[] = [];
+        for (const address of plugin.addresses) {
+          const key = this.stateKey(plugin, address);
+          const updates = this.appliedUpdates.get(key) || [];
+          const firstRolledBack = updates.findIndex(update => update.slot > rollback.slot);
+
+          const checkpoint = this.checkpoints.get(key);
+          if (checkpoint && checkpoint.slot > rollback.slot) {
+            this.checkpoints.set(key, { slot: rollback.slot, outRefs: null });
+          }
+
+          if (firstRolledBack !== -1) {
+            const reverted = updates.splice(firstRolledBack);
+            const restored = reverted[0].previousState;
+            if (restored) {
+              this.states.set(key, restored);
+            } else {
+              this.states.delete(key);
+            }
+            dropped.push(...reverted.flatMap(update => update.events));
+          } else if (removed.some(stored => stored.payload.address === address)) {
+            // Processed before a restart: reload the state from the new chain tip
+            await this.loadState(plugin, address);
+            dropped.push(...removed.map(stored => stored.payload).filter(event => event.address === address));
+          }
+        }
+
+        for (const event of dropped.reverse()) {
+          await this.publish({ ...event, type: 'EventRolledBack', timestamp: Date.now(), payload: event, rollback });
+        }
+      } catch (error) {
+        console.error(`Failed to roll back ${plugin.source} monitor:`, error);
+      }
+    }
+  }
+
+  private async publish(event: MonitorEvent): Promise<void> {
+    // Rollback notifications are not history; the store drops the original instead
+    if (this.eventStore && event.type !== 'EventRolledBack') {
+      await this.eventStore.append({
+        source: event.source,
+        type: event.type,
+        slot: event.slot,
+        txHash: event.txHash,
+        timestamp: event.timestamp,
+        key: event.key !== undefined ? `${event.address}:${event.key}` : event.address,
+        payload: event
+      });
+    }
+
+    const listeners = [
+      ...(this.eventListeners.get(`${event.source}:${event.type}`) || []),
+      ...(this.eventListeners.get(event.source) || []),
+      ...(this.eventListeners.get(MONITOR_HOST_CONSTANTS.ALL_EVENTS) || [])
+    ];
+    for (const listener of listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Error in event listener for ${event.source}:${event.type}:`, error);
+      }
+    }
+
+    // Only the outbox write is awaited; subscribers are called in the background
+    if (this.webhooks) {
+      await this.webhooks.enqueue(event.source, event.type, event);
+    }
+
+    await this.broadcast(event);
+  }
+
+  private async broadcast(event: MonitorEvent): Promise<void> {
+    const body = JSON.stringify({ event, timestamp: Date.now(), source: 'PuckSwap_MonitorHost_v5' }, (_key, value) =>
+      typeof value === "bigint" ? value.toString() : value
+    );
+
+    if (this.wsConnection && this.wsConnection.readyState === WebSocket.OPEN) {
+      this.wsConnection.send(body);
+    }
+
+    const url = this.config.broadcastEndpoints?.api;
+    if (url) {
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body
+        });
+        if (!response.ok) {
+          throw new Error(`Broadcast failed with status: ${response.status}`);
+        }
+      } catch (error) {
+        console.error(`Error broadcasting ${event.source}:${event.type} to ${url}:`, error);
+      }
+    }
+  }
+
+  private initializeWebSocket(): void {
+    try {
+      this.wsConnection = new WebSocket(this.config.broadcastEndpoints!.websocket!);
+
+      this.wsConnection.onclose = () => {
+        // Attempt to reconnect after delay
+        setTimeout(() => {
+          if (this.isRunning) {
+            this.initializeWebSocket();
+          }
+        }, this.config.retryDelay);
+      };
+
+      this.wsConnection.onerror = (error) => {
+        console.error("Monitor Host WebSocket error:", error);
+      };
+    } catch (error) {
+      console.error("Failed to initialize Monitor Host WebSocket:", error);
+    }
+  }
+
+  // Exponential backoff capped at maxRetryDelay
+  private async withRetry<T>(operation: () => Promise<T>, context: string): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        if (attempt >= this.config.maxRetries) {
+          throw new Error(`${context} failed after ${attempt} attempts: ${error}`);
+        }
+
+        const delay = Math.min(this.config.retryDelay * 2 ** (attempt - 1), this.config.maxRetryDelay);
+        console.error(`${context} failed (attempt ${attempt}/${this.config.maxRetries}), retrying in ${delay}ms:`, error);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+}
@@ -0,0 +1,178 @@
+// PuckSwap v5 - Context7 Monitor Plugins
+// Datum parsing and event detection for each monitored domain, run by the MonitorHost
+// Parsing and detection are shared with the per-domain monitor classes
+
+import type { Address } from "../lib/mock-context7-sdk";
+import { MonitorHost, MonitorHostConfig, MonitorPlugin, DEFAULT_MONITOR_HOST_CONFIG } from "./monitor-host";
+import { PuckSwapSerializer, PoolDatum } from "../lucid/utils/serialization";
+import { detectPoolEvent, PoolEvent } from "./pool_monitor";
+import { parseRegistryState, detectRegistryEvents, RegistryState, RegistryEvent } from "./registry_monitor";
+import { parseStakingDatum, detectStakingEvents, StakingDatum, StakingEvent } from "./staking-monitor";
+import { parseGovernanceDatum, detectGovernanceEvents, GovernanceDatum, GovernanceEvent } from "./governance_monitor";
+import {
+  parseTreasuryState,
+  detectTreasuryEvents,
+  parseStreams,
+  detectStreamEvents,
+  treasuryEventKey,
+  TreasuryState,
+  TreasuryEvent
+} from "./treasury-monitor";
+import type { VestingStream } from "../lucid/treasury-streams";
+import {
+  parseCrossChainRouterDatum,
+  detectCrossChainRouterEvents,
+  CrossChainRouterDatum,
+  CrossChainRouterEvent
+} from "./crosschain_monitor";
+
+// Which domains to monitor; a plugin is created for each address given
+export interface MonitorDomainsConfig {
+  poolAddresses?: Address[];
+  // Identifies the provider behind a liquidity transaction (see PoolMonitorConfig)
+  resolveLiquidityProvider?: (txHash: string, poolAddress: string) => Promise<string | null>;
+  registryAddress?: Address;
+  stakingAddress?: Address;
+  governanceAddress?: Address;
+  treasuryAddress?: Address;
+  streamAddress?: Address; // Treasury vesting stream script address
+  crossChainRouterAddress?: Address;
+}
+
+export function createPoolPlugin(
+  poolAddresses: Address[],
+  resolveLiquidityProvider?: MonitorDomainsConfig['resolveLiquidityProvider']
+): MonitorPlugin<PoolDatum, PoolEvent> {
+  const resolveProvider = async (txHash: string, poolAddress: string): Promise<string> => {
+    try {
+      return (await resolveLiquidityProvider?.(txHash, poolAddress)) || "unknown";
+    } catch (error) {
+      console.error(`Failed to resolve liquidity provider for ${txHash}:`, error);
+      return "unknown";
+    }
+  };
+
+  return {
+    source: 'pool',
+    addresses: poolAddresses,
+    parseState: async (utxo) => utxo.datum ? PuckSwapSerializer.deserializePoolDatum(utxo.datum) : null,
+    detectEvents: async (previous, next, utxo) => {
+      const event = await detectPoolEvent(utxo.address, utxo, previous ?? undefined, next, resolveProvider);
+      return event ? [{ type: event.type, payload: event }] : [];
+    }
+  };
+}
+
+export function createRegistryPlugin(registryAddress: Address): MonitorPlugin<RegistryState, RegistryEvent> {
+  return {
+    source: 'registry',
+    addresses: [registryAddress],
+    parseState: parseRegistryState,
+    detectEvents: async (previous, next, utxo) =>
+      detectRegistryEvents(previous, next, utxo).map(event => ({ type: event.type, key: event.poolId, payload: event }))
+  };
+}
+
+export function createStakingPlugin(stakingAddress: Address): MonitorPlugin<StakingDatum, StakingEvent> {
+  return {
+    source: 'staking',
+    addresses: [stakingAddress],
+    parseState: parseStakingDatum,
+    detectEvents: async (previous, next, utxo) =>
+      detectStakingEvents(previous, next, utxo).map(event => ({ type: event.type, payload: event }))
+  };
+}
+
+export function createGovernancePlugin(governanceAddress: Address): MonitorPlugin<GovernanceDatum, GovernanceEvent> {
+  return {
+    source: 'governance',
+    addresses: [governanceAddress],
+    parseState: parseGovernanceDatum,
+    detectEvents: async (previous, next, utxo) =>
+      detectGovernanceEvents(previous, next, utxo).map(event => ({
+        type: event.type,
+        key: event.proposalId !== undefined ? event.proposalId.toString() : undefined,
+        payload: event
+      }))
+  };
+}
+
+export function createTreasuryPlugin(treasuryAddress: Address): MonitorPlugin<TreasuryState, TreasuryEvent> {
+  return {
+    source: 'treasury',
+    addresses: [treasuryAddress],
+    parseState: parseTreasuryState,
+    detectEvents: async (previous, next, utxo) =>
+      detectTreasuryEvents(previous, next, utxo).map(event => ({ type: event.type, key: treasuryEventKey(event), payload: event }))
+  };
+}
+
+// Vesting streams are one UTxO each, so the state is every stream at the address
+export function createTreasuryStreamsPlugin(streamAddress: Address): MonitorPlugin<Map<string, VestingStream>, TreasuryEvent> {
+  return {
+    source: 'treasury',
+    addresses: [streamAddress],
+    parseState: async (utxo) => parseStreams([utxo]),
+    parseAddressState: async (utxos) => parseStreams(utxos),
+    detectEvents: async (previous, next, utxo) =>
+      detectStreamEvents(previous, next, utxo).map(event => ({ type: event.type, key: treasuryEventKey(event), payload: event }))
+  };
+}
+
+export function createCrossChainPlugin(routerAddress: Address): MonitorPlugin<CrossChainRouterDatum, CrossChainRouterEvent> {
+  return {
+    source: 'crosschain',
+    addresses: [routerAddress],
+    parseState: parseCrossChainRouterDatum,
+    detectEvents: async (previous, next, utxo) =>
+      detectCrossChainRouterEvents(previous, next, utxo).map(event => ({
+        type: event.type,
+        key: event.data.chainConnection?.chain_id.toString(),
+        payload: event
+      }))
+  };
+}
+
+// Plugins for every domain configured
+export function createMonitorPlugins(config: MonitorDomainsConfig): MonitorPlugin[] {
+  const plugins: MonitorPlugin[] = [];
+
+  if (config.poolAddresses && config.poolAddresses.length > 0) {
+    plugins.push(createPoolPlugin(config.poolAddresses, config.resolveLiquidityProvider));
+  }
+  if (config.registryAddress) {
+    plugins.push(createRegistryPlugin(config.registryAddress));
+  }
+  if (config.stakingAddress) {
+    plugins.push(createStakingPlugin(config.stakingAddress));
+  }
+  if (config.governanceAddress) {
+    plugins.push(createGovernancePlugin(config.governanceAddress));
+  }
+  if (config.treasuryAddress) {
+    plugins.push(createTreasuryPlugin(config.treasuryAddress));
+  }
+  if (config.streamAddress) {
+    plugins.push(createTreasuryStreamsPlugin(config.streamAddress));
+  }
+  if (config.crossChainRouterAddress) {
+    plugins.push(createCrossChainPlugin(config.crossChainRouterAddress));
+  }
+
+  return plugins;
+}
+
+/**
+ * Create a host with a plugin for every domain present in the config and start it
+ */
+export async function startMonitorHost(config: Partial<MonitorHostConfig> & Pick<MonitorHostConfig, 'projectId' | 'network'>): Promise<MonitorHost> {
+  const hostConfig = { ...DEFAULT_MONITOR_HOST_CONFIG, ...config } as MonitorHostConfig;
+  const host = new MonitorHost(hostConfig);
+
+  for (const plugin of createMonitorPlugins(hostConfig)) {
+    host.register(plugin);
+  }
+
+  await host.start();
+  return host;
+}
@@ -1,510 +0,0 @@
-// PuckSwap v4 Enterprise - Pool Registry Monitor
-// Context7 real-time monitoring for pool registry and dynamic pool discovery
-// WebSocket integration with comprehensive state management
-
-import { createIndexer, Indexer, UTxO, Address, PolicyId } from "@context7/sdk";
-
-// Pool registry monitoring interfaces
-export interface PoolRegistryState {
-  totalPools: number;
-  activePools: number;
-  pools: PoolEntryState[];
-  governanceAddress: Address;
-  adminAddress: Address;
-  registryFee: bigint;
-  minInitialLiquidity: bigint;
-  paused: boolean;
-  emergencyAdmin: Address;
-  lastUpdatedSlot: number;
-  protocolFeeBps: number;
-  treasuryAddress: Address;
-  maxFeeBps: number;
-  minFeeBps: number;
-  supportedTokens: PolicyId[];
-}
-
-export interface PoolEntryState {
-  poolId: string;
-  poolAddress: Address;
-  tokenAPolicy: PolicyId;
-  tokenAName: string;
-  tokenBPolicy: PolicyId;
-  tokenBName: string;
-  lpTokenPolicy: PolicyId;
-  lpTokenName: string;
-  feeBasisPoints: number;
-  createdAtSlot: number;
-  totalVolume: bigint;
-  totalFeesCollected: bigint;
-  isActive: boolean;
-  governanceControlled: boolean;
-  // Real-time state
-  currentReserveA: bigint;
-  currentReserveB: bigint;
-  currentLPSupply: bigint;
-  lastSwapSlot: number;
-  priceA: number;
-  priceB: number;
-  volume24h: bigint;
-  fees24h: bigint;
-  liquidityProviders: number;
-}
-
-export interface PoolRegistryEvent {
-  type: 'PoolRegistered' | 'PoolDeactivated' | 'PoolFeeUpdated' | 'RegistryConfigUpdated' | 
-        'GovernanceConfigUpdated' | 'EmergencyPause' | 'EmergencyUnpause' | 'SupportedTokenAdded' | 
-        'SupportedTokenRemoved';
-  poolId?: string;
-  transactionHash: string;
-  slot: number;
-  blockHeight: number;
-  timestamp: Date;
-  data: any;
-}
-
-export interface PoolRegistryMonitorConfig {
-  registryAddress: Address;
-  blockfrostApiKey: string;
-  network: "mainnet" | "preview" | "preprod";
-  webhookUrl?: string;
-  enableWebSocket: boolean;
-  pollingInterval: number; // milliseconds
-  maxRetries: number;
-  retryDelay: number; // milliseconds
-}
-
-export class PoolRegistryMonitor {
-  private indexer: Indexer;
-  private config: PoolRegistryMonitorConfig;
-  private currentState: PoolRegistryState | null = null;
-  private eventListeners: Map<string, ((event: PoolRegistryEvent) => void)[]> = new Map();
-  private isMonitoring = false;
-  private retryCount = 0;
-
-  constructor(config: PoolRegistryMonitorConfig) {
-    this.config = config;
-  }
-
-  // Initialize the monitor
-  async initialize(): Promise<void> {
-    try {
-      this.indexer = await createIndexer({
-        projectId: this.config.blockfrostApiKey,
-        network: this.config.network
-      });
-
-      console.log("Pool Registry Monitor initialized successfully");
-    } catch (error) {
-      console.error("Failed to initialize Pool Registry Monitor:", error);
-      throw error;
-    }
-  }
-
-  // Start monitoring the pool registry
-  async startMonitoring(): Promise<void> {
-    if (this.isMonitoring) {
-      console.warn("Pool Registry Monitor is already running");
-      return;
-    }
-
-    try {
-      this.isMonitoring = true;
-      console.log("Starting Pool Registry monitoring...");
-
-      // Load initial state
-      await this.loadInitialState();
-
-      // Subscribe to registry address changes
-      this.indexer.addresses.subscribe([this.config.registryAddress], (utxo) => {
-        this.handleRegistryUpdate(utxo);
-      });
-
-      // Start periodic state updates
-      this.startPeriodicUpdates();
-
-      console.log("Pool Registry monitoring started successfully");
-    } catch (error) {
-      console.error("Failed to start Pool Registry monitoring:", error);
-      this.isMonitoring = false;
-      
-      if (this.retryCount < this.config.maxRetries) {
-        this.retryCount++;
-        console.log(`Retrying in ${this.config.retryDelay}ms... (${this.retryCount}/${this.config.maxRetries})`);
-        setTimeout(() => this.startMonitoring(), this.config.retryDelay);
-      } else {
-        throw error;
-      }
-    }
-  }
-
-  // Stop monitoring
-  async stopMonitoring(): Promise<void> {
-    if (!this.isMonitoring) {
-      return;
-    }
-
-    this.isMonitoring = false;
-    console.log("Pool Registry monitoring stopped");
-  }
-
-  // Get current registry state
-  getCurrentState(): PoolRegistryState | null {
-    return this.currentState;
-  }
-
-  // Get all active pools
-  getActivePools(): PoolEntryState[] {
-    return this.currentState?.pools.filter(pool => pool.isActive) || [];
-  }
-
-  // Get pool by ID
-  getPoolById(poolId: string): PoolEntryState | null {
-    return this.currentState?.pools.find(pool => pool.poolId === poolId) || null;
-  }
-
-  // Get pools by token pair
-  getPoolsByTokenPair(tokenAPolicy: PolicyId, tokenBPolicy: PolicyId): PoolEntryState[] {
-    return this.currentState?.pools.filter(pool => 
-      (pool.tokenAPolicy === tokenAPolicy && pool.tokenBPolicy === tokenBPolicy) ||
-      (pool.tokenAPolicy === tokenBPolicy && pool.tokenBPolicy === tokenAPolicy)
-    ) || [];
-  }
-
-  // Get top pools by volume
-  getTopPoolsByVolume(limit: number = 10): PoolEntryState[] {
-    return this.getActivePools()
-      .sort((a, b) => Number(b.volume24h - a.volume24h))
-      .slice(0, limit);
-  }
-
-  // Get top pools by TVL
-  getTopPoolsByTVL(limit: number = 10): PoolEntryState[] {
-    return this.getActivePools()
-      .sort((a, b) => {
-        const tvlA = a.currentReserveA + a.currentReserveB; // Simplified TVL calculation
-        const tvlB = b.currentReserveA + b.currentReserveB;
-        return Number(tvlB - tvlA);
-      })
-      .slice(0, limit);
-  }
-
-  // Add event listener
-  addEventListener(eventType: string, callback: (event: PoolRegistryEvent) => void): void {
-    if (!this.eventListeners.has(eventType)) {
-      this.eventListeners.set(eventType, []);
-    }
-    this.eventListeners.get(eventType)!.push(callback);
-  }
-
-  // Remove event listener
-  removeEventListener(eventType: string, callback: (event: PoolRegistryEvent) => void): void {
-    const listeners = this.eventListeners.get(eventType);
-    if (listeners) {
-      const index = listeners.indexOf(callback);
-      if (index > -1) {
-        listeners.splice(index, 1);
-      }
-    }
-  }
-
-  // Get registry statistics
-  getRegistryStatistics(): {
-    totalPools: number;
-    activePools: number;
-    totalVolume24h: bigint;
-    totalFees24h: bigint;
-    totalTVL: bigint;
-    averageFee: number;
-    mostActivePool: PoolEntryState | null;
-  } {
-    if (!this.currentState) {
-      return {
-        totalPools: 0,
-        activePools: 0,
-        totalVolume24h: 0n,
-        totalFees24h: 0n,
-        totalTVL: 0n,
-        averageFee: 0,
-        mostActivePool: null
-      };
-    }
-
-    const activePools = this.getActivePools();
-    const totalVolume24h = activePools.reduce((sum, pool) => sum + pool.volume24h, 0n);
-    const totalFees24h = activePools.reduce((sum, pool) => sum + pool.fees24h, 0n);
-    const totalTVL = activePools.reduce((sum, pool) => sum + pool.currentReserveA + pool.currentReserveB, 0n);
-    const averageFee = activePools.length > 0 ? 
-      activePools.reduce((sum, pool) => sum + pool.feeBasisPoints, 0) / activePools.length : 0;
-    const mostActivePool = activePools.reduce((max, pool) => 
-      pool.volume24h > (max?.volume24h || 0n) ? pool : max, null as PoolEntryState | null);
-
-    return {
-      totalPools: this.currentState.totalPools,
-      activePools: this.currentState.activePools,
-      totalVolume24h,
-      totalFees24h,
-      totalTVL,
-      averageFee,
-      mostActivePool
-    };
-  }
-
-  // Private methods
-  private async loadInitialState(): Promise<void> {
-    try {
-      const registryUTxOs = await this.indexer.utxos.byAddress(this.config.registryAddress);
-      
-      if (registryUTxOs.length === 0) {
-        throw new Error("Pool registry UTxO not found");
-      }
-
-      const registryUTxO = registryUTxOs[0];
-      this.currentState = await this.parseRegistryState(registryUTxO);
-      
-      // Load individual pool states
-      await this.loadPoolStates();
-      
-      console.log(`Loaded initial registry state with ${this.currentState.totalPools} pools`);
-    } catch (error) {
-      console.error("Failed to load initial registry state:", error);
-      throw error;
-    }
-  }
-
-  private async loadPoolStates(): Promise<void> {
-    if (!this.currentState) return;
-
-    for (const pool of this.currentState.pools) {
-      try {
-        const poolState = await this.loadPoolState(pool.poolAddress);
-        if (poolState) {
-          // Update pool with real-time state
-          Object.assign(pool, poolState);
-        }
-      } catch (error) {
-        console.warn(`Failed to load state for pool ${pool.poolId}:`, error);
-      }
-    }
-  }
-
-  private async loadPoolState(poolAddress: Address): Promise<Partial<PoolEntryState> | null> {
-    try {
-      const poolUTxOs = await this.indexer.utxos.byAddress(poolAddress);
-      
-      if (poolUTxOs.length === 0) {
-        return null;
-      }
-
-      const poolUTxO = poolUTxOs[0];
-      return await this.parsePoolState(poolUTxO);
-    } catch (error) {
-      console.error(`Failed to load pool state for ${poolAddress}:`, error);
-      return null;
-    }
-  }
-
-  private async parseRegistryState(utxo: UTxO): Promise<PoolRegistryState> {
-    // Parse the registry datum from UTxO
-    // This would need to match the exact CIP-68 structure from the Aiken contract
-    
-    // Placeholder implementation
-    return {
-      totalPools: 0,
-      activePools: 0,
-      pools: [],
-      governanceAddress: "placeholder_governance_address",
-      adminAddress: "placeholder_admin_address",
-      registryFee: 2000000n,
-      minInitialLiquidity: 1000000n,
-      paused: false,
-      emergencyAdmin: "placeholder_emergency_admin",
-      lastUpdatedSlot: utxo.slot || 0,
-      protocolFeeBps: 30,
-      treasuryAddress: "placeholder_treasury_address",
-      maxFeeBps: 1000,
-      minFeeBps: 10,
-      supportedTokens: []
-    };
-  }
-
-  private async parsePoolState(utxo: UTxO): Promise<Partial<PoolEntryState>> {
-    // Parse the pool datum from UTxO
-    // This would extract current reserves, LP supply, etc.
-    
-    // Placeholder implementation
-    return {
-      currentReserveA: 1000000000n,
-      currentReserveB: 1000000000n,
-      currentLPSupply: 1000000n,
-      lastSwapSlot: utxo.slot || 0,
-      priceA: 1.0,
-      priceB: 1.0,
-      volume24h: 0n,
-      fees24h: 0n,
-      liquidityProviders: 0
-    };
-  }
-
-  private handleRegistryUpdate(utxo: UTxO): void {
-    try {
-      console.log("Registry update detected:", utxo.txHash);
-      
-      // Parse the updated registry state
-      this.parseRegistryState(utxo).then(newState => {
-        const oldState = this.currentState;
-        this.currentState = newState;
-        
-        // Detect and emit events based on state changes
-        this.detectAndEmitEvents(oldState, newState, utxo);
-        
-        // Update individual pool states
-        this.loadPoolStates();
-      }).catch(error => {
-        console.error("Failed to parse registry update:", error);
-      });
-    } catch (error) {
-      console.error("Failed to handle registry update:", error);
-    }
-  }
-
-  private detectAndEmitEvents(
-    oldState: PoolRegistryState | null,
-    newState: PoolRegistryState,
-    utxo: UTxO
-  ): void {
-    if (!oldState) return;
-
-    // Detect new pools
-    const newPools = newState.pools.filter(newPool => 
-      !oldState.pools.some(oldPool => oldPool.poolId === newPool.poolId)
-    );
-
-    for (const pool of newPools) {
-      this.emitEvent({
-        type: 'PoolRegistered',
-        poolId: pool.poolId,
-        transactionHash: utxo.txHash,
-        slot: utxo.slot || 0,
-        blockHeight: utxo.blockHeight || 0,
-        timestamp: new Date(),
-        data: pool
-      });
-    }
-
-    // Detect deactivated pools
-    const deactivatedPools = oldState.pools.filter(oldPool => 
-      oldPool.isActive && 
-      newState.pools.some(newPool => newPool.poolId === oldPool.poolId && !newPool.isActive)
-    );
-
-    for (const pool of deactivatedPools) {
-      this.emitEvent({
-        type: 'PoolDeactivated',
-        poolId: pool.poolId,
-        transactionHash: utxo.txHash,
-        slot: utxo.slot || 0,
-        blockHeight: utxo.blockHeight || 0,
-        timestamp: new Date(),
-        data: pool
-      });
-    }
-
-    // Detect fee updates
-    for (const newPool of newState.pools) {
-      const oldPool = oldState.pools.find(p => p.poolId === newPool.poolId);
-      if (oldPool && oldPool.feeBasisPoints !== newPool.feeBasisPoints) {
-        this.emitEvent({
-          type: 'PoolFeeUpdated',
-          poolId: newPool.poolId,
-          transactionHash: utxo.txHash,
-          slot: utxo.slot || 0,
-          blockHeight: utxo.blockHeight || 0,
-          timestamp: new Date(),
-          data: {
-            oldFee: oldPool.feeBasisPoints,
-            newFee: newPool.feeBasisPoints
-          }
-        });
-      }
-    }
-
-    // Detect registry configuration changes
-    if (oldState.registryFee !== newState.registryFee ||
-        oldState.minInitialLiquidity !== newState.minInitialLiquidity ||
-        oldState.maxFeeBps !== newState.maxFeeBps ||
-        oldState.minFeeBps !== newState.minFeeBps) {
-      this.emitEvent({
-        type: 'RegistryConfigUpdated',
-        transactionHash: utxo.txHash,
-        slot: utxo.slot || 0,
-        blockHeight: utxo.blockHeight || 0,
-        timestamp: new Date(),
-        data: {
-          oldConfig: {
-            registryFee: oldState.registryFee,
-            minInitialLiquidity: oldState.minInitialLiquidity,
-            maxFeeBps: oldState.maxFeeBps,
-            minFeeBps: oldState.minFeeBps
-          },
-          newConfig: {
-            registryFee: newState.registryFee,
-            minInitialLiquidity: newState.minInitialLiquidity,
-            maxFeeBps: newState.maxFeeBps,
-            minFeeBps: newState.minFeeBps
-          }
-        }
-      });
-    }
-
-    // Detect pause/unpause events
-    if (oldState.paused !== newState.paused) {
-      this.emitEvent({
-        type: newState.paused ? 'EmergencyPause' : 'EmergencyUnpause',
-        transactionHash: utxo.txHash,
-        slot: utxo.slot || 0,
-        blockHeight: utxo.blockHeight || 0,
-        timestamp: new Date(),
-        data: { paused: newState.paused }
-      });
-    }
-  }
-
-  private emitEvent(event: PoolRegistryEvent): void {
-    const listeners = this.eventListeners.get(event.type) || [];
-    for (const listener of listeners) {
-      try {
-        listener(event);
-      } catch (error) {
-        console.error(`Error in event listener for ${event.type}:`, error);
-      }
-    }
-
-    // Emit to all listeners
-    const allListeners = this.eventListeners.get('*') || [];
-    for (const listener of allListeners) {
-      try {
-        listener(event);
-      } catch (error) {
-        console.error(`Error in wildcard event listener:`, error);
-      }
-    }
-
-    console.log(`Event emitted: ${event.type}`, event);
-  }
-
-  private startPeriodicUpdates(): void {
-    if (!this.isMonitoring) return;
-
-    setTimeout(async () => {
-      try {
-        await this.loadPoolStates();
-        this.startPeriodicUpdates();
-      } catch (error) {
-        console.error("Error in periodic update:", error);
-        if (this.isMonitoring) {
-          this.startPeriodicUpdates();
-        }
-      }
-    }, this.config.pollingInterval);
-  }
-}
@@ -0,0 +1,263 @@
+// PuckSwap v5 - Pool OHLCV Candles
+// Open/high/low/close price and volume candles per pool, built from PoolMonitor
+// swap events and backfilled from the monitor event store
+// Trades are kept per pool and aggregated on query, so every interval is served
+// from one history and a chain rollback only has to drop trades
+
+import type { PoolMonitor, PoolEvent, SwapEventData, RolledBackEventData } from "./pool_monitor";
+import type { EventStore } from "./event-store";
+import type { MonitorEvent } from "./monitor-host";
+
+// =============================================================================
+// CANDLE TYPES
+// =============================================================================
+
+export type CandleInterval = '1m' | '5m' | '1h' | '1d';
+
+// Interval lengths in milliseconds; candles are aligned to UTC epoch multiples
+export const CANDLE_INTERVALS: Record<CandleInterval, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000
+};
+
+export const CANDLE_CONSTANTS = {
+  MAX_TRADES_PER_POOL: 100_000,
+  MAX_CANDLES_PER_QUERY: 1000
+} as const;
+
+// A swap reduced to what candles need
+export interface PoolTrade {
+  txHash: string;
+  slot: number;
+  timestamp: number; // milliseconds
+  price: number; // ADA per token after the swap
+  adaVolume: bigint; // Lovelace side of the swap
+  tokenVolume: bigint;
+}
+
+export interface Candle {
+  openTime: number; // milliseconds, inclusive
+  closeTime: number; // milliseconds, exclusive
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: bigint; // Lovelace
+  tokenVolume: bigint;
+  swapCount: number;
+}
+
+export interface PoolCandleServiceConfig {
+  maxTradesPerPool: number;
+}
+
+export function isCandleInterval(value: string): value is CandleInterval {
+  return Object.prototype.hasOwnProperty.call(CANDLE_INTERVALS, value);
+}
+
+/**
+ * Trade for a swap event
+ * @returns Trade, or null for events that are not swaps or leave an empty pool
+ */
+export function tradeFromSwapEvent(event: PoolEvent): PoolTrade | null {
+  const { ada_reserve, token_reserve } = event.poolDatum;
+  if (event.type !== 'swap' || ada_reserve <= 0n || token_reserve <= 0n) {
+    return null;
+  }
+
+  const swap = event.data as SwapEventData;
+  const adaIsInput = swap.inputToken.policy === "";
+  return {
+    txHash: event.txHash,
+    slot: event.slot,
+    timestamp: event.timestamp,
+    price: Number(ada_reserve) / Number(token_reserve),
+    adaVolume: adaIsInput ? swap.inputToken.amount : swap.outputToken.amount,
+    tokenVolume: adaIsInput ? swap.outputToken.amount : swap.inputToken.amount
+  };
+}
+
+/**
+ * Aggregate trades into candles; intervals without trades are omitted
+ * @param trades - Trades in timestamp order
+ * @param interval - Candle length
+ * @param fromTime - Inclusive, milliseconds; rounded down to the interval
+ * @param toTime - Exclusive, milliseconds
+ */
+export function aggregateCandles(trades: PoolTrade[], interval: CandleInterval, fromTime: number, toTime: number): Candle[] {
+  const length = CANDLE_INTERVALS[interval];
+  const start = Math.floor(fromTime / length) * length;
+  const candles: Candle[] = [];
+
+  for (const trade of trades) {
+    if (trade.timestamp < start || trade.timestamp >= toTime) {
+      continue;
+    }
+
+    const openTime = Math.floor(trade.timestamp / length) * length;
+    let candle = candles[candles.length - 1];
+    if (!candle || candle.openTime !== openTime) {
+      candle = {
+        openTime,
+        closeTime: openTime + length,
+        open: trade.price,
+        high: trade.price,
+        low: trade.price,
+        close: trade.price,
+        volume: 0n,
+        tokenVolume: 0n,
+        swapCount: 0
+      };
+      candles.push(candle);
+    }
+
+    candle.high = Math.max(candle.high, trade.price);
+    candle.low = Math.min(candle.low, trade.price);
+    candle.close = trade.price;
+    candle.volume += trade.adaVolume;
+    candle.tokenVolume += trade.tokenVolume;
+    candle.swapCount++;
+  }
+
+  return candles;
+}
+
+// =============================================================================
+// CANDLE SERVICE
+// =============================================================================
+
+/**
+ * PuckSwap Pool Candle Service
+ * Keyed by pool id (the monitored pool address)
+ */
+export class PoolCandleService {
+  private config: PoolCandleServiceConfig;
+  private trades: Map<string, PoolTrade[]> = new Map();
+  private monitor: PoolMonitor | null = null;
+  private readonly handleEvent = (event: PoolEvent): void => {
+    this.recordSwap(event);
+  };
+  private readonly handleRollback = (event: PoolEvent): void =>
+    this.rollbackTo(event.poolAddress, (event.data as RolledBackEventData).forkSlot);
+
+  constructor(config: Partial<PoolCandleServiceConfig> = {}) {
+    this.config = {
+      maxTradesPerPool: CANDLE_CONSTANTS.MAX_TRADES_PER_POOL,
+      ...config
+    };
+  }
+
+  /**
+   * Start recording trades from a pool monitor's swap stream
+   */
+  attach(monitor: PoolMonitor): void {
+    this.detach();
+    this.monitor = monitor;
+    monitor.addEventListener('swap', this.handleEvent);
+    monitor.addEventListener('EventRolledBack', this.handleRollback);
+  }
+
+  detach(): void {
+    if (!this.monitor) {
+      return;
+    }
+    this.monitor.removeEventListener('swap', this.handleEvent);
+    this.monitor.removeEventListener('EventRolledBack', this.handleRollback);
+    this.monitor = null;
+  }
+
+  recordSwap(event: PoolEvent): boolean {
+    const trade = tradeFromSwapEvent(event);
+    return trade ? this.recordTrade(event.poolAddress, trade) : false;
+  }
+
+  /**
+   * Add a trade, keeping the pool history in timestamp order
+   * @returns False if the transaction was already recorded
+   */
+  recordTrade(poolId: string, trade: PoolTrade): boolean {
+    const history = this.trades.get(poolId) || [];
+    if (history.some(existing => existing.txHash === trade.txHash)) {
+      return false;
+    }
+
+    // Live trades arrive in order; backfilled ones may land earlier in the history
+    let index = history.length;
+    while (index > 0 && history[index - 1].timestamp > trade.timestamp) {
+      index--;
+    }
+    history.splice(index, 0, trade);
+
+    if (history.length > this.config.maxTradesPerPool) {
+      history.splice(0, history.length - this.config.maxTradesPerPool);
+    }
+    this.trades.set(poolId, history);
+    return true;
+  }
+
+  /**
+   * Replace a pool's trades in a time range with the swaps held in an event store
+   * Trades the store no longer has, e.g. after a rollback, are dropped
+   * @param fromTime - Inclusive, milliseconds
+   * @param toTime - Exclusive, milliseconds
+   * @returns Number of trades loaded
+   */
+  async backfill(eventStore: EventStore, poolId: string, fromTime?: number, toTime?: number): Promise<number> {
+    const stored = await eventStore.query<MonitorEvent<PoolEvent>>({ source: 'pool', key: poolId, types: ['swap'], fromTime, toTime });
+
+    const inRange = (trade: PoolTrade) =>
+      (fromTime === undefined || trade.timestamp >= fromTime) && (toTime === undefined || trade.timestamp < toTime);
+    this.trades.set(poolId, (this.trades.get(poolId) || []).filter(trade => !inRange(trade)));
+
+    let loaded = 0;
+    for (const { payload: event } of stored) {
+      if (this.recordSwap(event.payload)) {
+        loaded++;
+      }
+    }
+    return loaded;
+  }
+
+  /**
+   * Candles for a pool
+   * @param fromTime - Inclusive, milliseconds
+   * @param toTime - Exclusive, milliseconds
+   * @throws Error if the range spans more than MAX_CANDLES_PER_QUERY intervals
+   */
+  getCandles(poolId: string, interval: CandleInterval, fromTime: number, toTime: number): Candle[] {
+    if (toTime <= fromTime) {
+      throw new Error("Candle range end must be after its start");
+    }
+
+    const intervals = Math.ceil((toTime - fromTime) / CANDLE_INTERVALS[interval]);
+    if (intervals > CANDLE_CONSTANTS.MAX_CANDLES_PER_QUERY) {
+      throw new Error(
+        `Candle range covers ${intervals} ${interval} intervals, maximum is ${CANDLE_CONSTANTS.MAX_CANDLES_PER_QUERY}`
+      );
+    }
+
+    return aggregateCandles(this.trades.get(poolId) || [], interval, fromTime, toTime);
+  }
+
+  getTrades(poolId: string): PoolTrade[] {
+    return [...(this.trades.get(poolId) || [])];
+  }
+
+  // Drop trades after a chain fork point
+  rollbackTo(poolId: string, slot: number): void {
+    const history = this.trades.get(poolId);
+    if (history) {
+      this.trades.set(poolId, history.filter(trade => trade.slot <= slot));
+    }
+  }
+
+  clear(poolId?: string): void {
+    if (poolId) {
+      this.trades.delete(poolId);
+    } else {
+      this.trades.clear();
+    }
+  }
+}
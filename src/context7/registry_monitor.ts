@@ -2,9 +2,12 @@
 // Context7 real-time monitoring for pool registry state changes
 // Full CIP-68 compliance with PoolRegistryDatum structure and WebSocket broadcasting
 
-import { createIndexer, Indexer, UTxO, Address, PolicyId } from "../lib/mock-context7-sdk";
-import { Data, Constr, fromText, toText } from "@lucid-evolution/lucid";
-import { getEnvironmentConfig, ENV_CONFIG } from "../lib/environment-config";
+import type { UTxO, Address, PolicyId } from "../lib/mock-context7-sdk";
+import { Data, Constr } from "@lucid-evolution/lucid";
+import { getEnvironmentConfig } from "../lib/environment-config";
+import type { MonitorHost, MonitorEvent } from "./monitor-host";
+import { DomainMonitor } from "./domain-monitor";
+import { createRegistryPlugin } from "./monitor-plugins";
 
 // Master Schema PoolRegistryDatum structure (CIP-68 compliant)
 export interface PoolRegistryDatum {
@@ -44,6 +47,7 @@ export interface RegistryMonitorConfig {
   blockfrostApiKey?: string;
   network?: "mainnet" | "preview" | "preprod";
   webhookUrl?: string;
+  webhookSecret?: string; // HMAC key for webhook signatures
   enableWebSocket: boolean;
   pollingInterval: number; // milliseconds
   maxRetries: number;
@@ -56,548 +60,119 @@ export interface RegistryMonitorConfig {
   };
 }
 
+// Listener names used by PoolRegistryMonitor for each event type
+const REGISTRY_LISTENER_TYPES: Record<RegistryEvent['type'], string> = {
+  PoolRegistered: 'poolRegistered',
+  PoolUpdated: 'poolUpdated',
+  RegistryStateChanged: 'registryStateChanged'
+};
+
 // Pool Registry Monitor Class
-export class PoolRegistryMonitor {
-  private indexer: Indexer;
+export class PoolRegistryMonitor extends DomainMonitor<RegistryEvent> {
   private config: RegistryMonitorConfig;
-  private currentState: RegistryState | null = null;
-  private isMonitoring: boolean = false;
-  private retryCount: number = 0;
-  private eventListeners: Map<string, Function[]> = new Map();
+  private updateTimer: ReturnType<typeof setInterval> | null = null;
 
-  constructor(config: RegistryMonitorConfig) {
+  /**
+   * @param host - Host shared with other monitors; without it the monitor runs its own
+   */
+  constructor(config: RegistryMonitorConfig, host?: MonitorHost) {
     // Use environment configuration if not provided
     const envConfig = getEnvironmentConfig();
-    
-    this.config = {
+    const resolved: RegistryMonitorConfig = {
       ...config,
       blockfrostApiKey: config.blockfrostApiKey || envConfig.blockfrostApiKey,
       network: config.network || envConfig.network,
     };
 
-    // Initialize Context7 indexer
-    this.indexer = createIndexer({
-      projectId: this.config.blockfrostApiKey!,
-      network: this.config.network!
+    super('registry', [createRegistryPlugin(resolved.registryAddress)], {
+      projectId: resolved.blockfrostApiKey!,
+      network: resolved.network!,
+      maxRetries: resolved.maxRetries,
+      retryDelay: resolved.retryDelay,
+      webhookUrl: resolved.webhookUrl,
+      webhookSecret: resolved.webhookSecret,
+      broadcastEndpoints: resolved.enableBroadcast ? {
+        websocket: resolved.enableWebSocket ? resolved.broadcastEndpoints?.websocket : undefined,
+        api: resolved.broadcastEndpoints?.api
+      } : undefined
+    }, host);
+    this.config = resolved;
+  }
+
+  protected async onStart(): Promise<void> {
+    console.log(`Registry Address: ${this.config.registryAddress}`);
+    console.log(`Network: ${this.config.network}`);
+
+    // Log each pool for debugging
+    this.getAllPools().forEach((pool, index) => {
+      console.log(`Pool ${index + 1}:`, {
+        pool_id: pool.pool_id,
+        pool_address: pool.pool_address,
+        lp_token_policy: pool.lp_token_policy,
+        fee_basis_points: pool.fee_basis_points
+      });
     });
 
-    this.initializeEventListeners();
-  }
-
-  // Initialize event listener maps
-  private initializeEventListeners(): void {
-    this.eventListeners.set('poolRegistered', []);
-    this.eventListeners.set('poolUpdated', []);
-    this.eventListeners.set('registryStateChanged', []);
-    this.eventListeners.set('error', []);
-  }
-
-  // Start monitoring the pool registry
-  async startMonitoring(): Promise<void> {
-    if (this.isMonitoring) {
-      console.warn("Pool Registry Monitor is already running");
-      return;
+    // Start periodic state logging if configured
+    if (this.config.pollingInterval > 0) {
+      this.startPeriodicUpdates();
     }
 
-    try {
-      this.isMonitoring = true;
-      console.log("Starting Pool Registry monitoring...");
-      console.log(`Registry Address: ${this.config.registryAddress}`);
-      console.log(`Network: ${this.config.network}`);
-
-      // Load initial state
-      await this.loadInitialState();
-
-      // Subscribe to registry address changes
-      this.indexer.addresses.subscribe([this.config.registryAddress], (utxo) => {
-        this.handleRegistryUpdate(utxo);
-      });
-
-      // Start periodic state updates if configured
-      if (this.config.pollingInterval > 0) {
-        this.startPeriodicUpdates();
-      }
-
-      console.log("Pool Registry monitoring started successfully");
-      console.log(`Current registry state: ${this.currentState?.totalPools || 0} pools`);
-    } catch (error) {
-      console.error("Failed to start Pool Registry monitoring:", error);
-      this.isMonitoring = false;
-      
-      if (this.retryCount < this.config.maxRetries) {
-        this.retryCount++;
-        console.log(`Retrying in ${this.config.retryDelay}ms... (${this.retryCount}/${this.config.maxRetries})`);
-        setTimeout(() => this.startMonitoring(), this.config.retryDelay);
-      } else {
-        this.emitEvent('error', { error, context: 'startMonitoring' });
-        throw error;
-      }
-    }
+    console.log("Pool Registry monitoring started successfully");
+    console.log(`Current registry state: ${this.getCurrentState()?.totalPools || 0} pools`);
   }
 
-  // Stop monitoring
-  async stopMonitoring(): Promise<void> {
-    if (!this.isMonitoring) {
-      return;
+  protected async onStop(): Promise<void> {
+    if (this.updateTimer) {
+      clearInterval(this.updateTimer);
+      this.updateTimer = null;
     }
-
-    this.isMonitoring = false;
     console.log("Pool Registry monitoring stopped");
   }
 
-  // Load initial registry state
-  private async loadInitialState(): Promise<void> {
-    try {
-      console.log("Loading initial registry state...");
-      
-      // Get current UTxOs at registry address
-      const utxos = await this.indexer.addresses.getUtxos(this.config.registryAddress);
-      
-      if (utxos.length === 0) {
-        console.warn("No UTxOs found at registry address");
-        this.currentState = {
-          totalPools: 0,
-          pools: [],
-          lastUpdatedSlot: 0,
-          lastUpdatedTxHash: ""
-        };
-        return;
-      }
-
-      // Find the registry UTxO (should have inline datum)
-      const registryUtxo = utxos.find(utxo => utxo.datum !== null);
-      
-      if (!registryUtxo) {
-        throw new Error("No registry UTxO with datum found");
-      }
-
-      // Parse the registry state
-      this.currentState = await this.parseRegistryState(registryUtxo);
-      console.log(`Initial state loaded: ${this.currentState.totalPools} pools registered`);
-      
-      // Log each pool for debugging
-      this.currentState.pools.forEach((pool, index) => {
-        console.log(`Pool ${index + 1}:`, {
-          pool_id: pool.pool_id,
-          pool_address: pool.pool_address,
-          lp_token_policy: pool.lp_token_policy,
-          fee_basis_points: pool.fee_basis_points
-        });
-      });
-
-    } catch (error) {
-      console.error("Failed to load initial registry state:", error);
-      throw error;
-    }
+  protected handleEvent(event: MonitorEvent): RegistryEvent | null {
+    return event.type === 'EventRolledBack' ? null : event.payload as RegistryEvent;
   }
 
-  // Handle registry UTxO updates
-  private handleRegistryUpdate(utxo: UTxO): void {
-    try {
-      console.log("Registry update detected:", utxo.txHash);
-      
-      this.parseRegistryState(utxo).then(newState => {
-        const oldState = this.currentState;
-        this.currentState = newState;
-        
-        // Detect and emit events based on state changes
-        this.detectAndEmitEvents(oldState, newState, utxo);
-        
-        // Broadcast updated state if enabled
-        if (this.config.enableBroadcast) {
-          this.broadcastRegistryState();
-        }
-        
-        console.log(`Registry updated: ${newState.totalPools} pools`);
-      }).catch(error => {
-        console.error("Failed to parse registry update:", error);
-        this.emitEvent('error', { error, context: 'handleRegistryUpdate', utxo });
-      });
-    } catch (error) {
-      console.error("Failed to handle registry update:", error);
-      this.emitEvent('error', { error, context: 'handleRegistryUpdate', utxo });
-    }
-  }
-
-  // Parse PoolRegistryDatum from UTxO using CIP-68 decoding
-  private async parseRegistryState(utxo: UTxO): Promise<RegistryState> {
-    try {
-      if (!utxo.datum) {
-        throw new Error("UTxO has no datum");
-      }
-
-      // Parse the inline datum using Lucid Evolution Data utilities
-      const datumData = Data.from(utxo.datum);
-      
-      // Parse PoolRegistryDatum structure
-      const registryDatum = this.parsePoolRegistryDatum(datumData);
-      
-      return {
-        totalPools: registryDatum.pools.length,
-        pools: registryDatum.pools,
-        lastUpdatedSlot: utxo.slot || 0,
-        lastUpdatedTxHash: utxo.txHash
-      };
-    } catch (error) {
-      console.error("Failed to parse registry state:", error);
-      throw new Error(`Failed to parse PoolRegistryDatum: ${error}`);
-    }
+  protected listenerType(event: MonitorEvent): string {
+    return REGISTRY_LISTENER_TYPES[event.type as RegistryEvent['type']];
   }
 
-  // Parse PoolRegistryDatum from Plutus Data
-  private parsePoolRegistryDatum(data: Data): PoolRegistryDatum {
-    try {
-      // Expect Constr with pools list
-      if (!(data instanceof Constr)) {
-        throw new Error("Invalid datum structure: expected Constr");
-      }
-
-      // Extract pools list (first field)
-      const poolsData = data.fields[0];
-      
-      if (!(poolsData instanceof Constr)) {
-        throw new Error("Invalid pools structure: expected Constr list");
-      }
-
-      // Parse each pool entry
-      const pools: PoolEntry[] = [];
-      
-      // Handle list structure - pools should be in fields array
-      for (const poolData of poolsData.fields) {
-        if (poolData instanceof Constr) {
-          const poolEntry = this.parsePoolEntry(poolData);
-          pools.push(poolEntry);
-        }
-      }
-
-      return { pools };
-    } catch (error) {
-      console.error("Failed to parse PoolRegistryDatum:", error);
-      throw error;
-    }
-  }
-
-  // Parse individual PoolEntry from Plutus Data
-  private parsePoolEntry(data: Constr): PoolEntry {
-    try {
-      if (data.fields.length < 4) {
-        throw new Error("Invalid PoolEntry structure: insufficient fields");
-      }
-
-      // Extract fields according to PoolEntry structure
-      const pool_id = this.extractByteArray(data.fields[0]);
-      const pool_address = this.extractAddress(data.fields[1]);
-      const lp_token_policy = this.extractByteArray(data.fields[2]);
-      const fee_basis_points = this.extractInteger(data.fields[3]);
-
-      return {
-        pool_id,
-        pool_address,
-        lp_token_policy,
-        fee_basis_points
-      };
-    } catch (error) {
-      console.error("Failed to parse PoolEntry:", error);
-      throw error;
-    }
-  }
-
-  // Extract ByteArray from Plutus Data
-  private extractByteArray(data: Data): string {
-    if (typeof data === 'string') {
-      return data;
-    }
-    if (data instanceof Uint8Array) {
-      return Buffer.from(data).toString('hex');
-    }
-    throw new Error("Invalid ByteArray format");
-  }
-
-  // Extract Address from Plutus Data
-  private extractAddress(data: Data): Address {
-    // Address parsing logic - this may need adjustment based on actual datum structure
-    if (typeof data === 'string') {
-      return data as Address;
-    }
-    if (data instanceof Constr) {
-      // Handle credential-based address structure
-      return this.parseCredentialAddress(data);
-    }
-    throw new Error("Invalid Address format");
-  }
-
-  // Parse credential-based address
-  private parseCredentialAddress(data: Constr): Address {
-    // This is a simplified implementation - may need adjustment based on actual structure
-    try {
-      // Typically addresses are encoded as credential structures
-      // For now, return a placeholder - this would need proper implementation
-      return "addr1_placeholder" as Address;
-    } catch (error) {
-      throw new Error(`Failed to parse credential address: ${error}`);
-    }
-  }
-
-  // Extract Integer from Plutus Data
-  private extractInteger(data: Data): number {
-    if (typeof data === 'bigint') {
-      return Number(data);
-    }
-    if (typeof data === 'number') {
-      return data;
-    }
-    throw new Error("Invalid Integer format");
-  }
-
-  // Detect and emit events based on state changes
-  private detectAndEmitEvents(oldState: RegistryState | null, newState: RegistryState, utxo: UTxO): void {
-    try {
-      if (!oldState) {
-        // Initial state load - emit registry state changed
-        this.emitEvent('registryStateChanged', {
-          type: 'RegistryStateChanged',
-          transactionHash: utxo.txHash,
-          slot: utxo.slot || 0,
-          blockHeight: utxo.blockHeight || 0,
-          timestamp: new Date(),
-          data: {
-            totalPools: newState.totalPools,
-            pools: newState.pools
-          }
-        });
-        return;
-      }
-
-      // Check for new pool registrations
-      const newPools = newState.pools.filter(newPool =>
-        !oldState.pools.some(oldPool => oldPool.pool_id === newPool.pool_id)
-      );
-
-      // Emit events for new pools
-      newPools.forEach(pool => {
-        console.log(`New pool registered: ${pool.pool_id}`);
-        console.log(`  Address: ${pool.pool_address}`);
-        console.log(`  LP Token Policy: ${pool.lp_token_policy}`);
-        console.log(`  Fee Basis Points: ${pool.fee_basis_points}`);
-
-        this.emitEvent('poolRegistered', {
-          type: 'PoolRegistered',
-          poolId: pool.pool_id,
-          transactionHash: utxo.txHash,
-          slot: utxo.slot || 0,
-          blockHeight: utxo.blockHeight || 0,
-          timestamp: new Date(),
-          data: pool
-        });
-      });
-
-      // Check for pool updates (fee changes, etc.)
-      const updatedPools = newState.pools.filter(newPool => {
-        const oldPool = oldState.pools.find(p => p.pool_id === newPool.pool_id);
-        return oldPool && (
-          oldPool.fee_basis_points !== newPool.fee_basis_points ||
-          oldPool.lp_token_policy !== newPool.lp_token_policy
-        );
-      });
-
-      // Emit events for updated pools
-      updatedPools.forEach(pool => {
-        const oldPool = oldState.pools.find(p => p.pool_id === pool.pool_id);
-        console.log(`Pool updated: ${pool.pool_id}`);
-
-        this.emitEvent('poolUpdated', {
-          type: 'PoolUpdated',
-          poolId: pool.pool_id,
-          transactionHash: utxo.txHash,
-          slot: utxo.slot || 0,
-          blockHeight: utxo.blockHeight || 0,
-          timestamp: new Date(),
-          data: {
-            oldPool,
-            newPool: pool
-          }
-        });
-      });
-
-      // Always emit registry state changed if there are any changes
-      if (newPools.length > 0 || updatedPools.length > 0) {
-        this.emitEvent('registryStateChanged', {
-          type: 'RegistryStateChanged',
-          transactionHash: utxo.txHash,
-          slot: utxo.slot || 0,
-          blockHeight: utxo.blockHeight || 0,
-          timestamp: new Date(),
-          data: {
-            totalPools: newState.totalPools,
-            newPools: newPools.length,
-            updatedPools: updatedPools.length,
-            pools: newState.pools
-          }
-        });
-      }
-    } catch (error) {
-      console.error("Failed to detect and emit events:", error);
-      this.emitEvent('error', { error, context: 'detectAndEmitEvents' });
-    }
-  }
-
-  // Emit event to registered listeners
-  private emitEvent(eventType: string, data: any): void {
-    const listeners = this.eventListeners.get(eventType) || [];
-    listeners.forEach(listener => {
-      try {
-        listener(data);
-      } catch (error) {
-        console.error(`Error in event listener for ${eventType}:`, error);
-      }
-    });
-  }
-
-  // Start periodic state updates
+  // Log the registry size; state changes arrive through the host subscription
   private startPeriodicUpdates(): void {
-    setInterval(async () => {
+    this.updateTimer = setInterval(() => {
       if (!this.isMonitoring) return;
-
-      try {
-        await this.loadInitialState();
-      } catch (error) {
-        console.error("Periodic update failed:", error);
-        this.emitEvent('error', { error, context: 'periodicUpdate' });
-      }
+      console.log(`Registry update: ${this.getCurrentState()?.totalPools || 0} pools`);
     }, this.config.pollingInterval);
   }
 
-  // Broadcast registry state to configured endpoints
-  private async broadcastRegistryState(): Promise<void> {
-    if (!this.currentState || !this.config.broadcastEndpoints) {
-      return;
-    }
-
-    try {
-      const payload = {
-        timestamp: new Date().toISOString(),
-        network: this.config.network,
-        registryAddress: this.config.registryAddress,
-        totalPools: this.currentState.totalPools,
-        pools: this.currentState.pools,
-        lastUpdatedSlot: this.currentState.lastUpdatedSlot,
-        lastUpdatedTxHash: this.currentState.lastUpdatedTxHash
-      };
-
-      // Broadcast to WebSocket endpoint
-      if (this.config.broadcastEndpoints.websocket) {
-        await this.broadcastToWebSocket(payload);
-      }
-
-      // Broadcast to API endpoint
-      if (this.config.broadcastEndpoints.api) {
-        await this.broadcastToAPI(payload);
-      }
-
-      // Broadcast to pub/sub endpoint
-      if (this.config.broadcastEndpoints.pubsub) {
-        await this.broadcastToPubSub(payload);
-      }
-
-      console.log("Registry state broadcasted successfully");
-    } catch (error) {
-      console.error("Failed to broadcast registry state:", error);
-      this.emitEvent('error', { error, context: 'broadcastRegistryState' });
-    }
-  }
-
-  // Broadcast to WebSocket endpoint
-  private async broadcastToWebSocket(payload: any): Promise<void> {
-    // WebSocket broadcasting implementation
-    // This would typically use a WebSocket client or server-sent events
-    console.log("Broadcasting to WebSocket:", this.config.broadcastEndpoints?.websocket);
-    // Implementation depends on specific WebSocket infrastructure
-  }
-
-  // Broadcast to API endpoint
-  private async broadcastToAPI(payload: any): Promise<void> {
-    try {
-      const response = await fetch(this.config.broadcastEndpoints!.api!, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload)
-      });
-
-      if (!response.ok) {
-        throw new Error(`API broadcast failed: ${response.status} ${response.statusText}`);
-      }
-
-      console.log("Successfully broadcasted to API endpoint");
-    } catch (error) {
-      console.error("Failed to broadcast to API:", error);
-      throw error;
-    }
-  }
-
-  // Broadcast to pub/sub endpoint
-  private async broadcastToPubSub(payload: any): Promise<void> {
-    // Pub/sub broadcasting implementation
-    // This would typically use Redis, RabbitMQ, or similar
-    console.log("Broadcasting to Pub/Sub:", this.config.broadcastEndpoints?.pubsub);
-    // Implementation depends on specific pub/sub infrastructure
-  }
-
   // Public API Methods
 
-  // Add event listener
-  public addEventListener(eventType: string, listener: Function): void {
-    if (!this.eventListeners.has(eventType)) {
-      this.eventListeners.set(eventType, []);
-    }
-    this.eventListeners.get(eventType)!.push(listener);
-  }
-
-  // Remove event listener
-  public removeEventListener(eventType: string, listener: Function): void {
-    const listeners = this.eventListeners.get(eventType);
-    if (listeners) {
-      const index = listeners.indexOf(listener);
-      if (index > -1) {
-        listeners.splice(index, 1);
-      }
-    }
-  }
-
   // Get current registry state
   public getCurrentState(): RegistryState | null {
-    return this.currentState;
+    return this.getState<RegistryState>(this.config.registryAddress);
   }
 
   // Get specific pool by ID
   public getPoolById(poolId: string): PoolEntry | null {
-    if (!this.currentState) return null;
-    return this.currentState.pools.find(pool => pool.pool_id === poolId) || null;
+    return this.getAllPools().find(pool => pool.pool_id === poolId) || null;
   }
 
   // Get all pools
   public getAllPools(): PoolEntry[] {
-    return this.currentState?.pools || [];
+    return this.getCurrentState()?.pools || [];
   }
 
   // Get pools by fee range
   public getPoolsByFeeRange(minFee: number, maxFee: number): PoolEntry[] {
-    if (!this.currentState) return [];
-    return this.currentState.pools.filter(pool =>
+    return this.getAllPools().filter(pool =>
       pool.fee_basis_points >= minFee && pool.fee_basis_points <= maxFee
     );
   }
 
   // Get pools by LP token policy
   public getPoolsByLPTokenPolicy(policyId: PolicyId): PoolEntry[] {
-    if (!this.currentState) return [];
-    return this.currentState.pools.filter(pool => pool.lp_token_policy === policyId);
-  }
-
-  // Check if monitoring is active
-  public isActive(): boolean {
-    return this.isMonitoring;
+    return this.getAllPools().filter(pool => pool.lp_token_policy === policyId);
   }
 
   // Get monitor configuration
@@ -611,16 +186,15 @@ export class PoolRegistryMonitor {
     isMonitoring: boolean;
     lastUpdatedSlot: number;
     lastUpdatedTxHash: string;
-    retryCount: number;
     network: string;
     registryAddress: string;
   } {
+    const state = this.getCurrentState();
     return {
-      totalPools: this.currentState?.totalPools || 0,
+      totalPools: state?.totalPools || 0,
       isMonitoring: this.isMonitoring,
-      lastUpdatedSlot: this.currentState?.lastUpdatedSlot || 0,
-      lastUpdatedTxHash: this.currentState?.lastUpdatedTxHash || "",
-      retryCount: this.retryCount,
+      lastUpdatedSlot: state?.lastUpdatedSlot || 0,
+      lastUpdatedTxHash: state?.lastUpdatedTxHash || "",
       network: this.config.network || "unknown",
       registryAddress: this.config.registryAddress
     };
@@ -638,15 +212,12 @@ export class PoolRegistryMonitor {
   public onRegistryStateChanged(callback: (event: RegistryEvent) => void): void {
     this.addEventListener('registryStateChanged', callback);
   }
-
-  public onError(callback: (error: any) => void): void {
-    this.addEventListener('error', callback);
-  }
 }
 
 // Factory function to create and initialize registry monitor
 export async function createPoolRegistryMonitor(
-  config: Partial<RegistryMonitorConfig> & { registryAddress: Address }
+  config: Partial<RegistryMonitorConfig> & { registryAddress: Address },
+  host?: MonitorHost
 ): Promise<PoolRegistryMonitor> {
   const defaultConfig: RegistryMonitorConfig = {
     registryAddress: config.registryAddress,
@@ -658,7 +229,7 @@ export async function createPoolRegistryMonitor(
     ...config
   };
 
-  const monitor = new PoolRegistryMonitor(defaultConfig);
+  const monitor = new PoolRegistryMonitor(defaultConfig, host);
 
   // Auto-start monitoring if not explicitly disabled
   if (config.enableWebSocket !== false) {
@@ -668,23 +239,238 @@ export async function createPoolRegistryMonitor(
   return monitor;
 }
 
+// =============================================================================
+// DATUM PARSING AND EVENT DETECTION
+// Shared with the registry MonitorHost plugin
+// =============================================================================
+
+// Parse PoolRegistryDatum from UTxO using CIP-68 decoding
+export async function parseRegistryState(utxo: UTxO): Promise<RegistryState> {
+  try {
+    if (!utxo.datum) {
+      throw new Error("UTxO has no datum");
+    }
+
+    // Parse the inline datum using Lucid Evolution Data utilities
+    const datumData = Data.from(utxo.datum);
+    
+    // Parse PoolRegistryDatum structure
+    const registryDatum = parsePoolRegistryDatum(datumData);
+    
+    return {
+      totalPools: registryDatum.pools.length,
+      pools: registryDatum.pools,
+      lastUpdatedSlot: utxo.slot || 0,
+      lastUpdatedTxHash: utxo.txHash
+    };
+  } catch (error) {
+    console.error("Failed to parse registry state:", error);
+    throw new Error(`Failed to parse PoolRegistryDatum: ${error}`);
+  }
+}
+
+// Parse PoolRegistryDatum from Plutus Data
+export function parsePoolRegistryDatum(data: Data): PoolRegistryDatum {
+  try {
+    // Expect Constr with pools list
+    if (!(data instanceof Constr)) {
+      throw new Error("Invalid datum structure: expected Constr");
+    }
+
+    // Extract pools list (first field)
+    const poolsData = data.fields[0];
+    
+    if (!(poolsData instanceof Constr)) {
+      throw new Error("Invalid pools structure: expected Constr list");
+    }
+
+    // Parse each pool entry
+    const pools: PoolEntry[] = [];
+    
+    // Handle list structure - pools should be in fields array
+    for (const poolData of poolsData.fields) {
+      if (poolData instanceof Constr) {
+        const poolEntry = parsePoolEntry(poolData);
+        pools.push(poolEntry);
+      }
+    }
+
+    return { pools };
+  } catch (error) {
+    console.error("Failed to parse PoolRegistryDatum:", error);
+    throw error;
+  }
+}
+
+// Parse individual PoolEntry from Plutus Data
+function parsePoolEntry(data: Constr): PoolEntry {
+  try {
+    if (data.fields.length < 4) {
+      throw new Error("Invalid PoolEntry structure: insufficient fields");
+    }
+
+    // Extract fields according to PoolEntry structure
+    const pool_id = extractByteArray(data.fields[0]);
+    const pool_address = extractAddress(data.fields[1]);
+    const lp_token_policy = extractByteArray(data.fields[2]);
+    const fee_basis_points = extractInteger(data.fields[3]);
+
+    return {
+      pool_id,
+      pool_address,
+      lp_token_policy,
+      fee_basis_points
+    };
+  } catch (error) {
+    console.error("Failed to parse PoolEntry:", error);
+    throw error;
+  }
+}
+
+// Extract ByteArray from Plutus Data
+function extractByteArray(data: Data): string {
+  if (typeof data === 'string') {
+    return data;
+  }
+  if (data instanceof Uint8Array) {
+    return Buffer.from(data).toString('hex');
+  }
+  throw new Error("Invalid ByteArray format");
+}
+
+// Extract Address from Plutus Data
+function extractAddress(data: Data): Address {
+  // Address parsing logic - this may need adjustment based on actual datum structure
+  if (typeof data === 'string') {
+    return data as Address;
+  }
+  if (data instanceof Constr) {
+    // Handle credential-based address structure
+    return parseCredentialAddress(data);
+  }
+  throw new Error("Invalid Address format");
+}
+
+// Parse credential-based address
+function parseCredentialAddress(data: Constr): Address {
+  // This is a simplified implementation - may need adjustment based on actual structure
+  try {
+    // Typically addresses are encoded as credential structures
+    // For now, return a placeholder - this would need proper implementation
+    return "addr1_placeholder" as Address;
+  } catch (error) {
+    throw new Error(`Failed to parse credential address: ${error}`);
+  }
+}
+
+// Extract Integer from Plutus Data
+function extractInteger(data: Data): number {
+  if (typeof data === 'bigint') {
+    return Number(data);
+  }
+  if (typeof data === 'number') {
+    return data;
+  }
+  throw new Error("Invalid Integer format");
+}
+
+// Detect registry events from a state transition
+export function detectRegistryEvents(oldState: RegistryState | null, newState: RegistryState, utxo: UTxO): RegistryEvent[] {
+  const events: RegistryEvent[] = [];
+
+  if (!oldState) {
+    // Initial state load - emit registry state changed
+    events.push({
+      type: 'RegistryStateChanged',
+      transactionHash: utxo.txHash,
+      slot: utxo.slot || 0,
+      blockHeight: utxo.blockHeight || 0,
+      timestamp: new Date(),
+      data: {
+        totalPools: newState.totalPools,
+        pools: newState.pools
+      }
+    });
+    return events;
+  }
+
+  // Check for new pool registrations
+  const newPools = newState.pools.filter(newPool =>
+    !oldState.pools.some(oldPool => oldPool.pool_id === newPool.pool_id)
+  );
+
+  // Emit events for new pools
+  for (const pool of newPools) {
+    console.log(`New pool registered: ${pool.pool_id}`);
+    console.log(`  Address: ${pool.pool_address}`);
+    console.log(`  LP Token Policy: ${pool.lp_token_policy}`);
+    console.log(`  Fee Basis Points: ${pool.fee_basis_points}`);
+
+    events.push({
+      type: 'PoolRegistered',
+      poolId: pool.pool_id,
+      transactionHash: utxo.txHash,
+      slot: utxo.slot || 0,
+      blockHeight: utxo.blockHeight || 0,
+      timestamp: new Date(),
+      data: pool
+    });
+  }
+
+  // Check for pool updates (fee changes, etc.)
+  const updatedPools = newState.pools.filter(newPool => {
+    const oldPool = oldState.pools.find(p => p.pool_id === newPool.pool_id);
+    return oldPool && (
+      oldPool.fee_basis_points !== newPool.fee_basis_points ||
+      oldPool.lp_token_policy !== newPool.lp_token_policy
+    );
+  });
+
+  // Emit events for updated pools
+  for (const pool of updatedPools) {
+    const oldPool = oldState.pools.find(p => p.pool_id === pool.pool_id);
+    console.log(`Pool updated: ${pool.pool_id}`);
+
+    events.push({
+      type: 'PoolUpdated',
+      poolId: pool.pool_id,
+      transactionHash: utxo.txHash,
+      slot: utxo.slot || 0,
+      blockHeight: utxo.blockHeight || 0,
+      timestamp: new Date(),
+      data: {
+        oldPool,
+        newPool: pool
+      }
+    });
+  }
+
+  // Always emit registry state changed if there are any changes
+  if (newPools.length > 0 || updatedPools.length > 0) {
+    events.push({
+      type: 'RegistryStateChanged',
+      transactionHash: utxo.txHash,
+      slot: utxo.slot || 0,
+      blockHeight: utxo.blockHeight || 0,
+      timestamp: new Date(),
+      data: {
+        totalPools: newState.totalPools,
+        newPools: newPools.length,
+        updatedPools: updatedPools.length,
+        pools: newState.pools
+      }
+    });
+  }
+
+  return events;
+}
+
 // Export utility functions for external use
 
 // Parse pool registry datum from raw CBOR hex
 export function parsePoolRegistryDatumFromCBOR(cborHex: string): PoolRegistryDatum {
   try {
-    const data = Data.from(cborHex);
-    const monitor = new PoolRegistryMonitor({
-      registryAddress: "addr1_placeholder" as Address,
-      enableWebSocket: false,
-      pollingInterval: 0,
-      maxRetries: 0,
-      retryDelay: 0,
-      enableBroadcast: false
-    });
-
-    // Access private method through type assertion
-    return (monitor as any).parsePoolRegistryDatum(data);
+    return parsePoolRegistryDatum(Data.from(cborHex));
   } catch (error) {
     throw new Error(`Failed to parse PoolRegistryDatum from CBOR: ${error}`);
   }
@@ -754,14 +540,6 @@ async function initializeRegistryMonitor() {
     broadcastToFrontend(event.data.pools);
   });
 
-  monitor.onError((error) => {
-    console.error('Registry monitor error:', error);
-    // Handle errors
-    // - Log to monitoring system
-    // - Attempt recovery
-    // - Notify administrators
-  });
-
   // Get current state
   const currentState = monitor.getCurrentState();
   console.log(\`Registry has \${currentState?.totalPools || 0} pools\`);
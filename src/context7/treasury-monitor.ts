@@ -2,7 +2,18 @@
 // Context7 real-time monitoring for treasury revenue and distribution tracking
 // WebSocket integration with comprehensive financial analytics
 
-import { createIndexer, Indexer, UTxO, Address, PolicyId, Assets } from "@context7/sdk";
+import type { UTxO, Address, PolicyId, Assets } from "../lib/mock-context7-sdk";
+import {
+  VestingStream,
+  StreamSummary,
+  parseStreamDatum,
+  summarizeStream,
+  calculateVestedAmount
+} from "../lucid/treasury-streams";
+import type { StoredEvent } from "./event-store";
+import type { MonitorHost, MonitorEvent, MonitorPlugin } from "./monitor-host";
+import { DomainMonitor } from "./domain-monitor";
+import { createTreasuryPlugin, createTreasuryStreamsPlugin } from "./monitor-plugins";
 
 // Treasury monitoring interfaces
 export interface TreasuryState {
@@ -86,7 +97,8 @@ export interface DistributionTargetState {
 export interface TreasuryEvent {
   type: 'RevenueCollected' | 'RevenueDistributed' | 'AutoDistributionTriggered' | 
         'ConfigurationUpdated' | 'AssetAdded' | 'AssetRemoved' | 'EmergencyWithdraw' |
-        'DistributionThresholdReached' | 'DailyLimitReached' | 'EmergencyPause' | 'EmergencyUnpause';
+        'DistributionThresholdReached' | 'DailyLimitReached' | 'EmergencyPause' | 'EmergencyUnpause' |
+        'StreamCreated' | 'StreamClaimed' | 'StreamCancelled' | 'StreamCompleted';
   transactionHash: string;
   slot: number;
   blockHeight: number;
@@ -128,9 +140,11 @@ export interface TreasuryAnalytics {
 
 export interface TreasuryMonitorConfig {
   treasuryAddress: Address;
+  streamAddress?: Address; // Vesting stream script address
   blockfrostApiKey: string;
   network: "mainnet" | "preview" | "preprod";
   webhookUrl?: string;
+  webhookSecret?: string; // HMAC key for webhook signatures
   enableWebSocket: boolean;
   pollingInterval: number;
   maxRetries: number;
@@ -149,119 +163,108 @@ export interface TreasuryMonitorConfig {
   };
 }
 
-export class TreasuryMonitor {
-  private indexer: Indexer;
+export class TreasuryMonitor extends DomainMonitor<TreasuryEvent> {
   private config: TreasuryMonitorConfig;
-  private currentState: TreasuryState | null = null;
-  private eventListeners: Map<string, ((event: TreasuryEvent) => void)[]> = new Map();
-  private isMonitoring = false;
-  private retryCount = 0;
   private analytics: TreasuryAnalytics | null = null;
   private priceCache: Map<string, number> = new Map();
+  private timers: Map<string, ReturnType<typeof setTimeout>> = new Map(); // Pending periodic task per context
+
+  /**
+   * @param host - Host shared with other monitors; without it the monitor runs its own
+   */
+  constructor(config: TreasuryMonitorConfig, host?: MonitorHost) {
+    const plugins: MonitorPlugin[] = [createTreasuryPlugin(config.treasuryAddress)];
+    if (config.streamAddress) {
+      plugins.push(createTreasuryStreamsPlugin(config.streamAddress));
+    }
 
-  constructor(config: TreasuryMonitorConfig) {
+    super('treasury', plugins, {
+      projectId: config.blockfrostApiKey,
+      network: config.network,
+      maxRetries: config.maxRetries,
+      retryDelay: config.retryDelay,
+      webhookUrl: config.webhookUrl,
+      webhookSecret: config.webhookSecret
+    }, host);
     this.config = config;
   }
 
-  // Initialize the monitor
-  async initialize(): Promise<void> {
-    try {
-      this.indexer = await createIndexer({
-        projectId: this.config.blockfrostApiKey,
-        network: this.config.network
-      });
-
-      console.log("Treasury Monitor initialized successfully");
-    } catch (error) {
-      console.error("Failed to initialize Treasury Monitor:", error);
-      throw error;
-    }
+  // Stored treasury events in [fromTime, toTime), optionally of some types
+  async getEventHistory(fromTime?: number, toTime?: number, types?: TreasuryEvent['type'][]): Promise<StoredEvent<TreasuryEvent>[]> {
+    return this.queryEvents({ types, fromTime, toTime });
   }
 
-  // Start monitoring treasury
-  async startMonitoring(): Promise<void> {
-    if (this.isMonitoring) {
-      console.warn("Treasury Monitor is already running");
-      return;
-    }
-
-    try {
-      this.isMonitoring = true;
-      console.log("Starting Treasury monitoring...");
+  protected async onStart(): Promise<void> {
+    this.calculateAdditionalFields();
+    this.updateAnalytics();
 
-      // Load initial state
-      await this.loadInitialState();
+    // Start periodic updates and analytics
+    this.startPeriodicUpdates();
+    this.startAnalyticsUpdates();
 
-      // Subscribe to treasury address changes
-      this.indexer.addresses.subscribe([this.config.treasuryAddress], (utxo) => {
-        this.handleTreasuryUpdate(utxo);
-      });
+    // Start price updates if enabled
+    if (this.config.priceOracle?.enabled) {
+      this.startPriceUpdates();
+    }
 
-      // Start periodic updates and analytics
-      this.startPeriodicUpdates();
-      this.startAnalyticsUpdates();
+    console.log(`Treasury monitoring started with ${this.getCurrentState()?.revenueRecords.length ?? 0} revenue records`);
+  }
 
-      // Start price updates if enabled
-      if (this.config.priceOracle?.enabled) {
-        this.startPriceUpdates();
-      }
+  protected async onStop(): Promise<void> {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    console.log("Treasury monitoring stopped");
+  }
 
-      console.log("Treasury monitoring started successfully");
-    } catch (error) {
-      console.error("Failed to start Treasury monitoring:", error);
-      this.isMonitoring = false;
-      
-      if (this.retryCount < this.config.maxRetries) {
-        this.retryCount++;
-        console.log(`Retrying in ${this.config.retryDelay}ms... (${this.retryCount}/${this.config.maxRetries})`);
-        setTimeout(() => this.startMonitoring(), this.config.retryDelay);
-      } else {
-        throw error;
-      }
+  protected handleEvent(event: MonitorEvent): TreasuryEvent | null {
+    this.calculateAdditionalFields();
+    this.updateAnalytics();
+    if (event.type === 'EventRolledBack') {
+      return null;
     }
-  }
 
-  // Stop monitoring
-  async stopMonitoring(): Promise<void> {
-    if (!this.isMonitoring) {
-      return;
+    // Check for alerts
+    if (this.config.enableAlerts && event.address === this.config.treasuryAddress) {
+      this.checkAlerts();
     }
 
-    this.isMonitoring = false;
-    console.log("Treasury monitoring stopped");
+    const treasuryEvent = event.payload as TreasuryEvent;
+    console.log(`Treasury event emitted: ${treasuryEvent.type}`, treasuryEvent);
+    return treasuryEvent;
   }
 
   // Get current treasury state
   getCurrentState(): TreasuryState | null {
-    return this.currentState;
+    return this.getState<TreasuryState>(this.config.treasuryAddress);
   }
 
   // Get treasury balance
   getCurrentBalance(): Assets {
-    return this.currentState?.currentBalance || {};
+    return this.getCurrentState()?.currentBalance || {};
   }
 
   // Get revenue history
   getRevenueHistory(limit: number = 100): RevenueRecordState[] {
-    return this.currentState?.revenueRecords
+    return [...(this.getCurrentState()?.revenueRecords || [])]
       .sort((a, b) => b.receivedAtSlot - a.receivedAtSlot)
-      .slice(0, limit) || [];
+      .slice(0, limit);
   }
 
   // Get distribution history
   getDistributionHistory(limit: number = 100): DistributionRecordState[] {
-    return this.currentState?.distributionRecords
+    return [...(this.getCurrentState()?.distributionRecords || [])]
       .sort((a, b) => b.distributedAtSlot - a.distributedAtSlot)
-      .slice(0, limit) || [];
+      .slice(0, limit);
   }
 
   // Get revenue by source
   getRevenueBySource(): Map<string, bigint> {
     const revenueBySource = new Map<string, bigint>();
-    
-    if (!this.currentState) return revenueBySource;
+    const state = this.getCurrentState();
+
+    if (!state) return revenueBySource;
 
-    for (const record of this.currentState.revenueRecords) {
+    for (const record of state.revenueRecords) {
       const current = revenueBySource.get(record.source.type) || 0n;
       revenueBySource.set(record.source.type, current + record.amount);
     }
@@ -272,10 +275,11 @@ export class TreasuryMonitor {
   // Get distribution by target
   getDistributionByTarget(): Map<string, bigint> {
     const distributionByTarget = new Map<string, bigint>();
-    
-    if (!this.currentState) return distributionByTarget;
+    const state = this.getCurrentState();
+
+    if (!state) return distributionByTarget;
 
-    for (const record of this.currentState.distributionRecords) {
+    for (const record of state.distributionRecords) {
       const current = distributionByTarget.get(record.target.type) || 0n;
       distributionByTarget.set(record.target.type, current + record.totalAmount);
     }
@@ -285,7 +289,8 @@ export class TreasuryMonitor {
 
   // Get daily revenue
   getDailyRevenue(days: number = 30): Array<{ date: Date; revenue: bigint; distributions: bigint }> {
-    if (!this.currentState) return [];
+    const state = this.getCurrentState();
+    if (!state) return [];
 
     const dailyData = new Map<string, { revenue: bigint; distributions: bigint }>();
     const now = new Date();
@@ -299,7 +304,7 @@ export class TreasuryMonitor {
     }
 
     // Aggregate revenue
-    for (const record of this.currentState.revenueRecords) {
+    for (const record of state.revenueRecords) {
       const date = new Date(record.receivedAtSlot * 1000); // Convert slot to timestamp
       const dateKey = date.toISOString().split('T')[0];
       const data = dailyData.get(dateKey);
@@ -309,7 +314,7 @@ export class TreasuryMonitor {
     }
 
     // Aggregate distributions
-    for (const record of this.currentState.distributionRecords) {
+    for (const record of state.distributionRecords) {
       const date = new Date(record.distributedAtSlot * 1000);
       const dateKey = date.toISOString().split('T')[0];
       const data = dailyData.get(dateKey);
@@ -334,21 +339,45 @@ export class TreasuryMonitor {
 
   // Check if auto-distribution should trigger
   shouldTriggerAutoDistribution(): boolean {
-    if (!this.currentState || !this.currentState.autoDistributionEnabled) {
+    const state = this.getCurrentState();
+    if (!state || !state.autoDistributionEnabled) {
       return false;
     }
 
-    const adaBalance = BigInt(this.currentState.currentBalance[""] || "0");
-    return adaBalance >= this.currentState.distributionThreshold;
+    const adaBalance = BigInt(state.currentBalance[""] || "0");
+    return adaBalance >= state.distributionThreshold;
+  }
+
+  // Get open vesting streams, optionally for one recipient key hash
+  getStreams(recipientKeyHash?: string): VestingStream[] {
+    return Array.from(this.getOpenStreams().values())
+      .filter(stream => !recipientKeyHash || stream.recipientKeyHash === recipientKeyHash);
+  }
+
+  // Get a stream's vesting state at a slot
+  getStreamSummary(streamId: string, slot: number): StreamSummary | null {
+    const stream = this.getOpenStreams().get(streamId);
+    return stream ? summarizeStream(stream, slot) : null;
+  }
+
+  // Total still locked in open streams, per unit
+  getStreamLiabilities(): Map<string, bigint> {
+    const liabilities = new Map<string, bigint>();
+    for (const stream of this.getOpenStreams().values()) {
+      const current = liabilities.get(stream.unit) || 0n;
+      liabilities.set(stream.unit, current + stream.totalAmount - stream.claimedAmount);
+    }
+    return liabilities;
   }
 
   // Get asset USD values
   getAssetUSDValues(): Map<string, number> {
     const values = new Map<string, number>();
-    
-    if (!this.currentState) return values;
+    const state = this.getCurrentState();
+
+    if (!state) return values;
 
-    for (const [unit, amount] of Object.entries(this.currentState.currentBalance)) {
+    for (const [unit, amount] of Object.entries(state.currentBalance)) {
       const price = this.priceCache.get(unit) || 0;
       const value = Number(amount) * price;
       values.set(unit, value);
@@ -363,250 +392,33 @@ export class TreasuryMonitor {
     return Array.from(assetValues.values()).reduce((sum, value) => sum + value, 0);
   }
 
-  // Add event listener
-  addEventListener(eventType: string, callback: (event: TreasuryEvent) => void): void {
-    if (!this.eventListeners.has(eventType)) {
-      this.eventListeners.set(eventType, []);
-    }
-    this.eventListeners.get(eventType)!.push(callback);
-  }
-
-  // Remove event listener
-  removeEventListener(eventType: string, callback: (event: TreasuryEvent) => void): void {
-    const listeners = this.eventListeners.get(eventType);
-    if (listeners) {
-      const index = listeners.indexOf(callback);
-      if (index > -1) {
-        listeners.splice(index, 1);
-      }
-    }
-  }
-
   // Private methods
-  private async loadInitialState(): Promise<void> {
-    try {
-      const treasuryUTxOs = await this.indexer.utxos.byAddress(this.config.treasuryAddress);
-      
-      if (treasuryUTxOs.length === 0) {
-        throw new Error("Treasury UTxO not found");
-      }
-
-      const treasuryUTxO = treasuryUTxOs[0];
-      this.currentState = await this.parseTreasuryState(treasuryUTxO);
-      
-      // Calculate additional fields
-      this.calculateAdditionalFields();
-      
-      console.log(`Loaded initial treasury state with ${this.currentState.revenueRecords.length} revenue records`);
-    } catch (error) {
-      console.error("Failed to load initial treasury state:", error);
-      throw error;
-    }
-  }
-
-  private async parseTreasuryState(utxo: UTxO): Promise<TreasuryState> {
-    // Parse the treasury datum from UTxO
-    // This would need to match the exact CIP-68 structure from the Aiken contract
-    
-    // Placeholder implementation
-    return {
-      totalRevenueCollected: 0n,
-      totalDistributed: 0n,
-      currentBalance: utxo.assets || {},
-      revenueRecords: [],
-      distributionRecords: [],
-      lpRewardPercentage: 4000, // 40%
-      developmentPercentage: 2000, // 20%
-      governancePercentage: 1500, // 15%
-      protocolPercentage: 1500, // 15%
-      communityPercentage: 1000, // 10%
-      governanceAddress: "placeholder_governance_address",
-      autoDistributionEnabled: true,
-      distributionThreshold: 1000000000n, // 1000 ADA
-      adminAddresses: [],
-      emergencyAdmin: "placeholder_emergency_admin",
-      paused: false,
-      maxSingleDistribution: 10000000000n, // 10,000 ADA
-      dailyDistributionLimit: 50000000000n, // 50,000 ADA
-      lastDistributionSlot: utxo.slot || 0,
-      supportedAssets: [
-        { policy: "", name: "" }, // ADA
-        { policy: "placeholder_pucky_policy", name: "PUCKY" }
-      ]
-    };
+  private getOpenStreams(): Map<string, VestingStream> {
+    return (this.config.streamAddress && this.getState<Map<string, VestingStream>>(this.config.streamAddress)) || new Map();
   }
 
   private calculateAdditionalFields(): void {
-    if (!this.currentState) return;
+    const state = this.getCurrentState();
+    if (!state) return;
 
     // Calculate USD values for revenue records
-    for (const record of this.currentState.revenueRecords) {
+    for (const record of state.revenueRecords) {
       const unit = record.tokenPolicy === "" ? "" : `${record.tokenPolicy}${record.tokenName}`;
       const price = this.priceCache.get(unit) || 0;
       record.usdValue = Number(record.amount) * price;
     }
 
     // Calculate USD values for distribution records
-    for (const record of this.currentState.distributionRecords) {
+    for (const record of state.distributionRecords) {
       const unit = record.tokenPolicy === "" ? "" : `${record.tokenPolicy}${record.tokenName}`;
       const price = this.priceCache.get(unit) || 0;
       record.usdValue = Number(record.totalAmount) * price;
     }
   }
 
-  private handleTreasuryUpdate(utxo: UTxO): void {
-    try {
-      console.log("Treasury update detected:", utxo.txHash);
-      
-      this.parseTreasuryState(utxo).then(newState => {
-        const oldState = this.currentState;
-        this.currentState = newState;
-        
-        // Calculate additional fields
-        this.calculateAdditionalFields();
-        
-        // Detect and emit events
-        this.detectAndEmitEvents(oldState, newState, utxo);
-        
-        // Update analytics
-        this.updateAnalytics();
-        
-        // Check for alerts
-        if (this.config.enableAlerts) {
-          this.checkAlerts();
-        }
-      }).catch(error => {
-        console.error("Failed to parse treasury update:", error);
-      });
-    } catch (error) {
-      console.error("Failed to handle treasury update:", error);
-    }
-  }
-
-  private detectAndEmitEvents(
-    oldState: TreasuryState | null,
-    newState: TreasuryState,
-    utxo: UTxO
-  ): void {
-    if (!oldState) return;
-
-    // Detect new revenue
-    const newRevenue = newState.revenueRecords.filter(newRecord => 
-      !oldState.revenueRecords.some(oldRecord => 
-        oldRecord.transactionHash === newRecord.transactionHash &&
-        oldRecord.receivedAtSlot === newRecord.receivedAtSlot
-      )
-    );
-
-    for (const revenue of newRevenue) {
-      this.emitEvent({
-        type: 'RevenueCollected',
-        transactionHash: utxo.txHash,
-        slot: utxo.slot || 0,
-        blockHeight: utxo.blockHeight || 0,
-        timestamp: new Date(),
-        data: revenue
-      });
-    }
-
-    // Detect new distributions
-    const newDistributions = newState.distributionRecords.filter(newRecord => 
-      !oldState.distributionRecords.some(oldRecord => 
-        oldRecord.transactionHash === newRecord.transactionHash &&
-        oldRecord.distributedAtSlot === newRecord.distributedAtSlot
-      )
-    );
-
-    for (const distribution of newDistributions) {
-      this.emitEvent({
-        type: 'RevenueDistributed',
-        transactionHash: utxo.txHash,
-        slot: utxo.slot || 0,
-        blockHeight: utxo.blockHeight || 0,
-        timestamp: new Date(),
-        data: distribution
-      });
-    }
-
-    // Detect configuration changes
-    if (oldState.lpRewardPercentage !== newState.lpRewardPercentage ||
-        oldState.developmentPercentage !== newState.developmentPercentage ||
-        oldState.governancePercentage !== newState.governancePercentage ||
-        oldState.protocolPercentage !== newState.protocolPercentage ||
-        oldState.communityPercentage !== newState.communityPercentage ||
-        oldState.distributionThreshold !== newState.distributionThreshold ||
-        oldState.autoDistributionEnabled !== newState.autoDistributionEnabled) {
-      this.emitEvent({
-        type: 'ConfigurationUpdated',
-        transactionHash: utxo.txHash,
-        slot: utxo.slot || 0,
-        blockHeight: utxo.blockHeight || 0,
-        timestamp: new Date(),
-        data: {
-          oldConfig: {
-            lpRewardPercentage: oldState.lpRewardPercentage,
-            developmentPercentage: oldState.developmentPercentage,
-            governancePercentage: oldState.governancePercentage,
-            protocolPercentage: oldState.protocolPercentage,
-            communityPercentage: oldState.communityPercentage,
-            distributionThreshold: oldState.distributionThreshold,
-            autoDistributionEnabled: oldState.autoDistributionEnabled
-          },
-          newConfig: {
-            lpRewardPercentage: newState.lpRewardPercentage,
-            developmentPercentage: newState.developmentPercentage,
-            governancePercentage: newState.governancePercentage,
-            protocolPercentage: newState.protocolPercentage,
-            communityPercentage: newState.communityPercentage,
-            distributionThreshold: newState.distributionThreshold,
-            autoDistributionEnabled: newState.autoDistributionEnabled
-          }
-        }
-      });
-    }
-
-    // Check if distribution threshold reached
-    const adaBalance = BigInt(newState.currentBalance[""] || "0");
-    if (adaBalance >= newState.distributionThreshold && newState.autoDistributionEnabled) {
-      this.emitEvent({
-        type: 'DistributionThresholdReached',
-        transactionHash: utxo.txHash,
-        slot: utxo.slot || 0,
-        blockHeight: utxo.blockHeight || 0,
-        timestamp: new Date(),
-        data: {
-          currentBalance: adaBalance,
-          threshold: newState.distributionThreshold
-        }
-      });
-    }
-  }
-
-  private emitEvent(event: TreasuryEvent): void {
-    const listeners = this.eventListeners.get(event.type) || [];
-    for (const listener of listeners) {
-      try {
-        listener(event);
-      } catch (error) {
-        console.error(`Error in event listener for ${event.type}:`, error);
-      }
-    }
-
-    // Emit to all listeners
-    const allListeners = this.eventListeners.get('*') || [];
-    for (const listener of allListeners) {
-      try {
-        listener(event);
-      } catch (error) {
-        console.error(`Error in wildcard event listener:`, error);
-      }
-    }
-
-    console.log(`Treasury event emitted: ${event.type}`, event);
-  }
-
   private updateAnalytics(): void {
-    if (!this.currentState) return;
+    const state = this.getCurrentState();
+    if (!state) return;
 
     const revenueBySource = this.getRevenueBySource();
     const distributionByTarget = this.getDistributionByTarget();
@@ -619,17 +431,17 @@ export class TreasuryMonitor {
       Number((recentRevenue - previousRevenue) * 100n / previousRevenue) : 0;
 
     // Calculate distribution efficiency
-    const totalDistributed = this.currentState.totalDistributed;
-    const totalRevenue = this.currentState.totalRevenueCollected;
+    const totalDistributed = state.totalDistributed;
+    const totalRevenue = state.totalRevenueCollected;
     const distributionEfficiency = totalRevenue > 0n ? 
       Number(totalDistributed * 100n / totalRevenue) : 0;
 
     // Calculate asset breakdown
     const assetBreakdown = new Map<string, { balance: bigint; percentage: number; usdValue: number }>();
-    const totalBalance = Object.values(this.currentState.currentBalance)
+    const totalBalance = Object.values(state.currentBalance)
       .reduce((sum, amount) => sum + BigInt(amount), 0n);
 
-    for (const [unit, amount] of Object.entries(this.currentState.currentBalance)) {
+    for (const [unit, amount] of Object.entries(state.currentBalance)) {
       const balance = BigInt(amount);
       const percentage = totalBalance > 0n ? Number(balance * 100n / totalBalance) : 0;
       const price = this.priceCache.get(unit) || 0;
@@ -639,8 +451,8 @@ export class TreasuryMonitor {
     }
 
     this.analytics = {
-      totalRevenue: this.currentState.totalRevenueCollected,
-      totalDistributed: this.currentState.totalDistributed,
+      totalRevenue: state.totalRevenueCollected,
+      totalDistributed: state.totalDistributed,
       currentTVL: totalBalance,
       revenueGrowthRate,
       distributionEfficiency,
@@ -648,7 +460,7 @@ export class TreasuryMonitor {
       distributionByTarget,
       monthlyRevenue: [], // Would need more complex calculation
       topRevenueGenerators: [], // Would need pool-specific data
-      distributionHistory: this.currentState.distributionRecords.map(record => ({
+      distributionHistory: state.distributionRecords.map(record => ({
         date: new Date(record.distributedAtSlot * 1000),
         amount: record.totalAmount,
         target: record.target.type,
@@ -659,9 +471,10 @@ export class TreasuryMonitor {
   }
 
   private checkAlerts(): void {
-    if (!this.currentState || !this.config.enableAlerts) return;
+    const state = this.getCurrentState();
+    if (!state || !this.config.enableAlerts) return;
 
-    const adaBalance = BigInt(this.currentState.currentBalance[""] || "0");
+    const adaBalance = BigInt(state.currentBalance[""] || "0");
     
     // Check low balance
     if (adaBalance < this.config.alertThresholds.lowBalanceThreshold) {
@@ -670,7 +483,7 @@ export class TreasuryMonitor {
 
     // Check if auto-distribution should trigger
     if (this.shouldTriggerAutoDistribution()) {
-      console.info(`Auto-distribution threshold reached: ${adaBalance} >= ${this.currentState.distributionThreshold}`);
+      console.info(`Auto-distribution threshold reached: ${adaBalance} >= ${state.distributionThreshold}`);
     }
   }
 
@@ -687,57 +500,249 @@ export class TreasuryMonitor {
     }
   }
 
-  private startPeriodicUpdates(): void {
+  // Run a task every interval while monitoring
+  private schedule(task: () => void | Promise<void>, interval: number, context: string): void {
     if (!this.isMonitoring) return;
 
-    setTimeout(async () => {
+    this.timers.set(context, setTimeout(async () => {
       try {
-        this.calculateAdditionalFields();
-        this.updateAnalytics();
-        
-        if (this.config.enableAlerts) {
-          this.checkAlerts();
-        }
-        
-        this.startPeriodicUpdates();
+        await task();
       } catch (error) {
-        console.error("Error in periodic treasury update:", error);
-        if (this.isMonitoring) {
-          this.startPeriodicUpdates();
-        }
+        console.error(`Error in ${context}:`, error);
       }
-    }, this.config.pollingInterval);
+      this.schedule(task, interval, context);
+    }, interval));
   }
 
-  private startAnalyticsUpdates(): void {
-    if (!this.isMonitoring) return;
+  private startPeriodicUpdates(): void {
+    this.schedule(() => {
+      this.calculateAdditionalFields();
+      this.updateAnalytics();
 
-    setTimeout(async () => {
-      try {
-        this.updateAnalytics();
-        this.startAnalyticsUpdates();
-      } catch (error) {
-        console.error("Error in analytics update:", error);
-        if (this.isMonitoring) {
-          this.startAnalyticsUpdates();
-        }
+      if (this.config.enableAlerts) {
+        this.checkAlerts();
       }
-    }, this.config.pollingInterval * 3); // Update analytics less frequently
+    }, this.config.pollingInterval, "periodic treasury update");
+  }
+
+  private startAnalyticsUpdates(): void {
+    // Update analytics less frequently
+    this.schedule(() => this.updateAnalytics(), this.config.pollingInterval * 3, "analytics update");
   }
 
   private startPriceUpdates(): void {
-    if (!this.isMonitoring || !this.config.priceOracle?.enabled) return;
+    this.schedule(() => this.updatePrices(), this.config.priceOracle?.updateInterval || 300000, "price update"); // Default 5 minutes
+  }
+}
 
-    setTimeout(async () => {
-      try {
-        await this.updatePrices();
-        this.startPriceUpdates();
-      } catch (error) {
-        console.error("Error in price update:", error);
-        if (this.isMonitoring) {
-          this.startPriceUpdates();
+// =============================================================================
+// DATUM PARSING AND EVENT DETECTION
+// Shared with the treasury MonitorHost plugin
+// =============================================================================
+
+export async function parseTreasuryState(utxo: UTxO): Promise<TreasuryState> {
+  // Parse the treasury datum from UTxO
+  // This would need to match the exact CIP-68 structure from the Aiken contract
+  
+  // Placeholder implementation
+  return {
+    totalRevenueCollected: 0n,
+    totalDistributed: 0n,
+    currentBalance: utxo.assets || {},
+    revenueRecords: [],
+    distributionRecords: [],
+    lpRewardPercentage: 4000, // 40%
+    developmentPercentage: 2000, // 20%
+    governancePercentage: 1500, // 15%
+    protocolPercentage: 1500, // 15%
+    communityPercentage: 1000, // 10%
+    governanceAddress: "placeholder_governance_address",
+    autoDistributionEnabled: true,
+    distributionThreshold: 1000000000n, // 1000 ADA
+    adminAddresses: [],
+    emergencyAdmin: "placeholder_emergency_admin",
+    paused: false,
+    maxSingleDistribution: 10000000000n, // 10,000 ADA
+    dailyDistributionLimit: 50000000000n, // 50,000 ADA
+    lastDistributionSlot: utxo.slot || 0,
+    supportedAssets: [
+      { policy: "", name: "" }, // ADA
+      { policy: "placeholder_pucky_policy", name: "PUCKY" }
+    ]
+  };
+}
+
+export function detectTreasuryEvents(
+  oldState: TreasuryState | null,
+  newState: TreasuryState,
+  utxo: UTxO
+): TreasuryEvent[] {
+  const events: TreasuryEvent[] = [];
+
+  if (!oldState) return events;
+
+  // Detect new revenue
+  const newRevenue = newState.revenueRecords.filter(newRecord => 
+    !oldState.revenueRecords.some(oldRecord => 
+      oldRecord.transactionHash === newRecord.transactionHash &&
+      oldRecord.receivedAtSlot === newRecord.receivedAtSlot
+    )
+  );
+
+  for (const revenue of newRevenue) {
+    events.push({
+      type: 'RevenueCollected',
+      transactionHash: utxo.txHash,
+      slot: utxo.slot || 0,
+      blockHeight: utxo.blockHeight || 0,
+      timestamp: new Date(),
+      data: revenue
+    });
+  }
+
+  // Detect new distributions
+  const newDistributions = newState.distributionRecords.filter(newRecord => 
+    !oldState.distributionRecords.some(oldRecord => 
+      oldRecord.transactionHash === newRecord.transactionHash &&
+      oldRecord.distributedAtSlot === newRecord.distributedAtSlot
+    )
+  );
+
+  for (const distribution of newDistributions) {
+    events.push({
+      type: 'RevenueDistributed',
+      transactionHash: utxo.txHash,
+      slot: utxo.slot || 0,
+      blockHeight: utxo.blockHeight || 0,
+      timestamp: new Date(),
+      data: distribution
+    });
+  }
+
+  // Detect configuration changes
+  if (oldState.lpRewardPercentage !== newState.lpRewardPercentage ||
+      oldState.developmentPercentage !== newState.developmentPercentage ||
+      oldState.governancePercentage !== newState.governancePercentage ||
+      oldState.protocolPercentage !== newState.protocolPercentage ||
+      oldState.communityPercentage !== newState.communityPercentage ||
+      oldState.distributionThreshold !== newState.distributionThreshold ||
+      oldState.autoDistributionEnabled !== newState.autoDistributionEnabled) {
+    events.push({
+      type: 'ConfigurationUpdated',
+      transactionHash: utxo.txHash,
+      slot: utxo.slot || 0,
+      blockHeight: utxo.blockHeight || 0,
+      timestamp: new Date(),
+      data: {
+        oldConfig: {
+          lpRewardPercentage: oldState.lpRewardPercentage,
+          developmentPercentage: oldState.developmentPercentage,
+          governancePercentage: oldState.governancePercentage,
+          protocolPercentage: oldState.protocolPercentage,
+          communityPercentage: oldState.communityPercentage,
+          distributionThreshold: oldState.distributionThreshold,
+          autoDistributionEnabled: oldState.autoDistributionEnabled
+        },
+        newConfig: {
+          lpRewardPercentage: newState.lpRewardPercentage,
+          developmentPercentage: newState.developmentPercentage,
+          governancePercentage: newState.governancePercentage,
+          protocolPercentage: newState.protocolPercentage,
+          communityPercentage: newState.communityPercentage,
+          distributionThreshold: newState.distributionThreshold,
+          autoDistributionEnabled: newState.autoDistributionEnabled
         }
       }
-    }, (this.config.priceOracle?.updateInterval || 300000)); // Default 5 minutes
+    });
+  }
+
+  // Check if distribution threshold reached
+  const adaBalance = BigInt(newState.currentBalance[""] || "0");
+  if (adaBalance >= newState.distributionThreshold && newState.autoDistributionEnabled) {
+    events.push({
+      type: 'DistributionThresholdReached',
+      transactionHash: utxo.txHash,
+      slot: utxo.slot || 0,
+      blockHeight: utxo.blockHeight || 0,
+      timestamp: new Date(),
+      data: {
+        currentBalance: adaBalance,
+        threshold: newState.distributionThreshold
+      }
+    });
+  }
+
+  return events;
+}
+
+// Open vesting streams held at the stream script address, by stream id
+export function parseStreams(utxos: UTxO[]): Map<string, VestingStream> {
+  const streams = new Map<string, VestingStream>();
+  for (const utxo of utxos) {
+    const stream = utxo.datum ? parseStreamDatum(utxo.datum) : null;
+    if (stream) {
+      streams.set(stream.streamId, stream);
+    }
+  }
+  return streams;
+}
+
+// Created, claimed and closed streams; the initial load emits nothing
+export function detectStreamEvents(
+  previous: Map<string, VestingStream> | null,
+  updated: Map<string, VestingStream>,
+  utxo: UTxO
+): TreasuryEvent[] {
+  const events: TreasuryEvent[] = [];
+  if (!previous) return events;
+
+  const slot = utxo.slot || 0;
+  const event = (type: TreasuryEvent['type'], data: any): TreasuryEvent => ({
+    type,
+    transactionHash: utxo.txHash,
+    slot,
+    blockHeight: utxo.blockHeight || 0,
+    timestamp: new Date(),
+    data
+  });
+
+  for (const [streamId, stream] of updated) {
+    const before = previous.get(streamId);
+    if (!before) {
+      events.push(event('StreamCreated', stream));
+    } else if (stream.claimedAmount > before.claimedAmount) {
+      events.push(event('StreamClaimed', { stream, claimed: stream.claimedAmount - before.claimedAmount }));
+    }
+  }
+
+  // A closed stream was either fully claimed or cancelled by governance before fully vesting
+  for (const [streamId, stream] of previous) {
+    if (updated.has(streamId)) continue;
+
+    if (calculateVestedAmount(stream, slot) >= stream.totalAmount) {
+      events.push(event('StreamCompleted', { stream, claimed: stream.totalAmount - stream.claimedAmount }));
+    } else {
+      events.push(event('StreamCancelled', { stream, vestedAtCancellation: calculateVestedAmount(stream, slot) }));
+    }
+  }
+
+  return events;
+}
+
+// Distinguishes several events of one type in the same transaction
+export function treasuryEventKey(event: TreasuryEvent): string | undefined {
+  switch (event.type) {
+    case 'RevenueCollected':
+      return `${event.data.transactionHash}:${event.data.receivedAtSlot}`;
+    case 'RevenueDistributed':
+      return `${event.data.transactionHash}:${event.data.distributedAtSlot}`;
+    case 'StreamCreated':
+      return event.data.streamId;
+    case 'StreamClaimed':
+    case 'StreamCancelled':
+    case 'StreamCompleted':
+      return event.data.stream.streamId;
+    default:
+      return undefined;
   }
 }
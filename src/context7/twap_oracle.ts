@@ -0,0 +1,265 @@
+// PuckSwap v5 - TWAP Price Oracle
+// Time-weighted average prices accumulated from PoolMonitor swap events
+// Each observation adds price × elapsed slots to a running accumulator, so a
+// single manipulated block only moves the average by its share of the window
+//
+// Observations can be committed to the pool datum as a blake2b-256 hash chain
+// over Plutus Data, which a validator can recompute from the raw observations
+
+import { CML, Data, Constr } from "@lucid-evolution/lucid";
+import type { PoolMonitor, PoolEvent, RolledBackEventData } from "./pool_monitor";
+import type { PoolStats } from "../lib/cip68-types";
+
+// =============================================================================
+// ORACLE TYPES
+// =============================================================================
+
+export const TWAP_CONSTANTS = {
+  PRICE_PRECISION: 1_000_000n, // Prices are ADA per token scaled by 1e6, matching last_price_ada_per_token
+  MAX_OBSERVATIONS: 1024,
+  DEFAULT_WINDOW_SLOTS: 1800 // 30 minutes
+} as const;
+
+export interface PriceObservation {
+  slot: number;
+  price: bigint; // Spot price after the swap, scaled by PRICE_PRECISION
+  cumulativePrice: bigint; // Σ price × slots up to this observation
+}
+
+export interface TwapResult {
+  poolId: string;
+  price: bigint; // Scaled by PRICE_PRECISION
+  priceAdaPerToken: number;
+  windowSlots: number;
+  fromSlot: number;
+  toSlot: number;
+  observationCount: number;
+}
+
+export interface TwapOracleConfig {
+  maxObservations: number;
+}
+
+// =============================================================================
+// PRICE HISTORY HASH
+// =============================================================================
+
+/**
+ * Hash chain over observations: h_i = blake2b_256(Constr 0 [h_{i-1}, slot, price]), h_0 = #""
+ * @param observations - Observations in slot order
+ * @returns Hex hash of the final link
+ */
+export function hashPriceHistory(observations: Array<Pick<PriceObservation, 'slot' | 'price'>>): string {
+  return observations.reduce((previousHash, observation) => {
+    const link = Data.to(new Constr(0, [previousHash, BigInt(observation.slot), observation.price]));
+    return CML.hash_plutus_data(CML.PlutusData.from_cbor_hex(link)).to_hex();
+  }, "");
+}
+
+/**
+ * Check a committed price_history_hash against a list of observations
+ */
+export function verifyPriceHistoryHash(
+  observations: Array<Pick<PriceObservation, 'slot' | 'price'>>,
+  expectedHash: string
+): boolean {
+  return hashPriceHistory(observations) === expectedHash;
+}
+
+// =============================================================================
+// TWAP ORACLE
+// =============================================================================
+
+/**
+ * PuckSwap TWAP Oracle
+ * Keyed by pool id (the monitored pool address)
+ */
+export class PuckSwapTwapOracle {
+  private config: TwapOracleConfig;
+  private observations: Map<string, PriceObservation[]> = new Map();
+  private monitor: PoolMonitor | null = null;
+  private readonly handleEvent = (event: PoolEvent): void => this.recordPoolEvent(event);
+  private readonly handleRollback = (event: PoolEvent): void =>
+    this.rollbackTo(event.poolAddress, (event.data as RolledBackEventData).forkSlot);
+
+  constructor(config: Partial<TwapOracleConfig> = {}) {
+    this.config = {
+      maxObservations: TWAP_CONSTANTS.MAX_OBSERVATIONS,
+      ...config
+    };
+  }
+
+  /**
+   * Start recording prices from a pool monitor's swap stream
+   */
+  attach(monitor: PoolMonitor): void {
+    this.detach();
+    this.monitor = monitor;
+    monitor.addEventListener('pool_created', this.handleEvent);
+    monitor.addEventListener('swap', this.handleEvent);
+    monitor.addEventListener('EventRolledBack', this.handleRollback);
+  }
+
+  detach(): void {
+    if (!this.monitor) {
+      return;
+    }
+    this.monitor.removeEventListener('pool_created', this.handleEvent);
+    this.monitor.removeEventListener('swap', this.handleEvent);
+    this.monitor.removeEventListener('EventRolledBack', this.handleRollback);
+    this.monitor = null;
+  }
+
+  // Record the post-event spot price of a pool
+  recordPoolEvent(event: PoolEvent): void {
+    const { ada_reserve, token_reserve } = event.poolDatum;
+    if (ada_reserve <= 0n || token_reserve <= 0n) {
+      return;
+    }
+
+    this.recordObservation(
+      event.poolAddress,
+      event.slot,
+      (ada_reserve * TWAP_CONSTANTS.PRICE_PRECISION) / token_reserve
+    );
+  }
+
+  /**
+   * Add a price observation
+   * @param poolId - Pool identifier
+   * @param slot - Slot the price took effect
+   * @param price - ADA per token scaled by PRICE_PRECISION
+   */
+  recordObservation(poolId: string, slot: number, price: bigint): PriceObservation {
+    if (price <= 0n) {
+      throw new Error("Observed price must be positive");
+    }
+
+    const history = this.observations.get(poolId) || [];
+    const last = history[history.length - 1];
+
+    if (last && slot < last.slot) {
+      throw new Error(`Observation slot ${slot} is before last observation ${last.slot}`);
+    }
+
+    // Several swaps in one slot: the last price in the slot wins
+    if (last && slot === last.slot) {
+      last.price = price;
+      return last;
+    }
+
+    const observation: PriceObservation = {
+      slot,
+      price,
+      cumulativePrice: last ? last.cumulativePrice + last.price * BigInt(slot - last.slot) : 0n
+    };
+
+    history.push(observation);
+    if (history.length > this.config.maxObservations) {
+      history.splice(0, history.length - this.config.maxObservations);
+    }
+    this.observations.set(poolId, history);
+
+    return observation;
+  }
+
+  /**
+   * Time-weighted average price over a window ending at the current slot
+   * @param poolId - Pool identifier
+   * @param windowSlots - Window length in slots
+   * @param currentSlot - End of the window; defaults to the latest observation
+   * @throws Error if the history does not cover the whole window
+   */
+  getTwap(poolId: string, windowSlots: number, currentSlot?: number): TwapResult {
+    if (windowSlots <= 0) {
+      throw new Error("TWAP window must be positive");
+    }
+
+    const history = this.observations.get(poolId);
+    if (!history || history.length === 0) {
+      throw new Error(`No price observations for pool ${poolId}`);
+    }
+
+    const toSlot = currentSlot ?? history[history.length - 1].slot;
+    const fromSlot = toSlot - windowSlots;
+    if (fromSlot < history[0].slot) {
+      throw new Error(
+        `Insufficient price history for pool ${poolId}: need slot ${fromSlot}, oldest is ${history[0].slot}`
+      );
+    }
+
+    const cumulativeEnd = this.cumulativeAt(history, toSlot);
+    const cumulativeStart = this.cumulativeAt(history, fromSlot);
+    const price = (cumulativeEnd - cumulativeStart) / BigInt(windowSlots);
+
+    return {
+      poolId,
+      price,
+      priceAdaPerToken: Number(price) / Number(TWAP_CONSTANTS.PRICE_PRECISION),
+      windowSlots,
+      fromSlot,
+      toSlot,
+      observationCount: history.filter(observation => observation.slot > fromSlot && observation.slot <= toSlot).length
+    };
+  }
+
+  getObservations(poolId: string, windowSlots?: number): PriceObservation[] {
+    const history = this.observations.get(poolId) || [];
+    if (windowSlots === undefined || history.length === 0) {
+      return [...history];
+    }
+
+    const fromSlot = history[history.length - 1].slot - windowSlots;
+    return history.filter(observation => observation.slot >= fromSlot);
+  }
+
+  getPriceHistoryHash(poolId: string, windowSlots: number = TWAP_CONSTANTS.DEFAULT_WINDOW_SLOTS): string {
+    return hashPriceHistory(this.getObservations(poolId, windowSlots));
+  }
+
+  /**
+   * Pool stats for the next datum update, committing the recent price history
+   * @param poolId - Pool identifier
+   * @param poolStats - Current pool stats from the pool datum
+   * @param windowSlots - History covered by the committed hash
+   */
+  commitPriceHistory<T extends Pick<PoolStats, 'price_history_hash'>>(
+    poolId: string,
+    poolStats: T,
+    windowSlots: number = TWAP_CONSTANTS.DEFAULT_WINDOW_SLOTS
+  ): T {
+    return {
+      ...poolStats,
+      price_history_hash: this.getPriceHistoryHash(poolId, windowSlots)
+    };
+  }
+
+  // Drop observations after a chain fork point
+  rollbackTo(poolId: string, slot: number): void {
+    const history = this.observations.get(poolId);
+    if (history) {
+      this.observations.set(poolId, history.filter(observation => observation.slot <= slot));
+    }
+  }
+
+  clear(poolId?: string): void {
+    if (poolId) {
+      this.observations.delete(poolId);
+    } else {
+      this.observations.clear();
+    }
+  }
+
+  // Private methods
+
+  // Accumulator value at an arbitrary slot, extrapolating from the preceding observation
+  private cumulativeAt(history: PriceObservation[], slot: number): bigint {
+    let index = history.length - 1;
+    while (index > 0 && history[index].slot > slot) {
+      index--;
+    }
+
+    const observation = history[index];
+    return observation.cumulativePrice + observation.price * BigInt(slot - observation.slot);
+  }
+}
@@ -0,0 +1,474 @@
+// PuckSwap v5 - Context7 Webhook Delivery
+// Signed, retried delivery of monitor events to webhook subscribers
+// Every delivery is written to an outbox before it is sent and removed once a
+// subscriber acknowledges it with a 2xx; failures back off exponentially and
+// end in a dead-letter list that can be replayed
+//
+// Signature: X-PuckSwap-Signature = "sha256=" + hex HMAC-SHA256(secret, timestamp + "." + body)
+// with the timestamp sent in X-PuckSwap-Timestamp; receivers check it with verifyWebhookSignature
+
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import type { MonitorEventSource } from "./event-store";
+import { NodeFileSystem, WriteQueue, isFileStoreAvailable, readJsonFile, replaceFile, requireFileSystem } from "./file-store";
+
+// =============================================================================
+// WEBHOOK TYPES
+// =============================================================================
+
+export const WEBHOOK_HEADERS = {
+  EVENT: 'X-PuckSwap-Event',
+  DELIVERY: 'X-PuckSwap-Delivery',
+  TIMESTAMP: 'X-PuckSwap-Timestamp',
+  SIGNATURE: 'X-PuckSwap-Signature'
+} as const;
+
+export interface WebhookSubscriber {
+  id: string;
+  url: string;
+  secret?: string; // Deliveries are signed when set
+  // "*", a source such as "pool", or "source:type" such as "pool:swap"; all events when omitted
+  eventTypes?: string[];
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriberId: string;
+  source: MonitorEventSource;
+  type: string;
+  body: string; // Exact JSON sent, so retries carry the same signature input
+  status: 'pending' | 'dead';
+  attempts: number;
+  createdAt: number; // milliseconds
+  nextAttemptAt: number; // milliseconds
+  lastError?: string;
+}
+
+export interface WebhookOutbox {
+  save(delivery: WebhookDelivery): Promise<void>;
+  remove(id: string): Promise<void>;
+  list(status?: WebhookDelivery['status']): Promise<WebhookDelivery[]>;
+}
+
+export interface WebhookDispatcherConfig {
+  subscribers: WebhookSubscriber[];
+  outbox?: WebhookOutbox; // In-memory when omitted
+  maxAttempts: number;
+  retryDelay: number; // milliseconds, doubled after each failed attempt
+  maxRetryDelay: number; // milliseconds
+  requestTimeout: number; // milliseconds
+  pollInterval: number; // milliseconds between retry sweeps
+  maxDeadLetters: number; // Oldest dead letters are dropped beyond this
+}
+
+export const DEFAULT_WEBHOOK_CONFIG: Omit<WebhookDispatcherConfig, 'subscribers'> = {
+  maxAttempts: 8,
+  retryDelay: 1000, // 1 second
+  maxRetryDelay: 5 * 60 * 1000, // 5 minutes
+  requestTimeout: 10000, // 10 seconds
+  pollInterval: 1000, // 1 second
+  maxDeadLetters: 1000
+};
+
+export interface WebhookOutboxConfig {
+  backend: 'memory' | 'file';
+  directory?: string; // Required for the file backend
+}
+
+export const DEFAULT_WEBHOOK_OUTBOX_DIR = './data/context7-webhooks';
+
+// =============================================================================
+// SIGNATURES
+// =============================================================================
+
+/**
+ * Signature header value for a webhook body
+ * @param secret - Subscriber secret
+ * @param timestamp - Value of the timestamp header, milliseconds
+ * @param body - Raw request body
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Check a received webhook against its signature and timestamp headers
+ * @param toleranceMs - Oldest accepted timestamp, guarding against replayed requests
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  timestamp: string | number,
+  signature: string,
+  toleranceMs: number = 5 * 60 * 1000,
+  now: number = Date.now()
+): boolean {
+  const sentAt = Number(timestamp);
+  if (!Number.isFinite(sentAt) || Math.abs(now - sentAt) > toleranceMs) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, sentAt, body));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+// Whether a subscriber wants an event
+export function matchesWebhookFilter(subscriber: WebhookSubscriber, source: MonitorEventSource, type: string): boolean {
+  if (!subscriber.eventTypes || subscriber.eventTypes.length === 0) {
+    return true;
+  }
+  return subscriber.eventTypes.some(pattern => pattern === '*' || pattern === source || pattern === `${source}:${type}`);
+}
+
+// =============================================================================
+// OUTBOX BACKENDS
+// =============================================================================
+
+/**
+ * Outbox held in process memory; pending deliveries are lost on restart
+ */
+export class InMemoryWebhookOutbox implements WebhookOutbox {
+  protected deliveries: Map<string, WebhookDelivery> = new Map();
+
+  async save(delivery: WebhookDelivery): Promise<void> {
+    this.deliveries.set(delivery.id, { ...delivery });
+  }
+
+  async remove(id: string): Promise<void> {
+    this.deliveries.delete(id);
+  }
+
+  async list(status?: WebhookDelivery['status']): Promise<WebhookDelivery[]> {
+    return [...this.deliveries.values()]
+      .filter(delivery => !status || delivery.status === status)
+      .map(delivery => ({ ...delivery }));
+  }
+}
+
+/**
+ * webhook-outbox.json in a directory, replaced through a temp file on every change
+ * The file is read once on first use (again after a failed read); an unreadable
+ * file starts an empty outbox. Writes are serialized
+ */
+export class FileWebhookOutbox extends InMemoryWebhookOutbox {
+  private directory: string;
+  private files: NodeFileSystem;
+  private loaded: Promise<void> | null = null;
+  private writes = new WriteQueue();
+
+  constructor(directory: string) {
+    super();
+    this.files = requireFileSystem("File webhook outbox");
+    this.directory = directory;
+  }
+
+  async save(delivery: WebhookDelivery): Promise<void> {
+    await this.load();
+    await super.save(delivery);
+    await this.persist();
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.load();
+    await super.remove(id);
+    await this.persist();
+  }
+
+  async list(status?: WebhookDelivery['status']): Promise<WebhookDelivery[]> {
+    await this.load();
+    return super.list(status);
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        await this.files.fs.mkdir(this.directory, { recursive: true });
+        const snapshot = await readJsonFile<WebhookDelivery[]>(this.file(), [], "webhook outbox");
+        for (const delivery of Array.isArray(snapshot) ? snapshot : []) {
+          this.deliveries.set(delivery.id, delivery);
+        }
+      })().catch(error => {
+        this.loaded = null;
+        throw error;
+      });
+    }
+    return this.loaded;
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify([...this.deliveries.values()], null, 2);
+    return this.writes.run(() => replaceFile(this.file(), snapshot));
+  }
+
+  private file(): string {
+    return this.files.path.join(this.directory, "webhook-outbox.json");
+  }
+}
+
+export function createWebhookOutbox(config: WebhookOutboxConfig): WebhookOutbox {
+  if (config.backend === 'file') {
+    if (!config.directory) {
+      throw new Error("File webhook outbox requires a directory");
+    }
+    return new FileWebhookOutbox(config.directory);
+  }
+  return new InMemoryWebhookOutbox();
+}
+
+/**
+ * Outbox used when none is configured: a file outbox in CONTEXT7_WEBHOOK_OUTBOX_DIR
+ * (or DEFAULT_WEBHOOK_OUTBOX_DIR) in Node.js, in-memory in the browser
+ */
+export function defaultWebhookOutboxConfig(): WebhookOutboxConfig {
+  if (!isFileStoreAvailable()) {
+    return { backend: 'memory' };
+  }
+  return { backend: 'file', directory: process.env.CONTEXT7_WEBHOOK_OUTBOX_DIR || DEFAULT_WEBHOOK_OUTBOX_DIR };
+}
+
+// =============================================================================
+// WEBHOOK DISPATCHER
+// =============================================================================
+
+/**
+ * PuckSwap Webhook Dispatcher
+ * One dispatcher can be shared by several monitors through their setWebhookDispatcher
+ */
+export class WebhookDispatcher {
+  private config: WebhookDispatcherConfig;
+  private outbox: WebhookOutbox;
+  private inFlight: Set<string> = new Set();
+  private retryTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(config: Partial<WebhookDispatcherConfig> & Pick<WebhookDispatcherConfig, 'subscribers'>) {
+    this.config = { ...DEFAULT_WEBHOOK_CONFIG, ...config };
+    this.outbox = config.outbox || new InMemoryWebhookOutbox();
+  }
+
+  // Retry pending deliveries, including those left in the outbox by a previous run
+  start(): void {
+    if (this.retryTimer) {
+      return;
+    }
+    this.retryTimer = setInterval(() => {
+      this.processDue().catch(error => console.error("Webhook retry sweep failed:", error));
+    }, this.config.pollInterval);
+  }
+
+  stop(): void {
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  addSubscriber(subscriber: WebhookSubscriber): void {
+    this.removeSubscriber(subscriber.id);
+    this.config.subscribers.push(subscriber);
+  }
+
+  removeSubscriber(id: string): void {
+    this.config.subscribers = this.config.subscribers.filter(subscriber => subscriber.id !== id);
+  }
+
+  /**
+   * Queue an event for every subscriber that wants it and make the first attempt
+   * Failed attempts stay in the outbox for the retry sweep; this never throws
+   * @returns Queued deliveries, once their first attempt has finished
+   */
+  async publish(source: MonitorEventSource, type: string, event: unknown): Promise<WebhookDelivery[]> {
+    const deliveries = await this.queue(source, type, event);
+    await Promise.all(deliveries.map(delivery => this.attempt(delivery)));
+    return deliveries;
+  }
+
+  /**
+   * Queue an event like publish, but make the first attempts in the background
+   * Callers wait only for the outbox write, never for a subscriber
+   * @returns Queued deliveries
+   */
+  async enqueue(source: MonitorEventSource, type: string, event: unknown): Promise<WebhookDelivery[]> {
+    const deliveries = await this.queue(source, type, event);
+    for (const delivery of deliveries) {
+      void this.attempt(delivery);
+    }
+    return deliveries;
+  }
+
+  // Attempt every pending delivery that is due
+  async processDue(now: number = Date.now()): Promise<void> {
+    const due = (await this.outbox.list('pending')).filter(delivery => delivery.nextAttemptAt <= now);
+    for (const delivery of due) {
+      await this.attempt(delivery);
+    }
+  }
+
+  async getPendingDeliveries(): Promise<WebhookDelivery[]> {
+    return this.outbox.list('pending');
+  }
+
+  async getDeadLetters(): Promise<WebhookDelivery[]> {
+    return this.outbox.list('dead');
+  }
+
+  /**
+   * Send dead letters again with a fresh attempt budget
+   * @param ids - Deliveries to replay; all dead letters when omitted
+   * @returns Number of replayed deliveries that were acknowledged
+   */
+  async replayDeadLetters(ids?: string[]): Promise<number> {
+    const deadLetters = (await this.outbox.list('dead')).filter(delivery => !ids || ids.includes(delivery.id));
+
+    let delivered = 0;
+    for (const delivery of deadLetters) {
+      const replay: WebhookDelivery = { ...delivery, status: 'pending', attempts: 0, nextAttemptAt: Date.now() };
+      await this.outbox.save(replay);
+      if (await this.attempt(replay)) {
+        delivered++;
+      }
+    }
+    return delivered;
+  }
+
+  // Private methods
+
+  // Write a delivery to the outbox for every subscriber that wants the event
+  private async queue(source: MonitorEventSource, type: string, event: unknown): Promise<WebhookDelivery[]> {
+    const deliveries: WebhookDelivery[] = [];
+
+    for (const subscriber of this.config.subscribers) {
+      if (!matchesWebhookFilter(subscriber, source, type)) {
+        continue;
+      }
+
+      const id = randomUUID();
+      const now = Date.now();
+      const delivery: WebhookDelivery = {
+        id,
+        subscriberId: subscriber.id,
+        source,
+        type,
+        body: JSON.stringify({ id, source, type, timestamp: now, event }, (_key, value) =>
+          typeof value === "bigint" ? value.toString() : value
+        ),
+        status: 'pending',
+        attempts: 0,
+        createdAt: now,
+        nextAttemptAt: now
+      };
+
+      try {
+        await this.outbox.save(delivery);
+        deliveries.push(delivery);
+      } catch (error) {
+        console.error(`Failed to queue webhook ${source}:${type} for ${subscriber.id}:`, error);
+      }
+    }
+
+    return deliveries;
+  }
+
+  // One POST; the outcome is recorded in the outbox
+  private async attempt(delivery: WebhookDelivery): Promise<boolean> {
+    if (this.inFlight.has(delivery.id)) {
+      return false;
+    }
+    this.inFlight.add(delivery.id);
+
+    try {
+      const subscriber = this.config.subscribers.find(candidate => candidate.id === delivery.subscriberId);
+      if (!subscriber) {
+        throw new Error(`Webhook subscriber ${delivery.subscriberId} no longer exists`);
+      }
+
+      await this.send(subscriber, delivery);
+      await this.outbox.remove(delivery.id);
+      return true;
+    } catch (error) {
+      const attempts = delivery.attempts + 1;
+      const exhausted = attempts >= this.config.maxAttempts;
+      const delay = Math.min(this.config.retryDelay * 2 ** (attempts - 1), this.config.maxRetryDelay);
+
+      console.error(
+        `Webhook ${delivery.source}:${delivery.type} to ${delivery.subscriberId} failed (attempt ${attempts}/${this.config.maxAttempts})` +
+        (exhausted ? ", moved to dead letters:" : `, retrying in ${delay}ms:`),
+        error
+      );
+
+      await this.outbox.save({
+        ...delivery,
+        attempts,
+        status: exhausted ? 'dead' : 'pending',
+        nextAttemptAt: Date.now() + delay,
+        lastError: error instanceof Error ? error.message : String(error)
+      }).catch(saveError => console.error("Failed to record webhook attempt:", saveError));
+
+      if (exhausted) {
+        await this.pruneDeadLetters().catch(pruneError => console.error("Failed to prune webhook dead letters:", pruneError));
+      }
+      return false;
+    } finally {
+      this.inFlight.delete(delivery.id);
+    }
+  }
+
+  // Keep the newest maxDeadLetters so a subscriber that stays down cannot grow the outbox without bound
+  private async pruneDeadLetters(): Promise<void> {
+    const deadLetters = await this.outbox.list('dead');
+    const excess = deadLetters.length - this.config.maxDeadLetters;
+    if (excess <= 0) {
+      return;
+    }
+
+    const oldest = deadLetters.sort((a, b) => a.createdAt - b.createdAt).slice(0, excess);
+    for (const delivery of oldest) {
+      await this.outbox.remove(delivery.id);
+    }
+    console.warn(`Dropped ${excess} webhook dead letter(s) beyond the ${this.config.maxDeadLetters} limit`);
+  }
+
+  private async send(subscriber: WebhookSubscriber, delivery: WebhookDelivery): Promise<void> {
+    const timestamp = Date.now();
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      [WEBHOOK_HEADERS.EVENT]: `${delivery.source}:${delivery.type}`,
+      [WEBHOOK_HEADERS.DELIVERY]: delivery.id,
+      [WEBHOOK_HEADERS.TIMESTAMP]: timestamp.toString()
+    };
+    if (subscriber.secret) {
+      headers[WEBHOOK_HEADERS.SIGNATURE] = signWebhookPayload(subscriber.secret, timestamp, delivery.body);
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.config.requestTimeout);
+    try {
+      const response = await fetch(subscriber.url, {
+        method: 'POST',
+        headers,
+        body: delivery.body,
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`Webhook failed with status: ${response.status}`);
+      }
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+/**
+ * Dispatcher for a monitor's single webhookUrl option
+ * @param outbox - Where pending deliveries are kept; defaultWebhookOutboxConfig() when omitted
+ */
+export function createWebhookDispatcher(
+  webhookUrl: string,
+  webhookSecret?: string,
+  outbox: WebhookOutboxConfig = defaultWebhookOutboxConfig()
+): WebhookDispatcher {
+  return new WebhookDispatcher({
+    subscribers: [{ id: 'default', url: webhookUrl, secret: webhookSecret }],
+    outbox: createWebhookOutbox(outbox)
+  });
+}
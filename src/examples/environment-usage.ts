@@ -19,7 +19,7 @@ import { PuckSwapLiquidityBuilder } from "../lucid/liquidity";
 import { proposeGovernance } from "../lucid/governance";
 import { depositStaking, withdrawStaking } from "../lucid/staking";
 import { PuckSwapCrossChainRouter } from "../lucid/crosschain";
-import { createContext7MonitorV3 } from "../lib/context7-monitor-v3";
+import { createPoolMonitor, DEFAULT_POOL_MONITOR_CONFIG, PoolMonitorConfig } from "../context7/pool_monitor";
 
 /**
  * Example 1: Basic Environment Configuration Usage
@@ -205,32 +205,33 @@ export async function context7MonitorExample() {
   console.log("=== Context7 Monitor Example ===");
   
   try {
-    // Create Context7 monitor - automatically uses centralized environment config
-    const monitor = await createContext7MonitorV3({
+    // Create Context7 pool monitor from the centralized environment config
+    const config = getEnvironmentConfig();
+    const monitor = await createPoolMonitor({
+      ...DEFAULT_POOL_MONITOR_CONFIG,
+      blockfrostApiKey: config.blockfrostApiKey,
+      network: config.network,
       poolAddresses: [
         "addr1_pool_pucky_ada",
         "addr1_pool_wltc_ada",
         "addr1_pool_weth_ada"
       ],
-      enableWebSocket: true,
-      updateInterval: 5000, // 5 seconds
-      historicalDataDays: 7
-    });
+      enableBroadcast: false
+    } as PoolMonitorConfig);
     
     console.log("✅ Context7 monitor initialized successfully");
     
     // Add event listeners
-    monitor.onPoolStateUpdate((poolStats) => {
-      console.log(`Pool ${poolStats.poolId} updated:`, {
+    monitor.addEventListener('*', (event) => {
+      const poolStats = monitor.getPoolStats(event.poolAddress);
+      console.log(`Pool event: ${event.type} in pool ${event.poolAddress}`, poolStats && {
         price: poolStats.price,
         volume24h: poolStats.volume24h.toString(),
         tvl: poolStats.tvl.toString()
       });
     });
     
-    monitor.onPoolEvent((event) => {
-      console.log(`Pool event: ${event.type} in pool ${event.poolId}`);
-    });
+    await monitor.startMonitoring();
     
     // The monitor now automatically uses:
     // - Correct network (preprod/mainnet based on NETWORK env var)
@@ -288,10 +289,13 @@ export async function completePuckSwapExample() {
         routerValidator: "59105f59105c...",
         packetValidator: "59116f59116c..."
       }, "addr1_router_address"),
-      createContext7MonitorV3({
+      createPoolMonitor({
+        ...DEFAULT_POOL_MONITOR_CONFIG,
+        blockfrostApiKey: ENV_CONFIG.blockfrostApiKey,
+        network: ENV_CONFIG.network,
         poolAddresses: ["addr1_pool_pucky_ada"],
-        enableWebSocket: true
-      })
+        enableBroadcast: false
+      } as PoolMonitorConfig)
     ]);
     
     console.log("✅ All PuckSwap v5 components initialized successfully");
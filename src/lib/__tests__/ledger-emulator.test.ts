@@ -0,0 +1,95 @@
+/**
+ * PuckSwap Ledger Emulator Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  Lucid,
+  Data,
+  generateSeedPhrase,
+  getAddressDetails,
+  validatorToAddress
+} from '@lucid-evolution/lucid';
+import { PuckSwapLedgerEmulator, EMULATOR_DEFAULTS } from '../ledger-emulator';
+
+// PlutusV2 validator that accepts any datum, redeemer and context
+const ALWAYS_SUCCEEDS = { type: 'PlutusV2' as const, script: '49480100002221200101' };
+const SCRIPT_ADDRESS = validatorToAddress('Preprod', ALWAYS_SUCCEEDS);
+const TOKEN = `${'aa'.repeat(28)}50554b4b59`;
+
+async function setup() {
+  const emulator = new PuckSwapLedgerEmulator({ addresses: { staking: SCRIPT_ADDRESS } });
+  const lucid = await Lucid(emulator, 'Preprod');
+  lucid.selectWallet.fromSeed(generateSeedPhrase());
+  const address = await lucid.wallet().address();
+  emulator.addUtxo(address, { lovelace: 100_000_000n });
+  return { emulator, lucid, address };
+}
+
+describe('ledger emulator provider', () => {
+  it('answers UTxO queries from the seeded ledger', async () => {
+    const emulator = new PuckSwapLedgerEmulator({ addresses: { staking: SCRIPT_ADDRESS } });
+    emulator.seed({ scripts: [{ contract: 'staking', assets: { lovelace: 5_000_000n, [TOKEN]: 1n }, datum: Data.void() }] });
+    const [seeded] = emulator.getLedger();
+
+    expect(await emulator.getUtxos(SCRIPT_ADDRESS)).toEqual([seeded]);
+    expect(await emulator.getUtxos(getAddressDetails(SCRIPT_ADDRESS).paymentCredential!)).toEqual([seeded]);
+    expect(await emulator.getUtxosWithUnit(SCRIPT_ADDRESS, TOKEN)).toEqual([seeded]);
+    expect(await emulator.getUtxoByUnit(TOKEN)).toEqual(seeded);
+    expect(await emulator.getUtxosByOutRef([seeded, { txHash: 'ff'.repeat(32), outputIndex: 0 }])).toEqual([seeded]);
+    expect(() => emulator.getContractAddress('treasury')).toThrow('No treasury address configured for the emulator');
+
+    emulator.addUtxo(SCRIPT_ADDRESS, { lovelace: 2_000_000n, [TOKEN]: 1n });
+    await expect(emulator.getUtxoByUnit(TOKEN)).rejects.toThrow('must be held by exactly one UTxO, found 2');
+  });
+
+  it('evaluates script budgets offline so Lucid can balance a script spend', async () => {
+    const { emulator, lucid, address } = await setup();
+    const locked = emulator.addUtxo(SCRIPT_ADDRESS, { lovelace: 10_000_000n }, Data.void());
+
+    const tx = await lucid.newTx()
+      .collectFrom([locked], Data.void())
+      .attach.SpendingValidator(ALWAYS_SUCCEEDS)
+      .complete({ localUPLCEval: false });
+    const signed = await tx.sign.withWallet().complete();
+
+    const [redeemer] = await emulator.evaluateTx(signed.toCBOR());
+    expect(redeemer).toMatchObject({ redeemer_tag: 'spend', redeemer_index: 0 });
+    expect(redeemer.ex_units.mem).toBeGreaterThan(0);
+    expect(redeemer.ex_units.steps).toBeGreaterThan(0);
+
+    const slot = emulator.slot;
+    const txHash = await emulator.submitTx(signed.toCBOR());
+
+    expect(await emulator.awaitTx(txHash)).toBe(true);
+    expect(emulator.slot).toBe(slot + EMULATOR_DEFAULTS.SLOTS_PER_BLOCK);
+    expect(await emulator.getUtxos(SCRIPT_ADDRESS)).toEqual([]);
+    expect((await emulator.getUtxos(address)).some(utxo => utxo.txHash === txHash)).toBe(true);
+
+    // The same transaction cannot be applied twice
+    await expect(emulator.submitTx(signed.toCBOR())).rejects.toThrow('Emulator rejected transaction');
+  });
+
+  it('refuses to evaluate a transaction whose inputs are not on the ledger', async () => {
+    const { emulator, lucid } = await setup();
+    const locked = emulator.addUtxo(SCRIPT_ADDRESS, { lovelace: 10_000_000n }, Data.void());
+    const tx = await lucid.newTx()
+      .collectFrom([locked], Data.void())
+      .attach.SpendingValidator(ALWAYS_SUCCEEDS)
+      .complete({ localUPLCEval: false });
+
+    const fresh = new PuckSwapLedgerEmulator();
+    await expect(fresh.evaluateTx(tx.toCBOR())).rejects.toThrow('not found in emulator ledger');
+
+    // Inputs passed alongside the transaction are enough
+    const [wallet] = await emulator.getUtxos(await lucid.wallet().address());
+    await expect(fresh.evaluateTx(tx.toCBOR(), [locked, wallet])).resolves.toHaveLength(1);
+  });
+
+  it('only moves time forward', () => {
+    const emulator = new PuckSwapLedgerEmulator({ startSlot: 100 });
+    emulator.awaitBlock(2);
+    expect(emulator.slot).toBe(100 + 2 * EMULATOR_DEFAULTS.SLOTS_PER_BLOCK);
+    expect(() => emulator.awaitSlot(-1)).toThrow('Cannot move the emulator back in time');
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * PuckSwap Transaction Simulator Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { CML, Data, Constr } from '@lucid-evolution/lucid';
+import { CIP68Serializer } from '../cip68-serializer';
+import {
+  TransactionSimulator,
+  TransactionDescription,
+  createConstantProductRule,
+  describeTransactionCbor
+} from '../tx-simulator';
+
+const USER = 'addr_test1vuser';
+const POOL = 'addr_test1wpool';
+const TOKEN = `${'aa'.repeat(28)}50554b4b59`;
+const FEE = 200_000n;
+
+function utxo(txHash: string, address: string, assets: Record<string, bigint>, datum?: string): any {
+  return { txHash, outputIndex: 0, address, assets, datum };
+}
+
+function codes(issues: { code: string }[]): string[] {
+  return issues.map(issue => issue.code);
+}
+
+describe('value preservation', () => {
+  const simulator = new TransactionSimulator();
+  const wallet = utxo('a1', USER, { lovelace: 10_000_000n });
+
+  it('accepts a balanced payment and reports the resulting UTxO set', () => {
+    const result = simulator.simulate({
+      txHash: 'b1',
+      inputs: [wallet],
+      outputs: [{ address: USER, assets: { lovelace: 9_800_000n } }],
+      fee: FEE
+    }, [wallet]);
+
+    expect(result.success).toBe(true);
+    expect(result.balanceChanges[USER]).toEqual({ lovelace: -FEE });
+    expect(result.resultingUtxos.map(output => output.txHash)).toEqual(['b1']);
+  });
+
+  it('rejects unbalanced, double-spent and missing inputs', () => {
+    const result = simulator.simulate({
+      inputs: [wallet, wallet, { txHash: 'missing', outputIndex: 0 }],
+      outputs: [{ address: USER, assets: { lovelace: 9_900_000n } }],
+      fee: FEE
+    }, [wallet]);
+
+    expect(result.success).toBe(false);
+    expect(codes(result.issues)).toEqual(['DUPLICATE_INPUT', 'MISSING_INPUT', 'VALUE_NOT_PRESERVED']);
+  });
+
+  it('counts reward withdrawals as inputs', () => {
+    const description: TransactionDescription = {
+      inputs: [wallet],
+      outputs: [{ address: USER, assets: { lovelace: 12_800_000n } }],
+      withdrawals: { stake_test1user: 3_000_000n },
+      fee: FEE
+    };
+
+    expect(simulator.simulate(description, [wallet]).success).toBe(true);
+    expect(simulator.simulate({ ...description, withdrawals: {} }, [wallet]).success).toBe(false);
+  });
+
+  it('counts certificate deposits and refunds', () => {
+    const registration = simulator.simulate({
+      inputs: [wallet],
+      outputs: [{ address: USER, assets: { lovelace: 7_800_000n } }],
+      certificates: [{ kind: 'stake', direction: 'deposit' }],
+      fee: FEE
+    }, [wallet]);
+    expect(registration.success).toBe(true);
+
+    const refund = simulator.simulate({
+      inputs: [wallet],
+      outputs: [{ address: USER, assets: { lovelace: 10_800_000n } }],
+      certificates: [{ kind: 'stake', direction: 'refund', amount: 1_000_000n }],
+      fee: FEE
+    }, [wallet]);
+    expect(refund.success).toBe(true);
+  });
+});
+
+describe('constant product rule', () => {
+  const poolDatum = Data.to(new Constr(0, [0n]));
+  const pool = utxo('c1', POOL, { lovelace: 100_000_000n, [TOKEN]: 200_000_000n }, poolDatum);
+  const wallet = utxo('c2', USER, { lovelace: 50_000_000n });
+
+  // Drains 50 ADA and 100 tokens from the pool into the wallet
+  const draining = (redeemer: string): TransactionDescription => ({
+    inputs: [wallet, pool],
+    outputs: [
+      { address: POOL, assets: { lovelace: 50_000_000n, [TOKEN]: 100_000_000n }, datum: poolDatum },
+      { address: USER, assets: { lovelace: 99_800_000n, [TOKEN]: 100_000_000n } }
+    ],
+    redeemers: [{ tag: 'spend', index: 0, data: redeemer }], // c1 sorts before c2
+    fee: FEE
+  });
+  const swap = Data.to(CIP68Serializer.serializeSwapRedeemer(true, 1n, 0n, 100, USER));
+  const removeLiquidity = Data.to(CIP68Serializer.serializeRemoveLiquidityRedeemer(1n, 0n, 0n, 100, USER));
+  const context = { scriptAddresses: [POOL] };
+
+  it('rejects a swap that decreases the pool product', () => {
+    const simulator = new TransactionSimulator({ rules: [createConstantProductRule([POOL])] });
+    const result = simulator.simulate(draining(swap), [wallet, pool], context);
+
+    expect(result.success).toBe(false);
+    expect(codes(result.issues)).toEqual(['INVARIANT_DECREASED']);
+  });
+
+  it('accepts liquidity removal at the pool', () => {
+    const simulator = new TransactionSimulator({ rules: [createConstantProductRule([POOL])] });
+    expect(simulator.simulate(draining(removeLiquidity), [wallet, pool], context).success).toBe(true);
+  });
+
+  it('is not applied unless configured', () => {
+    expect(new TransactionSimulator().simulate(draining(swap), [wallet, pool], context).success).toBe(true);
+  });
+});
+
+describe('transaction decoding', () => {
+  it('reads withdrawals, certificates and redeemers from CBOR', () => {
+    const keyHash = CML.Ed25519KeyHash.from_hex('cc'.repeat(28));
+    const credential = CML.Credential.new_pub_key(keyHash);
+    const rewardAddress = CML.RewardAddress.new(0, credential);
+
+    const inputs = CML.TransactionInputList.new();
+    inputs.add(CML.TransactionInput.new(CML.TransactionHash.from_hex('dd'.repeat(32)), 1n));
+    const outputs = CML.TransactionOutputList.new();
+    outputs.add(CML.TransactionOutput.new(CML.EnterpriseAddress.new(0, credential).to_address(), CML.Value.from_coin(5_000_000n)));
+
+    const body = CML.TransactionBody.new(inputs, outputs, FEE);
+    const withdrawals = CML.MapRewardAccountToCoin.new();
+    withdrawals.insert(rewardAddress, 3_000_000n);
+    body.set_withdrawals(withdrawals);
+    const certs = CML.CertificateList.new();
+    certs.add(CML.Certificate.new_stake_registration(credential));
+    certs.add(CML.Certificate.new_unreg_drep_cert(credential, 7_000_000n));
+    body.set_certs(certs);
+
+    const redeemers = CML.LegacyRedeemerList.new();
+    redeemers.add(CML.LegacyRedeemer.new(CML.RedeemerTag.Spend, 0n, CML.PlutusData.from_cbor_hex(Data.to(new Constr(0, []))), CML.ExUnits.new(1n, 1n)));
+    const witnesses = CML.TransactionWitnessSet.new();
+    witnesses.set_redeemers(CML.Redeemers.new_arr_legacy_redeemer(redeemers));
+
+    const description = describeTransactionCbor(CML.Transaction.new(body, witnesses, true).to_cbor_hex());
+
+    expect(description.withdrawals).toEqual({ [rewardAddress.to_address().to_bech32()]: 3_000_000n });
+    expect(description.certificates).toEqual([
+      { kind: 'stake', direction: 'deposit' },
+      { kind: 'drep', direction: 'refund', amount: 7_000_000n }
+    ]);
+    expect(description.redeemers).toEqual([{ tag: 'spend', index: 0, data: Data.to(new Constr(0, [])) }]);
+  });
+});
@@ -7,8 +7,13 @@ import {
   PoolConfig,
   PoolStats,
   CIP68Metadata,
-  CIP68DatumBuilder
+  CIP68DatumBuilder,
+  OrderType,
+  ConcentratedPoolCIP68Datum,
+  RangePositionCIP68Datum,
+  TickState
 } from "./cip68-types";
+import type { WithdrawalClaim } from "../lucid/staking";
 
 // CIP-68 Datum Serializer/Deserializer for Lucid Evolution
 export class CIP68Serializer {
@@ -270,6 +275,270 @@ export class CIP68Serializer {
     }
   }
 
+  // Serialize Swap Order CIP-68 Datum
+  static serializeSwapOrderDatum(datum: SwapOrderCIP68Datum): Data {
+    const metadata = this.serializeMetadata(datum.metadata);
+    const version = BigInt(datum.version);
+    const extra = datum.extra ? this.serializeValue(datum.extra) : new Constr(0, []);
+
+    // Serialize order data
+    const orderData = new Constr(0, [
+      fromText(datum.order_data.user),
+      fromText(datum.order_data.input_policy),
+      fromText(datum.order_data.input_name),
+      datum.order_data.input_amount,
+      fromText(datum.order_data.output_policy),
+      fromText(datum.order_data.output_name),
+      datum.order_data.min_output,
+      BigInt(datum.order_data.deadline_slot),
+      this.serializeOrderType(datum.order_data.order_type),
+      datum.order_data.partial_fill_allowed ? 1n : 0n,
+      datum.order_data.filled_amount
+    ]);
+
+    return new Constr(0, [metadata, version, extra, orderData]);
+  }
+
+  // Deserialize Swap Order CIP-68 Datum
+  static deserializeSwapOrderDatum(data: Data): SwapOrderCIP68Datum | null {
+    try {
+      if (!(data instanceof Constr) || data.fields.length !== 4) {
+        throw new Error("Invalid swap order datum structure");
+      }
+
+      const [metadataData, versionData, extraData, orderDataData] = data.fields;
+
+      const metadata = this.deserializeMetadata(metadataData);
+      const version = Number(versionData);
+      const extra = this.deserializeValue(extraData);
+
+      // Deserialize order data
+      if (!(orderDataData instanceof Constr) || orderDataData.fields.length !== 11) {
+        throw new Error("Invalid order data structure");
+      }
+
+      const orderData = {
+        user: toText(orderDataData.fields[0] as string),
+        input_policy: toText(orderDataData.fields[1] as string),
+        input_name: toText(orderDataData.fields[2] as string),
+        input_amount: orderDataData.fields[3] as bigint,
+        output_policy: toText(orderDataData.fields[4] as string),
+        output_name: toText(orderDataData.fields[5] as string),
+        min_output: orderDataData.fields[6] as bigint,
+        deadline_slot: Number(orderDataData.fields[7]),
+        order_type: this.deserializeOrderType(orderDataData.fields[8]),
+        partial_fill_allowed: orderDataData.fields[9] === 1n,
+        filled_amount: orderDataData.fields[10] as bigint
+      };
+
+      return {
+        metadata,
+        version,
+        extra,
+        order_data: orderData
+      };
+    } catch (error) {
+      console.error("Failed to deserialize swap order datum:", error);
+      return null;
+    }
+  }
+
+  // Serialize concentrated liquidity pool CIP-68 Datum
+  static serializeConcentratedPoolDatum(datum: ConcentratedPoolCIP68Datum): Data {
+    const metadata = this.serializeMetadata(datum.metadata);
+    const version = BigInt(datum.version);
+    const extra = datum.extra ? this.serializeValue(datum.extra) : new Constr(0, []);
+    const state = datum.pool_state;
+
+    const poolState = new Constr(0, [
+      fromText(state.pool_nft_policy),
+      fromText(state.pool_nft_name),
+      fromText(state.token_a_policy),
+      fromText(state.token_a_name),
+      fromText(state.token_b_policy),
+      fromText(state.token_b_name),
+      fromText(state.position_policy),
+      state.sqrt_price_x96,
+      BigInt(state.current_tick),
+      state.liquidity,
+      BigInt(state.fee_bps),
+      BigInt(state.tick_spacing),
+      state.fee_growth_global_a_x128,
+      state.fee_growth_global_b_x128,
+      new Constr(0, state.ticks.map(tick => this.serializeTickState(tick))),
+      BigInt(state.last_interaction_slot)
+    ]);
+
+    return new Constr(0, [metadata, version, extra, poolState]);
+  }
+
+  // Deserialize concentrated liquidity pool CIP-68 Datum
+  static deserializeConcentratedPoolDatum(data: Data): ConcentratedPoolCIP68Datum | null {
+    try {
+      if (!(data instanceof Constr) || data.fields.length !== 4) {
+        throw new Error("Invalid concentrated pool datum structure");
+      }
+
+      const [metadataData, versionData, extraData, stateData] = data.fields;
+
+      if (!(stateData instanceof Constr) || stateData.fields.length !== 16) {
+        throw new Error("Invalid concentrated pool state structure");
+      }
+
+      const fields = stateData.fields;
+      const ticksData = fields[14];
+      if (!(ticksData instanceof Constr)) {
+        throw new Error("Invalid tick list structure");
+      }
+
+      return {
+        metadata: this.deserializeMetadata(metadataData),
+        version: Number(versionData),
+        extra: this.deserializeValue(extraData),
+        pool_state: {
+          pool_nft_policy: toText(fields[0] as string),
+          pool_nft_name: toText(fields[1] as string),
+          token_a_policy: toText(fields[2] as string),
+          token_a_name: toText(fields[3] as string),
+          token_b_policy: toText(fields[4] as string),
+          token_b_name: toText(fields[5] as string),
+          position_policy: toText(fields[6] as string),
+          sqrt_price_x96: fields[7] as bigint,
+          current_tick: Number(fields[8]),
+          liquidity: fields[9] as bigint,
+          fee_bps: Number(fields[10]),
+          tick_spacing: Number(fields[11]),
+          fee_growth_global_a_x128: fields[12] as bigint,
+          fee_growth_global_b_x128: fields[13] as bigint,
+          ticks: ticksData.fields.map(tick => this.deserializeTickState(tick)),
+          last_interaction_slot: Number(fields[15])
+        }
+      };
+    } catch (error) {
+      console.error("Failed to deserialize concentrated pool datum:", error);
+      return null;
+    }
+  }
+
+  // Serialize initialized tick
+  static serializeTickState(tick: TickState): Data {
+    return new Constr(0, [
+      BigInt(tick.tick),
+      tick.liquidity_gross,
+      tick.liquidity_net,
+      tick.fee_growth_outside_a_x128,
+      tick.fee_growth_outside_b_x128
+    ]);
+  }
+
+  // Deserialize initialized tick
+  static deserializeTickState(data: Data): TickState {
+    if (!(data instanceof Constr) || data.fields.length !== 5) {
+      throw new Error("Invalid tick structure");
+    }
+    return {
+      tick: Number(data.fields[0]),
+      liquidity_gross: data.fields[1] as bigint,
+      liquidity_net: data.fields[2] as bigint,
+      fee_growth_outside_a_x128: data.fields[3] as bigint,
+      fee_growth_outside_b_x128: data.fields[4] as bigint
+    };
+  }
+
+  // Serialize range position CIP-68 Datum
+  static serializeRangePositionDatum(datum: RangePositionCIP68Datum): Data {
+    const metadata = this.serializeMetadata(datum.metadata);
+    const version = BigInt(datum.version);
+    const extra = datum.extra ? this.serializeValue(datum.extra) : new Constr(0, []);
+    const position = datum.position_data;
+
+    const positionData = new Constr(0, [
+      fromText(position.position_name),
+      fromText(position.pool_nft_name),
+      fromText(position.pool_policy),
+      BigInt(position.tick_lower),
+      BigInt(position.tick_upper),
+      position.liquidity,
+      position.fee_growth_inside_a_last_x128,
+      position.fee_growth_inside_b_last_x128,
+      position.tokens_owed_a,
+      position.tokens_owed_b,
+      BigInt(position.created_at_slot),
+      BigInt(position.last_claim_slot)
+    ]);
+
+    return new Constr(0, [metadata, version, extra, positionData]);
+  }
+
+  // Deserialize range position CIP-68 Datum
+  static deserializeRangePositionDatum(data: Data): RangePositionCIP68Datum | null {
+    try {
+      if (!(data instanceof Constr) || data.fields.length !== 4) {
+        throw new Error("Invalid range position datum structure");
+      }
+
+      const [metadataData, versionData, extraData, positionData] = data.fields;
+
+      if (!(positionData instanceof Constr) || positionData.fields.length !== 12) {
+        throw new Error("Invalid range position data structure");
+      }
+
+      const fields = positionData.fields;
+
+      return {
+        metadata: this.deserializeMetadata(metadataData),
+        version: Number(versionData),
+        extra: this.deserializeValue(extraData),
+        position_data: {
+          position_name: toText(fields[0] as string),
+          pool_nft_name: toText(fields[1] as string),
+          pool_policy: toText(fields[2] as string),
+          tick_lower: Number(fields[3]),
+          tick_upper: Number(fields[4]),
+          liquidity: fields[5] as bigint,
+          fee_growth_inside_a_last_x128: fields[6] as bigint,
+          fee_growth_inside_b_last_x128: fields[7] as bigint,
+          tokens_owed_a: fields[8] as bigint,
+          tokens_owed_b: fields[9] as bigint,
+          created_at_slot: Number(fields[10]),
+          last_claim_slot: Number(fields[11])
+        }
+      };
+    } catch (error) {
+      console.error("Failed to deserialize range position datum:", error);
+      return null;
+    }
+  }
+
+  // Serialize order type (prices scaled by 1e6)
+  static serializeOrderType(orderType: OrderType): Data {
+    switch (orderType.type) {
+      case 'Market':
+        return new Constr(0, []);
+      case 'Limit':
+        return new Constr(1, [BigInt(Math.round(orderType.price * 1_000_000))]);
+      case 'StopLoss':
+        return new Constr(2, [BigInt(Math.round(orderType.trigger_price * 1_000_000))]);
+    }
+  }
+
+  // Deserialize order type (prices scaled by 1e6)
+  static deserializeOrderType(data: Data): OrderType {
+    if (!(data instanceof Constr)) {
+      throw new Error("Invalid order type structure");
+    }
+    switch (data.index) {
+      case 0:
+        return { type: 'Market' };
+      case 1:
+        return { type: 'Limit', price: Number(data.fields[0]) / 1_000_000 };
+      case 2:
+        return { type: 'StopLoss', trigger_price: Number(data.fields[0]) / 1_000_000 };
+      default:
+        throw new Error(`Unknown order type index: ${data.index}`);
+    }
+  }
+
   // Validate serialized datum
   static validateSerializedDatum(data: Data): boolean {
     try {
@@ -368,6 +637,107 @@ export class CIP68Serializer {
     ]);
   }
 
+  // Serialize cancel order redeemer
+  static serializeCancelOrderRedeemer(userAddress: string): Data {
+    return new Constr(0, [
+      fromText(userAddress)
+    ]);
+  }
+
+  // Serialize fill order redeemer
+  static serializeFillOrderRedeemer(
+    fillAmount: bigint,
+    outputAmount: bigint,
+    poolUtxoRef: any,
+    batcher: string
+  ): Data {
+    return new Constr(1, [
+      fillAmount,
+      outputAmount,
+      this.serializeOutRef(poolUtxoRef),
+      fromText(batcher)
+    ]);
+  }
+
+  // Serialize batch settlement redeemer for the pool being traded against
+  static serializeBatchSettleRedeemer(
+    orderRefs: any[],
+    netAdaDelta: bigint,
+    netTokenDelta: bigint,
+    batcher: string
+  ): Data {
+    return new Constr(3, [
+      new Constr(0, orderRefs.map(ref => this.serializeOutRef(ref))),
+      netAdaDelta,
+      netTokenDelta,
+      fromText(batcher)
+    ]);
+  }
+
+  // Serialize concentrated pool swap redeemer
+  static serializeConcentratedSwapRedeemer(
+    aToB: boolean,
+    amountIn: bigint,
+    minAmountOut: bigint,
+    sqrtPriceLimitX96: bigint,
+    user: string
+  ): Data {
+    return new Constr(0, [
+      aToB ? 1n : 0n,
+      amountIn,
+      minAmountOut,
+      sqrtPriceLimitX96,
+      fromText(user)
+    ]);
+  }
+
+  // Serialize range position modify redeemer (positive delta adds, negative removes)
+  static serializeModifyPositionRedeemer(
+    positionName: string,
+    tickLower: number,
+    tickUpper: number,
+    liquidityDelta: bigint,
+    user: string
+  ): Data {
+    return new Constr(1, [
+      fromText(positionName),
+      BigInt(tickLower),
+      BigInt(tickUpper),
+      liquidityDelta,
+      fromText(user)
+    ]);
+  }
+
+  // Serialize range position fee collection redeemer
+  static serializeCollectFeesRedeemer(
+    positionName: string,
+    amountA: bigint,
+    amountB: bigint,
+    user: string
+  ): Data {
+    return new Constr(2, [
+      fromText(positionName),
+      amountA,
+      amountB,
+      fromText(user)
+    ]);
+  }
+
+  // Serialize position NFT mint redeemer
+  static serializePositionMintRedeemer(poolNftName: string, positionName: string): Data {
+    return new Constr(0, [
+      fromText(poolNftName),
+      fromText(positionName)
+    ]);
+  }
+
+  // Serialize position NFT burn redeemer
+  static serializePositionBurnRedeemer(positionName: string): Data {
+    return new Constr(1, [
+      fromText(positionName)
+    ]);
+  }
+
   // Serialize OutRef
   static serializeOutRef(outRef: any): Data {
     return new Constr(0, [
@@ -534,7 +904,7 @@ export class CIP68Serializer {
   }
 
   // Serialize withdrawal request
-  static serializeWithdrawalRequest(request: any): Data {
+  static serializeWithdrawalRequest(request: WithdrawalClaim): Data {
     return new Constr(0, [
       fromText(request.id),
       fromText(request.user),
@@ -546,6 +916,42 @@ export class CIP68Serializer {
     ]);
   }
 
+  // Deserialize withdrawal request; null unless every field has the claim's shape
+  static deserializeWithdrawalRequest(data: Data): WithdrawalClaim | null {
+    try {
+      if (!(data instanceof Constr) || data.index !== 0 || data.fields.length !== 7) {
+        return null;
+      }
+
+      const [id, user, stADAAmount, expectedADAAmount, requestedAt, status, completionDeadline] = data.fields;
+      if (
+        typeof id !== 'string' || typeof user !== 'string' || typeof status !== 'string' ||
+        typeof stADAAmount !== 'bigint' || typeof expectedADAAmount !== 'bigint' ||
+        typeof requestedAt !== 'bigint' || typeof completionDeadline !== 'bigint'
+      ) {
+        return null;
+      }
+
+      const claimStatus = toText(status);
+      if (claimStatus !== 'pending' && claimStatus !== 'completed') {
+        return null;
+      }
+
+      return {
+        id: toText(id),
+        user: toText(user),
+        stADAAmount,
+        expectedADAAmount,
+        requestedAt: Number(requestedAt),
+        status: claimStatus,
+        completionDeadline: Number(completionDeadline)
+      };
+    } catch (error) {
+      console.error("Error deserializing withdrawal request:", error);
+      return null;
+    }
+  }
+
   // Serialize staking deposit redeemer
   static serializeStakingDepositRedeemer(
     amount: bigint,
@@ -99,6 +99,61 @@ export interface SwapOrderData {
   filled_amount: bigint;
 }
 
+// Concentrated liquidity pool CIP-68 Datum (v4 range pools)
+export interface ConcentratedPoolCIP68Datum extends CIP68Datum {
+  pool_state: ConcentratedPoolState;
+}
+
+// Range pool state; price is token B per token A as a Q64.96 square root
+export interface ConcentratedPoolState {
+  pool_nft_policy: string;
+  pool_nft_name: string;
+  token_a_policy: string;
+  token_a_name: string;
+  token_b_policy: string;
+  token_b_name: string;
+  position_policy: string;
+  sqrt_price_x96: bigint;
+  current_tick: number;
+  liquidity: bigint; // Active liquidity at current_tick
+  fee_bps: number;
+  tick_spacing: number;
+  fee_growth_global_a_x128: bigint;
+  fee_growth_global_b_x128: bigint;
+  ticks: TickState[]; // Initialized ticks, sorted ascending
+  last_interaction_slot: number;
+}
+
+// Initialized tick boundary
+export interface TickState {
+  tick: number;
+  liquidity_gross: bigint;
+  liquidity_net: bigint; // Added when crossed upward, removed when crossed downward
+  fee_growth_outside_a_x128: bigint;
+  fee_growth_outside_b_x128: bigint;
+}
+
+// Range position CIP-68 Datum (held with the position reference NFT)
+export interface RangePositionCIP68Datum extends CIP68Datum {
+  position_data: RangePositionData;
+}
+
+// Range position data
+export interface RangePositionData {
+  position_name: string; // Shared suffix of the reference and user NFTs
+  pool_nft_name: string;
+  pool_policy: string;
+  tick_lower: number;
+  tick_upper: number;
+  liquidity: bigint;
+  fee_growth_inside_a_last_x128: bigint;
+  fee_growth_inside_b_last_x128: bigint;
+  tokens_owed_a: bigint;
+  tokens_owed_b: bigint;
+  created_at_slot: number;
+  last_claim_slot: number;
+}
+
 // Order types
 export type OrderType = 
   | { type: 'Market' }
@@ -115,6 +170,7 @@ export const CIP68_METADATA_KEYS = {
   URL: 'url',
   LOGO: 'logo',
   POOL_TYPE: 'pool_type',
+  AMPLIFICATION: 'amplification',
   CREATED_BY: 'created_by',
   VERSION: 'version',
   POOL_FEE: 'pool_fee',
@@ -123,6 +179,20 @@ export const CIP68_METADATA_KEYS = {
   AUDIT_REPORT: 'audit_report'
 } as const;
 
+// Pool invariants selectable through the pool_type metadata key
+export const POOL_TYPES = {
+  CONSTANT_PRODUCT: 'AMM',
+  STABLESWAP: 'StableSwap'
+} as const;
+
+export type PoolType = typeof POOL_TYPES[keyof typeof POOL_TYPES];
+
+// Curve a pool trades on; amplification only applies to StableSwap pools
+export interface PoolCurve {
+  pool_type: PoolType;
+  amplification: bigint;
+}
+
 // Enhanced swap result with CIP-68 data
 export interface CIP68SwapResult {
   is_ada_to_token: boolean;
@@ -153,15 +223,25 @@ export class CIP68DatumBuilder {
     name: string,
     description: string,
     poolType: string,
-    feeBps: number
+    feeBps: number,
+    amplification?: number
   ): CIP68Metadata {
-    return {
+    const metadata: CIP68Metadata = {
       [CIP68_METADATA_KEYS.NAME]: name,
       [CIP68_METADATA_KEYS.DESCRIPTION]: description,
       [CIP68_METADATA_KEYS.POOL_TYPE]: poolType,
       [CIP68_METADATA_KEYS.POOL_FEE]: feeBps,
       [CIP68_METADATA_KEYS.VERSION]: 1
     };
+
+    if (poolType === POOL_TYPES.STABLESWAP) {
+      if (amplification === undefined) {
+        throw new Error("StableSwap pools require an amplification parameter");
+      }
+      metadata[CIP68_METADATA_KEYS.AMPLIFICATION] = amplification;
+    }
+
+    return metadata;
   }
 
   // Create LP token metadata
@@ -230,6 +310,59 @@ export class CIP68DatumBuilder {
     };
   }
 
+  // Build swap order CIP-68 datum
+  static buildSwapOrderDatum(
+    orderData: SwapOrderData,
+    metadata?: CIP68Metadata,
+    version: number = 1,
+    extra: any = null
+  ): SwapOrderCIP68Datum {
+    const defaultMetadata: CIP68Metadata = {
+      [CIP68_METADATA_KEYS.NAME]: `PuckSwap ${orderData.order_type.type} Order`,
+      [CIP68_METADATA_KEYS.DESCRIPTION]: `${orderData.order_type.type} swap order`,
+      [CIP68_METADATA_KEYS.VERSION]: version
+    };
+
+    return {
+      metadata: metadata || defaultMetadata,
+      version,
+      extra,
+      order_data: orderData
+    };
+  }
+
+  // Build range position CIP-68 datum
+  static buildRangePositionDatum(
+    positionData: RangePositionData,
+    tokenASymbol: string,
+    tokenBSymbol: string,
+    metadata?: CIP68Metadata,
+    version: number = 1,
+    extra: any = null
+  ): RangePositionCIP68Datum {
+    const lpMetadata = this.createLPTokenMetadata(
+      `${tokenASymbol}/${tokenBSymbol}`,
+      tokenASymbol,
+      tokenBSymbol,
+      0
+    );
+
+    const defaultMetadata: CIP68Metadata = {
+      ...lpMetadata,
+      [CIP68_METADATA_KEYS.NAME]: `${lpMetadata[CIP68_METADATA_KEYS.NAME]} Position`,
+      [CIP68_METADATA_KEYS.DESCRIPTION]:
+        `${lpMetadata[CIP68_METADATA_KEYS.DESCRIPTION]} in ticks ${positionData.tick_lower} to ${positionData.tick_upper}`,
+      [CIP68_METADATA_KEYS.VERSION]: version
+    };
+
+    return {
+      metadata: metadata || defaultMetadata,
+      version,
+      extra,
+      position_data: positionData
+    };
+  }
+
   // Validate CIP-68 datum structure
   static validateCIP68Structure(datum: CIP68Datum): boolean {
     return (
@@ -251,7 +384,8 @@ export class CIP68DatumBuilder {
     swapTokenAmount: bigint,
     feeCollected: bigint,
     newPrice: number,
-    currentSlot: number
+    currentSlot: number,
+    priceHistoryHash?: string // From PuckSwapTwapOracle.getPriceHistoryHash
   ): PoolStats {
     return {
       ...currentStats,
@@ -260,7 +394,7 @@ export class CIP68DatumBuilder {
       total_fees_collected: currentStats.total_fees_collected + feeCollected,
       swap_count: currentStats.swap_count + 1,
       last_price_ada_per_token: newPrice,
-      // price_history_hash would be updated with new price data
+      price_history_hash: priceHistoryHash ?? currentStats.price_history_hash
     };
   }
 
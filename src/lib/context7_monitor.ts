@@ -1,285 +0,0 @@
-import { createIndexer, IndexerConfig } from "./mock-context7-sdk";
-import { Data } from "lucid-evolution";
-
-// Pool state interface matching our CIP-68 datum
-export interface PoolState {
-  ada_reserve: bigint;
-  token_reserve: bigint;
-  lp_token_policy: string;
-  lp_token_name: string;
-  fee_bps: bigint;
-  creator: string;
-  last_updated: number;
-  price: number;
-  volume_24h: bigint;
-  liquidity_usd: number;
-}
-
-// Transaction event types
-export interface SwapEvent {
-  type: 'swap';
-  txHash: string;
-  timestamp: number;
-  user: string;
-  inputToken: {
-    policy: string;
-    name: string;
-    amount: bigint;
-  };
-  outputToken: {
-    policy: string;
-    name: string;
-    amount: bigint;
-  };
-  price: number;
-}
-
-export interface LiquidityEvent {
-  type: 'add_liquidity' | 'remove_liquidity';
-  txHash: string;
-  timestamp: number;
-  user: string;
-  adaAmount: bigint;
-  tokenAmount: bigint;
-  lpTokens: bigint;
-}
-
-export type PoolEvent = SwapEvent | LiquidityEvent;
-
-// Event listeners
-export type PoolStateListener = (poolState: PoolState) => void;
-export type PoolEventListener = (event: PoolEvent) => void;
-
-export class PuckSwapMonitor {
-  private indexer: any;
-  private poolStates: Map<string, PoolState> = new Map();
-  private stateListeners: Set<PoolStateListener> = new Set();
-  private eventListeners: Set<PoolEventListener> = new Set();
-  private isInitialized = false;
-
-  constructor(private config: IndexerConfig) {}
-
-  // Initialize the Context7 indexer
-  async initialize(): Promise<void> {
-    if (this.isInitialized) return;
-
-    try {
-      this.indexer = await createIndexer(this.config);
-      this.isInitialized = true;
-      console.log("PuckSwap Monitor initialized successfully");
-    } catch (error) {
-      console.error("Failed to initialize PuckSwap Monitor:", error);
-      throw error;
-    }
-  }
-
-  // Subscribe to pool state changes
-  async subscribeToPool(poolAddress: string, tokenPolicy: string, tokenName: string): Promise<void> {
-    if (!this.isInitialized) {
-      throw new Error("Monitor not initialized. Call initialize() first.");
-    }
-
-    // Subscribe to address changes
-    this.indexer.addresses.subscribe([poolAddress], (utxo: any) => {
-      this.handlePoolUpdate(utxo, tokenPolicy, tokenName);
-    });
-
-    // Subscribe to transaction events
-    this.indexer.transactions.subscribe({
-      addresses: [poolAddress],
-      includeMetadata: true
-    }, (tx: any) => {
-      this.handleTransactionEvent(tx, tokenPolicy, tokenName);
-    });
-
-    console.log(`Subscribed to pool: ${poolAddress}`);
-  }
-
-  // Handle pool UTxO updates
-  private async handlePoolUpdate(utxo: any, tokenPolicy: string, tokenName: string): Promise<void> {
-    try {
-      if (!utxo.datum) return;
-
-      // Decode CIP-68 datum
-      const poolDatum = Data.from(utxo.datum);
-      
-      // Calculate current price (token per ADA)
-      const price = Number(poolDatum.token_reserve) / Number(poolDatum.ada_reserve);
-      
-      // Get 24h volume (would need historical data)
-      const volume_24h = await this.calculate24hVolume(tokenPolicy, tokenName);
-      
-      // Calculate liquidity in USD (would need ADA/USD price)
-      const adaUsdPrice = await this.getAdaUsdPrice();
-      const liquidity_usd = Number(poolDatum.ada_reserve) * adaUsdPrice / 1_000_000; // Convert from lovelace
-
-      const poolState: PoolState = {
-        ada_reserve: BigInt(poolDatum.ada_reserve),
-        token_reserve: BigInt(poolDatum.token_reserve),
-        lp_token_policy: poolDatum.lp_token_policy,
-        lp_token_name: poolDatum.lp_token_name,
-        fee_bps: BigInt(poolDatum.fee_bps),
-        creator: poolDatum.creator,
-        last_updated: Date.now(),
-        price,
-        volume_24h,
-        liquidity_usd
-      };
-
-      // Update internal state
-      const poolKey = `${tokenPolicy}_${tokenName}`;
-      this.poolStates.set(poolKey, poolState);
-
-      // Notify listeners
-      this.stateListeners.forEach(listener => {
-        try {
-          listener(poolState);
-        } catch (error) {
-          console.error("Error in pool state listener:", error);
-        }
-      });
-
-    } catch (error) {
-      console.error("Error handling pool update:", error);
-    }
-  }
-
-  // Handle transaction events
-  private async handleTransactionEvent(tx: any, tokenPolicy: string, tokenName: string): Promise<void> {
-    try {
-      // Parse transaction to determine event type
-      const event = await this.parseTransactionEvent(tx, tokenPolicy, tokenName);
-      
-      if (event) {
-        // Notify event listeners
-        this.eventListeners.forEach(listener => {
-          try {
-            listener(event);
-          } catch (error) {
-            console.error("Error in pool event listener:", error);
-          }
-        });
-      }
-    } catch (error) {
-      console.error("Error handling transaction event:", error);
-    }
-  }
-
-  // Parse transaction to extract swap/liquidity events
-  private async parseTransactionEvent(tx: any, tokenPolicy: string, tokenName: string): Promise<PoolEvent | null> {
-    // This would need to analyze the transaction structure
-    // to determine if it's a swap, add liquidity, or remove liquidity
-    
-    // Simplified implementation
-    const hasSwapRedeemer = tx.redeemers?.some((r: any) => r.tag === "spend");
-    const hasMintingRedeemer = tx.redeemers?.some((r: any) => r.tag === "mint");
-    
-    if (hasSwapRedeemer && !hasMintingRedeemer) {
-      // Likely a swap
-      return {
-        type: 'swap',
-        txHash: tx.hash,
-        timestamp: tx.block_time,
-        user: tx.inputs[0]?.address || '',
-        inputToken: {
-          policy: '',
-          name: '',
-          amount: 0n
-        },
-        outputToken: {
-          policy: tokenPolicy,
-          name: tokenName,
-          amount: 0n
-        },
-        price: 0
-      };
-    } else if (hasMintingRedeemer) {
-      // Likely liquidity operation
-      const isAddLiquidity = tx.mint?.[tokenPolicy] > 0;
-      
-      return {
-        type: isAddLiquidity ? 'add_liquidity' : 'remove_liquidity',
-        txHash: tx.hash,
-        timestamp: tx.block_time,
-        user: tx.inputs[0]?.address || '',
-        adaAmount: 0n,
-        tokenAmount: 0n,
-        lpTokens: 0n
-      };
-    }
-
-    return null;
-  }
-
-  // Add pool state listener
-  onPoolStateChange(listener: PoolStateListener): () => void {
-    this.stateListeners.add(listener);
-    
-    // Return unsubscribe function
-    return () => {
-      this.stateListeners.delete(listener);
-    };
-  }
-
-  // Add pool event listener
-  onPoolEvent(listener: PoolEventListener): () => void {
-    this.eventListeners.add(listener);
-    
-    // Return unsubscribe function
-    return () => {
-      this.eventListeners.delete(listener);
-    };
-  }
-
-  // Get current pool state
-  getPoolState(tokenPolicy: string, tokenName: string): PoolState | null {
-    const poolKey = `${tokenPolicy}_${tokenName}`;
-    return this.poolStates.get(poolKey) || null;
-  }
-
-  // Get all tracked pools
-  getAllPoolStates(): PoolState[] {
-    return Array.from(this.poolStates.values());
-  }
-
-  // Calculate 24h volume (placeholder implementation)
-  private async calculate24hVolume(tokenPolicy: string, tokenName: string): Promise<bigint> {
-    // This would query historical transactions
-    // For now, return a placeholder
-    return 1000000n;
-  }
-
-  // Get ADA/USD price (placeholder implementation)
-  private async getAdaUsdPrice(): Promise<number> {
-    // This would fetch from a price API
-    // For now, return a placeholder
-    return 0.35;
-  }
-
-  // Cleanup resources
-  async destroy(): Promise<void> {
-    if (this.indexer) {
-      await this.indexer.destroy();
-    }
-    this.stateListeners.clear();
-    this.eventListeners.clear();
-    this.poolStates.clear();
-    this.isInitialized = false;
-  }
-}
-
-// Factory function to create and initialize monitor
-export async function createPuckSwapMonitor(
-  blockfrostApiKey: string,
-  network: "mainnet" | "preview" | "preprod" = "preview"
-): Promise<PuckSwapMonitor> {
-  const config: IndexerConfig = {
-    projectId: blockfrostApiKey,
-    network: network
-  };
-
-  const monitor = new PuckSwapMonitor(config);
-  await monitor.initialize();
-  
-  return monitor;
-}
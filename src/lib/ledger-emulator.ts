@@ -0,0 +1,398 @@
+// PuckSwap Ledger Emulator
+// In-memory chain provider for offline end-to-end tests
+// Seeded with pool, staking, governance and treasury UTxOs at the validator
+// addresses from deployment/addresses.json, with deterministic slot advancement
+//
+// Submitted transactions are applied through the TransactionSimulator
+// (value preservation, min-ADA, validity interval, double spends, and the
+// constant product of swaps at the swap address). evaluateTx runs Plutus
+// scripts locally against the emulated ledger, so Lucid can balance script
+// transactions without a remote evaluator.
+
+import {
+  UTxO,
+  Assets,
+  Address,
+  OutRef,
+  TxHash,
+  Unit,
+  Credential,
+  Delegation,
+  ProtocolParameters,
+  Provider,
+  EvalRedeemer,
+  Network,
+  CML,
+  PROTOCOL_PARAMETERS_DEFAULT,
+  SLOT_CONFIG_NETWORK,
+  createCostModels,
+  fromCMLRedeemerTag,
+  fromHex,
+  getAddressDetails,
+  slotToUnixTime,
+  utxoToTransactionInput,
+  utxoToTransactionOutput
+} from "@lucid-evolution/lucid";
+import * as UPLC from "@lucid-evolution/uplc";
+
+import {
+  TransactionSimulator,
+  SimulationResult,
+  describeTransactionCbor,
+  createConstantProductRule
+} from "./tx-simulator";
+import { PoolDatum, serializePoolDatum } from "../lucid/pool-discovery";
+import { loadContractAddresses } from "../lucid/utils/contractAddresses";
+
+// =============================================================================
+// EMULATOR TYPES
+// =============================================================================
+
+export const EMULATOR_DEFAULTS = {
+  START_SLOT: 50_000_000,
+  SLOTS_PER_BLOCK: 20
+} as const;
+
+// Contracts the emulator can seed state for
+export type EmulatedContract = 'swap' | 'liquidityProvision' | 'staking' | 'governance' | 'treasury' | 'registry' | 'crossChainRouter';
+
+export type EmulatorAddresses = Partial<Record<EmulatedContract, Address>>;
+
+export interface EmulatorAccount {
+  address: Address;
+  assets: Assets;
+}
+
+// Pool UTxO seeded at the swap validator with a CIP-68 pool datum
+export interface EmulatorPoolSeed {
+  datum: PoolDatum;
+  extraAssets?: Assets; // Added on top of reserves and pool NFT
+}
+
+// Arbitrary script UTxO (staking, governance, treasury, ...)
+export interface EmulatorScriptSeed {
+  contract: EmulatedContract;
+  assets: Assets;
+  datum?: string; // Inline datum CBOR
+}
+
+export interface EmulatorSeed {
+  accounts?: EmulatorAccount[];
+  pools?: EmulatorPoolSeed[];
+  scripts?: EmulatorScriptSeed[];
+}
+
+export interface LedgerEmulatorOptions {
+  network?: Network;
+  startSlot?: number;
+  protocolParameters?: ProtocolParameters;
+  addresses?: EmulatorAddresses;
+}
+
+// Record of every transaction the emulator accepted
+export interface EmulatedTransaction {
+  txHash: TxHash;
+  slot: number;
+  simulation: SimulationResult;
+}
+
+// =============================================================================
+// DEPLOYMENT ADDRESSES
+// =============================================================================
+
+/**
+ * Resolve emulator contract addresses from deployment/addresses.json
+ * Contracts missing from the deployment are left out; overrides win.
+ */
+export function loadEmulatorAddresses(network?: string, overrides: EmulatorAddresses = {}): EmulatorAddresses {
+  const addresses: EmulatorAddresses = {};
+
+  try {
+    const deployment = loadContractAddresses(network);
+    for (const [contract, address] of Object.entries(deployment.addresses.validators)) {
+      if (address) {
+        addresses[contract as EmulatedContract] = address;
+      }
+    }
+  } catch (error) {
+    console.warn(`⚠️ Emulator: could not load deployment addresses: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  return { ...addresses, ...overrides };
+}
+
+// =============================================================================
+// LEDGER EMULATOR
+// =============================================================================
+
+/**
+ * PuckSwap Ledger Emulator
+ * Implements the Lucid provider interface over an in-memory UTxO set
+ */
+export class PuckSwapLedgerEmulator implements Provider {
+  private network: Network;
+  private protocolParameters: ProtocolParameters;
+  private addresses: EmulatorAddresses;
+  private simulator: TransactionSimulator;
+
+  private ledger: Map<string, UTxO> = new Map();
+  private transactions: Map<TxHash, EmulatedTransaction> = new Map();
+  private delegations: Map<string, Delegation> = new Map();
+  private seedCounter: number = 0;
+
+  public slot: number;
+
+  constructor(options: LedgerEmulatorOptions = {}) {
+    this.network = options.network ?? "Preprod";
+    this.slot = options.startSlot ?? EMULATOR_DEFAULTS.START_SLOT;
+    this.protocolParameters = options.protocolParameters ?? PROTOCOL_PARAMETERS_DEFAULT;
+    this.addresses = options.addresses ?? {};
+    this.simulator = new TransactionSimulator({
+      minFeeA: BigInt(this.protocolParameters.minFeeA),
+      minFeeB: BigInt(this.protocolParameters.minFeeB),
+      keyDeposit: this.protocolParameters.keyDeposit,
+      poolDeposit: this.protocolParameters.poolDeposit,
+      drepDeposit: this.protocolParameters.drepDeposit,
+      rules: this.addresses.swap ? [createConstantProductRule([this.addresses.swap])] : []
+    });
+  }
+
+  /**
+   * Create an emulator seeded with state at the deployed validator addresses
+   * @param seed - Accounts, pools and script UTxOs to create at genesis
+   * @param options - Network, start slot and address overrides
+   */
+  static fromDeployment(seed: EmulatorSeed, options: LedgerEmulatorOptions = {}): PuckSwapLedgerEmulator {
+    const network = options.network ?? "Preprod";
+    const addresses = loadEmulatorAddresses(network.toLowerCase(), options.addresses);
+    const emulator = new PuckSwapLedgerEmulator({ ...options, network, addresses });
+    emulator.seed(seed);
+    return emulator;
+  }
+
+  // Add genesis state
+  seed(seed: EmulatorSeed): void {
+    seed.accounts?.forEach(account => this.addUtxo(account.address, account.assets));
+    seed.pools?.forEach(pool => this.seedPool(pool));
+    seed.scripts?.forEach(script => this.addUtxo(this.getContractAddress(script.contract), script.assets, script.datum));
+  }
+
+  // Create a pool UTxO holding its reserves, pool NFT and inline datum
+  seedPool(pool: EmulatorPoolSeed): UTxO {
+    const { datum } = pool;
+    const assets: Assets = {
+      lovelace: datum.ada_reserve,
+      [`${datum.pool_nft_policy}${datum.pool_nft_name}`]: 1n,
+      [`${datum.token_policy}${datum.token_name}`]: datum.token_reserve
+    };
+
+    for (const [unit, amount] of Object.entries(pool.extraAssets ?? {})) {
+      assets[unit] = (assets[unit] || 0n) + amount;
+    }
+
+    return this.addUtxo(this.getContractAddress('swap'), assets, serializePoolDatum(datum));
+  }
+
+  /**
+   * Create a UTxO out of thin air (genesis or test funding)
+   */
+  addUtxo(address: Address, assets: Assets, datum?: string): UTxO {
+    const index = this.seedCounter++;
+    const utxo: UTxO = {
+      txHash: index.toString(16).padStart(64, '0'),
+      outputIndex: 0,
+      address,
+      assets: { ...assets },
+      datum: datum ?? undefined,
+      datumHash: undefined
+    } as UTxO;
+
+    this.ledger.set(this.outRefKey(utxo), utxo);
+    return utxo;
+  }
+
+  getContractAddress(contract: EmulatedContract): Address {
+    const address = this.addresses[contract];
+    if (!address) {
+      throw new Error(`No ${contract} address configured for the emulator`);
+    }
+    return address;
+  }
+
+  setDelegation(rewardAddress: string, delegation: Delegation): void {
+    this.delegations.set(rewardAddress, delegation);
+  }
+
+  // ========== TIME ==========
+
+  // Current POSIX time in milliseconds for the emulated slot
+  now(): number {
+    return slotToUnixTime(this.network, this.slot);
+  }
+
+  awaitSlot(slots: number = 1): void {
+    if (slots < 0) {
+      throw new Error("Cannot move the emulator back in time");
+    }
+    this.slot += slots;
+  }
+
+  awaitBlock(blocks: number = 1): void {
+    this.awaitSlot(blocks * EMULATOR_DEFAULTS.SLOTS_PER_BLOCK);
+  }
+
+  // ========== INSPECTION ==========
+
+  getLedger(): UTxO[] {
+    return [...this.ledger.values()];
+  }
+
+  getTransactions(): EmulatedTransaction[] {
+    return [...this.transactions.values()];
+  }
+
+  // ========== PROVIDER INTERFACE ==========
+
+  async getProtocolParameters(): Promise<ProtocolParameters> {
+    return this.protocolParameters;
+  }
+
+  async getUtxos(addressOrCredential: Address | Credential): Promise<UTxO[]> {
+    return this.getLedger().filter(utxo => this.matchesAddress(utxo, addressOrCredential));
+  }
+
+  async getUtxosWithUnit(addressOrCredential: Address | Credential, unit: Unit): Promise<UTxO[]> {
+    return this.getLedger().filter(utxo =>
+      this.matchesAddress(utxo, addressOrCredential) && (utxo.assets[unit] || 0n) > 0n
+    );
+  }
+
+  async getUtxoByUnit(unit: Unit): Promise<UTxO> {
+    const utxos = this.getLedger().filter(utxo => (utxo.assets[unit] || 0n) > 0n);
+    if (utxos.length !== 1) {
+      throw new Error(`Unit ${unit} must be held by exactly one UTxO, found ${utxos.length}`);
+    }
+    return utxos[0];
+  }
+
+  async getUtxosByOutRef(outRefs: OutRef[]): Promise<UTxO[]> {
+    return outRefs
+      .map(ref => this.ledger.get(this.outRefKey(ref)))
+      .filter((utxo): utxo is UTxO => utxo !== undefined);
+  }
+
+  async getDelegation(rewardAddress: string): Promise<Delegation> {
+    return this.delegations.get(rewardAddress) ?? { poolId: null, rewards: 0n };
+  }
+
+  async getDatum(datumHash: string): Promise<string> {
+    const utxo = this.getLedger().find(candidate => candidate.datumHash === datumHash && candidate.datum);
+    if (!utxo?.datum) {
+      throw new Error(`Datum ${datumHash} not found in emulator ledger`);
+    }
+    return utxo.datum;
+  }
+
+  async awaitTx(txHash: TxHash): Promise<boolean> {
+    return this.transactions.has(txHash);
+  }
+
+  /**
+   * Run the transaction's scripts against the emulated ledger
+   * Inputs and reference inputs resolve from additionalUTxOs first, then the ledger.
+   * @throws Error if an input is unknown or a script fails
+   */
+  async evaluateTx(tx: string, additionalUTxOs: UTxO[] = []): Promise<EvalRedeemer[]> {
+    const body = CML.Transaction.from_cbor_hex(tx).body();
+    const refs: OutRef[] = [];
+    const collect = (inputs: CML.TransactionInputList | undefined) => {
+      for (let i = 0; i < (inputs?.len() ?? 0); i++) {
+        const input = inputs!.get(i);
+        refs.push({ txHash: input.transaction_id().to_hex(), outputIndex: Number(input.index()) });
+      }
+    };
+    collect(body.inputs());
+    collect(body.reference_inputs());
+
+    const known = new Map(additionalUTxOs.map(utxo => [this.outRefKey(utxo), utxo]));
+    const utxos = refs.map(ref => {
+      const utxo = known.get(this.outRefKey(ref)) ?? this.ledger.get(this.outRefKey(ref));
+      if (!utxo) {
+        throw new Error(`Cannot evaluate transaction: input ${this.outRefKey(ref)} not found in emulator ledger`);
+      }
+      return utxo;
+    });
+
+    const slotConfig = SLOT_CONFIG_NETWORK[this.network];
+    let results: Uint8Array[];
+    try {
+      results = UPLC.eval_phase_two_raw(
+        fromHex(tx),
+        utxos.map(utxo => utxoToTransactionInput(utxo).to_cbor_bytes()),
+        utxos.map(utxo => utxoToTransactionOutput(utxo).to_cbor_bytes()),
+        createCostModels(this.protocolParameters.costModels).to_cbor_bytes(),
+        BigInt(this.protocolParameters.maxTxExSteps),
+        BigInt(this.protocolParameters.maxTxExMem),
+        BigInt(slotConfig.zeroTime),
+        BigInt(slotConfig.zeroSlot),
+        slotConfig.slotLength
+      );
+    } catch (error) {
+      throw new Error(`Script evaluation failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return results.map(bytes => {
+      const redeemer = CML.LegacyRedeemer.from_cbor_bytes(bytes);
+      return {
+        ex_units: {
+          mem: Number(redeemer.ex_units().mem()),
+          steps: Number(redeemer.ex_units().steps())
+        },
+        redeemer_index: Number(redeemer.index()),
+        redeemer_tag: fromCMLRedeemerTag(redeemer.tag())
+      };
+    });
+  }
+
+  /**
+   * Apply a transaction to the ledger
+   * @throws Error listing every validation failure if the transaction is rejected
+   */
+  async submitTx(tx: string): Promise<TxHash> {
+    const description = describeTransactionCbor(tx);
+    const simulation = this.simulator.simulate(description, this.getLedger(), {
+      currentSlot: this.slot
+    });
+
+    if (!simulation.success) {
+      const errors = simulation.issues
+        .filter(issue => issue.severity === 'error')
+        .map(issue => `[${issue.code}] ${issue.message}`);
+      throw new Error(`Emulator rejected transaction: ${errors.join('; ')}`);
+    }
+
+    simulation.spent.forEach(utxo => this.ledger.delete(this.outRefKey(utxo)));
+    simulation.created.forEach(utxo => this.ledger.set(this.outRefKey(utxo), utxo));
+
+    const txHash = description.txHash!;
+    this.transactions.set(txHash, { txHash, slot: this.slot, simulation });
+
+    // Transactions land in the next block
+    this.awaitBlock(1);
+
+    return txHash;
+  }
+
+  // Private methods
+
+  private outRefKey(ref: OutRef): string {
+    return `${ref.txHash}#${ref.outputIndex}`;
+  }
+
+  private matchesAddress(utxo: UTxO, addressOrCredential: Address | Credential): boolean {
+    if (typeof addressOrCredential === 'string') {
+      return utxo.address === addressOrCredential;
+    }
+    return getAddressDetails(utxo.address).paymentCredential?.hash === addressOrCredential.hash;
+  }
+}
@@ -13,12 +13,14 @@ async function loadLucidEvolution() {
 }
 
 import { getEnvironmentConfig, getBlockfrostApiKey, ENV_CONFIG } from "./environment-config";
+import type { PuckSwapLedgerEmulator } from "./ledger-emulator";
+import type { LucidEvolution, Network } from "@lucid-evolution/lucid";
 
 // Network types supported by Lucid Evolution
 export type NetworkType = "Mainnet" | "Preprod" | "Preview" | "Custom";
 
 // Provider types
-export type ProviderType = "blockfrost" | "kupmios" | "maestro" | "koios";
+export type ProviderType = "blockfrost" | "kupmios" | "maestro" | "koios" | "emulator";
 
 // Configuration interface
 export interface LucidConfig {
@@ -28,6 +30,7 @@ export interface LucidConfig {
   apiUrl?: string;
   kupoEndpoint?: string;
   ogmiosEndpoint?: string;
+  emulator?: PuckSwapLedgerEmulator; // Used when provider is "emulator"
 }
 
 // Environment-based configuration using centralized environment config
@@ -48,14 +51,28 @@ export const getLucidConfig = (): LucidConfig => {
   };
 };
 
+// Emulator used by every createLucidInstance call that doesn't pick a provider
+let activeEmulator: PuckSwapLedgerEmulator | null = null;
+
+// Route builders that create their own Lucid instance to an in-memory ledger (tests only)
+export const setActiveEmulator = (emulator: PuckSwapLedgerEmulator | null): void => {
+  activeEmulator = emulator;
+};
+
+export const getActiveEmulator = (): PuckSwapLedgerEmulator | null => activeEmulator;
+
 // Create Lucid instance with proper provider
 export const createLucidInstance = async (config?: Partial<LucidConfig>): Promise<any> => {
   // Load Lucid Evolution dynamically
   await loadLucidEvolution();
 
   const finalConfig = { ...getLucidConfig(), ...config };
+  if (activeEmulator && !config?.provider) {
+    finalConfig.provider = "emulator";
+  }
 
   let provider;
+  let emulator: PuckSwapLedgerEmulator | undefined;
   
   switch (finalConfig.provider) {
     case "blockfrost":
@@ -101,6 +118,18 @@ export const createLucidInstance = async (config?: Partial<LucidConfig>): Promis
           : "https://preprod.koios.rest/api/v1");
       provider = new Koios(koiosUrl, finalConfig.apiKey);
       break;
+
+    case "emulator":
+      if (finalConfig.emulator || activeEmulator) {
+        emulator = finalConfig.emulator || activeEmulator!;
+      } else {
+        const { PuckSwapLedgerEmulator } = await import("./ledger-emulator");
+        emulator = new PuckSwapLedgerEmulator({
+          network: finalConfig.network === "Custom" ? "Preprod" : finalConfig.network
+        });
+      }
+      provider = emulator;
+      break;
       
     default:
       throw new Error(`Unsupported provider: ${finalConfig.provider}`);
@@ -109,6 +138,11 @@ export const createLucidInstance = async (config?: Partial<LucidConfig>): Promis
   console.log(`🔄 Initializing Lucid Evolution with ${finalConfig.provider} on ${finalConfig.network}...`);
   
   const lucid = await Lucid(provider, finalConfig.network);
+
+  // Follow emulated time instead of the wall clock so slots stay deterministic
+  if (emulator) {
+    lucid.currentSlot = () => emulator!.slot;
+  }
   
   console.log(`✅ Lucid Evolution initialized successfully on ${finalConfig.network}`);
   
@@ -203,6 +237,15 @@ export const getNetworkInfo = () => {
   };
 };
 
+// Network of an initialized Lucid instance (for address and slot utilities)
+export const getLucidNetwork = (lucid: LucidEvolution): Network => {
+  const network = lucid.config().network;
+  if (!network) {
+    throw new Error("Lucid instance has no network configured");
+  }
+  return network;
+};
+
 // Demo mode configuration
 export const isDemoMode = (): boolean => {
   return process.env.NEXT_PUBLIC_DEMO_MODE === 'true';
@@ -211,8 +254,11 @@ export const isDemoMode = (): boolean => {
 // Export default configuration
 export default {
   createLucidInstance,
+  setActiveEmulator,
+  getActiveEmulator,
   connectWallet,
   getLucidConfig,
   getNetworkInfo,
+  getLucidNetwork,
   isDemoMode,
 };
@@ -4,16 +4,25 @@
 export type Address = string;
 export type PolicyId = string;
 export type TxHash = string;
+export type Assets = Record<string, bigint>;
 
 export interface UTxO {
   txHash: TxHash;
   outputIndex: number;
   address: Address;
-  assets: Record<string, bigint>;
+  assets: Assets;
   datum?: string;
   datumHash?: string;
   scriptRef?: string;
   slot?: number;
+  blockHeight?: number;
+  blockHash?: string;
+}
+
+// Chain switched to a fork: everything after the fork point block was rolled back
+export interface RollbackEvent {
+  slot: number; // Slot of the last block still on chain
+  blockHash: string;
 }
 
 export interface IndexerConfig {
@@ -32,6 +41,31 @@ export class Indexer {
   private config: IndexerConfig;
   private subscriptions: Map<string, Function[]> = new Map();
   private isRunning: boolean = false;
+  private rollbackSubscriptions: ((rollback: RollbackEvent) => void)[] = [];
+  private scriptedUtxos: Map<Address, UTxO[]> = new Map();
+
+  // Namespaced API used by the monitors
+  readonly addresses = {
+    subscribe: (addresses: Address[], callback: (utxo: UTxO) => void): void => {
+      for (const address of addresses) {
+        if (!this.subscriptions.has(address)) {
+          this.subscriptions.set(address, []);
+        }
+        this.subscriptions.get(address)!.push(callback);
+      }
+    },
+    getUtxos: async (address: Address): Promise<UTxO[]> => this.utxos.byAddress(address)
+  };
+
+  readonly utxos = {
+    byAddress: async (address: Address): Promise<UTxO[]> => [...(this.scriptedUtxos.get(address) || [])]
+  };
+
+  readonly rollbacks = {
+    subscribe: (callback: (rollback: RollbackEvent) => void): void => {
+      this.rollbackSubscriptions.push(callback);
+    }
+  };
 
   constructor(config: IndexerConfig) {
     this.config = config;
@@ -127,6 +161,30 @@ export class Indexer {
   isActive(): boolean {
     return this.isRunning;
   }
+
+  // Scripting for tests
+
+  // Deliver a UTxO to the address subscribers as if it was included in a block
+  async simulateUtxo(utxo: UTxO): Promise<void> {
+    const history = this.scriptedUtxos.get(utxo.address) || [];
+    history.push(utxo);
+    this.scriptedUtxos.set(utxo.address, history);
+
+    for (const callback of this.subscriptions.get(utxo.address) || []) {
+      await callback(utxo);
+    }
+  }
+
+  // Roll the chain back to a fork point, dropping every scripted UTxO after it
+  async simulateRollback(slot: number, blockHash: string = `mock_block_${slot}`): Promise<void> {
+    for (const [address, history] of this.scriptedUtxos) {
+      this.scriptedUtxos.set(address, history.filter(utxo => (utxo.slot || 0) <= slot));
+    }
+
+    for (const callback of this.rollbackSubscriptions) {
+      await callback({ slot, blockHash });
+    }
+  }
 }
 
 // Factory function to create indexer
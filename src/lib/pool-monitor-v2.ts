@@ -1,385 +0,0 @@
-// Mock Context7 SDK for development
-interface IndexerConfig {
-  projectId: string;
-  network: string;
-}
-
-interface UTxO {
-  txHash: string;
-  outputIndex: number;
-  address: string;
-  assets?: Record<string, string>;
-  datum?: string;
-  slot?: number;
-  blockHeight?: number;
-}
-
-interface Indexer {
-  addresses: {
-    subscribe: (addresses: string[], callback: (utxo: UTxO) => void) => void;
-  };
-  policies: {
-    subscribe: (policies: string[], callback: (utxo: UTxO) => void) => void;
-  };
-  utxos: {
-    byAddress: (address: string) => Promise<UTxO[]>;
-  };
-}
-
-// Mock createIndexer function
-async function createIndexer(config: IndexerConfig): Promise<Indexer> {
-  return {
-    addresses: {
-      subscribe: (addresses: string[], callback: (utxo: UTxO) => void) => {
-        console.log(`Subscribed to addresses: ${addresses.join(', ')}`);
-        // Mock subscription - in demo mode this won't actually do anything
-      }
-    },
-    policies: {
-      subscribe: (policies: string[], callback: (utxo: UTxO) => void) => {
-        console.log(`Subscribed to policies: ${policies.join(', ')}`);
-        // Mock subscription - in demo mode this won't actually do anything
-      }
-    },
-    utxos: {
-      byAddress: async (address: string) => {
-        console.log(`Fetching UTxOs for address: ${address}`);
-        return []; // Return empty array in demo mode
-      }
-    }
-  };
-}
-import { PoolState } from "./puckswap-v2";
-
-// Pool update event
-export interface PoolUpdateEvent {
-  type: 'pool_update';
-  poolAddress: string;
-  tokenPolicy: string;
-  tokenName: string;
-  oldState: PoolState | null;
-  newState: PoolState;
-  txHash: string;
-  timestamp: number;
-}
-
-// Swap event
-export interface SwapEvent {
-  type: 'swap';
-  poolAddress: string;
-  tokenPolicy: string;
-  tokenName: string;
-  swapInToken: boolean;
-  amountIn: bigint;
-  amountOut: bigint;
-  user: string;
-  txHash: string;
-  timestamp: number;
-  priceImpact: number;
-}
-
-export type PoolEvent = PoolUpdateEvent | SwapEvent;
-
-// Event listener types
-export type PoolEventListener = (event: PoolEvent) => void;
-export type PoolStateListener = (poolState: PoolState) => void;
-
-export class PuckSwapPoolMonitor {
-  private indexer: any;
-  private poolStates: Map<string, PoolState> = new Map();
-  private eventListeners: Set<PoolEventListener> = new Set();
-  private stateListeners: Map<string, Set<PoolStateListener>> = new Map();
-  private isInitialized = false;
-
-  constructor(private config: IndexerConfig) {}
-
-  // Initialize Context7 indexer
-  async initialize(): Promise<void> {
-    if (this.isInitialized) return;
-
-    try {
-      this.indexer = await createIndexer(this.config);
-      this.isInitialized = true;
-      console.log("PuckSwap Pool Monitor initialized successfully");
-    } catch (error) {
-      console.error("Failed to initialize pool monitor:", error);
-      throw error;
-    }
-  }
-
-  // Subscribe to pool updates for a specific address
-  async subscribeToPool(
-    poolAddress: string,
-    tokenPolicy: string,
-    tokenName: string
-  ): Promise<void> {
-    if (!this.isInitialized) {
-      throw new Error("Monitor not initialized. Call initialize() first.");
-    }
-
-    const poolKey = `${tokenPolicy}_${tokenName}`;
-
-    // Subscribe to UTxO changes at pool address
-    this.indexer.addresses.subscribe([poolAddress], (utxo: any) => {
-      this.handlePoolUtxoUpdate(utxo, poolAddress, tokenPolicy, tokenName);
-    });
-
-    // Subscribe to transactions at pool address
-    this.indexer.transactions.subscribe({
-      addresses: [poolAddress],
-      includeMetadata: true
-    }, (tx: any) => {
-      this.handlePoolTransaction(tx, poolAddress, tokenPolicy, tokenName);
-    });
-
-    console.log(`Subscribed to pool: ${poolKey} at ${poolAddress}`);
-  }
-
-  // Handle pool UTxO updates
-  private async handlePoolUtxoUpdate(
-    utxo: any,
-    poolAddress: string,
-    tokenPolicy: string,
-    tokenName: string
-  ): Promise<void> {
-    try {
-      const poolKey = `${tokenPolicy}_${tokenName}`;
-      const oldState = this.poolStates.get(poolKey) || null;
-
-      // Parse new pool state from UTxO
-      const newState = this.parsePoolStateFromUtxo(utxo, tokenPolicy, tokenName);
-      
-      if (newState) {
-        // Update internal state
-        this.poolStates.set(poolKey, newState);
-
-        // Emit pool update event
-        const updateEvent: PoolUpdateEvent = {
-          type: 'pool_update',
-          poolAddress,
-          tokenPolicy,
-          tokenName,
-          oldState,
-          newState,
-          txHash: utxo.txHash || '',
-          timestamp: Date.now()
-        };
-
-        this.emitEvent(updateEvent);
-
-        // Notify state listeners
-        const listeners = this.stateListeners.get(poolKey);
-        if (listeners) {
-          listeners.forEach(listener => {
-            try {
-              listener(newState);
-            } catch (error) {
-              console.error("Error in pool state listener:", error);
-            }
-          });
-        }
-      }
-    } catch (error) {
-      console.error("Error handling pool UTxO update:", error);
-    }
-  }
-
-  // Handle pool transactions (for swap events)
-  private async handlePoolTransaction(
-    tx: any,
-    poolAddress: string,
-    tokenPolicy: string,
-    tokenName: string
-  ): Promise<void> {
-    try {
-      // Analyze transaction to detect swaps
-      const swapEvent = this.parseSwapFromTransaction(tx, poolAddress, tokenPolicy, tokenName);
-      
-      if (swapEvent) {
-        this.emitEvent(swapEvent);
-      }
-    } catch (error) {
-      console.error("Error handling pool transaction:", error);
-    }
-  }
-
-  // Parse pool state from UTxO data
-  private parsePoolStateFromUtxo(
-    utxo: any,
-    tokenPolicy: string,
-    tokenName: string
-  ): PoolState | null {
-    try {
-      // Extract ADA and token amounts from UTxO
-      const adaReserve = BigInt(utxo.value?.lovelace || 0);
-      const tokenUnit = `${tokenPolicy}.${tokenName}`;
-      const tokenReserve = BigInt(utxo.value?.[tokenUnit] || 0);
-
-      if (adaReserve === 0n || tokenReserve === 0n) {
-        return null;
-      }
-
-      // Calculate price
-      const price = Number(tokenReserve) / Number(adaReserve);
-
-      return {
-        adaReserve,
-        tokenReserve,
-        tokenPolicy,
-        tokenName,
-        price,
-        totalLiquidity: adaReserve + tokenReserve
-      };
-    } catch (error) {
-      console.error("Failed to parse pool state from UTxO:", error);
-      return null;
-    }
-  }
-
-  // Parse swap event from transaction
-  private parseSwapFromTransaction(
-    tx: any,
-    poolAddress: string,
-    tokenPolicy: string,
-    tokenName: string
-  ): SwapEvent | null {
-    try {
-      // This is a simplified implementation
-      // In practice, you'd analyze the transaction structure more thoroughly
-      
-      // Look for redeemer data to determine swap direction and amounts
-      const redeemers = tx.redeemers || [];
-      const swapRedeemer = redeemers.find((r: any) => r.tag === 'spend');
-      
-      if (!swapRedeemer) return null;
-
-      // Parse redeemer data (this would need proper CBOR decoding)
-      // For now, return a mock swap event
-      return {
-        type: 'swap',
-        poolAddress,
-        tokenPolicy,
-        tokenName,
-        swapInToken: false, // Would be parsed from redeemer
-        amountIn: 100000000n, // Would be parsed from transaction
-        amountOut: 200000000n, // Would be calculated
-        user: tx.inputs?.[0]?.address || '',
-        txHash: tx.hash,
-        timestamp: tx.block_time * 1000,
-        priceImpact: 0.5 // Would be calculated
-      };
-    } catch (error) {
-      console.error("Failed to parse swap from transaction:", error);
-      return null;
-    }
-  }
-
-  // Add event listener
-  addEventListener(listener: PoolEventListener): () => void {
-    this.eventListeners.add(listener);
-    
-    // Return unsubscribe function
-    return () => {
-      this.eventListeners.delete(listener);
-    };
-  }
-
-  // Add pool state listener for specific pool
-  addPoolStateListener(
-    tokenPolicy: string,
-    tokenName: string,
-    listener: PoolStateListener
-  ): () => void {
-    const poolKey = `${tokenPolicy}_${tokenName}`;
-    
-    if (!this.stateListeners.has(poolKey)) {
-      this.stateListeners.set(poolKey, new Set());
-    }
-    
-    this.stateListeners.get(poolKey)!.add(listener);
-    
-    // Return unsubscribe function
-    return () => {
-      const listeners = this.stateListeners.get(poolKey);
-      if (listeners) {
-        listeners.delete(listener);
-        if (listeners.size === 0) {
-          this.stateListeners.delete(poolKey);
-        }
-      }
-    };
-  }
-
-  // Emit event to all listeners
-  private emitEvent(event: PoolEvent): void {
-    this.eventListeners.forEach(listener => {
-      try {
-        listener(event);
-      } catch (error) {
-        console.error("Error in pool event listener:", error);
-      }
-    });
-  }
-
-  // Get current pool state
-  getPoolState(tokenPolicy: string, tokenName: string): PoolState | null {
-    const poolKey = `${tokenPolicy}_${tokenName}`;
-    return this.poolStates.get(poolKey) || null;
-  }
-
-  // Get all tracked pool states
-  getAllPoolStates(): PoolState[] {
-    return Array.from(this.poolStates.values());
-  }
-
-  // Calculate 24h volume for a pool (placeholder)
-  async get24hVolume(tokenPolicy: string, tokenName: string): Promise<bigint> {
-    // This would query historical transactions
-    // For now, return a placeholder
-    return 1000000000n;
-  }
-
-  // Get price history for a pool (placeholder)
-  async getPriceHistory(
-    tokenPolicy: string,
-    tokenName: string,
-    hours: number = 24
-  ): Promise<Array<{ timestamp: number; price: number }>> {
-    // This would query historical data
-    // For now, return mock data
-    const now = Date.now();
-    const hourMs = 60 * 60 * 1000;
-    
-    return Array.from({ length: hours }, (_, i) => ({
-      timestamp: now - (hours - i) * hourMs,
-      price: 2.5 + Math.sin(i / 4) * 0.1 // Mock price oscillation
-    }));
-  }
-
-  // Cleanup resources
-  async destroy(): Promise<void> {
-    if (this.indexer) {
-      await this.indexer.destroy();
-    }
-    this.eventListeners.clear();
-    this.stateListeners.clear();
-    this.poolStates.clear();
-    this.isInitialized = false;
-  }
-}
-
-// Factory function to create and initialize monitor
-export async function createPoolMonitor(
-  blockfrostApiKey: string,
-  network: "mainnet" | "preview" | "preprod" = "preview"
-): Promise<PuckSwapPoolMonitor> {
-  const config: IndexerConfig = {
-    projectId: blockfrostApiKey,
-    network: network
-  };
-
-  const monitor = new PuckSwapPoolMonitor(config);
-  await monitor.initialize();
-  
-  return monitor;
-}
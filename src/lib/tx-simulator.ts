@@ -0,0 +1,671 @@
+// PuckSwap Transaction Simulator
+// Dry-runs a built transaction against the current UTxO set before signing
+// Computes balance changes, resulting datums, fees and min-ADA, and reports
+// validation failures so the UI can preview outcomes of every builder
+
+import {
+  LucidEvolution,
+  TxSignBuilder,
+  UTxO,
+  Assets,
+  Address,
+  OutRef,
+  Data,
+  Constr,
+  CML,
+  coreToTxOutput,
+  valueToAssets
+} from "@lucid-evolution/lucid";
+
+import { MinAdaManager, UTxOType } from "./min-ada-manager";
+import { CIP68Serializer } from "./cip68-serializer";
+
+// =============================================================================
+// SIMULATION TYPES
+// =============================================================================
+
+// Protocol fee parameters used when a transaction carries no fee yet
+export const SIMULATION_DEFAULTS = {
+  MIN_FEE_A: 44n, // lovelace per byte
+  MIN_FEE_B: 155_381n, // constant lovelace
+  MAX_TX_SIZE_BYTES: 16_384,
+  KEY_DEPOSIT: 2_000_000n, // Stake credential registration
+  POOL_DEPOSIT: 500_000_000n, // Stake pool registration
+  DREP_DEPOSIT: 500_000_000_000n // DRep registration
+} as const;
+
+// Output as seen by the simulator
+export interface SimulatedOutput {
+  address: Address;
+  assets: Assets;
+  datum?: string | null; // Inline datum CBOR
+  datumHash?: string | null;
+}
+
+export type SimulatedRedeemerTag = 'spend' | 'mint' | 'cert' | 'reward' | 'vote' | 'propose';
+
+// Redeemer as seen by the simulator; spend indexes refer to the inputs in ledger order
+export interface SimulatedRedeemer {
+  tag: SimulatedRedeemerTag;
+  index: number;
+  data: string; // PlutusData CBOR
+}
+
+// Deposit taken or returned by a certificate
+export interface CertificateDeposit {
+  kind: 'stake' | 'pool' | 'drep';
+  direction: 'deposit' | 'refund';
+  amount?: bigint; // Stated by Conway certificates; otherwise the protocol deposit for the kind
+}
+
+// Builder-agnostic description of a transaction
+export interface TransactionDescription {
+  txHash?: string;
+  inputs: OutRef[];
+  referenceInputs?: OutRef[];
+  outputs: SimulatedOutput[];
+  mint?: Assets;
+  withdrawals?: Record<string, bigint>; // Reward address -> lovelace withdrawn
+  certificates?: CertificateDeposit[];
+  redeemers?: SimulatedRedeemer[];
+  fee?: bigint;
+  validFrom?: number; // Slot
+  validTo?: number; // Slot
+  requiredSigners?: string[];
+  sizeBytes?: number;
+}
+
+export type SimulationSeverity = 'error' | 'warning';
+
+export interface SimulationIssue {
+  severity: SimulationSeverity;
+  code: string;
+  message: string;
+  outputIndex?: number;
+}
+
+// Datum change at a script address (e.g. a pool reserve update)
+export interface DatumTransition {
+  address: Address;
+  outputIndex: number;
+  before: any | null;
+  after: any | null;
+}
+
+export interface MinAdaCheck {
+  outputIndex: number;
+  address: Address;
+  requiredMinAda: bigint;
+  actualAda: bigint;
+  isValid: boolean;
+}
+
+export interface SimulationResult {
+  success: boolean;
+  issues: SimulationIssue[];
+  fee: bigint;
+  balanceChanges: Record<Address, Assets>; // Net per-address change (outputs - inputs)
+  datumTransitions: DatumTransition[];
+  minAda: MinAdaCheck[];
+  spent: UTxO[];
+  created: UTxO[];
+  resultingUtxos: UTxO[]; // UTxO set after applying the transaction
+}
+
+// Extra validation hook for domain-specific rules
+export type SimulationRule = (
+  description: TransactionDescription,
+  spent: UTxO[],
+  created: UTxO[],
+  context: SimulationContext
+) => SimulationIssue[];
+
+// Decodes an inline datum at a given address for reporting
+export type DatumDecoder = (address: Address, datum: string) => any | null;
+
+export interface SimulationContext {
+  currentSlot?: number;
+  scriptAddresses?: Address[];
+  utxoTypes?: Record<Address, UTxOType>;
+  datumDecoder?: DatumDecoder;
+}
+
+export interface SimulatorOptions {
+  minFeeA?: bigint;
+  minFeeB?: bigint;
+  keyDeposit?: bigint;
+  poolDeposit?: bigint;
+  drepDeposit?: bigint;
+  rules?: SimulationRule[];
+}
+
+// =============================================================================
+// ASSET HELPERS
+// =============================================================================
+
+function addAssets(target: Assets, source: Assets, sign: bigint = 1n): Assets {
+  const result: Assets = { ...target };
+  for (const [unit, amount] of Object.entries(source)) {
+    const next = (result[unit] || 0n) + sign * BigInt(amount);
+    if (next === 0n) {
+      delete result[unit];
+    } else {
+      result[unit] = next;
+    }
+  }
+  return result;
+}
+
+function outRefKey(ref: OutRef): string {
+  return `${ref.txHash}#${ref.outputIndex}`;
+}
+
+// Inputs in the order the ledger indexes spend redeemers by
+function sortInputs(refs: OutRef[]): OutRef[] {
+  return [...refs].sort((a, b) =>
+    a.txHash === b.txHash ? a.outputIndex - b.outputIndex : a.txHash < b.txHash ? -1 : 1
+  );
+}
+
+/**
+ * Spend redeemer of an input, if the description carries one
+ */
+export function findSpendRedeemer(description: TransactionDescription, ref: OutRef): SimulatedRedeemer | undefined {
+  const index = sortInputs(description.inputs).findIndex(input => outRefKey(input) === outRefKey(ref));
+  return description.redeemers?.find(redeemer => redeemer.tag === 'spend' && redeemer.index === index);
+}
+
+/**
+ * Default datum decoder: tries the CIP-68 pool datum, then falls back to raw Data
+ */
+export const defaultDatumDecoder: DatumDecoder = (_address, datum) => {
+  try {
+    const data = Data.from(datum);
+    return CIP68Serializer.deserializePoolDatum(data) ?? data;
+  } catch {
+    return null;
+  }
+};
+
+// =============================================================================
+// TRANSACTION DECODING
+// =============================================================================
+
+/**
+ * Describe a Lucid Evolution transaction in simulator terms
+ */
+export function describeTxComplete(tx: TxSignBuilder): TransactionDescription {
+  return describeTransactionCbor(tx.toCBOR());
+}
+
+/**
+ * Describe a (signed or unsigned) transaction from its CBOR
+ * Decodes the transaction body through CML.
+ */
+export function describeTransactionCbor(cbor: string): TransactionDescription {
+  const cmlTx = CML.Transaction.from_cbor_hex(cbor);
+  const body = cmlTx.body();
+
+  const toRefs = (list: any): OutRef[] => {
+    const refs: OutRef[] = [];
+    if (!list) return refs;
+    for (let i = 0; i < list.len(); i++) {
+      const input = list.get(i);
+      refs.push({ txHash: input.transaction_id().to_hex(), outputIndex: Number(input.index()) });
+    }
+    return refs;
+  };
+
+  const outputs: SimulatedOutput[] = [];
+  const cmlOutputs = body.outputs();
+  for (let i = 0; i < cmlOutputs.len(); i++) {
+    const output = coreToTxOutput(cmlOutputs.get(i));
+    outputs.push({
+      address: output.address,
+      assets: output.assets,
+      datum: output.datum ?? null,
+      datumHash: output.datumHash ?? null
+    });
+  }
+
+  let mint: Assets | undefined;
+  const cmlMint = body.mint();
+  if (cmlMint) {
+    const positive = valueToAssets(CML.Value.new(0n, cmlMint.as_positive_multiasset()));
+    const negative = valueToAssets(CML.Value.new(0n, cmlMint.as_negative_multiasset()));
+    delete positive.lovelace;
+    delete negative.lovelace;
+    mint = addAssets(positive, negative, -1n);
+  }
+
+  const withdrawals: Record<string, bigint> = {};
+  const cmlWithdrawals = body.withdrawals();
+  if (cmlWithdrawals) {
+    const accounts = cmlWithdrawals.keys();
+    for (let i = 0; i < accounts.len(); i++) {
+      const account = accounts.get(i);
+      withdrawals[account.to_address().to_bech32()] = cmlWithdrawals.get(account)!;
+    }
+  }
+
+  const certificates: CertificateDeposit[] = [];
+  const cmlCerts = body.certs();
+  if (cmlCerts) {
+    for (let i = 0; i < cmlCerts.len(); i++) {
+      const certificate = describeCertificate(cmlCerts.get(i));
+      if (certificate) {
+        certificates.push(certificate);
+      }
+    }
+  }
+
+  const redeemerTags: SimulatedRedeemerTag[] = ['spend', 'mint', 'cert', 'reward', 'vote', 'propose'];
+  const redeemers: SimulatedRedeemer[] = [];
+  const cmlRedeemers = cmlTx.witness_set().redeemers();
+  if (cmlRedeemers) {
+    const flat = cmlRedeemers.to_flat_format();
+    for (let i = 0; i < flat.len(); i++) {
+      const redeemer = flat.get(i);
+      redeemers.push({
+        tag: redeemerTags[redeemer.tag()],
+        index: Number(redeemer.index()),
+        data: redeemer.data().to_cbor_hex()
+      });
+    }
+  }
+
+  const signers: string[] = [];
+  const cmlSigners = body.required_signers();
+  if (cmlSigners) {
+    for (let i = 0; i < cmlSigners.len(); i++) {
+      signers.push(cmlSigners.get(i).to_hex());
+    }
+  }
+
+  const ttl = body.ttl();
+  const validFrom = body.validity_interval_start();
+
+  return {
+    txHash: CML.hash_transaction(body).to_hex(),
+    inputs: toRefs(body.inputs()),
+    referenceInputs: toRefs(body.reference_inputs()),
+    outputs,
+    mint,
+    withdrawals,
+    certificates,
+    redeemers,
+    fee: body.fee(),
+    validFrom: validFrom !== undefined ? Number(validFrom) : undefined,
+    validTo: ttl !== undefined ? Number(ttl) : undefined,
+    requiredSigners: signers,
+    sizeBytes: cbor.length / 2
+  };
+}
+
+// Deposit effect of a certificate; delegations and retirements move no value in the transaction
+function describeCertificate(certificate: CML.Certificate): CertificateDeposit | null {
+  switch (certificate.kind()) {
+    case CML.CertificateKind.StakeRegistration:
+      return { kind: 'stake', direction: 'deposit' };
+    case CML.CertificateKind.StakeDeregistration:
+      return { kind: 'stake', direction: 'refund' };
+    case CML.CertificateKind.RegCert:
+      return { kind: 'stake', direction: 'deposit', amount: certificate.as_reg_cert()!.deposit() };
+    case CML.CertificateKind.UnregCert:
+      return { kind: 'stake', direction: 'refund', amount: certificate.as_unreg_cert()!.deposit() };
+    case CML.CertificateKind.StakeRegDelegCert:
+      return { kind: 'stake', direction: 'deposit', amount: certificate.as_stake_reg_deleg_cert()!.deposit() };
+    case CML.CertificateKind.VoteRegDelegCert:
+      return { kind: 'stake', direction: 'deposit', amount: certificate.as_vote_reg_deleg_cert()!.deposit() };
+    case CML.CertificateKind.StakeVoteRegDelegCert:
+      return { kind: 'stake', direction: 'deposit', amount: certificate.as_stake_vote_reg_deleg_cert()!.deposit() };
+    case CML.CertificateKind.PoolRegistration:
+      return { kind: 'pool', direction: 'deposit' };
+    case CML.CertificateKind.RegDrepCert:
+      return { kind: 'drep', direction: 'deposit', amount: certificate.as_reg_drep_cert()!.deposit() };
+    case CML.CertificateKind.UnregDrepCert:
+      return { kind: 'drep', direction: 'refund', amount: certificate.as_unreg_drep_cert()!.deposit() };
+    default:
+      return null;
+  }
+}
+
+// =============================================================================
+// SIMULATOR
+// =============================================================================
+
+/**
+ * PuckSwap Transaction Simulator
+ * Applies a transaction description to a UTxO set without touching the chain
+ */
+export class TransactionSimulator {
+  private minFeeA: bigint;
+  private minFeeB: bigint;
+  private deposits: Record<CertificateDeposit['kind'], bigint>;
+  private rules: SimulationRule[];
+
+  constructor(options: SimulatorOptions = {}) {
+    this.minFeeA = options.minFeeA ?? SIMULATION_DEFAULTS.MIN_FEE_A;
+    this.minFeeB = options.minFeeB ?? SIMULATION_DEFAULTS.MIN_FEE_B;
+    this.deposits = {
+      stake: options.keyDeposit ?? SIMULATION_DEFAULTS.KEY_DEPOSIT,
+      pool: options.poolDeposit ?? SIMULATION_DEFAULTS.POOL_DEPOSIT,
+      drep: options.drepDeposit ?? SIMULATION_DEFAULTS.DREP_DEPOSIT
+    };
+    this.rules = options.rules ?? [];
+  }
+
+  // Register an additional validation rule
+  addRule(rule: SimulationRule): void {
+    this.rules.push(rule);
+  }
+
+  // Estimate the linear fee for a transaction size
+  estimateFee(sizeBytes: number): bigint {
+    return this.minFeeA * BigInt(sizeBytes) + this.minFeeB;
+  }
+
+  /**
+   * Simulate a transaction against the given UTxO set
+   * @param description - Transaction to apply
+   * @param utxoSet - Current UTxOs (must include every input)
+   * @param context - Slot, script addresses and datum decoding
+   */
+  simulate(
+    description: TransactionDescription,
+    utxoSet: UTxO[],
+    context: SimulationContext = {}
+  ): SimulationResult {
+    const issues: SimulationIssue[] = [];
+    const available = new Map(utxoSet.map(utxo => [outRefKey(utxo), utxo]));
+    const decodeDatum = context.datumDecoder ?? defaultDatumDecoder;
+
+    // Resolve inputs
+    const spent: UTxO[] = [];
+    const seen = new Set<string>();
+    for (const ref of description.inputs) {
+      const key = outRefKey(ref);
+      if (seen.has(key)) {
+        issues.push({ severity: 'error', code: 'DUPLICATE_INPUT', message: `Input ${key} spent twice` });
+        continue;
+      }
+      seen.add(key);
+
+      const utxo = available.get(key);
+      if (!utxo) {
+        issues.push({ severity: 'error', code: 'MISSING_INPUT', message: `Input ${key} not found or already spent` });
+        continue;
+      }
+      spent.push(utxo);
+    }
+
+    for (const ref of description.referenceInputs ?? []) {
+      if (!available.has(outRefKey(ref))) {
+        issues.push({ severity: 'error', code: 'MISSING_REFERENCE_INPUT', message: `Reference input ${outRefKey(ref)} not found` });
+      }
+    }
+
+    // Fee
+    const fee = description.fee ?? this.estimateFee(description.sizeBytes ?? 0);
+    if (description.sizeBytes !== undefined) {
+      const minFee = this.estimateFee(description.sizeBytes);
+      if (fee < minFee) {
+        issues.push({ severity: 'error', code: 'FEE_TOO_LOW', message: `Fee ${fee} below minimum ${minFee}` });
+      }
+      if (description.sizeBytes > SIMULATION_DEFAULTS.MAX_TX_SIZE_BYTES) {
+        issues.push({
+          severity: 'error',
+          code: 'TX_TOO_LARGE',
+          message: `Transaction is ${description.sizeBytes} bytes, maximum is ${SIMULATION_DEFAULTS.MAX_TX_SIZE_BYTES}`
+        });
+      }
+    }
+
+    // Validity interval
+    if (context.currentSlot !== undefined) {
+      if (description.validFrom !== undefined && context.currentSlot < description.validFrom) {
+        issues.push({ severity: 'error', code: 'NOT_YET_VALID', message: `Valid from slot ${description.validFrom}, current slot ${context.currentSlot}` });
+      }
+      if (description.validTo !== undefined && context.currentSlot > description.validTo) {
+        issues.push({ severity: 'error', code: 'EXPIRED', message: `Valid to slot ${description.validTo}, current slot ${context.currentSlot}` });
+      }
+    }
+
+    // Value preservation: inputs + mint + withdrawals + refunds = outputs + fee + deposits
+    let deposited = 0n;
+    let refunded = 0n;
+    for (const certificate of description.certificates ?? []) {
+      const amount = certificate.amount ?? this.deposits[certificate.kind];
+      if (certificate.direction === 'deposit') {
+        deposited += amount;
+      } else {
+        refunded += amount;
+      }
+    }
+    const withdrawn = Object.values(description.withdrawals ?? {}).reduce((sum, amount) => sum + amount, 0n);
+
+    const totalIn = addAssets(
+      spent.reduce((acc, utxo) => addAssets(acc, utxo.assets), {} as Assets),
+      addAssets(description.mint ?? {}, { lovelace: withdrawn + refunded })
+    );
+    const totalOut = addAssets(
+      description.outputs.reduce((acc, output) => addAssets(acc, output.assets), {} as Assets),
+      { lovelace: fee + deposited }
+    );
+    const imbalance = addAssets(totalIn, totalOut, -1n);
+    for (const [unit, amount] of Object.entries(imbalance)) {
+      issues.push({
+        severity: 'error',
+        code: 'VALUE_NOT_PRESERVED',
+        message: `${unit} ${amount > 0n ? 'surplus' : 'deficit'} of ${amount > 0n ? amount : -amount}`
+      });
+    }
+
+    // Outputs: negative amounts and min-ADA
+    const minAda: MinAdaCheck[] = [];
+    const txHash = description.txHash ?? 'simulated';
+    const created: UTxO[] = description.outputs.map((output, outputIndex) => {
+      for (const [unit, amount] of Object.entries(output.assets)) {
+        if (amount < 0n) {
+          issues.push({ severity: 'error', code: 'NEGATIVE_OUTPUT', message: `Output ${outputIndex} has negative ${unit}`, outputIndex });
+        }
+      }
+
+      const isScript = context.scriptAddresses
+        ? context.scriptAddresses.includes(output.address)
+        : MinAdaManager.isScriptAddress(output.address);
+      const calculation = MinAdaManager.calculateMinAdaForUtxo(
+        output.assets,
+        output.datum ? output.datum.length / 2 : 0,
+        isScript,
+        context.utxoTypes?.[output.address]
+      );
+      minAda.push({
+        outputIndex,
+        address: output.address,
+        requiredMinAda: calculation.requiredMinAda,
+        actualAda: calculation.actualAda,
+        isValid: calculation.isValid
+      });
+      if (!calculation.isValid) {
+        issues.push({
+          severity: 'error',
+          code: 'MIN_ADA',
+          message: `Output ${outputIndex} has ${calculation.actualAda} lovelace, requires ${calculation.requiredMinAda}`,
+          outputIndex
+        });
+      }
+
+      return {
+        txHash,
+        outputIndex,
+        address: output.address,
+        assets: output.assets,
+        datum: output.datum ?? undefined,
+        datumHash: output.datumHash ?? undefined
+      } as UTxO;
+    });
+
+    // Balance changes per address
+    let balanceChanges: Record<Address, Assets> = {};
+    for (const utxo of spent) {
+      balanceChanges[utxo.address] = addAssets(balanceChanges[utxo.address] ?? {}, utxo.assets, -1n);
+    }
+    for (const utxo of created) {
+      balanceChanges[utxo.address] = addAssets(balanceChanges[utxo.address] ?? {}, utxo.assets);
+    }
+    balanceChanges = Object.fromEntries(
+      Object.entries(balanceChanges).filter(([, assets]) => Object.keys(assets).length > 0)
+    );
+
+    // Datum transitions at script addresses
+    const datumTransitions: DatumTransition[] = created
+      .filter(utxo => utxo.datum)
+      .map(utxo => {
+        const previous = spent.find(input => input.address === utxo.address && input.datum);
+        return {
+          address: utxo.address,
+          outputIndex: utxo.outputIndex,
+          before: previous?.datum ? decodeDatum(previous.address, previous.datum) : null,
+          after: decodeDatum(utxo.address, utxo.datum!)
+        };
+      });
+
+    // Domain rules
+    for (const rule of this.rules) {
+      try {
+        issues.push(...rule(description, spent, created, context));
+      } catch (error) {
+        issues.push({
+          severity: 'warning',
+          code: 'RULE_FAILED',
+          message: `Simulation rule threw: ${error instanceof Error ? error.message : 'Unknown error'}`
+        });
+      }
+    }
+
+    const spentKeys = new Set(spent.map(outRefKey));
+    const resultingUtxos = [
+      ...utxoSet.filter(utxo => !spentKeys.has(outRefKey(utxo))),
+      ...created
+    ];
+
+    return {
+      success: !issues.some(issue => issue.severity === 'error'),
+      issues,
+      fee,
+      balanceChanges,
+      datumTransitions,
+      minAda,
+      spent,
+      created,
+      resultingUtxos
+    };
+  }
+}
+
+// =============================================================================
+// BUILT-IN RULES
+// =============================================================================
+
+/**
+ * Pool validator Swap redeemer: constructor 0 (see CIP68Serializer.serializeSwapRedeemer)
+ */
+export function isPoolSwapRedeemer(redeemer: string): boolean {
+  try {
+    const data = Data.from(redeemer);
+    return data instanceof Constr && data.index === 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Constant product rule for the given pool validator addresses: a pool output
+ * must not hold a smaller ADA x token product than the pool input it replaces.
+ * Only pool inputs spent with a swap redeemer are checked, since liquidity
+ * changes legitimately move the product.
+ * @param isSwapRedeemer - Defaults to the pool validator's Swap constructor
+ */
+export function createConstantProductRule(
+  poolAddresses: Address[],
+  isSwapRedeemer: (redeemer: string) => boolean = isPoolSwapRedeemer
+): SimulationRule {
+  return (description, spent, created) => checkConstantProduct(
+    spent.filter(utxo => {
+      if (!poolAddresses.includes(utxo.address) || !utxo.datum) return false;
+      const redeemer = findSpendRedeemer(description, utxo);
+      return redeemer !== undefined && isSwapRedeemer(redeemer.data);
+    }),
+    created
+  );
+}
+
+function checkConstantProduct(swappedPools: UTxO[], created: UTxO[]): SimulationIssue[] {
+  const issues: SimulationIssue[] = [];
+  const product = (assets: Assets): bigint | null => {
+    const tokenUnits = Object.keys(assets).filter(unit => unit !== 'lovelace' && assets[unit] > 1n);
+    if (tokenUnits.length !== 1) return null;
+    return (assets.lovelace || 0n) * assets[tokenUnits[0]];
+  };
+
+  for (const output of created) {
+    if (!output.datum) continue;
+    const input = swappedPools.find(utxo => utxo.address === output.address);
+    if (!input) continue;
+
+    const before = product(input.assets);
+    const after = product(output.assets);
+    if (before !== null && after !== null && after < before) {
+      issues.push({
+        severity: 'error',
+        code: 'INVARIANT_DECREASED',
+        message: `Pool invariant decreased at output ${output.outputIndex}`,
+        outputIndex: output.outputIndex
+      });
+    }
+  }
+
+  return issues;
+}
+
+// =============================================================================
+// CONVENIENCE
+// =============================================================================
+
+/**
+ * Simulate a built transaction against the live UTxOs it spends
+ * Call before sign() so every builder's output can be previewed in the UI.
+ */
+export async function simulateBuiltTransaction(
+  lucid: LucidEvolution,
+  tx: TxSignBuilder,
+  context: SimulationContext = {},
+  options: SimulatorOptions = {}
+): Promise<SimulationResult> {
+  const description = describeTxComplete(tx);
+  const refs = [...description.inputs, ...(description.referenceInputs ?? [])];
+  const utxos: UTxO[] = refs.length > 0 ? await lucid.utxosByOutRef(refs) : [];
+
+  return new TransactionSimulator(options).simulate(description, utxos, {
+    currentSlot: context.currentSlot ?? lucid.currentSlot(),
+    ...context
+  });
+}
+
+/**
+ * Human-readable summary of a simulation, for logs and previews
+ */
+export function formatSimulationResult(result: SimulationResult): string {
+  const lines = [
+    `${result.success ? '✅' : '❌'} Simulation ${result.success ? 'passed' : 'failed'} (fee ${result.fee} lovelace)`
+  ];
+  for (const issue of result.issues) {
+    lines.push(`  ${issue.severity === 'error' ? '✗' : '!'} [${issue.code}] ${issue.message}`);
+  }
+  for (const [address, assets] of Object.entries(result.balanceChanges)) {
+    const changes = Object.entries(assets).map(([unit, amount]) => `${amount > 0n ? '+' : ''}${amount} ${unit}`);
+    lines.push(`  ${address.slice(0, 20)}...: ${changes.join(', ')}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,185 @@
+/**
+ * PuckSwap Admin Multisig Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { CML, credentialToAddress, keyHashToCredential } from '@lucid-evolution/lucid';
+import {
+  AdminMultisigCoordinator,
+  AdminTxStore,
+  PendingAdminTx,
+  createAdminMultisigPolicy,
+  getAdminSigningStatus,
+  selectAdminSigners
+} from '../admin-multisig';
+import { PuckSwapPoolManagerV4, PoolRegistryDatumV4, serializeRegistryDatum, parseRegistryDatum } from '../pool-v4';
+
+class MemoryStore implements AdminTxStore {
+  entries = new Map<string, PendingAdminTx>();
+  async save(pending: PendingAdminTx) { this.entries.set(pending.txHash, pending); }
+  async load(txHash: string) { return this.entries.get(txHash) || null; }
+  async list() { return [...this.entries.values()]; }
+}
+
+const ADMINS = ['aa', 'bb', 'cc'];
+
+// Admin keys and a transaction requiring both of their signatures
+function adminTx() {
+  const keys = [CML.PrivateKey.generate_ed25519(), CML.PrivateKey.generate_ed25519()];
+  const inputs = CML.TransactionInputList.new();
+  inputs.add(CML.TransactionInput.new(CML.TransactionHash.from_hex('dd'.repeat(32)), 0n));
+  const body = CML.TransactionBody.new(inputs, CML.TransactionOutputList.new(), 200_000n);
+  const signers = CML.Ed25519KeyHashList.new();
+  keys.forEach(key => signers.add(key.to_public().hash()));
+  body.set_required_signers(signers);
+
+  const txHash = CML.hash_transaction(body);
+  const witness = (key: CML.PrivateKey) => {
+    const witnesses = CML.VkeywitnessList.new();
+    witnesses.add(CML.make_vkey_witness(txHash, key));
+    const set = CML.TransactionWitnessSet.new();
+    set.set_vkeywitnesses(witnesses);
+    return set.to_cbor_hex();
+  };
+
+  return {
+    keyHashes: keys.map(key => key.to_public().hash().to_hex()),
+    txHash: txHash.to_hex(),
+    txCbor: CML.Transaction.new(body, CML.TransactionWitnessSet.new(), true).to_cbor_hex(),
+    witness: (index: number) => witness(keys[index])
+  };
+}
+
+describe('admin multisig', () => {
+  it('rejects thresholds outside the admin set', () => {
+    expect(() => createAdminMultisigPolicy(ADMINS, 0)).toThrow('between 1 and 3');
+    expect(() => createAdminMultisigPolicy(['aa', 'aa'], 2)).toThrow('between 1 and 1');
+  });
+
+  it('refuses a coordinator threshold above the admin count', () => {
+    const coordinator = new AdminMultisigCoordinator(new MemoryStore(), 3);
+    expect(() => coordinator.createPolicy(['aa', 'bb'])).toThrow('between 1 and 2, got 3');
+  });
+
+  it('selects the proposer and preferred co-signers up to the threshold', () => {
+    const policy = createAdminMultisigPolicy(ADMINS, 2);
+
+    expect(selectAdminSigners(policy, 'cc')).toEqual(['cc', 'aa']);
+    expect(selectAdminSigners(policy, 'aa', ['cc'])).toEqual(['aa', 'cc']);
+    expect(() => selectAdminSigners(policy, 'dd')).toThrow('Only an admin');
+  });
+
+  it('reports missing signatures and refuses to submit below threshold', async () => {
+    const coordinator = new AdminMultisigCoordinator(new MemoryStore(), 2);
+    const policy = coordinator.createPolicy(ADMINS);
+    const pending = await coordinator.propose({
+      action: 'TreasuryConfigUpdate',
+      description: 'Update treasury config',
+      txHash: 'ff',
+      txCbor: '84a0',
+      requiredSigners: ['aa', 'bb'],
+      policy
+    });
+
+    const partial = { ...pending, witnesses: [{ signer: 'aa', witness: 'a0', signedAt: 0 }] };
+    expect(getAdminSigningStatus(partial)).toEqual({ signed: ['aa'], missing: ['bb'], ready: false, expired: false });
+    await expect(coordinator.submit('ff', async () => 'ff')).rejects.toThrow('missing signatures from aa, bb');
+  });
+
+  it('imports an export only when the body and every witness check out', async () => {
+    const tx = adminTx();
+    const source = new AdminMultisigCoordinator(new MemoryStore(), 2);
+    await source.propose({
+      action: 'RegistryPause',
+      description: 'Pause registry',
+      txHash: tx.txHash,
+      txCbor: tx.txCbor,
+      requiredSigners: tx.keyHashes,
+      policy: source.createPolicy(tx.keyHashes)
+    });
+    const exported = source.exportPending(await source.addWitness(tx.txHash, tx.witness(0)));
+    const parsed = JSON.parse(exported);
+
+    const target = new AdminMultisigCoordinator(new MemoryStore(), 2);
+    const imported = await target.importPending(JSON.stringify({ ...parsed, requiredSigners: [tx.keyHashes[0]] }));
+    expect(imported.requiredSigners).toEqual(tx.keyHashes);
+    expect(getAdminSigningStatus(imported).missing).toEqual([tx.keyHashes[1]]);
+
+    await expect(target.importPending(JSON.stringify({ ...parsed, txHash: 'ee'.repeat(32) })))
+      .rejects.toThrow(`does not match transaction ${tx.txHash}`);
+    await expect(target.importPending(JSON.stringify({
+      ...parsed,
+      witnesses: [{ signer: tx.keyHashes[1], witness: tx.witness(0), signedAt: 0 }]
+    }))).rejects.toThrow(`Witness for ${tx.keyHashes[1]} is not a required signature`);
+    await expect(target.importPending(JSON.stringify({ ...parsed, threshold: 1 })))
+      .resolves.toMatchObject({ threshold: 2 });
+  });
+
+  it('proposes a registry pause that re-locks the registry datum and requires both admins', async () => {
+    const tx = adminTx();
+    const [admin, emergencyAdmin] = tx.keyHashes.map(keyHash => credentialToAddress('Preprod', keyHashToCredential(keyHash)));
+    const registry: PoolRegistryDatumV4 = {
+      metadata: { policyId: 'aa'.repeat(28), assetName: 'registry', version: 1 },
+      version: 1,
+      totalPools: 0,
+      activePools: 0,
+      pools: [],
+      governanceAddress: 'addr_test1governance',
+      adminAddress: admin,
+      registryFee: 2_000_000n,
+      minInitialLiquidity: 1_000_000n,
+      paused: false,
+      emergencyAdmin,
+      lastUpdatedSlot: 0,
+      protocolFeeBps: 30,
+      treasuryAddress: 'addr_test1treasury',
+      maxFeeBps: 1000,
+      minFeeBps: 10,
+      supportedTokens: []
+    };
+
+    const calls: { method: string; args: any[] }[] = [];
+    const recorder = (prefix: string): any => new Proxy({}, {
+      get: (_target, method: string) => {
+        if (method === 'complete') {
+          return async () => ({
+            toHash: () => tx.txHash,
+            toCBOR: () => tx.txCbor,
+            partialSign: { withWallet: async () => tx.witness(0) }
+          });
+        }
+        if (!prefix && (method === 'pay' || method === 'attach')) {
+          return recorder(`${method}.`);
+        }
+        return (...args: any[]) => {
+          calls.push({ method: prefix + method, args });
+          return builder;
+        };
+      }
+    });
+    const builder = recorder('');
+    const lucid = {
+      currentSlot: () => 900,
+      utxosAt: async (address: string) => [
+        { txHash: 'dd'.repeat(32), outputIndex: 0, address, assets: { lovelace: 5_000_000n }, datum: serializeRegistryDatum(registry) }
+      ],
+      wallet: () => ({ address: async () => admin }),
+      newTx: () => builder
+    };
+
+    const script = { type: 'PlutusV2' as const, script: '49480100002221200101' };
+    const manager = new PuckSwapPoolManagerV4(lucid as any, script, script, script, 'addr_test1registry');
+    manager.setAdminMultisig(new AdminMultisigCoordinator(new MemoryStore(), 2));
+
+    const pending = await manager.proposeRegistryPause(true, 'incident');
+
+    expect(pending.requiredSigners).toEqual(tx.keyHashes);
+    expect(getAdminSigningStatus(pending).missing).toEqual([tx.keyHashes[1]]);
+    expect(calls.filter(call => call.method === 'addSignerKey').map(call => call.args[0])).toEqual(tx.keyHashes);
+
+    const relock = calls.find(call => call.method === 'pay.ToContract')!;
+    expect(relock.args[0]).toBe('addr_test1registry');
+    expect(parseRegistryDatum(relock.args[1].value)).toMatchObject({ paused: true, lastUpdatedSlot: 900 });
+    expect(calls.find(call => call.method === 'attach.SpendingValidator')!.args).toEqual([script]);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * PuckSwap v4 Concentrated Liquidity Tests
+ *
+ * Tick math, range position accounting and tick-crossing swaps
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  modifyPosition,
+  simulateConcentratedSwap,
+  calculateUncollectedFees
+} from '../concentrated-liquidity';
+import {
+  Q96,
+  getSqrtPriceAtTick,
+  getTickAtSqrtPrice,
+  getAmountsForLiquidity,
+  getLiquidityForAmounts
+} from '../utils/tick-math';
+import { ConcentratedPoolState, RangePositionData } from '../../lib/cip68-types';
+
+function mockPool(): ConcentratedPoolState {
+  return {
+    pool_nft_policy: 'c'.repeat(56),
+    pool_nft_name: 'pool1',
+    token_a_policy: '',
+    token_a_name: '',
+    token_b_policy: 'a'.repeat(56),
+    token_b_name: '5055434b59',
+    position_policy: 'd'.repeat(56),
+    sqrt_price_x96: Q96, // Price 1.0
+    current_tick: 0,
+    liquidity: 0n,
+    fee_bps: 30,
+    tick_spacing: 60,
+    fee_growth_global_a_x128: 0n,
+    fee_growth_global_b_x128: 0n,
+    ticks: [],
+    last_interaction_slot: 0
+  };
+}
+
+function emptyPosition(tickLower: number, tickUpper: number): RangePositionData {
+  return {
+    position_name: 'pos',
+    pool_nft_name: 'pool1',
+    pool_policy: 'c'.repeat(56),
+    tick_lower: tickLower,
+    tick_upper: tickUpper,
+    liquidity: 0n,
+    fee_growth_inside_a_last_x128: 0n,
+    fee_growth_inside_b_last_x128: 0n,
+    tokens_owed_a: 0n,
+    tokens_owed_b: 0n,
+    created_at_slot: 0,
+    last_claim_slot: 0
+  };
+}
+
+describe('tick math', () => {
+  it('round-trips ticks through square root prices', () => {
+    for (const tick of [-887272, -60000, -1, 0, 1, 76012, 887272]) {
+      expect(getTickAtSqrtPrice(getSqrtPriceAtTick(tick))).toBe(tick);
+    }
+  });
+
+  it('converts liquidity to amounts without exceeding the deposit', () => {
+    const lower = getSqrtPriceAtTick(-600);
+    const upper = getSqrtPriceAtTick(600);
+    const liquidity = getLiquidityForAmounts(Q96, lower, upper, 1_000_000n, 1_000_000n);
+    const amounts = getAmountsForLiquidity(Q96, lower, upper, liquidity, false);
+
+    expect(amounts.amountA).toBeLessThanOrEqual(1_000_000n);
+    expect(amounts.amountB).toBeLessThanOrEqual(1_000_000n);
+  });
+});
+
+describe('range positions', () => {
+  it('only activates liquidity for ranges containing the current price', () => {
+    const inRange = modifyPosition(mockPool(), emptyPosition(-600, 600), 1_000_000n);
+    expect(inRange.pool.liquidity).toBe(1_000_000n);
+    expect(inRange.amountA).toBeGreaterThan(0n);
+    expect(inRange.amountB).toBeGreaterThan(0n);
+
+    const above = modifyPosition(mockPool(), emptyPosition(600, 1200), 1_000_000n);
+    expect(above.pool.liquidity).toBe(0n);
+    expect(above.amountB).toBe(0n);
+  });
+
+  it('rejects ticks that are not on the pool spacing', () => {
+    expect(() => modifyPosition(mockPool(), emptyPosition(-50, 600), 1_000n)).toThrow('tick spacing');
+  });
+
+  it('crosses into the next range and splits fees between positions', () => {
+    const first = modifyPosition(mockPool(), emptyPosition(-600, 600), 10_000_000n);
+    const second = modifyPosition(first.pool, emptyPosition(600, 1200), 10_000_000n);
+
+    const quote = simulateConcentratedSwap(second.pool, 600_000n, false);
+    expect(quote.ticksCrossed).toBe(1);
+    expect(quote.tickAfter).toBeGreaterThanOrEqual(600);
+
+    const feesFirst = calculateUncollectedFees(quote.pool, first.position);
+    const feesSecond = calculateUncollectedFees(quote.pool, second.position);
+    expect(feesFirst.feesB).toBeGreaterThan(0n);
+    expect(feesSecond.feesB).toBeGreaterThan(0n);
+    expect(feesFirst.feesB + feesSecond.feesB).toBeLessThanOrEqual(quote.feeAmount);
+  });
+
+  it('fails when the swap exhausts all ranges', () => {
+    const { pool } = modifyPosition(mockPool(), emptyPosition(-600, 600), 1_000_000n);
+    expect(() => simulateConcentratedSwap(pool, 10n ** 15n, false)).toThrow('Insufficient liquidity');
+  });
+});
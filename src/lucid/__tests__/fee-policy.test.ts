@@ -0,0 +1,99 @@
+/**
+ * PuckSwap v4 Dynamic Fee Policy Tests
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  DynamicFeeEngine,
+  calculateDynamicFee,
+  calculateRealizedVolatility,
+  createDefaultFeePolicyConfig
+} from '../fee-policy';
+import { PuckSwapPoolManagerV4, PoolDatumV4, PoolEntryV4, PoolRegistryDatumV4 } from '../pool-v4';
+import type { PoolAnalytics } from '../../context7/pool_monitor';
+
+const BOUNDS = { minFeeBps: 10, maxFeeBps: 100 };
+
+function mockAnalytics(prices: number[], volume24h: bigint = 0n): PoolAnalytics {
+  return {
+    totalValueLocked: 0n,
+    volume24h,
+    volume7d: volume24h,
+    swapCount24h: 0,
+    liquidityProviders: 0,
+    averageSwapSize: 0n,
+    priceHistory: prices.map((price, index) => ({ timestamp: index * 60_000, price })),
+    feeRevenue24h: 0n,
+    impermanentLoss: 0,
+    recentSwaps: []
+  };
+}
+
+describe('dynamic fee policy', () => {
+  it('charges the base fee for a flat, quiet pool', () => {
+    const quote = calculateDynamicFee(mockAnalytics([1, 1, 1, 1]), BOUNDS);
+    expect(quote.feeBps).toBe(createDefaultFeePolicyConfig().baseFeeBps);
+    expect(quote.isDynamic).toBe(true);
+  });
+
+  it('raises the fee with volatility and lowers it with volume', () => {
+    const volatile = calculateDynamicFee(mockAnalytics([1, 1.05, 0.97, 1.04]), BOUNDS);
+    expect(calculateRealizedVolatility(mockAnalytics([1, 1.05, 0.97, 1.04]).priceHistory)).toBeGreaterThan(1);
+    expect(volatile.feeBps).toBeGreaterThan(30);
+
+    const busy = calculateDynamicFee(mockAnalytics([1, 1, 1], 200_000_000_000n), BOUNDS);
+    expect(busy.volumeDiscountBps).toBe(10);
+    expect(busy.feeBps).toBe(20);
+  });
+
+  it('clamps to the registry bounds and falls back without analytics', () => {
+    const wild = calculateDynamicFee(mockAnalytics([1, 2, 0.5, 2]), BOUNDS);
+    expect(wild.feeBps).toBe(100);
+    expect(wild.clamped).toBe(true);
+
+    const fallback = calculateDynamicFee(null, BOUNDS, createDefaultFeePolicyConfig(), 5);
+    expect(fallback.feeBps).toBe(10);
+    expect(fallback.isDynamic).toBe(false);
+  });
+});
+
+describe('v4 swap quotes', () => {
+  const POOL_ADDRESS = 'addr_test1wpool';
+  const entry = { poolId: 'pool_1', poolAddress: POOL_ADDRESS, feeBasisPoints: 30, isActive: true } as PoolEntryV4;
+  const state: PoolDatumV4 = {
+    token_a: '',
+    token_b: 'aa'.repeat(28),
+    token_a_reserve: 1_000_000_000n,
+    token_b_reserve: 2_000_000_000n,
+    lp_token_policy: 'bb'.repeat(28),
+    fee_basis_points: 30n,
+    total_lp_tokens: 1_000_000_000n,
+    created_at: 0n
+  };
+  const params = { poolId: 'pool_1', swapInToken: true, amountIn: 10_000_000n, minAmountOut: 0n, maxSlippage: 5, deadline: 0 };
+
+  function manager(): PuckSwapPoolManagerV4 {
+    const instance = new PuckSwapPoolManagerV4({} as any, {} as any, {} as any, {} as any, 'addr_test1registry');
+    jest.spyOn(instance, 'getPoolRegistry').mockResolvedValue({ pools: [entry], ...BOUNDS } as unknown as PoolRegistryDatumV4);
+    return instance;
+  }
+
+  it('prices against the pool datum reserves at its static fee', async () => {
+    const quote = await manager().quoteSwap(params, state);
+
+    expect(quote).toEqual({ amountOut: 19_743_160n, fee: 30_000n, feeBps: 30, feeQuote: null });
+  });
+
+  it('applies the dynamic fee when an engine is attached', async () => {
+    const instance = manager();
+    instance.setFeeEngine(new DynamicFeeEngine({
+      getPoolAnalytics: address => address === POOL_ADDRESS ? mockAnalytics([1, 2, 0.5, 2]) : null
+    }));
+
+    const quote = await instance.quoteSwap(params, state);
+
+    expect(quote.feeBps).toBe(100);
+    expect(quote.fee).toBe(100_000n);
+    expect(quote.feeQuote?.clamped).toBe(true);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * PuckSwap Governance Executor Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { GovernanceExecutor, GovernanceExecutionTarget } from '../governance-executor';
+import type { GovernanceDatum, Proposal } from '../governance-v4';
+
+const STATE = { adminAddresses: [], paused: false } as unknown as GovernanceDatum;
+
+function proposal(actions: Proposal['actions']): Proposal {
+  return { proposalId: 3, actions, status: 'Queued', executionSlot: 0, executed: false } as unknown as Proposal;
+}
+
+function target(executionTarget: 'registry' | 'treasury'): GovernanceExecutionTarget {
+  return { executionTarget, addGovernanceExecution: async (tx: any) => tx };
+}
+
+describe('governance executor', () => {
+  it('routes each action to the contract it targets', () => {
+    const executor = new GovernanceExecutor([target('registry'), target('treasury')]);
+    const { execution, targets } = executor.resolve(proposal([
+      { type: 'EmergencyPause', parameters: { reason: 'oracle outage' } },
+      { type: 'TreasuryPayout', parameters: { recipient: 'addr_test1grant', amount: 1_000_000n } }
+    ]), STATE);
+
+    expect(targets.map(t => t.executionTarget)).toEqual(['registry', 'treasury']);
+    expect(execution.result.protocolParameters.paused).toBe(true);
+    expect(execution.result.governanceState.paused).toBe(false);
+  });
+
+  it('refuses proposals whose target contract is not wired in', () => {
+    const executor = new GovernanceExecutor([target('registry')]);
+    expect(() => executor.resolve(proposal([
+      { type: 'TreasuryPayout', parameters: { recipient: 'addr_test1grant', amount: 1_000_000n } }
+    ]), STATE)).toThrow('no treasury executor is registered');
+
+    const governanceOnly = executor.resolve(proposal([
+      { type: 'AddGovernanceAdmin', parameters: { admin: 'addr_test1admin' } }
+    ]), STATE);
+    expect(governanceOnly.targets.length).toBe(0);
+  });
+});
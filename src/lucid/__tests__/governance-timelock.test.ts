@@ -0,0 +1,87 @@
+/**
+ * PuckSwap Governance Timelock Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { applyGovernanceActions, getTimelockStatus, previewProposalExecution } from '../governance-timelock';
+import type { GovernanceDatum, Proposal } from '../governance-v4';
+
+const STATE: GovernanceDatum = {
+  metadata: { policyId: 'policy', assetName: 'gov', version: 1 },
+  version: 1,
+  totalProposals: 1,
+  activeProposals: 0,
+  proposals: [],
+  voteRecords: [],
+  governanceTokenPolicy: 'policy',
+  governanceTokenName: 'PUCKY_GOV',
+  treasuryAddress: 'addr_test1treasury',
+  votingPeriodSlots: 604800,
+  executionDelaySlots: 172800,
+  quorumThresholdBps: 1000,
+  approvalThresholdBps: 5000,
+  adminAddresses: ['addr_test1admin'],
+  proposalDeposit: 100_000_000n,
+  minVotingPower: 1_000_000n,
+  paused: false,
+  emergencyAdmin: 'addr_test1emergency',
+  lastUpdatedSlot: 0
+};
+
+function queued(executionSlot: number): Proposal {
+  return {
+    proposalId: 7,
+    proposer: 'addr_test1proposer',
+    actions: [
+      { type: 'UpdateProtocolFee', parameters: { newFeeBps: 25 } },
+      { type: 'TreasuryPayout', parameters: { recipient: 'addr_test1grant', amount: 5_000_000n } },
+      { type: 'UpdateRegistryConfig', parameters: { registryFee: 2_000_000n } }
+    ],
+    title: 'Fee and grant',
+    description: 'Bundle',
+    votesFor: 10n,
+    votesAgainst: 0n,
+    votesAbstain: 0n,
+    totalVotingPower: 10n,
+    createdAtSlot: 0,
+    votingStartSlot: 0,
+    votingEndSlot: 100,
+    executionSlot,
+    status: 'Queued',
+    executed: false,
+    executionTxHash: ''
+  };
+}
+
+describe('governance timelock', () => {
+  it('previews ordered changes against current parameters', () => {
+    const preview = previewProposalExecution(queued(1_000), STATE, 400, { protocolFeeBps: 30 });
+
+    expect(preview.status).toBe('Waiting');
+    expect(preview.slotsUntilExecutable).toBe(600);
+    expect(preview.actions.map(action => action.target)).toEqual(['registry', 'treasury', 'registry']);
+    expect(preview.actions[0].changes).toEqual([{ field: 'protocolFeeBps', before: 30, after: 25 }]);
+    expect(preview.payouts).toEqual([{ recipient: 'addr_test1grant', assets: { lovelace: 5_000_000n } }]);
+  });
+
+  it('opens execution between the ETA and the grace period', () => {
+    expect(getTimelockStatus(queued(1_000), 999)).toBe('Waiting');
+    expect(getTimelockStatus(queued(1_000), 1_000)).toBe('Ready');
+    expect(getTimelockStatus(queued(1_000), 1_000 + 1_209_601)).toBe('Expired');
+    expect(getTimelockStatus({ ...queued(1_000), status: 'Succeeded' }, 2_000)).toBe('NotQueued');
+  });
+
+  it('lets later actions see earlier ones', () => {
+    const result = applyGovernanceActions([
+      { type: 'AddGovernanceAdmin', parameters: { admin: 'addr_test1new' } },
+      { type: 'RemoveGovernanceAdmin', parameters: { admin: 'addr_test1admin' } }
+    ], STATE);
+    expect(result.governanceState.adminAddresses).toEqual(['addr_test1new']);
+    expect(STATE.adminAddresses).toEqual(['addr_test1admin']);
+
+    expect(() => applyGovernanceActions([
+      { type: 'UpdateMinFee', parameters: { newMinFeeBps: 50 } },
+      { type: 'UpdateMaxFee', parameters: { newMaxFeeBps: 40 } }
+    ], STATE)).toThrow('above maximum fee');
+  });
+});
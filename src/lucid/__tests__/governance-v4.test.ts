@@ -0,0 +1,234 @@
+/**
+ * PuckSwap Governance v4 Tests
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { credentialToAddress, keyHashToCredential, mintingPolicyToId, toUnit, fromText, slotToUnixTime } from '@lucid-evolution/lucid';
+import {
+  PuckSwapGovernanceV4,
+  GovernanceDatum,
+  Proposal,
+  serializeGovernanceDatum,
+  parseGovernanceDatum
+} from '../governance-v4';
+import { GovernanceExecutor } from '../governance-executor';
+import { PuckSwapPoolManagerV4, PoolRegistryDatumV4, serializeRegistryDatum, parseRegistryDatum } from '../pool-v4';
+import { PuckSwapTreasuryV4, TreasuryDatum, serializeTreasuryDatum, parseTreasuryDatum } from '../treasury-v4';
+
+// PlutusV2 script that accepts any datum, redeemer and context
+const SCRIPT = { type: 'PlutusV2' as const, script: '49480100002221200101' };
+const GOV_UNIT = toUnit(mintingPolicyToId(SCRIPT), fromText('PUCKY_GOV'));
+const GOVERNANCE_ADDRESS = 'addr_test1governance';
+const REGISTRY_ADDRESS = 'addr_test1registry';
+const TREASURY_ADDRESS = 'addr_test1treasury';
+const VOTER_PKH = 'ab'.repeat(28);
+
+// Same payment key, different stake credentials
+const VOTER_BASE = credentialToAddress('Preprod', keyHashToCredential(VOTER_PKH), keyHashToCredential('cd'.repeat(28)));
+const VOTER_ENTERPRISE = credentialToAddress('Preprod', keyHashToCredential(VOTER_PKH));
+
+const PROPOSAL: Proposal = {
+  proposalId: 1,
+  proposer: 'addr_test1proposer',
+  actions: [
+    { type: 'TreasuryPayout', parameters: { recipient: 'addr_test1grant', amount: 5_000_000n } },
+    { type: 'UpdateProtocolFee', parameters: { newFeeBps: 25 } },
+    { type: 'UpdateRegistryConfig', parameters: { supportedTokens: ['aa'.repeat(28)] } }
+  ],
+  title: 'Grant',
+  description: 'Fund the grant',
+  votesFor: 0n,
+  votesAgainst: 0n,
+  votesAbstain: 0n,
+  totalVotingPower: 0n,
+  createdAtSlot: 100,
+  votingStartSlot: 100,
+  votingEndSlot: 10_000,
+  executionSlot: 0,
+  status: 'Active',
+  executed: false,
+  executionTxHash: ''
+};
+
+const STATE: GovernanceDatum = {
+  metadata: { policyId: 'aa'.repeat(28), assetName: 'gov', version: 1 },
+  version: 1,
+  totalProposals: 1,
+  activeProposals: 1,
+  proposals: [PROPOSAL],
+  voteRecords: [],
+  governanceTokenPolicy: mintingPolicyToId(SCRIPT),
+  governanceTokenName: 'PUCKY_GOV',
+  treasuryAddress: 'addr_test1treasury',
+  votingPeriodSlots: 604800,
+  executionDelaySlots: 172800,
+  quorumThresholdBps: 1000,
+  approvalThresholdBps: 5000,
+  adminAddresses: ['addr_test1admin'],
+  proposalDeposit: 100_000_000n,
+  minVotingPower: 1_000_000n,
+  paused: false,
+  emergencyAdmin: 'addr_test1emergency',
+  lastUpdatedSlot: 0
+};
+
+const REGISTRY: PoolRegistryDatumV4 = {
+  metadata: { policyId: 'aa'.repeat(28), assetName: 'registry', version: 1 },
+  version: 1,
+  totalPools: 0,
+  activePools: 0,
+  pools: [],
+  governanceAddress: GOVERNANCE_ADDRESS,
+  adminAddress: 'addr_test1admin',
+  registryFee: 2_000_000n,
+  minInitialLiquidity: 1_000_000n,
+  paused: false,
+  emergencyAdmin: 'addr_test1emergency',
+  lastUpdatedSlot: 0,
+  protocolFeeBps: 30,
+  treasuryAddress: TREASURY_ADDRESS,
+  maxFeeBps: 1000,
+  minFeeBps: 10,
+  supportedTokens: []
+};
+
+const TREASURY: TreasuryDatum = {
+  metadata: { policyId: 'aa'.repeat(28), assetName: 'treasury', version: 1 },
+  version: 1,
+  totalRevenueCollected: 0n,
+  totalDistributed: 0n,
+  currentBalance: { lovelace: 50_000_000n },
+  revenueRecords: [],
+  distributionRecords: [],
+  lpRewardPercentage: 4000,
+  developmentPercentage: 2000,
+  governancePercentage: 1500,
+  protocolPercentage: 1500,
+  communityPercentage: 1000,
+  governanceAddress: GOVERNANCE_ADDRESS,
+  autoDistributionEnabled: true,
+  distributionThreshold: 1_000_000_000n,
+  adminAddresses: [],
+  emergencyAdmin: 'addr_test1emergency',
+  paused: false,
+  maxSingleDistribution: 10_000_000_000n,
+  dailyDistributionLimit: 50_000_000_000n,
+  lastDistributionSlot: 0,
+  supportedAssets: [{ policy: '', name: '' }]
+};
+
+// Governance instance over a fake lucid whose script UTxOs follow the submitted datums
+function governance(walletAddress: string, state: GovernanceDatum = STATE) {
+  const datums: Record<string, string> = {
+    [GOVERNANCE_ADDRESS]: serializeGovernanceDatum(state),
+    [REGISTRY_ADDRESS]: serializeRegistryDatum(REGISTRY),
+    [TREASURY_ADDRESS]: serializeTreasuryDatum(TREASURY)
+  };
+  const calls: { method: string; args: any[] }[] = [];
+  const wallet = { address: walletAddress };
+
+  const recorder = (prefix: string): any => new Proxy({}, {
+    get: (_target, method: string) => {
+      // Target legs resolve the builder from async functions, so it must not look thenable
+      if (method === 'then') {
+        return undefined;
+      }
+      if (method === 'complete') {
+        return async () => ({ sign: { withWallet: () => ({ complete: async () => ({ submit: async () => `tx_${calls.length}` }) }) } });
+      }
+      if (!prefix && (method === 'pay' || method === 'attach')) {
+        return recorder(`${method}.`);
+      }
+      return (...args: any[]) => {
+        calls.push({ method: prefix + method, args });
+        if (prefix + method === 'pay.ToContract' && args[0] in datums) {
+          datums[args[0]] = args[1].value;
+        }
+        return builder;
+      };
+    }
+  });
+  const builder = recorder('');
+
+  const lucid = {
+    config: () => ({ network: 'Preprod' }),
+    currentSlot: () => 500,
+    utxosAt: async (address: string) => [{
+      txHash: 'aa'.repeat(32),
+      outputIndex: 0,
+      address,
+      assets: { lovelace: address === TREASURY_ADDRESS ? 50_000_000n : 5_000_000n },
+      datum: datums[address]
+    }],
+    wallet: () => ({ address: async () => wallet.address }),
+    newTx: () => builder
+  };
+
+  const gov = new PuckSwapGovernanceV4(lucid as any, SCRIPT, SCRIPT, GOVERNANCE_ADDRESS, TREASURY_ADDRESS);
+  gov.setExecutor(new GovernanceExecutor([
+    new PuckSwapPoolManagerV4(lucid as any, SCRIPT, SCRIPT, SCRIPT, REGISTRY_ADDRESS),
+    new PuckSwapTreasuryV4(lucid as any, SCRIPT, TREASURY_ADDRESS, GOVERNANCE_ADDRESS)
+  ]));
+  gov.setVotingPowerSource({
+    getHolderAssetsAt: async () => new Map([[VOTER_PKH, { [GOV_UNIT]: 2_000_000n }]]),
+    getDelegationsAt: async () => []
+  });
+
+  return {
+    gov,
+    calls,
+    wallet,
+    state: () => parseGovernanceDatum(datums[GOVERNANCE_ADDRESS]),
+    registry: () => parseRegistryDatum(datums[REGISTRY_ADDRESS]),
+    treasury: () => parseTreasuryDatum(datums[TREASURY_ADDRESS])
+  };
+}
+
+describe('governance v4', () => {
+  it('round-trips the governance datum with typed action parameters', () => {
+    const state = { ...STATE, voteRecords: [{ voterPkh: VOTER_PKH, proposalId: 1, voteType: 'Against' as const, votingPower: 7n, votedAtSlot: 300 }] };
+    expect(parseGovernanceDatum(serializeGovernanceDatum(state))).toEqual(state);
+  });
+
+  it('records the vote by payment key hash and rejects a second vote from another address', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const { gov, calls, wallet, state } = governance(VOTER_BASE);
+
+    await gov.castVote({ proposalId: 1, voteType: 'For', votingPower: 2_000_000n });
+
+    const voted = state();
+    expect(voted.voteRecords).toEqual([
+      { voterPkh: VOTER_PKH, proposalId: 1, voteType: 'For', votingPower: 2_000_000n, votedAtSlot: 500 }
+    ]);
+    expect(voted.proposals[0].votesFor).toBe(2_000_000n);
+    expect(voted.proposals[0].totalVotingPower).toBe(2_000_000n);
+    expect(calls.find(call => call.method === 'addSignerKey')!.args).toEqual([VOTER_PKH]);
+
+    wallet.address = VOTER_ENTERPRISE;
+    await expect(gov.castVote({ proposalId: 1, voteType: 'For', votingPower: 2_000_000n }))
+      .rejects.toThrow('User has already voted on this proposal');
+    expect(state().proposals[0].votesFor).toBe(2_000_000n);
+  });
+
+  it('executes a queued proposal against the registry and treasury in one transaction', async () => {
+    const queued: Proposal = { ...PROPOSAL, status: 'Queued', executionSlot: 400 };
+    const { gov, calls, state, registry, treasury } = governance(VOTER_BASE, { ...STATE, proposals: [queued] });
+
+    await gov.executeProposal(1);
+
+    expect(calls.filter(call => call.method === 'pay.ToContract').map(call => call.args[0]).sort()).toEqual([
+      GOVERNANCE_ADDRESS,
+      REGISTRY_ADDRESS,
+      TREASURY_ADDRESS
+    ]);
+    expect(calls.find(call => call.method === 'pay.ToAddress')!.args).toEqual(['addr_test1grant', { lovelace: 5_000_000n }]);
+    expect(calls.find(call => call.method === 'pay.ToContract' && call.args[0] === TREASURY_ADDRESS)!.args[2]).toEqual({ lovelace: 45_000_000n });
+    expect(calls.find(call => call.method === 'validFrom')!.args).toEqual([slotToUnixTime('Preprod', 400)]);
+
+    expect(state().proposals[0]).toMatchObject({ status: 'Executed', executed: true });
+    expect(registry().protocolFeeBps).toBe(25);
+    expect(registry().supportedTokens).toEqual(['aa'.repeat(28)]);
+    expect(treasury().totalDistributed).toBe(5_000_000n);
+    expect(treasury().distributionRecords[0]).toMatchObject({ governanceProposalId: 1, totalAmount: 5_000_000n });
+  });
+});
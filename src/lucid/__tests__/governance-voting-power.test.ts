@@ -0,0 +1,51 @@
+/**
+ * PuckSwap Governance Voting Power Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { buildVotingPowerSnapshot, createVotingPowerConfig } from '../governance-voting-power';
+
+const GOV = 'policy.gov';
+const LP = 'policy.lp';
+const PADA = 'policy.pada';
+
+const CONFIG = createVotingPowerConfig(GOV, [
+  { unit: LP, weightBps: 5_000, label: 'ADA/PUCKY LP' },
+  { unit: PADA, weightBps: 2_500, label: 'pADA' }
+]);
+
+describe('governance voting power', () => {
+  it('weights LP tokens and staked pADA', () => {
+    const snapshot = buildVotingPowerSnapshot(
+      new Map([['alice', { [GOV]: 100n, [LP]: 100n, [PADA]: 400n }]]),
+      [],
+      CONFIG,
+      1_000
+    );
+
+    expect(snapshot.voters.get('alice')!.votingPower).toBe(250n);
+    expect(snapshot.totalVotingPower).toBe(250n);
+  });
+
+  it('moves delegated power to the delegate without double counting', () => {
+    const holders = new Map([
+      ['alice', { [GOV]: 100n }],
+      ['bob', { [GOV]: 50n }],
+      ['carol', { [GOV]: 10n }]
+    ]);
+    const snapshot = buildVotingPowerSnapshot(holders, [
+      { delegator: 'alice', delegate: 'bob', delegatedAtSlot: 500 },
+      { delegator: 'carol', delegate: 'bob', delegatedAtSlot: 2_000 } // After the snapshot
+    ], CONFIG, 1_000);
+
+    expect(snapshot.voters.get('alice')!.votingPower).toBe(0n);
+    expect(snapshot.voters.get('bob')!.votingPower).toBe(150n);
+    expect(snapshot.voters.get('carol')!.votingPower).toBe(10n);
+    expect(snapshot.totalVotingPower).toBe(160n);
+  });
+
+  it('rejects duplicate or negative weights', () => {
+    expect(() => createVotingPowerConfig(GOV, [{ unit: GOV, weightBps: 5_000 }])).toThrow('Duplicate voting weight');
+    expect(() => createVotingPowerConfig(GOV, [{ unit: LP, weightBps: -1 }])).toThrow('Invalid voting weight');
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * PuckSwap Order Keeper Tests
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { Data, validatorToAddress } from '@lucid-evolution/lucid';
+import { CIP68Serializer } from '../../lib/cip68-serializer';
+import { CIP68DatumBuilder, OrderType } from '../../lib/cip68-types';
+import type { PoolInfo } from '../pool-discovery';
+import type { PoolEvent } from '../../context7/pool_monitor';
+import { parseOrderUtxo, findMaxFillAmount, OpenOrder } from '../orders';
+
+const mockDiscoverActivePools = jest.fn<() => Promise<PoolInfo[]>>();
+jest.mock('../pool-discovery', () => ({
+  ...(jest.requireActual('../pool-discovery') as object),
+  discoverActivePools: () => mockDiscoverActivePools()
+}));
+
+import { PuckSwapOrderKeeper, evaluateOrderTrigger } from '../order-keeper';
+
+const POOL_ADDRESS = 'addr_test1pool';
+// PlutusV2 validator that accepts any datum, redeemer and context
+const ORDER_VALIDATOR = { type: 'PlutusV2' as const, script: '49480100002221200101' };
+const ORDER_ADDRESS = validatorToAddress('Preprod', ORDER_VALIDATOR);
+const TOKEN_POLICY = 'aa'.repeat(28);
+const TOKEN_NAME = '50554b4b59';
+
+// 1 ADA buys ~2 tokens at these reserves
+function pool(adaReserve: bigint, tokenReserve: bigint): PoolInfo {
+  return {
+    poolAddress: POOL_ADDRESS,
+    poolNftPolicy: 'bb'.repeat(28),
+    poolNftName: '',
+    tokenPolicy: TOKEN_POLICY,
+    tokenName: TOKEN_NAME,
+    adaReserve,
+    tokenReserve,
+    totalLiquidity: adaReserve,
+    feeBps: 30n,
+    isActive: true
+  } as PoolInfo;
+}
+
+function orderUtxo(txHash: string, orderType: OrderType, inputAmount: bigint, options: {
+  partialFillAllowed?: boolean;
+  deadlineSlot?: number;
+  filledAmount?: bigint;
+} = {}): any {
+  const datum = CIP68DatumBuilder.buildSwapOrderDatum({
+    user: 'addr_test1user',
+    input_policy: '',
+    input_name: '',
+    input_amount: inputAmount,
+    output_policy: TOKEN_POLICY,
+    output_name: TOKEN_NAME,
+    min_output: 0n,
+    deadline_slot: options.deadlineSlot ?? 1_000,
+    order_type: orderType,
+    partial_fill_allowed: options.partialFillAllowed ?? false,
+    filled_amount: options.filledAmount ?? 0n
+  });
+  return {
+    txHash,
+    outputIndex: 0,
+    address: ORDER_ADDRESS,
+    assets: { lovelace: inputAmount + 2_000_000n },
+    datum: Data.to(CIP68Serializer.serializeSwapOrderDatum(datum))
+  };
+}
+
+function openOrder(utxo: any): OpenOrder {
+  return parseOrderUtxo(utxo, 100)!;
+}
+
+function poolEvent(type: PoolEvent['type']): PoolEvent {
+  return { type, poolAddress: POOL_ADDRESS, txHash: `tx_${type}` } as PoolEvent;
+}
+
+// Captures the keeper's listener so tests can deliver pool events
+function fakeMonitor() {
+  const listeners: ((event: PoolEvent) => void)[] = [];
+  return {
+    monitor: {
+      addEventListener: (_type: string, listener: (event: PoolEvent) => void) => listeners.push(listener),
+      removeEventListener: (_type: string, listener: (event: PoolEvent) => void) => listeners.splice(listeners.indexOf(listener), 1)
+    } as any,
+    emit: async (event: PoolEvent) => {
+      listeners.forEach(listener => listener(event));
+      await new Promise(resolve => setTimeout(resolve, 0));
+    },
+    listenerCount: () => listeners.length
+  };
+}
+
+function fakeLucid(orderUtxos: any[]): any {
+  return {
+    currentSlot: () => 100,
+    utxosAt: async (address: string) => (address === ORDER_ADDRESS ? orderUtxos : []),
+    config: () => ({ network: 'Preprod' })
+  };
+}
+
+describe('order triggers', () => {
+  const deep = pool(100_000_000_000n, 200_000_000_000n);
+
+  it('triggers a limit order once the spot price reaches the limit', () => {
+    const reached = evaluateOrderTrigger(deep, openOrder(orderUtxo('tx_limit', { type: 'Limit', price: 1.9 }, 10_000_000n)));
+    expect(reached.triggered).toBe(true);
+    expect(reached.fillAmount).toBe(10_000_000n);
+
+    const below = evaluateOrderTrigger(deep, openOrder(orderUtxo('tx_limit', { type: 'Limit', price: 2.1 }, 10_000_000n)));
+    expect(below.triggered).toBe(false);
+    expect(below.fillAmount).toBe(0n);
+  });
+
+  it('triggers a stop-loss order once the spot price falls to the trigger', () => {
+    const above = evaluateOrderTrigger(deep, openOrder(orderUtxo('tx_stop', { type: 'StopLoss', trigger_price: 1.5 }, 10_000_000n)));
+    expect(above.triggered).toBe(false);
+
+    const fallen = evaluateOrderTrigger(deep, openOrder(orderUtxo('tx_stop', { type: 'StopLoss', trigger_price: 2.5 }, 10_000_000n)));
+    expect(fallen.triggered).toBe(true);
+    expect(fallen.fillAmount).toBe(10_000_000n);
+  });
+
+  it('fills partially up to the depth that still meets the limit price', () => {
+    const shallow = pool(100_000_000n, 200_000_000n);
+    const order = openOrder(orderUtxo('tx_partial', { type: 'Limit', price: 1.9 }, 50_000_000n, { partialFillAllowed: true }));
+
+    const fill = findMaxFillAmount(shallow, order, 1_000_000n);
+    expect(fill).toBeGreaterThan(0n);
+    expect(fill).toBeLessThan(order.remainingInput);
+
+    const allOrNothing = openOrder(orderUtxo('tx_full', { type: 'Limit', price: 1.9 }, 50_000_000n));
+    expect(findMaxFillAmount(shallow, allOrNothing)).toBe(0n);
+  });
+
+  it('refuses market orders', () => {
+    expect(() => evaluateOrderTrigger(deep, openOrder(orderUtxo('tx_market', { type: 'Market' }, 1_000_000n))))
+      .toThrow('Market orders are settled by the batcher');
+  });
+});
+
+describe('order keeper', () => {
+  beforeEach(() => {
+    mockDiscoverActivePools.mockReset();
+  });
+
+  it('re-evaluates orders on pool events and reports executable fills in dry-run mode', async () => {
+    mockDiscoverActivePools.mockResolvedValue([pool(100_000_000_000n, 200_000_000_000n)]);
+    const { monitor, emit, listenerCount } = fakeMonitor();
+    const keeper = new PuckSwapOrderKeeper(fakeLucid([
+      orderUtxo('tx_limit', { type: 'Limit', price: 1.9 }, 10_000_000n),
+      orderUtxo('tx_waiting', { type: 'Limit', price: 2.1 }, 10_000_000n),
+      orderUtxo('tx_expired', { type: 'Limit', price: 1.9 }, 10_000_000n, { deadlineSlot: 50 }),
+      orderUtxo('tx_market', { type: 'Market' }, 10_000_000n)
+    ]), ORDER_VALIDATOR, monitor, { dryRun: true });
+
+    await keeper.start();
+    expect(listenerCount()).toBe(1);
+    await emit(poolEvent('swap'));
+
+    const [report] = keeper.getReports();
+    expect(report.dryRun).toBe(true);
+    expect(report.txHash).toBeUndefined();
+    expect(report.executable.map(fill => fill.order.orderId)).toEqual(['tx_limit#0']);
+    expect(report.expired).toEqual(['tx_expired#0']);
+    expect(report.evaluations.map(evaluation => [evaluation.orderId, evaluation.triggered])).toEqual([
+      ['tx_limit#0', true],
+      ['tx_waiting#0', false]
+    ]);
+
+    keeper.stop();
+    expect(listenerCount()).toBe(0);
+  });
+
+  it('runs again for events that arrive while a run is in progress', async () => {
+    let release!: () => void;
+    mockDiscoverActivePools
+      .mockImplementationOnce(async () => [pool(100_000_000_000n, 200_000_000_000n)])
+      .mockImplementationOnce(() => new Promise(resolve => {
+        release = () => resolve([pool(100_000_000_000n, 200_000_000_000n)]);
+      }))
+      .mockResolvedValue([pool(100_000_000_000n, 200_000_000_000n)]);
+    const { monitor, emit } = fakeMonitor();
+    const keeper = new PuckSwapOrderKeeper(fakeLucid([
+      orderUtxo('tx_limit', { type: 'Limit', price: 1.9 }, 10_000_000n)
+    ]), ORDER_VALIDATOR, monitor, { dryRun: true });
+
+    await keeper.start();
+    await emit(poolEvent('swap'));
+    await emit(poolEvent('add_liquidity'));
+    await emit(poolEvent('EventRolledBack'));
+    expect(keeper.getReports().length).toBe(0);
+
+    release();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    // Both queued events are covered by a single follow-up run
+    expect(keeper.getReports().length).toBe(2);
+    keeper.stop();
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * PuckSwap Batched Swap Order Tests
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { Data, Constr, validatorToAddress } from '@lucid-evolution/lucid';
+import { CIP68Serializer } from '../../lib/cip68-serializer';
+import { CIP68DatumBuilder, OrderType, SwapOrderData } from '../../lib/cip68-types';
+import type { PoolInfo } from '../pool-discovery';
+import { calculatePoolSwapOutput } from '../swap';
+import {
+  parseOrderUtxo,
+  planBatchSettlement,
+  findMaxFillAmount,
+  calculateRequiredOutput,
+  PuckSwapOrderBatcher,
+  ORDER_CONSTANTS,
+  OpenOrder
+} from '../orders';
+
+// PlutusV2 validator that accepts any datum, redeemer and context
+const ORDER_VALIDATOR = { type: 'PlutusV2' as const, script: '49480100002221200101' };
+const ORDER_ADDRESS = validatorToAddress('Preprod', ORDER_VALIDATOR);
+const TOKEN_POLICY = 'aa'.repeat(28);
+const TOKEN_NAME = '50554b4b59';
+
+// 1 ADA buys ~2 tokens at these reserves
+function pool(adaReserve: bigint, tokenReserve: bigint): PoolInfo {
+  return {
+    poolAddress: 'addr_test1pool',
+    poolNftPolicy: 'bb'.repeat(28),
+    poolNftName: '',
+    tokenPolicy: TOKEN_POLICY,
+    tokenName: TOKEN_NAME,
+    adaReserve,
+    tokenReserve,
+    totalLiquidity: adaReserve,
+    feeBps: 30n,
+    isActive: true
+  } as PoolInfo;
+}
+
+function orderData(orderType: OrderType, inputAmount: bigint, overrides: Partial<SwapOrderData> = {}): SwapOrderData {
+  return {
+    user: 'addr_test1user',
+    input_policy: '',
+    input_name: '',
+    input_amount: inputAmount,
+    output_policy: TOKEN_POLICY,
+    output_name: TOKEN_NAME,
+    min_output: 0n,
+    deadline_slot: 1_000,
+    order_type: orderType,
+    partial_fill_allowed: false,
+    filled_amount: 0n,
+    ...overrides
+  };
+}
+
+function orderUtxo(txHash: string, data: SwapOrderData): any {
+  return {
+    txHash,
+    outputIndex: 0,
+    address: ORDER_ADDRESS,
+    assets: { lovelace: data.input_amount + 2_000_000n },
+    datum: Data.to(CIP68Serializer.serializeSwapOrderDatum(CIP68DatumBuilder.buildSwapOrderDatum(data)))
+  };
+}
+
+function openOrder(txHash: string, data: SwapOrderData, slot = 100): OpenOrder {
+  return parseOrderUtxo(orderUtxo(txHash, data), slot)!;
+}
+
+describe('swap orders', () => {
+  describe('order datums', () => {
+    it('round-trips every order type through an order UTxO', () => {
+      const orderTypes: OrderType[] = [
+        { type: 'Market' },
+        { type: 'Limit', price: 1.5 },
+        { type: 'StopLoss', trigger_price: 0.25 }
+      ];
+
+      orderTypes.forEach(orderType => {
+        const data = orderData(orderType, 10_000_000n, {
+          min_output: 15_000_000n,
+          partial_fill_allowed: true,
+          filled_amount: 4_000_000n
+        });
+        const order = parseOrderUtxo(orderUtxo('tx_order', data), 100)!;
+
+        expect(order.orderId).toBe('tx_order#0');
+        expect(order.datum.order_data).toEqual(data);
+        expect(order.remainingInput).toBe(6_000_000n);
+        expect(order.isExpired).toBe(false);
+      });
+    });
+
+    it('marks orders past their deadline as expired', () => {
+      const data = orderData({ type: 'Market' }, 1_000_000n, { deadline_slot: 500 });
+      expect(parseOrderUtxo(orderUtxo('tx_order', data), 500)!.isExpired).toBe(false);
+      expect(parseOrderUtxo(orderUtxo('tx_order', data), 501)!.isExpired).toBe(true);
+    });
+
+    it('ignores filled orders and UTxOs without an order datum', () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      const filled = orderData({ type: 'Market' }, 1_000_000n, { filled_amount: 1_000_000n });
+      expect(parseOrderUtxo(orderUtxo('tx_filled', filled), 100)).toBeNull();
+
+      const utxo = orderUtxo('tx_other', orderData({ type: 'Market' }, 1_000_000n));
+      expect(parseOrderUtxo({ ...utxo, datum: undefined }, 100)).toBeNull();
+      expect(parseOrderUtxo({ ...utxo, datum: 'not cbor' }, 100)).toBeNull();
+      expect(parseOrderUtxo({ ...utxo, datum: Data.to(new Constr(0, [1n])) }, 100)).toBeNull();
+    });
+  });
+
+  describe('batch planning', () => {
+    const deep = pool(1_000_000_000n, 2_000_000_000n);
+
+    it('settles fills in order against the running reserves', () => {
+      const buy = openOrder('tx_buy', orderData({ type: 'Market' }, 10_000_000n));
+      const sell = openOrder('tx_sell', orderData({ type: 'Market' }, 20_000_000n, {
+        input_policy: TOKEN_POLICY,
+        input_name: TOKEN_NAME,
+        output_policy: '',
+        output_name: ''
+      }));
+
+      const plan = planBatchSettlement(deep, [
+        { order: buy, fillAmount: buy.remainingInput },
+        { order: sell, fillAmount: sell.remainingInput }
+      ]);
+
+      const first = calculatePoolSwapOutput(deep.adaReserve, deep.tokenReserve, 10_000_000n, false);
+      const second = calculatePoolSwapOutput(first.newAdaReserve, first.newTokenReserve, 20_000_000n, true);
+      expect(plan.skipped).toEqual([]);
+      expect(plan.fills.map(fill => [fill.order.orderId, fill.outputAmount, fill.isPartial])).toEqual([
+        ['tx_buy#0', first.outputAmount, false],
+        ['tx_sell#0', second.outputAmount, false]
+      ]);
+      expect(plan.newAdaReserve).toBe(second.newAdaReserve);
+      expect(plan.newTokenReserve).toBe(second.newTokenReserve);
+      expect(plan.netAdaDelta).toBe(second.newAdaReserve - deep.adaReserve);
+      expect(plan.netTokenDelta).toBe(second.newTokenReserve - deep.tokenReserve);
+    });
+
+    it('skips fills that cannot settle and leaves the reserves untouched by them', () => {
+      const market = (txHash: string, overrides: Partial<SwapOrderData> = {}) =>
+        openOrder(txHash, orderData({ type: 'Market' }, 10_000_000n, overrides));
+      const otherPair = market('tx_pair', { output_policy: 'cc'.repeat(28) });
+      const expired = market('tx_expired', { deadline_slot: 50 });
+      const oversized = market('tx_oversized');
+      const allOrNothing = market('tx_whole');
+      const belowMin = market('tx_min', { min_output: 30_000_000n });
+
+      const plan = planBatchSettlement(deep, [
+        { order: otherPair, fillAmount: 10_000_000n },
+        { order: expired, fillAmount: 10_000_000n },
+        { order: oversized, fillAmount: 10_000_001n },
+        { order: allOrNothing, fillAmount: 5_000_000n },
+        { order: belowMin, fillAmount: 10_000_000n }
+      ]);
+
+      const output = calculatePoolSwapOutput(deep.adaReserve, deep.tokenReserve, 10_000_000n, false).outputAmount;
+      expect(plan.fills).toEqual([]);
+      expect(plan.skipped).toEqual([
+        { orderId: 'tx_pair#0', reason: 'Order pair does not match pool' },
+        { orderId: 'tx_expired#0', reason: 'Order expired' },
+        { orderId: 'tx_oversized#0', reason: 'Invalid fill amount 10000001' },
+        { orderId: 'tx_whole#0', reason: 'Partial fill not allowed' },
+        { orderId: 'tx_min#0', reason: `Output ${output} below required 30000000` }
+      ]);
+      expect(plan.newAdaReserve).toBe(deep.adaReserve);
+      expect(plan.newTokenReserve).toBe(deep.tokenReserve);
+    });
+
+    it('holds limit orders to their limit price', () => {
+      const met = openOrder('tx_met', orderData({ type: 'Limit', price: 1.9 }, 10_000_000n));
+      const missed = openOrder('tx_missed', orderData({ type: 'Limit', price: 2.1 }, 10_000_000n));
+
+      const plan = planBatchSettlement(deep, [
+        { order: met, fillAmount: met.remainingInput },
+        { order: missed, fillAmount: missed.remainingInput }
+      ]);
+
+      expect(plan.fills.map(fill => fill.order.orderId)).toEqual(['tx_met#0']);
+      expect(plan.fills[0].outputAmount).toBeGreaterThanOrEqual(19_000_000n);
+      expect(plan.skipped[0].orderId).toBe('tx_missed#0');
+      expect(plan.skipped[0].reason).toMatch(/below required 21000000$/);
+    });
+
+    it('reduces a fill to the depth that meets its limit when asked to fill partially', () => {
+      const shallow = pool(100_000_000n, 200_000_000n);
+      const partial = openOrder('tx_partial', orderData({ type: 'Limit', price: 1.9 }, 50_000_000n, { partial_fill_allowed: true }));
+      const whole = openOrder('tx_whole', orderData({ type: 'Limit', price: 1.9 }, 50_000_000n));
+      const fills = [
+        { order: partial, fillAmount: partial.remainingInput },
+        { order: whole, fillAmount: whole.remainingInput }
+      ];
+
+      expect(planBatchSettlement(shallow, fills).fills).toEqual([]);
+
+      const plan = planBatchSettlement(shallow, fills, { minPartialFill: ORDER_CONSTANTS.MIN_PARTIAL_FILL });
+      const maxFill = findMaxFillAmount(shallow, partial, ORDER_CONSTANTS.MIN_PARTIAL_FILL);
+      expect(maxFill).toBeGreaterThan(0n);
+      expect(maxFill).toBeLessThan(partial.remainingInput);
+      expect(plan.fills.map(fill => [fill.order.orderId, fill.fillAmount, fill.isPartial])).toEqual([
+        ['tx_partial#0', maxFill, true]
+      ]);
+      expect(plan.fills[0].outputAmount).toBeGreaterThanOrEqual(calculateRequiredOutput(partial.datum.order_data, maxFill));
+      expect(plan.skipped.map(skip => skip.orderId)).toEqual(['tx_whole#0']);
+
+      // One more unit would break the limit price
+      const over = calculatePoolSwapOutput(shallow.adaReserve, shallow.tokenReserve, maxFill + 1n, false);
+      expect(over.outputAmount).toBeLessThan(calculateRequiredOutput(partial.datum.order_data, maxFill + 1n));
+    });
+  });
+
+  describe('order batcher', () => {
+    it('plans full fills where possible and partial fills for orders that allow them', async () => {
+      const shallow = pool(100_000_000n, 200_000_000n);
+      const utxos = [
+        orderUtxo('tx_partial', orderData({ type: 'Limit', price: 1.7 }, 50_000_000n, { partial_fill_allowed: true, deadline_slot: 900 })),
+        orderUtxo('tx_market', orderData({ type: 'Market' }, 5_000_000n, { deadline_slot: 800 })),
+        orderUtxo('tx_stop', orderData({ type: 'StopLoss', trigger_price: 5 }, 5_000_000n)),
+        orderUtxo('tx_expired', orderData({ type: 'Market' }, 5_000_000n, { deadline_slot: 50 }))
+      ];
+      const lucid = {
+        currentSlot: () => 100,
+        utxosAt: async (address: string) => (address === ORDER_ADDRESS ? utxos : []),
+        config: () => ({ network: 'Preprod' })
+      };
+      const batcher = new PuckSwapOrderBatcher(lucid as any, ORDER_VALIDATOR);
+
+      const plan = await batcher.planBatch(shallow);
+
+      // The market order settles first, so the partial fill is sized against the moved reserves
+      const market = calculatePoolSwapOutput(shallow.adaReserve, shallow.tokenReserve, 5_000_000n, false);
+      const moved = pool(market.newAdaReserve, market.newTokenReserve);
+      const partial = parseOrderUtxo(utxos[0], 100)!;
+      expect(plan.skipped).toEqual([]);
+      expect(plan.fills.map(fill => [fill.order.orderId, fill.fillAmount, fill.isPartial])).toEqual([
+        ['tx_market#0', 5_000_000n, false],
+        ['tx_partial#0', findMaxFillAmount(moved, partial, ORDER_CONSTANTS.MIN_PARTIAL_FILL), true]
+      ]);
+    });
+  });
+});
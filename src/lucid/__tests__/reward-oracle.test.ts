@@ -0,0 +1,48 @@
+/**
+ * PuckSwap Staking Reward Oracle Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { RewardReportHistory, verifyReportQuorum, verifyRewardReports, VerifiedRewardReport } from '../reward-oracle';
+
+const QUORUM = { oraclePublicKeys: ['aa', 'bb', 'cc'], threshold: 2 };
+
+function verified(epoch: number, stakePoolId: string, rewardAmount: bigint, activeStake: bigint): VerifiedRewardReport {
+  return {
+    report: { epoch, stakePoolId, rewardAmount, activeStake, observedSlot: epoch * 432_000 },
+    signatures: [],
+    verification: { valid: true, validSigners: ['aa', 'bb'], rejectedSigners: [], threshold: 2 },
+    verifiedAt: 0
+  };
+}
+
+describe('reward oracle', () => {
+  it('rejects reports signed by unauthorized oracles', () => {
+    const signed = {
+      report: { epoch: 400, stakePoolId: 'pool1', rewardAmount: 1_000_000n, activeStake: 1_000_000_000n, observedSlot: 1 },
+      signatures: [{ publicKey: 'dd', signature: '00' }, { publicKey: 'ee', signature: '00' }]
+    };
+
+    const verification = verifyReportQuorum(signed, QUORUM);
+    expect(verification.valid).toBe(false);
+    expect(verification.rejectedSigners).toEqual(['dd', 'ee']);
+    expect(() => verifyRewardReports([signed], QUORUM)).toThrow('0/2 valid oracle signatures');
+    expect(() => verifyReportQuorum(signed, { ...QUORUM, threshold: 4 })).toThrow('Invalid oracle threshold');
+  });
+
+  it('keeps history newest first and derives yield from verified reports', () => {
+    const history = new RewardReportHistory(3);
+    history.add([
+      verified(400, 'pool1', 500_000n, 1_000_000_000n),
+      verified(401, 'pool1', 500_000n, 1_000_000_000n),
+      verified(401, 'pool2', 500_000n, 1_000_000_000n),
+      verified(402, 'pool1', 500_000n, 1_000_000_000n)
+    ]);
+
+    expect(history.list().map(({ report }) => report.epoch)).toEqual([402, 401, 401]);
+    expect(history.latestEpoch()).toBe(402);
+    // 0.05% per epoch compounded over 73 epochs
+    expect(history.calculateVerifiedApy()!).toBeCloseTo((Math.pow(1.0005, 73) - 1) * 100, 6);
+    expect(new RewardReportHistory().calculateVerifiedApy()).toBe(null);
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * PuckSwap Multi-Hop Router Tests
+ *
+ * Path finding and route comparison across ADA-paired pools
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  ADA_UNIT,
+  findSwapRoutes,
+  findBestRoute,
+  calculateRouteMinOutput,
+  getPoolTokenUnit,
+  buildMultiHopSwapTransaction
+} from '../router';
+import { PoolInfo, serializePoolDatum } from '../pool-discovery';
+
+const PUCKY_POLICY = 'a'.repeat(56);
+const WBTC_POLICY = 'b'.repeat(56);
+
+function mockPool(id: string, tokenPolicy: string, tokenName: string, adaReserve: bigint, tokenReserve: bigint): PoolInfo {
+  return {
+    poolUtxo: {
+      txHash: id.padEnd(64, '0'),
+      outputIndex: 0,
+      address: 'addr_test1wrsdra0xecvtm5tnarj9p6lvukj7p6wskq65hv6w0hpn7mqht39hz',
+      assets: { lovelace: adaReserve, [tokenPolicy + tokenName]: tokenReserve }
+    } as any,
+    poolDatum: {
+      pool_nft_policy: 'c'.repeat(56),
+      pool_nft_name: id,
+      token_policy: tokenPolicy,
+      token_name: tokenName,
+      ada_reserve: adaReserve,
+      token_reserve: tokenReserve,
+      lp_total_supply: 1_000_000n,
+      fee_bps: 30n
+    },
+    poolAddress: 'addr_test1wrsdra0xecvtm5tnarj9p6lvukj7p6wskq65hv6w0hpn7mqht39hz',
+    poolNftPolicy: 'c'.repeat(56),
+    poolNftName: id,
+    tokenPolicy,
+    tokenName,
+    adaReserve,
+    tokenReserve,
+    totalLiquidity: 1_000_000n,
+    feeBps: 30n,
+    isActive: true
+  };
+}
+
+const puckyPool = mockPool('01', PUCKY_POLICY, '5055434b59', 1_000_000_000_000n, 5_000_000_000_000n);
+const wbtcPoolDeep = mockPool('02', WBTC_POLICY, '77425443', 2_000_000_000_000n, 40_000_000n);
+const wbtcPoolShallow = mockPool('03', WBTC_POLICY, '77425443', 100_000_000_000n, 2_000_000n);
+
+describe('PuckSwap Router', () => {
+  describe('findSwapRoutes', () => {
+    it('should return single-hop routes for ADA -> token', () => {
+      const routes = findSwapRoutes([puckyPool, wbtcPoolDeep], {
+        unitIn: ADA_UNIT,
+        unitOut: getPoolTokenUnit(puckyPool),
+        amountIn: 10_000_000n
+      });
+
+      expect(routes).toHaveLength(1);
+      expect(routes[0].hops).toHaveLength(1);
+      expect(routes[0].hops[0].swapInToken).toBe(false);
+    });
+
+    it('should route token -> token through ADA', () => {
+      const routes = findSwapRoutes([puckyPool, wbtcPoolDeep], {
+        unitIn: getPoolTokenUnit(puckyPool),
+        unitOut: getPoolTokenUnit(wbtcPoolDeep),
+        amountIn: 50_000_000n
+      });
+
+      expect(routes).toHaveLength(1);
+      expect(routes[0].path).toEqual([
+        getPoolTokenUnit(puckyPool),
+        ADA_UNIT,
+        getPoolTokenUnit(wbtcPoolDeep)
+      ]);
+      expect(routes[0].hops[1].amountIn).toBe(routes[0].hops[0].amountOut);
+    });
+
+    it('should return no routes when assets are not connected', () => {
+      const routes = findSwapRoutes([puckyPool], {
+        unitIn: getPoolTokenUnit(puckyPool),
+        unitOut: getPoolTokenUnit(wbtcPoolDeep),
+        amountIn: 50_000_000n
+      });
+
+      expect(routes).toHaveLength(0);
+    });
+
+    it('should reject identical input and output assets', () => {
+      expect(() => findSwapRoutes([puckyPool], {
+        unitIn: ADA_UNIT,
+        unitOut: ADA_UNIT,
+        amountIn: 1n
+      })).toThrow('Input and output assets must differ');
+    });
+  });
+
+  describe('findBestRoute', () => {
+    it('should prefer the deeper pool for the final hop', () => {
+      const best = findBestRoute([puckyPool, wbtcPoolShallow, wbtcPoolDeep], {
+        unitIn: getPoolTokenUnit(puckyPool),
+        unitOut: getPoolTokenUnit(wbtcPoolDeep),
+        amountIn: 500_000_000_000n
+      });
+
+      expect(best).not.toBeNull();
+      expect(best!.hops[1].pool.poolNftName).toBe('02');
+    });
+
+    it('should compound price impact across hops', () => {
+      const best = findBestRoute([puckyPool, wbtcPoolDeep], {
+        unitIn: getPoolTokenUnit(puckyPool),
+        unitOut: getPoolTokenUnit(wbtcPoolDeep),
+        amountIn: 500_000_000_000n
+      })!;
+
+      expect(best.priceImpact).toBeGreaterThan(best.hops[0].priceImpact);
+      expect(best.priceImpact).toBeGreaterThan(best.hops[1].priceImpact);
+    });
+  });
+
+  describe('calculateRouteMinOutput', () => {
+    it('should apply slippage tolerance to the final output', () => {
+      const best = findBestRoute([puckyPool], {
+        unitIn: ADA_UNIT,
+        unitOut: getPoolTokenUnit(puckyPool),
+        amountIn: 10_000_000n
+      })!;
+
+      expect(calculateRouteMinOutput(best, 100)).toBe((best.amountOut * 9900n) / 10000n);
+    });
+  });
+
+  describe('buildMultiHopSwapTransaction', () => {
+    const validator = { type: 'PlutusV2' as const, script: '' };
+
+    // Serves the pool NFT's current UTxO with the given reserves and records outputs
+    function lucidWithReserves(pool: PoolInfo, adaReserve: bigint, tokenReserve: bigint | null): any {
+      const outputs: any[] = [];
+      const tx: any = {
+        collectFrom: () => tx,
+        pay: {
+          ToContract: (address: string, datum: any, assets: any) => { outputs.push({ address, datum, assets }); return tx; },
+          ToAddress: (address: string, assets: any) => { outputs.push({ address, assets }); return tx; }
+        },
+        attach: { SpendingValidator: () => tx },
+        validTo: () => tx,
+        complete: async () => ({ outputs })
+      };
+      return {
+        utxosAtWithUnit: async () => tokenReserve === null ? [] : [{
+          ...pool.poolUtxo,
+          assets: { lovelace: adaReserve, [getPoolTokenUnit(pool)]: tokenReserve, [pool.poolNftPolicy + pool.poolNftName]: 1n },
+          datum: serializePoolDatum({ ...pool.poolDatum, ada_reserve: adaReserve, token_reserve: tokenReserve })
+        }],
+        config: () => ({}),
+        newTx: () => tx
+      };
+    }
+
+    const route = findBestRoute([puckyPool], {
+      unitIn: ADA_UNIT,
+      unitOut: getPoolTokenUnit(puckyPool),
+      amountIn: 10_000_000_000n
+    })!;
+    const params = {
+      route,
+      minAmountOut: calculateRouteMinOutput(route, 100),
+      userAddress: 'addr_test1user',
+      poolValidator: validator
+    };
+
+    it('should re-quote against the pool UTxO current reserves', async () => {
+      // Half the token depth moves the output well past 1% slippage
+      const lucid = lucidWithReserves(puckyPool, puckyPool.adaReserve, puckyPool.tokenReserve / 2n);
+      await expect(buildMultiHopSwapTransaction(lucid, params)).rejects.toThrow(/Insufficient output amount/);
+    });
+
+    it('should reject routes through pools that are no longer live', async () => {
+      const lucid = lucidWithReserves(puckyPool, puckyPool.adaReserve, null);
+      await expect(buildMultiHopSwapTransaction(lucid, params)).rejects.toThrow(/no longer active/);
+    });
+
+    it('should pay the pool and user from the fresh quote', async () => {
+      // Slightly deeper than when routed, so the user receives more than quoted
+      const tokenReserve = puckyPool.tokenReserve + 1_000_000n;
+      const lucid = lucidWithReserves(puckyPool, puckyPool.adaReserve, tokenReserve);
+      const { outputs } = await buildMultiHopSwapTransaction(lucid, params) as any;
+
+      const amountOut = outputs[1].assets[getPoolTokenUnit(puckyPool)];
+      expect(amountOut).toBeGreaterThan(route.amountOut);
+      expect(outputs[0].datum.kind).toBe('inline');
+      expect(outputs[0].assets.lovelace).toBe(puckyPool.adaReserve + route.amountIn);
+      expect(outputs[0].assets[getPoolTokenUnit(puckyPool)]).toBe(tokenReserve - amountOut);
+      expect(outputs[1].address).toBe('addr_test1user');
+      expect(outputs[1].assets.lovelace).toBeGreaterThan(0n);
+    });
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * PuckSwap Split-Order Router Tests
+ *
+ * Orders split across v4 registry pools for the same pair, built and
+ * submitted against the ledger emulator
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import {
+  Lucid,
+  Data,
+  Constr,
+  generateSeedPhrase,
+  scriptHashToCredential,
+  validatorToAddress,
+  validatorToScriptHash
+} from '@lucid-evolution/lucid';
+import { PuckSwapLedgerEmulator } from '../../lib/ledger-emulator';
+import { PuckSwapPoolManagerV4, PoolEntryV4, PoolRegistryDatumV4 } from '../pool-v4';
+import {
+  quoteSplitSwap,
+  loadSplitPools,
+  calculateSplitSwap,
+  buildSplitSwapTransaction,
+  executeSplitSwap
+} from '../split-router';
+
+// PlutusV2 validator that accepts any datum, redeemer and context
+const POOL_VALIDATOR = { type: 'PlutusV2' as const, script: '49480100002221200101' };
+const TOKEN_POLICY = 'aa'.repeat(28);
+const TOKEN_NAME = '50554b4b59';
+const TOKEN = TOKEN_POLICY + TOKEN_NAME;
+const OTHER = 'cc'.repeat(28) + '4f54484552';
+const ADA = 1_000_000n;
+
+// Pools share the validator and differ by stake credential
+function poolAddress(index: number): string {
+  return validatorToAddress('Preprod', POOL_VALIDATOR, scriptHashToCredential(index.toString(16).padStart(56, '0')));
+}
+
+function entry(poolId: string, index: number, tokenA: string, tokenB: string): PoolEntryV4 {
+  const [aPolicy, aName] = tokenA === '' ? ['', ''] : [tokenA.slice(0, 56), tokenA.slice(56)];
+  const [bPolicy, bName] = tokenB === '' ? ['', ''] : [tokenB.slice(0, 56), tokenB.slice(56)];
+  return {
+    poolId,
+    poolAddress: poolAddress(index),
+    tokenAPolicy: aPolicy,
+    tokenAName: aName,
+    tokenBPolicy: bPolicy,
+    tokenBName: bName,
+    feeBasisPoints: 30,
+    isActive: true
+  } as PoolEntryV4;
+}
+
+// Pool UTxO holding its reserves under a v4 pool datum
+function seedPool(emulator: PuckSwapLedgerEmulator, pool: PoolEntryV4, reserveA: bigint, reserveB: bigint) {
+  const tokenA = pool.tokenAPolicy + pool.tokenAName;
+  const tokenB = pool.tokenBPolicy + pool.tokenBName;
+  const assets: Record<string, bigint> = { lovelace: 2n * ADA };
+  assets[tokenA || 'lovelace'] = (assets[tokenA || 'lovelace'] || 0n) + reserveA;
+  assets[tokenB || 'lovelace'] = (assets[tokenB || 'lovelace'] || 0n) + reserveB;
+  const datum = Data.to(new Constr(0, [tokenA, tokenB, reserveA, reserveB, 'bb'.repeat(28), 30n, 1_000n * ADA, 0n]));
+  return emulator.addUtxo(pool.poolAddress, assets, datum);
+}
+
+const DEEP = entry('pool_deep', 1, '', TOKEN);
+const SHALLOW = entry('pool_shallow', 2, '', TOKEN);
+const REVERSED = entry('pool_reversed', 3, TOKEN, '');
+const UNRELATED = entry('pool_other', 4, '', OTHER);
+
+async function setup() {
+  const emulator = new PuckSwapLedgerEmulator();
+  seedPool(emulator, DEEP, 10_000n * ADA, 20_000n * ADA);
+  seedPool(emulator, SHALLOW, 2_000n * ADA, 4_000n * ADA);
+  seedPool(emulator, REVERSED, 6_000n * ADA, 3_000n * ADA);
+  seedPool(emulator, UNRELATED, 1_000n * ADA, 1_000n * ADA);
+
+  const lucid = await Lucid(emulator, 'Preprod');
+  lucid.selectWallet.fromSeed(generateSeedPhrase());
+  const userAddress = await lucid.wallet().address();
+  emulator.addUtxo(userAddress, { lovelace: 5_000n * ADA });
+
+  const manager = new PuckSwapPoolManagerV4(lucid, {} as any, POOL_VALIDATOR, {} as any, 'addr_test1registry');
+  jest.spyOn(manager, 'getPoolRegistry').mockResolvedValue({
+    pools: [DEEP, SHALLOW, REVERSED, UNRELATED],
+    minFeeBps: 10,
+    maxFeeBps: 100
+  } as unknown as PoolRegistryDatumV4);
+
+  return { emulator, lucid, manager, userAddress };
+}
+
+describe('split-order router', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('splits an order across every registry pool for the pair', async () => {
+    const { manager } = await setup();
+
+    const quote = await quoteSplitSwap(manager, 'lovelace', TOKEN, 500n * ADA);
+
+    expect(quote.allocations.map(a => a.pool.entry.poolId).sort()).toEqual(['pool_deep', 'pool_reversed', 'pool_shallow']);
+    expect(quote.allocations.find(a => a.pool.entry.poolId === 'pool_reversed')!.pool.swapInToken).toBe(false);
+    expect(quote.allocations.reduce((sum, a) => sum + a.amountIn, 0n)).toBe(500n * ADA);
+    expect(quote.amountOut).toBe(quote.allocations.reduce((sum, a) => sum + a.amountOut, 0n));
+    expect(quote.amountOut).toBeGreaterThan(quote.bestSinglePoolOutput);
+
+    // The deepest pool takes the largest share
+    const byPool = Object.fromEntries(quote.allocations.map(a => [a.pool.entry.poolId, a.amountIn]));
+    expect(byPool.pool_deep).toBeGreaterThan(byPool.pool_reversed);
+    expect(byPool.pool_reversed).toBeGreaterThan(byPool.pool_shallow);
+  });
+
+  it('folds allocations below the minimum into the largest pool', async () => {
+    const { manager } = await setup();
+    const pools = await loadSplitPools(manager, 'lovelace', TOKEN);
+
+    const quote = calculateSplitSwap(manager, pools, 'lovelace', TOKEN, 500n * ADA, { minAllocation: 200n * ADA });
+
+    expect(quote.allocations.map(a => [a.pool.entry.poolId, a.amountIn])).toEqual([['pool_deep', 500n * ADA]]);
+    expect(() => calculateSplitSwap(manager, [], 'lovelace', OTHER + '00', ADA)).toThrow('No active pools found');
+  });
+
+  it('submits one transaction spending every chosen pool and reports the breakdown', async () => {
+    const { emulator, lucid, manager, userAddress } = await setup();
+
+    const result = await executeSplitSwap(lucid, manager, {
+      sellUnit: 'lovelace',
+      buyUnit: TOKEN,
+      amountIn: 500n * ADA,
+      minAmountOut: 0n,
+      userAddress
+    });
+
+    expect(result.poolBreakdown!.map(pool => pool.poolId).sort()).toEqual(['pool_deep', 'pool_reversed', 'pool_shallow']);
+    const received = (await emulator.getUtxos(userAddress))
+      .filter(utxo => utxo.txHash === result.txHash)
+      .reduce((sum, utxo) => sum + (utxo.assets[TOKEN] || 0n), 0n);
+    expect(received).toBe(result.actualOutput);
+
+    // Each pool now holds its new reserves under an updated datum
+    const fresh = await loadSplitPools(manager, 'lovelace', TOKEN);
+    for (const breakdown of result.poolBreakdown!) {
+      const pool = fresh.find(candidate => candidate.entry.poolId === breakdown.poolId)!;
+      expect(pool.utxo.txHash).toBe(result.txHash);
+      const tokenReserve = pool.swapInToken ? pool.state.token_b_reserve : pool.state.token_a_reserve;
+      expect(pool.utxo.assets[TOKEN]).toBe(tokenReserve);
+    }
+  });
+
+  it('re-quotes against fresh reserves when building', async () => {
+    const { lucid, manager, userAddress } = await setup();
+    const stale = await quoteSplitSwap(manager, 'lovelace', TOKEN, 500n * ADA);
+
+    // Another swap moves the reserves before the user builds
+    await executeSplitSwap(lucid, manager, {
+      sellUnit: 'lovelace',
+      buyUnit: TOKEN,
+      amountIn: 1_000n * ADA,
+      minAmountOut: 0n,
+      userAddress
+    });
+
+    const params = { sellUnit: 'lovelace', buyUnit: TOKEN, amountIn: 500n * ADA, userAddress };
+    await expect(buildSplitSwapTransaction(lucid, manager, { ...params, minAmountOut: stale.amountOut }))
+      .rejects.toThrow('Insufficient output amount');
+
+    const { quote } = await buildSplitSwapTransaction(lucid, manager, { ...params, minAmountOut: 0n });
+    expect(quote.amountOut).toBeLessThan(stale.amountOut);
+    quote.allocations.forEach(allocation => {
+      const before = stale.allocations.find(a => a.pool.entry.poolId === allocation.pool.entry.poolId)!;
+      expect(allocation.pool.utxo.txHash).not.toBe(before.pool.utxo.txHash);
+    });
+  });
+});
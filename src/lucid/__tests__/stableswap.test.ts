@@ -0,0 +1,119 @@
+/**
+ * PuckSwap StableSwap Curve Tests
+ *
+ * Invariant solving, pegged-pair swaps and invariant-based LP minting
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  getStableInvariant,
+  getStableY,
+  calculateStableSwapOutput,
+  calculateStableLiquidityProvision
+} from '../utils/stableswap-math';
+import { calculateSwapOutput } from '../swap';
+import { discoverActivePools, parsePoolDatum, serializePoolDatum, PoolDatum } from '../pool-discovery';
+import { POOL_TYPES } from '../../lib/cip68-types';
+
+const RESERVE = 1_000_000_000_000n; // 1M ADA each side
+const SWAP_ADDRESS = 'addr_test1wswap';
+
+jest.mock('../utils/contractAddresses', () => ({
+  ...(jest.requireActual('../utils/contractAddresses') as object),
+  contractAddresses: { validators: { swap: 'addr_test1wswap' } }
+}));
+
+describe('StableSwap invariant', () => {
+  it('equals the sum of reserves at the peg', () => {
+    expect(getStableInvariant(RESERVE, RESERVE, 100n)).toBe(2n * RESERVE);
+  });
+
+  it('recovers the other reserve from the invariant', () => {
+    const d = getStableInvariant(RESERVE, RESERVE / 2n, 100n);
+    const y = getStableY(RESERVE, d, 100n);
+    const diff = y > RESERVE / 2n ? y - RESERVE / 2n : RESERVE / 2n - y;
+    expect(diff).toBeLessThanOrEqual(2n);
+  });
+
+  it('rejects amplification outside the allowed range', () => {
+    expect(() => getStableInvariant(RESERVE, RESERVE, 0n)).toThrow('Amplification');
+  });
+});
+
+describe('StableSwap swaps', () => {
+  it('trades near 1:1 with far less slippage than constant product', () => {
+    const amountIn = 10_000_000_000n; // 1% of the pool
+    const stable = calculateStableSwapOutput(RESERVE, RESERVE, amountIn, false, 100n, 4n);
+    const constantProduct = calculateSwapOutput(RESERVE, RESERVE, amountIn, false);
+
+    expect(stable.outputAmount).toBeGreaterThan(constantProduct.outputAmount);
+    expect(stable.outputAmount).toBeGreaterThan((amountIn * 9990n) / 10000n);
+    expect(stable.priceImpact).toBeLessThan(0.1);
+  });
+
+  it('never decreases the invariant', () => {
+    const before = getStableInvariant(RESERVE, RESERVE / 3n, 50n);
+    const result = calculateStableSwapOutput(RESERVE, RESERVE / 3n, 25_000_000_000n, true, 50n, 4n);
+    const after = getStableInvariant(result.newAdaReserve, result.newTokenReserve, 50n);
+    expect(after).toBeGreaterThanOrEqual(before);
+  });
+});
+
+describe('StableSwap liquidity', () => {
+  it('mints proportionally for balanced deposits', () => {
+    const supply = 2n * RESERVE;
+    const { lpTokensMinted, imbalanceFeeAda } = calculateStableLiquidityProvision(
+      RESERVE, RESERVE, supply, 1_000_000n, 1_000_000n, 100n, 4n
+    );
+    expect(lpTokensMinted).toBe(2_000_000n);
+    expect(imbalanceFeeAda).toBe(0n);
+  });
+
+  it('charges a fee on one-sided deposits', () => {
+    const supply = 2n * RESERVE;
+    const balanced = calculateStableLiquidityProvision(RESERVE, RESERVE, supply, 1_000_000n, 1_000_000n, 100n, 4n);
+    const oneSided = calculateStableLiquidityProvision(RESERVE, RESERVE, supply, 2_000_000n, 1n, 100n, 4n);
+
+    expect(oneSided.imbalanceFeeAda).toBeGreaterThan(0n);
+    expect(oneSided.lpTokensMinted).toBeLessThan(balanced.lpTokensMinted);
+  });
+});
+
+describe('StableSwap pool discovery', () => {
+  const datum: PoolDatum = {
+    pool_nft_policy: 'bb'.repeat(28),
+    pool_nft_name: '504f4f4c',
+    token_policy: 'aa'.repeat(28),
+    token_name: '55534443',
+    ada_reserve: RESERVE,
+    token_reserve: RESERVE,
+    lp_total_supply: 2n * RESERVE,
+    fee_bps: 4n,
+    curve: { pool_type: POOL_TYPES.STABLESWAP, amplification: 100n }
+  };
+
+  function poolUtxo(poolDatum: string): any {
+    return {
+      txHash: 'ee'.repeat(32),
+      outputIndex: 0,
+      address: SWAP_ADDRESS,
+      assets: { lovelace: RESERVE, [`${datum.pool_nft_policy}${datum.pool_nft_name}`]: 1n },
+      datum: poolDatum
+    };
+  }
+
+  it('round-trips the curve through the pool datum', () => {
+    expect(parsePoolDatum(serializePoolDatum(datum))).toEqual(datum);
+
+    const { curve, ...constantProduct } = datum;
+    expect(parsePoolDatum(serializePoolDatum(constantProduct))).toEqual(constantProduct);
+  });
+
+  it('reads the curve of discovered pools and skips invalid amplification', async () => {
+    const invalid = serializePoolDatum({ ...datum, curve: { pool_type: POOL_TYPES.STABLESWAP, amplification: 0n } });
+    const lucid: any = { utxosAt: async () => [poolUtxo(serializePoolDatum(datum)), poolUtxo(invalid)] };
+
+    const pools = await discoverActivePools(lucid);
+    expect(pools.map(pool => pool.curve)).toEqual([{ pool_type: POOL_TYPES.STABLESWAP, amplification: 100n }]);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * PuckSwap Multi-Pool Delegation Tests
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { Data, Constr, fromText } from '@lucid-evolution/lucid';
+
+const mockLucid: { current: any } = { current: null };
+jest.mock('../../lib/lucid-config', () => ({
+  createLucidInstance: async () => mockLucid.current,
+  connectWallet: async () => {}
+}));
+
+import {
+  EqualWeightStrategy,
+  PerformanceWeightedStrategy,
+  GovernanceWeightStrategy,
+  planDelegationRebalance,
+  serializeVaultDatum,
+  parseVaultDatum,
+  DelegationVaultState,
+  DelegationVaultConfig,
+  DELEGATION_CONSTANTS
+} from '../staking-delegation';
+import { rebalanceDelegation } from '../staking';
+
+const ADA = 1_000_000n;
+
+function vault(poolId: string | null, balance: bigint): DelegationVaultState {
+  return {
+    config: { vaultAddress: `addr_test1${poolId}`, rewardAddress: `stake_test1${poolId}`, stakeValidatorCbor: '' },
+    utxo: null,
+    datum: poolId ? { pool_id: poolId, weight_bps: 0 } : null,
+    balance
+  };
+}
+
+describe('delegation strategies', () => {
+  it('splits weight evenly and sums to 100%', () => {
+    const weights = new EqualWeightStrategy().computeWeights([{ poolId: 'a' }, { poolId: 'b' }, { poolId: 'c' }]);
+    expect(weights.map(w => w.weightBps).sort()).toEqual([3333, 3333, 3334]);
+  });
+
+  it('caps performance-weighted pools', () => {
+    const weights = new PerformanceWeightedStrategy(5_000).computeWeights([
+      { poolId: 'a', performance: 0.98 },
+      { poolId: 'b', performance: 0.1 },
+      { poolId: 'c', performance: 0.1 }
+    ]);
+    expect(weights.find(w => w.poolId === 'a')!.weightBps).toBe(5_000);
+    expect(weights.reduce((sum, w) => sum + w.weightBps, 0)).toBe(DELEGATION_CONSTANTS.TOTAL_WEIGHT_BPS);
+  });
+
+  it('rejects governance weights that do not sum to 100%', () => {
+    expect(() => new GovernanceWeightStrategy().computeWeights([{ poolId: 'a', governanceWeightBps: 6_000 }]))
+      .toThrow('must sum');
+  });
+});
+
+describe('rebalance planning', () => {
+  it('keeps existing delegations and preserves total value', () => {
+    const vaults = [vault('a', 900_000_000n), vault('b', 100_000_000n)];
+    const plan = planDelegationRebalance(vaults, [
+      { poolId: 'a', weightBps: 5_000 },
+      { poolId: 'b', weightBps: 5_000 }
+    ]);
+
+    expect(plan.targets.every(t => !t.redelegate)).toBe(true);
+    expect(plan.targets[0].targetBalance).toBe(500_000_000n);
+    expect(plan.targets.reduce((sum, t) => sum + t.targetBalance, 0n)).toBe(plan.totalStaked);
+    expect(plan.isBalanced).toBe(false);
+  });
+
+  it('redelegates a vault when its pool leaves the allocation', () => {
+    const plan = planDelegationRebalance([vault('a', 500_000_000n), vault('old', 500_000_000n)], [
+      { poolId: 'a', weightBps: 5_000 },
+      { poolId: 'new', weightBps: 5_000 }
+    ]);
+    expect(plan.targets[1].poolId).toBe('new');
+    expect(plan.targets[1].redelegate).toBe(true);
+  });
+
+  it('sweeps liquid staking ADA above the reserve into the vaults', () => {
+    const plan = planDelegationRebalance([vault('a', 100n * ADA), vault('b', 100n * ADA)], [
+      { poolId: 'a', weightBps: 5_000 },
+      { poolId: 'b', weightBps: 5_000 }
+    ], { liquid: 300n * ADA, reserve: 50n * ADA });
+
+    expect(plan.totalStaked).toBe(500n * ADA);
+    expect(plan.stakingTarget).toBe(50n * ADA);
+    expect(plan.stakingDelta).toBe(-250n * ADA);
+    expect(plan.targets.map(t => t.targetBalance)).toEqual([225n * ADA, 225n * ADA]);
+    expect(plan.targets.reduce((sum, t) => sum + t.targetBalance, plan.stakingTarget)).toBe(plan.totalStaked);
+  });
+
+  it('pulls vault ADA back when the staking reserve runs short', () => {
+    const plan = planDelegationRebalance([vault('a', 300n * ADA), vault('b', 300n * ADA)], [
+      { poolId: 'a', weightBps: 5_000 },
+      { poolId: 'b', weightBps: 5_000 }
+    ], { liquid: 0n, reserve: 100n * ADA });
+
+    expect(plan.stakingDelta).toBe(100n * ADA);
+    expect(plan.targets.map(t => t.delta)).toEqual([-50n * ADA, -50n * ADA]);
+    expect(plan.isBalanced).toBe(false);
+    expect(() => planDelegationRebalance([vault('a', 3n * ADA)], [{ poolId: 'a', weightBps: 10_000 }], { liquid: 0n, reserve: 2n * ADA }))
+      .toThrow('does not cover vault minimum ADA and the staking reserve');
+  });
+});
+
+describe('delegation rebalance transaction', () => {
+  const STAKING = 'addr_test1staking';
+  const VAULTS: DelegationVaultConfig[] = ['a', 'b'].map(poolId => ({
+    vaultAddress: `addr_test1vault_${poolId}`,
+    rewardAddress: `stake_test1${poolId}`,
+    stakeValidatorCbor: ''
+  }));
+
+  function stakingUtxo(lovelace: bigint, totalStaked: bigint): any {
+    return {
+      txHash: 'staking',
+      outputIndex: 0,
+      address: STAKING,
+      assets: { lovelace },
+      datum: Data.to(new Constr(0, [totalStaked, 100n * ADA, fromText('pool1'), 0n]))
+    };
+  }
+
+  function vaultUtxo(config: DelegationVaultConfig, poolId: string, lovelace: bigint): any {
+    return {
+      txHash: `vault_${poolId}`,
+      outputIndex: 0,
+      address: config.vaultAddress,
+      assets: { lovelace },
+      datum: serializeVaultDatum({ pool_id: poolId, weight_bps: 5_000 })
+    };
+  }
+
+  // Records the calls made on each transaction built against it (pay.ToContract, attach.SpendingValidator, ...)
+  function fakeLucid(utxos: Record<string, any[]>) {
+    const calls: { method: string; args: any[] }[] = [];
+    const recorder = (prefix: string): any => new Proxy({}, {
+      get: (_target, method: string) => {
+        if (method === 'complete') {
+          return async () => ({ sign: { withWallet: () => ({ complete: async () => ({ submit: async () => 'tx_rebalance' }) }) } });
+        }
+        if (!prefix && ['pay', 'attach', 'register', 'delegate'].includes(method)) {
+          return recorder(`${method}.`);
+        }
+        return (...args: any[]) => {
+          calls.push({ method: prefix + method, args });
+          return builder;
+        };
+      }
+    });
+    const builder = recorder('');
+    mockLucid.current = {
+      utxosAt: async (address: string) => utxos[address] || [],
+      newTx: () => builder
+    };
+    return calls;
+  }
+
+  const params = {
+    vaultValidatorCbor: '',
+    vaults: VAULTS,
+    strategy: new EqualWeightStrategy(),
+    candidates: [{ poolId: 'a' }, { poolId: 'b' }],
+    liquidReserve: 100n * ADA
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('moves liquid staking ADA into the vaults and keeps total_staked', async () => {
+    const calls = fakeLucid({
+      [STAKING]: [stakingUtxo(302n * ADA, 400n * ADA)],
+      [VAULTS[0].vaultAddress]: [vaultUtxo(VAULTS[0], 'a', 50n * ADA)],
+      [VAULTS[1].vaultAddress]: [vaultUtxo(VAULTS[1], 'b', 50n * ADA)]
+    });
+
+    expect(await rebalanceDelegation('', STAKING, params)).toBe('tx_rebalance');
+
+    const outputs = calls.filter(call => call.method === 'pay.ToContract');
+    const staking = outputs.find(call => call.args[0] === STAKING)!;
+    expect(staking.args[2]).toEqual({ lovelace: 102n * ADA });
+    expect((Data.from(staking.args[1].value) as Constr<any>).fields[0]).toBe(400n * ADA);
+
+    expect(outputs.filter(call => call.args[0] !== STAKING).map(call => [parseVaultDatum(call.args[1].value)!.pool_id, call.args[2]]))
+      .toEqual([['a', { lovelace: 150n * ADA }], ['b', { lovelace: 150n * ADA }]]);
+    expect(calls.filter(call => call.method === 'collectFrom').flatMap(call => call.args[0].map((utxo: any) => utxo.txHash)))
+      .toEqual(['staking', 'vault_a', 'vault_b']);
+  });
+
+  it('counts vault balances missing from total_staked and refuses to lower it', async () => {
+    const vaults = {
+      [VAULTS[0].vaultAddress]: [vaultUtxo(VAULTS[0], 'a', 150n * ADA)],
+      [VAULTS[1].vaultAddress]: [vaultUtxo(VAULTS[1], 'b', 150n * ADA)]
+    };
+
+    const calls = fakeLucid({ [STAKING]: [stakingUtxo(102n * ADA, 100n * ADA)], ...vaults });
+    expect(await rebalanceDelegation('', STAKING, params)).toBe('tx_rebalance');
+    const staking = calls.find(call => call.method === 'pay.ToContract' && call.args[0] === STAKING)!;
+    expect((Data.from(staking.args[1].value) as Constr<any>).fields[0]).toBe(400n * ADA);
+
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    fakeLucid({ [STAKING]: [stakingUtxo(102n * ADA, 500n * ADA)], ...vaults });
+    await expect(rebalanceDelegation('', STAKING, params))
+      .rejects.toThrow(`Staking UTxO and vaults hold ${400n * ADA} lovelace, below total_staked ${500n * ADA}`);
+  });
+});
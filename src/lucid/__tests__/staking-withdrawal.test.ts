@@ -0,0 +1,168 @@
+/**
+ * PuckSwap Staking Withdrawal Queue Tests
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { Data, Constr, fromText, mintingPolicyToId, slotToUnixTime } from '@lucid-evolution/lucid';
+import { CIP68Serializer } from '../../lib/cip68-serializer';
+
+const mockLucid: { current: any } = { current: null };
+jest.mock('../../lib/lucid-config', () => ({
+  ...(jest.requireActual('../../lib/lucid-config') as object),
+  createLucidInstance: async () => mockLucid.current,
+  connectWallet: async () => {}
+}));
+
+import {
+  requestStakingWithdrawal,
+  completeStakingWithdrawal,
+  findPendingWithdrawals,
+  parseWithdrawalClaim,
+  WithdrawalClaim
+} from '../staking';
+
+const USER = 'addr_test1user';
+const STAKING = 'addr_test1staking';
+const QUEUE = 'addr_test1queue';
+// PlutusV2 script that accepts any arguments, standing in for every validator
+const ALWAYS_SUCCEEDS = '49480100002221200101';
+const PADA_POLICY = mintingPolicyToId({ type: 'PlutusV2', script: ALWAYS_SUCCEEDS });
+const PADA_UNIT = PADA_POLICY + fromText('pADA');
+
+// 100 ADA staked against 50 pADA: 1 pADA redeems 2 ADA
+function stakingUtxo(txHash: string): any {
+  return {
+    txHash,
+    outputIndex: 1,
+    address: STAKING,
+    assets: { lovelace: 102_000_000n },
+    datum: Data.to(new Constr(0, [100_000_000n, 50_000_000n, fromText('pool1'), 0n]))
+  };
+}
+
+function claimUtxo(txHash: string, claim: WithdrawalClaim): any {
+  return {
+    txHash,
+    outputIndex: 0,
+    address: QUEUE,
+    assets: { lovelace: 2_000_000n, [PADA_UNIT]: claim.stADAAmount },
+    datum: Data.to(CIP68Serializer.serializeWithdrawalRequest(claim))
+  };
+}
+
+function claim(id: string, completionDeadline: number, user = USER): WithdrawalClaim {
+  return {
+    id,
+    user,
+    stADAAmount: 5_000_000n,
+    expectedADAAmount: 10_000_000n,
+    requestedAt: 0,
+    status: 'pending',
+    completionDeadline
+  };
+}
+
+// Records the calls made on each transaction built against it (pay.ToContract, attach.SpendingValidator, ...)
+function fakeLucid(slot: number, utxos: Record<string, any[]>) {
+  const txs: { method: string; args: any[] }[][] = [];
+  const lucid = {
+    config: () => ({ network: 'Preprod' }),
+    currentSlot: () => slot,
+    wallet: () => ({ address: async () => USER }),
+    utxosAt: async (address: string) => utxos[address] || [],
+    newTx: () => {
+      const calls: { method: string; args: any[] }[] = [];
+      txs.push(calls);
+      const recorder = (prefix: string): any => new Proxy({}, {
+        get: (_target, method: string) => {
+          if (method === 'complete') {
+            return async () => ({ sign: { withWallet: () => ({ complete: async () => ({ submit: async () => `tx_${txs.length}` }) }) } });
+          }
+          if (!prefix && (method === 'pay' || method === 'attach')) {
+            return recorder(`${method}.`);
+          }
+          return (...args: any[]) => {
+            calls.push({ method: prefix + method, args });
+            return builder;
+          };
+        }
+      });
+      const builder = recorder('');
+      return builder;
+    }
+  };
+  return { lucid, txs };
+}
+
+describe('staking withdrawal queue', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('locks pADA in a claim keyed by the spent staking out-ref, then pays it out once mature', async () => {
+    const { lucid, txs } = fakeLucid(1_000, { [STAKING]: [stakingUtxo('staking_a')] });
+    mockLucid.current = lucid;
+
+    const { claim: requested } = await requestStakingWithdrawal(ALWAYS_SUCCEEDS, ALWAYS_SUCCEEDS, STAKING, QUEUE, {
+      pADAAmount: 5_000_000n,
+      minADAOut: 10_000_000n,
+      unbondingSlots: 500
+    });
+    expect(requested.id).toBe('staking_a#1');
+    expect(requested.expectedADAAmount).toBe(10_000_000n);
+    expect(requested.completionDeadline).toBe(1_500);
+
+    const lock = txs[0].find(call => call.method === 'pay.ToContract' && call.args[0] === QUEUE)!;
+    expect(lock.args[1].kind).toBe('inline');
+    expect(parseWithdrawalClaim(lock.args[1].value)).toEqual(requested);
+    expect(lock.args[2][PADA_UNIT]).toBe(5_000_000n);
+
+    // The claim is refused before maturity and paid out after it
+    const queue = [claimUtxo('tx_request', requested)];
+    mockLucid.current = fakeLucid(1_499, { [STAKING]: [stakingUtxo('staking_b')], [QUEUE]: queue }).lucid;
+    await expect(completeStakingWithdrawal(ALWAYS_SUCCEEDS, ALWAYS_SUCCEEDS, ALWAYS_SUCCEEDS, STAKING, QUEUE, { withdrawalId: requested.id }))
+      .rejects.toThrow('Withdrawal staking_a#1 matures at slot 1500 (1 slots remaining)');
+
+    const mature = fakeLucid(1_500, { [STAKING]: [stakingUtxo('staking_b')], [QUEUE]: queue });
+    mockLucid.current = mature.lucid;
+    await completeStakingWithdrawal(ALWAYS_SUCCEEDS, ALWAYS_SUCCEEDS, ALWAYS_SUCCEEDS, STAKING, QUEUE, { withdrawalId: requested.id });
+
+    const calls = mature.txs[0];
+    expect(calls.find(call => call.method === 'mintAssets')!.args[0]).toEqual({ [PADA_UNIT]: -5_000_000n });
+    expect(calls.find(call => call.method === 'pay.ToAddress')!.args).toEqual([USER, { lovelace: 12_000_000n }]);
+    expect(calls.find(call => call.method === 'validFrom')!.args).toEqual([slotToUnixTime('Preprod', 1_500)]);
+    expect(calls.filter(call => call.method === 'attach.SpendingValidator').length).toBe(2);
+    expect(calls.filter(call => call.method === 'attach.MintingPolicy').length).toBe(1);
+  });
+
+  it('gives requests from the same slot distinct ids', async () => {
+    const first = fakeLucid(1_000, { [STAKING]: [stakingUtxo('staking_a')] });
+    mockLucid.current = first.lucid;
+    const a = await requestStakingWithdrawal(ALWAYS_SUCCEEDS, ALWAYS_SUCCEEDS, STAKING, QUEUE, { pADAAmount: 1_000_000n, minADAOut: 0n });
+
+    mockLucid.current = fakeLucid(1_000, { [STAKING]: [stakingUtxo('staking_b')] }).lucid;
+    const b = await requestStakingWithdrawal(ALWAYS_SUCCEEDS, ALWAYS_SUCCEEDS, STAKING, QUEUE, { pADAAmount: 1_000_000n, minADAOut: 0n });
+
+    expect(a.claim.id).not.toBe(b.claim.id);
+  });
+
+  it('lists a user\'s pending claims by maturity and skips unreadable datums', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const { lucid } = fakeLucid(0, {
+      [QUEUE]: [
+        claimUtxo('tx_late', claim('late', 900)),
+        claimUtxo('tx_other', claim('other', 100, 'addr_test1other')),
+        { ...claimUtxo('tx_bad', claim('bad', 100)), datum: 'not cbor' },
+        { ...claimUtxo('tx_shape', claim('shape', 100)), datum: Data.to(new Constr(0, [1n])) },
+        claimUtxo('tx_done', { ...claim('done', 100), status: 'completed' }),
+        claimUtxo('tx_early', claim('early', 300))
+      ]
+    });
+
+    const pending = await findPendingWithdrawals(lucid as any, QUEUE, USER, 300);
+    expect(pending.map(entry => [entry.claim.id, entry.slotsRemaining, entry.isClaimable])).toEqual([
+      ['early', 0, true],
+      ['late', 600, false]
+    ]);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * PuckSwap Treasury LP Reward Claim Pool Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Data } from '@lucid-evolution/lucid';
+import {
+  LP_REWARD_CONSTANTS,
+  LpRewardRedeemer,
+  createLpRewardRoot,
+  applyLpRewardClaim,
+  isLpRewardClaimed,
+  serializeLpRewardRoot,
+  parseLpRewardRoot
+} from '../treasury-lp-rewards';
+import { PuckSwapTreasuryV4 } from '../treasury-v4';
+import { LpEntitlement, hashEntitlementLeaf, buildMerkleRoot, buildMerkleProof } from '../../context7/lp_rewards';
+
+const ROOT = createLpRewardRoot('addr_test1pool', 12, 'ab'.repeat(32), 100_000_000n, 10);
+
+// PlutusV2 script that accepts any datum, redeemer and context
+const SCRIPT = { type: 'PlutusV2' as const, script: '49480100002221200101' };
+const CLAIM_ADDRESS = 'addr_test1claims';
+
+const ENTITLEMENTS: LpEntitlement[] = [
+  { index: 0, provider: 'addr_test1alice', providerKeyHash: 'a1'.repeat(28), amount: 30_000_000n, weight: 3n },
+  { index: 1, provider: 'addr_test1bob', providerKeyHash: 'b2'.repeat(28), amount: 70_000_000n, weight: 7n }
+];
+
+describe('LP reward claim pools', () => {
+  it('records claims in a bitmap that keeps its size', () => {
+    const claimed = applyLpRewardClaim(applyLpRewardClaim(ROOT, 9, 10_000_000n), 0, 20_000_000n);
+
+    expect(claimed.claimedBitmap).toBe('0102');
+    expect(claimed.claimedBitmap.length).toBe(ROOT.claimedBitmap.length);
+    expect([0, 1, 8, 9].map(index => isLpRewardClaimed(claimed, index))).toEqual([true, false, false, true]);
+    expect(claimed.claimedAmount).toBe(30_000_000n);
+  });
+
+  it('refuses repeated, out-of-range and oversized claims', () => {
+    const claimed = applyLpRewardClaim(ROOT, 3, 1n);
+
+    expect(() => applyLpRewardClaim(claimed, 3, 1n)).toThrow('Reward 3 for addr_test1pool epoch 12 already claimed');
+    expect(() => applyLpRewardClaim(ROOT, 10, 1n)).toThrow('outside the 10 entitlements');
+    expect(() => applyLpRewardClaim(ROOT, 0, 100_000_001n)).toThrow('exceeds unclaimed rewards');
+    expect(() => createLpRewardRoot('addr_test1pool', 12, ROOT.merkleRoot, 1n, LP_REWARD_CONSTANTS.MAX_ENTITLEMENTS + 1))
+      .toThrow(`between 1 and ${LP_REWARD_CONSTANTS.MAX_ENTITLEMENTS}`);
+  });
+
+  it('round-trips the datum', () => {
+    const claimed = applyLpRewardClaim(ROOT, 5, 7n);
+    expect(parseLpRewardRoot(serializeLpRewardRoot(claimed))).toEqual(claimed);
+  });
+
+  it('claims a proven entitlement and sets its bit in the re-locked root', async () => {
+    const leaves = ENTITLEMENTS.map(entitlement => hashEntitlementLeaf(12, 'addr_test1pool', entitlement));
+    const root = createLpRewardRoot('addr_test1pool', 12, buildMerkleRoot(leaves), 100_000_000n, 2);
+    const proof = buildMerkleProof(leaves, 1);
+
+    const calls: { method: string; args: any[] }[] = [];
+    const recorder = (prefix: string): any => new Proxy({}, {
+      get: (_target, method: string) => {
+        if (method === 'complete') {
+          return async () => ({ sign: { withWallet: () => ({ complete: async () => ({ submit: async () => 'tx_reward' }) }) } });
+        }
+        if (!prefix && (method === 'pay' || method === 'attach')) {
+          return recorder(`${method}.`);
+        }
+        return (...args: any[]) => {
+          calls.push({ method: prefix + method, args });
+          return builder;
+        };
+      }
+    });
+    const builder = recorder('');
+    const lucid = {
+      utxosAt: async () => [{
+        txHash: 'cc'.repeat(32),
+        outputIndex: 0,
+        address: CLAIM_ADDRESS,
+        assets: { lovelace: 102_000_000n },
+        datum: serializeLpRewardRoot(root)
+      }],
+      newTx: () => builder
+    };
+
+    const treasury = new PuckSwapTreasuryV4(lucid as any, SCRIPT, 'addr_test1treasury', 'addr_test1governance');
+    treasury.configureLpRewards(CLAIM_ADDRESS, SCRIPT);
+
+    await expect(treasury.claimLpReward({ entitlement: ENTITLEMENTS[1], proof }, 'addr_test1pool', 12)).resolves.toBe('tx_reward');
+
+    expect(calls.find(call => call.method === 'collectFrom')!.args[1]).toBe(
+      Data.to({ index: 1n, amount: 70_000_000n, proof }, LpRewardRedeemer)
+    );
+    const relock = calls.find(call => call.method === 'pay.ToContract')!;
+    expect(relock.args[0]).toBe(CLAIM_ADDRESS);
+    expect(parseLpRewardRoot(relock.args[1].value)).toMatchObject({ claimedAmount: 70_000_000n, claimedBitmap: '02' });
+    expect(relock.args[2]).toEqual({ lovelace: 32_000_000n });
+    expect(calls.find(call => call.method === 'pay.ToAddress')!.args).toEqual(['addr_test1bob', { lovelace: 70_000_000n }]);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * PuckSwap Treasury Vesting Stream Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Data, credentialToAddress, keyHashToCredential, slotToUnixTime } from '@lucid-evolution/lucid';
+import {
+  VestingStream,
+  StreamRedeemer,
+  calculateClaimableAmount,
+  calculateStreamCancellation,
+  getStreamStatus,
+  validateStreamSchedule,
+  serializeStreamDatum,
+  parseStreamDatum
+} from '../treasury-streams';
+import { PuckSwapTreasuryV4, TreasuryDatum, serializeTreasuryDatum } from '../treasury-v4';
+import { Proposal } from '../governance-v4';
+
+const STREAM: VestingStream = {
+  streamId: 'ab'.repeat(30),
+  recipientKeyHash: 'cd'.repeat(28),
+  unit: 'lovelace',
+  totalAmount: 1_000_000_000n,
+  claimedAmount: 0n,
+  startSlot: 1_000,
+  cliffSlot: 1_250,
+  endSlot: 2_000,
+  governanceProposalId: 4
+};
+
+// PlutusV2 script that accepts any datum, redeemer and context
+const SCRIPT = { type: 'PlutusV2' as const, script: '49480100002221200101' };
+const TREASURY_ADDRESS = 'addr_test1treasury';
+const STREAM_ADDRESS = 'addr_test1streams';
+const RECIPIENT = credentialToAddress('Preprod', keyHashToCredential(STREAM.recipientKeyHash), keyHashToCredential('ef'.repeat(28)));
+
+const TREASURY: TreasuryDatum = {
+  metadata: { policyId: 'aa'.repeat(28), assetName: 'treasury', version: 1 },
+  version: 1,
+  totalRevenueCollected: 0n,
+  totalDistributed: 0n,
+  currentBalance: { lovelace: 50_000_000n },
+  revenueRecords: [],
+  distributionRecords: [],
+  lpRewardPercentage: 4000,
+  developmentPercentage: 2000,
+  governancePercentage: 1500,
+  protocolPercentage: 1500,
+  communityPercentage: 1000,
+  governanceAddress: 'addr_test1governance',
+  autoDistributionEnabled: true,
+  distributionThreshold: 1_000_000_000n,
+  adminAddresses: [],
+  emergencyAdmin: 'addr_test1emergency',
+  paused: false,
+  maxSingleDistribution: 10_000_000_000n,
+  dailyDistributionLimit: 50_000_000_000n,
+  lastDistributionSlot: 0,
+  supportedAssets: [{ policy: '', name: '' }]
+};
+
+// Treasury over a fake lucid at slot 1_600 holding one stream UTxO
+function treasury(stream: VestingStream) {
+  const calls: { method: string; args: any[] }[] = [];
+  const recorder = (prefix: string): any => new Proxy({}, {
+    get: (_target, method: string) => {
+      if (method === 'then') {
+        return undefined;
+      }
+      if (method === 'complete') {
+        return async () => ({ sign: { withWallet: () => ({ complete: async () => ({ submit: async () => 'tx_claim' }) }) } });
+      }
+      if (!prefix && (method === 'pay' || method === 'attach')) {
+        return recorder(`${method}.`);
+      }
+      return (...args: any[]) => {
+        calls.push({ method: prefix + method, args });
+        return builder;
+      };
+    }
+  });
+  const builder = recorder('');
+
+  const lucid = {
+    config: () => ({ network: 'Preprod' }),
+    currentSlot: () => 1_600,
+    utxosAt: async (address: string) => address === STREAM_ADDRESS
+      ? [{ txHash: 'bb'.repeat(32), outputIndex: 0, address, assets: { lovelace: 902_000_000n }, datum: serializeStreamDatum(stream) }]
+      : [{ txHash: 'aa'.repeat(32), outputIndex: 0, address, assets: { lovelace: 50_000_000n }, datum: serializeTreasuryDatum(TREASURY) }],
+    wallet: () => ({ address: async () => RECIPIENT }),
+    newTx: () => builder
+  };
+
+  const instance = new PuckSwapTreasuryV4(lucid as any, SCRIPT, TREASURY_ADDRESS, TREASURY.governanceAddress);
+  instance.configureStreams(STREAM_ADDRESS, SCRIPT);
+  return { instance, calls, builder };
+}
+
+describe('treasury vesting streams', () => {
+  it('unlocks nothing before the cliff, then linearly from the start slot', () => {
+    expect(calculateClaimableAmount(STREAM, 1_249)).toBe(0n);
+    expect(getStreamStatus(STREAM, 1_249)).toBe('Pending');
+
+    expect(calculateClaimableAmount(STREAM, 1_250)).toBe(250_000_000n);
+    expect(calculateClaimableAmount({ ...STREAM, claimedAmount: 250_000_000n }, 1_500)).toBe(250_000_000n);
+    expect(getStreamStatus(STREAM, 2_000)).toBe('FullyVested');
+    expect(getStreamStatus({ ...STREAM, claimedAmount: STREAM.totalAmount }, 2_000)).toBe('Completed');
+  });
+
+  it('splits a cancelled stream between recipient and treasury', () => {
+    const split = calculateStreamCancellation({ ...STREAM, claimedAmount: 100_000_000n }, 1_600);
+    expect(split.toRecipient).toBe(500_000_000n);
+    expect(split.toTreasury).toBe(400_000_000n);
+  });
+
+  it('rejects inconsistent schedules', () => {
+    expect(() => validateStreamSchedule(1n, 10, 5, 20)).toThrow('cliff');
+    expect(() => validateStreamSchedule(1n, 10, 10, 10)).toThrow('end slot');
+    expect(() => validateStreamSchedule(0n, 10, 10, 20)).toThrow('positive');
+  });
+
+  it('claims the unlocked portion and re-locks the rest under the recipient key', async () => {
+    const stream = { ...STREAM, claimedAmount: 100_000_000n };
+    const { instance, calls } = treasury(stream);
+
+    await expect(instance.claimStream(STREAM.streamId)).resolves.toBe('tx_claim');
+
+    expect(calls.find(call => call.method === 'collectFrom')!.args[1]).toBe(
+      Data.to({ ClaimStream: { amount: 500_000_000n } }, StreamRedeemer)
+    );
+    expect(calls.find(call => call.method === 'addSignerKey')!.args).toEqual([STREAM.recipientKeyHash]);
+    expect(calls.find(call => call.method === 'validFrom')!.args).toEqual([slotToUnixTime('Preprod', 1_600)]);
+
+    const relock = calls.find(call => call.method === 'pay.ToContract')!;
+    expect(relock.args[0]).toBe(STREAM_ADDRESS);
+    expect(parseStreamDatum(relock.args[1].value)!.claimedAmount).toBe(600_000_000n);
+    expect(relock.args[2]).toEqual({ lovelace: 402_000_000n });
+    expect(calls.find(call => call.method === 'pay.ToAddress')!.args).toEqual([RECIPIENT, { lovelace: 500_000_000n }]);
+  });
+
+  it('cancels a stream in a governance execution, paying the vested part out and the rest back', async () => {
+    const stream = { ...STREAM, claimedAmount: 100_000_000n };
+    const { instance, calls, builder } = treasury(stream);
+    const proposal = { proposalId: 9, title: 'Cancel', actions: [], status: 'Queued', executionSlot: 1_500, executed: false } as unknown as Proposal;
+
+    await instance.addGovernanceExecution(builder, {
+      proposal,
+      result: { payouts: [], streamCreations: [], streamCancellations: [STREAM.streamId] } as any
+    });
+
+    expect(calls.find(call => call.method === 'collectFrom')!.args[1]).toBe(
+      Data.to({ CancelStream: { proposal_id: 9n } }, StreamRedeemer)
+    );
+    expect(calls.find(call => call.method === 'pay.ToAddress')!.args).toEqual([
+      credentialToAddress('Preprod', keyHashToCredential(STREAM.recipientKeyHash)),
+      { lovelace: 500_000_000n }
+    ]);
+    expect(calls.find(call => call.method === 'pay.ToContract')!.args[2]).toEqual({ lovelace: 452_000_000n });
+  });
+});
@@ -0,0 +1,456 @@
+// PuckSwap v4 Enterprise - M-of-N Admin Signing
+// Admin actions (emergency withdrawals, config updates, router security params,
+// registry pause) are built once, exported as unsigned CBOR, and witnessed by
+// several admins before submission
+// Pending transactions and witnesses are exchanged through a file or API store;
+// every submitted action records which admins signed it
+
+import { CML, TxHash } from "@lucid-evolution/lucid";
+
+// Conditional imports - only import fs modules in Node.js environment
+let fs: typeof import('fs').promises | undefined;
+let path: typeof import('path') | undefined;
+
+if (typeof window === 'undefined') {
+  try {
+    fs = require('fs').promises;
+    path = require('path');
+  } catch (error) {
+    console.warn('Node.js modules not available, file-based admin signing disabled');
+  }
+}
+
+// =============================================================================
+// MULTISIG TYPES
+// =============================================================================
+
+export const ADMIN_MULTISIG_CONSTANTS = {
+  DEFAULT_THRESHOLD: 2,
+  SIGNING_WINDOW_MS: 1_200_000 // Matches the 20 minute validTo of admin transactions
+} as const;
+
+export type AdminAction =
+  | 'TreasuryEmergencyWithdraw'
+  | 'TreasuryConfigUpdate'
+  | 'RouterSecurityParams'
+  | 'RegistryPause'
+  | 'RegistryUnpause';
+
+export interface AdminMultisigPolicy {
+  adminKeyHashes: string[]; // Payment key hashes of the datum's admin addresses
+  threshold: number;
+}
+
+export interface AdminWitness {
+  signer: string; // Payment key hash
+  witness: string; // Witness set CBOR
+  signedAt: number;
+}
+
+export interface PendingAdminTx {
+  txHash: TxHash;
+  action: AdminAction;
+  description: string;
+  txCbor: string;
+  requiredSigners: string[]; // Key hashes listed as required signers in the body
+  threshold: number;
+  witnesses: AdminWitness[];
+  createdAt: number;
+  expiresAt: number;
+  submittedAt?: number;
+}
+
+export interface AdminSigningStatus {
+  signed: string[];
+  missing: string[];
+  ready: boolean;
+  expired: boolean;
+}
+
+export interface AdminSignatureRecord {
+  txHash: TxHash;
+  action: AdminAction;
+  description: string;
+  signers: string[];
+  threshold: number;
+  submittedAt: number;
+}
+
+// Where pending transactions are shared between admins
+export interface AdminTxStore {
+  save(pending: PendingAdminTx): Promise<void>;
+  load(txHash: TxHash): Promise<PendingAdminTx | null>;
+  list(): Promise<PendingAdminTx[]>;
+}
+
+// =============================================================================
+// POLICY AND SIGNER SELECTION
+// =============================================================================
+
+export function createAdminMultisigPolicy(adminKeyHashes: string[], threshold: number): AdminMultisigPolicy {
+  const admins = [...new Set(adminKeyHashes)];
+  if (admins.length === 0) {
+    throw new Error("Admin multisig requires at least one admin");
+  }
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > admins.length) {
+    throw new Error(`Admin threshold must be between 1 and ${admins.length}, got ${threshold}`);
+  }
+  return { adminKeyHashes: admins, threshold };
+}
+
+/**
+ * Admins whose signatures the transaction will require
+ * The ledger needs a witness for every required signer, so exactly `threshold`
+ * admins are chosen when the transaction is built: the proposer first, then
+ * any preferred co-signers, then the remaining admins in datum order
+ * @param policy - Admin set and threshold
+ * @param proposerKeyHash - Key hash of the connected wallet
+ * @param preferred - Co-signers to choose before the others
+ */
+export function selectAdminSigners(policy: AdminMultisigPolicy, proposerKeyHash: string, preferred: string[] = []): string[] {
+  if (!policy.adminKeyHashes.includes(proposerKeyHash)) {
+    throw new Error("Only an admin can propose an admin transaction");
+  }
+
+  const unknown = preferred.filter(keyHash => !policy.adminKeyHashes.includes(keyHash));
+  if (unknown.length > 0) {
+    throw new Error(`Not admins: ${unknown.join(", ")}`);
+  }
+
+  const ordered = [...new Set([proposerKeyHash, ...preferred, ...policy.adminKeyHashes])];
+  return ordered.slice(0, policy.threshold);
+}
+
+export function getAdminSigningStatus(pending: PendingAdminTx, now: number = Date.now()): AdminSigningStatus {
+  const signed = pending.requiredSigners.filter(signer => pending.witnesses.some(witness => witness.signer === signer));
+  const missing = pending.requiredSigners.filter(signer => !signed.includes(signer));
+  const expired = now > pending.expiresAt;
+
+  return {
+    signed,
+    missing,
+    ready: !expired && missing.length === 0 && signed.length >= pending.threshold,
+    expired
+  };
+}
+
+/**
+ * Key hashes whose signatures in a witness set verify against the transaction hash
+ * Throws if any signature in the set is invalid
+ */
+export function getWitnessSigners(witnessCbor: string, txHash: TxHash): string[] {
+  const witnessSet = CML.TransactionWitnessSet.from_cbor_hex(witnessCbor);
+  const vkeyWitnesses = witnessSet.vkeywitnesses();
+  if (!vkeyWitnesses) {
+    return [];
+  }
+
+  const message = Buffer.from(txHash, "hex");
+  const signers: string[] = [];
+  for (let i = 0; i < vkeyWitnesses.len(); i++) {
+    const witness = vkeyWitnesses.get(i);
+    const publicKey = witness.vkey();
+    if (!publicKey.verify(message, witness.ed25519_signature())) {
+      throw new Error(`Witness from ${publicKey.hash().to_hex()} does not sign transaction ${txHash}`);
+    }
+    signers.push(publicKey.hash().to_hex());
+  }
+  return signers;
+}
+
+/**
+ * Hash and required signers of a transaction, read from its body
+ */
+export function describeAdminTx(txCbor: string): { txHash: TxHash; requiredSigners: string[] } {
+  const body = CML.Transaction.from_cbor_hex(txCbor).body();
+  const keyHashes = body.required_signers();
+  const requiredSigners: string[] = [];
+  for (let i = 0; i < (keyHashes?.len() ?? 0); i++) {
+    requiredSigners.push(keyHashes!.get(i).to_hex());
+  }
+  return { txHash: CML.hash_transaction(body).to_hex(), requiredSigners };
+}
+
+// =============================================================================
+// WITNESS STORES
+// =============================================================================
+
+/**
+ * One JSON file per pending transaction in a shared directory
+ */
+export class FileAdminTxStore implements AdminTxStore {
+  private directory: string;
+
+  constructor(directory: string) {
+    if (!fs || !path) {
+      throw new Error("File-based admin signing requires Node.js");
+    }
+    this.directory = directory;
+  }
+
+  async save(pending: PendingAdminTx): Promise<void> {
+    await fs!.mkdir(this.directory, { recursive: true });
+    await fs!.writeFile(this.filePath(pending.txHash), JSON.stringify(pending, null, 2));
+  }
+
+  async load(txHash: TxHash): Promise<PendingAdminTx | null> {
+    try {
+      return JSON.parse(await fs!.readFile(this.filePath(txHash), "utf8")) as PendingAdminTx;
+    } catch {
+      return null;
+    }
+  }
+
+  async list(): Promise<PendingAdminTx[]> {
+    const files = await fs!.readdir(this.directory).catch(() => [] as string[]);
+    const pending = await Promise.all(
+      files
+        .filter(file => file.endsWith(".json"))
+        .map(file => this.load(file.slice(0, -".json".length)))
+    );
+    return pending.filter((entry): entry is PendingAdminTx => entry !== null);
+  }
+
+  private filePath(txHash: TxHash): string {
+    return path!.join(this.directory, `${txHash}.json`);
+  }
+}
+
+/**
+ * Pending transactions kept by a coordination API
+ * GET {endpoint} lists, GET/PUT {endpoint}/{txHash} reads and writes one entry
+ */
+export class HttpAdminTxStore implements AdminTxStore {
+  private endpoint: string;
+  private headers: Record<string, string>;
+
+  constructor(endpoint: string, apiKey?: string) {
+    this.endpoint = endpoint.replace(/\/$/, "");
+    this.headers = {
+      "Content-Type": "application/json",
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+    };
+  }
+
+  async save(pending: PendingAdminTx): Promise<void> {
+    const response = await fetch(`${this.endpoint}/${pending.txHash}`, {
+      method: "PUT",
+      headers: this.headers,
+      body: JSON.stringify(pending)
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to store admin transaction ${pending.txHash}: ${response.status}`);
+    }
+  }
+
+  async load(txHash: TxHash): Promise<PendingAdminTx | null> {
+    const response = await fetch(`${this.endpoint}/${txHash}`, { headers: this.headers });
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to load admin transaction ${txHash}: ${response.status}`);
+    }
+    return (await response.json()) as PendingAdminTx;
+  }
+
+  async list(): Promise<PendingAdminTx[]> {
+    const response = await fetch(this.endpoint, { headers: this.headers });
+    if (!response.ok) {
+      throw new Error(`Failed to list admin transactions: ${response.status}`);
+    }
+    return (await response.json()) as PendingAdminTx[];
+  }
+}
+
+// =============================================================================
+// COORDINATOR
+// =============================================================================
+
+export interface AdminTxProposal {
+  action: AdminAction;
+  description: string;
+  txHash: TxHash;
+  txCbor: string;
+  requiredSigners: string[];
+  policy: AdminMultisigPolicy;
+}
+
+/**
+ * Tracks pending admin transactions from build to submission
+ * Contract classes build and witness transactions with their own Lucid instance
+ * and hand CBOR to the coordinator
+ */
+export class AdminMultisigCoordinator {
+  private store: AdminTxStore;
+  private threshold: number;
+
+  constructor(store: AdminTxStore, threshold: number = ADMIN_MULTISIG_CONSTANTS.DEFAULT_THRESHOLD) {
+    this.store = store;
+    this.threshold = threshold;
+  }
+
+  /**
+   * Policy for a contract's admin addresses, already resolved to key hashes
+   */
+  createPolicy(adminKeyHashes: string[]): AdminMultisigPolicy {
+    return createAdminMultisigPolicy(adminKeyHashes, this.threshold);
+  }
+
+  async propose(proposal: AdminTxProposal): Promise<PendingAdminTx> {
+    const { policy, requiredSigners } = proposal;
+    if (requiredSigners.length < policy.threshold) {
+      throw new Error(`Transaction requires ${requiredSigners.length} signers, threshold is ${policy.threshold}`);
+    }
+    const outsiders = requiredSigners.filter(signer => !policy.adminKeyHashes.includes(signer));
+    if (outsiders.length > 0) {
+      throw new Error(`Required signers are not admins: ${outsiders.join(", ")}`);
+    }
+
+    const now = Date.now();
+    const pending: PendingAdminTx = {
+      txHash: proposal.txHash,
+      action: proposal.action,
+      description: proposal.description,
+      txCbor: proposal.txCbor,
+      requiredSigners,
+      threshold: policy.threshold,
+      witnesses: [],
+      createdAt: now,
+      expiresAt: now + ADMIN_MULTISIG_CONSTANTS.SIGNING_WINDOW_MS
+    };
+
+    await this.store.save(pending);
+    return pending;
+  }
+
+  async getPending(txHash: TxHash): Promise<PendingAdminTx> {
+    const pending = await this.store.load(txHash);
+    if (!pending) {
+      throw new Error(`Admin transaction ${txHash} not found`);
+    }
+    return pending;
+  }
+
+  async listPending(): Promise<PendingAdminTx[]> {
+    const pending = await this.store.list();
+    return pending.filter(entry => !entry.submittedAt);
+  }
+
+  /**
+   * Add an admin's witness set after checking it signs this transaction
+   * @returns Updated pending transaction
+   */
+  async addWitness(txHash: TxHash, witnessCbor: string): Promise<PendingAdminTx> {
+    const pending = await this.getPending(txHash);
+    if (pending.submittedAt) {
+      throw new Error(`Admin transaction ${txHash} was already submitted`);
+    }
+    if (Date.now() > pending.expiresAt) {
+      throw new Error(`Admin transaction ${txHash} signing window has expired`);
+    }
+
+    const signers = getWitnessSigners(witnessCbor, txHash).filter(signer => pending.requiredSigners.includes(signer));
+    if (signers.length === 0) {
+      throw new Error(`Witness is not from a required signer of ${txHash}`);
+    }
+
+    const updated: PendingAdminTx = {
+      ...pending,
+      witnesses: [
+        ...pending.witnesses.filter(witness => !signers.includes(witness.signer)),
+        ...signers.map(signer => ({ signer, witness: witnessCbor, signedAt: Date.now() }))
+      ]
+    };
+
+    await this.store.save(updated);
+    return updated;
+  }
+
+  // Serialized pending transaction for sharing outside the store (e.g. by file transfer)
+  exportPending(pending: PendingAdminTx): string {
+    return JSON.stringify(pending, null, 2);
+  }
+
+  /**
+   * Store a pending transaction exported by another admin
+   * Nothing in the export is trusted: the hash and required signers are read from
+   * the transaction body and every witness is verified again. The ledger needs a
+   * witness for every required signer, so the threshold is all of them
+   */
+  async importPending(json: string): Promise<PendingAdminTx> {
+    const exported = JSON.parse(json) as PendingAdminTx;
+    if (!exported.txHash || !exported.txCbor || !Array.isArray(exported.witnesses)) {
+      throw new Error("Invalid admin transaction export");
+    }
+
+    const { txHash, requiredSigners } = describeAdminTx(exported.txCbor);
+    if (txHash !== exported.txHash) {
+      throw new Error(`Exported hash ${exported.txHash} does not match transaction ${txHash}`);
+    }
+    if (requiredSigners.length === 0) {
+      throw new Error(`Transaction ${txHash} has no required signers`);
+    }
+
+    for (const witness of exported.witnesses) {
+      const signers = getWitnessSigners(witness.witness, txHash);
+      if (!signers.includes(witness.signer) || !requiredSigners.includes(witness.signer)) {
+        throw new Error(`Witness for ${witness.signer} is not a required signature of ${txHash}`);
+      }
+    }
+
+    const pending: PendingAdminTx = { ...exported, requiredSigners, threshold: requiredSigners.length };
+    await this.store.save(pending);
+    return pending;
+  }
+
+  /**
+   * Assemble the collected witnesses and submit once the threshold is met
+   * @param txHash - Pending transaction
+   * @param assembleAndSubmit - Contract-specific Lucid assemble + submit
+   */
+  async submit(
+    txHash: TxHash,
+    assembleAndSubmit: (txCbor: string, witnesses: string[]) => Promise<TxHash>
+  ): Promise<AdminSignatureRecord> {
+    const pending = await this.getPending(txHash);
+    const status = getAdminSigningStatus(pending);
+    if (!status.ready) {
+      throw new Error(status.expired
+        ? `Admin transaction ${txHash} signing window has expired`
+        : `Admin transaction ${txHash} is missing signatures from ${status.missing.join(", ")}`);
+    }
+
+    const witnesses = [...new Set(pending.witnesses.map(witness => witness.witness))];
+    const submittedHash = await assembleAndSubmit(pending.txCbor, witnesses);
+    if (submittedHash !== pending.txHash) {
+      throw new Error(`Submitted transaction ${submittedHash} does not match ${pending.txHash}`);
+    }
+
+    const submitted: PendingAdminTx = { ...pending, submittedAt: Date.now() };
+    await this.store.save(submitted);
+    return toSignatureRecord(submitted);
+  }
+
+  /**
+   * Submitted admin transactions and the admins who signed each, newest first
+   */
+  async getSignatureHistory(action?: AdminAction): Promise<AdminSignatureRecord[]> {
+    const entries = await this.store.list();
+    return entries
+      .filter(entry => entry.submittedAt && (!action || entry.action === action))
+      .map(toSignatureRecord)
+      .sort((a, b) => b.submittedAt - a.submittedAt);
+  }
+}
+
+function toSignatureRecord(pending: PendingAdminTx): AdminSignatureRecord {
+  return {
+    txHash: pending.txHash,
+    action: pending.action,
+    description: pending.description,
+    signers: getAdminSigningStatus(pending, pending.submittedAt).signed,
+    threshold: pending.threshold,
+    submittedAt: pending.submittedAt || 0
+  };
+}
@@ -0,0 +1,973 @@
+// PuckSwap v4 Enterprise - Concentrated Liquidity (Range Positions)
+// Lucid Evolution builders for v4 range pools where LPs provide liquidity
+// between two ticks instead of across the full constant-product curve
+// Positions are CIP-68 NFT pairs: the reference token (label 100) stays at the
+// pool validator with the position datum, the user token (label 222) proves ownership
+
+import {
+  LucidEvolution,
+  Data,
+  UTxO,
+  TxHash,
+  Address,
+  Assets,
+  SpendingValidator,
+  MintingPolicy,
+  PolicyId,
+  TxSignBuilder,
+  mintingPolicyToId,
+  validatorToAddress
+} from "@lucid-evolution/lucid";
+
+import { createLucidInstance, connectWallet, getLucidNetwork } from "../lib/lucid-config";
+import {
+  ConcentratedPoolCIP68Datum,
+  ConcentratedPoolState,
+  RangePositionCIP68Datum,
+  RangePositionData,
+  TickState,
+  CIP68DatumBuilder
+} from "../lib/cip68-types";
+import { CIP68Serializer } from "../lib/cip68-serializer";
+import {
+  Q128,
+  MIN_TICK,
+  MAX_TICK,
+  MIN_SQRT_PRICE_X96,
+  MAX_SQRT_PRICE_X96,
+  getSqrtPriceAtTick,
+  getTickAtSqrtPrice,
+  getAmountsForLiquidity,
+  getLiquidityForAmounts,
+  computeSwapStep,
+  sqrtPriceToPrice
+} from "./utils/tick-math";
+
+// =============================================================================
+// RANGE POSITION TYPES
+// =============================================================================
+
+export const RANGE_POSITION_CONSTANTS = {
+  REFERENCE_LABEL: "000643b0", // CIP-68 (100) reference NFT
+  USER_LABEL: "000de140", // CIP-68 (222) user NFT
+  POSITION_MIN_ADA: 2_000_000n, // Min-ADA locked with each position reference NFT
+  MAX_TICKS_CROSSED: 64 // Keeps swap transactions within execution unit limits
+};
+
+// Range pool UTxO at the pool validator
+export interface ConcentratedPoolInfo {
+  utxo: UTxO;
+  datum: ConcentratedPoolCIP68Datum;
+  price: number; // Token B per token A
+}
+
+// Range position reference UTxO at the pool validator
+export interface RangePositionInfo {
+  referenceUtxo: UTxO;
+  datum: RangePositionCIP68Datum;
+  referenceUnit: string;
+  userUnit: string;
+}
+
+// Result of applying a liquidity change to a pool
+export interface ModifyPositionResult {
+  pool: ConcentratedPoolState;
+  position: RangePositionData;
+  amountA: bigint; // Paid in when adding, paid out when removing
+  amountB: bigint;
+}
+
+// Quote for a swap that may cross several initialized ticks
+export interface ConcentratedSwapQuote {
+  aToB: boolean;
+  amountIn: bigint; // Including fee
+  amountOut: bigint;
+  feeAmount: bigint;
+  sqrtPriceAfterX96: bigint;
+  tickAfter: number;
+  ticksCrossed: number;
+  priceImpact: number; // Percentage
+  pool: ConcentratedPoolState;
+}
+
+export interface OpenPositionParams {
+  tickLower: number;
+  tickUpper: number;
+  amountADesired: bigint;
+  amountBDesired: bigint;
+  amountAMin: bigint;
+  amountBMin: bigint;
+}
+
+export interface RemoveRangeLiquidityParams {
+  liquidity: bigint;
+  amountAMin: bigint;
+  amountBMin: bigint;
+  burnWhenEmpty?: boolean; // Burn both position NFTs once liquidity and owed fees reach zero
+}
+
+export interface ConcentratedSwapParams {
+  aToB: boolean;
+  amountIn: bigint;
+  minAmountOut: bigint;
+  sqrtPriceLimitX96?: bigint;
+  deadline?: number;
+}
+
+// Validators used by range pools
+export interface ConcentratedLiquidityContracts {
+  poolValidator: SpendingValidator;
+  positionPolicy: MintingPolicy;
+}
+
+// =============================================================================
+// POOL STATE MATH
+// =============================================================================
+
+/**
+ * Asset unit for a policy/name pair ("" policy is ADA)
+ */
+export function getRangePoolUnit(policy: string, name: string): string {
+  return policy === "" ? "lovelace" : `${policy}${name}`;
+}
+
+/**
+ * Fee growth per unit of liquidity inside a tick range
+ * Values may go negative; only differences between snapshots are meaningful.
+ */
+export function getFeeGrowthInside(
+  pool: ConcentratedPoolState,
+  tickLower: number,
+  tickUpper: number
+): { insideA: bigint; insideB: bigint } {
+  const lower = pool.ticks.find(t => t.tick === tickLower);
+  const upper = pool.ticks.find(t => t.tick === tickUpper);
+
+  const outsideLowerA = lower?.fee_growth_outside_a_x128 ?? 0n;
+  const outsideLowerB = lower?.fee_growth_outside_b_x128 ?? 0n;
+  const outsideUpperA = upper?.fee_growth_outside_a_x128 ?? 0n;
+  const outsideUpperB = upper?.fee_growth_outside_b_x128 ?? 0n;
+
+  const belowA = pool.current_tick >= tickLower ? outsideLowerA : pool.fee_growth_global_a_x128 - outsideLowerA;
+  const belowB = pool.current_tick >= tickLower ? outsideLowerB : pool.fee_growth_global_b_x128 - outsideLowerB;
+  const aboveA = pool.current_tick < tickUpper ? outsideUpperA : pool.fee_growth_global_a_x128 - outsideUpperA;
+  const aboveB = pool.current_tick < tickUpper ? outsideUpperB : pool.fee_growth_global_b_x128 - outsideUpperB;
+
+  return {
+    insideA: pool.fee_growth_global_a_x128 - belowA - aboveA,
+    insideB: pool.fee_growth_global_b_x128 - belowB - aboveB
+  };
+}
+
+/**
+ * Fees a position has earned since its last snapshot, plus fees already owed
+ */
+export function calculateUncollectedFees(
+  pool: ConcentratedPoolState,
+  position: RangePositionData
+): { feesA: bigint; feesB: bigint } {
+  const { insideA, insideB } = getFeeGrowthInside(pool, position.tick_lower, position.tick_upper);
+
+  return {
+    feesA: position.tokens_owed_a + (position.liquidity * (insideA - position.fee_growth_inside_a_last_x128)) / Q128,
+    feesB: position.tokens_owed_b + (position.liquidity * (insideB - position.fee_growth_inside_b_last_x128)) / Q128
+  };
+}
+
+function validateTickRange(pool: ConcentratedPoolState, tickLower: number, tickUpper: number): void {
+  if (tickLower >= tickUpper) {
+    throw new Error(`Lower tick ${tickLower} must be below upper tick ${tickUpper}`);
+  }
+  if (tickLower < MIN_TICK || tickUpper > MAX_TICK) {
+    throw new Error("Tick range out of bounds");
+  }
+  if (tickLower % pool.tick_spacing !== 0 || tickUpper % pool.tick_spacing !== 0) {
+    throw new Error(`Ticks must be multiples of the pool tick spacing ${pool.tick_spacing}`);
+  }
+}
+
+// Apply a liquidity change to one tick boundary
+function updateTick(
+  ticks: TickState[],
+  pool: ConcentratedPoolState,
+  tick: number,
+  liquidityDelta: bigint,
+  isUpper: boolean
+): TickState[] {
+  const existing = ticks.find(t => t.tick === tick);
+
+  // By convention all growth so far happened below a newly initialized tick at or under the price
+  const initialized: TickState = existing ?? {
+    tick,
+    liquidity_gross: 0n,
+    liquidity_net: 0n,
+    fee_growth_outside_a_x128: tick <= pool.current_tick ? pool.fee_growth_global_a_x128 : 0n,
+    fee_growth_outside_b_x128: tick <= pool.current_tick ? pool.fee_growth_global_b_x128 : 0n
+  };
+
+  const updated: TickState = {
+    ...initialized,
+    liquidity_gross: initialized.liquidity_gross + liquidityDelta,
+    liquidity_net: initialized.liquidity_net + (isUpper ? -liquidityDelta : liquidityDelta)
+  };
+
+  if (updated.liquidity_gross < 0n) {
+    throw new Error(`Tick ${tick} liquidity underflow`);
+  }
+
+  return [...ticks.filter(t => t.tick !== tick), updated].sort((a, b) => a.tick - b.tick);
+}
+
+/**
+ * Add (positive delta) or remove (negative delta) liquidity from a range
+ * Accrues fees earned so far into tokens_owed before changing liquidity.
+ * @param pool - Current pool state
+ * @param position - Existing position, or a fresh one with zero liquidity
+ * @param liquidityDelta - Signed liquidity change
+ */
+export function modifyPosition(
+  pool: ConcentratedPoolState,
+  position: RangePositionData,
+  liquidityDelta: bigint
+): ModifyPositionResult {
+  validateTickRange(pool, position.tick_lower, position.tick_upper);
+
+  if (position.liquidity + liquidityDelta < 0n) {
+    throw new Error(`Cannot remove ${-liquidityDelta} liquidity from a position holding ${position.liquidity}`);
+  }
+
+  let ticks = updateTick(pool.ticks, pool, position.tick_lower, liquidityDelta, false);
+  ticks = updateTick(ticks, pool, position.tick_upper, liquidityDelta, true);
+
+  const inRange = pool.current_tick >= position.tick_lower && pool.current_tick < position.tick_upper;
+  const updatedPool: ConcentratedPoolState = {
+    ...pool,
+    ticks,
+    liquidity: inRange ? pool.liquidity + liquidityDelta : pool.liquidity
+  };
+
+  // Snapshot fee growth with the updated ticks (new ticks start from the current global growth)
+  const { feesA, feesB } = calculateUncollectedFees(updatedPool, position);
+  const { insideA, insideB } = getFeeGrowthInside(updatedPool, position.tick_lower, position.tick_upper);
+
+  // Ticks no longer referenced by any position are cleared after the fee snapshot
+  updatedPool.ticks = ticks.filter(t => t.liquidity_gross > 0n);
+
+  const isAdding = liquidityDelta > 0n;
+  const magnitude = isAdding ? liquidityDelta : -liquidityDelta;
+  const { amountA, amountB } = getAmountsForLiquidity(
+    pool.sqrt_price_x96,
+    getSqrtPriceAtTick(position.tick_lower),
+    getSqrtPriceAtTick(position.tick_upper),
+    magnitude,
+    isAdding
+  );
+
+  return {
+    pool: updatedPool,
+    position: {
+      ...position,
+      liquidity: position.liquidity + liquidityDelta,
+      fee_growth_inside_a_last_x128: insideA,
+      fee_growth_inside_b_last_x128: insideB,
+      tokens_owed_a: feesA,
+      tokens_owed_b: feesB
+    },
+    amountA,
+    amountB
+  };
+}
+
+/**
+ * Simulate an exact-input swap through a range pool, crossing ticks as needed
+ * @param pool - Current pool state
+ * @param amountIn - Input amount including fee
+ * @param aToB - true for token A -> token B (price moves down)
+ * @param sqrtPriceLimitX96 - Optional price the swap must not move past
+ */
+export function simulateConcentratedSwap(
+  pool: ConcentratedPoolState,
+  amountIn: bigint,
+  aToB: boolean,
+  sqrtPriceLimitX96?: bigint
+): ConcentratedSwapQuote {
+  if (amountIn <= 0n) {
+    throw new Error("Swap amount must be positive");
+  }
+
+  const limit = sqrtPriceLimitX96 ?? (aToB ? MIN_SQRT_PRICE_X96 + 1n : MAX_SQRT_PRICE_X96 - 1n);
+  if (aToB ? limit >= pool.sqrt_price_x96 : limit <= pool.sqrt_price_x96) {
+    throw new Error("Price limit is on the wrong side of the current price");
+  }
+
+  const ticks = pool.ticks.map(t => ({ ...t }));
+  let sqrtPrice = pool.sqrt_price_x96;
+  let tick = pool.current_tick;
+  let liquidity = pool.liquidity;
+  let feeGrowthGlobalA = pool.fee_growth_global_a_x128;
+  let feeGrowthGlobalB = pool.fee_growth_global_b_x128;
+  let remaining = amountIn;
+  let amountOut = 0n;
+  let feeAmount = 0n;
+  let ticksCrossed = 0;
+
+  while (remaining > 0n && sqrtPrice !== limit) {
+    // Next initialized tick in the swap direction
+    const nextTick = aToB
+      ? [...ticks].reverse().find(t => t.tick <= tick)
+      : ticks.find(t => t.tick > tick);
+
+    const sqrtPriceAtNext = nextTick ? getSqrtPriceAtTick(nextTick.tick) : limit;
+    const target = aToB
+      ? (sqrtPriceAtNext < limit ? limit : sqrtPriceAtNext)
+      : (sqrtPriceAtNext > limit ? limit : sqrtPriceAtNext);
+
+    const step = computeSwapStep(sqrtPrice, target, liquidity, remaining, pool.fee_bps);
+    remaining -= step.amountIn + step.feeAmount;
+    amountOut += step.amountOut;
+    feeAmount += step.feeAmount;
+
+    if (liquidity > 0n) {
+      const growth = (step.feeAmount * Q128) / liquidity;
+      if (aToB) {
+        feeGrowthGlobalA += growth;
+      } else {
+        feeGrowthGlobalB += growth;
+      }
+    }
+
+    sqrtPrice = step.sqrtPriceNextX96;
+
+    if (nextTick && sqrtPrice === sqrtPriceAtNext) {
+      // Cross the tick: flip its outside growth and apply its net liquidity
+      nextTick.fee_growth_outside_a_x128 = feeGrowthGlobalA - nextTick.fee_growth_outside_a_x128;
+      nextTick.fee_growth_outside_b_x128 = feeGrowthGlobalB - nextTick.fee_growth_outside_b_x128;
+      liquidity += aToB ? -nextTick.liquidity_net : nextTick.liquidity_net;
+      tick = aToB ? nextTick.tick - 1 : nextTick.tick;
+      ticksCrossed++;
+
+      if (ticksCrossed > RANGE_POSITION_CONSTANTS.MAX_TICKS_CROSSED) {
+        throw new Error(`Swap crosses more than ${RANGE_POSITION_CONSTANTS.MAX_TICKS_CROSSED} ticks`);
+      }
+    } else {
+      tick = getTickAtSqrtPrice(sqrtPrice);
+    }
+
+    if (!nextTick && liquidity === 0n) {
+      break;
+    }
+  }
+
+  if (remaining > 0n && sqrtPriceLimitX96 === undefined) {
+    throw new Error("Insufficient liquidity in range for swap amount");
+  }
+
+  const consumed = amountIn - remaining;
+  const priceBefore = sqrtPriceToPrice(pool.sqrt_price_x96);
+  const priceAfter = sqrtPriceToPrice(sqrtPrice);
+
+  return {
+    aToB,
+    amountIn: consumed,
+    amountOut,
+    feeAmount,
+    sqrtPriceAfterX96: sqrtPrice,
+    tickAfter: tick,
+    ticksCrossed,
+    priceImpact: Math.abs(priceAfter - priceBefore) / priceBefore * 100,
+    pool: {
+      ...pool,
+      sqrt_price_x96: sqrtPrice,
+      current_tick: tick,
+      liquidity,
+      fee_growth_global_a_x128: feeGrowthGlobalA,
+      fee_growth_global_b_x128: feeGrowthGlobalB,
+      ticks
+    }
+  };
+}
+
+// =============================================================================
+// UTXO PARSING
+// =============================================================================
+
+/**
+ * Parse a range pool or position UTxO at the pool validator
+ */
+export function parseRangePoolUtxo(utxo: UTxO, positionPolicyId: PolicyId): ConcentratedPoolInfo | RangePositionInfo | null {
+  if (!utxo.datum) {
+    return null;
+  }
+
+  try {
+    const referencePrefix = positionPolicyId + RANGE_POSITION_CONSTANTS.REFERENCE_LABEL;
+    const referenceUnit = Object.keys(utxo.assets).find(unit => unit.startsWith(referencePrefix));
+
+    if (referenceUnit) {
+      const datum = CIP68Serializer.deserializeRangePositionDatum(Data.from(utxo.datum));
+      if (!datum) return null;
+
+      return {
+        referenceUtxo: utxo,
+        datum,
+        referenceUnit,
+        userUnit: positionPolicyId + RANGE_POSITION_CONSTANTS.USER_LABEL + datum.position_data.position_name
+      };
+    }
+
+    const datum = CIP68Serializer.deserializeConcentratedPoolDatum(Data.from(utxo.datum));
+    if (!datum) return null;
+
+    return {
+      utxo,
+      datum,
+      price: sqrtPriceToPrice(datum.pool_state.sqrt_price_x96)
+    };
+  } catch {
+    return null;
+  }
+}
+
+function isPositionInfo(info: ConcentratedPoolInfo | RangePositionInfo): info is RangePositionInfo {
+  return (info as RangePositionInfo).referenceUnit !== undefined;
+}
+
+// =============================================================================
+// TRANSACTION BUILDERS
+// =============================================================================
+
+function addAssetAmount(assets: Assets, unit: string, amount: bigint): Assets {
+  const result = { ...assets };
+  const next = (result[unit] || 0n) + amount;
+  if (next === 0n) {
+    delete result[unit];
+  } else {
+    result[unit] = next;
+  }
+  return result;
+}
+
+function encodePoolDatum(pool: ConcentratedPoolInfo, state: ConcentratedPoolState): string {
+  return Data.to(CIP68Serializer.serializeConcentratedPoolDatum({ ...pool.datum, pool_state: state }));
+}
+
+function encodePositionDatum(position: RangePositionCIP68Datum, data: RangePositionData): string {
+  return Data.to(CIP68Serializer.serializeRangePositionDatum({ ...position, position_data: data }));
+}
+
+// Wallet UTxO holding a position's user NFT, spent to prove ownership
+async function findUserTokenUtxo(lucid: LucidEvolution, position: RangePositionInfo): Promise<UTxO> {
+  const utxos = await lucid.wallet().getUtxos();
+  const utxo = utxos.find(u => (u.assets[position.userUnit] || 0n) > 0n);
+  if (!utxo) {
+    throw new Error(`Connected wallet does not hold position NFT ${position.datum.position_data.position_name}`);
+  }
+  return utxo;
+}
+
+/**
+ * Build a transaction opening a new range position
+ * Mints the CIP-68 reference/user NFT pair; the position name is derived from
+ * a wallet UTxO spent in the same transaction, so it is unique.
+ * @param lucid - Lucid Evolution instance with a connected wallet
+ * @param contracts - Pool validator and position minting policy
+ * @param pool - Range pool to deposit into
+ * @param params - Tick range and token amounts
+ * @param userAddress - Address receiving the user NFT
+ * @param tokenSymbols - Symbols used in the position NFT metadata
+ */
+export async function buildOpenPositionTransaction(
+  lucid: LucidEvolution,
+  contracts: ConcentratedLiquidityContracts,
+  pool: ConcentratedPoolInfo,
+  params: OpenPositionParams,
+  userAddress: Address,
+  tokenSymbols: { tokenA: string; tokenB: string } = { tokenA: "A", tokenB: "B" }
+): Promise<TxSignBuilder> {
+  try {
+    const state = pool.datum.pool_state;
+    validateTickRange(state, params.tickLower, params.tickUpper);
+
+    const walletUtxos = await lucid.wallet().getUtxos();
+    if (walletUtxos.length === 0) {
+      throw new Error("Wallet has no UTxOs to derive a position name from");
+    }
+    const seedUtxo = walletUtxos[0];
+    const positionName = seedUtxo.txHash.slice(0, 48) + seedUtxo.outputIndex.toString(16).padStart(8, "0");
+
+    const liquidity = getLiquidityForAmounts(
+      state.sqrt_price_x96,
+      getSqrtPriceAtTick(params.tickLower),
+      getSqrtPriceAtTick(params.tickUpper),
+      params.amountADesired,
+      params.amountBDesired
+    );
+    if (liquidity <= 0n) {
+      throw new Error("Deposit amounts produce no liquidity for this range");
+    }
+
+    const currentSlot = lucid.currentSlot();
+    const emptyPosition: RangePositionData = {
+      position_name: positionName,
+      pool_nft_name: state.pool_nft_name,
+      pool_policy: state.pool_nft_policy,
+      tick_lower: params.tickLower,
+      tick_upper: params.tickUpper,
+      liquidity: 0n,
+      fee_growth_inside_a_last_x128: 0n,
+      fee_growth_inside_b_last_x128: 0n,
+      tokens_owed_a: 0n,
+      tokens_owed_b: 0n,
+      created_at_slot: currentSlot,
+      last_claim_slot: currentSlot
+    };
+
+    const result = modifyPosition(state, emptyPosition, liquidity);
+    if (result.amountA < params.amountAMin || result.amountB < params.amountBMin) {
+      throw new Error(`Deposit ${result.amountA}/${result.amountB} below minimum ${params.amountAMin}/${params.amountBMin}`);
+    }
+
+    const positionDatum = CIP68DatumBuilder.buildRangePositionDatum(
+      result.position,
+      tokenSymbols.tokenA,
+      tokenSymbols.tokenB
+    );
+
+    const positionPolicyId = mintingPolicyToId(contracts.positionPolicy);
+    const referenceUnit = positionPolicyId + RANGE_POSITION_CONSTANTS.REFERENCE_LABEL + positionName;
+    const userUnit = positionPolicyId + RANGE_POSITION_CONSTANTS.USER_LABEL + positionName;
+
+    let poolAssets = addAssetAmount(pool.utxo.assets, getRangePoolUnit(state.token_a_policy, state.token_a_name), result.amountA);
+    poolAssets = addAssetAmount(poolAssets, getRangePoolUnit(state.token_b_policy, state.token_b_name), result.amountB);
+
+    const poolRedeemer = Data.to(CIP68Serializer.serializeModifyPositionRedeemer(
+      positionName, params.tickLower, params.tickUpper, liquidity, userAddress
+    ));
+    const mintRedeemer = Data.to(CIP68Serializer.serializePositionMintRedeemer(state.pool_nft_name, positionName));
+
+    return await lucid
+      .newTx()
+      .collectFrom([seedUtxo])
+      .collectFrom([pool.utxo], poolRedeemer)
+      .mintAssets({ [referenceUnit]: 1n, [userUnit]: 1n }, mintRedeemer)
+      .pay.ToContract(pool.utxo.address, { kind: "inline", value: encodePoolDatum(pool, { ...result.pool, last_interaction_slot: currentSlot }) }, poolAssets)
+      .pay.ToContract(
+        pool.utxo.address,
+        { kind: "inline", value: Data.to(CIP68Serializer.serializeRangePositionDatum(positionDatum)) },
+        { lovelace: RANGE_POSITION_CONSTANTS.POSITION_MIN_ADA, [referenceUnit]: 1n }
+      )
+      .pay.ToAddress(userAddress, { [userUnit]: 1n })
+      .attach.SpendingValidator(contracts.poolValidator)
+      .attach.MintingPolicy(contracts.positionPolicy)
+      .complete();
+
+  } catch (error) {
+    throw new Error(`Failed to build open position transaction: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Build a transaction adding liquidity to an existing range position
+ */
+export async function buildIncreaseRangeLiquidityTransaction(
+  lucid: LucidEvolution,
+  contracts: ConcentratedLiquidityContracts,
+  pool: ConcentratedPoolInfo,
+  position: RangePositionInfo,
+  amounts: { amountADesired: bigint; amountBDesired: bigint; amountAMin: bigint; amountBMin: bigint },
+  userAddress: Address
+): Promise<TxSignBuilder> {
+  try {
+    const state = pool.datum.pool_state;
+    const data = position.datum.position_data;
+
+    const liquidity = getLiquidityForAmounts(
+      state.sqrt_price_x96,
+      getSqrtPriceAtTick(data.tick_lower),
+      getSqrtPriceAtTick(data.tick_upper),
+      amounts.amountADesired,
+      amounts.amountBDesired
+    );
+    if (liquidity <= 0n) {
+      throw new Error("Deposit amounts produce no liquidity for this range");
+    }
+
+    const result = modifyPosition(state, data, liquidity);
+    if (result.amountA < amounts.amountAMin || result.amountB < amounts.amountBMin) {
+      throw new Error(`Deposit ${result.amountA}/${result.amountB} below minimum ${amounts.amountAMin}/${amounts.amountBMin}`);
+    }
+
+    let poolAssets = addAssetAmount(pool.utxo.assets, getRangePoolUnit(state.token_a_policy, state.token_a_name), result.amountA);
+    poolAssets = addAssetAmount(poolAssets, getRangePoolUnit(state.token_b_policy, state.token_b_name), result.amountB);
+
+    const redeemer = Data.to(CIP68Serializer.serializeModifyPositionRedeemer(
+      data.position_name, data.tick_lower, data.tick_upper, liquidity, userAddress
+    ));
+    const userTokenUtxo = await findUserTokenUtxo(lucid, position);
+    const currentSlot = lucid.currentSlot();
+
+    return await lucid
+      .newTx()
+      .collectFrom([userTokenUtxo])
+      .collectFrom([pool.utxo, position.referenceUtxo], redeemer)
+      .pay.ToContract(pool.utxo.address, { kind: "inline", value: encodePoolDatum(pool, { ...result.pool, last_interaction_slot: currentSlot }) }, poolAssets)
+      .pay.ToContract(position.referenceUtxo.address, { kind: "inline", value: encodePositionDatum(position.datum, result.position) }, position.referenceUtxo.assets)
+      .attach.SpendingValidator(contracts.poolValidator)
+      .complete();
+
+  } catch (error) {
+    throw new Error(`Failed to build increase liquidity transaction: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Build a transaction removing liquidity from a range position
+ * Withdrawn principal and all owed fees are paid to the owner. When the
+ * position is emptied and burnWhenEmpty is set, both position NFTs are burned.
+ */
+export async function buildRemoveRangeLiquidityTransaction(
+  lucid: LucidEvolution,
+  contracts: ConcentratedLiquidityContracts,
+  pool: ConcentratedPoolInfo,
+  position: RangePositionInfo,
+  params: RemoveRangeLiquidityParams,
+  userAddress: Address
+): Promise<TxSignBuilder> {
+  try {
+    const state = pool.datum.pool_state;
+    const data = position.datum.position_data;
+
+    if (params.liquidity <= 0n) {
+      throw new Error("Liquidity to remove must be positive");
+    }
+
+    const result = modifyPosition(state, data, -params.liquidity);
+    if (result.amountA < params.amountAMin || result.amountB < params.amountBMin) {
+      throw new Error(`Withdrawal ${result.amountA}/${result.amountB} below minimum ${params.amountAMin}/${params.amountBMin}`);
+    }
+
+    const payoutA = result.amountA + result.position.tokens_owed_a;
+    const payoutB = result.amountB + result.position.tokens_owed_b;
+    const unitA = getRangePoolUnit(state.token_a_policy, state.token_a_name);
+    const unitB = getRangePoolUnit(state.token_b_policy, state.token_b_name);
+
+    let poolAssets = addAssetAmount(pool.utxo.assets, unitA, -payoutA);
+    poolAssets = addAssetAmount(poolAssets, unitB, -payoutB);
+
+    const currentSlot = lucid.currentSlot();
+    const settledPosition: RangePositionData = {
+      ...result.position,
+      tokens_owed_a: 0n,
+      tokens_owed_b: 0n,
+      last_claim_slot: currentSlot
+    };
+
+    const redeemer = Data.to(CIP68Serializer.serializeModifyPositionRedeemer(
+      data.position_name, data.tick_lower, data.tick_upper, -params.liquidity, userAddress
+    ));
+    const userTokenUtxo = await findUserTokenUtxo(lucid, position);
+    const burn = params.burnWhenEmpty && settledPosition.liquidity === 0n;
+
+    let tx = lucid
+      .newTx()
+      .collectFrom([userTokenUtxo])
+      .collectFrom([pool.utxo, position.referenceUtxo], redeemer)
+      .pay.ToContract(pool.utxo.address, { kind: "inline", value: encodePoolDatum(pool, { ...result.pool, last_interaction_slot: currentSlot }) }, poolAssets)
+      .pay.ToAddress(userAddress, addAssetAmount(addAssetAmount({}, unitA, payoutA), unitB, payoutB))
+      .attach.SpendingValidator(contracts.poolValidator);
+
+    if (burn) {
+      tx = tx
+        .mintAssets(
+          { [position.referenceUnit]: -1n, [position.userUnit]: -1n },
+          Data.to(CIP68Serializer.serializePositionBurnRedeemer(data.position_name))
+        )
+        .attach.MintingPolicy(contracts.positionPolicy);
+    } else {
+      tx = tx.pay.ToContract(
+        position.referenceUtxo.address,
+        { kind: "inline", value: encodePositionDatum(position.datum, settledPosition) },
+        position.referenceUtxo.assets
+      );
+    }
+
+    return await tx.complete();
+
+  } catch (error) {
+    throw new Error(`Failed to build remove liquidity transaction: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Build a transaction paying out a position's accrued swap fees
+ */
+export async function buildCollectFeesTransaction(
+  lucid: LucidEvolution,
+  contracts: ConcentratedLiquidityContracts,
+  pool: ConcentratedPoolInfo,
+  position: RangePositionInfo,
+  userAddress: Address
+): Promise<TxSignBuilder> {
+  try {
+    const state = pool.datum.pool_state;
+    const data = position.datum.position_data;
+
+    // Everything earned since the last snapshot plus fees already owed
+    const { feesA, feesB } = calculateUncollectedFees(state, data);
+    if (feesA === 0n && feesB === 0n) {
+      throw new Error("Position has no fees to collect");
+    }
+
+    const { insideA, insideB } = getFeeGrowthInside(state, data.tick_lower, data.tick_upper);
+    const currentSlot = lucid.currentSlot();
+    const updatedPosition: RangePositionData = {
+      ...data,
+      fee_growth_inside_a_last_x128: insideA,
+      fee_growth_inside_b_last_x128: insideB,
+      tokens_owed_a: 0n,
+      tokens_owed_b: 0n,
+      last_claim_slot: currentSlot
+    };
+
+    const unitA = getRangePoolUnit(state.token_a_policy, state.token_a_name);
+    const unitB = getRangePoolUnit(state.token_b_policy, state.token_b_name);
+    let poolAssets = addAssetAmount(pool.utxo.assets, unitA, -feesA);
+    poolAssets = addAssetAmount(poolAssets, unitB, -feesB);
+
+    const redeemer = Data.to(CIP68Serializer.serializeCollectFeesRedeemer(data.position_name, feesA, feesB, userAddress));
+    const userTokenUtxo = await findUserTokenUtxo(lucid, position);
+
+    return await lucid
+      .newTx()
+      .collectFrom([userTokenUtxo])
+      .collectFrom([pool.utxo, position.referenceUtxo], redeemer)
+      .pay.ToContract(pool.utxo.address, { kind: "inline", value: encodePoolDatum(pool, { ...state, last_interaction_slot: currentSlot }) }, poolAssets)
+      .pay.ToContract(position.referenceUtxo.address, { kind: "inline", value: encodePositionDatum(position.datum, updatedPosition) }, position.referenceUtxo.assets)
+      .pay.ToAddress(userAddress, addAssetAmount(addAssetAmount({}, unitA, feesA), unitB, feesB))
+      .attach.SpendingValidator(contracts.poolValidator)
+      .complete();
+
+  } catch (error) {
+    throw new Error(`Failed to build collect fees transaction: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Build an exact-input swap against a range pool
+ */
+export async function buildConcentratedSwapTransaction(
+  lucid: LucidEvolution,
+  contracts: ConcentratedLiquidityContracts,
+  pool: ConcentratedPoolInfo,
+  params: ConcentratedSwapParams,
+  userAddress: Address
+): Promise<TxSignBuilder> {
+  try {
+    const state = pool.datum.pool_state;
+    const quote = simulateConcentratedSwap(state, params.amountIn, params.aToB, params.sqrtPriceLimitX96);
+
+    if (quote.amountOut < params.minAmountOut) {
+      throw new Error(`Insufficient output: expected ${params.minAmountOut}, got ${quote.amountOut}`);
+    }
+
+    const unitA = getRangePoolUnit(state.token_a_policy, state.token_a_name);
+    const unitB = getRangePoolUnit(state.token_b_policy, state.token_b_name);
+    const [unitIn, unitOut] = params.aToB ? [unitA, unitB] : [unitB, unitA];
+
+    let poolAssets = addAssetAmount(pool.utxo.assets, unitIn, quote.amountIn);
+    poolAssets = addAssetAmount(poolAssets, unitOut, -quote.amountOut);
+
+    const redeemer = Data.to(CIP68Serializer.serializeConcentratedSwapRedeemer(
+      params.aToB,
+      quote.amountIn,
+      params.minAmountOut,
+      params.sqrtPriceLimitX96 ?? 0n,
+      userAddress
+    ));
+
+    let tx = lucid
+      .newTx()
+      .collectFrom([pool.utxo], redeemer)
+      .pay.ToContract(pool.utxo.address, { kind: "inline", value: encodePoolDatum(pool, { ...quote.pool, last_interaction_slot: lucid.currentSlot() }) }, poolAssets)
+      .pay.ToAddress(userAddress, { [unitOut]: quote.amountOut })
+      .attach.SpendingValidator(contracts.poolValidator);
+
+    if (params.deadline) {
+      tx = tx.validTo(params.deadline);
+    }
+
+    return await tx.complete();
+
+  } catch (error) {
+    throw new Error(`Failed to build concentrated swap transaction: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// =============================================================================
+// RANGE POOL MANAGER
+// =============================================================================
+
+/**
+ * PuckSwap v4 Concentrated Liquidity Manager
+ * Lists range pools and positions, and opens, adjusts and collects positions
+ */
+export class PuckSwapConcentratedLiquidityV4 {
+  private lucid: LucidEvolution;
+  private contracts: ConcentratedLiquidityContracts;
+  private poolAddress: Address;
+  private positionPolicyId: PolicyId;
+
+  constructor(lucid: LucidEvolution, contracts: ConcentratedLiquidityContracts) {
+    this.lucid = lucid;
+    this.contracts = contracts;
+    this.poolAddress = validatorToAddress(getLucidNetwork(lucid), contracts.poolValidator);
+    this.positionPolicyId = mintingPolicyToId(contracts.positionPolicy);
+  }
+
+  /**
+   * Initialize manager with Lucid Evolution
+   */
+  static async create(
+    contractCBORs: {
+      poolValidator: string;
+      positionPolicy: string;
+    },
+    network?: "Mainnet" | "Preview" | "Preprod",
+    walletName?: "eternl" | "nami" | "vespr" | "lace" | "typhon" | "flint"
+  ): Promise<PuckSwapConcentratedLiquidityV4> {
+    const lucid = await createLucidInstance(network ? { network } : undefined);
+
+    if (walletName) {
+      await connectWallet(lucid, walletName);
+    }
+
+    return new PuckSwapConcentratedLiquidityV4(lucid, {
+      poolValidator: { type: "PlutusV2", script: contractCBORs.poolValidator },
+      positionPolicy: { type: "PlutusV2", script: contractCBORs.positionPolicy }
+    });
+  }
+
+  async connectWallet(walletName: "eternl" | "nami" | "vespr" | "lace" | "typhon" | "flint"): Promise<void> {
+    await connectWallet(this.lucid, walletName);
+  }
+
+  /**
+   * All range pools at the pool validator
+   */
+  async getPools(): Promise<ConcentratedPoolInfo[]> {
+    const parsed = await this.getParsedUtxos();
+    return parsed.filter((info): info is ConcentratedPoolInfo => !isPositionInfo(info));
+  }
+
+  async getPool(poolNftName: string): Promise<ConcentratedPoolInfo> {
+    const pool = (await this.getPools()).find(p => p.datum.pool_state.pool_nft_name === poolNftName);
+    if (!pool) {
+      throw new Error(`Range pool ${poolNftName} not found`);
+    }
+    return pool;
+  }
+
+  /**
+   * Positions owned by the connected wallet (by user NFT), or all positions
+   */
+  async getPositions(ownedOnly: boolean = true): Promise<RangePositionInfo[]> {
+    const parsed = await this.getParsedUtxos();
+    const positions = parsed.filter(isPositionInfo);
+
+    if (!ownedOnly) {
+      return positions;
+    }
+
+    this.requireWallet();
+    const walletUtxos = await this.lucid.wallet().getUtxos();
+    const ownedUnits = new Set(walletUtxos.flatMap(utxo => Object.keys(utxo.assets)));
+    return positions.filter(position => ownedUnits.has(position.userUnit));
+  }
+
+  /**
+   * Uncollected fees for a position at the current pool state
+   */
+  async getUncollectedFees(position: RangePositionInfo): Promise<{ feesA: bigint; feesB: bigint }> {
+    const pool = await this.getPool(position.datum.position_data.pool_nft_name);
+    return calculateUncollectedFees(pool.datum.pool_state, position.datum.position_data);
+  }
+
+  async quoteSwap(poolNftName: string, amountIn: bigint, aToB: boolean): Promise<ConcentratedSwapQuote> {
+    const pool = await this.getPool(poolNftName);
+    return simulateConcentratedSwap(pool.datum.pool_state, amountIn, aToB);
+  }
+
+  async swap(poolNftName: string, params: ConcentratedSwapParams): Promise<TxHash> {
+    this.requireWallet();
+    const pool = await this.getPool(poolNftName);
+    const tx = await buildConcentratedSwapTransaction(
+      this.lucid, this.contracts, pool, params, await this.lucid.wallet().address()
+    );
+    return this.signAndSubmit(tx, "Range pool swap");
+  }
+
+  async openPosition(
+    poolNftName: string,
+    params: OpenPositionParams,
+    tokenSymbols?: { tokenA: string; tokenB: string }
+  ): Promise<TxHash> {
+    this.requireWallet();
+    const pool = await this.getPool(poolNftName);
+    const tx = await buildOpenPositionTransaction(
+      this.lucid, this.contracts, pool, params, await this.lucid.wallet().address(), tokenSymbols
+    );
+    return this.signAndSubmit(tx, "Range position opened");
+  }
+
+  async increaseLiquidity(
+    position: RangePositionInfo,
+    amounts: { amountADesired: bigint; amountBDesired: bigint; amountAMin: bigint; amountBMin: bigint }
+  ): Promise<TxHash> {
+    this.requireWallet();
+    const pool = await this.getPool(position.datum.position_data.pool_nft_name);
+    const tx = await buildIncreaseRangeLiquidityTransaction(
+      this.lucid, this.contracts, pool, position, amounts, await this.lucid.wallet().address()
+    );
+    return this.signAndSubmit(tx, "Range liquidity added");
+  }
+
+  async removeLiquidity(position: RangePositionInfo, params: RemoveRangeLiquidityParams): Promise<TxHash> {
+    this.requireWallet();
+    const pool = await this.getPool(position.datum.position_data.pool_nft_name);
+    const tx = await buildRemoveRangeLiquidityTransaction(
+      this.lucid, this.contracts, pool, position, params, await this.lucid.wallet().address()
+    );
+    return this.signAndSubmit(tx, "Range liquidity removed");
+  }
+
+  async collectFees(position: RangePositionInfo): Promise<TxHash> {
+    this.requireWallet();
+    const pool = await this.getPool(position.datum.position_data.pool_nft_name);
+    const tx = await buildCollectFeesTransaction(
+      this.lucid, this.contracts, pool, position, await this.lucid.wallet().address()
+    );
+    return this.signAndSubmit(tx, "Range position fees collected");
+  }
+
+  // Private methods
+
+  private requireWallet(): void {
+    if (!this.lucid.config().wallet) {
+      throw new Error("Wallet not connected. Call connectWallet() first.");
+    }
+  }
+
+  private async getParsedUtxos(): Promise<(ConcentratedPoolInfo | RangePositionInfo)[]> {
+    const utxos = await this.lucid.utxosAt(this.poolAddress);
+    return utxos
+      .map(utxo => parseRangePoolUtxo(utxo, this.positionPolicyId))
+      .filter((info): info is ConcentratedPoolInfo | RangePositionInfo => info !== null);
+  }
+
+  private async signAndSubmit(tx: TxSignBuilder, label: string): Promise<TxHash> {
+    const signedTx = await tx.sign.withWallet().complete();
+    const txHash = await signedTx.submit();
+    console.log(`${label}: ${txHash}`);
+    return txHash;
+  }
+}
@@ -21,7 +21,8 @@ import {
   OutRef,
   Datum,
   Redeemer,
-  Constr
+  Constr,
+  getAddressDetails
 } from "@lucid-evolution/lucid";
 
 import { createLucidInstance, connectWallet } from "../lib/lucid-config";
@@ -29,6 +30,12 @@ import { getEnvironmentConfig, ENV_CONFIG } from "../lib/environment-config";
 
 // Import min ADA management utilities
 import { MinAdaManager, MIN_ADA_CONSTANTS } from "../lib/min-ada-manager";
+import {
+  AdminMultisigCoordinator,
+  PendingAdminTx,
+  AdminSignatureRecord,
+  selectAdminSigners
+} from "./admin-multisig";
 
 // Canonical CrossChainRouterDatum from PuckSwap v5 Master Schema
 export interface CrossChainRouterDatum {
@@ -58,6 +65,7 @@ export interface CrossChainRouterState {
   processedMessageHashes: string[];
   trustedBridges: TrustedBridge[];
   bridgeOperators: Address[];
+  adminAddresses: Address[]; // M-of-N signers for security parameter updates
   governanceAddress: Address;
   minConfirmations: number;
   maxMessageAgeSlots: number;
@@ -182,6 +190,7 @@ export class PuckSwapCrossChainRouter {
   private routerValidator: SpendingValidator;
   private packetValidator: SpendingValidator;
   private routerAddress: Address;
+  private adminMultisig: AdminMultisigCoordinator | null = null;
 
   constructor(
     lucid: Lucid,
@@ -242,6 +251,11 @@ export class PuckSwapCrossChainRouter {
     await connectWallet(this.lucid, walletName);
   }
 
+  // Require M-of-N admin signatures for security parameter updates
+  setAdminMultisig(adminMultisig: AdminMultisigCoordinator | null): void {
+    this.adminMultisig = adminMultisig;
+  }
+
   // Get cross-chain router state
   async getRouterState(): Promise<CrossChainRouterState | null> {
     try {
@@ -457,6 +471,10 @@ export class PuckSwapCrossChainRouter {
         throw new Error("Cross-chain router not found");
       }
 
+      if (this.adminMultisig) {
+        throw new Error("Router admin multisig is enabled; use proposeSecurityParamsUpdate");
+      }
+
       const userAddress = await this.lucid.wallet.address();
       if (userAddress !== routerState.governanceAddress) {
         throw new Error("Only governance can update security parameters");
@@ -478,6 +496,70 @@ export class PuckSwapCrossChainRouter {
     }
   }
 
+  /**
+   * Build a security parameter update that needs M-of-N admin signatures
+   * The connected admin signs immediately; other admins sign with signAdminTx
+   * @param coSigners - Admin addresses to require besides the proposer
+   */
+  async proposeSecurityParamsUpdate(params: SecurityParamsUpdate, coSigners: Address[] = []): Promise<PendingAdminTx> {
+    try {
+      const adminMultisig = this.requireAdminMultisig();
+      const routerState = await this.getRouterState();
+      if (!routerState) {
+        throw new Error("Cross-chain router not found");
+      }
+
+      this.validateSecurityParams(params);
+
+      const policy = adminMultisig.createPolicy(routerState.adminAddresses.map(admin => this.adminKeyHash(admin)));
+      const proposer = this.adminKeyHash(await this.lucid.wallet.address());
+      const signers = selectAdminSigners(policy, proposer, coSigners.map(signer => this.adminKeyHash(signer)));
+
+      const tx = await this.buildUpdateSecurityParamsTransaction(params, routerState, signers);
+      const txHash = tx.toHash();
+
+      await adminMultisig.propose({
+        action: 'RouterSecurityParams',
+        description: `Update router security params: ${Object.keys(params).join(", ")}`,
+        txHash,
+        txCbor: tx.toCBOR(),
+        requiredSigners: signers,
+        policy
+      });
+
+      return await adminMultisig.addWitness(txHash, await tx.partialSign.withWallet());
+    } catch (error) {
+      console.error("Error proposing security parameter update:", error);
+      throw error;
+    }
+  }
+
+  // Add the connected admin's witness to a pending admin transaction
+  async signAdminTx(txHash: TxHash): Promise<PendingAdminTx> {
+    try {
+      const adminMultisig = this.requireAdminMultisig();
+      const pending = await adminMultisig.getPending(txHash);
+      const witness = await this.lucid.fromTx(pending.txCbor).partialSign.withWallet();
+      return await adminMultisig.addWitness(txHash, witness);
+    } catch (error) {
+      console.error("Error signing admin transaction:", error);
+      throw error;
+    }
+  }
+
+  // Assemble collected admin witnesses and submit
+  async submitAdminTx(txHash: TxHash): Promise<AdminSignatureRecord> {
+    try {
+      return await this.requireAdminMultisig().submit(txHash, async (txCbor, witnesses) => {
+        const signedTx = await this.lucid.fromTx(txCbor).assemble(witnesses).complete();
+        return signedTx.submit();
+      });
+    } catch (error) {
+      console.error("Error submitting admin transaction:", error);
+      throw error;
+    }
+  }
+
   // Get supported chains
   getSupportedChains(routerState: CrossChainRouterState): ChainConnection[] {
     return routerState.chainConnections.filter(connection => connection.isActive);
@@ -589,6 +671,7 @@ export class PuckSwapCrossChainRouter {
         }
       ],
       bridgeOperators: ["addr1_operator_1", "addr1_operator_2"],
+      adminAddresses: ["addr1_admin_1", "addr1_admin_2", "addr1_admin_3"],
       governanceAddress: "addr1_governance",
       minConfirmations: 3,
       maxMessageAgeSlots: 604800, // 7 days
@@ -683,7 +766,8 @@ export class PuckSwapCrossChainRouter {
       throw new Error("Invalid block number");
     }
 
-    if (!proof.merkleProof || proof.merkleProof.length === 0) {
+    // Empty when the message is the only one committed in its block
+    if (!Array.isArray(proof.merkleProof)) {
       throw new Error("Merkle proof is required");
     }
 
@@ -1103,7 +1187,8 @@ export class PuckSwapCrossChainRouter {
 
   private async buildUpdateSecurityParamsTransaction(
     params: SecurityParamsUpdate,
-    routerState: CrossChainRouterState
+    routerState: CrossChainRouterState,
+    signerKeyHashes: string[] = []
   ): Promise<TxComplete> {
     // Get router UTxO
     const routerUtxo = await this.getRouterUtxo();
@@ -1146,16 +1231,38 @@ export class PuckSwapCrossChainRouter {
     }
 
     // Build and complete transaction
-    const tx = await this.lucid.newTx()
+    let txBuilder = this.lucid.newTx()
       .collectFrom([routerUtxo], redeemer)
       .payToContract(this.routerAddress, { inline: newDatumData }, routerOutputAssets)
-      .attachSpendingValidator(this.routerValidator)
+      .attachSpendingValidator(this.routerValidator);
+
+    // Multisig admins are listed as required signers
+    for (const keyHash of signerKeyHashes) {
+      txBuilder = txBuilder.addSignerKey(keyHash);
+    }
+
+    const tx = await txBuilder
       .validTo(Date.now() + 1200000) // 20 minute deadline
       .complete();
 
     return tx;
   }
 
+  private requireAdminMultisig(): AdminMultisigCoordinator {
+    if (!this.adminMultisig) {
+      throw new Error("Router admin multisig is not configured");
+    }
+    return this.adminMultisig;
+  }
+
+  private adminKeyHash(address: Address): string {
+    const { paymentCredential } = getAddressDetails(address);
+    if (!paymentCredential || paymentCredential.type !== "Key") {
+      throw new Error(`Admin ${address} must be a key-based address`);
+    }
+    return paymentCredential.hash;
+  }
+
   /**
    * Get router UTxO
    */
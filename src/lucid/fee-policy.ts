@@ -0,0 +1,190 @@
+// PuckSwap v4 Dynamic Fee Policy
+// Derives a per-pool swap fee from realized volatility and 24h volume recorded
+// by PoolMonitor analytics, clamped to the registry's minFeeBps/maxFeeBps
+// Volatile pools charge more to compensate LPs; busy pools get a volume discount
+
+import type { PoolAnalytics } from "../context7/pool_monitor";
+
+// =============================================================================
+// FEE POLICY TYPES
+// =============================================================================
+
+export const FEE_POLICY_DEFAULTS = {
+  BASE_FEE_BPS: 30,
+  VOLATILITY_FEE_BPS_PER_PERCENT: 10, // Each 1% of realized volatility adds 10 bps
+  TARGET_VOLUME_24H: 100_000_000_000n, // 100k ADA in lovelace
+  MAX_VOLUME_DISCOUNT_BPS: 10,
+  MIN_PRICE_SAMPLES: 3
+} as const;
+
+export interface FeePolicyConfig {
+  baseFeeBps: number;
+  volatilityFeeBpsPerPercent: number;
+  targetVolume24h: bigint; // Volume at which the full discount applies
+  maxVolumeDiscountBps: number;
+  minPriceSamples: number; // Below this, volatility is treated as zero
+}
+
+// Registry bounds from PoolRegistryDatumV4
+export interface FeeBounds {
+  minFeeBps: number;
+  maxFeeBps: number;
+}
+
+// Anything that exposes pool analytics, e.g. PoolMonitor
+export interface PoolAnalyticsSource {
+  getPoolAnalytics(poolAddress: string): PoolAnalytics | null;
+}
+
+export interface DynamicFeeQuote {
+  feeBps: number;
+  baseFeeBps: number;
+  volatilityComponentBps: number;
+  volumeDiscountBps: number;
+  volatility: number; // Realized volatility over the price history, in percent
+  volume24h: bigint;
+  clamped: boolean;
+  isDynamic: boolean; // False when no analytics were available
+}
+
+export function createDefaultFeePolicyConfig(): FeePolicyConfig {
+  return {
+    baseFeeBps: FEE_POLICY_DEFAULTS.BASE_FEE_BPS,
+    volatilityFeeBpsPerPercent: FEE_POLICY_DEFAULTS.VOLATILITY_FEE_BPS_PER_PERCENT,
+    targetVolume24h: FEE_POLICY_DEFAULTS.TARGET_VOLUME_24H,
+    maxVolumeDiscountBps: FEE_POLICY_DEFAULTS.MAX_VOLUME_DISCOUNT_BPS,
+    minPriceSamples: FEE_POLICY_DEFAULTS.MIN_PRICE_SAMPLES
+  };
+}
+
+// =============================================================================
+// FEE CALCULATION
+// =============================================================================
+
+/**
+ * Realized volatility of a price series: standard deviation of log returns, in percent
+ * @param priceHistory - Price samples ordered by timestamp
+ */
+export function calculateRealizedVolatility(priceHistory: Array<{ timestamp: number; price: number }>): number {
+  const prices = [...priceHistory]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(entry => entry.price)
+    .filter(price => price > 0 && Number.isFinite(price));
+
+  if (prices.length < 2) {
+    return 0;
+  }
+
+  const returns: number[] = [];
+  for (let i = 1; i < prices.length; i++) {
+    returns.push(Math.log(prices[i] / prices[i - 1]));
+  }
+
+  const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+  const variance = returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) / returns.length;
+
+  return Math.sqrt(variance) * 100;
+}
+
+export function clampFee(feeBps: number, bounds: FeeBounds): number {
+  return Math.min(Math.max(feeBps, bounds.minFeeBps), bounds.maxFeeBps);
+}
+
+/**
+ * Calculate a pool's dynamic fee from its analytics
+ * @param analytics - Pool analytics, or null to fall back to the static fee
+ * @param bounds - Registry fee bounds
+ * @param config - Fee policy parameters
+ * @param fallbackFeeBps - Fee used when no analytics are available
+ * @returns Fee quote with its components
+ */
+export function calculateDynamicFee(
+  analytics: PoolAnalytics | null,
+  bounds: FeeBounds,
+  config: FeePolicyConfig = createDefaultFeePolicyConfig(),
+  fallbackFeeBps: number = config.baseFeeBps
+): DynamicFeeQuote {
+  if (bounds.minFeeBps > bounds.maxFeeBps) {
+    throw new Error(`Invalid fee bounds: ${bounds.minFeeBps} > ${bounds.maxFeeBps}`);
+  }
+
+  if (!analytics) {
+    const feeBps = clampFee(fallbackFeeBps, bounds);
+    return {
+      feeBps,
+      baseFeeBps: fallbackFeeBps,
+      volatilityComponentBps: 0,
+      volumeDiscountBps: 0,
+      volatility: 0,
+      volume24h: 0n,
+      clamped: feeBps !== fallbackFeeBps,
+      isDynamic: false
+    };
+  }
+
+  const volatility = analytics.priceHistory.length >= config.minPriceSamples
+    ? calculateRealizedVolatility(analytics.priceHistory)
+    : 0;
+  const volatilityComponentBps = Math.round(volatility * config.volatilityFeeBpsPerPercent);
+
+  // Linear discount up to the target volume
+  const volumeRatio = config.targetVolume24h > 0n
+    ? Math.min(Number(analytics.volume24h * 10_000n / config.targetVolume24h) / 10_000, 1)
+    : 0;
+  const volumeDiscountBps = Math.floor(volumeRatio * config.maxVolumeDiscountBps);
+
+  const rawFeeBps = config.baseFeeBps + volatilityComponentBps - volumeDiscountBps;
+  const feeBps = clampFee(rawFeeBps, bounds);
+
+  return {
+    feeBps,
+    baseFeeBps: config.baseFeeBps,
+    volatilityComponentBps,
+    volumeDiscountBps,
+    volatility,
+    volume24h: analytics.volume24h,
+    clamped: feeBps !== rawFeeBps,
+    isDynamic: true
+  };
+}
+
+// =============================================================================
+// FEE ENGINE
+// =============================================================================
+
+/**
+ * PuckSwap Dynamic Fee Engine
+ * Reads live analytics from a PoolMonitor and prices each pool's fee
+ */
+export class DynamicFeeEngine {
+  private source: PoolAnalyticsSource;
+  private config: FeePolicyConfig;
+
+  constructor(source: PoolAnalyticsSource, config: Partial<FeePolicyConfig> = {}) {
+    this.source = source;
+    this.config = { ...createDefaultFeePolicyConfig(), ...config };
+  }
+
+  /**
+   * Current fee for a pool
+   * @param poolAddress - Pool address tracked by the analytics source
+   * @param bounds - Registry fee bounds
+   * @param fallbackFeeBps - Pool's static fee, used until analytics exist
+   */
+  getFee(poolAddress: string, bounds: FeeBounds, fallbackFeeBps?: number): DynamicFeeQuote {
+    return calculateDynamicFee(
+      this.source.getPoolAnalytics(poolAddress),
+      bounds,
+      this.config,
+      fallbackFeeBps ?? this.config.baseFeeBps
+    );
+  }
+
+  getConfig(): FeePolicyConfig {
+    return { ...this.config };
+  }
+
+  updateConfig(config: Partial<FeePolicyConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+}
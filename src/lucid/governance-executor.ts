@@ -0,0 +1,84 @@
+// PuckSwap v4 Enterprise - Governance Executor
+// Builds one execution transaction per proposal: the governance UTxO is spent
+// together with each target contract UTxO (pool registry, treasury) that the
+// proposal's actions touch, so targets can check the proposal on-chain
+
+import type { TxBuilder } from "@lucid-evolution/lucid";
+import type { GovernanceDatum, Proposal } from "./governance-v4";
+import {
+  ActionTarget,
+  GovernanceActionResult,
+  applyGovernanceActions
+} from "./governance-timelock";
+
+// =============================================================================
+// EXECUTOR TYPES
+// =============================================================================
+
+export interface GovernanceExecution {
+  proposal: Proposal;
+  result: GovernanceActionResult;
+}
+
+// Contract that applies its share of an executed proposal
+export interface GovernanceExecutionTarget {
+  readonly executionTarget: Exclude<ActionTarget, 'governance'>;
+  addGovernanceExecution(tx: TxBuilder, execution: GovernanceExecution): Promise<TxBuilder>;
+}
+
+// =============================================================================
+// GOVERNANCE EXECUTOR
+// =============================================================================
+
+/**
+ * Routes each proposal action to the contract it targets
+ * Governance-only actions are applied to the governance datum by the caller
+ */
+export class GovernanceExecutor {
+  private targets: Map<ActionTarget, GovernanceExecutionTarget> = new Map();
+
+  constructor(targets: GovernanceExecutionTarget[] = []) {
+    targets.forEach(target => this.register(target));
+  }
+
+  register(target: GovernanceExecutionTarget): void {
+    this.targets.set(target.executionTarget, target);
+  }
+
+  /**
+   * Apply a proposal's actions
+   * @param proposal - Proposal being executed
+   * @param governanceState - Current governance datum
+   * @returns Result for the governance datum and the targets the proposal touches
+   */
+  resolve(proposal: Proposal, governanceState: GovernanceDatum): { execution: GovernanceExecution; targets: GovernanceExecutionTarget[] } {
+    const result = applyGovernanceActions(proposal.actions, governanceState);
+
+    const touched = new Set(
+      result.previews
+        .map(preview => preview.target)
+        .filter(target => target !== 'governance')
+    );
+
+    const targets = [...touched].map(target => {
+      const handler = this.targets.get(target);
+      if (!handler) {
+        throw new Error(`Proposal ${proposal.proposalId} has ${target} actions but no ${target} executor is registered`);
+      }
+      return handler;
+    });
+
+    return { execution: { proposal, result }, targets };
+  }
+
+  /**
+   * Add every target contract's leg to a transaction that already spends the governance UTxO
+   */
+  async addTargetLegs(tx: TxBuilder, execution: GovernanceExecution, targets: GovernanceExecutionTarget[]): Promise<TxBuilder> {
+    let txBuilder = tx;
+    for (const target of targets) {
+      txBuilder = await target.addGovernanceExecution(txBuilder, execution);
+    }
+    return txBuilder;
+  }
+}
@@ -0,0 +1,262 @@
+// PuckSwap v4 Enterprise - Governance Timelock
+// Succeeded proposals are queued with an ETA of executionDelaySlots and can
+// only execute inside [eta, eta + grace period]
+// Actions are applied in order; previews run the same logic without a transaction
+
+import type { Address, Assets } from "@lucid-evolution/lucid";
+import type { GovernanceAction, GovernanceDatum, Proposal } from "./governance-v4";
+import type { CreateStreamParams } from "./treasury-streams";
+
+// =============================================================================
+// TIMELOCK TYPES
+// =============================================================================
+
+export const TIMELOCK_CONSTANTS = {
+  MAX_ACTIONS_PER_PROPOSAL: 10,
+  GRACE_PERIOD_SLOTS: 1_209_600 // 14 days to execute after the ETA
+} as const;
+
+export type TimelockStatus = 'NotQueued' | 'Waiting' | 'Ready' | 'Expired' | 'Executed';
+
+// Parameters held outside the governance datum (pool registry and protocol fees)
+export interface ProtocolParameters {
+  protocolFeeBps: number;
+  minFeeBps: number;
+  maxFeeBps: number;
+  minInitialLiquidity: bigint;
+  registryFee: bigint;
+  supportedTokens: string[];
+  paused: boolean;
+}
+
+export type ActionTarget = 'governance' | 'registry' | 'treasury';
+
+export interface ActionChange {
+  field: string;
+  before: unknown; // undefined when the current value is not known
+  after: unknown;
+}
+
+export interface ActionPreview {
+  index: number;
+  type: GovernanceAction['type'];
+  target: ActionTarget;
+  summary: string;
+  changes: ActionChange[];
+}
+
+export interface TreasuryPayout {
+  recipient: Address;
+  assets: Assets;
+}
+
+export interface GovernanceActionResult {
+  governanceState: GovernanceDatum;
+  protocolParameters: Partial<ProtocolParameters>;
+  payouts: TreasuryPayout[];
+  streamCreations: CreateStreamParams[];
+  streamCancellations: string[];
+  previews: ActionPreview[];
+}
+
+export interface ProposalExecutionPreview {
+  proposalId: number;
+  status: TimelockStatus;
+  eta: number;
+  expiresAtSlot: number;
+  slotsUntilExecutable: number;
+  actions: ActionPreview[];
+  payouts: TreasuryPayout[];
+}
+
+// =============================================================================
+// TIMELOCK SCHEDULE
+// =============================================================================
+
+/**
+ * Timelock status of a proposal at a slot
+ */
+export function getTimelockStatus(
+  proposal: Proposal,
+  currentSlot: number,
+  gracePeriodSlots: number = TIMELOCK_CONSTANTS.GRACE_PERIOD_SLOTS
+): TimelockStatus {
+  if (proposal.executed || proposal.status === 'Executed') {
+    return 'Executed';
+  }
+  if (proposal.status !== 'Queued') {
+    return 'NotQueued';
+  }
+  if (currentSlot < proposal.executionSlot) {
+    return 'Waiting';
+  }
+  return currentSlot > proposal.executionSlot + gracePeriodSlots ? 'Expired' : 'Ready';
+}
+
+/**
+ * ETA for a proposal queued at currentSlot
+ */
+export function calculateTimelockEta(currentSlot: number, executionDelaySlots: number): number {
+  if (executionDelaySlots < 0) {
+    throw new Error("Execution delay cannot be negative");
+  }
+  return currentSlot + executionDelaySlots;
+}
+
+// =============================================================================
+// ACTION APPLICATION
+// =============================================================================
+
+/**
+ * Apply actions in order to the governance state and protocol parameters
+ * Later actions see the effects of earlier ones
+ * @param actions - Proposal actions
+ * @param governanceState - Current governance datum
+ * @param protocolParameters - Current registry/fee parameters, if known
+ */
+export function applyGovernanceActions(
+  actions: GovernanceAction[],
+  governanceState: GovernanceDatum,
+  protocolParameters: Partial<ProtocolParameters> = {}
+): GovernanceActionResult {
+  if (actions.length === 0) {
+    throw new Error("Proposal has no actions");
+  }
+  if (actions.length > TIMELOCK_CONSTANTS.MAX_ACTIONS_PER_PROPOSAL) {
+    throw new Error(`Proposal has ${actions.length} actions, maximum is ${TIMELOCK_CONSTANTS.MAX_ACTIONS_PER_PROPOSAL}`);
+  }
+
+  let state: GovernanceDatum = { ...governanceState, adminAddresses: [...governanceState.adminAddresses] };
+  let params: Partial<ProtocolParameters> = { ...protocolParameters };
+  const payouts: TreasuryPayout[] = [];
+  const streamCreations: CreateStreamParams[] = [];
+  const streamCancellations: string[] = [];
+
+  const previews = actions.map((action, index): ActionPreview => {
+    const changes: ActionChange[] = [];
+    const setParam = <K extends keyof ProtocolParameters>(field: K, value: ProtocolParameters[K]) => {
+      changes.push({ field, before: params[field], after: value });
+      params = { ...params, [field]: value };
+    };
+    const setState = <K extends keyof GovernanceDatum>(field: K, value: GovernanceDatum[K]) => {
+      changes.push({ field, before: state[field], after: value });
+      state = { ...state, [field]: value };
+    };
+
+    switch (action.type) {
+      case 'UpdateProtocolFee':
+        setParam('protocolFeeBps', action.parameters.newFeeBps);
+        return { index, type: action.type, target: 'registry', summary: `Set protocol fee to ${action.parameters.newFeeBps} bps`, changes };
+      case 'UpdateMinLiquidity':
+        setParam('minInitialLiquidity', action.parameters.newMinLiquidity);
+        return { index, type: action.type, target: 'registry', summary: `Set minimum initial liquidity to ${action.parameters.newMinLiquidity} lovelace`, changes };
+      case 'UpdateMaxFee':
+        setParam('maxFeeBps', action.parameters.newMaxFeeBps);
+        return { index, type: action.type, target: 'registry', summary: `Set maximum pool fee to ${action.parameters.newMaxFeeBps} bps`, changes };
+      case 'UpdateMinFee':
+        setParam('minFeeBps', action.parameters.newMinFeeBps);
+        return { index, type: action.type, target: 'registry', summary: `Set minimum pool fee to ${action.parameters.newMinFeeBps} bps`, changes };
+      case 'UpdateRegistryConfig': {
+        const { registryFee, minInitialLiquidity, supportedTokens } = action.parameters;
+        if (registryFee !== undefined) setParam('registryFee', registryFee);
+        if (minInitialLiquidity !== undefined) setParam('minInitialLiquidity', minInitialLiquidity);
+        if (supportedTokens !== undefined) setParam('supportedTokens', supportedTokens);
+        return { index, type: action.type, target: 'registry', summary: `Update registry config (${changes.length} fields)`, changes };
+      }
+      case 'TreasuryPayout': {
+        const { recipient, amount, unit = "lovelace" } = action.parameters;
+        payouts.push({ recipient, assets: { [unit]: amount } });
+        changes.push({ field: `treasury.${unit}`, before: undefined, after: -amount });
+        return { index, type: action.type, target: 'treasury', summary: `Pay ${amount} ${unit} to ${recipient}`, changes };
+      }
+      case 'CreateTreasuryStream': {
+        const { recipient, totalAmount, unit = "lovelace", startSlot, endSlot } = action.parameters;
+        streamCreations.push(action.parameters);
+        changes.push({ field: `treasury.${unit}`, before: undefined, after: -totalAmount });
+        return { index, type: action.type, target: 'treasury', summary: `Stream ${totalAmount} ${unit} to ${recipient} from slot ${startSlot} to ${endSlot}`, changes };
+      }
+      case 'CancelTreasuryStream':
+        if (streamCancellations.includes(action.parameters.streamId)) {
+          throw new Error(`Action ${index}: stream ${action.parameters.streamId} is already cancelled by this proposal`);
+        }
+        streamCancellations.push(action.parameters.streamId);
+        changes.push({ field: `stream.${action.parameters.streamId}`, before: 'active', after: 'cancelled' });
+        return { index, type: action.type, target: 'treasury', summary: `Cancel stream ${action.parameters.streamId}, returning unvested funds`, changes };
+      // Pauses the pool registry; governance stays live so a later proposal can unpause
+      case 'EmergencyPause':
+        setParam('paused', true);
+        return { index, type: action.type, target: 'registry', summary: `Pause pool registry: ${action.parameters.reason}`, changes };
+      case 'EmergencyUnpause':
+        setParam('paused', false);
+        return { index, type: action.type, target: 'registry', summary: "Unpause pool registry", changes };
+      case 'UpdateVotingParameters': {
+        const update = action.parameters;
+        if (update.votingPeriodSlots !== undefined) setState('votingPeriodSlots', update.votingPeriodSlots);
+        if (update.executionDelaySlots !== undefined) setState('executionDelaySlots', update.executionDelaySlots);
+        if (update.quorumThresholdBps !== undefined) setState('quorumThresholdBps', update.quorumThresholdBps);
+        if (update.approvalThresholdBps !== undefined) setState('approvalThresholdBps', update.approvalThresholdBps);
+        if (update.proposalDeposit !== undefined) setState('proposalDeposit', update.proposalDeposit);
+        if (update.minVotingPower !== undefined) setState('minVotingPower', update.minVotingPower);
+        return { index, type: action.type, target: 'governance', summary: `Update voting parameters (${changes.length} fields)`, changes };
+      }
+      case 'UpdateGovernanceToken':
+        setState('governanceTokenPolicy', action.parameters.policyId);
+        setState('governanceTokenName', action.parameters.tokenName);
+        return { index, type: action.type, target: 'governance', summary: `Switch governance token to ${action.parameters.tokenName}`, changes };
+      case 'AddGovernanceAdmin':
+        if (state.adminAddresses.includes(action.parameters.admin)) {
+          throw new Error(`Action ${index}: ${action.parameters.admin} is already an admin`);
+        }
+        setState('adminAddresses', [...state.adminAddresses, action.parameters.admin]);
+        return { index, type: action.type, target: 'governance', summary: `Add admin ${action.parameters.admin}`, changes };
+      case 'RemoveGovernanceAdmin':
+        if (!state.adminAddresses.includes(action.parameters.admin)) {
+          throw new Error(`Action ${index}: ${action.parameters.admin} is not an admin`);
+        }
+        setState('adminAddresses', state.adminAddresses.filter(admin => admin !== action.parameters.admin));
+        return { index, type: action.type, target: 'governance', summary: `Remove admin ${action.parameters.admin}`, changes };
+    }
+  });
+
+  if (params.minFeeBps !== undefined && params.maxFeeBps !== undefined && params.minFeeBps > params.maxFeeBps) {
+    throw new Error(`Actions leave minimum fee ${params.minFeeBps} above maximum fee ${params.maxFeeBps}`);
+  }
+
+  return { governanceState: state, protocolParameters: params, payouts, streamCreations, streamCancellations, previews };
+}
+
+/**
+ * Total treasury payout a proposal authorizes, per asset unit
+ */
+export function getAuthorizedPayouts(actions: GovernanceAction[]): Assets {
+  const authorized: Assets = {};
+  for (const action of actions) {
+    if (action.type === 'TreasuryPayout') {
+      const unit = action.parameters.unit || "lovelace";
+      authorized[unit] = BigInt(authorized[unit] || 0n) + action.parameters.amount;
+    }
+  }
+  return authorized;
+}
+
+/**
+ * What a proposal will change if executed, and when it can run
+ */
+export function previewProposalExecution(
+  proposal: Proposal,
+  governanceState: GovernanceDatum,
+  currentSlot: number,
+  protocolParameters: Partial<ProtocolParameters> = {}
+): ProposalExecutionPreview {
+  const result = applyGovernanceActions(proposal.actions, governanceState, protocolParameters);
+
+  return {
+    proposalId: proposal.proposalId,
+    status: getTimelockStatus(proposal, currentSlot),
+    eta: proposal.executionSlot,
+    expiresAtSlot: proposal.executionSlot + TIMELOCK_CONSTANTS.GRACE_PERIOD_SLOTS,
+    slotsUntilExecutable: Math.max(0, proposal.executionSlot - currentSlot),
+    actions: result.previews,
+    payouts: result.payouts
+  };
+}
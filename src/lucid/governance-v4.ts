@@ -4,9 +4,11 @@
 
 import {
   Lucid,
+  LucidEvolution,
   Blockfrost,
   Data,
   fromText,
+  toText,
   toUnit,
   fromUnit,
   UTxO,
@@ -17,25 +19,74 @@ import {
   MintingPolicy,
   PolicyId,
   Unit,
-  TxComplete,
+  TxBuilder,
+  TxSignBuilder,
   Script,
   OutRef,
   Datum,
-  Redeemer
-} from "lucid-cardano";
+  Redeemer,
+  Constr,
+  getAddressDetails,
+  mintingPolicyToId,
+  slotToUnixTime
+} from "@lucid-evolution/lucid";
+
+import {
+  VotingPowerConfig,
+  VotingPowerSnapshot,
+  VotingPowerSnapshotSource,
+  VoteDelegation,
+  VOTING_POWER_CONSTANTS,
+  createVotingPowerConfig,
+  validateVotingPowerConfig,
+  calculateWeightedVotingPower,
+  takeVotingPowerSnapshot,
+  serializeVoteDelegation,
+  parseVoteDelegation
+} from "./governance-voting-power";
+import {
+  ProtocolParameters,
+  ProposalExecutionPreview,
+  TIMELOCK_CONSTANTS,
+  getTimelockStatus,
+  calculateTimelockEta,
+  applyGovernanceActions,
+  previewProposalExecution
+} from "./governance-timelock";
+import { connectWallet, getLucidNetwork } from "../lib/lucid-config";
+import { PuckSwapSerializer } from "./utils/serialization";
+import { GovernanceExecutor } from "./governance-executor";
+import { CreateStreamParams, validateStreamSchedule } from "./treasury-streams";
 
 // Governance interfaces
-export interface GovernanceAction {
-  type: 'UpdateProtocolFee' | 'UpdateMinLiquidity' | 'UpdateMaxFee' | 'UpdateMinFee' | 
-        'TreasuryPayout' | 'UpdateRegistryConfig' | 'EmergencyPause' | 'EmergencyUnpause' |
-        'UpdateVotingParameters' | 'UpdateGovernanceToken' | 'AddGovernanceAdmin' | 'RemoveGovernanceAdmin';
-  parameters: any;
+// Payload schema for each governance action type
+export interface GovernanceActionPayloads {
+  UpdateProtocolFee: { newFeeBps: number };
+  UpdateMinLiquidity: { newMinLiquidity: bigint };
+  UpdateMaxFee: { newMaxFeeBps: number };
+  UpdateMinFee: { newMinFeeBps: number };
+  TreasuryPayout: { recipient: Address; amount: bigint; unit?: Unit }; // Lovelace unless unit is set
+  UpdateRegistryConfig: { registryFee?: bigint; minInitialLiquidity?: bigint; supportedTokens?: PolicyId[] };
+  EmergencyPause: { reason: string };
+  EmergencyUnpause: Record<string, never>;
+  UpdateVotingParameters: GovernanceConfigUpdate;
+  UpdateGovernanceToken: { policyId: PolicyId; tokenName: string };
+  AddGovernanceAdmin: { admin: Address };
+  RemoveGovernanceAdmin: { admin: Address };
+  CreateTreasuryStream: CreateStreamParams;
+  CancelTreasuryStream: { streamId: string };
 }
 
+export type GovernanceActionType = keyof GovernanceActionPayloads;
+
+export type GovernanceAction = {
+  [K in GovernanceActionType]: { type: K; parameters: GovernanceActionPayloads[K] }
+}[GovernanceActionType];
+
 export interface Proposal {
   proposalId: number;
   proposer: Address;
-  action: GovernanceAction;
+  actions: GovernanceAction[]; // Executed in order
   title: string;
   description: string;
   votesFor: bigint;
@@ -45,16 +96,16 @@ export interface Proposal {
   createdAtSlot: number;
   votingStartSlot: number;
   votingEndSlot: number;
-  executionSlot: number;
+  executionSlot: number; // Timelock ETA once queued
   status: ProposalStatus;
   executed: boolean;
   executionTxHash: string;
 }
 
-export type ProposalStatus = 'Pending' | 'Active' | 'Succeeded' | 'Failed' | 'Executed' | 'Cancelled' | 'Expired';
+export type ProposalStatus = 'Pending' | 'Active' | 'Succeeded' | 'Queued' | 'Failed' | 'Executed' | 'Cancelled' | 'Expired';
 
 export interface VoteRecord {
-  voter: Address;
+  voterPkh: string; // Payment key hash, so one key votes once whatever address it uses
   proposalId: number;
   voteType: 'For' | 'Against' | 'Abstain';
   votingPower: bigint;
@@ -88,7 +139,7 @@ export interface GovernanceDatum {
 }
 
 export interface ProposalCreationParams {
-  action: GovernanceAction;
+  actions: GovernanceAction[];
   title: string;
   description: string;
   proposalDeposit: bigint;
@@ -109,15 +160,201 @@ export interface GovernanceConfigUpdate {
   minVotingPower?: bigint;
 }
 
+const PROPOSAL_STATUSES: ProposalStatus[] = ['Pending', 'Active', 'Succeeded', 'Queued', 'Failed', 'Executed', 'Cancelled', 'Expired'];
+const VOTE_TYPES: VoteRecord['voteType'][] = ['For', 'Against', 'Abstain'];
+
+const GovernanceRedeemerSchema = Data.Enum([
+  Data.Object({
+    SubmitProposal: Data.Object({
+      proposal_id: Data.Integer()
+    })
+  }),
+  Data.Object({
+    CastVote: Data.Object({
+      proposal_id: Data.Integer(),
+      voter_pkh: Data.Bytes(),
+      vote: Data.Integer(), // Index into VOTE_TYPES
+      voting_power: Data.Integer()
+    })
+  }),
+  Data.Object({
+    QueueProposal: Data.Object({
+      proposal_id: Data.Integer(),
+      eta: Data.Integer()
+    })
+  }),
+  Data.Object({
+    ExecuteProposal: Data.Object({
+      proposal_id: Data.Integer()
+    })
+  }),
+  Data.Object({
+    CancelProposal: Data.Object({
+      proposal_id: Data.Integer(),
+      reason: Data.Bytes()
+    })
+  }),
+  Data.Object({
+    UpdateConfig: Data.Object({
+      voting_period_slots: Data.Integer(),
+      execution_delay_slots: Data.Integer(),
+      quorum_threshold_bps: Data.Integer(),
+      approval_threshold_bps: Data.Integer(),
+      proposal_deposit: Data.Integer(),
+      min_voting_power: Data.Integer()
+    })
+  })
+]);
+type GovernanceRedeemer = Data.Static<typeof GovernanceRedeemerSchema>;
+const GovernanceRedeemer = GovernanceRedeemerSchema as unknown as GovernanceRedeemer;
+
+function serializeProposal(proposal: Proposal): Data {
+  return new Constr(0, [
+    BigInt(proposal.proposalId),
+    fromText(proposal.proposer),
+    proposal.actions.map(action => new Constr(0, [fromText(action.type), PuckSwapSerializer.serializeTaggedValue(action.parameters)])),
+    fromText(proposal.title),
+    fromText(proposal.description),
+    proposal.votesFor,
+    proposal.votesAgainst,
+    proposal.votesAbstain,
+    proposal.totalVotingPower,
+    BigInt(proposal.createdAtSlot),
+    BigInt(proposal.votingStartSlot),
+    BigInt(proposal.votingEndSlot),
+    BigInt(proposal.executionSlot),
+    BigInt(PROPOSAL_STATUSES.indexOf(proposal.status)),
+    proposal.executed ? 1n : 0n,
+    proposal.executionTxHash
+  ]);
+}
+
+function parseProposal(data: Constr<Data>): Proposal {
+  const fields = data.fields;
+  return {
+    proposalId: Number(fields[0] as bigint),
+    proposer: toText(fields[1] as string),
+    actions: (fields[2] as Constr<Data>[]).map(action => ({
+      type: toText(action.fields[0] as string),
+      parameters: PuckSwapSerializer.deserializeTaggedValue(action.fields[1])
+    }) as GovernanceAction),
+    title: toText(fields[3] as string),
+    description: toText(fields[4] as string),
+    votesFor: fields[5] as bigint,
+    votesAgainst: fields[6] as bigint,
+    votesAbstain: fields[7] as bigint,
+    totalVotingPower: fields[8] as bigint,
+    createdAtSlot: Number(fields[9] as bigint),
+    votingStartSlot: Number(fields[10] as bigint),
+    votingEndSlot: Number(fields[11] as bigint),
+    executionSlot: Number(fields[12] as bigint),
+    status: PROPOSAL_STATUSES[Number(fields[13] as bigint)],
+    executed: fields[14] === 1n,
+    executionTxHash: fields[15] as string
+  };
+}
+
+function serializeVoteRecord(record: VoteRecord): Data {
+  return new Constr(0, [
+    BigInt(record.proposalId),
+    record.voterPkh,
+    BigInt(VOTE_TYPES.indexOf(record.voteType)),
+    record.votingPower,
+    BigInt(record.votedAtSlot)
+  ]);
+}
+
+function parseVoteRecord(data: Constr<Data>): VoteRecord {
+  return {
+    proposalId: Number(data.fields[0] as bigint),
+    voterPkh: data.fields[1] as string,
+    voteType: VOTE_TYPES[Number(data.fields[2] as bigint)],
+    votingPower: data.fields[3] as bigint,
+    votedAtSlot: Number(data.fields[4] as bigint)
+  };
+}
+
+export function serializeGovernanceDatum(datum: GovernanceDatum): string {
+  return Data.to(new Constr(0, [
+    new Constr(0, [datum.metadata.policyId, fromText(datum.metadata.assetName), BigInt(datum.metadata.version)]),
+    BigInt(datum.version),
+    BigInt(datum.totalProposals),
+    BigInt(datum.activeProposals),
+    datum.proposals.map(serializeProposal),
+    datum.voteRecords.map(serializeVoteRecord),
+    datum.governanceTokenPolicy,
+    fromText(datum.governanceTokenName),
+    fromText(datum.treasuryAddress),
+    BigInt(datum.votingPeriodSlots),
+    BigInt(datum.executionDelaySlots),
+    BigInt(datum.quorumThresholdBps),
+    BigInt(datum.approvalThresholdBps),
+    datum.adminAddresses.map(address => fromText(address)),
+    datum.proposalDeposit,
+    datum.minVotingPower,
+    datum.paused ? 1n : 0n,
+    fromText(datum.emergencyAdmin),
+    BigInt(datum.lastUpdatedSlot)
+  ]));
+}
+
+export function parseGovernanceDatum(datum: string): GovernanceDatum {
+  const data = Data.from(datum) as Constr<Data>;
+  if (!(data instanceof Constr) || data.index !== 0 || data.fields.length !== 19) {
+    throw new Error("Invalid governance datum");
+  }
+
+  const fields = data.fields;
+  const metadata = fields[0] as Constr<Data>;
+  return {
+    metadata: {
+      policyId: metadata.fields[0] as string,
+      assetName: toText(metadata.fields[1] as string),
+      version: Number(metadata.fields[2] as bigint)
+    },
+    version: Number(fields[1] as bigint),
+    totalProposals: Number(fields[2] as bigint),
+    activeProposals: Number(fields[3] as bigint),
+    proposals: (fields[4] as Constr<Data>[]).map(parseProposal),
+    voteRecords: (fields[5] as Constr<Data>[]).map(parseVoteRecord),
+    governanceTokenPolicy: fields[6] as string,
+    governanceTokenName: toText(fields[7] as string),
+    treasuryAddress: toText(fields[8] as string),
+    votingPeriodSlots: Number(fields[9] as bigint),
+    executionDelaySlots: Number(fields[10] as bigint),
+    quorumThresholdBps: Number(fields[11] as bigint),
+    approvalThresholdBps: Number(fields[12] as bigint),
+    adminAddresses: (fields[13] as string[]).map(address => toText(address)),
+    proposalDeposit: fields[14] as bigint,
+    minVotingPower: fields[15] as bigint,
+    paused: fields[16] === 1n,
+    emergencyAdmin: toText(fields[17] as string),
+    lastUpdatedSlot: Number(fields[18] as bigint)
+  };
+}
+
+// Whether a payment key hash already voted on a proposal
+export function hasVoted(governanceState: GovernanceDatum, proposalId: number, voterPkh: string): boolean {
+  return governanceState.voteRecords.some(
+    record => record.proposalId === proposalId && record.voterPkh === voterPkh
+  );
+}
+
 export class PuckSwapGovernanceV4 {
-  private lucid: Lucid;
+  private lucid: LucidEvolution;
   private governanceValidator: SpendingValidator;
   private governanceTokenPolicy: MintingPolicy;
   private governanceAddress: Address;
   private treasuryAddress: Address;
+  private votingPowerConfig: VotingPowerConfig;
+  private snapshotSource: VotingPowerSnapshotSource | null = null;
+  private snapshots: Map<number, VotingPowerSnapshot> = new Map();
+  private delegationAddress: Address | null = null;
+  private delegationValidator: SpendingValidator | null = null;
+  private executor: GovernanceExecutor = new GovernanceExecutor();
 
   constructor(
-    lucid: Lucid,
+    lucid: LucidEvolution,
     governanceValidator: SpendingValidator,
     governanceTokenPolicy: MintingPolicy,
     governanceAddress: Address,
@@ -128,6 +365,7 @@ export class PuckSwapGovernanceV4 {
     this.governanceTokenPolicy = governanceTokenPolicy;
     this.governanceAddress = governanceAddress;
     this.treasuryAddress = treasuryAddress;
+    this.votingPowerConfig = createVotingPowerConfig(this.getGovernanceTokenUnit());
   }
 
   // Initialize governance system
@@ -141,7 +379,7 @@ export class PuckSwapGovernanceV4 {
     governanceAddress: Address,
     treasuryAddress: Address
   ): Promise<PuckSwapGovernanceV4> {
-    const lucid = await Lucid.new(
+    const lucid = await Lucid(
       new Blockfrost(
         `https://cardano-${network.toLowerCase()}.blockfrost.io/api/v0`,
         blockfrostApiKey
@@ -170,7 +408,28 @@ export class PuckSwapGovernanceV4 {
 
   // Connect wallet
   async connectWallet(walletName: "eternl" | "nami" | "vespr" | "lace"): Promise<void> {
-    await this.lucid.selectWalletFromExtension(walletName);
+    await connectWallet(this.lucid, walletName);
+  }
+
+  // Use historical balances for voting power; LP and pADA weights are optional
+  setVotingPowerSource(source: VotingPowerSnapshotSource, config?: VotingPowerConfig): void {
+    if (config) {
+      validateVotingPowerConfig(config);
+      this.votingPowerConfig = config;
+    }
+    this.snapshotSource = source;
+    this.snapshots.clear();
+  }
+
+  // Route registry and treasury actions to their contracts at execution
+  setExecutor(executor: GovernanceExecutor): void {
+    this.executor = executor;
+  }
+
+  // Script address holding one delegation record UTxO per delegator
+  configureVoteDelegation(delegationAddress: Address, delegationValidator: SpendingValidator): void {
+    this.delegationAddress = delegationAddress;
+    this.delegationValidator = delegationValidator;
   }
 
   // Get governance state
@@ -187,7 +446,7 @@ export class PuckSwapGovernanceV4 {
         throw new Error("Governance UTxO missing datum");
       }
 
-      return await this.parseGovernanceDatum(governanceUTxO.datum);
+      return parseGovernanceDatum(governanceUTxO.datum);
     } catch (error) {
       console.error("Error fetching governance state:", error);
       return null;
@@ -218,7 +477,7 @@ export class PuckSwapGovernanceV4 {
       // Build proposal creation transaction
       const tx = await this.buildProposalCreationTx(params, governanceState);
       
-      const signedTx = await tx.sign().complete();
+      const signedTx = await tx.sign.withWallet().complete();
       const txHash = await signedTx.submit();
 
       return txHash;
@@ -249,26 +508,22 @@ export class PuckSwapGovernanceV4 {
       // Validate voting conditions
       this.validateVotingConditions(proposal, params, governanceState);
 
-      // Check user hasn't already voted
-      const hasVoted = governanceState.voteRecords.some(
-        record => record.proposalId === params.proposalId && 
-                 record.voter === await this.lucid.wallet.address()
-      );
-
-      if (hasVoted) {
+      // Check this payment key hasn't already voted, from any address
+      const voterPkh = this.getPaymentKeyHash(await this.lucid.wallet().address());
+      if (hasVoted(governanceState, params.proposalId, voterPkh)) {
         throw new Error("User has already voted on this proposal");
       }
 
-      // Validate user's voting power
-      const userVotingPower = await this.getUserVotingPower();
+      // Validate user's voting power at the proposal snapshot
+      const userVotingPower = await this.getUserVotingPower(params.proposalId);
       if (userVotingPower < params.votingPower) {
         throw new Error(`Insufficient voting power: ${userVotingPower} < ${params.votingPower}`);
       }
 
       // Build voting transaction
-      const tx = await this.buildVotingTx(params, proposal, governanceState);
+      const tx = await this.buildVotingTx(params, voterPkh, proposal, governanceState);
       
-      const signedTx = await tx.sign().complete();
+      const signedTx = await tx.sign.withWallet().complete();
       const txHash = await signedTx.submit();
 
       return txHash;
@@ -278,6 +533,35 @@ export class PuckSwapGovernanceV4 {
     }
   }
 
+  // Queue a succeeded proposal in the timelock; it becomes executable after executionDelaySlots
+  async queueProposal(proposalId: number): Promise<TxHash> {
+    try {
+      const governanceState = await this.getGovernanceState();
+      if (!governanceState) {
+        throw new Error("Governance system not found");
+      }
+
+      const proposal = governanceState.proposals.find(p => p.proposalId === proposalId);
+      if (!proposal) {
+        throw new Error("Proposal not found");
+      }
+
+      // Validate quorum, approval and that the actions apply cleanly
+      this.validateQueueConditions(proposal, governanceState);
+
+      // Build queue transaction
+      const tx = await this.buildQueueTx(proposal, governanceState);
+      
+      const signedTx = await tx.sign.withWallet().complete();
+      const txHash = await signedTx.submit();
+
+      return txHash;
+    } catch (error) {
+      console.error("Error queueing proposal:", error);
+      throw error;
+    }
+  }
+
   // Execute proposal
   async executeProposal(proposalId: number): Promise<TxHash> {
     try {
@@ -297,7 +581,7 @@ export class PuckSwapGovernanceV4 {
       // Build execution transaction
       const tx = await this.buildExecutionTx(proposal, governanceState);
       
-      const signedTx = await tx.sign().complete();
+      const signedTx = await tx.sign.withWallet().complete();
       const txHash = await signedTx.submit();
 
       return txHash;
@@ -320,7 +604,7 @@ export class PuckSwapGovernanceV4 {
         throw new Error("Proposal not found");
       }
 
-      const userAddress = await this.lucid.wallet.address();
+      const userAddress = await this.lucid.wallet().address();
       
       // Check if user is proposer or admin
       const isProposer = proposal.proposer === userAddress;
@@ -333,7 +617,7 @@ export class PuckSwapGovernanceV4 {
       // Build cancellation transaction
       const tx = await this.buildCancellationTx(proposalId, reason, governanceState);
       
-      const signedTx = await tx.sign().complete();
+      const signedTx = await tx.sign.withWallet().complete();
       const txHash = await signedTx.submit();
 
       return txHash;
@@ -351,7 +635,7 @@ export class PuckSwapGovernanceV4 {
         throw new Error("Governance system not found");
       }
 
-      const userAddress = await this.lucid.wallet.address();
+      const userAddress = await this.lucid.wallet().address();
       if (!governanceState.adminAddresses.includes(userAddress)) {
         throw new Error("Only admin can update governance configuration");
       }
@@ -362,7 +646,7 @@ export class PuckSwapGovernanceV4 {
       // Build configuration update transaction
       const tx = await this.buildConfigUpdateTx(config, governanceState);
       
-      const signedTx = await tx.sign().complete();
+      const signedTx = await tx.sign.withWallet().complete();
       const txHash = await signedTx.submit();
 
       return txHash;
@@ -394,6 +678,41 @@ export class PuckSwapGovernanceV4 {
     }
   }
 
+  // Get proposals waiting in the timelock or ready to execute
+  async getQueuedProposals(): Promise<Proposal[]> {
+    try {
+      const proposals = await this.getAllProposals();
+      return proposals
+        .filter(p => p.status === 'Queued' && !p.executed)
+        .sort((a, b) => a.executionSlot - b.executionSlot);
+    } catch (error) {
+      console.error("Error fetching queued proposals:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Inspect what a proposal will change before it runs
+   * @param proposalId - Proposal to preview
+   * @param protocolParameters - Current registry/fee parameters, to show before values
+   */
+  async previewProposalExecution(
+    proposalId: number,
+    protocolParameters: Partial<ProtocolParameters> = {}
+  ): Promise<ProposalExecutionPreview> {
+    const governanceState = await this.getGovernanceState();
+    if (!governanceState) {
+      throw new Error("Governance system not found");
+    }
+
+    const proposal = governanceState.proposals.find(p => p.proposalId === proposalId);
+    if (!proposal) {
+      throw new Error("Proposal not found");
+    }
+
+    return previewProposalExecution(proposal, governanceState, this.lucid.currentSlot() || 0, protocolParameters);
+  }
+
   // Get proposal by ID
   async getProposalById(proposalId: number): Promise<Proposal | null> {
     try {
@@ -405,33 +724,162 @@ export class PuckSwapGovernanceV4 {
     }
   }
 
-  // Get user's voting power
-  async getUserVotingPower(): Promise<bigint> {
+  /**
+   * Get user's voting power
+   * @param proposalId - Read power from this proposal's votingStartSlot snapshot,
+   * including delegated power; without it, the wallet's current weighted balance
+   * is returned (used only for the proposal creation threshold)
+   */
+  async getUserVotingPower(proposalId?: number): Promise<bigint> {
     try {
-      const userAddress = await this.lucid.wallet.address();
-      const userUTxOs = await this.lucid.wallet.getUtxos();
-      
-      let totalVotingPower = 0n;
-      
-      for (const utxo of userUTxOs) {
-        const governanceTokenUnit = toUnit(
-          this.lucid.utils.mintingPolicyToId(this.governanceTokenPolicy),
-          fromText("PUCKY_GOV")
-        );
-        
-        const tokenAmount = utxo.assets[governanceTokenUnit];
-        if (tokenAmount) {
-          totalVotingPower += BigInt(tokenAmount);
-        }
+      const userAddress = await this.lucid.wallet().address();
+
+      if (proposalId !== undefined) {
+        const snapshot = await this.getVotingPowerSnapshot(proposalId);
+        return snapshot.voters.get(this.getPaymentKeyHash(userAddress))?.votingPower || 0n;
       }
-      
-      return totalVotingPower;
+
+      const userUTxOs = await this.lucid.wallet().getUtxos();
+      return userUTxOs.reduce(
+        (total, utxo) => total + calculateWeightedVotingPower(utxo.assets, this.votingPowerConfig),
+        0n
+      );
     } catch (error) {
       console.error("Error getting user voting power:", error);
       return 0n;
     }
   }
 
+  /**
+   * Voting power of every holder at a proposal's votingStartSlot
+   * Snapshots are cached per proposal once voting has opened
+   */
+  async getVotingPowerSnapshot(proposalId: number): Promise<VotingPowerSnapshot> {
+    const cached = this.snapshots.get(proposalId);
+    if (cached) {
+      return cached;
+    }
+
+    if (!this.snapshotSource) {
+      throw new Error("No voting power snapshot source configured");
+    }
+
+    const proposal = await this.getProposalById(proposalId);
+    if (!proposal) {
+      throw new Error("Proposal not found");
+    }
+
+    const currentSlot = this.lucid.currentSlot() || 0;
+    if (currentSlot < proposal.votingStartSlot) {
+      throw new Error(`Voting power snapshot is taken at slot ${proposal.votingStartSlot}`);
+    }
+
+    const snapshot = await takeVotingPowerSnapshot(this.snapshotSource, this.votingPowerConfig, proposal.votingStartSlot);
+    this.snapshots.set(proposalId, snapshot);
+    return snapshot;
+  }
+
+  // Delegate the connected wallet's voting power, replacing any existing delegation
+  async delegateVotingPower(delegateAddress: Address): Promise<TxHash> {
+    try {
+      const { address, validator } = this.requireDelegationConfig();
+      const delegatorAddress = await this.lucid.wallet().address();
+      const delegator = this.getPaymentKeyHash(delegatorAddress);
+      const delegate = this.getPaymentKeyHash(delegateAddress);
+
+      if (delegator === delegate) {
+        throw new Error("Cannot delegate voting power to yourself");
+      }
+
+      const delegation: VoteDelegation = {
+        delegator,
+        delegate,
+        delegatedAtSlot: this.lucid.currentSlot() || 0
+      };
+
+      let txBuilder = this.lucid.newTx()
+        .pay.ToContract(
+          address,
+          { kind: "inline", value: serializeVoteDelegation(delegation) },
+          { lovelace: VOTING_POWER_CONSTANTS.DELEGATION_MIN_ADA }
+        )
+        .addSignerKey(delegator);
+
+      const existing = await this.findDelegationUtxos(delegator);
+      if (existing.length > 0) {
+        txBuilder = txBuilder
+          .collectFrom(existing, Data.to(new Constr(1, []))) // Undelegate
+          .attach.SpendingValidator(validator);
+      }
+
+      const tx = await txBuilder
+        .validTo(Date.now() + 1200000) // 20 minute deadline
+        .complete();
+
+      const signedTx = await tx.sign.withWallet().complete();
+      return await signedTx.submit();
+    } catch (error) {
+      console.error("Error delegating voting power:", error);
+      throw error;
+    }
+  }
+
+  // Remove the connected wallet's delegation and reclaim its min ADA
+  async undelegateVotingPower(): Promise<TxHash> {
+    try {
+      const { validator } = this.requireDelegationConfig();
+      const delegator = this.getPaymentKeyHash(await this.lucid.wallet().address());
+
+      const existing = await this.findDelegationUtxos(delegator);
+      if (existing.length === 0) {
+        throw new Error("No active vote delegation found");
+      }
+
+      const tx = await this.lucid.newTx()
+        .collectFrom(existing, Data.to(new Constr(1, []))) // Undelegate
+        .attach.SpendingValidator(validator)
+        .addSignerKey(delegator)
+        .validTo(Date.now() + 1200000) // 20 minute deadline
+        .complete();
+
+      const signedTx = await tx.sign.withWallet().complete();
+      return await signedTx.submit();
+    } catch (error) {
+      console.error("Error removing vote delegation:", error);
+      throw error;
+    }
+  }
+
+  // Current delegation records
+  async getVoteDelegations(): Promise<VoteDelegation[]> {
+    try {
+      const { address } = this.requireDelegationConfig();
+      const utxos = await this.lucid.utxosAt(address);
+      return utxos
+        .map(utxo => (utxo.datum ? parseVoteDelegation(utxo.datum) : null))
+        .filter((delegation): delegation is VoteDelegation => delegation !== null);
+    } catch (error) {
+      console.error("Error fetching vote delegations:", error);
+      return [];
+    }
+  }
+
+  // Delegate key hash for an address (defaults to the connected wallet)
+  async getDelegate(address?: Address): Promise<string | null> {
+    const delegator = this.getPaymentKeyHash(address || await this.lucid.wallet().address());
+    const delegations = await this.getVoteDelegations();
+    return delegations.find(delegation => delegation.delegator === delegator)?.delegate || null;
+  }
+
+  // Delegator key hashes that delegated to an address (defaults to the connected wallet)
+  async getDelegators(address?: Address): Promise<string[]> {
+    const delegate = this.getPaymentKeyHash(address || await this.lucid.wallet().address());
+    const delegations = await this.getVoteDelegations();
+    return delegations
+      .filter(delegation => delegation.delegate === delegate)
+      .map(delegation => delegation.delegator);
+  }
+
   // Get user's vote history
   async getUserVoteHistory(): Promise<VoteRecord[]> {
     try {
@@ -440,8 +888,8 @@ export class PuckSwapGovernanceV4 {
         return [];
       }
 
-      const userAddress = await this.lucid.wallet.address();
-      return governanceState.voteRecords.filter(record => record.voter === userAddress);
+      const voterPkh = this.getPaymentKeyHash(await this.lucid.wallet().address());
+      return governanceState.voteRecords.filter(record => record.voterPkh === voterPkh);
     } catch (error) {
       console.error("Error fetching vote history:", error);
       return [];
@@ -449,36 +897,32 @@ export class PuckSwapGovernanceV4 {
   }
 
   // Private helper methods
-  private async parseGovernanceDatum(datum: string): Promise<GovernanceDatum> {
-    // Parse CIP-68 compliant governance datum
-    const parsedDatum = Data.from(datum);
-    
-    // This would need to match the exact Aiken datum structure
-    return {
-      metadata: {
-        policyId: "placeholder_policy_id",
-        assetName: "placeholder_asset_name",
-        version: 1
-      },
-      version: 1,
-      totalProposals: 0,
-      activeProposals: 0,
-      proposals: [],
-      voteRecords: [],
-      governanceTokenPolicy: this.lucid.utils.mintingPolicyToId(this.governanceTokenPolicy),
-      governanceTokenName: "PUCKY_GOV",
-      treasuryAddress: this.treasuryAddress,
-      votingPeriodSlots: 604800, // 7 days
-      executionDelaySlots: 172800, // 2 days
-      quorumThresholdBps: 1000, // 10%
-      approvalThresholdBps: 5000, // 50%
-      adminAddresses: [],
-      proposalDeposit: 100000000n, // 100 ADA
-      minVotingPower: 1000000n, // 1M governance tokens
-      paused: false,
-      emergencyAdmin: "placeholder_emergency_admin",
-      lastUpdatedSlot: 0
-    };
+  private getGovernanceTokenUnit(): Unit {
+    return toUnit(
+      mintingPolicyToId(this.governanceTokenPolicy),
+      fromText("PUCKY_GOV")
+    );
+  }
+
+  private getPaymentKeyHash(address: Address): string {
+    const { paymentCredential } = getAddressDetails(address);
+    if (!paymentCredential || paymentCredential.type !== "Key") {
+      throw new Error("Voting requires a key-based payment address");
+    }
+    return paymentCredential.hash;
+  }
+
+  private requireDelegationConfig(): { address: Address; validator: SpendingValidator } {
+    if (!this.delegationAddress || !this.delegationValidator) {
+      throw new Error("Vote delegation is not configured");
+    }
+    return { address: this.delegationAddress, validator: this.delegationValidator };
+  }
+
+  private async findDelegationUtxos(delegator: string): Promise<UTxO[]> {
+    const { address } = this.requireDelegationConfig();
+    const utxos = await this.lucid.utxosAt(address);
+    return utxos.filter(utxo => utxo.datum && parseVoteDelegation(utxo.datum)?.delegator === delegator);
   }
 
   private validateProposalParams(params: ProposalCreationParams, governanceState: GovernanceDatum): void {
@@ -494,8 +938,13 @@ export class PuckSwapGovernanceV4 {
       throw new Error(`Proposal deposit must be at least ${governanceState.proposalDeposit}`);
     }
 
-    // Validate governance action
-    this.validateGovernanceAction(params.action);
+    if (params.actions.length === 0 || params.actions.length > TIMELOCK_CONSTANTS.MAX_ACTIONS_PER_PROPOSAL) {
+      throw new Error(`Proposal must have between 1 and ${TIMELOCK_CONSTANTS.MAX_ACTIONS_PER_PROPOSAL} actions`);
+    }
+
+    // Validate each governance action, then the ordered bundle as a whole
+    params.actions.forEach(action => this.validateGovernanceAction(action));
+    applyGovernanceActions(params.actions, governanceState);
   }
 
   private validateGovernanceAction(action: GovernanceAction): void {
@@ -510,12 +959,33 @@ export class PuckSwapGovernanceV4 {
           throw new Error("Minimum liquidity must be at least 1 ADA");
         }
         break;
+      case 'UpdateMaxFee':
+      case 'UpdateMinFee': {
+        const feeBps = action.type === 'UpdateMaxFee' ? action.parameters.newMaxFeeBps : action.parameters.newMinFeeBps;
+        if (feeBps < 0 || feeBps > 1000) {
+          throw new Error("Pool fee bounds must be between 0 and 1000 basis points");
+        }
+        break;
+      }
       case 'TreasuryPayout':
         if (!action.parameters.recipient || !action.parameters.amount || action.parameters.amount <= 0) {
           throw new Error("Treasury payout requires valid recipient and positive amount");
         }
         break;
-      // Add more validation for other action types
+      case 'UpdateVotingParameters':
+        this.validateGovernanceConfig(action.parameters);
+        break;
+      case 'CreateTreasuryStream': {
+        const { totalAmount, startSlot, cliffSlot, endSlot } = action.parameters;
+        validateStreamSchedule(totalAmount, startSlot, cliffSlot ?? startSlot, endSlot);
+        break;
+      }
+      case 'AddGovernanceAdmin':
+      case 'RemoveGovernanceAdmin':
+        if (!action.parameters.admin) {
+          throw new Error("Admin action requires an address");
+        }
+        break;
     }
   }
 
@@ -534,20 +1004,11 @@ export class PuckSwapGovernanceV4 {
     }
   }
 
-  private validateExecutionConditions(proposal: Proposal, governanceState: GovernanceDatum): void {
+  private validateQueueConditions(proposal: Proposal, governanceState: GovernanceDatum): void {
     if (proposal.status !== 'Succeeded') {
       throw new Error("Proposal has not succeeded");
     }
 
-    if (proposal.executed) {
-      throw new Error("Proposal has already been executed");
-    }
-
-    const currentSlot = this.lucid.currentSlot() || 0;
-    if (currentSlot < proposal.executionSlot) {
-      throw new Error("Execution delay period has not passed");
-    }
-
     // Check quorum and approval thresholds
     const totalVotes = proposal.votesFor + proposal.votesAgainst + proposal.votesAbstain;
     const quorumMet = (totalVotes * 10000n) / proposal.totalVotingPower >= BigInt(governanceState.quorumThresholdBps);
@@ -560,6 +1021,24 @@ export class PuckSwapGovernanceV4 {
     if (!approvalMet) {
       throw new Error("Approval threshold not met");
     }
+
+    this.executor.resolve(proposal, governanceState);
+  }
+
+  private validateExecutionConditions(proposal: Proposal, governanceState: GovernanceDatum): void {
+    if (proposal.executed) {
+      throw new Error("Proposal has already been executed");
+    }
+
+    const currentSlot = this.lucid.currentSlot() || 0;
+    switch (getTimelockStatus(proposal, currentSlot)) {
+      case 'NotQueued':
+        throw new Error("Proposal has not been queued");
+      case 'Waiting':
+        throw new Error(`Execution delay period has not passed: executable at slot ${proposal.executionSlot}`);
+      case 'Expired':
+        throw new Error("Proposal timelock grace period has expired");
+    }
   }
 
   private validateGovernanceConfig(config: GovernanceConfigUpdate): void {
@@ -581,7 +1060,7 @@ export class PuckSwapGovernanceV4 {
   }
 
   // Transaction building methods
-  private async buildProposalCreationTx(params: ProposalCreationParams, governanceState: GovernanceDatum): Promise<TxComplete> {
+  private async buildProposalCreationTx(params: ProposalCreationParams, governanceState: GovernanceDatum): Promise<TxSignBuilder> {
     // Find governance UTxO
     const governanceUtxos = await this.lucid.utxosAt(this.governanceAddress);
     if (governanceUtxos.length === 0) {
@@ -589,90 +1068,155 @@ export class PuckSwapGovernanceV4 {
     }
     const governanceUtxo = governanceUtxos[0];
 
-    // Create new proposal
+    // Create new proposal; voting opens now and power is snapshotted at this slot
+    const currentSlot = this.lucid.currentSlot() || 0;
     const newProposal: Proposal = {
-      proposal_id: params.proposal_id,
-      action: params.action,
+      proposalId: governanceState.totalProposals + 1,
+      proposer: await this.lucid.wallet().address(),
+      actions: params.actions,
       title: params.title,
       description: params.description,
-      proposer: await this.lucid.wallet.address(),
-      votes_for: 0n,
-      votes_against: 0n,
-      votes_abstain: 0n,
-      created_at: BigInt(Date.now()),
-      voting_deadline: BigInt(Date.now() + (7 * 24 * 60 * 60 * 1000)), // 7 days
+      votesFor: 0n,
+      votesAgainst: 0n,
+      votesAbstain: 0n,
+      totalVotingPower: 0n, // Set from the snapshot when votes are cast
+      createdAtSlot: currentSlot,
+      votingStartSlot: currentSlot,
+      votingEndSlot: currentSlot + governanceState.votingPeriodSlots,
+      executionSlot: 0,
+      status: 'Active',
       executed: false,
-      cancelled: false
+      executionTxHash: ""
     };
 
     // Update governance state
     const updatedState: GovernanceDatum = {
       ...governanceState,
       proposals: [...governanceState.proposals, newProposal],
-      total_proposals: governanceState.total_proposals + 1n
+      totalProposals: governanceState.totalProposals + 1,
+      activeProposals: governanceState.activeProposals + 1
     };
 
     // Serialize datum and redeemer
-    const datumData = Data.to(updatedState, GovernanceDatum);
-    const redeemer = Data.to({ SubmitProposal: { proposal_id: params.proposal_id } }, GovernanceRedeemer);
+    const datumData = serializeGovernanceDatum(updatedState);
+    const redeemer = Data.to({ SubmitProposal: { proposal_id: BigInt(newProposal.proposalId) } }, GovernanceRedeemer);
 
     // Build transaction
     const tx = await this.lucid.newTx()
       .collectFrom([governanceUtxo], redeemer)
-      .payToContract(this.governanceAddress, { inline: datumData }, governanceUtxo.assets)
-      .attachSpendingValidator(this.governanceValidator)
+      .pay.ToContract(this.governanceAddress, { kind: "inline", value: datumData }, governanceUtxo.assets)
+      .attach.SpendingValidator(this.governanceValidator)
       .validTo(Date.now() + 1200000) // 20 minute deadline
       .complete();
 
     return tx;
   }
 
-  private async buildVotingTx(params: VotingParams, proposal: Proposal, governanceState: GovernanceDatum): Promise<TxComplete> {
+  private async buildVotingTx(
+    params: VotingParams,
+    voterPkh: string,
+    proposal: Proposal,
+    governanceState: GovernanceDatum
+  ): Promise<TxSignBuilder> {
     // Find governance UTxO
     const governanceUtxos = await this.lucid.utxosAt(this.governanceAddress);
     if (governanceUtxos.length === 0) {
       throw new Error("No governance UTxO found");
     }
     const governanceUtxo = governanceUtxos[0];
+    const snapshot = await this.getVotingPowerSnapshot(params.proposalId);
 
-    // Update proposal with vote
+    // Update proposal with vote; quorum is measured against the snapshot total
     const updatedProposal: Proposal = {
       ...proposal,
-      votes_for: params.vote === 'For' ? proposal.votes_for + params.voting_power : proposal.votes_for,
-      votes_against: params.vote === 'Against' ? proposal.votes_against + params.voting_power : proposal.votes_against,
-      votes_abstain: params.vote === 'Abstain' ? proposal.votes_abstain + params.voting_power : proposal.votes_abstain
+      votesFor: params.voteType === 'For' ? proposal.votesFor + params.votingPower : proposal.votesFor,
+      votesAgainst: params.voteType === 'Against' ? proposal.votesAgainst + params.votingPower : proposal.votesAgainst,
+      votesAbstain: params.voteType === 'Abstain' ? proposal.votesAbstain + params.votingPower : proposal.votesAbstain,
+      totalVotingPower: snapshot.totalVotingPower
+    };
+
+    // Record the vote so the same key cannot vote again
+    const voteRecord: VoteRecord = {
+      voterPkh,
+      proposalId: params.proposalId,
+      voteType: params.voteType,
+      votingPower: params.votingPower,
+      votedAtSlot: this.lucid.currentSlot() || 0
     };
 
     // Update governance state
     const updatedState: GovernanceDatum = {
       ...governanceState,
       proposals: governanceState.proposals.map(p =>
-        p.proposal_id === params.proposal_id ? updatedProposal : p
-      )
+        p.proposalId === params.proposalId ? updatedProposal : p
+      ),
+      voteRecords: [...governanceState.voteRecords, voteRecord]
     };
 
     // Serialize datum and redeemer
-    const datumData = Data.to(updatedState, GovernanceDatum);
+    const datumData = serializeGovernanceDatum(updatedState);
     const redeemer = Data.to({
       CastVote: {
-        proposal_id: params.proposal_id,
-        vote: params.vote,
-        voting_power: params.voting_power
+        proposal_id: BigInt(params.proposalId),
+        voter_pkh: voterPkh,
+        vote: BigInt(VOTE_TYPES.indexOf(params.voteType)),
+        voting_power: params.votingPower
       }
     }, GovernanceRedeemer);
 
+    // Build transaction; the voter signs so the validator can check voter_pkh
+    const tx = await this.lucid.newTx()
+      .collectFrom([governanceUtxo], redeemer)
+      .pay.ToContract(this.governanceAddress, { kind: "inline", value: datumData }, governanceUtxo.assets)
+      .attach.SpendingValidator(this.governanceValidator)
+      .addSignerKey(voterPkh)
+      .validTo(Date.now() + 1200000) // 20 minute deadline
+      .complete();
+
+    return tx;
+  }
+
+  private async buildQueueTx(proposal: Proposal, governanceState: GovernanceDatum): Promise<TxSignBuilder> {
+    // Find governance UTxO
+    const governanceUtxos = await this.lucid.utxosAt(this.governanceAddress);
+    if (governanceUtxos.length === 0) {
+      throw new Error("No governance UTxO found");
+    }
+    const governanceUtxo = governanceUtxos[0];
+
+    // Set the timelock ETA
+    const queuedProposal: Proposal = {
+      ...proposal,
+      status: 'Queued',
+      executionSlot: calculateTimelockEta(this.lucid.currentSlot() || 0, governanceState.executionDelaySlots)
+    };
+
+    // Update governance state
+    const updatedState: GovernanceDatum = {
+      ...governanceState,
+      proposals: governanceState.proposals.map(p =>
+        p.proposalId === proposal.proposalId ? queuedProposal : p
+      )
+    };
+
+    // Serialize datum and redeemer
+    const datumData = serializeGovernanceDatum(updatedState);
+    const redeemer = Data.to({
+      QueueProposal: { proposal_id: BigInt(proposal.proposalId), eta: BigInt(queuedProposal.executionSlot) }
+    }, GovernanceRedeemer);
+
     // Build transaction
     const tx = await this.lucid.newTx()
       .collectFrom([governanceUtxo], redeemer)
-      .payToContract(this.governanceAddress, { inline: datumData }, governanceUtxo.assets)
-      .attachSpendingValidator(this.governanceValidator)
+      .pay.ToContract(this.governanceAddress, { kind: "inline", value: datumData }, governanceUtxo.assets)
+      .attach.SpendingValidator(this.governanceValidator)
       .validTo(Date.now() + 1200000) // 20 minute deadline
       .complete();
 
     return tx;
   }
 
-  private async buildExecutionTx(proposal: Proposal, governanceState: GovernanceDatum): Promise<TxComplete> {
+  private async buildExecutionTx(proposal: Proposal, governanceState: GovernanceDatum): Promise<TxSignBuilder> {
     // Find governance UTxO
     const governanceUtxos = await this.lucid.utxosAt(this.governanceAddress);
     if (governanceUtxos.length === 0) {
@@ -680,38 +1224,39 @@ export class PuckSwapGovernanceV4 {
     }
     const governanceUtxo = governanceUtxos[0];
 
+    // Apply actions in order and find the contracts they target
+    const { execution, targets } = this.executor.resolve(proposal, governanceState);
+
     // Mark proposal as executed
     const updatedProposal: Proposal = {
       ...proposal,
+      status: 'Executed',
       executed: true
     };
 
     // Update governance state
     const updatedState: GovernanceDatum = {
-      ...governanceState,
+      ...execution.result.governanceState,
       proposals: governanceState.proposals.map(p =>
-        p.proposal_id === proposal.proposal_id ? updatedProposal : p
+        p.proposalId === proposal.proposalId ? updatedProposal : p
       )
     };
 
     // Serialize datum and redeemer
-    const datumData = Data.to(updatedState, GovernanceDatum);
+    const datumData = serializeGovernanceDatum(updatedState);
     const redeemer = Data.to({
-      ExecuteProposal: { proposal_id: proposal.proposal_id }
+      ExecuteProposal: { proposal_id: BigInt(proposal.proposalId) }
     }, GovernanceRedeemer);
 
     // Build transaction with proposal execution logic
-    let txBuilder = this.lucid.newTx()
+    let txBuilder: TxBuilder = this.lucid.newTx()
       .collectFrom([governanceUtxo], redeemer)
-      .payToContract(this.governanceAddress, { inline: datumData }, governanceUtxo.assets)
-      .attachSpendingValidator(this.governanceValidator);
+      .pay.ToContract(this.governanceAddress, { kind: "inline", value: datumData }, governanceUtxo.assets)
+      .attach.SpendingValidator(this.governanceValidator)
+      .validFrom(slotToUnixTime(getLucidNetwork(this.lucid), proposal.executionSlot));
 
-    // Add proposal-specific execution logic
-    if (proposal.action.type === 'TreasuryPayout') {
-      const payoutAmount = proposal.action.parameters.amount;
-      const recipient = proposal.action.parameters.recipient;
-      txBuilder = txBuilder.payToAddress(recipient, { lovelace: payoutAmount });
-    }
+    // Registry and treasury UTxOs are spent in the same transaction
+    txBuilder = await this.executor.addTargetLegs(txBuilder, execution, targets);
 
     const tx = await txBuilder
       .validTo(Date.now() + 1200000) // 20 minute deadline
@@ -720,7 +1265,7 @@ export class PuckSwapGovernanceV4 {
     return tx;
   }
 
-  private async buildCancellationTx(proposalId: number, reason: string, governanceState: GovernanceDatum): Promise<TxComplete> {
+  private async buildCancellationTx(proposalId: number, reason: string, governanceState: GovernanceDatum): Promise<TxSignBuilder> {
     // Find governance UTxO
     const governanceUtxos = await this.lucid.utxosAt(this.governanceAddress);
     if (governanceUtxos.length === 0) {
@@ -729,42 +1274,42 @@ export class PuckSwapGovernanceV4 {
     const governanceUtxo = governanceUtxos[0];
 
     // Find and cancel proposal
-    const proposal = governanceState.proposals.find(p => p.proposal_id === proposalId);
+    const proposal = governanceState.proposals.find(p => p.proposalId === proposalId);
     if (!proposal) {
       throw new Error(`Proposal ${proposalId} not found`);
     }
 
     const updatedProposal: Proposal = {
       ...proposal,
-      cancelled: true
+      status: 'Cancelled'
     };
 
     // Update governance state
     const updatedState: GovernanceDatum = {
       ...governanceState,
       proposals: governanceState.proposals.map(p =>
-        p.proposal_id === proposalId ? updatedProposal : p
+        p.proposalId === proposalId ? updatedProposal : p
       )
     };
 
     // Serialize datum and redeemer
-    const datumData = Data.to(updatedState, GovernanceDatum);
+    const datumData = serializeGovernanceDatum(updatedState);
     const redeemer = Data.to({
-      CancelProposal: { proposal_id: proposalId, reason }
+      CancelProposal: { proposal_id: BigInt(proposalId), reason: fromText(reason) }
     }, GovernanceRedeemer);
 
     // Build transaction
     const tx = await this.lucid.newTx()
       .collectFrom([governanceUtxo], redeemer)
-      .payToContract(this.governanceAddress, { inline: datumData }, governanceUtxo.assets)
-      .attachSpendingValidator(this.governanceValidator)
+      .pay.ToContract(this.governanceAddress, { kind: "inline", value: datumData }, governanceUtxo.assets)
+      .attach.SpendingValidator(this.governanceValidator)
       .validTo(Date.now() + 1200000) // 20 minute deadline
       .complete();
 
     return tx;
   }
 
-  private async buildConfigUpdateTx(config: GovernanceConfigUpdate, governanceState: GovernanceDatum): Promise<TxComplete> {
+  private async buildConfigUpdateTx(config: GovernanceConfigUpdate, governanceState: GovernanceDatum): Promise<TxSignBuilder> {
     // Find governance UTxO
     const governanceUtxos = await this.lucid.utxosAt(this.governanceAddress);
     if (governanceUtxos.length === 0) {
@@ -784,16 +1329,23 @@ export class PuckSwapGovernanceV4 {
     };
 
     // Serialize datum and redeemer
-    const datumData = Data.to(updatedState, GovernanceDatum);
+    const datumData = serializeGovernanceDatum(updatedState);
     const redeemer = Data.to({
-      UpdateConfig: { config }
+      UpdateConfig: {
+        voting_period_slots: BigInt(updatedState.votingPeriodSlots),
+        execution_delay_slots: BigInt(updatedState.executionDelaySlots),
+        quorum_threshold_bps: BigInt(updatedState.quorumThresholdBps),
+        approval_threshold_bps: BigInt(updatedState.approvalThresholdBps),
+        proposal_deposit: updatedState.proposalDeposit,
+        min_voting_power: updatedState.minVotingPower
+      }
     }, GovernanceRedeemer);
 
     // Build transaction
     const tx = await this.lucid.newTx()
       .collectFrom([governanceUtxo], redeemer)
-      .payToContract(this.governanceAddress, { inline: datumData }, governanceUtxo.assets)
-      .attachSpendingValidator(this.governanceValidator)
+      .pay.ToContract(this.governanceAddress, { kind: "inline", value: datumData }, governanceUtxo.assets)
+      .attach.SpendingValidator(this.governanceValidator)
       .validTo(Date.now() + 1200000) // 20 minute deadline
       .complete();
 
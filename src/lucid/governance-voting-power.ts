@@ -0,0 +1,211 @@
+// PuckSwap v4 Enterprise - Governance Voting Power
+// Snapshot-based, delegable voting power for PuckSwapGovernanceV4
+// Power is read from holder balances at a proposal's votingStartSlot, so tokens
+// moved between wallets after voting opens carry no extra weight
+// LP tokens and staked pADA count toward power through configurable weights
+
+import {
+  Data,
+  Constr,
+  Unit,
+  Assets
+} from "@lucid-evolution/lucid";
+
+// =============================================================================
+// VOTING POWER TYPES
+// =============================================================================
+
+export const VOTING_POWER_CONSTANTS = {
+  WEIGHT_PRECISION_BPS: 10_000, // 10000 bps = one vote per token unit
+  DELEGATION_MIN_ADA: 2_000_000n
+} as const;
+
+// Voting weight of one asset class
+export interface VotingPowerWeight {
+  unit: Unit;
+  weightBps: number;
+  label?: string; // e.g. "PUCKY_GOV", "ADA/PUCKY LP", "pADA"
+}
+
+export interface VotingPowerConfig {
+  weights: VotingPowerWeight[];
+}
+
+// On-chain delegation record, keyed by payment key hashes
+export interface VoteDelegation {
+  delegator: string;
+  delegate: string;
+  delegatedAtSlot: number;
+}
+
+// Historical balances and delegations, typically served by the Context7 indexer
+export interface VotingPowerSnapshotSource {
+  getHolderAssetsAt(slot: number, units: Unit[]): Promise<Map<string, Assets>>; // Keyed by payment key hash
+  getDelegationsAt(slot: number): Promise<VoteDelegation[]>;
+}
+
+export interface VoterPower {
+  ownPower: bigint;
+  delegatedPower: bigint; // Power received from delegators
+  votingPower: bigint; // Zero when the voter has delegated away
+  delegatedTo: string | null;
+}
+
+export interface VotingPowerSnapshot {
+  slot: number;
+  voters: Map<string, VoterPower>;
+  totalVotingPower: bigint;
+}
+
+// =============================================================================
+// WEIGHTING
+// =============================================================================
+
+/**
+ * Default weighting: governance tokens count fully, optional LP and pADA units at the given weights
+ * @param governanceTokenUnit - PUCKY_GOV unit
+ * @param extraWeights - LP token and staked balance weights
+ */
+export function createVotingPowerConfig(
+  governanceTokenUnit: Unit,
+  extraWeights: VotingPowerWeight[] = []
+): VotingPowerConfig {
+  const config = {
+    weights: [
+      { unit: governanceTokenUnit, weightBps: VOTING_POWER_CONSTANTS.WEIGHT_PRECISION_BPS, label: "PUCKY_GOV" },
+      ...extraWeights
+    ]
+  };
+  validateVotingPowerConfig(config);
+  return config;
+}
+
+export function validateVotingPowerConfig(config: VotingPowerConfig): void {
+  const units = new Set<string>();
+  for (const weight of config.weights) {
+    if (!Number.isInteger(weight.weightBps) || weight.weightBps < 0) {
+      throw new Error(`Invalid voting weight for ${weight.label || weight.unit}: ${weight.weightBps}`);
+    }
+    if (units.has(weight.unit)) {
+      throw new Error(`Duplicate voting weight for unit ${weight.unit}`);
+    }
+    units.add(weight.unit);
+  }
+}
+
+/**
+ * Weighted voting power of a set of assets
+ */
+export function calculateWeightedVotingPower(assets: Assets, config: VotingPowerConfig): bigint {
+  return config.weights.reduce((power, weight) => {
+    const amount = BigInt(assets[weight.unit] || 0n);
+    return power + (amount * BigInt(weight.weightBps)) / BigInt(VOTING_POWER_CONSTANTS.WEIGHT_PRECISION_BPS);
+  }, 0n);
+}
+
+// =============================================================================
+// SNAPSHOTS
+// =============================================================================
+
+/**
+ * Resolve voting power for every holder from balances and delegations at one slot
+ * Delegation is one level deep: power received by a delegate is not passed on
+ * @param holderAssets - Balances at the snapshot slot, keyed by payment key hash
+ * @param delegations - Delegation records live at the snapshot slot
+ * @param config - Asset weighting
+ * @param slot - Snapshot slot
+ */
+export function buildVotingPowerSnapshot(
+  holderAssets: Map<string, Assets>,
+  delegations: VoteDelegation[],
+  config: VotingPowerConfig,
+  slot: number
+): VotingPowerSnapshot {
+  // Latest delegation per delegator wins; self-delegation is ignored
+  const delegateOf = new Map<string, VoteDelegation>();
+  for (const delegation of delegations) {
+    if (delegation.delegatedAtSlot > slot || delegation.delegator === delegation.delegate) {
+      continue;
+    }
+    const existing = delegateOf.get(delegation.delegator);
+    if (!existing || delegation.delegatedAtSlot >= existing.delegatedAtSlot) {
+      delegateOf.set(delegation.delegator, delegation);
+    }
+  }
+
+  const voters = new Map<string, VoterPower>();
+  const voter = (keyHash: string): VoterPower => {
+    let entry = voters.get(keyHash);
+    if (!entry) {
+      entry = { ownPower: 0n, delegatedPower: 0n, votingPower: 0n, delegatedTo: null };
+      voters.set(keyHash, entry);
+    }
+    return entry;
+  };
+
+  let totalVotingPower = 0n;
+  for (const [keyHash, assets] of holderAssets) {
+    const power = calculateWeightedVotingPower(assets, config);
+    const entry = voter(keyHash);
+    entry.ownPower += power;
+    totalVotingPower += power;
+
+    const delegation = delegateOf.get(keyHash);
+    if (delegation) {
+      entry.delegatedTo = delegation.delegate;
+      voter(delegation.delegate).delegatedPower += power;
+    }
+  }
+
+  for (const entry of voters.values()) {
+    entry.votingPower = (entry.delegatedTo ? 0n : entry.ownPower) + entry.delegatedPower;
+  }
+
+  return { slot, voters, totalVotingPower };
+}
+
+/**
+ * Fetch and build a snapshot from a historical source
+ */
+export async function takeVotingPowerSnapshot(
+  source: VotingPowerSnapshotSource,
+  config: VotingPowerConfig,
+  slot: number
+): Promise<VotingPowerSnapshot> {
+  const [holderAssets, delegations] = await Promise.all([
+    source.getHolderAssetsAt(slot, config.weights.map(weight => weight.unit)),
+    source.getDelegationsAt(slot)
+  ]);
+
+  return buildVotingPowerSnapshot(holderAssets, delegations, config, slot);
+}
+
+// =============================================================================
+// DELEGATION DATUM
+// =============================================================================
+
+// Constr 0 [delegator_pkh, delegate_pkh, delegated_at_slot]
+export function serializeVoteDelegation(delegation: VoteDelegation): string {
+  return Data.to(new Constr(0, [
+    delegation.delegator,
+    delegation.delegate,
+    BigInt(delegation.delegatedAtSlot)
+  ]));
+}
+
+export function parseVoteDelegation(datum: string): VoteDelegation | null {
+  try {
+    const data = Data.from(datum) as Constr<Data>;
+    if (data.index !== 0 || data.fields.length !== 3) {
+      return null;
+    }
+
+    return {
+      delegator: data.fields[0] as string,
+      delegate: data.fields[1] as string,
+      delegatedAtSlot: Number(data.fields[2] as bigint)
+    };
+  } catch {
+    return null;
+  }
+}
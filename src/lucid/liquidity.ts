@@ -35,8 +35,11 @@ import {
   PoolStats,
   PUCKY_TOKEN_CONFIG,
   AMM_CONSTANTS,
-  parsePoolCIP68Datum
+  parsePoolCIP68Datum,
+  getPoolCurve
 } from "./swap";
+import { POOL_TYPES, PoolCurve } from "../lib/cip68-types";
+import { calculateStableLiquidityProvision } from "./utils/stableswap-math";
 
 // =============================================================================
 // LIQUIDITY OPERATION PARAMETERS
@@ -125,7 +128,9 @@ export async function buildCoreAddLiquidityTransaction(
       poolDatum.pool_state.total_lp_supply,
       params.adaAmount,
       params.tokenAmount,
-      params.isInitialLiquidity || false
+      params.isInitialLiquidity || false,
+      getPoolCurve(poolDatum.metadata),
+      poolDatum.pool_config.fee_bps
     );
 
     // Validate minimum LP tokens requirement
@@ -331,12 +336,15 @@ export interface WithdrawalCalculationResult {
 
 /**
  * Calculate liquidity provision using proportional deposits
+ * StableSwap pools mint by invariant growth and accept unbalanced deposits.
  * @param adaReserve - Current ADA reserve
  * @param tokenReserve - Current token reserve
  * @param totalLpSupply - Current total LP supply
  * @param adaAmount - ADA amount to deposit
  * @param tokenAmount - Token amount to deposit
  * @param isInitialLiquidity - Whether this is initial liquidity
+ * @param curve - Pool curve; constant product when omitted
+ * @param feeBps - Pool fee in basis points, charged on unbalanced StableSwap deposits
  * @returns Liquidity calculation result
  */
 export function calculateLiquidityProvision(
@@ -345,13 +353,43 @@ export function calculateLiquidityProvision(
   totalLpSupply: bigint,
   adaAmount: bigint,
   tokenAmount: bigint,
-  isInitialLiquidity: boolean
+  isInitialLiquidity: boolean,
+  curve?: PoolCurve,
+  feeBps?: bigint
 ): LiquidityCalculationResult {
   // Validate input parameters
   if (adaAmount <= 0n || tokenAmount <= 0n) {
     throw new Error("Invalid liquidity parameters: amounts must be positive");
   }
 
+  if (curve?.pool_type === POOL_TYPES.STABLESWAP) {
+    if (isInitialLiquidity !== (totalLpSupply === 0n)) {
+      throw new Error(isInitialLiquidity
+        ? "Pool already has liquidity, cannot add initial liquidity"
+        : "Pool has no liquidity, must add initial liquidity first");
+    }
+
+    const { lpTokensMinted } = calculateStableLiquidityProvision(
+      adaReserve,
+      tokenReserve,
+      totalLpSupply,
+      adaAmount,
+      tokenAmount,
+      curve.amplification,
+      feeBps
+    );
+    if (lpTokensMinted <= 0n) {
+      throw new Error("LP tokens calculation resulted in zero");
+    }
+
+    return {
+      lpTokensMinted,
+      newAdaReserve: adaReserve + adaAmount,
+      newTokenReserve: tokenReserve + tokenAmount,
+      newTotalLpSupply: totalLpSupply + lpTokensMinted
+    };
+  }
+
   let lpTokensMinted: bigint;
   let newAdaReserve: bigint;
   let newTokenReserve: bigint;
@@ -410,6 +448,8 @@ export function calculateLiquidityProvision(
 
 /**
  * Calculate liquidity withdrawal using proportional LP token burning
+ * Proportional exits keep every invariant's price unchanged, so this applies
+ * to constant product and StableSwap pools alike.
  * @param adaReserve - Current ADA reserve
  * @param tokenReserve - Current token reserve
  * @param totalLpSupply - Current total LP supply
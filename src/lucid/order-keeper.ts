@@ -0,0 +1,322 @@
+// PuckSwap Limit & Stop-Loss Order Keeper
+// Off-chain service that watches pool state changes through PoolMonitor and
+// settles Limit and StopLoss orders once their trigger price is crossed
+// Supports partial fills via filled_amount, deadline_slot expiry and dry runs
+
+import {
+  LucidEvolution,
+  TxHash,
+  SpendingValidator
+} from "@lucid-evolution/lucid";
+
+import type { PoolMonitor, PoolEvent } from "../context7/pool_monitor";
+import { SwapOrderData } from "../lib/cip68-types";
+import { PoolInfo, discoverActivePools } from "./pool-discovery";
+import {
+  OpenOrder,
+  OrderFill,
+  SettledFill,
+  BatchSettlementPlan,
+  PuckSwapOrderBatcher,
+  ORDER_CONSTANTS,
+  parseOrderUtxo,
+  getOrderUnit,
+  getOrderAddress,
+  findMaxFillAmount,
+  planBatchSettlement
+} from "./orders";
+
+// =============================================================================
+// KEEPER TYPES
+// =============================================================================
+
+export interface OrderKeeperConfig {
+  dryRun: boolean; // Only report which orders would execute
+  maxFillsPerBatch?: number;
+  minPartialFill?: bigint; // Smallest partial fill worth settling
+}
+
+// Outcome of checking one order against the current pool price
+export interface TriggerEvaluation {
+  orderId: string;
+  orderType: 'Limit' | 'StopLoss';
+  spotPrice: number; // Output per unit of input at current reserves
+  triggered: boolean;
+  fillAmount: bigint;
+  reason: string;
+}
+
+// Report produced for every keeper run on a pool
+export interface KeeperRunReport {
+  poolId: string;
+  slot: number;
+  timestamp: number;
+  dryRun: boolean;
+  evaluations: TriggerEvaluation[];
+  expired: string[];
+  executable: SettledFill[];
+  skipped: { orderId: string; reason: string }[];
+  txHash?: TxHash;
+  error?: string;
+}
+
+// =============================================================================
+// TRIGGER LOGIC
+// =============================================================================
+
+/**
+ * Pool identifier used in keeper reports
+ */
+export function getKeeperPoolId(pool: PoolInfo): string {
+  return `${pool.tokenPolicy}_${pool.tokenName}`;
+}
+
+/**
+ * Spot price of an order's output per unit of its input at current reserves
+ */
+export function getSpotOutputPerInput(pool: PoolInfo, orderData: SwapOrderData): number {
+  const adaPerToken = Number(pool.adaReserve) / Number(pool.tokenReserve);
+  const inputIsAda = getOrderUnit(orderData.input_policy, orderData.input_name) === "lovelace";
+  return inputIsAda ? 1 / adaPerToken : adaPerToken;
+}
+
+/**
+ * Check whether an order's trigger has been crossed and how much can be filled
+ * Limit orders trigger once the spot price reaches the limit price.
+ * StopLoss orders trigger once the spot price falls to the trigger price.
+ */
+export function evaluateOrderTrigger(
+  pool: PoolInfo,
+  order: OpenOrder,
+  minPartialFill: bigint = ORDER_CONSTANTS.MIN_PARTIAL_FILL
+): TriggerEvaluation {
+  const orderData = order.datum.order_data;
+  const orderType = orderData.order_type;
+
+  if (orderType.type === 'Market') {
+    throw new Error("Market orders are settled by the batcher, not the keeper");
+  }
+
+  const spotPrice = getSpotOutputPerInput(pool, orderData);
+  const triggered = orderType.type === 'Limit'
+    ? spotPrice >= orderType.price
+    : spotPrice <= orderType.trigger_price;
+
+  if (!triggered) {
+    return {
+      orderId: order.orderId,
+      orderType: orderType.type,
+      spotPrice,
+      triggered: false,
+      fillAmount: 0n,
+      reason: orderType.type === 'Limit'
+        ? `Spot ${spotPrice} below limit ${orderType.price}`
+        : `Spot ${spotPrice} above trigger ${orderType.trigger_price}`
+    };
+  }
+
+  const fillAmount = findMaxFillAmount(pool, order, minPartialFill);
+
+  return {
+    orderId: order.orderId,
+    orderType: orderType.type,
+    spotPrice,
+    triggered: true,
+    fillAmount,
+    reason: fillAmount === 0n
+      ? "Triggered but output requirement not met at current depth"
+      : fillAmount < order.remainingInput
+        ? `Partial fill of ${fillAmount}/${order.remainingInput}`
+        : "Full fill"
+  };
+}
+
+// =============================================================================
+// KEEPER SERVICE
+// =============================================================================
+
+/**
+ * PuckSwap Order Keeper
+ * Re-checks the orders of a pool whenever PoolMonitor reports a change in its
+ * state, including rollbacks, and settles triggered Limit/StopLoss orders
+ */
+export class PuckSwapOrderKeeper {
+  private lucid: LucidEvolution;
+  private orderValidator: SpendingValidator;
+  private monitor: PoolMonitor;
+  private batcher: PuckSwapOrderBatcher;
+  private config: OrderKeeperConfig;
+
+  private pools: Map<string, PoolInfo> = new Map();
+  private inFlight: Set<string> = new Set(); // Pool addresses with a run in progress
+  private rerun: Set<string> = new Set();
+  private reports: KeeperRunReport[] = [];
+  private isRunning: boolean = false;
+
+  private readonly poolListener = (event: PoolEvent): void => {
+    void this.handlePoolEvent(event);
+  };
+
+  constructor(
+    lucid: LucidEvolution,
+    orderValidator: SpendingValidator,
+    monitor: PoolMonitor,
+    config: OrderKeeperConfig,
+    poolValidator?: SpendingValidator
+  ) {
+    this.lucid = lucid;
+    this.orderValidator = orderValidator;
+    this.monitor = monitor;
+    this.config = config;
+    this.batcher = new PuckSwapOrderBatcher(lucid, orderValidator, {
+      poolValidator,
+      maxBatchSize: config.maxFillsPerBatch
+    });
+  }
+
+  // Start listening for pool state changes
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+
+    await this.refreshPools();
+    this.monitor.addEventListener('*', this.poolListener);
+    this.isRunning = true;
+
+    console.log(`Order keeper started (${this.config.dryRun ? 'dry run' : 'live'}) for ${this.pools.size} pools`);
+  }
+
+  // Stop listening for pool state changes
+  stop(): void {
+    this.monitor.removeEventListener('*', this.poolListener);
+    this.isRunning = false;
+    console.log("Order keeper stopped");
+  }
+
+  // Reports from previous runs, most recent last
+  getReports(limit: number = 100): KeeperRunReport[] {
+    return this.reports.slice(-limit);
+  }
+
+  // Reload pool UTxOs from the swap validator
+  async refreshPools(): Promise<void> {
+    const pools = await discoverActivePools(this.lucid);
+    this.pools.clear();
+    pools.forEach(pool => this.pools.set(getKeeperPoolId(pool), pool));
+  }
+
+  /**
+   * Evaluate every Limit/StopLoss order for a pool and settle the triggered ones
+   * In dry-run mode the report lists executable fills without submitting.
+   */
+  async runForPool(pool: PoolInfo): Promise<KeeperRunReport> {
+    const currentSlot = this.lucid.currentSlot();
+    const report: KeeperRunReport = {
+      poolId: getKeeperPoolId(pool),
+      slot: currentSlot,
+      timestamp: Date.now(),
+      dryRun: this.config.dryRun,
+      evaluations: [],
+      expired: [],
+      executable: [],
+      skipped: []
+    };
+
+    try {
+      const orders = await this.collectTriggerOrders(pool, currentSlot);
+      const fills: OrderFill[] = [];
+
+      for (const order of orders) {
+        if (order.isExpired) {
+          report.expired.push(order.orderId);
+          continue;
+        }
+
+        const evaluation = evaluateOrderTrigger(pool, order, this.config.minPartialFill ?? ORDER_CONSTANTS.MIN_PARTIAL_FILL);
+        report.evaluations.push(evaluation);
+
+        if (evaluation.triggered && evaluation.fillAmount > 0n) {
+          fills.push({ order, fillAmount: evaluation.fillAmount });
+        }
+      }
+
+      const maxFills = Math.min(this.config.maxFillsPerBatch ?? ORDER_CONSTANTS.MAX_BATCH_SIZE, ORDER_CONSTANTS.MAX_BATCH_SIZE);
+      const plan: BatchSettlementPlan = planBatchSettlement(pool, fills.slice(0, maxFills));
+      report.executable = plan.fills;
+      report.skipped = plan.skipped;
+
+      if (!this.config.dryRun && plan.fills.length > 0) {
+        report.txHash = await this.batcher.settle(plan);
+      }
+    } catch (error) {
+      report.error = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Order keeper run failed for ${report.poolId}:`, error);
+    }
+
+    this.reports.push(report);
+    if (this.reports.length > 1000) {
+      this.reports.shift();
+    }
+
+    return report;
+  }
+
+  // Private methods
+
+  private async handlePoolEvent(event: PoolEvent): Promise<void> {
+    // Every pool sharing the validator address changes with it. One run per
+    // address at a time; events arriving meanwhile trigger one more run
+    const poolAddress = event.poolAddress;
+    if (this.inFlight.has(poolAddress)) {
+      this.rerun.add(poolAddress);
+      return;
+    }
+
+    this.inFlight.add(poolAddress);
+    try {
+      do {
+        this.rerun.delete(poolAddress);
+
+        // Refresh so fills are planned against the pool UTxOs that will be spent
+        await this.refreshPools();
+        const pools = Array.from(this.pools.values()).filter(pool => pool.poolAddress === poolAddress);
+
+        for (const pool of pools) {
+          const report = await this.runForPool(pool);
+          if (report.executable.length > 0 || report.expired.length > 0) {
+            console.log(
+              `Keeper ${report.dryRun ? '[dry run] ' : ''}${report.poolId} after ${event.type} ${event.txHash}: ` +
+              `${report.executable.length} executable, ${report.expired.length} expired`
+            );
+          }
+        }
+      } while (this.rerun.has(poolAddress));
+    } catch (error) {
+      console.error(`Error handling ${event.type} event for ${poolAddress}:`, error);
+    } finally {
+      this.inFlight.delete(poolAddress);
+      this.rerun.delete(poolAddress);
+    }
+  }
+
+  private async collectTriggerOrders(pool: PoolInfo, currentSlot: number): Promise<OpenOrder[]> {
+    const orderAddress = getOrderAddress(this.lucid, this.orderValidator);
+    const utxos = await this.lucid.utxosAt(orderAddress);
+    const tokenUnit = `${pool.tokenPolicy}${pool.tokenName}`;
+
+    return utxos
+      .map(utxo => parseOrderUtxo(utxo, currentSlot))
+      .filter((order): order is OpenOrder => order !== null)
+      .filter(order => order.datum.order_data.order_type.type !== 'Market')
+      .filter(order => {
+        const data = order.datum.order_data;
+        const units = [
+          getOrderUnit(data.input_policy, data.input_name),
+          getOrderUnit(data.output_policy, data.output_name)
+        ];
+        return units.includes("lovelace") && units.includes(tokenUnit);
+      })
+      .sort((a, b) => a.datum.order_data.deadline_slot - b.datum.order_data.deadline_slot);
+  }
+}
@@ -0,0 +1,746 @@
+// PuckSwap Batched Swap Orders
+// Lucid Evolution builders for SwapOrderCIP68Datum order UTxOs
+// Users lock orders at the order validator; a batcher settles many pending
+// orders against a pool in one transaction, avoiding single-UTxO pool contention
+
+import {
+  LucidEvolution,
+  Data,
+  UTxO,
+  TxHash,
+  Address,
+  Assets,
+  SpendingValidator,
+  TxBuilder,
+  TxSignBuilder,
+  validatorToAddress
+} from "@lucid-evolution/lucid";
+
+import { createLucidInstance, connectWallet, getLucidNetwork } from "../lib/lucid-config";
+import {
+  SwapOrderCIP68Datum,
+  SwapOrderData,
+  OrderType,
+  CIP68DatumBuilder
+} from "../lib/cip68-types";
+import { CIP68Serializer } from "../lib/cip68-serializer";
+import { calculatePoolSwapOutput } from "./swap";
+import { PoolInfo, serializePoolDatum } from "./pool-discovery";
+import { MinAdaManager } from "../lib/min-ada-manager";
+
+// =============================================================================
+// ORDER TYPES
+// =============================================================================
+
+export const ORDER_CONSTANTS = {
+  DEPOSIT_ADA: 2_000_000n, // Min-ADA deposit locked with every order, returned on fill or cancel
+  DEFAULT_DEADLINE_SLOTS: 86_400, // 1 day
+  MAX_BATCH_SIZE: 20, // Keeps settlement transactions within execution unit limits
+  MIN_PARTIAL_FILL: 1_000_000n // Smallest partial fill worth settling, in input units
+};
+
+// Parameters for locking a new order
+export interface PlaceOrderParams {
+  inputPolicy: string; // "" for ADA
+  inputName: string;
+  inputAmount: bigint;
+  outputPolicy: string; // "" for ADA
+  outputName: string;
+  minOutput: bigint;
+  orderType: OrderType;
+  partialFillAllowed?: boolean;
+  deadlineSlot?: number;
+  userAddress?: Address;
+}
+
+// Order UTxO currently locked at the order validator
+export interface OpenOrder {
+  orderId: string; // txHash#outputIndex
+  utxo: UTxO;
+  datum: SwapOrderCIP68Datum;
+  remainingInput: bigint;
+  isExpired: boolean;
+}
+
+// Amount of an order to fill in a settlement
+export interface OrderFill {
+  order: OpenOrder;
+  fillAmount: bigint;
+}
+
+// Fill that passed its checks and will be settled
+export interface SettledFill extends OrderFill {
+  outputAmount: bigint;
+  isPartial: boolean;
+}
+
+// Result of applying a batch of fills to a pool, ready to build
+export interface BatchSettlementPlan {
+  pool: PoolInfo;
+  fills: SettledFill[];
+  skipped: { orderId: string; reason: string }[];
+  newAdaReserve: bigint;
+  newTokenReserve: bigint;
+  netAdaDelta: bigint; // Positive when ADA flows into the pool
+  netTokenDelta: bigint; // Positive when tokens flow into the pool
+}
+
+// =============================================================================
+// ORDER HELPERS
+// =============================================================================
+
+/**
+ * Asset unit for an order side ("lovelace" for ADA)
+ */
+export function getOrderUnit(policy: string, name: string): string {
+  return policy === "" ? "lovelace" : `${policy}${name}`;
+}
+
+/**
+ * Parse an order UTxO
+ * @returns Open order, or null if the UTxO does not carry a valid order datum
+ */
+export function parseOrderUtxo(utxo: UTxO, currentSlot: number): OpenOrder | null {
+  if (!utxo.datum) {
+    return null;
+  }
+
+  try {
+    const datum = CIP68Serializer.deserializeSwapOrderDatum(Data.from(utxo.datum));
+    if (!datum) {
+      return null;
+    }
+
+    const remainingInput = datum.order_data.input_amount - datum.order_data.filled_amount;
+    if (remainingInput <= 0n) {
+      return null;
+    }
+
+    return {
+      orderId: `${utxo.txHash}#${utxo.outputIndex}`,
+      utxo,
+      datum,
+      remainingInput,
+      isExpired: currentSlot > datum.order_data.deadline_slot
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Minimum output required for filling part of an order
+ * Scales the order's min_output pro rata, and enforces the limit price for
+ * Limit orders (price = minimum output per unit of input).
+ */
+export function calculateRequiredOutput(orderData: SwapOrderData, fillAmount: bigint): bigint {
+  const proRata = (orderData.min_output * fillAmount + orderData.input_amount - 1n) / orderData.input_amount;
+
+  if (orderData.order_type.type === 'Limit') {
+    const limitOutput = BigInt(Math.ceil(Number(fillAmount) * orderData.order_type.price));
+    return limitOutput > proRata ? limitOutput : proRata;
+  }
+
+  return proRata;
+}
+
+/**
+ * Largest fill of an order that still meets its required output
+ * Output is concave in input while the requirement is linear, so the
+ * feasible fills form a prefix and can be found by binary search.
+ * @returns Fill amount, or 0n if even the minimum fill is not satisfiable
+ */
+export function findMaxFillAmount(pool: PoolInfo, order: OpenOrder, minFill: bigint = 1n): bigint {
+  const orderData = order.datum.order_data;
+  const swapInToken = getOrderUnit(orderData.input_policy, orderData.input_name) !== "lovelace";
+
+  const isFillable = (amount: bigint): boolean => {
+    try {
+      const result = calculatePoolSwapOutput(pool.adaReserve, pool.tokenReserve, amount, swapInToken, pool.curve, pool.feeBps);
+      return result.outputAmount >= calculateRequiredOutput(orderData, amount);
+    } catch {
+      return false;
+    }
+  };
+
+  if (isFillable(order.remainingInput)) {
+    return order.remainingInput;
+  }
+
+  if (!orderData.partial_fill_allowed || !isFillable(minFill)) {
+    return 0n;
+  }
+
+  let low = minFill;
+  let high = order.remainingInput;
+  while (high - low > 1n) {
+    const mid = (low + high) / 2n;
+    if (isFillable(mid)) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Apply a set of fills to a pool in order, skipping any fill whose output
+ * would fall short of its requirement at the running pool price
+ * With minPartialFill, a fill that falls short is instead reduced to the
+ * largest amount of at least minPartialFill that meets its requirement, if
+ * the order allows partial fills.
+ */
+export function planBatchSettlement(
+  pool: PoolInfo,
+  fills: OrderFill[],
+  options: { minPartialFill?: bigint } = {}
+): BatchSettlementPlan {
+  const tokenUnit = `${pool.tokenPolicy}${pool.tokenName}`;
+  let adaReserve = pool.adaReserve;
+  let tokenReserve = pool.tokenReserve;
+
+  const settled: SettledFill[] = [];
+  const skipped: { orderId: string; reason: string }[] = [];
+
+  for (const fill of fills) {
+    const { order } = fill;
+    let fillAmount = fill.fillAmount;
+    const orderData = order.datum.order_data;
+    const inputUnit = getOrderUnit(orderData.input_policy, orderData.input_name);
+    const outputUnit = getOrderUnit(orderData.output_policy, orderData.output_name);
+
+    const isAdaToToken = inputUnit === "lovelace" && outputUnit === tokenUnit;
+    const isTokenToAda = inputUnit === tokenUnit && outputUnit === "lovelace";
+    if (!isAdaToToken && !isTokenToAda) {
+      skipped.push({ orderId: order.orderId, reason: "Order pair does not match pool" });
+      continue;
+    }
+
+    if (order.isExpired) {
+      skipped.push({ orderId: order.orderId, reason: "Order expired" });
+      continue;
+    }
+
+    if (fillAmount <= 0n || fillAmount > order.remainingInput) {
+      skipped.push({ orderId: order.orderId, reason: `Invalid fill amount ${fillAmount}` });
+      continue;
+    }
+
+    if (fillAmount < order.remainingInput && !orderData.partial_fill_allowed) {
+      skipped.push({ orderId: order.orderId, reason: "Partial fill not allowed" });
+      continue;
+    }
+
+    let result;
+    let requiredOutput;
+    try {
+      result = calculatePoolSwapOutput(adaReserve, tokenReserve, fillAmount, isTokenToAda, pool.curve, pool.feeBps);
+      requiredOutput = calculateRequiredOutput(orderData, fillAmount);
+
+      if (result.outputAmount < requiredOutput && options.minPartialFill !== undefined) {
+        const runningPool = { ...pool, adaReserve, tokenReserve };
+        const maxFill = findMaxFillAmount(runningPool, { ...order, remainingInput: fillAmount }, options.minPartialFill);
+        if (maxFill > 0n) {
+          fillAmount = maxFill;
+          result = calculatePoolSwapOutput(adaReserve, tokenReserve, fillAmount, isTokenToAda, pool.curve, pool.feeBps);
+          requiredOutput = calculateRequiredOutput(orderData, fillAmount);
+        }
+      }
+    } catch (error) {
+      skipped.push({ orderId: order.orderId, reason: error instanceof Error ? error.message : 'Swap calculation failed' });
+      continue;
+    }
+
+    if (result.outputAmount < requiredOutput) {
+      skipped.push({
+        orderId: order.orderId,
+        reason: `Output ${result.outputAmount} below required ${requiredOutput}`
+      });
+      continue;
+    }
+
+    adaReserve = result.newAdaReserve;
+    tokenReserve = result.newTokenReserve;
+    settled.push({ order, fillAmount, outputAmount: result.outputAmount, isPartial: fillAmount < order.remainingInput });
+  }
+
+  return {
+    pool,
+    fills: settled,
+    skipped,
+    newAdaReserve: adaReserve,
+    newTokenReserve: tokenReserve,
+    netAdaDelta: adaReserve - pool.adaReserve,
+    netTokenDelta: tokenReserve - pool.tokenReserve
+  };
+}
+
+/**
+ * Add an amount of a unit to an asset bundle
+ */
+function addAsset(assets: Assets, unit: string, amount: bigint): Assets {
+  const result: Assets = { ...assets };
+  const next = (result[unit] || 0n) + amount;
+  if (next === 0n) {
+    delete result[unit];
+  } else {
+    result[unit] = next;
+  }
+  return result;
+}
+
+// =============================================================================
+// TRANSACTION BUILDERS
+// =============================================================================
+
+/**
+ * Build a transaction locking a new swap order at the order validator
+ * @param lucid - Lucid Evolution instance
+ * @param orderAddress - Order validator address
+ * @param params - Order parameters (userAddress required)
+ * @param currentSlot - Slot used to derive the default deadline
+ */
+export async function buildPlaceOrderTransaction(
+  lucid: LucidEvolution,
+  orderAddress: Address,
+  params: PlaceOrderParams & { userAddress: Address },
+  currentSlot: number
+): Promise<TxSignBuilder> {
+  try {
+    validatePlaceOrderParams(params);
+
+    const orderData: SwapOrderData = {
+      user: params.userAddress,
+      input_policy: params.inputPolicy,
+      input_name: params.inputName,
+      input_amount: params.inputAmount,
+      output_policy: params.outputPolicy,
+      output_name: params.outputName,
+      min_output: params.minOutput,
+      deadline_slot: params.deadlineSlot ?? currentSlot + ORDER_CONSTANTS.DEFAULT_DEADLINE_SLOTS,
+      order_type: params.orderType,
+      partial_fill_allowed: params.partialFillAllowed ?? false,
+      filled_amount: 0n
+    };
+
+    const orderDatum = Data.to(
+      CIP68Serializer.serializeSwapOrderDatum(CIP68DatumBuilder.buildSwapOrderDatum(orderData))
+    );
+
+    const lockedAssets = addAsset(
+      { lovelace: ORDER_CONSTANTS.DEPOSIT_ADA },
+      getOrderUnit(params.inputPolicy, params.inputName),
+      params.inputAmount
+    );
+
+    return await lucid
+      .newTx()
+      .pay.ToContract(orderAddress, { kind: "inline", value: orderDatum }, lockedAssets)
+      .complete();
+
+  } catch (error) {
+    throw new Error(`Failed to build place order transaction: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Build a transaction cancelling an order and returning its locked assets
+ */
+export async function buildCancelOrderTransaction(
+  lucid: LucidEvolution,
+  orderValidator: SpendingValidator,
+  order: OpenOrder
+): Promise<TxSignBuilder> {
+  try {
+    const user = order.datum.order_data.user;
+    const cancelRedeemer = Data.to(CIP68Serializer.serializeCancelOrderRedeemer(user));
+
+    return await lucid
+      .newTx()
+      .collectFrom([order.utxo], cancelRedeemer)
+      .pay.ToAddress(user, order.utxo.assets)
+      .addSigner(user)
+      .attach.SpendingValidator(orderValidator)
+      .complete();
+
+  } catch (error) {
+    throw new Error(`Failed to build cancel order transaction: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Build a single transaction settling a batch of orders against one pool
+ * Fully filled orders pay out output plus deposit; partially filled orders are
+ * re-locked with an updated filled_amount.
+ * @param lucid - Lucid Evolution instance
+ * @param orderValidator - Order spending validator
+ * @param plan - Settlement plan from planBatchSettlement
+ * @param batcherAddress - Batcher address recorded in redeemers
+ * @param poolValidator - Pool spending validator, if not supplied as a reference script
+ */
+export async function buildBatchSettlementTransaction(
+  lucid: LucidEvolution,
+  orderValidator: SpendingValidator,
+  plan: BatchSettlementPlan,
+  batcherAddress: Address,
+  poolValidator?: SpendingValidator
+): Promise<TxSignBuilder> {
+  try {
+    if (plan.fills.length === 0) {
+      throw new Error("No fillable orders in batch");
+    }
+
+    if (plan.fills.length > ORDER_CONSTANTS.MAX_BATCH_SIZE) {
+      throw new Error(`Batch exceeds maximum of ${ORDER_CONSTANTS.MAX_BATCH_SIZE} orders`);
+    }
+
+    const { pool } = plan;
+    const orderAddress = getOrderAddress(lucid, orderValidator);
+    const tokenUnit = `${pool.tokenPolicy}${pool.tokenName}`;
+
+    const batchRedeemer = Data.to(CIP68Serializer.serializeBatchSettleRedeemer(
+      plan.fills.map(fill => ({ txHash: fill.order.utxo.txHash, outputIndex: fill.order.utxo.outputIndex })),
+      plan.netAdaDelta,
+      plan.netTokenDelta,
+      batcherAddress
+    ));
+
+    const updatedPoolDatum = serializePoolDatum({
+      ...pool.poolDatum,
+      ada_reserve: plan.newAdaReserve,
+      token_reserve: plan.newTokenReserve
+    });
+
+    let tx: TxBuilder = lucid
+      .newTx()
+      .collectFrom([pool.poolUtxo], batchRedeemer)
+      .pay.ToContract(pool.poolAddress, { kind: "inline", value: updatedPoolDatum }, {
+        ...pool.poolUtxo.assets,
+        lovelace: plan.newAdaReserve,
+        [tokenUnit]: plan.newTokenReserve
+      });
+
+    for (const fill of plan.fills) {
+      const orderData = fill.order.datum.order_data;
+      const inputUnit = getOrderUnit(orderData.input_policy, orderData.input_name);
+      const outputUnit = getOrderUnit(orderData.output_policy, orderData.output_name);
+
+      const fillRedeemer = Data.to(CIP68Serializer.serializeFillOrderRedeemer(
+        fill.fillAmount,
+        fill.outputAmount,
+        { txHash: pool.poolUtxo.txHash, outputIndex: pool.poolUtxo.outputIndex },
+        batcherAddress
+      ));
+
+      tx = tx.collectFrom([fill.order.utxo], fillRedeemer);
+
+      if (fill.isPartial) {
+        // Re-lock the unfilled remainder with updated progress
+        const continuingDatum = Data.to(CIP68Serializer.serializeSwapOrderDatum({
+          ...fill.order.datum,
+          order_data: {
+            ...orderData,
+            filled_amount: orderData.filled_amount + fill.fillAmount
+          }
+        }));
+
+        const outputAssets: Assets = { [outputUnit]: fill.outputAmount };
+        if (outputUnit !== "lovelace") {
+          outputAssets.lovelace = MinAdaManager.calculateUserOutputMinAda(outputAssets).requiredMinAda;
+        }
+
+        tx = tx
+          .pay.ToContract(
+            orderAddress,
+            { kind: "inline", value: continuingDatum },
+            addAsset(fill.order.utxo.assets, inputUnit, -fill.fillAmount)
+          )
+          .pay.ToAddress(orderData.user, outputAssets);
+      } else {
+        // Full fill: everything except the consumed input goes back to the user
+        const userAssets = addAsset(
+          addAsset(fill.order.utxo.assets, inputUnit, -fill.fillAmount),
+          outputUnit,
+          fill.outputAmount
+        );
+        tx = tx.pay.ToAddress(orderData.user, userAssets);
+      }
+    }
+
+    tx = tx.attach.SpendingValidator(orderValidator);
+    if (poolValidator) {
+      tx = tx.attach.SpendingValidator(poolValidator);
+    }
+
+    return await tx.complete();
+
+  } catch (error) {
+    throw new Error(`Failed to build batch settlement transaction: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Address of the order validator on the instance's network
+ */
+export function getOrderAddress(lucid: LucidEvolution, orderValidator: SpendingValidator): Address {
+  return validatorToAddress(getLucidNetwork(lucid), orderValidator);
+}
+
+/**
+ * Validate order placement parameters
+ */
+export function validatePlaceOrderParams(params: PlaceOrderParams): void {
+  if (params.inputAmount <= 0n) {
+    throw new Error("Input amount must be positive");
+  }
+
+  if (params.minOutput < 0n) {
+    throw new Error("Minimum output cannot be negative");
+  }
+
+  if (getOrderUnit(params.inputPolicy, params.inputName) === getOrderUnit(params.outputPolicy, params.outputName)) {
+    throw new Error("Input and output assets must differ");
+  }
+
+  if (params.orderType.type === 'Limit' && params.orderType.price <= 0) {
+    throw new Error("Limit price must be positive");
+  }
+
+  if (params.orderType.type === 'StopLoss' && params.orderType.trigger_price <= 0) {
+    throw new Error("Stop-loss trigger price must be positive");
+  }
+}
+
+// =============================================================================
+// ORDER MANAGER
+// =============================================================================
+
+/**
+ * PuckSwap Order Manager
+ * Places, lists and cancels a wallet's swap orders
+ */
+export class PuckSwapOrderManager {
+  private lucid: LucidEvolution;
+  private orderValidator: SpendingValidator;
+  private orderAddress: Address;
+
+  constructor(lucid: LucidEvolution, orderValidator: SpendingValidator) {
+    this.lucid = lucid;
+    this.orderValidator = orderValidator;
+    this.orderAddress = getOrderAddress(lucid, orderValidator);
+  }
+
+  /**
+   * Initialize order manager with Lucid Evolution
+   */
+  static async create(
+    orderValidatorCbor: string,
+    network?: "Mainnet" | "Preview" | "Preprod",
+    walletName?: "eternl" | "nami" | "vespr" | "lace" | "typhon" | "flint"
+  ): Promise<PuckSwapOrderManager> {
+    const lucid = await createLucidInstance(network ? { network } : undefined);
+
+    if (walletName) {
+      await connectWallet(lucid, walletName);
+    }
+
+    const orderValidator: SpendingValidator = {
+      type: "PlutusV2",
+      script: orderValidatorCbor
+    };
+
+    return new PuckSwapOrderManager(lucid, orderValidator);
+  }
+
+  /**
+   * Connect wallet to the order manager
+   */
+  async connectWallet(walletName: "eternl" | "nami" | "vespr" | "lace" | "typhon" | "flint"): Promise<void> {
+    await connectWallet(this.lucid, walletName);
+  }
+
+  /**
+   * Address orders are locked at
+   */
+  getOrderAddress(): Address {
+    return this.orderAddress;
+  }
+
+  /**
+   * List all open orders, optionally only those owned by an address
+   */
+  async getOpenOrders(userAddress?: Address): Promise<OpenOrder[]> {
+    try {
+      const utxos = await this.lucid.utxosAt(this.orderAddress);
+      const currentSlot = this.lucid.currentSlot();
+
+      return utxos
+        .map(utxo => parseOrderUtxo(utxo, currentSlot))
+        .filter((order): order is OpenOrder => order !== null)
+        .filter(order => !userAddress || order.datum.order_data.user === userAddress);
+    } catch (error) {
+      console.error("Error fetching open orders:", error);
+      return [];
+    }
+  }
+
+  /**
+   * List the connected wallet's open orders
+   */
+  async getMyOrders(): Promise<OpenOrder[]> {
+    if (!this.lucid.config().wallet) {
+      throw new Error("Wallet not connected. Call connectWallet() first.");
+    }
+    return this.getOpenOrders(await this.lucid.wallet().address());
+  }
+
+  /**
+   * Lock a new order at the order validator
+   */
+  async placeOrder(params: PlaceOrderParams): Promise<TxHash> {
+    if (!this.lucid.config().wallet) {
+      throw new Error("Wallet not connected. Call connectWallet() first.");
+    }
+
+    const userAddress = params.userAddress || await this.lucid.wallet().address();
+    const tx = await buildPlaceOrderTransaction(
+      this.lucid,
+      this.orderAddress,
+      { ...params, userAddress },
+      this.lucid.currentSlot()
+    );
+
+    const signedTx = await tx.sign.withWallet().complete();
+    const txHash = await signedTx.submit();
+
+    console.log(`Order placed: ${txHash}`);
+    return txHash;
+  }
+
+  /**
+   * Cancel one of the connected wallet's orders
+   */
+  async cancelOrder(orderId: string): Promise<TxHash> {
+    const orders = await this.getMyOrders();
+    const order = orders.find(o => o.orderId === orderId);
+    if (!order) {
+      throw new Error(`Open order ${orderId} not found for connected wallet`);
+    }
+
+    const tx = await buildCancelOrderTransaction(this.lucid, this.orderValidator, order);
+    const signedTx = await tx.sign.withWallet().complete();
+    const txHash = await signedTx.submit();
+
+    console.log(`Order ${orderId} cancelled: ${txHash}`);
+    return txHash;
+  }
+}
+
+// =============================================================================
+// ORDER BATCHER
+// =============================================================================
+
+/**
+ * PuckSwap Order Batcher
+ * Collects pending orders for a pool and settles them in one transaction
+ */
+export class PuckSwapOrderBatcher {
+  private lucid: LucidEvolution;
+  private orderValidator: SpendingValidator;
+  private poolValidator?: SpendingValidator;
+  private maxBatchSize: number;
+  private minPartialFill: bigint;
+
+  constructor(
+    lucid: LucidEvolution,
+    orderValidator: SpendingValidator,
+    options: { poolValidator?: SpendingValidator; maxBatchSize?: number; minPartialFill?: bigint } = {}
+  ) {
+    this.lucid = lucid;
+    this.orderValidator = orderValidator;
+    this.poolValidator = options.poolValidator;
+    this.maxBatchSize = Math.min(options.maxBatchSize ?? ORDER_CONSTANTS.MAX_BATCH_SIZE, ORDER_CONSTANTS.MAX_BATCH_SIZE);
+    this.minPartialFill = options.minPartialFill ?? ORDER_CONSTANTS.MIN_PARTIAL_FILL;
+  }
+
+  /**
+   * Collect pending, unexpired Market and Limit orders that trade against a pool
+   * Oldest deadline first so orders closest to expiry settle first.
+   */
+  async collectPendingOrders(pool: PoolInfo): Promise<OpenOrder[]> {
+    const orderAddress = getOrderAddress(this.lucid, this.orderValidator);
+    const utxos = await this.lucid.utxosAt(orderAddress);
+    const currentSlot = this.lucid.currentSlot();
+    const tokenUnit = `${pool.tokenPolicy}${pool.tokenName}`;
+
+    return utxos
+      .map(utxo => parseOrderUtxo(utxo, currentSlot))
+      .filter((order): order is OpenOrder => order !== null && !order.isExpired)
+      .filter(order => order.datum.order_data.order_type.type !== 'StopLoss')
+      .filter(order => {
+        const data = order.datum.order_data;
+        const units = [
+          getOrderUnit(data.input_policy, data.input_name),
+          getOrderUnit(data.output_policy, data.output_name)
+        ];
+        return units.includes("lovelace") && units.includes(tokenUnit);
+      })
+      .sort((a, b) => a.datum.order_data.deadline_slot - b.datum.order_data.deadline_slot);
+  }
+
+  /**
+   * Plan a batch for a pool's pending orders
+   * Orders are filled in full where the price allows; orders that allow
+   * partial fills are otherwise filled as far as their price holds.
+   */
+  async planBatch(pool: PoolInfo): Promise<BatchSettlementPlan> {
+    const pending = await this.collectPendingOrders(pool);
+    const fills = pending
+      .slice(0, this.maxBatchSize)
+      .map(order => ({ order, fillAmount: order.remainingInput }));
+
+    return planBatchSettlement(pool, fills, { minPartialFill: this.minPartialFill });
+  }
+
+  /**
+   * Settle a planned batch: build, sign and submit
+   */
+  async settle(plan: BatchSettlementPlan): Promise<TxHash> {
+    if (!this.lucid.config().wallet) {
+      throw new Error("Wallet not connected. Call connectWallet() first.");
+    }
+
+    const batcherAddress = await this.lucid.wallet().address();
+    const tx = await buildBatchSettlementTransaction(
+      this.lucid,
+      this.orderValidator,
+      plan,
+      batcherAddress,
+      this.poolValidator
+    );
+
+    const signedTx = await tx.sign.withWallet().complete();
+    const txHash = await signedTx.submit();
+
+    console.log(`Batch settled: ${txHash}`);
+    console.log(`Orders filled: ${plan.fills.length}, skipped: ${plan.skipped.length}`);
+    return txHash;
+  }
+
+  /**
+   * Collect, plan and settle all pending orders for a pool
+   * @returns Transaction hash, or null if nothing was fillable
+   */
+  async settlePool(pool: PoolInfo): Promise<TxHash | null> {
+    const plan = await this.planBatch(pool);
+
+    plan.skipped.forEach(skip => console.log(`Skipping order ${skip.orderId}: ${skip.reason}`));
+
+    if (plan.fills.length === 0) {
+      return null;
+    }
+
+    return this.settle(plan);
+  }
+}
@@ -8,14 +8,20 @@
 
 import { 
   Lucid, 
+  LucidEvolution,
   UTxO, 
   Data,
   Address,
   PolicyId,
   AssetName,
-  Assets
+  Assets,
+  Constr,
+  fromText,
+  toText
 } from '@lucid-evolution/lucid';
 import { contractAddresses } from './utils/contractAddresses';
+import { POOL_TYPES, PoolCurve } from '../lib/cip68-types';
+import { validateAmplification } from './utils/stableswap-math';
 
 export interface PoolInfo {
   poolUtxo: UTxO;
@@ -30,6 +36,7 @@ export interface PoolInfo {
   totalLiquidity: bigint;
   feeBps: bigint;
   isActive: boolean;
+  curve?: PoolCurve; // Constant product when absent
 }
 
 export interface PoolDatum {
@@ -41,6 +48,7 @@ export interface PoolDatum {
   token_reserve: bigint;
   lp_total_supply: bigint;
   fee_bps: bigint;
+  curve?: PoolCurve; // Optional trailing field; constant product when absent
 }
 
 export interface TokenInfo {
@@ -111,10 +119,8 @@ async function parsePoolFromUtxo(utxo: UTxO, poolAddress: string): Promise<PoolI
     }
     
     // Parse datum as PoolDatum
-    const poolDatum = Data.from(utxo.datum) as PoolDatum;
-    
-    // Validate pool datum structure
-    if (!isValidPoolDatum(poolDatum)) {
+    const poolDatum = parsePoolDatum(utxo.datum);
+    if (!poolDatum) {
       return null;
     }
     
@@ -150,6 +156,7 @@ async function parsePoolFromUtxo(utxo: UTxO, poolAddress: string): Promise<PoolI
       totalLiquidity: poolDatum.lp_total_supply,
       feeBps: poolDatum.fee_bps,
       isActive: true,
+      curve: poolDatum.curve ?? { pool_type: POOL_TYPES.CONSTANT_PRODUCT, amplification: 0n },
     };
     
   } catch (error) {
@@ -158,6 +165,53 @@ async function parsePoolFromUtxo(utxo: UTxO, poolAddress: string): Promise<PoolI
   }
 }
 
+/**
+ * Decode a pool inline datum (same field order as serializePoolDatum)
+ * @throws Error if the datum names an unknown curve or an invalid amplification
+ */
+export function parsePoolDatum(datum: string): PoolDatum | null {
+  const data = Data.from(datum);
+  if (!(data instanceof Constr) || data.index !== 0 || (data.fields.length !== 8 && data.fields.length !== 9)) {
+    return null;
+  }
+
+  const [poolNftPolicy, poolNftName, tokenPolicy, tokenName, adaReserve, tokenReserve, lpTotalSupply, feeBps, curve] = data.fields;
+  const poolDatum = {
+    pool_nft_policy: poolNftPolicy,
+    pool_nft_name: poolNftName,
+    token_policy: tokenPolicy,
+    token_name: tokenName,
+    ada_reserve: adaReserve,
+    token_reserve: tokenReserve,
+    lp_total_supply: lpTotalSupply,
+    fee_bps: feeBps
+  };
+  if (!isValidPoolDatum(poolDatum)) {
+    return null;
+  }
+
+  return curve === undefined ? poolDatum : { ...poolDatum, curve: parsePoolCurve(curve) };
+}
+
+// Curve field: Constr(0, [pool_type (hex text), amplification])
+function parsePoolCurve(data: Data): PoolCurve {
+  if (!(data instanceof Constr) || data.fields.length !== 2
+      || typeof data.fields[0] !== 'string' || typeof data.fields[1] !== 'bigint') {
+    throw new Error('Malformed pool curve field');
+  }
+
+  const poolType = toText(data.fields[0]);
+  const amplification = data.fields[1];
+  if (poolType === POOL_TYPES.CONSTANT_PRODUCT) {
+    return { pool_type: POOL_TYPES.CONSTANT_PRODUCT, amplification: 0n };
+  }
+  if (poolType !== POOL_TYPES.STABLESWAP) {
+    throw new Error(`Unknown pool type ${poolType}`);
+  }
+  validateAmplification(amplification);
+  return { pool_type: POOL_TYPES.STABLESWAP, amplification };
+}
+
 /**
  * Validate pool datum structure
  */
@@ -175,6 +229,23 @@ function isValidPoolDatum(datum: any): datum is PoolDatum {
   );
 }
 
+/**
+ * Serialize pool datum back to inline datum CBOR (same field order as PoolDatum)
+ */
+export function serializePoolDatum(datum: PoolDatum): string {
+  return Data.to(new Constr(0, [
+    datum.pool_nft_policy,
+    datum.pool_nft_name,
+    datum.token_policy,
+    datum.token_name,
+    datum.ada_reserve,
+    datum.token_reserve,
+    datum.lp_total_supply,
+    datum.fee_bps,
+    ...(datum.curve ? [new Constr(0, [fromText(datum.curve.pool_type), datum.curve.amplification])] : [])
+  ]));
+}
+
 /**
  * Convert pool info to token info for frontend
  */
@@ -208,6 +279,22 @@ function calculateTokenPrice(adaReserve: bigint, tokenReserve: bigint): number {
   return adaReserveNum / tokenReserveNum;
 }
 
+/**
+ * Reload a pool from its current UTxO, located by the pool NFT
+ * Returns null if the pool has been closed or is no longer active
+ */
+export async function refreshPoolInfo(lucid: LucidEvolution, pool: PoolInfo): Promise<PoolInfo | null> {
+  const nftUnit = pool.poolNftPolicy + pool.poolNftName;
+  const utxos = await lucid.utxosAtWithUnit(pool.poolAddress, nftUnit);
+  const poolUtxo = utxos.find(utxo => (utxo.assets[nftUnit] || 0n) === 1n);
+  if (!poolUtxo) {
+    return null;
+  }
+
+  const refreshed = await parsePoolFromUtxo(poolUtxo, pool.poolAddress);
+  return refreshed && refreshed.isActive ? refreshed : null;
+}
+
 /**
  * Find pool by token policy and name
  */
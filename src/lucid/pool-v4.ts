@@ -3,9 +3,11 @@
 // Full CIP-68 compliance with governance integration
 
 import {
-  Lucid,
+  LucidEvolution,
   Data,
+  Constr,
   fromText,
+  toText,
   toUnit,
   fromUnit,
   UTxO,
@@ -20,10 +22,28 @@ import {
   Script,
   OutRef,
   Datum,
-  Redeemer
+  Redeemer,
+  TxBuilder,
+  TxSignBuilder,
+  getAddressDetails
 } from "@lucid-evolution/lucid";
 
 import { createLucidInstance, connectWallet } from "../lib/lucid-config";
+import { POOL_TYPES, PoolType } from "../lib/cip68-types";
+import {
+  calculateStableSwapOutput,
+  calculateStableLiquidityProvision,
+  validateAmplification
+} from "./utils/stableswap-math";
+import { DynamicFeeEngine, DynamicFeeQuote } from "./fee-policy";
+import { PuckSwapSerializer } from "./utils/serialization";
+import type { GovernanceExecution, GovernanceExecutionTarget } from "./governance-executor";
+import {
+  AdminMultisigCoordinator,
+  PendingAdminTx,
+  AdminSignatureRecord,
+  selectAdminSigners
+} from "./admin-multisig";
 
 // Enhanced pool interfaces with v4 features
 export interface PoolEntryV4 {
@@ -36,6 +56,8 @@ export interface PoolEntryV4 {
   lpTokenPolicy: PolicyId;
   lpTokenName: string;
   feeBasisPoints: number;
+  poolType?: PoolType; // Constant product when absent
+  amplification?: bigint; // StableSwap only
   createdAtSlot: number;
   totalVolume: bigint;
   totalFeesCollected: bigint;
@@ -83,6 +105,8 @@ export interface PoolCreationParamsV4 {
   initialTokenAAmount: bigint;
   initialTokenBAmount: bigint;
   feeBasisPoints: number;
+  poolType?: PoolType;
+  amplification?: bigint; // Required for StableSwap pools
   bondingCurveParams: BondingCurveParams;
   governanceControlled: boolean;
 }
@@ -107,15 +131,161 @@ export interface SwapParamsV4 {
   recipient?: Address;
 }
 
-export class PuckSwapPoolManagerV4 {
-  private lucid: Lucid;
+// Pool UTxO datum; token_a / token_b are asset units, empty for ADA
+const PoolDatumV4Schema = Data.Object({
+  token_a: Data.Bytes(),
+  token_b: Data.Bytes(),
+  token_a_reserve: Data.Integer(),
+  token_b_reserve: Data.Integer(),
+  lp_token_policy: Data.Bytes(),
+  fee_basis_points: Data.Integer(),
+  total_lp_tokens: Data.Integer(),
+  created_at: Data.Integer()
+});
+export type PoolDatumV4 = Data.Static<typeof PoolDatumV4Schema>;
+const PoolDatumV4 = PoolDatumV4Schema as unknown as PoolDatumV4;
+
+const PoolRedeemerV4Schema = Data.Enum([
+  Data.Object({
+    Swap: Data.Object({
+      swap_in_token: Data.Boolean(),
+      amount_in: Data.Integer(),
+      min_out: Data.Integer(),
+      fee_bps: Data.Integer()
+    })
+  }),
+  Data.Object({
+    AddLiquidity: Data.Object({
+      token_a_amount: Data.Integer(),
+      token_b_amount: Data.Integer()
+    })
+  }),
+  Data.Object({
+    RemoveLiquidity: Data.Object({
+      lp_tokens_amount: Data.Integer()
+    })
+  })
+]);
+type PoolRedeemerV4 = Data.Static<typeof PoolRedeemerV4Schema>;
+const PoolRedeemerV4 = PoolRedeemerV4Schema as unknown as PoolRedeemerV4;
+
+const PoolRegistryRedeemerV4Schema = Data.Enum([
+  Data.Object({
+    RegisterPool: Data.Object({
+      pool_id: Data.Bytes()
+    })
+  }),
+  Data.Object({
+    GovernanceUpdate: Data.Object({
+      proposal_id: Data.Integer()
+    })
+  }),
+  Data.Object({
+    SetPaused: Data.Object({
+      paused: Data.Boolean(),
+      reason: Data.Bytes()
+    })
+  })
+]);
+type PoolRegistryRedeemerV4 = Data.Static<typeof PoolRegistryRedeemerV4Schema>;
+const PoolRegistryRedeemerV4 = PoolRegistryRedeemerV4Schema as unknown as PoolRegistryRedeemerV4;
+
+// Pool entries are stored as tagged values so their optional fields survive the round trip
+export function serializeRegistryDatum(registry: PoolRegistryDatumV4): string {
+  return Data.to(new Constr(0, [
+    new Constr(0, [registry.metadata.policyId, fromText(registry.metadata.assetName), BigInt(registry.metadata.version)]),
+    BigInt(registry.version),
+    BigInt(registry.totalPools),
+    BigInt(registry.activePools),
+    registry.pools.map(pool => PuckSwapSerializer.serializeTaggedValue(pool)),
+    fromText(registry.governanceAddress),
+    fromText(registry.adminAddress),
+    registry.registryFee,
+    registry.minInitialLiquidity,
+    registry.paused ? 1n : 0n,
+    fromText(registry.emergencyAdmin),
+    BigInt(registry.lastUpdatedSlot),
+    BigInt(registry.protocolFeeBps),
+    fromText(registry.treasuryAddress),
+    BigInt(registry.maxFeeBps),
+    BigInt(registry.minFeeBps),
+    registry.supportedTokens
+  ]));
+}
+
+export function parseRegistryDatum(datum: string): PoolRegistryDatumV4 {
+  const data = Data.from(datum) as Constr<Data>;
+  if (!(data instanceof Constr) || data.index !== 0 || data.fields.length !== 17) {
+    throw new Error("Invalid pool registry datum");
+  }
+
+  const fields = data.fields;
+  const metadata = fields[0] as Constr<Data>;
+  return {
+    metadata: {
+      policyId: metadata.fields[0] as string,
+      assetName: toText(metadata.fields[1] as string),
+      version: Number(metadata.fields[2] as bigint)
+    },
+    version: Number(fields[1] as bigint),
+    totalPools: Number(fields[2] as bigint),
+    activePools: Number(fields[3] as bigint),
+    pools: (fields[4] as Data[]).map(pool => PuckSwapSerializer.deserializeTaggedValue(pool) as PoolEntryV4),
+    governanceAddress: toText(fields[5] as string),
+    adminAddress: toText(fields[6] as string),
+    registryFee: fields[7] as bigint,
+    minInitialLiquidity: fields[8] as bigint,
+    paused: fields[9] === 1n,
+    emergencyAdmin: toText(fields[10] as string),
+    lastUpdatedSlot: Number(fields[11] as bigint),
+    protocolFeeBps: Number(fields[12] as bigint),
+    treasuryAddress: toText(fields[13] as string),
+    maxFeeBps: Number(fields[14] as bigint),
+    minFeeBps: Number(fields[15] as bigint),
+    supportedTokens: fields[16] as PolicyId[]
+  };
+}
+
+// Live pool UTxO for a registry entry
+export interface PoolSnapshotV4 {
+  entry: PoolEntryV4;
+  utxo: UTxO;
+  state: PoolDatumV4;
+}
+
+export interface SwapQuoteV4 {
+  amountOut: bigint;
+  fee: bigint;
+  feeBps: number;
+  feeQuote: DynamicFeeQuote | null; // Present when a dynamic fee engine is attached
+}
+
+// One pool's part of a swap transaction
+export interface SwapLegV4 {
+  pool: PoolSnapshotV4;
+  swapInToken: boolean; // true for TokenA->TokenB in the pool's own orientation
+  amountIn: bigint;
+  minAmountOut: bigint;
+  quote: SwapQuoteV4;
+}
+
+// Pool datums name ADA with an empty unit
+function poolAssetUnit(token: string): Unit {
+  return token === "" ? "lovelace" : token;
+}
+
+export class PuckSwapPoolManagerV4 implements GovernanceExecutionTarget {
+  readonly executionTarget = 'registry' as const;
+  private lucid: LucidEvolution;
+  private feeEngine: DynamicFeeEngine | null = null;
+  private adminMultisig: AdminMultisigCoordinator | null = null;
   private poolRegistryValidator: SpendingValidator;
   private poolValidator: SpendingValidator;
   private lpMintingPolicy: MintingPolicy;
   private registryAddress: Address;
 
   constructor(
-    lucid: Lucid,
+    lucid: LucidEvolution,
     poolRegistryValidator: SpendingValidator,
     poolValidator: SpendingValidator,
     lpMintingPolicy: MintingPolicy,
@@ -170,6 +340,16 @@ export class PuckSwapPoolManagerV4 {
     await connectWallet(this.lucid, walletName);
   }
 
+  // Price swaps with a dynamic fee engine instead of each pool's static fee
+  setFeeEngine(feeEngine: DynamicFeeEngine | null): void {
+    this.feeEngine = feeEngine;
+  }
+
+  // Require M-of-N admin signatures to pause or unpause the registry
+  setAdminMultisig(adminMultisig: AdminMultisigCoordinator | null): void {
+    this.adminMultisig = adminMultisig;
+  }
+
   // Get pool registry state
   async getPoolRegistry(): Promise<PoolRegistryDatumV4 | null> {
     try {
@@ -184,9 +364,7 @@ export class PuckSwapPoolManagerV4 {
         throw new Error("Registry UTxO missing datum");
       }
 
-      // Parse CIP-68 compliant datum
-      const registryDatum = await this.parseRegistryDatum(registryUTxO.datum);
-      return registryDatum;
+      return parseRegistryDatum(registryUTxO.datum);
     } catch (error) {
       console.error("Error fetching pool registry:", error);
       return null;
@@ -223,6 +401,8 @@ export class PuckSwapPoolManagerV4 {
         lpTokenPolicy: this.lucid.utils.mintingPolicyToId(this.lpMintingPolicy),
         lpTokenName: `LP_${poolId.slice(0, 8)}`,
         feeBasisPoints: params.feeBasisPoints,
+        poolType: params.poolType ?? POOL_TYPES.CONSTANT_PRODUCT,
+        amplification: params.poolType === POOL_TYPES.STABLESWAP ? params.amplification : undefined,
         createdAtSlot: await this.getCurrentSlot(),
         totalVolume: 0n,
         totalFeesCollected: 0n,
@@ -257,23 +437,34 @@ export class PuckSwapPoolManagerV4 {
       const optimalAmounts = this.calculateOptimalLiquidityAmounts(
         params.tokenAAmount,
         params.tokenBAmount,
-        poolState.tokenAReserve,
-        poolState.tokenBReserve
+        poolState.token_a_reserve,
+        poolState.token_b_reserve
       );
 
       // Calculate LP tokens to mint with bonding curve bonus
-      const baseLPTokens = this.calculateLPTokensToMint(
-        optimalAmounts.tokenAAmount,
-        optimalAmounts.tokenBAmount,
-        poolState.tokenAReserve,
-        poolState.tokenBReserve,
-        poolState.lpTokenSupply
-      );
+      const poolEntry = await this.getPoolEntry(params.poolId);
+      const baseLPTokens = poolEntry?.poolType === POOL_TYPES.STABLESWAP
+        ? calculateStableLiquidityProvision(
+            poolState.token_a_reserve,
+            poolState.token_b_reserve,
+            poolState.total_lp_tokens,
+            optimalAmounts.tokenAAmount,
+            optimalAmounts.tokenBAmount,
+            this.requireAmplification(poolEntry),
+            poolState.fee_basis_points
+          ).lpTokensMinted
+        : this.calculateLPTokensToMint(
+            optimalAmounts.tokenAAmount,
+            optimalAmounts.tokenBAmount,
+            poolState.token_a_reserve,
+            poolState.token_b_reserve,
+            poolState.total_lp_tokens
+          );
 
       let totalLPTokens = baseLPTokens;
       if (params.bondingCurveBonus) {
         const bonus = this.calculateBondingCurveBonus(
-          poolState.lpTokenSupply,
+          poolState.total_lp_tokens,
           poolState.bondingCurveParams
         );
         totalLPTokens += bonus;
@@ -314,8 +505,8 @@ export class PuckSwapPoolManagerV4 {
       }
 
       // Calculate tokens to return
-      const tokenAOut = (lpTokensToRemove * poolState.tokenAReserve) / poolState.lpTokenSupply;
-      const tokenBOut = (lpTokensToRemove * poolState.tokenBReserve) / poolState.lpTokenSupply;
+      const tokenAOut = (lpTokensToRemove * poolState.token_a_reserve) / poolState.total_lp_tokens;
+      const tokenBOut = (lpTokensToRemove * poolState.token_b_reserve) / poolState.total_lp_tokens;
 
       // Validate minimum outputs
       if (tokenAOut < minTokenAOut || tokenBOut < minTokenBOut) {
@@ -352,14 +543,8 @@ export class PuckSwapPoolManagerV4 {
         throw new Error("Pool not found");
       }
 
-      // Calculate swap output with dynamic fees
-      const swapResult = this.calculateSwapOutput(
-        params.amountIn,
-        params.swapInToken,
-        poolState.tokenAReserve,
-        poolState.tokenBReserve,
-        poolState.feeBasisPoints
-      );
+      // Calculate swap output with dynamic fees on the pool's curve
+      const swapResult = await this.quoteSwap(params, poolState);
 
       // Validate minimum output
       if (swapResult.amountOut < params.minAmountOut) {
@@ -386,6 +571,200 @@ export class PuckSwapPoolManagerV4 {
     }
   }
 
+  /**
+   * Quote a swap at the pool's current fee
+   * @param params - Swap parameters
+   * @param poolState - Pool state, fetched when omitted
+   * @returns Output, fee and the fee rate applied
+   */
+  async quoteSwap(params: SwapParamsV4, poolState?: PoolDatumV4): Promise<SwapQuoteV4> {
+    const state = poolState ?? await this.getPoolState(params.poolId);
+    if (!state) {
+      throw new Error("Pool not found");
+    }
+
+    const poolEntry = await this.getPoolEntry(params.poolId);
+    const { feeBps, feeQuote } = await this.getSwapFee(poolEntry, state);
+
+    const { amountOut, fee } = this.calculateSwapOutput(
+      params.amountIn,
+      params.swapInToken,
+      state.token_a_reserve,
+      state.token_b_reserve,
+      feeBps,
+      poolEntry
+    );
+
+    return { amountOut, fee, feeBps, feeQuote };
+  }
+
+  /**
+   * Fee rate a swap through the pool pays now
+   * @returns The dynamic fee when an engine is attached, else the datum's fee
+   */
+  async getSwapFee(poolEntry: PoolEntryV4 | null, poolState: PoolDatumV4): Promise<{ feeBps: number; feeQuote: DynamicFeeQuote | null }> {
+    const staticFeeBps = Number(poolState.fee_basis_points);
+    const feeQuote = await this.getDynamicFee(poolEntry, staticFeeBps);
+    return { feeBps: feeQuote?.feeBps ?? staticFeeBps, feeQuote };
+  }
+
+  /**
+   * Swap leg spending one pool UTxO
+   * Writes the new reserves and fee to the pool datum; the caller pays the
+   * user and attaches the pool validator once per transaction
+   */
+  addSwapLeg(tx: TxBuilder, leg: SwapLegV4): TxBuilder {
+    const { utxo, state } = leg.pool;
+    const { amountOut, feeBps } = leg.quote;
+
+    const updatedPoolState: PoolDatumV4 = leg.swapInToken ? {
+      ...state,
+      token_a_reserve: state.token_a_reserve + leg.amountIn,
+      token_b_reserve: state.token_b_reserve - amountOut,
+      fee_basis_points: BigInt(feeBps)
+    } : {
+      ...state,
+      token_a_reserve: state.token_a_reserve - amountOut,
+      token_b_reserve: state.token_b_reserve + leg.amountIn,
+      fee_basis_points: BigInt(feeBps)
+    };
+
+    const poolRedeemer = Data.to({
+      Swap: {
+        swap_in_token: leg.swapInToken,
+        amount_in: leg.amountIn,
+        min_out: leg.minAmountOut,
+        fee_bps: BigInt(feeBps)
+      }
+    }, PoolRedeemerV4);
+
+    const unitIn = poolAssetUnit(leg.swapInToken ? state.token_a : state.token_b);
+    const unitOut = poolAssetUnit(leg.swapInToken ? state.token_b : state.token_a);
+    const poolOutputAssets: Assets = {
+      ...utxo.assets,
+      [unitIn]: (utxo.assets[unitIn] || 0n) + leg.amountIn,
+      [unitOut]: (utxo.assets[unitOut] || 0n) - amountOut
+    };
+
+    return tx
+      .collectFrom([utxo], poolRedeemer)
+      .pay.ToContract(utxo.address, { kind: "inline", value: Data.to(updatedPoolState, PoolDatumV4) }, poolOutputAssets);
+  }
+
+  // Pool validator spent by swap legs
+  getPoolValidator(): SpendingValidator {
+    return this.poolValidator;
+  }
+
+  /**
+   * Registry leg of a governance execution transaction
+   * Spends the registry UTxO alongside the governance UTxO and writes the
+   * protocol parameters changed by the proposal
+   */
+  async addGovernanceExecution(tx: TxBuilder, execution: GovernanceExecution): Promise<TxBuilder> {
+    const { proposal, result } = execution;
+
+    const registry = await this.getPoolRegistry();
+    if (!registry) {
+      throw new Error("Pool registry not found");
+    }
+
+    const updatedRegistry: PoolRegistryDatumV4 = {
+      ...registry,
+      ...result.protocolParameters,
+      lastUpdatedSlot: await this.getCurrentSlot()
+    };
+
+    if (updatedRegistry.minFeeBps > updatedRegistry.maxFeeBps) {
+      throw new Error(`Minimum fee ${updatedRegistry.minFeeBps} exceeds maximum fee ${updatedRegistry.maxFeeBps}`);
+    }
+
+    const registryUtxos = await this.lucid.utxosAt(this.registryAddress);
+    if (registryUtxos.length === 0) {
+      throw new Error("No registry UTxO found");
+    }
+    const registryUtxo = registryUtxos[0];
+
+    const registryDatumData = serializeRegistryDatum(updatedRegistry);
+    const registryRedeemer = Data.to({ GovernanceUpdate: { proposal_id: BigInt(proposal.proposalId) } }, PoolRegistryRedeemerV4);
+
+    return tx
+      .collectFrom([registryUtxo], registryRedeemer)
+      .pay.ToContract(this.registryAddress, { kind: "inline", value: registryDatumData }, registryUtxo.assets)
+      .attach.SpendingValidator(this.poolRegistryValidator);
+  }
+
+  /**
+   * Build a registry pause or unpause that needs M-of-N admin signatures
+   * Signers come from the registry admin and emergency admin; the connected
+   * admin signs immediately and the others sign with signAdminTx
+   * @param coSigners - Admin addresses to require besides the proposer
+   */
+  async proposeRegistryPause(paused: boolean, reason: string, coSigners: Address[] = []): Promise<PendingAdminTx> {
+    try {
+      const adminMultisig = this.requireAdminMultisig();
+      const registry = await this.getPoolRegistry();
+      if (!registry) {
+        throw new Error("Pool registry not found");
+      }
+
+      if (registry.paused === paused) {
+        throw new Error(`Pool registry is already ${paused ? "paused" : "unpaused"}`);
+      }
+      if (paused && !reason) {
+        throw new Error("Pause reason is required");
+      }
+
+      const admins = [registry.adminAddress, registry.emergencyAdmin];
+      const policy = adminMultisig.createPolicy(admins.map(admin => this.adminKeyHash(admin)));
+      const proposer = this.adminKeyHash(await this.lucid.wallet().address());
+      const signers = selectAdminSigners(policy, proposer, coSigners.map(signer => this.adminKeyHash(signer)));
+
+      const tx = await this.buildRegistryPauseTx(paused, reason, registry, signers);
+      const txHash = tx.toHash();
+
+      await adminMultisig.propose({
+        action: paused ? 'RegistryPause' : 'RegistryUnpause',
+        description: paused ? `Pause pool registry: ${reason}` : "Unpause pool registry",
+        txHash,
+        txCbor: tx.toCBOR(),
+        requiredSigners: signers,
+        policy
+      });
+
+      return await adminMultisig.addWitness(txHash, await tx.partialSign.withWallet());
+    } catch (error) {
+      console.error("Error proposing registry pause:", error);
+      throw error;
+    }
+  }
+
+  // Add the connected admin's witness to a pending admin transaction
+  async signAdminTx(txHash: TxHash): Promise<PendingAdminTx> {
+    try {
+      const adminMultisig = this.requireAdminMultisig();
+      const pending = await adminMultisig.getPending(txHash);
+      const witness = await this.lucid.fromTx(pending.txCbor).partialSign.withWallet();
+      return await adminMultisig.addWitness(txHash, witness);
+    } catch (error) {
+      console.error("Error signing admin transaction:", error);
+      throw error;
+    }
+  }
+
+  // Assemble collected admin witnesses and submit
+  async submitAdminTx(txHash: TxHash): Promise<AdminSignatureRecord> {
+    try {
+      return await this.requireAdminMultisig().submit(txHash, async (txCbor, witnesses) => {
+        const signedTx = await this.lucid.fromTx(txCbor).assemble(witnesses).complete();
+        return signedTx.submit();
+      });
+    } catch (error) {
+      console.error("Error submitting admin transaction:", error);
+      throw error;
+    }
+  }
+
   // Get all active pools from registry
   async getAllPools(): Promise<PoolEntryV4[]> {
     try {
@@ -401,6 +780,52 @@ export class PuckSwapPoolManagerV4 {
     }
   }
 
+  // Get a single active pool's registry entry
+  async getPoolEntry(poolId: string): Promise<PoolEntryV4 | null> {
+    const pools = await this.getAllPools();
+    return pools.find(pool => pool.poolId === poolId) ?? null;
+  }
+
+  // Get every active pool trading the same pair (either orientation), for split routing
+  async getPoolsForPair(
+    tokenAPolicy: PolicyId,
+    tokenAName: string,
+    tokenBPolicy: PolicyId,
+    tokenBName: string
+  ): Promise<PoolEntryV4[]> {
+    const pools = await this.getAllPools();
+    const unitA = `${tokenAPolicy}${tokenAName}`;
+    const unitB = `${tokenBPolicy}${tokenBName}`;
+
+    return pools.filter(pool => {
+      const poolUnitA = `${pool.tokenAPolicy}${pool.tokenAName}`;
+      const poolUnitB = `${pool.tokenBPolicy}${pool.tokenBName}`;
+      return (poolUnitA === unitA && poolUnitB === unitB) ||
+             (poolUnitA === unitB && poolUnitB === unitA);
+    });
+  }
+
+  /**
+   * Read a registered pool's current UTxO and datum from its address
+   * @returns null when no UTxO there carries a v4 datum for the entry's pair
+   */
+  async getPoolSnapshot(entry: PoolEntryV4): Promise<PoolSnapshotV4 | null> {
+    const utxos = await this.lucid.utxosAt(entry.poolAddress);
+    for (const utxo of utxos) {
+      if (!utxo.datum) continue;
+      try {
+        const state = Data.from(utxo.datum, PoolDatumV4);
+        if (state.token_a === `${entry.tokenAPolicy}${entry.tokenAName}` &&
+            state.token_b === `${entry.tokenBPolicy}${entry.tokenBName}`) {
+          return { entry, utxo, state };
+        }
+      } catch {
+        // Not a pool datum
+      }
+    }
+    return null;
+  }
+
   // Get pool by ID
   async getPoolById(poolId: string): Promise<PoolEntryV4 | null> {
     try {
@@ -413,43 +838,20 @@ export class PuckSwapPoolManagerV4 {
   }
 
   // Private helper methods
-  private async parseRegistryDatum(datum: string): Promise<PoolRegistryDatumV4> {
-    // Parse CIP-68 compliant registry datum
-    const parsedDatum = Data.from(datum);
-    
-    // Extract fields according to CIP-68 structure
-    // This would need to match the exact Aiken datum structure
-    return {
-      metadata: {
-        policyId: "placeholder_policy_id",
-        assetName: "placeholder_asset_name",
-        version: 1
-      },
-      version: 1,
-      totalPools: 0,
-      activePools: 0,
-      pools: [],
-      governanceAddress: "placeholder_governance_address",
-      adminAddress: "placeholder_admin_address",
-      registryFee: 2000000n, // 2 ADA
-      minInitialLiquidity: 1000000n, // 1 ADA
-      paused: false,
-      emergencyAdmin: "placeholder_emergency_admin",
-      lastUpdatedSlot: 0,
-      protocolFeeBps: 30, // 0.3%
-      treasuryAddress: "placeholder_treasury_address",
-      maxFeeBps: 1000, // 10%
-      minFeeBps: 10, // 0.1%
-      supportedTokens: []
-    };
-  }
-
   private validatePoolCreationParams(params: PoolCreationParamsV4, registry: PoolRegistryDatumV4): void {
     // Validate fee parameters
     if (params.feeBasisPoints < registry.minFeeBps || params.feeBasisPoints > registry.maxFeeBps) {
       throw new Error(`Fee must be between ${registry.minFeeBps} and ${registry.maxFeeBps} basis points`);
     }
 
+    // Validate curve parameters
+    if (params.poolType === POOL_TYPES.STABLESWAP) {
+      if (params.amplification === undefined) {
+        throw new Error("StableSwap pools require an amplification parameter");
+      }
+      validateAmplification(params.amplification);
+    }
+
     // Validate minimum liquidity
     if (params.initialTokenAAmount < registry.minInitialLiquidity) {
       throw new Error(`Initial liquidity must be at least ${registry.minInitialLiquidity}`);
@@ -477,6 +879,67 @@ export class PuckSwapPoolManagerV4 {
     return this.lucid.utils.validatorToAddress(this.poolValidator);
   }
 
+  private requireAdminMultisig(): AdminMultisigCoordinator {
+    if (!this.adminMultisig) {
+      throw new Error("Registry admin multisig is not configured");
+    }
+    return this.adminMultisig;
+  }
+
+  // StableSwap registry entries must carry their amplification
+  private requireAmplification(poolEntry: PoolEntryV4): bigint {
+    if (poolEntry.amplification === undefined) {
+      throw new Error(`StableSwap pool ${poolEntry.poolId} has no amplification parameter`);
+    }
+    return poolEntry.amplification;
+  }
+
+  private adminKeyHash(address: Address): string {
+    const { paymentCredential } = getAddressDetails(address);
+    if (!paymentCredential || paymentCredential.type !== "Key") {
+      throw new Error(`Admin ${address} must be a key-based address`);
+    }
+    return paymentCredential.hash;
+  }
+
+  private async buildRegistryPauseTx(
+    paused: boolean,
+    reason: string,
+    registry: PoolRegistryDatumV4,
+    signerKeyHashes: string[]
+  ): Promise<TxSignBuilder> {
+    const registryUtxos = await this.lucid.utxosAt(this.registryAddress);
+    if (registryUtxos.length === 0) {
+      throw new Error("No registry UTxO found");
+    }
+    const registryUtxo = registryUtxos[0];
+
+    const updatedRegistry: PoolRegistryDatumV4 = {
+      ...registry,
+      paused,
+      lastUpdatedSlot: await this.getCurrentSlot()
+    };
+
+    const registryDatumData = serializeRegistryDatum(updatedRegistry);
+    const registryRedeemer = Data.to({ SetPaused: { paused, reason: fromText(reason) } }, PoolRegistryRedeemerV4);
+
+    let txBuilder: TxBuilder = this.lucid.newTx()
+      .collectFrom([registryUtxo], registryRedeemer)
+      .pay.ToContract(this.registryAddress, { kind: "inline", value: registryDatumData }, registryUtxo.assets)
+      .attach.SpendingValidator(this.poolRegistryValidator);
+
+    // Multisig admins are listed as required signers
+    for (const keyHash of signerKeyHashes) {
+      txBuilder = txBuilder.addSignerKey(keyHash);
+    }
+
+    const tx = await txBuilder
+      .validTo(Date.now() + 1200000) // 20 minute deadline
+      .complete();
+
+    return tx;
+  }
+
   private async getCurrentSlot(): Promise<number> {
     const currentSlot = this.lucid.currentSlot();
     return currentSlot || 0;
@@ -537,13 +1000,46 @@ export class PuckSwapPoolManagerV4 {
     return (currentLPSupply * BigInt(bonusBase)) / 10000n;
   }
 
-  private calculateSwapOutput(
+  // Dynamic fee for a pool, clamped to the registry bounds; null without an engine
+  private async getDynamicFee(poolEntry: PoolEntryV4 | null, staticFeeBps: number): Promise<DynamicFeeQuote | null> {
+    if (!this.feeEngine || !poolEntry) {
+      return null;
+    }
+
+    const registry = await this.getPoolRegistry();
+    if (!registry) {
+      return null;
+    }
+
+    return this.feeEngine.getFee(
+      poolEntry.poolAddress,
+      { minFeeBps: registry.minFeeBps, maxFeeBps: registry.maxFeeBps },
+      staticFeeBps
+    );
+  }
+
+  // Output and fee for a swap on the pool's curve
+  calculateSwapOutput(
     amountIn: bigint,
     swapInToken: boolean,
     reserveA: bigint,
     reserveB: bigint,
-    feeBasisPoints: number
+    feeBasisPoints: number,
+    poolEntry?: PoolEntryV4 | null
   ): { amountOut: bigint; fee: bigint } {
+    if (poolEntry?.poolType === POOL_TYPES.STABLESWAP) {
+      // Token A takes the ADA side of the StableSwap quote
+      const result = calculateStableSwapOutput(
+        reserveA,
+        reserveB,
+        amountIn,
+        !swapInToken,
+        this.requireAmplification(poolEntry),
+        BigInt(feeBasisPoints)
+      );
+      return { amountOut: result.outputAmount, fee: result.feeAmount };
+    }
+
     const fee = (amountIn * BigInt(feeBasisPoints)) / 10000n;
     const amountInAfterFee = amountIn - fee;
 
@@ -562,12 +1058,12 @@ export class PuckSwapPoolManagerV4 {
   private calculateSlippage(
     amountIn: bigint,
     amountOut: bigint,
-    poolState: any
+    poolState: PoolDatumV4
   ): number {
     // Calculate price impact as slippage
     const expectedPrice = swapInToken ? 
-      Number(poolState.tokenBReserve) / Number(poolState.tokenAReserve) :
-      Number(poolState.tokenAReserve) / Number(poolState.tokenBReserve);
+      Number(poolState.token_b_reserve) / Number(poolState.token_a_reserve) :
+      Number(poolState.token_a_reserve) / Number(poolState.token_b_reserve);
     
     const actualPrice = Number(amountOut) / Number(amountIn);
     const slippage = Math.abs((expectedPrice - actualPrice) / expectedPrice) * 100;
@@ -762,63 +1258,29 @@ export class PuckSwapPoolManagerV4 {
 
   private async buildSwapTx(
     params: SwapParamsV4,
-    poolState: any,
-    swapResult: any
+    poolState: PoolDatumV4,
+    swapResult: SwapQuoteV4
   ): Promise<TxComplete> {
-    // Find pool UTxO
-    const poolAddress = this.lucid.utils.validatorToAddress(this.poolValidator);
-    const poolUtxos = await this.lucid.utxosAt(poolAddress);
-    const poolUtxo = poolUtxos.find(utxo =>
-      utxo.datum && this.parsePoolId(utxo) === params.poolId
-    );
-
-    if (!poolUtxo) {
+    // Find pool UTxO at the registered pool address
+    const poolEntry = await this.getPoolEntry(params.poolId);
+    const pool = poolEntry ? await this.getPoolSnapshot(poolEntry) : null;
+    if (!pool) {
       throw new Error(`Pool UTxO not found for pool ${params.poolId}`);
     }
 
-    // Update pool reserves based on swap direction
-    const updatedPoolState: PoolDatumV4 = params.swapInToken ? {
-      ...poolState,
-      token_a_reserve: poolState.token_a_reserve + params.amountIn,
-      token_b_reserve: poolState.token_b_reserve - swapResult.amountOut
-    } : {
-      ...poolState,
-      token_a_reserve: poolState.token_a_reserve - swapResult.amountOut,
-      token_b_reserve: poolState.token_b_reserve + params.amountIn
-    };
-
-    // Serialize data
-    const poolDatumData = Data.to(updatedPoolState, PoolDatumV4);
-    const poolRedeemer = Data.to({
-      Swap: {
-        swap_in_token: params.swapInToken,
-        amount_in: params.amountIn,
-        min_out: params.minOut
-      }
-    }, PoolRedeemerV4);
-
-    // Prepare assets
-    const poolOutputAssets = params.swapInToken ? {
-      ...poolUtxo.assets,
-      [poolState.token_a]: (poolUtxo.assets[poolState.token_a] || 0n) + params.amountIn,
-      [poolState.token_b]: (poolUtxo.assets[poolState.token_b] || 0n) - swapResult.amountOut
-    } : {
-      ...poolUtxo.assets,
-      [poolState.token_a]: (poolUtxo.assets[poolState.token_a] || 0n) - swapResult.amountOut,
-      [poolState.token_b]: (poolUtxo.assets[poolState.token_b] || 0n) + params.amountIn
-    };
-
-    const userOutputToken = params.swapInToken ? poolState.token_b : poolState.token_a;
-    const userOutputAssets = {
-      [userOutputToken]: swapResult.amountOut
-    };
+    const userOutputToken = poolAssetUnit(params.swapInToken ? poolState.token_b : poolState.token_a);
+    const recipient = params.recipient ?? await this.lucid.wallet.address();
 
     // Build transaction
-    const tx = await this.lucid.newTx()
-      .collectFrom([poolUtxo], poolRedeemer)
-      .payToContract(poolAddress, { inline: poolDatumData }, poolOutputAssets)
-      .payToAddress(await this.lucid.wallet.address(), userOutputAssets)
-      .attachSpendingValidator(this.poolValidator)
+    const tx = await this.addSwapLeg(this.lucid.newTx(), {
+      pool: { ...pool, state: poolState },
+      swapInToken: params.swapInToken,
+      amountIn: params.amountIn,
+      minAmountOut: params.minAmountOut,
+      quote: swapResult
+    })
+      .pay.ToAddress(recipient, { [userOutputToken]: swapResult.amountOut })
+      .attach.SpendingValidator(this.poolValidator)
       .validTo(params.deadline)
       .complete();
 
@@ -0,0 +1,259 @@
+// PuckSwap v5 - Staking Reward Oracle
+// Signed per-epoch reward reports for syncStakingRewards
+// Each report is serialized as Plutus Data and signed with Ed25519 by the
+// oracle operators; a quorum of valid signatures is required before the
+// reported rewards are allowed to move the pADA exchange rate
+
+import {
+  CML,
+  Data,
+  Constr,
+  fromText,
+  fromHex,
+  toHex
+} from "@lucid-evolution/lucid";
+
+// =============================================================================
+// ORACLE TYPES
+// =============================================================================
+
+export const REWARD_ORACLE_CONSTANTS = {
+  EPOCHS_PER_YEAR: 73,
+  MAX_HISTORY: 500
+} as const;
+
+// Rewards earned by one delegation in one epoch
+export interface RewardReport {
+  epoch: number;
+  stakePoolId: string;
+  rewardAmount: bigint; // Lovelace
+  activeStake: bigint; // Lovelace delegated to the pool for the epoch
+  observedSlot: number;
+}
+
+export interface OracleSignature {
+  publicKey: string; // Raw Ed25519 public key hex
+  signature: string; // Raw Ed25519 signature hex
+}
+
+export interface SignedRewardReport {
+  report: RewardReport;
+  signatures: OracleSignature[];
+}
+
+export interface OracleQuorumConfig {
+  oraclePublicKeys: string[];
+  threshold: number; // Distinct authorized signatures required
+}
+
+export interface QuorumVerification {
+  valid: boolean;
+  validSigners: string[];
+  rejectedSigners: string[]; // Unauthorized keys or bad signatures
+  threshold: number;
+}
+
+export interface VerifiedRewardReport extends SignedRewardReport {
+  verification: QuorumVerification;
+  verifiedAt: number;
+}
+
+// =============================================================================
+// SIGNING AND VERIFICATION
+// =============================================================================
+
+/**
+ * Canonical signed payload: CBOR of Constr 0 [epoch, pool_id, reward, active_stake, slot]
+ */
+export function serializeRewardReport(report: RewardReport): string {
+  return Data.to(new Constr(0, [
+    BigInt(report.epoch),
+    fromText(report.stakePoolId),
+    report.rewardAmount,
+    report.activeStake,
+    BigInt(report.observedSlot)
+  ]));
+}
+
+/**
+ * Sign a report with an oracle key
+ * @param report - Reward report
+ * @param privateKeyBech32 - Oracle signing key (ed25519_sk...)
+ */
+export function signRewardReport(report: RewardReport, privateKeyBech32: string): OracleSignature {
+  const privateKey = CML.PrivateKey.from_bech32(privateKeyBech32);
+  const signature = privateKey.sign(fromHex(serializeRewardReport(report)));
+
+  return {
+    publicKey: toHex(privateKey.to_public().to_raw_bytes()),
+    signature: toHex(signature.to_raw_bytes())
+  };
+}
+
+export function verifyOracleSignature(report: RewardReport, signature: OracleSignature): boolean {
+  try {
+    const publicKey = CML.PublicKey.from_bytes(fromHex(signature.publicKey));
+    const ed25519Signature = CML.Ed25519Signature.from_raw_bytes(fromHex(signature.signature));
+    return publicKey.verify(fromHex(serializeRewardReport(report)), ed25519Signature);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check that enough distinct authorized oracles signed a report
+ */
+export function verifyReportQuorum(signed: SignedRewardReport, config: OracleQuorumConfig): QuorumVerification {
+  if (config.threshold <= 0 || config.threshold > config.oraclePublicKeys.length) {
+    throw new Error(`Invalid oracle threshold ${config.threshold} of ${config.oraclePublicKeys.length}`);
+  }
+
+  const authorized = new Set(config.oraclePublicKeys.map(key => key.toLowerCase()));
+  const validSigners = new Set<string>();
+  const rejectedSigners: string[] = [];
+
+  for (const signature of signed.signatures) {
+    const key = signature.publicKey.toLowerCase();
+    if (authorized.has(key) && verifyOracleSignature(signed.report, signature)) {
+      validSigners.add(key);
+    } else {
+      rejectedSigners.push(key);
+    }
+  }
+
+  return {
+    valid: validSigners.size >= config.threshold,
+    validSigners: [...validSigners],
+    rejectedSigners,
+    threshold: config.threshold
+  };
+}
+
+/**
+ * Verify a batch of reports, failing on the first one without quorum
+ * @param reports - Signed reports, at most one per epoch and pool
+ * @param config - Authorized oracle keys and threshold
+ */
+export function verifyRewardReports(reports: SignedRewardReport[], config: OracleQuorumConfig): VerifiedRewardReport[] {
+  const seen = new Set<string>();
+
+  return reports.map(signed => {
+    const key = `${signed.report.epoch}:${signed.report.stakePoolId}`;
+    if (seen.has(key)) {
+      throw new Error(`Duplicate reward report for epoch ${signed.report.epoch}, pool ${signed.report.stakePoolId}`);
+    }
+    seen.add(key);
+
+    const verification = verifyReportQuorum(signed, config);
+    if (!verification.valid) {
+      throw new Error(
+        `Reward report for epoch ${signed.report.epoch}, pool ${signed.report.stakePoolId} has ${verification.validSigners.length}/${verification.threshold} valid oracle signatures`
+      );
+    }
+
+    return { ...signed, verification, verifiedAt: Date.now() };
+  });
+}
+
+/**
+ * Oracle quorum from PUCKSWAP_REWARD_ORACLE_KEYS (comma-separated hex) and PUCKSWAP_REWARD_ORACLE_THRESHOLD
+ */
+export function loadOracleQuorumConfig(): OracleQuorumConfig | null {
+  const keys = (process.env.PUCKSWAP_REWARD_ORACLE_KEYS || "")
+    .split(",")
+    .map(key => key.trim())
+    .filter(key => key.length > 0);
+
+  if (keys.length === 0) {
+    return null;
+  }
+
+  const threshold = parseInt(process.env.PUCKSWAP_REWARD_ORACLE_THRESHOLD || "", 10);
+  return {
+    oraclePublicKeys: keys,
+    threshold: Number.isNaN(threshold) ? Math.floor(keys.length / 2) + 1 : threshold
+  };
+}
+
+// =============================================================================
+// REPORT HISTORY
+// =============================================================================
+
+/**
+ * Verified reward reports, newest epoch first
+ */
+export class RewardReportHistory {
+  private reports: Map<string, VerifiedRewardReport> = new Map();
+
+  constructor(private maxReports: number = REWARD_ORACLE_CONSTANTS.MAX_HISTORY) {}
+
+  add(reports: VerifiedRewardReport[]): void {
+    for (const verified of reports) {
+      this.reports.set(`${verified.report.epoch}:${verified.report.stakePoolId}`, verified);
+    }
+
+    const sorted = this.list();
+    if (sorted.length > this.maxReports) {
+      sorted.slice(this.maxReports).forEach(verified =>
+        this.reports.delete(`${verified.report.epoch}:${verified.report.stakePoolId}`)
+      );
+    }
+  }
+
+  list(filter: { stakePoolId?: string; fromEpoch?: number; limit?: number } = {}): VerifiedRewardReport[] {
+    const reports = [...this.reports.values()]
+      .filter(verified => !filter.stakePoolId || verified.report.stakePoolId === filter.stakePoolId)
+      .filter(verified => filter.fromEpoch === undefined || verified.report.epoch >= filter.fromEpoch)
+      .sort((a, b) => b.report.epoch - a.report.epoch || a.report.stakePoolId.localeCompare(b.report.stakePoolId));
+
+    return filter.limit !== undefined ? reports.slice(0, filter.limit) : reports;
+  }
+
+  latestEpoch(): number | null {
+    const [latest] = this.list({ limit: 1 });
+    return latest ? latest.report.epoch : null;
+  }
+
+  /**
+   * Annualized yield from the last N epochs of verified reports
+   */
+  calculateVerifiedApy(epochs: number = 6): number | null {
+    const latest = this.latestEpoch();
+    if (latest === null) {
+      return null;
+    }
+
+    const recent = this.list({ fromEpoch: latest - epochs + 1 });
+    const byEpoch = new Map<number, { rewards: bigint; stake: bigint }>();
+    for (const { report } of recent) {
+      const entry = byEpoch.get(report.epoch) || { rewards: 0n, stake: 0n };
+      entry.rewards += report.rewardAmount;
+      entry.stake += report.activeStake;
+      byEpoch.set(report.epoch, entry);
+    }
+
+    const rates = [...byEpoch.values()]
+      .filter(entry => entry.stake > 0n)
+      .map(entry => Number(entry.rewards) / Number(entry.stake));
+    if (rates.length === 0) {
+      return null;
+    }
+
+    const averageRate = rates.reduce((sum, rate) => sum + rate, 0) / rates.length;
+    return (Math.pow(1 + averageRate, REWARD_ORACLE_CONSTANTS.EPOCHS_PER_YEAR) - 1) * 100;
+  }
+
+  clear(): void {
+    this.reports.clear();
+  }
+}
+
+let sharedHistory: RewardReportHistory | null = null;
+
+// Process-wide history shared by the sync flow and the staking API route
+export function getRewardReportHistory(): RewardReportHistory {
+  if (!sharedHistory) {
+    sharedHistory = new RewardReportHistory();
+  }
+  return sharedHistory;
+}
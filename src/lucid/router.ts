@@ -0,0 +1,473 @@
+// PuckSwap Multi-Hop Swap Router
+// Finds the best path between any two assets across ADA-paired pools
+// (e.g. PUCKY -> ADA -> wBTC) and builds a single transaction that spends
+// every pool on the path with one combined slippage check
+
+import {
+  LucidEvolution,
+  TxHash,
+  Address,
+  Assets,
+  SpendingValidator,
+  TxSignBuilder,
+  slotToUnixTime
+} from "@lucid-evolution/lucid";
+
+import {
+  calculatePoolSwapOutput,
+  createSwapRedeemer,
+  SwapTransactionResult
+} from "./swap";
+import {
+  PoolInfo,
+  discoverActivePools,
+  refreshPoolInfo,
+  serializePoolDatum
+} from "./pool-discovery";
+import { MinAdaManager } from "../lib/min-ada-manager";
+import { getLucidNetwork } from "../lib/lucid-config";
+
+// =============================================================================
+// ROUTE TYPES
+// =============================================================================
+
+// Unit used for ADA in route paths
+export const ADA_UNIT = "lovelace";
+
+// Every pool is ADA-paired, so any path needs at most two hops
+export const MAX_ROUTE_HOPS = 2;
+
+// A single pool traversal inside a route
+export interface RouteHop {
+  pool: PoolInfo;
+  swapInToken: boolean; // true: token -> ADA, false: ADA -> token
+  unitIn: string;
+  unitOut: string;
+  amountIn: bigint;
+  amountOut: bigint;
+  feeAmount: bigint;
+  priceImpact: number;
+  newAdaReserve: bigint;
+  newTokenReserve: bigint;
+}
+
+// Fully quoted route from one asset to another
+export interface SwapRoute {
+  path: string[]; // Units visited, e.g. [PUCKY, lovelace, wBTC]
+  hops: RouteHop[];
+  amountIn: bigint;
+  amountOut: bigint;
+  totalFees: bigint;
+  priceImpact: number; // Compounded price impact in percent
+}
+
+// Route search parameters
+export interface RouteQuoteParams {
+  unitIn: string;
+  unitOut: string;
+  amountIn: bigint;
+}
+
+// Multi-hop swap transaction parameters
+export interface MultiHopSwapParams {
+  route: SwapRoute;
+  minAmountOut: bigint;
+  userAddress: Address;
+  poolValidator: SpendingValidator; // Swap validator guarding every pool on the route
+  deadlineSlot?: bigint;
+}
+
+// Multi-hop swap submission result
+export interface MultiHopSwapResult extends SwapTransactionResult {
+  path: string[];
+  hops: number;
+}
+
+// =============================================================================
+// PATH FINDING
+// =============================================================================
+
+/**
+ * Get the asset unit of the non-ADA side of a pool
+ */
+export function getPoolTokenUnit(pool: PoolInfo): string {
+  return `${pool.tokenPolicy}${pool.tokenName}`;
+}
+
+/**
+ * Quote a single hop through a pool
+ * @returns Hop quote, or null if the pool cannot service the trade
+ */
+export function quoteHop(pool: PoolInfo, unitIn: string, amountIn: bigint): RouteHop | null {
+  const tokenUnit = getPoolTokenUnit(pool);
+  const swapInToken = unitIn === tokenUnit;
+
+  if (!swapInToken && unitIn !== ADA_UNIT) {
+    return null;
+  }
+
+  try {
+    const result = calculatePoolSwapOutput(
+      pool.adaReserve,
+      pool.tokenReserve,
+      amountIn,
+      swapInToken,
+      pool.curve,
+      pool.feeBps
+    );
+
+    if (result.outputAmount <= 0n) {
+      return null;
+    }
+
+    return {
+      pool,
+      swapInToken,
+      unitIn,
+      unitOut: swapInToken ? ADA_UNIT : tokenUnit,
+      amountIn,
+      amountOut: result.outputAmount,
+      feeAmount: result.feeAmount,
+      priceImpact: result.priceImpact,
+      newAdaReserve: result.newAdaReserve,
+      newTokenReserve: result.newTokenReserve
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Assemble a route from an ordered list of pools, quoting each hop with the
+ * previous hop's output
+ * @returns Quoted route, or null if any hop fails
+ */
+export function quoteRoute(pools: PoolInfo[], unitIn: string, amountIn: bigint): SwapRoute | null {
+  const hops: RouteHop[] = [];
+  const path = [unitIn];
+  let currentUnit = unitIn;
+  let currentAmount = amountIn;
+
+  for (const pool of pools) {
+    const hop = quoteHop(pool, currentUnit, currentAmount);
+    if (!hop) {
+      return null;
+    }
+    hops.push(hop);
+    path.push(hop.unitOut);
+    currentUnit = hop.unitOut;
+    currentAmount = hop.amountOut;
+  }
+
+  // Compound per-hop price impact: 1 - Π(1 - impact_i)
+  const retained = hops.reduce((acc, hop) => acc * (1 - hop.priceImpact / 100), 1);
+
+  return {
+    path,
+    hops,
+    amountIn,
+    amountOut: currentAmount,
+    // Fees are denominated in each hop's input asset; summed for display only
+    totalFees: hops.reduce((sum, hop) => sum + hop.feeAmount, 0n),
+    priceImpact: (1 - retained) * 100
+  };
+}
+
+/**
+ * Enumerate every candidate route between two assets
+ * Direct ADA <-> token routes use one pool; token <-> token routes go through ADA
+ */
+export function findSwapRoutes(pools: PoolInfo[], params: RouteQuoteParams): SwapRoute[] {
+  const { unitIn, unitOut, amountIn } = params;
+
+  if (amountIn <= 0n) {
+    throw new Error("Amount in must be positive");
+  }
+
+  if (unitIn === unitOut) {
+    throw new Error("Input and output assets must differ");
+  }
+
+  const activePools = pools.filter(pool => pool.isActive);
+  const poolsFor = (unit: string) => activePools.filter(pool => getPoolTokenUnit(pool) === unit);
+
+  const candidates: PoolInfo[][] = [];
+
+  if (unitIn === ADA_UNIT) {
+    poolsFor(unitOut).forEach(pool => candidates.push([pool]));
+  } else if (unitOut === ADA_UNIT) {
+    poolsFor(unitIn).forEach(pool => candidates.push([pool]));
+  } else {
+    for (const first of poolsFor(unitIn)) {
+      for (const second of poolsFor(unitOut)) {
+        candidates.push([first, second]);
+      }
+    }
+  }
+
+  return candidates
+    .map(candidate => quoteRoute(candidate, unitIn, amountIn))
+    .filter((route): route is SwapRoute => route !== null)
+    .sort(compareRoutes);
+}
+
+/**
+ * Order routes best-first: higher output, then lower price impact, then fewer hops
+ */
+export function compareRoutes(a: SwapRoute, b: SwapRoute): number {
+  if (a.amountOut !== b.amountOut) {
+    return a.amountOut > b.amountOut ? -1 : 1;
+  }
+  if (a.priceImpact !== b.priceImpact) {
+    return a.priceImpact - b.priceImpact;
+  }
+  return a.hops.length - b.hops.length;
+}
+
+/**
+ * Find the best route between two assets
+ * @returns Best route, or null if no pools connect the assets
+ */
+export function findBestRoute(pools: PoolInfo[], params: RouteQuoteParams): SwapRoute | null {
+  const routes = findSwapRoutes(pools, params);
+  return routes.length > 0 ? routes[0] : null;
+}
+
+/**
+ * Calculate the minimum acceptable output for a route given a slippage tolerance
+ * @param slippageToleranceBps - Basis points (100 = 1%)
+ */
+export function calculateRouteMinOutput(route: SwapRoute, slippageToleranceBps: number): bigint {
+  if (slippageToleranceBps < 0 || slippageToleranceBps > 10000) {
+    throw new Error("Slippage tolerance must be between 0 and 10000 basis points");
+  }
+  return (route.amountOut * BigInt(10000 - slippageToleranceBps)) / 10000n;
+}
+
+// =============================================================================
+// TRANSACTION BUILDER
+// =============================================================================
+
+/**
+ * Build a single multi-hop swap transaction spending every pool on the route
+ * Intermediate hops carry no minimum of their own; the combined slippage check
+ * is enforced once against the final hop's output.
+ * @param lucid - Lucid Evolution instance
+ * @param params - Multi-hop swap parameters
+ * @returns Promise resolving to complete transaction
+ */
+export async function buildMultiHopSwapTransaction(
+  lucid: LucidEvolution,
+  params: MultiHopSwapParams
+): Promise<TxSignBuilder> {
+  try {
+    const { route } = params;
+
+    validateMultiHopParams(params);
+
+    // Re-quote against the pools' current UTxOs so a route found earlier
+    // cannot be built against reserves that have since moved
+    const freshPools: PoolInfo[] = [];
+    for (const hop of route.hops) {
+      const pool = await refreshPoolInfo(lucid, hop.pool);
+      if (!pool) {
+        throw new Error(`Pool ${hop.pool.poolNftPolicy}${hop.pool.poolNftName} is no longer active`);
+      }
+      freshPools.push(pool);
+    }
+
+    const requoted = quoteRoute(freshPools, route.path[0], route.amountIn);
+    if (!requoted) {
+      throw new Error("Route is no longer executable against current pool state");
+    }
+
+    if (requoted.amountOut < params.minAmountOut) {
+      throw new Error(
+        `Insufficient output amount. Expected at least ${params.minAmountOut}, got ${requoted.amountOut}`
+      );
+    }
+
+    const deadlineSlot = params.deadlineSlot || BigInt(Date.now() + 3600000); // 1 hour default
+    const lastHopIndex = requoted.hops.length - 1;
+
+    let tx = lucid.newTx();
+
+    requoted.hops.forEach((hop, index) => {
+      const isFinalHop = index === lastHopIndex;
+
+      const swapRedeemer = createSwapRedeemer({
+        amount_in: hop.amountIn,
+        min_amount_out: isFinalHop ? params.minAmountOut : 0n,
+        swap_in_token: hop.swapInToken,
+        recipient: params.userAddress,
+        deadline_slot: deadlineSlot
+      });
+
+      const updatedPoolDatum = serializePoolDatum({
+        ...hop.pool.poolDatum,
+        ada_reserve: hop.newAdaReserve,
+        token_reserve: hop.newTokenReserve
+      });
+
+      const poolOutputAssets: Assets = {
+        ...hop.pool.poolUtxo.assets,
+        lovelace: hop.newAdaReserve,
+        [getPoolTokenUnit(hop.pool)]: hop.newTokenReserve
+      };
+
+      tx = tx
+        .collectFrom([hop.pool.poolUtxo], swapRedeemer)
+        .pay.ToContract(hop.pool.poolAddress, { kind: "inline", value: updatedPoolDatum }, poolOutputAssets);
+    });
+
+    // Only the final asset leaves the transaction; intermediate ADA is
+    // consumed by the next pool input
+    const finalHop = requoted.hops[lastHopIndex];
+    const userAssets: Assets = { [finalHop.unitOut]: requoted.amountOut };
+    if (finalHop.unitOut !== ADA_UNIT) {
+      userAssets.lovelace = MinAdaManager.calculateUserOutputMinAda(userAssets).requiredMinAda;
+    }
+
+    const validTo = params.deadlineSlot
+      ? slotToUnixTime(getLucidNetwork(lucid), Number(params.deadlineSlot))
+      : Date.now() + 3600000; // 1 hour default
+
+    tx = tx
+      .pay.ToAddress(params.userAddress, userAssets)
+      .attach.SpendingValidator(params.poolValidator)
+      .validTo(validTo);
+
+    return await tx.complete();
+
+  } catch (error) {
+    throw new Error(`Failed to build multi-hop swap transaction: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Validate multi-hop swap parameters
+ */
+export function validateMultiHopParams(params: MultiHopSwapParams): void {
+  const { route } = params;
+
+  if (!route || route.hops.length === 0) {
+    throw new Error("Route must contain at least one hop");
+  }
+
+  if (route.hops.length > MAX_ROUTE_HOPS) {
+    throw new Error(`Route exceeds maximum of ${MAX_ROUTE_HOPS} hops`);
+  }
+
+  const spent = new Set<string>();
+  for (const hop of route.hops) {
+    const ref = `${hop.pool.poolUtxo.txHash}#${hop.pool.poolUtxo.outputIndex}`;
+    if (spent.has(ref)) {
+      throw new Error(`Pool UTxO ${ref} appears more than once in route`);
+    }
+    spent.add(ref);
+  }
+
+  if (params.minAmountOut < 0n) {
+    throw new Error("Minimum amount out cannot be negative");
+  }
+
+  if (!params.userAddress) {
+    throw new Error("User address is required");
+  }
+}
+
+// =============================================================================
+// ROUTER
+// =============================================================================
+
+/**
+ * PuckSwap Router
+ * Discovers active pools and routes swaps across them
+ */
+export class PuckSwapRouter {
+  private lucid: LucidEvolution;
+  private poolValidator: SpendingValidator;
+  private pools: PoolInfo[] = [];
+
+  constructor(lucid: LucidEvolution, poolValidator: SpendingValidator) {
+    this.lucid = lucid;
+    this.poolValidator = poolValidator;
+  }
+
+  /**
+   * Refresh the pool set from the swap validator address
+   */
+  async refreshPools(): Promise<PoolInfo[]> {
+    this.pools = await discoverActivePools(this.lucid);
+    return this.pools;
+  }
+
+  /**
+   * Get all candidate routes, best first
+   */
+  async getRoutes(params: RouteQuoteParams): Promise<SwapRoute[]> {
+    if (this.pools.length === 0) {
+      await this.refreshPools();
+    }
+    return findSwapRoutes(this.pools, params);
+  }
+
+  /**
+   * Get the best route for a trade
+   */
+  async getBestRoute(params: RouteQuoteParams): Promise<SwapRoute | null> {
+    const routes = await this.getRoutes(params);
+    return routes.length > 0 ? routes[0] : null;
+  }
+
+  /**
+   * Route, build, sign and submit a swap
+   * @param slippageToleranceBps - Basis points (100 = 1%)
+   */
+  async executeSwap(
+    params: RouteQuoteParams & { slippageToleranceBps: number; userAddress?: Address; deadlineSlot?: bigint }
+  ): Promise<MultiHopSwapResult> {
+    if (!this.lucid.config().wallet) {
+      throw new Error("Wallet not connected. Call connectWallet() first.");
+    }
+
+    // Always route against fresh pool UTxOs before spending them
+    await this.refreshPools();
+
+    const route = findBestRoute(this.pools, params);
+    if (!route) {
+      throw new Error(`No route found from ${params.unitIn} to ${params.unitOut}`);
+    }
+
+    const userAddress = params.userAddress || await this.lucid.wallet().address();
+    const minAmountOut = calculateRouteMinOutput(route, params.slippageToleranceBps);
+
+    const tx = await buildMultiHopSwapTransaction(this.lucid, {
+      route,
+      minAmountOut,
+      userAddress,
+      poolValidator: this.poolValidator,
+      deadlineSlot: params.deadlineSlot
+    });
+
+    const signedTx = await tx.sign.withWallet().complete();
+    const txHash: TxHash = await signedTx.submit();
+
+    console.log(`Multi-hop swap submitted: ${txHash}`);
+    console.log(`Path: ${route.path.join(' -> ')}`);
+    console.log(`Output amount: ${route.amountOut}`);
+    console.log(`Price impact: ${route.priceImpact.toFixed(2)}%`);
+
+    return {
+      txHash,
+      actualOutput: route.amountOut,
+      priceImpact: route.priceImpact,
+      fees: {
+        tradingFee: route.totalFees,
+        totalFee: route.totalFees
+      },
+      path: route.path,
+      hops: route.hops.length
+    };
+  }
+}
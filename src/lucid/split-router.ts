@@ -0,0 +1,413 @@
+// PuckSwap Split-Order Router
+// Splits a single order across every v4 registry pool trading the same pair
+// to minimise price impact, and builds one transaction that spends all of the
+// chosen pool UTxOs. Orders are re-quoted against fresh reserves at build time.
+
+import {
+  LucidEvolution,
+  Address,
+  Assets,
+  Unit,
+  TxSignBuilder
+} from "@lucid-evolution/lucid";
+
+import { PuckSwapPoolManagerV4, PoolSnapshotV4 } from "./pool-v4";
+import { DynamicFeeQuote } from "./fee-policy";
+import { PoolSwapBreakdown, SwapTransactionResult } from "./swap";
+import { MinAdaManager } from "../lib/min-ada-manager";
+
+// =============================================================================
+// SPLIT QUOTE TYPES
+// =============================================================================
+
+// Default number of increments the order is divided into when allocating
+export const DEFAULT_SPLIT_STEPS = 50;
+
+// Registry pool priced for one order direction
+export interface SplitPool extends PoolSnapshotV4 {
+  swapInToken: boolean; // Direction in the pool's own token A/B orientation
+  feeBps: number;
+  feeQuote: DynamicFeeQuote | null;
+}
+
+// Allocation of part of an order to one pool
+export interface PoolAllocation {
+  pool: SplitPool;
+  amountIn: bigint;
+  amountOut: bigint;
+  feeAmount: bigint;
+  priceImpact: number; // Percent below the pool's spot price, fee included
+}
+
+// Quote for an order split across several pools
+export interface SplitSwapQuote {
+  sellUnit: Unit;
+  buyUnit: Unit;
+  amountIn: bigint;
+  amountOut: bigint;
+  totalFees: bigint;
+  priceImpact: number; // Input-weighted average across allocations
+  allocations: PoolAllocation[];
+  bestSinglePoolOutput: bigint; // For comparison against not splitting
+}
+
+// Split quote options
+export interface SplitQuoteOptions {
+  steps?: number;
+  minAllocation?: bigint; // Drop pools whose share would be below this input amount
+}
+
+// Split swap transaction parameters
+export interface SplitSwapParams {
+  sellUnit: Unit; // "lovelace" for ADA
+  buyUnit: Unit;
+  amountIn: bigint;
+  minAmountOut: bigint;
+  userAddress: Address;
+  deadline?: number; // POSIX time in milliseconds
+  options?: SplitQuoteOptions;
+}
+
+// Built split swap with the quote it was built from
+export interface SplitSwapBuild {
+  tx: TxSignBuilder;
+  quote: SplitSwapQuote;
+}
+
+// =============================================================================
+// POOL LOADING
+// =============================================================================
+
+// Registry entries and pool datums name ADA with an empty policy and name
+function splitUnit(unit: Unit): [string, string] {
+  return unit === "lovelace" ? ["", ""] : [unit.slice(0, 56), unit.slice(56)];
+}
+
+function registryUnit(policy: string, name: string): Unit {
+  return policy === "" && name === "" ? "lovelace" : `${policy}${name}`;
+}
+
+/**
+ * Load every active registry pool for a pair with its current UTxO and fee
+ * Pools whose UTxO cannot be found are skipped.
+ * @param manager - v4 pool manager backed by the pool registry
+ * @param sellUnit - Unit the order pays in
+ * @param buyUnit - Unit the order receives
+ */
+export async function loadSplitPools(
+  manager: PuckSwapPoolManagerV4,
+  sellUnit: Unit,
+  buyUnit: Unit
+): Promise<SplitPool[]> {
+  const [sellPolicy, sellName] = splitUnit(sellUnit);
+  const [buyPolicy, buyName] = splitUnit(buyUnit);
+  const entries = await manager.getPoolsForPair(sellPolicy, sellName, buyPolicy, buyName);
+
+  const pools: SplitPool[] = [];
+  for (const entry of entries) {
+    const snapshot = await manager.getPoolSnapshot(entry);
+    if (!snapshot) {
+      console.warn(`⚠️ Split router: no UTxO found for pool ${entry.poolId}`);
+      continue;
+    }
+
+    const { feeBps, feeQuote } = await manager.getSwapFee(entry, snapshot.state);
+    pools.push({
+      ...snapshot,
+      swapInToken: registryUnit(entry.tokenAPolicy, entry.tokenAName) === sellUnit,
+      feeBps,
+      feeQuote
+    });
+  }
+
+  return pools;
+}
+
+// =============================================================================
+// QUOTE ENGINE
+// =============================================================================
+
+/**
+ * Output a pool would return for a given input, or 0 if it cannot fill it
+ */
+function poolOutput(manager: PuckSwapPoolManagerV4, pool: SplitPool, amountIn: bigint): { amountOut: bigint; fee: bigint } {
+  if (amountIn <= 0n) {
+    return { amountOut: 0n, fee: 0n };
+  }
+  try {
+    return manager.calculateSwapOutput(
+      amountIn,
+      pool.swapInToken,
+      pool.state.token_a_reserve,
+      pool.state.token_b_reserve,
+      pool.feeBps,
+      pool.entry
+    );
+  } catch {
+    return { amountOut: 0n, fee: 0n };
+  }
+}
+
+/**
+ * Price impact of an allocation against the pool's spot price
+ */
+function allocationImpact(pool: SplitPool, amountIn: bigint, amountOut: bigint): number {
+  const reserveIn = pool.swapInToken ? pool.state.token_a_reserve : pool.state.token_b_reserve;
+  const reserveOut = pool.swapInToken ? pool.state.token_b_reserve : pool.state.token_a_reserve;
+  const spotOut = reserveIn > 0n ? (amountIn * reserveOut) / reserveIn : 0n;
+  return spotOut > 0n ? Number(spotOut - amountOut) * 100 / Number(spotOut) : 0;
+}
+
+/**
+ * Quote an order split across pools for the same pair
+ * The order is divided into equal increments and each increment is assigned to
+ * the pool with the highest marginal output given what it has already been
+ * allocated. For constant-product pools this converges on equal marginal
+ * prices across pools, which maximises total output.
+ * @param manager - v4 pool manager used to price each pool on its curve
+ * @param pools - Pools from loadSplitPools
+ * @param sellUnit - Unit the order pays in
+ * @param buyUnit - Unit the order receives
+ * @param amountIn - Total input amount
+ */
+export function calculateSplitSwap(
+  manager: PuckSwapPoolManagerV4,
+  pools: SplitPool[],
+  sellUnit: Unit,
+  buyUnit: Unit,
+  amountIn: bigint,
+  options: SplitQuoteOptions = {}
+): SplitSwapQuote {
+  if (amountIn <= 0n) {
+    throw new Error("Amount in must be positive");
+  }
+
+  if (pools.length === 0) {
+    throw new Error(`No active pools found for ${sellUnit} -> ${buyUnit}`);
+  }
+
+  const steps = BigInt(Math.max(1, options.steps ?? DEFAULT_SPLIT_STEPS));
+  const increment = amountIn / steps;
+  const allocated = pools.map(() => 0n);
+
+  let remaining = amountIn;
+  const assign = (chunk: bigint) => {
+    let bestIndex = 0;
+    let bestGain = -1n;
+    pools.forEach((pool, index) => {
+      const gain = poolOutput(manager, pool, allocated[index] + chunk).amountOut -
+        poolOutput(manager, pool, allocated[index]).amountOut;
+      if (gain > bestGain) {
+        bestGain = gain;
+        bestIndex = index;
+      }
+    });
+    allocated[bestIndex] += chunk;
+    remaining -= chunk;
+  };
+
+  // Assign the remainder first so every increment below is equal-sized
+  if (increment === 0n) {
+    assign(amountIn);
+  } else {
+    assign(amountIn - increment * steps + increment);
+    while (remaining > 0n) {
+      assign(increment);
+    }
+  }
+
+  // Fold allocations below the minimum back into the largest one
+  const minAllocation = options.minAllocation ?? 0n;
+  const largestIndex = allocated.reduce((best, value, index) => value > allocated[best] ? index : best, 0);
+  allocated.forEach((value, index) => {
+    if (index !== largestIndex && value > 0n && value < minAllocation) {
+      allocated[largestIndex] += value;
+      allocated[index] = 0n;
+    }
+  });
+
+  const allocations: PoolAllocation[] = [];
+  pools.forEach((pool, index) => {
+    if (allocated[index] === 0n) {
+      return;
+    }
+    const { amountOut, fee } = manager.calculateSwapOutput(
+      allocated[index],
+      pool.swapInToken,
+      pool.state.token_a_reserve,
+      pool.state.token_b_reserve,
+      pool.feeBps,
+      pool.entry
+    );
+    allocations.push({
+      pool,
+      amountIn: allocated[index],
+      amountOut,
+      feeAmount: fee,
+      priceImpact: allocationImpact(pool, allocated[index], amountOut)
+    });
+  });
+
+  const weightedImpact = allocations.reduce(
+    (sum, a) => sum + a.priceImpact * Number(a.amountIn),
+    0
+  ) / Number(amountIn);
+
+  return {
+    sellUnit,
+    buyUnit,
+    amountIn,
+    amountOut: allocations.reduce((sum, a) => sum + a.amountOut, 0n),
+    totalFees: allocations.reduce((sum, a) => sum + a.feeAmount, 0n),
+    priceImpact: weightedImpact,
+    allocations,
+    bestSinglePoolOutput: pools.reduce((best, pool) => {
+      const out = poolOutput(manager, pool, amountIn).amountOut;
+      return out > best ? out : best;
+    }, 0n)
+  };
+}
+
+/**
+ * Quote an order against the registry pools for its pair as they are now
+ */
+export async function quoteSplitSwap(
+  manager: PuckSwapPoolManagerV4,
+  sellUnit: Unit,
+  buyUnit: Unit,
+  amountIn: bigint,
+  options: SplitQuoteOptions = {}
+): Promise<SplitSwapQuote> {
+  const pools = await loadSplitPools(manager, sellUnit, buyUnit);
+  return calculateSplitSwap(manager, pools, sellUnit, buyUnit, amountIn, options);
+}
+
+/**
+ * Build the per-pool breakdown reported in SwapTransactionResult
+ */
+export function getSplitBreakdown(quote: SplitSwapQuote): PoolSwapBreakdown[] {
+  return quote.allocations.map(allocation => ({
+    poolRef: `${allocation.pool.utxo.txHash}#${allocation.pool.utxo.outputIndex}`,
+    poolId: allocation.pool.entry.poolId,
+    amountIn: allocation.amountIn,
+    amountOut: allocation.amountOut,
+    feeAmount: allocation.feeAmount,
+    priceImpact: allocation.priceImpact
+  }));
+}
+
+// =============================================================================
+// TRANSACTION BUILDER
+// =============================================================================
+
+/**
+ * Build a single transaction spending every pool UTxO the order is split across
+ * The order is re-quoted against the pools' current UTxOs, so a quote shown
+ * earlier cannot be built against reserves that have since moved. Each pool
+ * redeemer carries a minimum proportional to its share of the quote, so the
+ * sum of per-pool minimums equals the caller's overall minimum.
+ * @param lucid - Lucid Evolution instance
+ * @param manager - v4 pool manager backed by the pool registry
+ * @param params - Split swap parameters
+ * @returns Promise resolving to the transaction and the quote it was built from
+ */
+export async function buildSplitSwapTransaction(
+  lucid: LucidEvolution,
+  manager: PuckSwapPoolManagerV4,
+  params: SplitSwapParams
+): Promise<SplitSwapBuild> {
+  try {
+    validateSplitSwapParams(params);
+
+    const quote = await quoteSplitSwap(manager, params.sellUnit, params.buyUnit, params.amountIn, params.options);
+
+    if (quote.amountOut < params.minAmountOut) {
+      throw new Error(
+        `Insufficient output amount. Expected at least ${params.minAmountOut}, got ${quote.amountOut}`
+      );
+    }
+
+    let tx = lucid.newTx();
+
+    for (const allocation of quote.allocations) {
+      tx = manager.addSwapLeg(tx, {
+        pool: allocation.pool,
+        swapInToken: allocation.pool.swapInToken,
+        amountIn: allocation.amountIn,
+        minAmountOut: (params.minAmountOut * allocation.amountOut) / quote.amountOut,
+        quote: {
+          amountOut: allocation.amountOut,
+          fee: allocation.feeAmount,
+          feeBps: allocation.pool.feeBps,
+          feeQuote: allocation.pool.feeQuote
+        }
+      });
+    }
+
+    // Aggregate the user's output into a single payment, with min ADA for tokens
+    const userAssets: Assets = { [params.buyUnit]: quote.amountOut };
+    if (params.buyUnit !== "lovelace") {
+      userAssets.lovelace = MinAdaManager.calculateUserOutputMinAda(userAssets).requiredMinAda;
+    }
+
+    tx = tx
+      .pay.ToAddress(params.userAddress, userAssets)
+      .attach.SpendingValidator(manager.getPoolValidator())
+      .validTo(params.deadline ?? Date.now() + 3600000); // 1 hour default
+
+    return { tx: await tx.complete(), quote };
+
+  } catch (error) {
+    throw new Error(`Failed to build split swap transaction: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Build, sign and submit a split swap
+ * @returns Swap result including the per-pool breakdown
+ */
+export async function executeSplitSwap(
+  lucid: LucidEvolution,
+  manager: PuckSwapPoolManagerV4,
+  params: SplitSwapParams
+): Promise<SwapTransactionResult> {
+  const { tx, quote } = await buildSplitSwapTransaction(lucid, manager, params);
+  const signedTx = await tx.sign.withWallet().complete();
+  const txHash = await signedTx.submit();
+
+  console.log(`Split swap submitted: ${txHash}`);
+  console.log(`Pools used: ${quote.allocations.length}`);
+  console.log(`Output amount: ${quote.amountOut}`);
+
+  return {
+    txHash,
+    actualOutput: quote.amountOut,
+    priceImpact: quote.priceImpact,
+    fees: {
+      tradingFee: quote.totalFees,
+      totalFee: quote.totalFees
+    },
+    poolBreakdown: getSplitBreakdown(quote)
+  };
+}
+
+/**
+ * Validate split swap parameters
+ */
+export function validateSplitSwapParams(params: SplitSwapParams): void {
+  if (params.amountIn <= 0n) {
+    throw new Error("Amount in must be positive");
+  }
+
+  if (params.sellUnit === params.buyUnit) {
+    throw new Error("Cannot swap a unit for itself");
+  }
+
+  if (params.minAmountOut < 0n) {
+    throw new Error("Minimum amount out cannot be negative");
+  }
+
+  if (!params.userAddress) {
+    throw new Error("User address is required");
+  }
+}
@@ -0,0 +1,340 @@
+// PuckSwap v5 - Multi-Pool Delegation for the Liquid Staking Vault
+// Spreads staked ADA across several vault UTxOs, each with its own stake
+// credential delegated to one stake pool, following a weighted allocation
+// Strategies: equal weight, performance-weighted, or governance-set weights
+// Deposits land in the staking UTxO; rebalancing (rebalanceDelegation in
+// staking.ts) moves its liquid ADA into the vaults
+
+import {
+  Lucid,
+  Data,
+  UTxO,
+  Address,
+  Constr,
+  fromText,
+  toText
+} from "@lucid-evolution/lucid";
+
+// =============================================================================
+// DELEGATION TYPES
+// =============================================================================
+
+export const DELEGATION_CONSTANTS = {
+  TOTAL_WEIGHT_BPS: 10_000,
+  VAULT_MIN_ADA: 2_000_000n,
+  MIN_REBALANCE_AMOUNT: 10_000_000n // Skip moves under 10 ADA
+} as const;
+
+// Target share of staked ADA for one stake pool
+export interface StakePoolAllocation {
+  poolId: string;
+  weightBps: number;
+}
+
+// Pool considered by a strategy
+export interface StakePoolCandidate {
+  poolId: string;
+  performance?: number; // Epoch performance / ROA, higher is better
+  governanceWeightBps?: number; // Weight set by governance vote
+}
+
+// Stake credential backing one vault UTxO
+export interface DelegationVaultConfig {
+  vaultAddress: Address; // Vault script payment credential + this vault's stake credential
+  rewardAddress: string;
+  stakeValidatorCbor: string;
+  isRegistered?: boolean; // Defaults to true
+}
+
+// Inline datum on each vault UTxO
+export interface DelegationVaultDatum {
+  pool_id: string;
+  weight_bps: number;
+}
+
+export interface DelegationVaultState {
+  config: DelegationVaultConfig;
+  utxo: UTxO | null;
+  datum: DelegationVaultDatum | null;
+  balance: bigint;
+}
+
+export interface VaultRebalanceTarget {
+  vaultIndex: number;
+  poolId: string | null; // null leaves the vault idle at min ADA
+  weightBps: number;
+  currentBalance: bigint;
+  targetBalance: bigint;
+  delta: bigint;
+  redelegate: boolean;
+}
+
+// Staking UTxO ADA available to the vaults
+export interface StakingLiquidity {
+  liquid: bigint; // Staking UTxO ADA above its own min ADA
+  reserve?: bigint; // Liquid ADA kept back for withdrawal payouts
+}
+
+export interface DelegationRebalancePlan {
+  totalStaked: bigint; // Liquid staking ADA plus every vault balance, as counted in StakingDatum.total_staked
+  stakingLiquid: bigint;
+  stakingTarget: bigint; // Liquid ADA left in the staking UTxO
+  stakingDelta: bigint; // Negative when liquid ADA moves into the vaults
+  targets: VaultRebalanceTarget[];
+  isBalanced: boolean; // True when no move exceeds the minimum and no redelegation is needed
+}
+
+export interface DelegationStrategy {
+  name: string;
+  computeWeights(candidates: StakePoolCandidate[]): StakePoolAllocation[];
+}
+
+// =============================================================================
+// STRATEGIES
+// =============================================================================
+
+/**
+ * Scale raw weights to sum to TOTAL_WEIGHT_BPS, assigning rounding dust to the largest
+ */
+export function normalizeWeights(allocations: StakePoolAllocation[]): StakePoolAllocation[] {
+  const positive = allocations.filter(allocation => allocation.weightBps > 0);
+  const total = positive.reduce((sum, allocation) => sum + allocation.weightBps, 0);
+  if (positive.length === 0 || total <= 0) {
+    throw new Error("At least one stake pool must have a positive weight");
+  }
+
+  const normalized = positive.map(allocation => ({
+    poolId: allocation.poolId,
+    weightBps: Math.floor((allocation.weightBps * DELEGATION_CONSTANTS.TOTAL_WEIGHT_BPS) / total)
+  }));
+
+  const dust = DELEGATION_CONSTANTS.TOTAL_WEIGHT_BPS - normalized.reduce((sum, allocation) => sum + allocation.weightBps, 0);
+  const largest = normalized.reduce((best, allocation) => allocation.weightBps > best.weightBps ? allocation : best);
+  largest.weightBps += dust;
+
+  return normalized;
+}
+
+export class EqualWeightStrategy implements DelegationStrategy {
+  name = "equal-weight";
+
+  computeWeights(candidates: StakePoolCandidate[]): StakePoolAllocation[] {
+    return normalizeWeights(candidates.map(candidate => ({ poolId: candidate.poolId, weightBps: 1 })));
+  }
+}
+
+/**
+ * Weight pools by performance, capping any single pool's share
+ */
+export class PerformanceWeightedStrategy implements DelegationStrategy {
+  name = "performance-weighted";
+
+  constructor(private maxWeightBps: number = 5_000) {}
+
+  computeWeights(candidates: StakePoolCandidate[]): StakePoolAllocation[] {
+    const scored = candidates.filter(candidate => (candidate.performance ?? 0) > 0);
+    if (scored.length === 0) {
+      throw new Error("No stake pools with positive performance");
+    }
+    if (scored.length * this.maxWeightBps < DELEGATION_CONSTANTS.TOTAL_WEIGHT_BPS) {
+      throw new Error(`Weight cap ${this.maxWeightBps} bps cannot be met with ${scored.length} pools`);
+    }
+
+    const totalScore = scored.reduce((sum, candidate) => sum + candidate.performance!, 0);
+    let weights = scored.map(candidate => ({
+      poolId: candidate.poolId,
+      weight: (candidate.performance! / totalScore) * DELEGATION_CONSTANTS.TOTAL_WEIGHT_BPS
+    }));
+
+    // Redistribute anything above the cap to uncapped pools until stable
+    for (let round = 0; round < scored.length; round++) {
+      const excess = weights.reduce((sum, entry) => sum + Math.max(entry.weight - this.maxWeightBps, 0), 0);
+      if (excess <= 0) break;
+
+      const uncapped = weights.filter(entry => entry.weight < this.maxWeightBps);
+      const uncappedTotal = uncapped.reduce((sum, entry) => sum + entry.weight, 0);
+      weights = weights.map(entry => entry.weight >= this.maxWeightBps
+        ? { ...entry, weight: this.maxWeightBps }
+        : { ...entry, weight: entry.weight + (excess * entry.weight) / uncappedTotal });
+    }
+
+    return normalizeWeights(weights.map(entry => ({ poolId: entry.poolId, weightBps: Math.floor(entry.weight) })));
+  }
+}
+
+/**
+ * Use weights fixed by a governance proposal
+ */
+export class GovernanceWeightStrategy implements DelegationStrategy {
+  name = "governance-set";
+
+  computeWeights(candidates: StakePoolCandidate[]): StakePoolAllocation[] {
+    const allocations = candidates
+      .filter(candidate => (candidate.governanceWeightBps ?? 0) > 0)
+      .map(candidate => ({ poolId: candidate.poolId, weightBps: candidate.governanceWeightBps! }));
+
+    const total = allocations.reduce((sum, allocation) => sum + allocation.weightBps, 0);
+    if (total !== DELEGATION_CONSTANTS.TOTAL_WEIGHT_BPS) {
+      throw new Error(`Governance weights must sum to ${DELEGATION_CONSTANTS.TOTAL_WEIGHT_BPS} bps, got ${total}`);
+    }
+
+    return allocations;
+  }
+}
+
+// =============================================================================
+// REBALANCE PLANNING
+// =============================================================================
+
+/**
+ * Assign allocations to vaults and compute target balances
+ * Vaults already delegated to an allocated pool keep it; the rest are reassigned.
+ * Everything staked beyond the staking UTxO's reserve is spread over the vaults,
+ * so liquid ADA flows out to them and back when the reserve runs short.
+ * @param vaults - Current vault states
+ * @param allocations - Normalized pool weights
+ * @param staking - Liquid ADA in the staking UTxO and the reserve to keep there
+ * @param minRebalanceAmount - Moves below this are ignored when judging balance
+ */
+export function planDelegationRebalance(
+  vaults: DelegationVaultState[],
+  allocations: StakePoolAllocation[],
+  staking: StakingLiquidity = { liquid: 0n },
+  minRebalanceAmount: bigint = DELEGATION_CONSTANTS.MIN_REBALANCE_AMOUNT
+): DelegationRebalancePlan {
+  if (allocations.length > vaults.length) {
+    throw new Error(`${allocations.length} stake pools need at least as many vaults, found ${vaults.length}`);
+  }
+
+  const totalWeight = allocations.reduce((sum, allocation) => sum + allocation.weightBps, 0);
+  if (totalWeight !== DELEGATION_CONSTANTS.TOTAL_WEIGHT_BPS) {
+    throw new Error(`Allocation weights must sum to ${DELEGATION_CONSTANTS.TOTAL_WEIGHT_BPS} bps, got ${totalWeight}`);
+  }
+
+  const stakingTarget = staking.reserve ?? 0n;
+  const totalStaked = vaults.reduce((sum, vault) => sum + vault.balance, staking.liquid);
+  const reserved = DELEGATION_CONSTANTS.VAULT_MIN_ADA * BigInt(vaults.length) + stakingTarget;
+  if (totalStaked < reserved) {
+    throw new Error("Staked ADA does not cover vault minimum ADA and the staking reserve");
+  }
+  const distributable = totalStaked - reserved;
+
+  // Keep existing delegations where possible
+  const assignment = new Map<number, StakePoolAllocation>();
+  const unassigned: StakePoolAllocation[] = [];
+  for (const allocation of allocations) {
+    const index = vaults.findIndex((vault, i) => !assignment.has(i) && vault.datum?.pool_id === allocation.poolId);
+    if (index >= 0) {
+      assignment.set(index, allocation);
+    } else {
+      unassigned.push(allocation);
+    }
+  }
+  vaults.forEach((_, index) => {
+    if (!assignment.has(index) && unassigned.length > 0) {
+      assignment.set(index, unassigned.shift()!);
+    }
+  });
+
+  const targets: VaultRebalanceTarget[] = vaults.map((vault, index) => {
+    const allocation = assignment.get(index);
+    const share = allocation ? (distributable * BigInt(allocation.weightBps)) / BigInt(DELEGATION_CONSTANTS.TOTAL_WEIGHT_BPS) : 0n;
+    const targetBalance = DELEGATION_CONSTANTS.VAULT_MIN_ADA + share;
+
+    return {
+      vaultIndex: index,
+      poolId: allocation?.poolId ?? null,
+      weightBps: allocation?.weightBps ?? 0,
+      currentBalance: vault.balance,
+      targetBalance,
+      delta: targetBalance - vault.balance,
+      redelegate: allocation !== undefined && vault.datum?.pool_id !== allocation.poolId
+    };
+  });
+
+  // Rounding dust goes to the heaviest vault so value is preserved
+  const dust = totalStaked - stakingTarget - targets.reduce((sum, target) => sum + target.targetBalance, 0n);
+  const heaviest = targets.reduce((best, target) => target.weightBps > best.weightBps ? target : best);
+  heaviest.targetBalance += dust;
+  heaviest.delta += dust;
+
+  const stakingDelta = stakingTarget - staking.liquid;
+  const isBalanced = (stakingDelta < 0n ? -stakingDelta : stakingDelta) < minRebalanceAmount &&
+    targets.every(target =>
+      !target.redelegate && (target.delta < 0n ? -target.delta : target.delta) < minRebalanceAmount
+    );
+
+  return {
+    totalStaked,
+    stakingLiquid: staking.liquid,
+    stakingTarget,
+    stakingDelta,
+    targets,
+    isBalanced
+  };
+}
+
+// =============================================================================
+// SERIALIZATION
+// =============================================================================
+
+export function serializeVaultDatum(datum: DelegationVaultDatum): string {
+  return Data.to(new Constr(0, [fromText(datum.pool_id), BigInt(datum.weight_bps)]));
+}
+
+export function parseVaultDatum(datum: string): DelegationVaultDatum | null {
+  try {
+    const data = Data.from(datum);
+    if (data instanceof Constr && data.fields.length === 2) {
+      return {
+        pool_id: toText(data.fields[0] as string),
+        weight_bps: Number(data.fields[1] as bigint)
+      };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+// =============================================================================
+// VAULT QUERIES
+// =============================================================================
+
+/**
+ * Load the vault UTxO and delegation datum for each configured stake credential
+ */
+export async function getDelegationVaults(
+  lucid: Lucid,
+  configs: DelegationVaultConfig[]
+): Promise<DelegationVaultState[]> {
+  return Promise.all(configs.map(async config => {
+    const utxos = await lucid.utxosAt(config.vaultAddress);
+    const utxo = utxos.find(candidate => candidate.datum && parseVaultDatum(candidate.datum)) ?? null;
+
+    return {
+      config,
+      utxo,
+      datum: utxo?.datum ? parseVaultDatum(utxo.datum) : null,
+      balance: utxo?.assets.lovelace ?? 0n
+    };
+  }));
+}
+
+/**
+ * Unwithdrawn rewards across every vault's reward account
+ */
+export async function aggregateDelegationRewards(
+  lucid: Lucid,
+  configs: DelegationVaultConfig[]
+): Promise<{ total: bigint; byRewardAddress: Map<string, bigint> }> {
+  const byRewardAddress = new Map<string, bigint>();
+
+  for (const config of configs) {
+    const delegation = await lucid.delegationAt(config.rewardAddress);
+    byRewardAddress.set(config.rewardAddress, delegation.rewards);
+  }
+
+  const total = [...byRewardAddress.values()].reduce((sum, rewards) => sum + rewards, 0n);
+  return { total, byRewardAddress };
+}
@@ -1,9 +1,9 @@
 // PuckSwap v5 - Liquid Staking Transaction Builder
-// Lucid Evolution transaction builders for pADA minting, deposits, withdrawals, and reward syncing
+// Lucid Evolution transaction builders for pADA minting, deposits, withdrawals, reward syncing and delegation rebalancing
 // Full CIP-68 compliance with master schema datum and redeemer structures
 
 import {
-  Lucid,
+  LucidEvolution,
   Data,
   UTxO,
   TxHash,
@@ -14,22 +14,44 @@ import {
   PolicyId,
   Unit,
   TxComplete,
+  TxBuilder,
   OutRef,
   Datum,
   Redeemer,
   Constr,
   fromText,
-  toText
+  toText,
+  mintingPolicyToId,
+  validatorToScriptHash,
+  slotToUnixTime
 } from "@lucid-evolution/lucid";
 
-import { createLucidInstance, connectWallet } from "../lib/lucid-config";
+import { createLucidInstance, connectWallet, getLucidNetwork } from "../lib/lucid-config";
 import { getEnvironmentConfig, ENV_CONFIG } from "../lib/environment-config";
+import { CIP68Serializer } from "../lib/cip68-serializer";
+import {
+  DelegationVaultConfig,
+  DelegationVaultDatum,
+  DelegationStrategy,
+  StakePoolCandidate,
+  aggregateDelegationRewards,
+  getDelegationVaults,
+  planDelegationRebalance,
+  serializeVaultDatum
+} from "./staking-delegation";
+import {
+  SignedRewardReport,
+  OracleQuorumConfig,
+  verifyRewardReports,
+  loadOracleQuorumConfig,
+  getRewardReportHistory
+} from "./reward-oracle";
 
 // Master Schema StakingDatum structure (CIP-68 compliant)
 export interface StakingDatum {
   total_staked: bigint;
   total_pADA_minted: bigint;
-  stake_pool_id: string;
+  stake_pool_id: string; // Primary pool; weighted multi-pool delegation lives on vault datums (staking-delegation.ts)
   last_rewards_sync_slot: bigint;
 }
 
@@ -42,11 +64,11 @@ export interface StakingRedeemer {
 
 // pADA Minting Redeemer structure
 export interface PADAMintingRedeemer {
-  mint_for_deposit?: {
+  MintForDeposit?: {
     staking_validator_hash: string;
     deposit_amount: bigint;
   };
-  burn_for_withdrawal?: {
+  BurnForWithdrawal?: {
     staking_validator_hash: string;
     withdrawal_amount: bigint;
   };
@@ -70,8 +92,58 @@ export interface WithdrawStakingParams {
 export interface SyncStakingRewardsParams {
   newRewardsSlot: bigint;
   oracleAddress?: Address;
+  delegations?: DelegationVaultConfig[]; // Reward accounts to withdraw into the staking UTxO
+  rewardReports?: SignedRewardReport[]; // Oracle reports covering the rewards being synced
+  oracleQuorum?: OracleQuorumConfig; // Defaults to loadOracleQuorumConfig()
+  allowUnverifiedRewards?: boolean; // Sync without reward reports when no quorum is configured
+}
+
+export interface RequestWithdrawalParams {
+  pADAAmount: bigint;
+  minADAOut: bigint;
+  userAddress?: Address;
+  unbondingSlots?: number; // Defaults to STAKING_WITHDRAWAL_CONSTANTS.DEFAULT_UNBONDING_SLOTS
+}
+
+export interface CompleteWithdrawalParams {
+  withdrawalId: string;
+  userAddress?: Address;
+}
+
+export interface RebalanceDelegationParams {
+  vaultValidatorCbor: string; // Spending validator shared by all vault UTxOs
+  vaults: DelegationVaultConfig[]; // One entry per stake credential
+  strategy: DelegationStrategy;
+  candidates: StakePoolCandidate[]; // Stake pools the strategy may choose from
+  liquidReserve?: bigint; // ADA kept liquid in the staking UTxO for withdrawal payouts
+}
+
+// Claim locked at the withdrawal queue address (CIP68Serializer.serializeWithdrawalRequest)
+export interface WithdrawalClaim {
+  id: string;
+  user: Address;
+  stADAAmount: bigint; // Locked pADA
+  expectedADAAmount: bigint; // Fixed at the exchange rate when requested
+  requestedAt: number; // Slot
+  status: 'pending' | 'completed';
+  completionDeadline: number; // Maturity slot; the claim can be completed from this slot on
+}
+
+export interface PendingWithdrawal {
+  claim: WithdrawalClaim;
+  utxo: UTxO;
+  maturitySlot: number;
+  slotsRemaining: number;
+  isClaimable: boolean;
 }
 
+export const STAKING_WITHDRAWAL_CONSTANTS = {
+  DEFAULT_UNBONDING_SLOTS: 432_000, // One epoch (5 days)
+  CLAIM_MIN_ADA: 2_000_000n,
+  STATUS_PENDING: 'pending',
+  STATUS_COMPLETED: 'completed'
+} as const;
+
 // CIP-68 Data Schemas for Lucid Evolution
 const StakingDatumSchema = Data.Object({
   total_staked: Data.Integer(),
@@ -80,28 +152,23 @@ const StakingDatumSchema = Data.Object({
   last_rewards_sync_slot: Data.Integer()
 });
 
-const StakingRedeemerSchema = Data.Enum([
-  Data.Object({
-    deposit: Data.Nullable(Data.Integer()),
-    withdraw: Data.Nullable(Data.Integer()),
-    sync: Data.Literal(false)
-  }),
-  Data.Object({
-    deposit: Data.Nullable(Data.Integer()),
-    withdraw: Data.Nullable(Data.Integer()),
-    sync: Data.Literal(true)
-  })
-]);
+// Record with sync: Bool, as in contracts/policies/pADA_minting_policy.aiken
+const StakingRedeemerSchema = Data.Object({
+  deposit: Data.Nullable(Data.Integer()),
+  withdraw: Data.Nullable(Data.Integer()),
+  sync: Data.Boolean()
+});
 
+// Enum constructors are keyed by their Aiken names
 const PADAMintingRedeemerSchema = Data.Enum([
   Data.Object({
-    mint_for_deposit: Data.Object({
+    MintForDeposit: Data.Object({
       staking_validator_hash: Data.Bytes(),
       deposit_amount: Data.Integer()
     })
   }),
   Data.Object({
-    burn_for_withdrawal: Data.Object({
+    BurnForWithdrawal: Data.Object({
       staking_validator_hash: Data.Bytes(),
       withdrawal_amount: Data.Integer()
     })
@@ -210,7 +277,7 @@ export async function depositStaking(
     // Create pADA minting redeemer
     const stakingValidatorHash = lucid.utils.validatorToScriptHash(stakingValidator);
     const pADAMintRedeemer: PADAMintingRedeemerType = {
-      mint_for_deposit: {
+      MintForDeposit: {
         staking_validator_hash: fromText(stakingValidatorHash),
         deposit_amount: params.adaAmount
       }
@@ -275,6 +342,8 @@ export async function depositStaking(
  * 2️⃣ WITHDRAW STAKING
  * Connect wallet, locate staking UTxO, calculate ADA withdrawal amount,
  * build transaction with pADA burning and ADA withdrawal
+ * Instant: only succeeds while the contract holds enough liquid ADA. Use
+ * requestStakingWithdrawal / completeStakingWithdrawal for delayed unbonding.
  */
 export async function withdrawStaking(
   stakingValidatorCbor: string,
@@ -366,7 +435,7 @@ export async function withdrawStaking(
     // Create pADA burning redeemer
     const stakingValidatorHash = lucid.utils.validatorToScriptHash(stakingValidator);
     const pADABurnRedeemer: PADAMintingRedeemerType = {
-      burn_for_withdrawal: {
+      BurnForWithdrawal: {
         staking_validator_hash: fromText(stakingValidatorHash),
         withdrawal_amount: params.pADAAmount
       }
@@ -431,6 +500,11 @@ export async function withdrawStaking(
  * 3️⃣ SYNC STAKING REWARDS
  * Build reward synchronization transaction to update last_rewards_sync_slot
  * Allow oracle/admin trigger for reward syncing
+ * Rewards from every delegation are withdrawn into the staking UTxO and added
+ * to total_staked, which moves the pADA exchange rate.
+ * When an oracle quorum is configured, the withdrawn total must match a set of
+ * quorum-signed reward reports observed since the last sync. Without a quorum
+ * the sync is refused unless allowUnverifiedRewards is set.
  */
 export async function syncStakingRewards(
   stakingValidatorCbor: string,
@@ -475,14 +549,50 @@ export async function syncStakingRewards(
       throw new Error(`New rewards slot must be greater than current: ${params.newRewardsSlot} <= ${currentDatum.last_rewards_sync_slot}`);
     }
 
+    // Aggregate rewards across all delegations
+    const delegations = params.delegations || [];
+    const rewards = await aggregateDelegationRewards(lucid, delegations);
+    console.log(`🎁 Rewards across ${delegations.length} delegations: ${Number(rewards.total) / 1_000_000} ADA`);
+
+    // Verify signed oracle reports before the rewards move the exchange rate
+    const oracleQuorum = params.oracleQuorum || loadOracleQuorumConfig();
+    if (!oracleQuorum) {
+      if (!params.allowUnverifiedRewards) {
+        throw new Error("No reward oracle quorum configured (PUCKSWAP_REWARD_ORACLE_KEYS); pass allowUnverifiedRewards to sync without one");
+      }
+      console.warn("⚠️ Syncing rewards without oracle verification");
+    }
+    const rewardReports = params.rewardReports || [];
+    if (oracleQuorum && rewardReports.length === 0) {
+      throw new Error("Signed reward reports are required when an oracle quorum is configured");
+    }
+
+    const verifiedReports = oracleQuorum ? verifyRewardReports(rewardReports, oracleQuorum) : [];
+    if (oracleQuorum) {
+      for (const { report } of verifiedReports) {
+        if (BigInt(report.observedSlot) <= currentDatum.last_rewards_sync_slot || BigInt(report.observedSlot) > params.newRewardsSlot) {
+          throw new Error(`Reward report for epoch ${report.epoch} was observed outside the sync window (slot ${report.observedSlot})`);
+        }
+      }
+
+      const reportedTotal = verifiedReports.reduce((sum, { report }) => sum + report.rewardAmount, 0n);
+      if (reportedTotal !== rewards.total) {
+        throw new Error(`Oracle reported ${reportedTotal} lovelace but reward accounts hold ${rewards.total}`);
+      }
+      console.log(`🔏 ${verifiedReports.length} reward reports verified (${oracleQuorum.threshold}/${oracleQuorum.oraclePublicKeys.length} quorum)`);
+    }
+
     // Create updated StakingDatum with new rewards sync slot
     const updatedDatum: StakingDatumType = {
-      total_staked: currentDatum.total_staked,
+      total_staked: currentDatum.total_staked + rewards.total,
       total_pADA_minted: currentDatum.total_pADA_minted,
       stake_pool_id: currentDatum.stake_pool_id,
       last_rewards_sync_slot: params.newRewardsSlot
     };
 
+    const rateBefore = calculateExchangeRate({ ...currentDatum, stake_pool_id: toText(currentDatum.stake_pool_id) });
+    const rateAfter = calculateExchangeRate({ ...updatedDatum, stake_pool_id: toText(updatedDatum.stake_pool_id) });
+    console.log(`📈 Exchange rate: ${rateBefore.toFixed(6)} → ${rateAfter.toFixed(6)} ADA per pADA`);
     console.log(`✅ Updated last rewards sync slot: ${updatedDatum.last_rewards_sync_slot}`);
 
     // Create spending validator
@@ -498,8 +608,11 @@ export async function syncStakingRewards(
       sync: true
     };
 
-    // Build transaction assets (no change in assets for sync)
-    const stakingOutputAssets: Assets = { ...stakingUTxO.assets };
+    // Build transaction assets (withdrawn rewards join the staking UTxO)
+    const stakingOutputAssets: Assets = {
+      ...stakingUTxO.assets,
+      lovelace: stakingUTxO.assets.lovelace + rewards.total
+    };
 
     // Ensure minimum ADA preservation (2 ADA minimum for contract UTxO)
     const minADARequired = 2_000_000n;
@@ -510,14 +623,26 @@ export async function syncStakingRewards(
     console.log(`💰 Staking output ADA: ${Number(stakingOutputAssets.lovelace) / 1_000_000} ADA`);
 
     // Build and complete transaction
-    const tx = await lucid.newTx()
+    const txBuilder = lucid.newTx()
       .collectFrom([stakingUTxO], Data.to(stakingRedeemer, StakingRedeemerSchema))
       .payToContract(
         stakingAddress,
         { inline: Data.to(updatedDatum, StakingDatumSchema) },
         stakingOutputAssets
       )
-      .attachSpendingValidator(stakingValidator)
+      .attachSpendingValidator(stakingValidator);
+
+    // Withdraw each reward account
+    for (const delegation of delegations) {
+      const amount = rewards.byRewardAddress.get(delegation.rewardAddress) || 0n;
+      if (amount > 0n) {
+        txBuilder
+          .withdraw(delegation.rewardAddress, amount, Data.to(new Constr(0, [])))
+          .attachWithdrawalValidator({ type: "PlutusV2", script: delegation.stakeValidatorCbor });
+      }
+    }
+
+    const tx = await txBuilder
       .validTo(Date.now() + 1200000) // 20 minute deadline
       .complete();
 
@@ -528,6 +653,7 @@ export async function syncStakingRewards(
     const txHash = await signedTx.submit();
 
     console.log(`🎉 Rewards sync transaction submitted: ${txHash}`);
+    getRewardReportHistory().add(verifiedReports);
     console.log(`🔄 Updated rewards sync slot to: ${params.newRewardsSlot}`);
 
     return txHash;
@@ -538,11 +664,463 @@ export async function syncStakingRewards(
   }
 }
 
+/**
+ * 4️⃣ REQUEST WITHDRAWAL
+ * Lock pADA in a claim UTxO at the withdrawal queue address. The ADA owed is
+ * fixed at the current exchange rate and can be claimed after the unbonding window.
+ * The staking UTxO is spent unchanged so its validator can check the claim.
+ */
+export async function requestStakingWithdrawal(
+  stakingValidatorCbor: string,
+  pADAMintingPolicyCbor: string,
+  stakingAddress: Address,
+  withdrawalQueueAddress: Address,
+  params: RequestWithdrawalParams,
+  walletName: "eternl" | "nami" | "vespr" | "lace" = "eternl"
+): Promise<{ txHash: TxHash; claim: WithdrawalClaim }> {
+  try {
+    console.log("⏳ Requesting delayed pADA withdrawal...");
+
+    const lucid = await createLucidInstance();
+    await connectWallet(lucid, walletName);
+    console.log("✅ Wallet connected successfully");
+
+    const userAddress = params.userAddress || await lucid.wallet().address();
+
+    // Locate staking UTxO at contract address
+    const stakingUTxOs = await lucid.utxosAt(stakingAddress);
+    if (stakingUTxOs.length === 0) {
+      throw new Error("No staking UTxO found at contract address");
+    }
+
+    const stakingUTxO = stakingUTxOs[0];
+    if (!stakingUTxO.datum) {
+      throw new Error("Staking UTxO missing datum");
+    }
+
+    const currentDatum = Data.from(stakingUTxO.datum, StakingDatumSchema);
+    const stakingDatum: StakingDatum = {
+      ...currentDatum,
+      stake_pool_id: toText(currentDatum.stake_pool_id)
+    };
+
+    if (params.pADAAmount <= 0n) {
+      throw new Error("Withdrawal amount must be positive");
+    }
+    if (stakingDatum.total_pADA_minted === 0n) {
+      throw new Error("No pADA tokens in circulation");
+    }
+
+    const expectedADAAmount = calculateADAToWithdraw(params.pADAAmount, stakingDatum);
+    if (expectedADAAmount < params.minADAOut) {
+      throw new Error(`Insufficient ADA output: expected ${params.minADAOut}, got ${expectedADAAmount}`);
+    }
+
+    const stakingValidator: SpendingValidator = {
+      type: "PlutusV2",
+      script: stakingValidatorCbor
+    };
+
+    const pADAMintingPolicy: MintingPolicy = {
+      type: "PlutusV2",
+      script: pADAMintingPolicyCbor
+    };
+    const pADAUnit = mintingPolicyToId(pADAMintingPolicy) + fromText("pADA");
+
+    const currentSlot = lucid.currentSlot();
+    const unbondingSlots = params.unbondingSlots ?? STAKING_WITHDRAWAL_CONSTANTS.DEFAULT_UNBONDING_SLOTS;
+
+    // The staking UTxO is spent by every request, so its out-ref never repeats
+    const claim: WithdrawalClaim = {
+      id: `${stakingUTxO.txHash}#${stakingUTxO.outputIndex}`,
+      user: userAddress,
+      stADAAmount: params.pADAAmount,
+      expectedADAAmount,
+      requestedAt: currentSlot,
+      status: STAKING_WITHDRAWAL_CONSTANTS.STATUS_PENDING,
+      completionDeadline: currentSlot + unbondingSlots
+    };
+
+    console.log(`🧮 Locking ${Number(params.pADAAmount) / 1_000_000} pADA for ${Number(expectedADAAmount) / 1_000_000} ADA`);
+    console.log(`📅 Claimable from slot ${claim.completionDeadline}`);
+
+    const requestRedeemer = CIP68Serializer.serializeWithdrawalRequestRedeemer(
+      params.pADAAmount,
+      params.minADAOut,
+      userAddress
+    );
+
+    const tx = await lucid.newTx()
+      .collectFrom([stakingUTxO], Data.to(requestRedeemer))
+      .pay.ToContract(stakingAddress, { kind: "inline", value: stakingUTxO.datum }, stakingUTxO.assets)
+      .pay.ToContract(
+        withdrawalQueueAddress,
+        { kind: "inline", value: Data.to(CIP68Serializer.serializeWithdrawalRequest(claim)) },
+        {
+          lovelace: STAKING_WITHDRAWAL_CONSTANTS.CLAIM_MIN_ADA,
+          [pADAUnit]: params.pADAAmount
+        }
+      )
+      .addSigner(userAddress)
+      .attach.SpendingValidator(stakingValidator)
+      .validTo(Date.now() + 1200000) // 20 minute deadline
+      .complete();
+
+    const signedTx = await tx.sign.withWallet().complete();
+    const txHash = await signedTx.submit();
+
+    console.log(`🎉 Withdrawal request submitted: ${txHash}`);
+
+    return { txHash, claim };
+
+  } catch (error) {
+    console.error("❌ Error in requestStakingWithdrawal:", error);
+    throw error;
+  }
+}
+
+/**
+ * 5️⃣ COMPLETE WITHDRAWAL
+ * After the unbonding window, burn the locked pADA and pay out the ADA owed
+ * from the staking contract
+ */
+export async function completeStakingWithdrawal(
+  stakingValidatorCbor: string,
+  withdrawalQueueValidatorCbor: string,
+  pADAMintingPolicyCbor: string,
+  stakingAddress: Address,
+  withdrawalQueueAddress: Address,
+  params: CompleteWithdrawalParams,
+  walletName: "eternl" | "nami" | "vespr" | "lace" = "eternl"
+): Promise<TxHash> {
+  try {
+    console.log("🏧 Completing delayed pADA withdrawal...");
+
+    const lucid = await createLucidInstance();
+    await connectWallet(lucid, walletName);
+    console.log("✅ Wallet connected successfully");
+
+    const userAddress = params.userAddress || await lucid.wallet().address();
+    const currentSlot = lucid.currentSlot();
+
+    // Locate the claim
+    const pending = await findPendingWithdrawals(lucid, withdrawalQueueAddress, userAddress, currentSlot);
+    const withdrawal = pending.find(entry => entry.claim.id === params.withdrawalId);
+    if (!withdrawal) {
+      throw new Error(`No pending withdrawal ${params.withdrawalId} for ${userAddress}`);
+    }
+    if (!withdrawal.isClaimable) {
+      throw new Error(`Withdrawal ${params.withdrawalId} matures at slot ${withdrawal.maturitySlot} (${withdrawal.slotsRemaining} slots remaining)`);
+    }
+
+    const { claim } = withdrawal;
+
+    // Locate staking UTxO at contract address
+    const stakingUTxOs = await lucid.utxosAt(stakingAddress);
+    if (stakingUTxOs.length === 0) {
+      throw new Error("No staking UTxO found at contract address");
+    }
+
+    const stakingUTxO = stakingUTxOs[0];
+    if (!stakingUTxO.datum) {
+      throw new Error("Staking UTxO missing datum");
+    }
+
+    const currentDatum = Data.from(stakingUTxO.datum, StakingDatumSchema);
+
+    // The contract must hold the payout on top of its own minimum ADA
+    const minADARequired = 2_000_000n;
+    const liquidADA = stakingUTxO.assets.lovelace - minADARequired;
+    if (liquidADA < claim.expectedADAAmount) {
+      throw new Error(
+        `Insufficient liquid ADA in staking contract: need ${claim.expectedADAAmount}, have ${liquidADA}`
+      );
+    }
+
+    const updatedDatum: StakingDatumType = {
+      total_staked: currentDatum.total_staked - claim.expectedADAAmount,
+      total_pADA_minted: currentDatum.total_pADA_minted - claim.stADAAmount,
+      stake_pool_id: currentDatum.stake_pool_id,
+      last_rewards_sync_slot: currentDatum.last_rewards_sync_slot
+    };
+
+    const stakingValidator: SpendingValidator = {
+      type: "PlutusV2",
+      script: stakingValidatorCbor
+    };
+
+    const withdrawalQueueValidator: SpendingValidator = {
+      type: "PlutusV2",
+      script: withdrawalQueueValidatorCbor
+    };
+
+    const pADAMintingPolicy: MintingPolicy = {
+      type: "PlutusV2",
+      script: pADAMintingPolicyCbor
+    };
+
+    const stakingRedeemer: StakingRedeemerType = {
+      deposit: null,
+      withdraw: claim.stADAAmount,
+      sync: false
+    };
+
+    const stakingValidatorHash = validatorToScriptHash(stakingValidator);
+    const pADABurnRedeemer: PADAMintingRedeemerType = {
+      BurnForWithdrawal: {
+        staking_validator_hash: fromText(stakingValidatorHash),
+        withdrawal_amount: claim.stADAAmount
+      }
+    };
+
+    const pADAUnit = mintingPolicyToId(pADAMintingPolicy) + fromText("pADA");
+
+    const stakingOutputAssets: Assets = {
+      ...stakingUTxO.assets,
+      lovelace: stakingUTxO.assets.lovelace - claim.expectedADAAmount
+    };
+
+    // Claim UTxO min ADA returns to the user with the payout
+    const payout = claim.expectedADAAmount + withdrawal.utxo.assets.lovelace;
+
+    const tx = await lucid.newTx()
+      .collectFrom([stakingUTxO], Data.to(stakingRedeemer, StakingRedeemerSchema))
+      .collectFrom([withdrawal.utxo], Data.to(CIP68Serializer.serializeCompleteWithdrawalRedeemer(claim.id, userAddress)))
+      .pay.ToContract(
+        stakingAddress,
+        { kind: "inline", value: Data.to(updatedDatum, StakingDatumSchema) },
+        stakingOutputAssets
+      )
+      .mintAssets(
+        { [pADAUnit]: -claim.stADAAmount },
+        Data.to(pADABurnRedeemer, PADAMintingRedeemerSchema)
+      )
+      .pay.ToAddress(userAddress, { lovelace: payout })
+      .addSigner(userAddress)
+      .attach.SpendingValidator(stakingValidator)
+      .attach.SpendingValidator(withdrawalQueueValidator)
+      .attach.MintingPolicy(pADAMintingPolicy)
+      .validFrom(slotToUnixTime(getLucidNetwork(lucid), withdrawal.maturitySlot))
+      .validTo(Date.now() + 1200000) // 20 minute deadline
+      .complete();
+
+    const signedTx = await tx.sign.withWallet().complete();
+    const txHash = await signedTx.submit();
+
+    console.log(`🎉 Withdrawal completed: ${txHash}`);
+    console.log(`💰 Received ${Number(payout) / 1_000_000} ADA for ${Number(claim.stADAAmount) / 1_000_000} pADA`);
+
+    return txHash;
+
+  } catch (error) {
+    console.error("❌ Error in completeStakingWithdrawal:", error);
+    throw error;
+  }
+}
+
+/**
+ * 6️⃣ REBALANCE DELEGATION
+ * Move liquid ADA from the staking UTxO into the delegation vaults (or back,
+ * to restore the withdrawal reserve), rebalance the vaults to the strategy's
+ * weights and redelegate vaults whose pool changed.
+ * total_staked counts the staking UTxO's liquid ADA plus every vault balance;
+ * the rebalance writes that total and refuses to lower it.
+ * @returns Transaction hash, or null if already balanced and fully counted
+ */
+export async function rebalanceDelegation(
+  stakingValidatorCbor: string,
+  stakingAddress: Address,
+  params: RebalanceDelegationParams,
+  walletName: "eternl" | "nami" | "vespr" | "lace" = "eternl"
+): Promise<TxHash | null> {
+  try {
+    console.log(`⚖️ Rebalancing stake delegation (${params.strategy.name})...`);
+
+    const lucid = await createLucidInstance();
+    await connectWallet(lucid, walletName);
+
+    // Locate staking UTxO at contract address
+    const stakingUTxOs = await lucid.utxosAt(stakingAddress);
+    if (stakingUTxOs.length === 0) {
+      throw new Error("No staking UTxO found at contract address");
+    }
+
+    const stakingUTxO = stakingUTxOs[0];
+    if (!stakingUTxO.datum) {
+      throw new Error("Staking UTxO missing datum");
+    }
+
+    const currentDatum = Data.from(stakingUTxO.datum, StakingDatumSchema);
+
+    // Staked ADA in the staking UTxO sits above its own minimum ADA
+    const minADARequired = 2_000_000n;
+    const liquidADA = stakingUTxO.assets.lovelace - minADARequired;
+
+    const vaults = await getDelegationVaults(lucid, params.vaults);
+    const allocations = params.strategy.computeWeights(params.candidates);
+    const plan = planDelegationRebalance(vaults, allocations, {
+      liquid: liquidADA > 0n ? liquidADA : 0n,
+      reserve: params.liquidReserve ?? 0n
+    });
+
+    if (plan.totalStaked < currentDatum.total_staked) {
+      throw new Error(
+        `Staking UTxO and vaults hold ${plan.totalStaked} lovelace, below total_staked ${currentDatum.total_staked}`
+      );
+    }
+
+    if (plan.isBalanced && plan.totalStaked === currentDatum.total_staked) {
+      console.log("✅ Delegation already within target weights");
+      return null;
+    }
+
+    if (plan.totalStaked > currentDatum.total_staked) {
+      console.log(`📈 Counting ${Number(plan.totalStaked - currentDatum.total_staked) / 1_000_000} ADA of vault balances in total staked`);
+    }
+    console.log(`  Staking UTxO: ${Number(plan.stakingLiquid) / 1_000_000} → ${Number(plan.stakingTarget) / 1_000_000} ADA liquid`);
+    plan.targets.forEach(target => {
+      console.log(`  Vault ${target.vaultIndex}: ${target.poolId ?? 'idle'} ${target.weightBps} bps, ${Number(target.currentBalance) / 1_000_000} → ${Number(target.targetBalance) / 1_000_000} ADA`);
+    });
+
+    const updatedDatum: StakingDatumType = {
+      total_staked: plan.totalStaked,
+      total_pADA_minted: currentDatum.total_pADA_minted,
+      stake_pool_id: currentDatum.stake_pool_id,
+      last_rewards_sync_slot: currentDatum.last_rewards_sync_slot
+    };
+
+    const stakingValidator: SpendingValidator = {
+      type: "PlutusV2",
+      script: stakingValidatorCbor
+    };
+
+    const vaultValidator: SpendingValidator = {
+      type: "PlutusV2",
+      script: params.vaultValidatorCbor
+    };
+
+    // No deposit, withdrawal or sync: ADA only moves between the staking UTxO and the vaults
+    const stakingRedeemer: StakingRedeemerType = {
+      deposit: null,
+      withdraw: null,
+      sync: false
+    };
+    const rebalanceRedeemer = Data.to(new Constr(0, []));
+
+    const stakingOutputAssets: Assets = {
+      ...stakingUTxO.assets,
+      lovelace: minADARequired + plan.stakingTarget
+    };
+
+    const vaultInputs = vaults.map(vault => vault.utxo).filter((utxo): utxo is UTxO => utxo !== null);
+
+    let tx: TxBuilder = lucid.newTx()
+      .collectFrom([stakingUTxO], Data.to(stakingRedeemer, StakingRedeemerSchema))
+      .collectFrom(vaultInputs, rebalanceRedeemer)
+      .pay.ToContract(
+        stakingAddress,
+        { kind: "inline", value: Data.to(updatedDatum, StakingDatumSchema) },
+        stakingOutputAssets
+      )
+      .attach.SpendingValidator(stakingValidator)
+      .attach.SpendingValidator(vaultValidator);
+
+    plan.targets.forEach(target => {
+      const vault = vaults[target.vaultIndex];
+      const datum: DelegationVaultDatum = {
+        pool_id: target.poolId ?? vault.datum?.pool_id ?? "",
+        weight_bps: target.weightBps
+      };
+
+      tx = tx.pay.ToContract(vault.config.vaultAddress, { kind: "inline", value: serializeVaultDatum(datum) }, { lovelace: target.targetBalance });
+
+      if (target.redelegate && target.poolId) {
+        if (vault.config.isRegistered === false) {
+          tx = tx.register.Stake(vault.config.rewardAddress);
+        }
+        tx = tx
+          .delegate.ToPool(vault.config.rewardAddress, target.poolId, rebalanceRedeemer)
+          .attach.CertificateValidator({ type: "PlutusV2", script: vault.config.stakeValidatorCbor });
+      }
+    });
+
+    const completed = await tx.validTo(Date.now() + 1200000).complete(); // 20 minute deadline
+    const signedTx = await completed.sign.withWallet().complete();
+    const txHash = await signedTx.submit();
+
+    console.log(`🎉 Delegation rebalance submitted: ${txHash}`);
+    return txHash;
+
+  } catch (error) {
+    console.error("❌ Error in rebalanceDelegation:", error);
+    throw error;
+  }
+}
+
 /**
  * UTILITY FUNCTIONS
  * Helper functions for staking operations
  */
 
+// Parse a withdrawal claim from a queue UTxO datum; null for datums that are not claims
+export function parseWithdrawalClaim(datum: string): WithdrawalClaim | null {
+  try {
+    return CIP68Serializer.deserializeWithdrawalRequest(Data.from(datum));
+  } catch (error) {
+    console.warn("Skipping unreadable withdrawal claim datum:", error);
+    return null;
+  }
+}
+
+// Pending claims for a user, with maturity relative to the given slot
+export async function findPendingWithdrawals(
+  lucid: LucidEvolution,
+  withdrawalQueueAddress: Address,
+  userAddress: Address,
+  currentSlot: number
+): Promise<PendingWithdrawal[]> {
+  const utxos = await lucid.utxosAt(withdrawalQueueAddress);
+  const pending: PendingWithdrawal[] = [];
+
+  for (const utxo of utxos) {
+    if (!utxo.datum) continue;
+
+    const claim = parseWithdrawalClaim(utxo.datum);
+    if (!claim || claim.user !== userAddress || claim.status !== STAKING_WITHDRAWAL_CONSTANTS.STATUS_PENDING) {
+      continue;
+    }
+
+    const slotsRemaining = Math.max(claim.completionDeadline - currentSlot, 0);
+    pending.push({
+      claim,
+      utxo,
+      maturitySlot: claim.completionDeadline,
+      slotsRemaining,
+      isClaimable: slotsRemaining === 0
+    });
+  }
+
+  return pending.sort((a, b) => a.maturitySlot - b.maturitySlot);
+}
+
+// Get a user's pending withdrawal claims and their maturity slots
+export async function getPendingWithdrawals(
+  withdrawalQueueAddress: Address,
+  userAddress?: Address,
+  walletName: "eternl" | "nami" | "vespr" | "lace" = "eternl"
+): Promise<PendingWithdrawal[]> {
+  try {
+    const lucid = await createLucidInstance();
+    await connectWallet(lucid, walletName);
+
+    const address = userAddress || await lucid.wallet.address();
+    return await findPendingWithdrawals(lucid, withdrawalQueueAddress, address, lucid.currentSlot());
+  } catch (error) {
+    console.error("Error getting pending withdrawals:", error);
+    return [];
+  }
+}
+
 // Get current StakingDatum from contract address
 export async function getStakingDatum(
   stakingAddress: Address,
@@ -27,6 +27,8 @@ import {
 import { createLucidInstance, connectWallet } from "../lib/lucid-config";
 import { getEnvironmentConfig, ENV_CONFIG } from "../lib/environment-config";
 import { loadContractAddresses, getAMMAddresses } from "./utils/contractAddresses";
+import { CIP68_METADATA_KEYS, POOL_TYPES, PoolCurve } from "../lib/cip68-types";
+import { calculateStableSwapOutput, validateAmplification } from "./utils/stableswap-math";
 
 // =============================================================================
 // CIP-68 DATUM AND REDEEMER STRUCTURES
@@ -147,12 +149,14 @@ export async function buildCoreSwapTransaction(
     // Parse pool datum from UTxO
     const poolDatum = parsePoolCIP68Datum(params.poolUtxo.datum!);
 
-    // Calculate swap output using constant product formula
-    const swapResult = calculateSwapOutput(
+    // Calculate swap output on the pool's curve
+    const swapResult = calculatePoolSwapOutput(
       poolDatum.pool_state.ada_reserve,
       poolDatum.pool_state.token_reserve,
       params.amountIn,
-      params.swapInToken
+      params.swapInToken,
+      getPoolCurve(poolDatum.metadata),
+      poolDatum.pool_config.fee_bps
     );
 
     // Validate minimum output requirement
@@ -215,6 +219,16 @@ export async function buildCoreSwapTransaction(
   }
 }
 
+// Per-pool portion of a swap that was split across several pools
+export interface PoolSwapBreakdown {
+  poolRef: string; // txHash#outputIndex of the spent pool UTxO
+  poolId: string; // v4 registry pool ID
+  amountIn: bigint;
+  amountOut: bigint;
+  feeAmount: bigint;
+  priceImpact: number;
+}
+
 // Swap transaction result
 export interface SwapTransactionResult {
   txHash: TxHash;
@@ -224,6 +238,7 @@ export interface SwapTransactionResult {
     tradingFee: bigint;
     totalFee: bigint;
   };
+  poolBreakdown?: PoolSwapBreakdown[]; // Present when the order was split across pools
 }
 
 // =============================================================================
@@ -299,6 +314,60 @@ export function calculateSwapOutput(
   };
 }
 
+/**
+ * Calculate swap output on the curve selected by the pool type
+ * @param adaReserve - Current ADA reserve
+ * @param tokenReserve - Current token reserve
+ * @param amountIn - Input amount
+ * @param swapInToken - True for PUCKY->ADA, false for ADA->PUCKY
+ * @param curve - Pool curve; constant product when omitted
+ * @param feeBps - Pool fee in basis points (StableSwap only, constant product uses 997/1000)
+ * @returns Swap calculation result
+ */
+export function calculatePoolSwapOutput(
+  adaReserve: bigint,
+  tokenReserve: bigint,
+  amountIn: bigint,
+  swapInToken: boolean,
+  curve?: PoolCurve,
+  feeBps?: bigint
+): SwapCalculationResult {
+  if (curve?.pool_type === POOL_TYPES.STABLESWAP) {
+    return calculateStableSwapOutput(adaReserve, tokenReserve, amountIn, swapInToken, curve.amplification, feeBps);
+  }
+  return calculateSwapOutput(adaReserve, tokenReserve, amountIn, swapInToken);
+}
+
+/**
+ * Read the pool curve from CIP-68 pool metadata
+ * Pools without a pool_type entry are constant product.
+ */
+export function getPoolCurve(metadata: Map<string, Data>): PoolCurve {
+  const rawType = metadata.get(CIP68_METADATA_KEYS.POOL_TYPE);
+  const poolType = typeof rawType === 'string' ? decodeMetadataText(rawType) : POOL_TYPES.CONSTANT_PRODUCT;
+
+  if (poolType !== POOL_TYPES.STABLESWAP) {
+    return { pool_type: POOL_TYPES.CONSTANT_PRODUCT, amplification: 0n };
+  }
+
+  const amplification = metadata.get(CIP68_METADATA_KEYS.AMPLIFICATION);
+  if (typeof amplification !== 'bigint') {
+    throw new Error("StableSwap pool metadata is missing the amplification parameter");
+  }
+  validateAmplification(amplification);
+
+  return { pool_type: POOL_TYPES.STABLESWAP, amplification };
+}
+
+// Metadata strings are stored as hex-encoded bytes on chain
+function decodeMetadataText(value: string): string {
+  try {
+    return toText(value);
+  } catch {
+    return value;
+  }
+}
+
 /**
  * Calculate price impact of a swap
  */
@@ -314,9 +383,8 @@ function calculatePriceImpact(
     ? Number(adaReserve) / Number(tokenReserve)
     : Number(tokenReserve) / Number(adaReserve);
 
-  const priceAfter = swapInToken
-    ? Number(amountIn) / Number(outputAmount)
-    : Number(outputAmount) / Number(amountIn);
+  // Effective execution price (output per input), same units as priceBefore
+  const priceAfter = Number(outputAmount) / Number(amountIn);
 
   return Math.abs((priceAfter - priceBefore) / priceBefore) * 100;
 }
@@ -355,7 +423,7 @@ export function createSwapRedeemer(redeemer: CoreSwapRedeemer): string {
     const redeemerData = new Constr(0, [
       redeemer.amount_in,
       redeemer.min_amount_out,
-      redeemer.swap_in_token,
+      new Constr(redeemer.swap_in_token ? 1 : 0, []), // Aiken Bool
       fromText(redeemer.recipient),
       redeemer.deadline_slot
     ]);
@@ -0,0 +1,129 @@
+// PuckSwap v4 Enterprise - LP Reward Claim Pools
+// An epoch's LP share of swap-fee revenue is locked once at a claim script with
+// the Merkle root of entitlements (see context7/lp_rewards); each LP claims their
+// own leaf with a proof and the leaf's bit is set in a fixed-size claim bitmap
+// in the datum, so the datum never grows as claims come in
+
+import { Data, Constr, fromText, toText } from "@lucid-evolution/lucid";
+
+// =============================================================================
+// CLAIM POOL TYPES
+// =============================================================================
+
+export const LP_REWARD_CONSTANTS = {
+  CLAIM_POOL_MIN_ADA: 2_000_000n, // Kept on the claim pool UTxO, paid by the wallet publishing the root
+  MAX_ENTITLEMENTS: 4_096 // Per epoch; the claim bitmap is one bit per entitlement (512 bytes at most)
+} as const;
+
+export interface LpRewardRoot {
+  poolId: string;
+  epoch: number;
+  merkleRoot: string;
+  totalAmount: bigint; // Lovelace committed to the root
+  claimedAmount: bigint;
+  entitlementCount: number;
+  claimedBitmap: string; // Hex, bit (index % 8) of byte (index / 8) is set once entitlement `index` is claimed
+}
+
+/**
+ * Unclaimed root for an epoch, with an all-zero bitmap sized to its entitlements
+ */
+export function createLpRewardRoot(poolId: string, epoch: number, merkleRoot: string, totalAmount: bigint, entitlementCount: number): LpRewardRoot {
+  if (!Number.isInteger(entitlementCount) || entitlementCount < 1 || entitlementCount > LP_REWARD_CONSTANTS.MAX_ENTITLEMENTS) {
+    throw new Error(`LP reward root needs between 1 and ${LP_REWARD_CONSTANTS.MAX_ENTITLEMENTS} entitlements, got ${entitlementCount}`);
+  }
+  return {
+    poolId,
+    epoch,
+    merkleRoot,
+    totalAmount,
+    claimedAmount: 0n,
+    entitlementCount,
+    claimedBitmap: "00".repeat(Math.ceil(entitlementCount / 8))
+  };
+}
+
+export function isLpRewardClaimed(root: LpRewardRoot, index: number): boolean {
+  const byte = parseInt(root.claimedBitmap.slice((index >> 3) * 2, (index >> 3) * 2 + 2), 16);
+  return (byte & (1 << (index & 7))) !== 0;
+}
+
+/**
+ * Claim pool state after paying one entitlement
+ */
+export function applyLpRewardClaim(root: LpRewardRoot, index: number, amount: bigint): LpRewardRoot {
+  if (!Number.isInteger(index) || index < 0 || index >= root.entitlementCount) {
+    throw new Error(`Reward ${index} is outside the ${root.entitlementCount} entitlements of ${root.poolId} epoch ${root.epoch}`);
+  }
+  if (isLpRewardClaimed(root, index)) {
+    throw new Error(`Reward ${index} for ${root.poolId} epoch ${root.epoch} already claimed`);
+  }
+  if (amount <= 0n || root.claimedAmount + amount > root.totalAmount) {
+    throw new Error(`Claim of ${amount} exceeds unclaimed rewards ${root.totalAmount - root.claimedAmount}`);
+  }
+
+  return {
+    ...root,
+    claimedAmount: root.claimedAmount + amount,
+    claimedBitmap: setClaimBit(root.claimedBitmap, index)
+  };
+}
+
+function setClaimBit(bitmap: string, index: number): string {
+  const offset = (index >> 3) * 2;
+  const byte = parseInt(bitmap.slice(offset, offset + 2), 16) | (1 << (index & 7));
+  return bitmap.slice(0, offset) + byte.toString(16).padStart(2, "0") + bitmap.slice(offset + 2);
+}
+
+// =============================================================================
+// CLAIM POOL DATUM
+// =============================================================================
+
+// Single ClaimReward constructor, so a record: Constr 0 [index, amount, proof]
+const LpRewardRedeemerSchema = Data.Object({
+  index: Data.Integer(),
+  amount: Data.Integer(),
+  proof: Data.Array(Data.Bytes())
+});
+export type LpRewardRedeemer = Data.Static<typeof LpRewardRedeemerSchema>;
+export const LpRewardRedeemer = LpRewardRedeemerSchema as unknown as LpRewardRedeemer;
+
+// Constr 0 [pool_id, epoch, merkle_root, total, claimed, entitlement_count, claimed_bitmap]
+export function serializeLpRewardRoot(root: LpRewardRoot): string {
+  return Data.to(new Constr(0, [
+    fromText(root.poolId),
+    BigInt(root.epoch),
+    root.merkleRoot,
+    root.totalAmount,
+    root.claimedAmount,
+    BigInt(root.entitlementCount),
+    root.claimedBitmap
+  ]));
+}
+
+export function parseLpRewardRoot(datum: string): LpRewardRoot | null {
+  try {
+    const data = Data.from(datum) as Constr<Data>;
+    if (data.index !== 0 || data.fields.length !== 7) {
+      return null;
+    }
+
+    const entitlementCount = Number(data.fields[5] as bigint);
+    const claimedBitmap = data.fields[6] as string;
+    if (typeof claimedBitmap !== "string" || claimedBitmap.length !== Math.ceil(entitlementCount / 8) * 2) {
+      return null;
+    }
+
+    return {
+      poolId: toText(data.fields[0] as string),
+      epoch: Number(data.fields[1] as bigint),
+      merkleRoot: data.fields[2] as string,
+      totalAmount: data.fields[3] as bigint,
+      claimedAmount: data.fields[4] as bigint,
+      entitlementCount,
+      claimedBitmap
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,186 @@
+// PuckSwap v4 Enterprise - Treasury Vesting Streams
+// Grants and contributor pay locked from treasury funds at a stream script,
+// unlocking linearly from startSlot to endSlot after a cliff
+// Recipients claim the unlocked portion; governance can cancel a stream, paying
+// out what has vested and returning the remainder to the treasury
+
+import { Data, Constr } from "@lucid-evolution/lucid";
+
+// =============================================================================
+// STREAM TYPES
+// =============================================================================
+
+export const STREAM_CONSTANTS = {
+  STREAM_MIN_ADA: 2_000_000n, // Kept on every stream UTxO, returned on close
+  MAX_DURATION_SLOTS: 126_144_000, // 4 years
+  ADMIN_STREAM_PROPOSAL_ID: -1
+} as const;
+
+export type StreamStatus = 'Pending' | 'Vesting' | 'FullyVested' | 'Completed';
+
+export interface VestingStream {
+  streamId: string; // Hex
+  recipientKeyHash: string; // Payment key hash allowed to claim
+  unit: string; // "lovelace" or policy + asset name
+  totalAmount: bigint;
+  claimedAmount: bigint;
+  startSlot: number;
+  cliffSlot: number; // Nothing unlocks before the cliff
+  endSlot: number;
+  governanceProposalId: number; // ADMIN_STREAM_PROPOSAL_ID when created by an admin
+}
+
+export interface CreateStreamParams {
+  recipient: string; // Recipient address; must have a key payment credential
+  unit?: string; // Defaults to lovelace
+  totalAmount: bigint;
+  startSlot: number;
+  cliffSlot?: number; // Defaults to startSlot
+  endSlot: number;
+}
+
+export interface StreamSummary {
+  stream: VestingStream;
+  status: StreamStatus;
+  vestedAmount: bigint;
+  claimableAmount: bigint;
+  remainingAmount: bigint; // Not yet vested
+}
+
+// =============================================================================
+// VESTING MATH
+// =============================================================================
+
+export function validateStreamSchedule(totalAmount: bigint, startSlot: number, cliffSlot: number, endSlot: number): void {
+  if (totalAmount <= 0n) {
+    throw new Error("Stream amount must be positive");
+  }
+  if (endSlot <= startSlot) {
+    throw new Error("Stream end slot must be after start slot");
+  }
+  if (cliffSlot < startSlot || cliffSlot > endSlot) {
+    throw new Error("Stream cliff must be between start and end slots");
+  }
+  if (endSlot - startSlot > STREAM_CONSTANTS.MAX_DURATION_SLOTS) {
+    throw new Error(`Stream duration exceeds ${STREAM_CONSTANTS.MAX_DURATION_SLOTS} slots`);
+  }
+}
+
+/**
+ * Amount unlocked at a slot: zero before the cliff, then linear from start to end
+ */
+export function calculateVestedAmount(stream: VestingStream, slot: number): bigint {
+  if (slot < stream.cliffSlot) {
+    return 0n;
+  }
+  if (slot >= stream.endSlot) {
+    return stream.totalAmount;
+  }
+
+  const elapsed = BigInt(slot - stream.startSlot);
+  const duration = BigInt(stream.endSlot - stream.startSlot);
+  return (stream.totalAmount * elapsed) / duration;
+}
+
+export function calculateClaimableAmount(stream: VestingStream, slot: number): bigint {
+  const claimable = calculateVestedAmount(stream, slot) - stream.claimedAmount;
+  return claimable > 0n ? claimable : 0n;
+}
+
+export function getStreamStatus(stream: VestingStream, slot: number): StreamStatus {
+  if (stream.claimedAmount >= stream.totalAmount) {
+    return 'Completed';
+  }
+  if (slot < stream.cliffSlot) {
+    return 'Pending';
+  }
+  return slot >= stream.endSlot ? 'FullyVested' : 'Vesting';
+}
+
+export function summarizeStream(stream: VestingStream, slot: number): StreamSummary {
+  const vestedAmount = calculateVestedAmount(stream, slot);
+  return {
+    stream,
+    status: getStreamStatus(stream, slot),
+    vestedAmount,
+    claimableAmount: calculateClaimableAmount(stream, slot),
+    remainingAmount: stream.totalAmount - vestedAmount
+  };
+}
+
+/**
+ * Split of a stream's locked funds when governance cancels it
+ * @returns Vested-but-unclaimed amount for the recipient and the unvested remainder for the treasury
+ */
+export function calculateStreamCancellation(stream: VestingStream, slot: number): { toRecipient: bigint; toTreasury: bigint } {
+  const toRecipient = calculateClaimableAmount(stream, slot);
+  return {
+    toRecipient,
+    toTreasury: stream.totalAmount - stream.claimedAmount - toRecipient
+  };
+}
+
+/**
+ * Stream id from the treasury UTxO that funded it and the stream's index in that transaction
+ */
+export function deriveStreamId(fundingTxHash: string, fundingOutputIndex: number, index: number): string {
+  return `${fundingTxHash.slice(0, 52)}${fundingOutputIndex.toString(16).padStart(4, "0")}${index.toString(16).padStart(4, "0")}`;
+}
+
+// =============================================================================
+// STREAM DATUM
+// =============================================================================
+
+const StreamRedeemerSchema = Data.Enum([
+  Data.Object({
+    ClaimStream: Data.Object({
+      amount: Data.Integer()
+    })
+  }),
+  Data.Object({
+    CancelStream: Data.Object({
+      proposal_id: Data.Integer()
+    })
+  })
+]);
+export type StreamRedeemer = Data.Static<typeof StreamRedeemerSchema>;
+export const StreamRedeemer = StreamRedeemerSchema as unknown as StreamRedeemer;
+
+// Constr 0 [stream_id, recipient_pkh, unit, total, claimed, start, cliff, end, proposal_id]
+export function serializeStreamDatum(stream: VestingStream): string {
+  return Data.to(new Constr(0, [
+    stream.streamId,
+    stream.recipientKeyHash,
+    stream.unit === "lovelace" ? "" : stream.unit,
+    stream.totalAmount,
+    stream.claimedAmount,
+    BigInt(stream.startSlot),
+    BigInt(stream.cliffSlot),
+    BigInt(stream.endSlot),
+    BigInt(stream.governanceProposalId)
+  ]));
+}
+
+export function parseStreamDatum(datum: string): VestingStream | null {
+  try {
+    const data = Data.from(datum) as Constr<Data>;
+    if (data.index !== 0 || data.fields.length !== 9) {
+      return null;
+    }
+
+    const unit = data.fields[2] as string;
+    return {
+      streamId: data.fields[0] as string,
+      recipientKeyHash: data.fields[1] as string,
+      unit: unit === "" ? "lovelace" : unit,
+      totalAmount: data.fields[3] as bigint,
+      claimedAmount: data.fields[4] as bigint,
+      startSlot: Number(data.fields[5] as bigint),
+      cliffSlot: Number(data.fields[6] as bigint),
+      endSlot: Number(data.fields[7] as bigint),
+      governanceProposalId: Number(data.fields[8] as bigint)
+    };
+  } catch {
+    return null;
+  }
+}
@@ -4,9 +4,12 @@
 
 import {
   Lucid,
+  LucidEvolution,
   Blockfrost,
   Data,
+  Constr,
   fromText,
+  toText,
   toUnit,
   fromUnit,
   UTxO,
@@ -17,12 +20,53 @@ import {
   MintingPolicy,
   PolicyId,
   Unit,
-  TxComplete,
+  TxBuilder,
+  TxSignBuilder,
   Script,
   OutRef,
   Datum,
-  Redeemer
-} from "lucid-cardano";
+  Redeemer,
+  credentialToAddress,
+  getAddressDetails,
+  slotToUnixTime
+} from "@lucid-evolution/lucid";
+
+import { connectWallet, getLucidNetwork } from "../lib/lucid-config";
+import { PuckSwapSerializer } from "./utils/serialization";
+
+import type { GovernanceExecution, GovernanceExecutionTarget } from "./governance-executor";
+import { getAuthorizedPayouts, getTimelockStatus } from "./governance-timelock";
+import {
+  CreateStreamParams,
+  VestingStream,
+  StreamSummary,
+  STREAM_CONSTANTS,
+  validateStreamSchedule,
+  calculateClaimableAmount,
+  calculateStreamCancellation,
+  summarizeStream,
+  deriveStreamId,
+  serializeStreamDatum,
+  parseStreamDatum,
+  StreamRedeemer
+} from "./treasury-streams";
+import {
+  LpRewardRoot,
+  LP_REWARD_CONSTANTS,
+  createLpRewardRoot,
+  applyLpRewardClaim,
+  serializeLpRewardRoot,
+  parseLpRewardRoot,
+  LpRewardRedeemer
+} from "./treasury-lp-rewards";
+import { LpRewardProof, hashEntitlementLeaf, verifyMerkleProof } from "../context7/lp_rewards";
+import {
+  AdminAction,
+  AdminMultisigCoordinator,
+  PendingAdminTx,
+  AdminSignatureRecord,
+  selectAdminSigners
+} from "./admin-multisig";
 
 // Treasury interfaces
 export interface RevenueSource {
@@ -41,6 +85,9 @@ export interface DistributionTarget {
   poolId?: string;
   lpAddresses?: Address[];
   amounts?: bigint[];
+  rewardEpoch?: number; // With merkleRoot, `amount` is locked for LPs to claim instead of paid out
+  merkleRoot?: string;
+  entitlementCount?: number;
   recipient?: Address;
   amount?: bigint;
   purpose?: string;
@@ -110,7 +157,6 @@ export interface RevenueCollectionParams {
 
 export interface DistributionParams {
   targets: DistributionTarget[];
-  governanceProposalId?: number;
   autoDistribution?: boolean;
 }
 
@@ -126,14 +172,138 @@ export interface TreasuryConfigUpdate {
   autoDistributionEnabled?: boolean;
 }
 
-export class PuckSwapTreasuryV4 {
-  private lucid: Lucid;
+const TreasuryRedeemerSchema = Data.Enum([
+  Data.Object({
+    CollectRevenue: Data.Object({
+      source_id: Data.Bytes(),
+      amount: Data.Integer()
+    })
+  }),
+  Data.Object({
+    DistributeRevenue: Data.Object({
+      total_amount: Data.Integer()
+    })
+  }),
+  Data.Object({
+    AutoDistribute: Data.Object({
+      amount: Data.Integer()
+    })
+  }),
+  Data.Object({
+    UpdateConfig: Data.Object({
+      signer_count: Data.Integer()
+    })
+  }),
+  Data.Object({
+    AddAsset: Data.Object({
+      token_policy: Data.Bytes(),
+      token_name: Data.Bytes()
+    })
+  }),
+  Data.Object({
+    CreateStream: Data.Object({
+      stream_id: Data.Bytes(),
+      amount: Data.Integer()
+    })
+  }),
+  Data.Object({
+    EmergencyWithdraw: Data.Object({
+      recipient: Data.Bytes(),
+      amount: Data.Integer(),
+      token_policy: Data.Bytes(),
+      token_name: Data.Bytes(),
+      reason: Data.Bytes()
+    })
+  }),
+  Data.Object({
+    GovernancePayout: Data.Object({
+      proposal_id: Data.Integer()
+    })
+  })
+]);
+type TreasuryRedeemer = Data.Static<typeof TreasuryRedeemerSchema>;
+const TreasuryRedeemer = TreasuryRedeemerSchema as unknown as TreasuryRedeemer;
+
+// Records, balances and supported assets are stored as tagged values so optional fields survive the round trip
+export function serializeTreasuryDatum(datum: TreasuryDatum): string {
+  return Data.to(new Constr(0, [
+    new Constr(0, [fromText(datum.metadata.policyId), fromText(datum.metadata.assetName), BigInt(datum.metadata.version)]),
+    BigInt(datum.version),
+    datum.totalRevenueCollected,
+    datum.totalDistributed,
+    PuckSwapSerializer.serializeTaggedValue(datum.currentBalance),
+    datum.revenueRecords.map(record => PuckSwapSerializer.serializeTaggedValue(record)),
+    datum.distributionRecords.map(record => PuckSwapSerializer.serializeTaggedValue(record)),
+    BigInt(datum.lpRewardPercentage),
+    BigInt(datum.developmentPercentage),
+    BigInt(datum.governancePercentage),
+    BigInt(datum.protocolPercentage),
+    BigInt(datum.communityPercentage),
+    fromText(datum.governanceAddress),
+    datum.autoDistributionEnabled ? 1n : 0n,
+    datum.distributionThreshold,
+    datum.adminAddresses.map(address => fromText(address)),
+    fromText(datum.emergencyAdmin),
+    datum.paused ? 1n : 0n,
+    datum.maxSingleDistribution,
+    datum.dailyDistributionLimit,
+    BigInt(datum.lastDistributionSlot),
+    PuckSwapSerializer.serializeTaggedValue(datum.supportedAssets)
+  ]));
+}
+
+export function parseTreasuryDatum(datum: string): TreasuryDatum {
+  const data = Data.from(datum) as Constr<Data>;
+  if (!(data instanceof Constr) || data.index !== 0 || data.fields.length !== 22) {
+    throw new Error("Invalid treasury datum");
+  }
+
+  const fields = data.fields;
+  const metadata = fields[0] as Constr<Data>;
+  return {
+    metadata: {
+      policyId: toText(metadata.fields[0] as string),
+      assetName: toText(metadata.fields[1] as string),
+      version: Number(metadata.fields[2] as bigint)
+    },
+    version: Number(fields[1] as bigint),
+    totalRevenueCollected: fields[2] as bigint,
+    totalDistributed: fields[3] as bigint,
+    currentBalance: PuckSwapSerializer.deserializeTaggedValue(fields[4]) as Assets,
+    revenueRecords: (fields[5] as Data[]).map(record => PuckSwapSerializer.deserializeTaggedValue(record) as RevenueRecord),
+    distributionRecords: (fields[6] as Data[]).map(record => PuckSwapSerializer.deserializeTaggedValue(record) as DistributionRecord),
+    lpRewardPercentage: Number(fields[7] as bigint),
+    developmentPercentage: Number(fields[8] as bigint),
+    governancePercentage: Number(fields[9] as bigint),
+    protocolPercentage: Number(fields[10] as bigint),
+    communityPercentage: Number(fields[11] as bigint),
+    governanceAddress: toText(fields[12] as string),
+    autoDistributionEnabled: fields[13] === 1n,
+    distributionThreshold: fields[14] as bigint,
+    adminAddresses: (fields[15] as string[]).map(address => toText(address)),
+    emergencyAdmin: toText(fields[16] as string),
+    paused: fields[17] === 1n,
+    maxSingleDistribution: fields[18] as bigint,
+    dailyDistributionLimit: fields[19] as bigint,
+    lastDistributionSlot: Number(fields[20] as bigint),
+    supportedAssets: PuckSwapSerializer.deserializeTaggedValue(fields[21]) as TreasuryDatum['supportedAssets']
+  };
+}
+
+export class PuckSwapTreasuryV4 implements GovernanceExecutionTarget {
+  readonly executionTarget = 'treasury' as const;
+  private lucid: LucidEvolution;
+  private streamAddress: Address | null = null;
+  private streamValidator: SpendingValidator | null = null;
+  private lpRewardAddress: Address | null = null;
+  private lpRewardValidator: SpendingValidator | null = null;
+  private adminMultisig: AdminMultisigCoordinator | null = null;
   private treasuryValidator: SpendingValidator;
   private treasuryAddress: Address;
   private governanceAddress: Address;
 
   constructor(
-    lucid: Lucid,
+    lucid: LucidEvolution,
     treasuryValidator: SpendingValidator,
     treasuryAddress: Address,
     governanceAddress: Address
@@ -152,7 +322,7 @@ export class PuckSwapTreasuryV4 {
     treasuryAddress: Address,
     governanceAddress: Address
   ): Promise<PuckSwapTreasuryV4> {
-    const lucid = await Lucid.new(
+    const lucid = await Lucid(
       new Blockfrost(
         `https://cardano-${network.toLowerCase()}.blockfrost.io/api/v0`,
         blockfrostApiKey
@@ -175,7 +345,24 @@ export class PuckSwapTreasuryV4 {
 
   // Connect wallet
   async connectWallet(walletName: "eternl" | "nami" | "vespr" | "lace"): Promise<void> {
-    await this.lucid.selectWalletFromExtension(walletName);
+    await connectWallet(this.lucid, walletName);
+  }
+
+  // Script address holding one UTxO per vesting stream
+  configureStreams(streamAddress: Address, streamValidator: SpendingValidator): void {
+    this.streamAddress = streamAddress;
+    this.streamValidator = streamValidator;
+  }
+
+  // Script address holding one claim pool UTxO per pool and reward epoch
+  configureLpRewards(lpRewardAddress: Address, lpRewardValidator: SpendingValidator): void {
+    this.lpRewardAddress = lpRewardAddress;
+    this.lpRewardValidator = lpRewardValidator;
+  }
+
+  // Require M-of-N admin signatures for emergency withdrawals and config updates
+  setAdminMultisig(adminMultisig: AdminMultisigCoordinator | null): void {
+    this.adminMultisig = adminMultisig;
   }
 
   // Get treasury state
@@ -192,7 +379,7 @@ export class PuckSwapTreasuryV4 {
         throw new Error("Treasury UTxO missing datum");
       }
 
-      return await this.parseTreasuryDatum(treasuryUTxO.datum);
+      return parseTreasuryDatum(treasuryUTxO.datum);
     } catch (error) {
       console.error("Error fetching treasury state:", error);
       return null;
@@ -217,7 +404,7 @@ export class PuckSwapTreasuryV4 {
       // Build revenue collection transaction
       const tx = await this.buildRevenueCollectionTx(params, treasuryState);
       
-      const signedTx = await tx.sign().complete();
+      const signedTx = await tx.sign.withWallet().complete();
       const txHash = await signedTx.submit();
 
       return txHash;
@@ -253,15 +440,10 @@ export class PuckSwapTreasuryV4 {
       // Check daily distribution limit
       await this.validateDailyDistributionLimit(treasuryState, totalDistribution);
 
-      // Validate governance approval if required
-      if (params.governanceProposalId) {
-        await this.validateGovernanceApproval(params.governanceProposalId, totalDistribution);
-      }
-
       // Build distribution transaction
       const tx = await this.buildDistributionTx(params, treasuryState, totalDistribution);
       
-      const signedTx = await tx.sign().complete();
+      const signedTx = await tx.sign.withWallet().complete();
       const txHash = await signedTx.submit();
 
       return txHash;
@@ -300,7 +482,7 @@ export class PuckSwapTreasuryV4 {
       // Build auto-distribution transaction
       const tx = await this.buildAutoDistributionTx(targets, treasuryState, distributionAmount);
       
-      const signedTx = await tx.sign().complete();
+      const signedTx = await tx.sign.withWallet().complete();
       const txHash = await signedTx.submit();
 
       return txHash;
@@ -318,7 +500,11 @@ export class PuckSwapTreasuryV4 {
         throw new Error("Treasury system not found");
       }
 
-      const userAddress = await this.lucid.wallet.address();
+      if (this.adminMultisig) {
+        throw new Error("Treasury admin multisig is enabled; use proposeTreasuryConfigUpdate");
+      }
+
+      const userAddress = await this.lucid.wallet().address();
       if (!treasuryState.adminAddresses.includes(userAddress)) {
         throw new Error("Only admin can update treasury configuration");
       }
@@ -329,7 +515,7 @@ export class PuckSwapTreasuryV4 {
       // Build configuration update transaction
       const tx = await this.buildConfigUpdateTx(config, treasuryState);
       
-      const signedTx = await tx.sign().complete();
+      const signedTx = await tx.sign.withWallet().complete();
       const txHash = await signedTx.submit();
 
       return txHash;
@@ -347,7 +533,7 @@ export class PuckSwapTreasuryV4 {
         throw new Error("Treasury system not found");
       }
 
-      const userAddress = await this.lucid.wallet.address();
+      const userAddress = await this.lucid.wallet().address();
       if (!treasuryState.adminAddresses.includes(userAddress)) {
         throw new Error("Only admin can add supported assets");
       }
@@ -364,7 +550,7 @@ export class PuckSwapTreasuryV4 {
       // Build add asset transaction
       const tx = await this.buildAddAssetTx(tokenPolicy, tokenName, treasuryState);
       
-      const signedTx = await tx.sign().complete();
+      const signedTx = await tx.sign.withWallet().complete();
       const txHash = await signedTx.submit();
 
       return txHash;
@@ -388,7 +574,11 @@ export class PuckSwapTreasuryV4 {
         throw new Error("Treasury system not found");
       }
 
-      const userAddress = await this.lucid.wallet.address();
+      if (this.adminMultisig) {
+        throw new Error("Treasury admin multisig is enabled; use proposeEmergencyWithdraw");
+      }
+
+      const userAddress = await this.lucid.wallet().address();
       if (userAddress !== treasuryState.emergencyAdmin) {
         throw new Error("Only emergency admin can perform emergency withdrawal");
       }
@@ -407,7 +597,7 @@ export class PuckSwapTreasuryV4 {
         treasuryState
       );
       
-      const signedTx = await tx.sign().complete();
+      const signedTx = await tx.sign.withWallet().complete();
       const txHash = await signedTx.submit();
 
       return txHash;
@@ -417,6 +607,411 @@ export class PuckSwapTreasuryV4 {
     }
   }
 
+  /**
+   * Build an emergency withdrawal that needs M-of-N admin signatures
+   * The connected admin signs immediately; other admins sign with signAdminTx
+   * @param coSigners - Admin addresses to require besides the proposer
+   */
+  async proposeEmergencyWithdraw(
+    recipient: Address,
+    amount: bigint,
+    tokenPolicy: PolicyId,
+    tokenName: string,
+    reason: string,
+    coSigners: Address[] = []
+  ): Promise<PendingAdminTx> {
+    try {
+      const treasuryState = await this.getTreasuryState();
+      if (!treasuryState) {
+        throw new Error("Treasury system not found");
+      }
+
+      if (!reason || reason.length === 0) {
+        throw new Error("Emergency reason is required");
+      }
+
+      const admins = [treasuryState.emergencyAdmin, ...treasuryState.adminAddresses];
+      const signers = await this.selectAdminSigners(admins, coSigners);
+      const tx = await this.buildEmergencyWithdrawTx(recipient, amount, tokenPolicy, tokenName, reason, treasuryState, signers);
+
+      return await this.proposeAdminTx(
+        'TreasuryEmergencyWithdraw',
+        `Emergency withdraw ${amount} ${tokenPolicy === "" ? "lovelace" : `${tokenPolicy}${tokenName}`} to ${recipient}: ${reason}`,
+        tx,
+        admins,
+        signers
+      );
+    } catch (error) {
+      console.error("Error proposing emergency withdrawal:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Build a treasury configuration update that needs M-of-N admin signatures
+   * @param coSigners - Admin addresses to require besides the proposer
+   */
+  async proposeTreasuryConfigUpdate(config: TreasuryConfigUpdate, coSigners: Address[] = []): Promise<PendingAdminTx> {
+    try {
+      const treasuryState = await this.getTreasuryState();
+      if (!treasuryState) {
+        throw new Error("Treasury system not found");
+      }
+
+      this.validateTreasuryConfig(config);
+
+      const signers = await this.selectAdminSigners(treasuryState.adminAddresses, coSigners);
+      const tx = await this.buildConfigUpdateTx(config, treasuryState, signers);
+
+      return await this.proposeAdminTx(
+        'TreasuryConfigUpdate',
+        `Update treasury config: ${Object.keys(config).join(", ")}`,
+        tx,
+        treasuryState.adminAddresses,
+        signers
+      );
+    } catch (error) {
+      console.error("Error proposing treasury config update:", error);
+      throw error;
+    }
+  }
+
+  // Add the connected admin's witness to a pending admin transaction
+  async signAdminTx(txHash: TxHash): Promise<PendingAdminTx> {
+    try {
+      const adminMultisig = this.requireAdminMultisig();
+      const pending = await adminMultisig.getPending(txHash);
+      const witness = await this.lucid.fromTx(pending.txCbor).partialSign.withWallet();
+      return await adminMultisig.addWitness(txHash, witness);
+    } catch (error) {
+      console.error("Error signing admin transaction:", error);
+      throw error;
+    }
+  }
+
+  // Assemble collected admin witnesses and submit
+  async submitAdminTx(txHash: TxHash): Promise<AdminSignatureRecord> {
+    try {
+      return await this.requireAdminMultisig().submit(txHash, async (txCbor, witnesses) => {
+        const signedTx = await this.lucid.fromTx(txCbor).assemble(witnesses).complete();
+        return signedTx.submit();
+      });
+    } catch (error) {
+      console.error("Error submitting admin transaction:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Treasury leg of a governance execution transaction
+   * Spends the treasury UTxO alongside the governance UTxO and pays exactly the
+   * amounts the proposal's TreasuryPayout actions authorize
+   */
+  async addGovernanceExecution(tx: TxBuilder, execution: GovernanceExecution): Promise<TxBuilder> {
+    const { proposal, result } = execution;
+
+    const treasuryState = await this.getTreasuryState();
+    if (!treasuryState) {
+      throw new Error("Treasury system not found");
+    }
+
+    if (treasuryState.paused) {
+      throw new Error("Treasury system is paused");
+    }
+
+    // Proposal must be executing now
+    const currentSlot = this.lucid.currentSlot() || 0;
+    if (getTimelockStatus(proposal, currentSlot) !== 'Ready') {
+      throw new Error(`Proposal ${proposal.proposalId} is not ready for execution`);
+    }
+
+    const authorized = getAuthorizedPayouts(proposal.actions);
+    const lovelaceTotal = BigInt(authorized.lovelace || 0n);
+    if (lovelaceTotal > treasuryState.maxSingleDistribution) {
+      throw new Error(`Distribution amount exceeds maximum: ${lovelaceTotal} > ${treasuryState.maxSingleDistribution}`);
+    }
+
+    // Find treasury UTxO
+    const treasuryUtxos = await this.lucid.utxosAt(this.treasuryAddress);
+    if (treasuryUtxos.length === 0) {
+      throw new Error("No treasury UTxO found");
+    }
+    const treasuryUtxo = treasuryUtxos[0];
+
+    // Streams are funded from and cancelled back into the same treasury output
+    let txBuilder = tx;
+    const streamFunding: Assets = {};
+    if (result.streamCreations.length > 0 || result.streamCancellations.length > 0) {
+      const { validator } = this.requireStreamConfig();
+
+      result.streamCreations.forEach((params, index) => {
+        const stream = this.buildStream(params, treasuryUtxo, index, proposal.proposalId);
+        const output = this.streamOutput(stream);
+        txBuilder = txBuilder.pay.ToContract(output.address, { kind: "inline", value: output.datum }, output.assets);
+        streamFunding[stream.unit] = BigInt(streamFunding[stream.unit] || 0n) + stream.totalAmount;
+        streamFunding.lovelace = BigInt(streamFunding.lovelace || 0n) + STREAM_CONSTANTS.STREAM_MIN_ADA;
+      });
+
+      for (const streamId of result.streamCancellations) {
+        const { utxo, stream } = await this.findStream(streamId);
+        const { toRecipient, toTreasury } = calculateStreamCancellation(stream, currentSlot);
+
+        txBuilder = txBuilder
+          .collectFrom([utxo], Data.to({ CancelStream: { proposal_id: BigInt(proposal.proposalId) } }, StreamRedeemer))
+          .attach.SpendingValidator(validator);
+        if (toRecipient > 0n) {
+          txBuilder = txBuilder.pay.ToAddress(this.streamRecipientAddress(stream), { [stream.unit]: toRecipient });
+        }
+
+        // Unvested funds and the stream's min ADA go back to the treasury
+        streamFunding[stream.unit] = BigInt(streamFunding[stream.unit] || 0n) - toTreasury;
+        streamFunding.lovelace = BigInt(streamFunding.lovelace || 0n) - STREAM_CONSTANTS.STREAM_MIN_ADA;
+      }
+    }
+
+    // Treasury output keeps whatever the stream legs and payouts don't take
+    const treasuryOutputAssets: Assets = { ...treasuryUtxo.assets };
+    const outflows: Assets = { ...streamFunding };
+    for (const payout of result.payouts) {
+      for (const [unit, amount] of Object.entries(payout.assets)) {
+        outflows[unit] = BigInt(outflows[unit] || 0n) + BigInt(amount);
+      }
+    }
+    for (const [unit, amount] of Object.entries(outflows)) {
+      const remaining = BigInt(treasuryOutputAssets[unit] || 0n) - BigInt(amount);
+      if (remaining < 0n) {
+        throw new Error(`Insufficient treasury balance for ${unit}: short by ${-remaining}`);
+      }
+      if (remaining === 0n) {
+        delete treasuryOutputAssets[unit];
+      } else {
+        treasuryOutputAssets[unit] = remaining;
+      }
+    }
+
+    // Treasury input minus treasury output, net of stream funding, must be exactly what the proposal authorizes
+    const units = new Set([...Object.keys(treasuryUtxo.assets), ...Object.keys(treasuryOutputAssets), ...Object.keys(authorized)]);
+    for (const unit of units) {
+      const paidOut = BigInt(treasuryUtxo.assets[unit] || 0n) - BigInt(treasuryOutputAssets[unit] || 0n) - BigInt(streamFunding[unit] || 0n);
+      if (paidOut !== BigInt(authorized[unit] || 0n)) {
+        throw new Error(`Treasury pays out ${paidOut} ${unit} but proposal ${proposal.proposalId} authorizes ${authorized[unit] || 0n}`);
+      }
+    }
+
+    // Record each payout against the proposal
+    const distributionRecords: DistributionRecord[] = result.payouts.flatMap(payout =>
+      Object.entries(payout.assets).map(([unit, amount]) => ({
+        target: { type: 'CommunityGrants' as const, recipient: payout.recipient, amount: BigInt(amount), purpose: proposal.title },
+        tokenPolicy: unit === "lovelace" ? "" : unit.slice(0, 56),
+        tokenName: unit === "lovelace" ? "" : unit.slice(56),
+        totalAmount: BigInt(amount),
+        distributedAtSlot: currentSlot,
+        transactionHash: "",
+        governanceProposalId: proposal.proposalId
+      }))
+    );
+
+    const updatedState: TreasuryDatum = {
+      ...treasuryState,
+      totalDistributed: treasuryState.totalDistributed + lovelaceTotal,
+      distributionRecords: [...treasuryState.distributionRecords, ...distributionRecords],
+      lastDistributionSlot: currentSlot
+    };
+
+    // Serialize data
+    const datumData = serializeTreasuryDatum(updatedState);
+    const redeemer = Data.to({
+      GovernancePayout: { proposal_id: BigInt(proposal.proposalId) }
+    }, TreasuryRedeemer);
+
+    txBuilder = txBuilder
+      .collectFrom([treasuryUtxo], redeemer)
+      .pay.ToContract(this.treasuryAddress, { kind: "inline", value: datumData }, treasuryOutputAssets)
+      .attach.SpendingValidator(this.treasuryValidator);
+
+    for (const payout of result.payouts) {
+      txBuilder = txBuilder.pay.ToAddress(payout.recipient, payout.assets);
+    }
+
+    return txBuilder;
+  }
+
+  // Create a vesting stream from treasury funds (admin only, within distribution limits)
+  async createStream(params: CreateStreamParams): Promise<TxHash> {
+    try {
+      const treasuryState = await this.getTreasuryState();
+      if (!treasuryState) {
+        throw new Error("Treasury system not found");
+      }
+
+      if (treasuryState.paused) {
+        throw new Error("Treasury system is paused");
+      }
+
+      const userAddress = await this.lucid.wallet().address();
+      if (!treasuryState.adminAddresses.includes(userAddress)) {
+        throw new Error("Only admin can create streams; use a CreateTreasuryStream proposal otherwise");
+      }
+
+      const unit = params.unit || "lovelace";
+      if (unit === "lovelace") {
+        if (params.totalAmount > treasuryState.maxSingleDistribution) {
+          throw new Error(`Stream amount exceeds maximum: ${params.totalAmount} > ${treasuryState.maxSingleDistribution}`);
+        }
+        await this.validateDailyDistributionLimit(treasuryState, params.totalAmount);
+      }
+
+      // Build stream creation transaction
+      const tx = await this.buildStreamCreationTx(params, treasuryState);
+      
+      const signedTx = await tx.sign.withWallet().complete();
+      const txHash = await signedTx.submit();
+
+      return txHash;
+    } catch (error) {
+      console.error("Error creating stream:", error);
+      throw error;
+    }
+  }
+
+  // Claim the unlocked portion of a stream (recipient only)
+  async claimStream(streamId: string): Promise<TxHash> {
+    try {
+      const { validator } = this.requireStreamConfig();
+      const { utxo, stream } = await this.findStream(streamId);
+
+      const recipientAddress = await this.lucid.wallet().address();
+      const { paymentCredential } = getAddressDetails(recipientAddress);
+      if (paymentCredential?.hash !== stream.recipientKeyHash) {
+        throw new Error("Only the stream recipient can claim");
+      }
+
+      const currentSlot = this.lucid.currentSlot() || 0;
+      const claimable = calculateClaimableAmount(stream, currentSlot);
+      if (claimable <= 0n) {
+        throw new Error(`Nothing to claim before slot ${Math.max(stream.cliffSlot, currentSlot + 1)}`);
+      }
+
+      const updatedStream: VestingStream = { ...stream, claimedAmount: stream.claimedAmount + claimable };
+
+      let txBuilder: TxBuilder = this.lucid.newTx()
+        .collectFrom([utxo], Data.to({ ClaimStream: { amount: claimable } }, StreamRedeemer))
+        .attach.SpendingValidator(validator)
+        .addSignerKey(stream.recipientKeyHash)
+        .validFrom(slotToUnixTime(getLucidNetwork(this.lucid), currentSlot));
+
+      if (updatedStream.claimedAmount < updatedStream.totalAmount) {
+        // Re-lock the rest with the updated claimed amount
+        const output = this.streamOutput(updatedStream);
+        txBuilder = txBuilder
+          .pay.ToContract(output.address, { kind: "inline", value: output.datum }, output.assets)
+          .pay.ToAddress(recipientAddress, { [stream.unit]: claimable });
+      } else {
+        // Final claim closes the stream and releases its min ADA
+        txBuilder = txBuilder.pay.ToAddress(recipientAddress, utxo.assets);
+      }
+
+      const tx = await txBuilder
+        .validTo(Date.now() + 1200000) // 20 minute deadline
+        .complete();
+
+      const signedTx = await tx.sign.withWallet().complete();
+      const txHash = await signedTx.submit();
+
+      return txHash;
+    } catch (error) {
+      console.error("Error claiming stream:", error);
+      throw error;
+    }
+  }
+
+  // Get all open streams, optionally for one recipient address
+  async getStreams(recipient?: Address): Promise<StreamSummary[]> {
+    try {
+      const { address } = this.requireStreamConfig();
+      const recipientKeyHash = recipient
+        ? getAddressDetails(recipient).paymentCredential?.hash
+        : undefined;
+
+      const currentSlot = this.lucid.currentSlot() || 0;
+      const utxos = await this.lucid.utxosAt(address);
+      return utxos
+        .map(utxo => (utxo.datum ? parseStreamDatum(utxo.datum) : null))
+        .filter((stream): stream is VestingStream => stream !== null)
+        .filter(stream => !recipientKeyHash || stream.recipientKeyHash === recipientKeyHash)
+        .map(stream => summarizeStream(stream, currentSlot));
+    } catch (error) {
+      console.error("Error fetching streams:", error);
+      return [];
+    }
+  }
+
+  // Get one stream's vesting state
+  async getStream(streamId: string): Promise<StreamSummary | null> {
+    try {
+      const { stream } = await this.findStream(streamId);
+      return summarizeStream(stream, this.lucid.currentSlot() || 0);
+    } catch (error) {
+      console.error("Error fetching stream:", error);
+      return null;
+    }
+  }
+
+  // Claim an LP reward entitlement with its Merkle proof (any wallet may submit; funds go to the provider)
+  async claimLpReward(claim: LpRewardProof, poolId: string, epoch: number): Promise<TxHash> {
+    try {
+      const { validator } = this.requireLpRewardConfig();
+      const { utxo, root } = await this.findLpRewardRoot(poolId, epoch);
+      const { entitlement, proof } = claim;
+
+      const leaf = hashEntitlementLeaf(epoch, poolId, entitlement);
+      if (!verifyMerkleProof(leaf, proof, root.merkleRoot)) {
+        throw new Error(`Invalid reward proof for ${entitlement.provider} in ${poolId} epoch ${epoch}`);
+      }
+
+      const updatedRoot = applyLpRewardClaim(root, entitlement.index, entitlement.amount);
+      const redeemer = Data.to({
+        index: BigInt(entitlement.index),
+        amount: entitlement.amount,
+        proof
+      }, LpRewardRedeemer);
+
+      const tx = await this.lucid.newTx()
+        .collectFrom([utxo], redeemer)
+        .attach.SpendingValidator(validator)
+        .pay.ToContract(this.lpRewardAddress!, { kind: "inline", value: serializeLpRewardRoot(updatedRoot) }, {
+          ...utxo.assets,
+          lovelace: (utxo.assets.lovelace || 0n) - entitlement.amount
+        })
+        .pay.ToAddress(entitlement.provider, { lovelace: entitlement.amount })
+        .validTo(Date.now() + 1200000) // 20 minute deadline
+        .complete();
+
+      const signedTx = await tx.sign.withWallet().complete();
+      const txHash = await signedTx.submit();
+
+      return txHash;
+    } catch (error) {
+      console.error("Error claiming LP reward:", error);
+      throw error;
+    }
+  }
+
+  // Get published LP reward roots, optionally for one pool
+  async getLpRewardRoots(poolId?: string): Promise<LpRewardRoot[]> {
+    try {
+      const { address } = this.requireLpRewardConfig();
+      const utxos = await this.lucid.utxosAt(address);
+      return utxos
+        .map(utxo => (utxo.datum ? parseLpRewardRoot(utxo.datum) : null))
+        .filter((root): root is LpRewardRoot => root !== null)
+        .filter(root => !poolId || root.poolId === poolId);
+    } catch (error) {
+      console.error("Error fetching LP reward roots:", error);
+      return [];
+    }
+  }
+
   // Get treasury balance
   async getTreasuryBalance(): Promise<Assets> {
     try {
@@ -472,44 +1067,6 @@ export class PuckSwapTreasuryV4 {
   }
 
   // Private helper methods
-  private async parseTreasuryDatum(datum: string): Promise<TreasuryDatum> {
-    // Parse CIP-68 compliant treasury datum
-    const parsedDatum = Data.from(datum);
-    
-    // This would need to match the exact Aiken datum structure
-    return {
-      metadata: {
-        policyId: "placeholder_policy_id",
-        assetName: "placeholder_asset_name",
-        version: 1
-      },
-      version: 1,
-      totalRevenueCollected: 0n,
-      totalDistributed: 0n,
-      currentBalance: {},
-      revenueRecords: [],
-      distributionRecords: [],
-      lpRewardPercentage: 4000, // 40%
-      developmentPercentage: 2000, // 20%
-      governancePercentage: 1500, // 15%
-      protocolPercentage: 1500, // 15%
-      communityPercentage: 1000, // 10%
-      governanceAddress: this.governanceAddress,
-      autoDistributionEnabled: true,
-      distributionThreshold: 1000000000n, // 1000 ADA
-      adminAddresses: [],
-      emergencyAdmin: "placeholder_emergency_admin",
-      paused: false,
-      maxSingleDistribution: 10000000000n, // 10,000 ADA
-      dailyDistributionLimit: 50000000000n, // 50,000 ADA
-      lastDistributionSlot: 0,
-      supportedAssets: [
-        { policy: "", name: "" }, // ADA
-        { policy: "placeholder_pucky_policy", name: "PUCKY" }
-      ]
-    };
-  }
-
   private validateRevenueParams(params: RevenueCollectionParams, treasuryState: TreasuryDatum): void {
     if (params.amount <= 0) {
       throw new Error("Revenue amount must be positive");
@@ -571,6 +1128,16 @@ export class PuckSwapTreasuryV4 {
   private validateDistributionTarget(target: DistributionTarget): void {
     switch (target.type) {
       case 'LiquidityProviders':
+        if (target.merkleRoot !== undefined) {
+          if (!target.poolId || target.rewardEpoch === undefined || !target.amount || target.amount <= 0) {
+            throw new Error("LP reward root requires pool ID, reward epoch, and amount");
+          }
+          if (!target.entitlementCount || target.entitlementCount > LP_REWARD_CONSTANTS.MAX_ENTITLEMENTS) {
+            throw new Error(`LP reward root needs between 1 and ${LP_REWARD_CONSTANTS.MAX_ENTITLEMENTS} entitlements`);
+          }
+          this.requireLpRewardConfig();
+          break;
+        }
         if (!target.poolId || !target.lpAddresses || !target.amounts || 
             target.lpAddresses.length !== target.amounts.length) {
           throw new Error("LP distribution requires valid pool ID, addresses, and amounts");
@@ -622,7 +1189,9 @@ export class PuckSwapTreasuryV4 {
     for (const target of targets) {
       switch (target.type) {
         case 'LiquidityProviders':
-          if (target.amounts) {
+          if (target.merkleRoot !== undefined && target.amount) {
+            total += target.amount;
+          } else if (target.amounts) {
             total += target.amounts.reduce((sum, amount) => sum + amount, 0n);
           }
           break;
@@ -693,14 +1262,133 @@ export class PuckSwapTreasuryV4 {
     }
   }
 
-  private async validateGovernanceApproval(proposalId: number, amount: bigint): Promise<void> {
-    // Implementation would validate governance proposal approval
-    // This would integrate with the governance system
-    console.log(`Validating governance approval for proposal ${proposalId} with amount ${amount}`);
+  private requireStreamConfig(): { address: Address; validator: SpendingValidator } {
+    if (!this.streamAddress || !this.streamValidator) {
+      throw new Error("Treasury streams are not configured");
+    }
+    return { address: this.streamAddress, validator: this.streamValidator };
+  }
+
+  private requireAdminMultisig(): AdminMultisigCoordinator {
+    if (!this.adminMultisig) {
+      throw new Error("Treasury admin multisig is not configured");
+    }
+    return this.adminMultisig;
+  }
+
+  private adminKeyHash(address: Address): string {
+    const { paymentCredential } = getAddressDetails(address);
+    if (!paymentCredential || paymentCredential.type !== "Key") {
+      throw new Error(`Admin ${address} must be a key-based address`);
+    }
+    return paymentCredential.hash;
+  }
+
+  // Required signers for an admin transaction, starting with the connected wallet
+  private async selectAdminSigners(admins: Address[], coSigners: Address[]): Promise<string[]> {
+    const policy = this.requireAdminMultisig().createPolicy(admins.map(admin => this.adminKeyHash(admin)));
+    const proposer = this.adminKeyHash(await this.lucid.wallet().address());
+    return selectAdminSigners(policy, proposer, coSigners.map(signer => this.adminKeyHash(signer)));
+  }
+
+  // Register the built transaction and add the proposer's witness
+  private async proposeAdminTx(
+    action: AdminAction,
+    description: string,
+    tx: TxSignBuilder,
+    admins: Address[],
+    signers: string[]
+  ): Promise<PendingAdminTx> {
+    const adminMultisig = this.requireAdminMultisig();
+    const txHash = tx.toHash();
+
+    await adminMultisig.propose({
+      action,
+      description,
+      txHash,
+      txCbor: tx.toCBOR(),
+      requiredSigners: signers,
+      policy: adminMultisig.createPolicy(admins.map(admin => this.adminKeyHash(admin)))
+    });
+
+    return adminMultisig.addWitness(txHash, await tx.partialSign.withWallet());
+  }
+
+  private requireLpRewardConfig(): { address: Address; validator: SpendingValidator } {
+    if (!this.lpRewardAddress || !this.lpRewardValidator) {
+      throw new Error("LP reward claims are not configured");
+    }
+    return { address: this.lpRewardAddress, validator: this.lpRewardValidator };
+  }
+
+  private async findLpRewardRoot(poolId: string, epoch: number): Promise<{ utxo: UTxO; root: LpRewardRoot }> {
+    const { address } = this.requireLpRewardConfig();
+    const utxos = await this.lucid.utxosAt(address);
+
+    for (const utxo of utxos) {
+      const root = utxo.datum ? parseLpRewardRoot(utxo.datum) : null;
+      if (root?.poolId === poolId && root.epoch === epoch) {
+        return { utxo, root };
+      }
+    }
+
+    throw new Error(`No LP reward root for ${poolId} epoch ${epoch}`);
+  }
+
+  private async findStream(streamId: string): Promise<{ utxo: UTxO; stream: VestingStream }> {
+    const { address } = this.requireStreamConfig();
+    const utxos = await this.lucid.utxosAt(address);
+
+    for (const utxo of utxos) {
+      const stream = utxo.datum ? parseStreamDatum(utxo.datum) : null;
+      if (stream?.streamId === streamId) {
+        return { utxo, stream };
+      }
+    }
+
+    throw new Error(`Stream ${streamId} not found`);
+  }
+
+  private buildStream(params: CreateStreamParams, fundingUtxo: UTxO, index: number, proposalId: number): VestingStream {
+    const cliffSlot = params.cliffSlot ?? params.startSlot;
+    validateStreamSchedule(params.totalAmount, params.startSlot, cliffSlot, params.endSlot);
+
+    const { paymentCredential } = getAddressDetails(params.recipient);
+    if (!paymentCredential || paymentCredential.type !== "Key") {
+      throw new Error("Stream recipient must be a key-based address");
+    }
+
+    return {
+      streamId: deriveStreamId(fundingUtxo.txHash, fundingUtxo.outputIndex, index),
+      recipientKeyHash: paymentCredential.hash,
+      unit: params.unit || "lovelace",
+      totalAmount: params.totalAmount,
+      claimedAmount: 0n,
+      startSlot: params.startSlot,
+      cliffSlot,
+      endSlot: params.endSlot,
+      governanceProposalId: proposalId
+    };
+  }
+
+  // Stream output holds the unclaimed amount plus min ADA
+  private streamOutput(stream: VestingStream): { address: Address; datum: Datum; assets: Assets } {
+    const { address } = this.requireStreamConfig();
+    const locked = stream.totalAmount - stream.claimedAmount;
+    const assets: Assets = stream.unit === "lovelace"
+      ? { lovelace: locked + STREAM_CONSTANTS.STREAM_MIN_ADA }
+      : { lovelace: STREAM_CONSTANTS.STREAM_MIN_ADA, [stream.unit]: locked };
+
+    return { address, datum: serializeStreamDatum(stream), assets };
+  }
+
+  // Cancellation payouts go to the recipient key's enterprise address
+  private streamRecipientAddress(stream: VestingStream): Address {
+    return credentialToAddress(getLucidNetwork(this.lucid), { type: "Key", hash: stream.recipientKeyHash });
   }
 
   // Transaction building methods
-  private async buildRevenueCollectionTx(params: RevenueCollectionParams, treasuryState: TreasuryDatum): Promise<TxComplete> {
+  private async buildRevenueCollectionTx(params: RevenueCollectionParams, treasuryState: TreasuryDatum): Promise<TxSignBuilder> {
     // Find treasury UTxO
     const treasuryUtxos = await this.lucid.utxosAt(this.treasuryAddress);
     if (treasuryUtxos.length === 0) {
@@ -721,7 +1409,7 @@ export class PuckSwapTreasuryV4 {
     };
 
     // Serialize data
-    const datumData = Data.to(updatedState, TreasuryDatum);
+    const datumData = serializeTreasuryDatum(updatedState);
     const redeemer = Data.to({
       CollectRevenue: {
         source_id: params.source_id,
@@ -738,15 +1426,15 @@ export class PuckSwapTreasuryV4 {
     // Build transaction
     const tx = await this.lucid.newTx()
       .collectFrom([treasuryUtxo], redeemer)
-      .payToContract(this.treasuryAddress, { inline: datumData }, treasuryOutputAssets)
-      .attachSpendingValidator(this.treasuryValidator)
+      .pay.ToContract(this.treasuryAddress, { kind: "inline", value: datumData }, treasuryOutputAssets)
+      .attach.SpendingValidator(this.treasuryValidator)
       .validTo(Date.now() + 1200000) // 20 minute deadline
       .complete();
 
     return tx;
   }
 
-  private async buildDistributionTx(params: DistributionParams, treasuryState: TreasuryDatum, totalAmount: bigint): Promise<TxComplete> {
+  private async buildDistributionTx(params: DistributionParams, treasuryState: TreasuryDatum, totalAmount: bigint): Promise<TxSignBuilder> {
     // Find treasury UTxO
     const treasuryUtxos = await this.lucid.utxosAt(this.treasuryAddress);
     if (treasuryUtxos.length === 0) {
@@ -762,10 +1450,9 @@ export class PuckSwapTreasuryV4 {
     };
 
     // Serialize data
-    const datumData = Data.to(updatedState, TreasuryDatum);
+    const datumData = serializeTreasuryDatum(updatedState);
     const redeemer = Data.to({
       DistributeRevenue: {
-        targets: params.targets,
         total_amount: totalAmount
       }
     }, TreasuryRedeemer);
@@ -779,12 +1466,20 @@ export class PuckSwapTreasuryV4 {
     // Build transaction with distribution payments
     let txBuilder = this.lucid.newTx()
       .collectFrom([treasuryUtxo], redeemer)
-      .payToContract(this.treasuryAddress, { inline: datumData }, treasuryOutputAssets)
-      .attachSpendingValidator(this.treasuryValidator);
+      .pay.ToContract(this.treasuryAddress, { kind: "inline", value: datumData }, treasuryOutputAssets)
+      .attach.SpendingValidator(this.treasuryValidator);
 
     // Add payments to each target
     for (const target of params.targets) {
-      txBuilder = txBuilder.payToAddress(target.address, { lovelace: target.amount });
+      if (target.type === 'LiquidityProviders' && target.merkleRoot !== undefined) {
+        // Lock the epoch's LP rewards behind the entitlement root; LPs claim individually
+        const root = createLpRewardRoot(target.poolId!, target.rewardEpoch!, target.merkleRoot, target.amount!, target.entitlementCount!);
+        txBuilder = txBuilder.pay.ToContract(this.lpRewardAddress!, { kind: "inline", value: serializeLpRewardRoot(root) }, {
+          lovelace: target.amount! + LP_REWARD_CONSTANTS.CLAIM_POOL_MIN_ADA
+        });
+        continue;
+      }
+      txBuilder = txBuilder.pay.ToAddress(target.address, { lovelace: target.amount });
     }
 
     const tx = await txBuilder
@@ -794,7 +1489,7 @@ export class PuckSwapTreasuryV4 {
     return tx;
   }
 
-  private async buildAutoDistributionTx(targets: DistributionTarget[], treasuryState: TreasuryDatum, amount: bigint): Promise<TxComplete> {
+  private async buildAutoDistributionTx(targets: DistributionTarget[], treasuryState: TreasuryDatum, amount: bigint): Promise<TxSignBuilder> {
     // Find treasury UTxO
     const treasuryUtxos = await this.lucid.utxosAt(this.treasuryAddress);
     if (treasuryUtxos.length === 0) {
@@ -810,10 +1505,9 @@ export class PuckSwapTreasuryV4 {
     };
 
     // Serialize data
-    const datumData = Data.to(updatedState, TreasuryDatum);
+    const datumData = serializeTreasuryDatum(updatedState);
     const redeemer = Data.to({
       AutoDistribute: {
-        targets: targets,
         amount: amount
       }
     }, TreasuryRedeemer);
@@ -827,12 +1521,12 @@ export class PuckSwapTreasuryV4 {
     // Build transaction with auto-distribution
     let txBuilder = this.lucid.newTx()
       .collectFrom([treasuryUtxo], redeemer)
-      .payToContract(this.treasuryAddress, { inline: datumData }, treasuryOutputAssets)
-      .attachSpendingValidator(this.treasuryValidator);
+      .pay.ToContract(this.treasuryAddress, { kind: "inline", value: datumData }, treasuryOutputAssets)
+      .attach.SpendingValidator(this.treasuryValidator);
 
     // Add payments to each target
     for (const target of targets) {
-      txBuilder = txBuilder.payToAddress(target.address, { lovelace: target.amount });
+      txBuilder = txBuilder.pay.ToAddress(target.address, { lovelace: target.amount });
     }
 
     const tx = await txBuilder
@@ -842,7 +1536,11 @@ export class PuckSwapTreasuryV4 {
     return tx;
   }
 
-  private async buildConfigUpdateTx(config: TreasuryConfigUpdate, treasuryState: TreasuryDatum): Promise<TxComplete> {
+  private async buildConfigUpdateTx(
+    config: TreasuryConfigUpdate,
+    treasuryState: TreasuryDatum,
+    signerKeyHashes: string[] = []
+  ): Promise<TxSignBuilder> {
     // Find treasury UTxO
     const treasuryUtxos = await this.lucid.utxosAt(this.treasuryAddress);
     if (treasuryUtxos.length === 0) {
@@ -860,25 +1558,32 @@ export class PuckSwapTreasuryV4 {
     };
 
     // Serialize data
-    const datumData = Data.to(updatedState, TreasuryDatum);
+    const datumData = serializeTreasuryDatum(updatedState);
     const redeemer = Data.to({
       UpdateConfig: {
-        new_config: config
+        signer_count: BigInt(signerKeyHashes.length)
       }
     }, TreasuryRedeemer);
 
     // Build transaction
-    const tx = await this.lucid.newTx()
+    let txBuilder = this.lucid.newTx()
       .collectFrom([treasuryUtxo], redeemer)
-      .payToContract(this.treasuryAddress, { inline: datumData }, treasuryUtxo.assets)
-      .attachSpendingValidator(this.treasuryValidator)
+      .pay.ToContract(this.treasuryAddress, { kind: "inline", value: datumData }, treasuryUtxo.assets)
+      .attach.SpendingValidator(this.treasuryValidator);
+
+    // Multisig admins are listed as required signers
+    for (const keyHash of signerKeyHashes) {
+      txBuilder = txBuilder.addSignerKey(keyHash);
+    }
+
+    const tx = await txBuilder
       .validTo(Date.now() + 1200000) // 20 minute deadline
       .complete();
 
     return tx;
   }
 
-  private async buildAddAssetTx(tokenPolicy: PolicyId, tokenName: string, treasuryState: TreasuryDatum): Promise<TxComplete> {
+  private async buildAddAssetTx(tokenPolicy: PolicyId, tokenName: string, treasuryState: TreasuryDatum): Promise<TxSignBuilder> {
     // Find treasury UTxO
     const treasuryUtxos = await this.lucid.utxosAt(this.treasuryAddress);
     if (treasuryUtxos.length === 0) {
@@ -894,7 +1599,7 @@ export class PuckSwapTreasuryV4 {
     };
 
     // Serialize data
-    const datumData = Data.to(updatedState, TreasuryDatum);
+    const datumData = serializeTreasuryDatum(updatedState);
     const redeemer = Data.to({
       AddAsset: {
         token_policy: tokenPolicy,
@@ -905,8 +1610,57 @@ export class PuckSwapTreasuryV4 {
     // Build transaction
     const tx = await this.lucid.newTx()
       .collectFrom([treasuryUtxo], redeemer)
-      .payToContract(this.treasuryAddress, { inline: datumData }, treasuryUtxo.assets)
-      .attachSpendingValidator(this.treasuryValidator)
+      .pay.ToContract(this.treasuryAddress, { kind: "inline", value: datumData }, treasuryUtxo.assets)
+      .attach.SpendingValidator(this.treasuryValidator)
+      .validTo(Date.now() + 1200000) // 20 minute deadline
+      .complete();
+
+    return tx;
+  }
+
+  private async buildStreamCreationTx(params: CreateStreamParams, treasuryState: TreasuryDatum): Promise<TxSignBuilder> {
+    // Find treasury UTxO
+    const treasuryUtxos = await this.lucid.utxosAt(this.treasuryAddress);
+    if (treasuryUtxos.length === 0) {
+      throw new Error("No treasury UTxO found");
+    }
+    const treasuryUtxo = treasuryUtxos[0];
+
+    const stream = this.buildStream(params, treasuryUtxo, 0, STREAM_CONSTANTS.ADMIN_STREAM_PROPOSAL_ID);
+    const lovelaceOut = (stream.unit === "lovelace" ? stream.totalAmount : 0n) + STREAM_CONSTANTS.STREAM_MIN_ADA;
+
+    // Prepare assets - move the stream amount out of the treasury
+    const treasuryOutputAssets: Assets = {
+      ...treasuryUtxo.assets,
+      lovelace: BigInt(treasuryUtxo.assets.lovelace || 0n) - lovelaceOut
+    };
+    if (stream.unit !== "lovelace") {
+      treasuryOutputAssets[stream.unit] = BigInt(treasuryUtxo.assets[stream.unit] || 0n) - stream.totalAmount;
+    }
+    if (Object.values(treasuryOutputAssets).some(amount => BigInt(amount) < 0n)) {
+      throw new Error("Insufficient treasury balance for stream");
+    }
+
+    // Update treasury state
+    const updatedState: TreasuryDatum = {
+      ...treasuryState,
+      totalDistributed: treasuryState.totalDistributed + (stream.unit === "lovelace" ? stream.totalAmount : 0n),
+      lastDistributionSlot: this.lucid.currentSlot() || 0
+    };
+
+    // Serialize data
+    const datumData = serializeTreasuryDatum(updatedState);
+    const redeemer = Data.to({
+      CreateStream: { stream_id: fromText(stream.streamId), amount: stream.totalAmount }
+    }, TreasuryRedeemer);
+
+    // Build transaction
+    const streamOutput = this.streamOutput(stream);
+    const tx = await this.lucid.newTx()
+      .collectFrom([treasuryUtxo], redeemer)
+      .pay.ToContract(this.treasuryAddress, { kind: "inline", value: datumData }, treasuryOutputAssets)
+      .pay.ToContract(streamOutput.address, { kind: "inline", value: streamOutput.datum }, streamOutput.assets)
+      .attach.SpendingValidator(this.treasuryValidator)
       .validTo(Date.now() + 1200000) // 20 minute deadline
       .complete();
 
@@ -919,8 +1673,9 @@ export class PuckSwapTreasuryV4 {
     tokenPolicy: PolicyId,
     tokenName: string,
     reason: string,
-    treasuryState: TreasuryDatum
-  ): Promise<TxComplete> {
+    treasuryState: TreasuryDatum,
+    signerKeyHashes: string[] = []
+  ): Promise<TxSignBuilder> {
     // Find treasury UTxO
     const treasuryUtxos = await this.lucid.utxosAt(this.treasuryAddress);
     if (treasuryUtxos.length === 0) {
@@ -935,14 +1690,14 @@ export class PuckSwapTreasuryV4 {
     };
 
     // Serialize data
-    const datumData = Data.to(updatedState, TreasuryDatum);
+    const datumData = serializeTreasuryDatum(updatedState);
     const redeemer = Data.to({
       EmergencyWithdraw: {
-        recipient,
+        recipient: fromText(recipient),
         amount,
         token_policy: tokenPolicy,
         token_name: tokenName,
-        reason
+        reason: fromText(reason)
       }
     }, TreasuryRedeemer);
 
@@ -958,11 +1713,18 @@ export class PuckSwapTreasuryV4 {
     };
 
     // Build transaction
-    const tx = await this.lucid.newTx()
+    let txBuilder = this.lucid.newTx()
       .collectFrom([treasuryUtxo], redeemer)
-      .payToContract(this.treasuryAddress, { inline: datumData }, treasuryOutputAssets)
-      .payToAddress(recipient, withdrawalAssets)
-      .attachSpendingValidator(this.treasuryValidator)
+      .pay.ToContract(this.treasuryAddress, { kind: "inline", value: datumData }, treasuryOutputAssets)
+      .pay.ToAddress(recipient, withdrawalAssets)
+      .attach.SpendingValidator(this.treasuryValidator);
+
+    // Multisig admins are listed as required signers
+    for (const keyHash of signerKeyHashes) {
+      txBuilder = txBuilder.addSignerKey(keyHash);
+    }
+
+    const tx = await txBuilder
       .validTo(Date.now() + 1200000) // 20 minute deadline
       .complete();
 
@@ -195,31 +195,31 @@ export function loadContractAddresses(network?: string): DeploymentInfo {
   const contractAddresses: ContractAddresses = {
     validators: {
       swap: validateAddress(
-        deploymentData.addresses.puckswap_swap_validator || deploymentData.validators?.swap || deploymentData.addresses?.swap_validator,
+        deploymentData.addresses?.puckswap_swap_validator || deploymentData.validators?.swap || deploymentData.addresses?.swap_validator,
         'swap_validator'
       ),
       liquidityProvision: validateAddress(
-        deploymentData.addresses.puckswap_liquidity_provision_validator || deploymentData.validators?.liquidityProvision || deploymentData.addresses?.liquidity_provision_validator,
+        deploymentData.addresses?.puckswap_liquidity_provision_validator || deploymentData.validators?.liquidityProvision || deploymentData.addresses?.liquidity_provision_validator,
         'liquidity_provision_validator'
       ),
       withdrawal: validateOptionalAddress(
-        deploymentData.addresses.puckswap_withdrawal_validator || deploymentData.validators?.withdrawal || deploymentData.addresses?.withdrawal_validator,
+        deploymentData.addresses?.puckswap_withdrawal_validator || deploymentData.validators?.withdrawal || deploymentData.addresses?.withdrawal_validator,
         'withdrawal_validator'
       ),
       governance: validateOptionalAddress(
-        deploymentData.addresses.puckswap_governance_validator || deploymentData.validators?.governance || deploymentData.addresses?.governance_validator,
+        deploymentData.addresses?.puckswap_governance_validator || deploymentData.validators?.governance || deploymentData.addresses?.governance_validator,
         'governance_validator'
       ),
       staking: validateOptionalAddress(
-        deploymentData.addresses.puckswap_liquid_staking_validator || deploymentData.validators?.staking || deploymentData.addresses?.liquid_staking_validator,
+        deploymentData.addresses?.puckswap_liquid_staking_validator || deploymentData.validators?.staking || deploymentData.addresses?.liquid_staking_validator,
         'liquid_staking_validator'
       ),
       registry: validateOptionalAddress(
-        deploymentData.addresses.puckswap_pool_registry_validator || deploymentData.validators?.registry || deploymentData.addresses?.pool_registry_validator,
+        deploymentData.addresses?.puckswap_pool_registry_validator || deploymentData.validators?.registry || deploymentData.addresses?.pool_registry_validator,
         'pool_registry_validator'
       ),
       crossChainRouter: validateOptionalAddress(
-        deploymentData.addresses.puckswap_cross_chain_router_validator || deploymentData.validators?.crossChainRouter || deploymentData.addresses?.cross_chain_router_validator,
+        deploymentData.addresses?.puckswap_cross_chain_router_validator || deploymentData.validators?.crossChainRouter || deploymentData.addresses?.cross_chain_router_validator,
         'cross_chain_router_validator'
       ),
     },
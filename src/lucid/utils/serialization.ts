@@ -442,6 +442,58 @@ export class PuckSwapSerializer {
     }
   }
 
+  /**
+   * Type-preserving value serializer
+   * Each value is tagged so bigint, number, string and boolean fields decode
+   * back to the same JavaScript types; undefined object fields are dropped
+   */
+  static serializeTaggedValue(value: unknown): Data {
+    if (typeof value === 'bigint') {
+      return new Constr(0, [value]);
+    } else if (typeof value === 'number') {
+      return new Constr(1, [BigInt(value)]);
+    } else if (typeof value === 'string') {
+      return new Constr(2, [fromText(value)]);
+    } else if (typeof value === 'boolean') {
+      return new Constr(3, [value ? 1n : 0n]);
+    } else if (Array.isArray(value)) {
+      return new Constr(4, [value.map(v => this.serializeTaggedValue(v))]);
+    } else if (typeof value === 'object' && value !== null) {
+      const fields = Object.entries(value).filter(([, v]) => v !== undefined);
+      return new Constr(5, [new Map(fields.map(([k, v]) => [fromText(k), this.serializeTaggedValue(v)]))]);
+    }
+    throw new Error(`Unsupported value: ${String(value)}`);
+  }
+
+  /**
+   * Deserialize a value written by serializeTaggedValue
+   */
+  static deserializeTaggedValue(data: Data): unknown {
+    if (!(data instanceof Constr)) {
+      throw new Error("Invalid tagged value");
+    }
+
+    const [field] = data.fields;
+    switch (data.index) {
+      case 0:
+        return field as bigint;
+      case 1:
+        return Number(field as bigint);
+      case 2:
+        return toText(field as string);
+      case 3:
+        return field === 1n;
+      case 4:
+        return (field as Data[]).map(v => this.deserializeTaggedValue(v));
+      case 5:
+        return Object.fromEntries(
+          [...(field as Map<Data, Data>).entries()].map(([k, v]) => [toText(k as string), this.deserializeTaggedValue(v)])
+        );
+      default:
+        throw new Error(`Invalid tagged value index ${data.index}`);
+    }
+  }
+
   /**
    * Serialize StakingDatum to Plutus Data
    */
@@ -0,0 +1,251 @@
+/**
+ * PuckSwap - StableSwap Math
+ *
+ * Curve-style two-asset invariant for pegged pairs (pADA/ADA, wrapped
+ * stablecoins): A·n^n·Σx + D = A·D·n^n + D^(n+1) / (n^n·Πx) with n = 2.
+ * The amplification A flattens the curve around the peg; A → 0 approaches
+ * x·y=k and A → ∞ approaches a constant sum. All amounts are bigint and
+ * rounded in the pool's favour.
+ */
+
+import type { SwapCalculationResult } from "../swap";
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const STABLESWAP_CONSTANTS = {
+  N_COINS: 2n,
+  MIN_AMPLIFICATION: 1n,
+  MAX_AMPLIFICATION: 1_000_000n,
+  DEFAULT_AMPLIFICATION: 100n,
+  DEFAULT_FEE_BPS: 4n, // 0.04%, pegged pairs trade near 1:1
+  BPS_DENOMINATOR: 10_000n,
+  MAX_ITERATIONS: 255
+} as const;
+
+// =============================================================================
+// INVARIANT
+// =============================================================================
+
+export function validateAmplification(amplification: bigint): void {
+  if (amplification < STABLESWAP_CONSTANTS.MIN_AMPLIFICATION || amplification > STABLESWAP_CONSTANTS.MAX_AMPLIFICATION) {
+    throw new Error(
+      `Amplification ${amplification} outside ${STABLESWAP_CONSTANTS.MIN_AMPLIFICATION}-${STABLESWAP_CONSTANTS.MAX_AMPLIFICATION}`
+    );
+  }
+}
+
+/**
+ * Invariant D for two reserves, solved with Newton's method
+ * @param reserveA - First reserve
+ * @param reserveB - Second reserve
+ * @param amplification - Amplification coefficient A
+ */
+export function getStableInvariant(reserveA: bigint, reserveB: bigint, amplification: bigint): bigint {
+  validateAmplification(amplification);
+
+  const sum = reserveA + reserveB;
+  if (sum === 0n) {
+    return 0n;
+  }
+  if (reserveA <= 0n || reserveB <= 0n) {
+    throw new Error("StableSwap reserves must be positive");
+  }
+
+  const n = STABLESWAP_CONSTANTS.N_COINS;
+  const ann = amplification * n * n;
+  let d = sum;
+
+  for (let i = 0; i < STABLESWAP_CONSTANTS.MAX_ITERATIONS; i++) {
+    // D_P = D^(n+1) / (n^n · Πx)
+    let dP = d;
+    dP = (dP * d) / (reserveA * n);
+    dP = (dP * d) / (reserveB * n);
+
+    const previous = d;
+    d = ((ann * sum + dP * n) * d) / ((ann - 1n) * d + (n + 1n) * dP);
+
+    const delta = d > previous ? d - previous : previous - d;
+    if (delta <= 1n) {
+      return d;
+    }
+  }
+
+  throw new Error("StableSwap invariant did not converge");
+}
+
+/**
+ * Reserve of the other asset that keeps D constant for a new reserve
+ * @param newReserve - Reserve of the asset being changed
+ * @param invariant - Invariant D to preserve
+ * @param amplification - Amplification coefficient A
+ */
+export function getStableY(newReserve: bigint, invariant: bigint, amplification: bigint): bigint {
+  if (newReserve <= 0n) {
+    throw new Error("StableSwap reserves must be positive");
+  }
+
+  const n = STABLESWAP_CONSTANTS.N_COINS;
+  const ann = amplification * n * n;
+
+  // y^2 + (b - D)·y = c
+  const c = (((invariant * invariant) / (newReserve * n)) * invariant) / (ann * n);
+  const b = newReserve + invariant / ann;
+  let y = invariant;
+
+  for (let i = 0; i < STABLESWAP_CONSTANTS.MAX_ITERATIONS; i++) {
+    const previous = y;
+    y = (y * y + c) / (2n * y + b - invariant);
+
+    const delta = y > previous ? y - previous : previous - y;
+    if (delta <= 1n) {
+      return y;
+    }
+  }
+
+  throw new Error("StableSwap reserve did not converge");
+}
+
+/**
+ * Marginal price (output per input) at the current reserves, before fees
+ */
+export function getStableSpotPrice(reserveIn: bigint, reserveOut: bigint, amplification: bigint): number {
+  const d = Number(getStableInvariant(reserveIn, reserveOut, amplification));
+  const ann = Number(amplification * STABLESWAP_CONSTANTS.N_COINS * STABLESWAP_CONSTANTS.N_COINS);
+  const x = Number(reserveIn);
+  const y = Number(reserveOut);
+
+  // -dy/dx of the invariant, scaled by 4·x²·y²
+  const d3 = d * d * d;
+  const shared = 4 * ann * x * x * y * y;
+  return (shared + d3 * y) / (shared + d3 * x);
+}
+
+// =============================================================================
+// SWAP
+// =============================================================================
+
+/**
+ * Calculate swap output on the StableSwap curve
+ * @param adaReserve - Current ADA reserve
+ * @param tokenReserve - Current token reserve
+ * @param amountIn - Input amount
+ * @param swapInToken - True for token->ADA, false for ADA->token
+ * @param amplification - Amplification coefficient A
+ * @param feeBps - Pool fee in basis points, taken from the input
+ * @returns Swap calculation result
+ */
+export function calculateStableSwapOutput(
+  adaReserve: bigint,
+  tokenReserve: bigint,
+  amountIn: bigint,
+  swapInToken: boolean,
+  amplification: bigint,
+  feeBps: bigint = STABLESWAP_CONSTANTS.DEFAULT_FEE_BPS
+): SwapCalculationResult {
+  if (adaReserve <= 0n || tokenReserve <= 0n || amountIn <= 0n) {
+    throw new Error("Invalid swap parameters: reserves and amount must be positive");
+  }
+
+  const [reserveIn, reserveOut] = swapInToken ? [tokenReserve, adaReserve] : [adaReserve, tokenReserve];
+
+  const feeAmount = (amountIn * feeBps + STABLESWAP_CONSTANTS.BPS_DENOMINATOR - 1n) / STABLESWAP_CONSTANTS.BPS_DENOMINATOR;
+  const invariant = getStableInvariant(reserveIn, reserveOut, amplification);
+  const newReserveOut = getStableY(reserveIn + amountIn - feeAmount, invariant, amplification);
+
+  // Round the payout down by one unit to absorb Newton error
+  const outputAmount = reserveOut - newReserveOut - 1n;
+  if (outputAmount <= 0n) {
+    throw new Error("Swap amount too small");
+  }
+  if (outputAmount >= reserveOut) {
+    throw new Error("Insufficient liquidity");
+  }
+
+  const newReserveIn = reserveIn + amountIn;
+  const newReserveOutAfter = reserveOut - outputAmount;
+
+  // Fees stay in the pool, so the invariant must not decrease
+  if (getStableInvariant(newReserveIn, newReserveOutAfter, amplification) < invariant) {
+    throw new Error("StableSwap invariant violated");
+  }
+
+  const spotPrice = getStableSpotPrice(reserveIn, reserveOut, amplification);
+  const executionPrice = Number(outputAmount) / Number(amountIn);
+
+  return {
+    outputAmount,
+    newAdaReserve: swapInToken ? newReserveOutAfter : newReserveIn,
+    newTokenReserve: swapInToken ? newReserveIn : newReserveOutAfter,
+    feeAmount,
+    priceImpact: Math.abs((executionPrice - spotPrice) / spotPrice) * 100
+  };
+}
+
+// =============================================================================
+// LIQUIDITY
+// =============================================================================
+
+export interface StableDepositResult {
+  lpTokensMinted: bigint;
+  imbalanceFeeAda: bigint;
+  imbalanceFeeToken: bigint;
+}
+
+/**
+ * LP tokens for a deposit, measured by growth of the invariant
+ *
+ * Unbalanced deposits pay half the swap fee on the part that deviates from
+ * the pool's ratio, otherwise deposit-then-withdraw would be a free swap.
+ * @param adaReserve - Current ADA reserve
+ * @param tokenReserve - Current token reserve
+ * @param totalLpSupply - Current total LP supply
+ * @param adaAmount - ADA amount to deposit
+ * @param tokenAmount - Token amount to deposit
+ * @param amplification - Amplification coefficient A
+ * @param feeBps - Pool fee in basis points
+ */
+export function calculateStableLiquidityProvision(
+  adaReserve: bigint,
+  tokenReserve: bigint,
+  totalLpSupply: bigint,
+  adaAmount: bigint,
+  tokenAmount: bigint,
+  amplification: bigint,
+  feeBps: bigint = STABLESWAP_CONSTANTS.DEFAULT_FEE_BPS
+): StableDepositResult {
+  const newAdaReserve = adaReserve + adaAmount;
+  const newTokenReserve = tokenReserve + tokenAmount;
+
+  if (totalLpSupply === 0n) {
+    // Initial liquidity: LP tokens = D, which is the pool value at the peg
+    return {
+      lpTokensMinted: getStableInvariant(newAdaReserve, newTokenReserve, amplification),
+      imbalanceFeeAda: 0n,
+      imbalanceFeeToken: 0n
+    };
+  }
+
+  const d0 = getStableInvariant(adaReserve, tokenReserve, amplification);
+  const d1 = getStableInvariant(newAdaReserve, newTokenReserve, amplification);
+  if (d1 <= d0) {
+    throw new Error("Deposit does not increase pool invariant");
+  }
+
+  const imbalanceFee = (reserve: bigint, newReserve: bigint): bigint => {
+    const ideal = (d1 * reserve) / d0;
+    const difference = ideal > newReserve ? ideal - newReserve : newReserve - ideal;
+    return (difference * feeBps) / (2n * STABLESWAP_CONSTANTS.BPS_DENOMINATOR);
+  };
+
+  const imbalanceFeeAda = imbalanceFee(adaReserve, newAdaReserve);
+  const imbalanceFeeToken = imbalanceFee(tokenReserve, newTokenReserve);
+  const d2 = getStableInvariant(newAdaReserve - imbalanceFeeAda, newTokenReserve - imbalanceFeeToken, amplification);
+
+  return {
+    lpTokensMinted: (totalLpSupply * (d2 - d0)) / d0,
+    imbalanceFeeAda,
+    imbalanceFeeToken
+  };
+}
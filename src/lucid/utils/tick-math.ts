@@ -0,0 +1,325 @@
+/**
+ * PuckSwap v4 - Tick Math
+ *
+ * Fixed-point math for concentrated liquidity (range) positions.
+ * Prices are token B per token A, stored as Q64.96 square roots; tick i
+ * corresponds to price 1.0001^i. All amounts are bigint and rounded in the
+ * pool's favour (up when the pool receives, down when it pays out).
+ */
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const Q96 = 2n ** 96n;
+export const Q128 = 2n ** 128n;
+export const BPS_DENOMINATOR = 10_000n;
+
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+
+// Tick spacing per fee tier (basis points)
+export const TICK_SPACING_BY_FEE: Record<number, number> = {
+  1: 1,
+  5: 10,
+  30: 60,
+  100: 200
+};
+
+// =============================================================================
+// INTEGER HELPERS
+// =============================================================================
+
+/**
+ * Integer square root (floor)
+ */
+export function sqrtBigInt(value: bigint): bigint {
+  if (value < 0n) {
+    throw new Error("Square root of negative number");
+  }
+  if (value < 2n) {
+    return value;
+  }
+
+  let x = value;
+  let y = (x + 1n) / 2n;
+  while (y < x) {
+    x = y;
+    y = (x + value / x) / 2n;
+  }
+  return x;
+}
+
+export function divRoundingUp(numerator: bigint, denominator: bigint): bigint {
+  const quotient = numerator / denominator;
+  return numerator % denominator === 0n ? quotient : quotient + 1n;
+}
+
+// sqrt(1.0001) in Q64.96
+const SQRT_TICK_BASE_X96 = sqrtBigInt((10001n * Q96 * Q96) / 10000n);
+
+// =============================================================================
+// TICK <-> PRICE
+// =============================================================================
+
+/**
+ * Q64.96 square root price at a tick
+ */
+export function getSqrtPriceAtTick(tick: number): bigint {
+  if (!Number.isInteger(tick) || tick < MIN_TICK || tick > MAX_TICK) {
+    throw new Error(`Tick ${tick} out of range`);
+  }
+
+  let remaining = Math.abs(tick);
+  let base = SQRT_TICK_BASE_X96;
+  let result = Q96;
+
+  while (remaining > 0) {
+    if (remaining & 1) {
+      result = (result * base) / Q96;
+    }
+    base = (base * base) / Q96;
+    remaining >>= 1;
+  }
+
+  return tick < 0 ? (Q96 * Q96) / result : result;
+}
+
+export const MIN_SQRT_PRICE_X96 = getSqrtPriceAtTick(MIN_TICK);
+export const MAX_SQRT_PRICE_X96 = getSqrtPriceAtTick(MAX_TICK);
+
+/**
+ * Greatest tick whose square root price is at or below the given price
+ */
+export function getTickAtSqrtPrice(sqrtPriceX96: bigint): number {
+  if (sqrtPriceX96 < MIN_SQRT_PRICE_X96 || sqrtPriceX96 > MAX_SQRT_PRICE_X96) {
+    throw new Error("Square root price out of range");
+  }
+
+  let low = MIN_TICK;
+  let high = MAX_TICK;
+  while (low < high) {
+    const mid = Math.floor((low + high + 1) / 2);
+    if (getSqrtPriceAtTick(mid) <= sqrtPriceX96) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Q64.96 square root price for a ratio of token B to token A amounts
+ */
+export function encodeSqrtPrice(amountB: bigint, amountA: bigint): bigint {
+  if (amountA <= 0n || amountB <= 0n) {
+    throw new Error("Price amounts must be positive");
+  }
+  return sqrtBigInt((amountB * Q96 * Q96) / amountA);
+}
+
+/**
+ * Human-readable price (token B per token A) for a square root price
+ */
+export function sqrtPriceToPrice(sqrtPriceX96: bigint): number {
+  const sqrtPrice = Number(sqrtPriceX96) / Number(Q96);
+  return sqrtPrice * sqrtPrice;
+}
+
+export function tickToPrice(tick: number): number {
+  return Math.pow(1.0001, tick);
+}
+
+/**
+ * Nearest tick at or below a price
+ */
+export function priceToTick(price: number): number {
+  if (price <= 0) {
+    throw new Error("Price must be positive");
+  }
+  const tick = Math.floor(Math.log(price) / Math.log(1.0001));
+  return Math.min(Math.max(tick, MIN_TICK), MAX_TICK);
+}
+
+/**
+ * Round a tick to the nearest multiple of the pool's tick spacing
+ */
+export function nearestUsableTick(tick: number, tickSpacing: number): number {
+  const rounded = Math.round(tick / tickSpacing) * tickSpacing;
+  if (rounded < MIN_TICK) return rounded + tickSpacing;
+  if (rounded > MAX_TICK) return rounded - tickSpacing;
+  return rounded;
+}
+
+export function getTickSpacing(feeBps: number): number {
+  const spacing = TICK_SPACING_BY_FEE[feeBps];
+  if (!spacing) {
+    throw new Error(`No tick spacing for fee tier ${feeBps} bps`);
+  }
+  return spacing;
+}
+
+// =============================================================================
+// AMOUNT / LIQUIDITY CONVERSION
+// =============================================================================
+
+/**
+ * Token A amount for liquidity between two prices
+ */
+export function getAmountADelta(sqrtPriceA: bigint, sqrtPriceB: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  const [lower, upper] = sqrtPriceA < sqrtPriceB ? [sqrtPriceA, sqrtPriceB] : [sqrtPriceB, sqrtPriceA];
+  const numerator = liquidity * Q96 * (upper - lower);
+
+  return roundUp
+    ? divRoundingUp(divRoundingUp(numerator, upper), lower)
+    : numerator / upper / lower;
+}
+
+/**
+ * Token B amount for liquidity between two prices
+ */
+export function getAmountBDelta(sqrtPriceA: bigint, sqrtPriceB: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  const [lower, upper] = sqrtPriceA < sqrtPriceB ? [sqrtPriceA, sqrtPriceB] : [sqrtPriceB, sqrtPriceA];
+  const numerator = liquidity * (upper - lower);
+
+  return roundUp ? divRoundingUp(numerator, Q96) : numerator / Q96;
+}
+
+/**
+ * Largest liquidity a range can hold for the given token amounts
+ */
+export function getLiquidityForAmounts(
+  sqrtPriceX96: bigint,
+  sqrtPriceLowerX96: bigint,
+  sqrtPriceUpperX96: bigint,
+  amountA: bigint,
+  amountB: bigint
+): bigint {
+  const liquidityForA = (lower: bigint, upper: bigint): bigint =>
+    (amountA * ((lower * upper) / Q96)) / (upper - lower);
+  const liquidityForB = (lower: bigint, upper: bigint): bigint =>
+    (amountB * Q96) / (upper - lower);
+
+  if (sqrtPriceX96 <= sqrtPriceLowerX96) {
+    return liquidityForA(sqrtPriceLowerX96, sqrtPriceUpperX96);
+  }
+  if (sqrtPriceX96 < sqrtPriceUpperX96) {
+    const fromA = liquidityForA(sqrtPriceX96, sqrtPriceUpperX96);
+    const fromB = liquidityForB(sqrtPriceLowerX96, sqrtPriceX96);
+    return fromA < fromB ? fromA : fromB;
+  }
+  return liquidityForB(sqrtPriceLowerX96, sqrtPriceUpperX96);
+}
+
+/**
+ * Token amounts represented by liquidity in a range at the current price
+ */
+export function getAmountsForLiquidity(
+  sqrtPriceX96: bigint,
+  sqrtPriceLowerX96: bigint,
+  sqrtPriceUpperX96: bigint,
+  liquidity: bigint,
+  roundUp: boolean
+): { amountA: bigint; amountB: bigint } {
+  if (sqrtPriceX96 <= sqrtPriceLowerX96) {
+    return {
+      amountA: getAmountADelta(sqrtPriceLowerX96, sqrtPriceUpperX96, liquidity, roundUp),
+      amountB: 0n
+    };
+  }
+  if (sqrtPriceX96 < sqrtPriceUpperX96) {
+    return {
+      amountA: getAmountADelta(sqrtPriceX96, sqrtPriceUpperX96, liquidity, roundUp),
+      amountB: getAmountBDelta(sqrtPriceLowerX96, sqrtPriceX96, liquidity, roundUp)
+    };
+  }
+  return {
+    amountA: 0n,
+    amountB: getAmountBDelta(sqrtPriceLowerX96, sqrtPriceUpperX96, liquidity, roundUp)
+  };
+}
+
+// =============================================================================
+// SWAP STEP
+// =============================================================================
+
+export interface SwapStepResult {
+  sqrtPriceNextX96: bigint;
+  amountIn: bigint; // Excluding fee
+  amountOut: bigint;
+  feeAmount: bigint;
+}
+
+/**
+ * Price after adding an exact input amount within constant liquidity
+ */
+export function getNextSqrtPriceFromInput(
+  sqrtPriceX96: bigint,
+  liquidity: bigint,
+  amountIn: bigint,
+  aToB: boolean
+): bigint {
+  if (liquidity === 0n) {
+    throw new Error("No active liquidity");
+  }
+
+  if (aToB) {
+    // Token A in pushes the price down
+    const numerator = liquidity * Q96;
+    return divRoundingUp(numerator * sqrtPriceX96, numerator + amountIn * sqrtPriceX96);
+  }
+
+  // Token B in pushes the price up
+  return sqrtPriceX96 + (amountIn * Q96) / liquidity;
+}
+
+/**
+ * Swap as much of the remaining input as possible before reaching the target price
+ * @param sqrtPriceCurrentX96 - Current price
+ * @param sqrtPriceTargetX96 - Next initialized tick or price limit
+ * @param liquidity - Active liquidity between the two prices
+ * @param amountRemaining - Input left to swap, including fee
+ * @param feeBps - Pool fee in basis points
+ */
+export function computeSwapStep(
+  sqrtPriceCurrentX96: bigint,
+  sqrtPriceTargetX96: bigint,
+  liquidity: bigint,
+  amountRemaining: bigint,
+  feeBps: number
+): SwapStepResult {
+  const aToB = sqrtPriceCurrentX96 >= sqrtPriceTargetX96;
+  const fee = BigInt(feeBps);
+
+  if (liquidity === 0n) {
+    return { sqrtPriceNextX96: sqrtPriceTargetX96, amountIn: 0n, amountOut: 0n, feeAmount: 0n };
+  }
+
+  const amountRemainingLessFee = (amountRemaining * (BPS_DENOMINATOR - fee)) / BPS_DENOMINATOR;
+  const amountToTarget = aToB
+    ? getAmountADelta(sqrtPriceTargetX96, sqrtPriceCurrentX96, liquidity, true)
+    : getAmountBDelta(sqrtPriceCurrentX96, sqrtPriceTargetX96, liquidity, true);
+
+  const reachesTarget = amountRemainingLessFee >= amountToTarget;
+  const sqrtPriceNextX96 = reachesTarget
+    ? sqrtPriceTargetX96
+    : getNextSqrtPriceFromInput(sqrtPriceCurrentX96, liquidity, amountRemainingLessFee, aToB);
+
+  const amountIn = reachesTarget
+    ? amountToTarget
+    : aToB
+      ? getAmountADelta(sqrtPriceNextX96, sqrtPriceCurrentX96, liquidity, true)
+      : getAmountBDelta(sqrtPriceCurrentX96, sqrtPriceNextX96, liquidity, true);
+
+  const amountOut = aToB
+    ? getAmountBDelta(sqrtPriceNextX96, sqrtPriceCurrentX96, liquidity, false)
+    : getAmountADelta(sqrtPriceCurrentX96, sqrtPriceNextX96, liquidity, false);
+
+  // When the target isn't reached the whole remainder is consumed, so the rest is fee
+  const feeAmount = reachesTarget
+    ? divRoundingUp(amountIn * fee, BPS_DENOMINATOR - fee)
+    : amountRemaining - amountIn;
+
+  return { sqrtPriceNextX96, amountIn, amountOut, feeAmount };
+}
@@ -0,0 +1,155 @@
+// PuckSwap v5 - Context7 Pool Candles API Endpoint
+// OHLCV price and volume candles for one pool, built from the swap events
+// recorded by the pool monitor's event store
+//
+// GET /api/context7/pools/{poolAddress}/candles?interval=1h&from=...&to=...
+// from/to accept milliseconds since epoch or ISO dates; to defaults to now and
+// from to 100 intervals before it
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { FileEventStore } from '../../../../../context7/event-store';
+import {
+  PoolCandleService,
+  CANDLE_INTERVALS,
+  CANDLE_CONSTANTS,
+  CandleInterval,
+  isCandleInterval
+} from '../../../../../context7/pool_candles';
+
+const DEFAULT_INTERVAL: CandleInterval = '1h';
+const DEFAULT_CANDLE_COUNT = 100;
+
+// Shared by every request; refreshed with what the pool monitor process appended since
+let eventStore: FileEventStore | null = null;
+
+interface CandleData {
+  openTime: number;
+  closeTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: string; // Lovelace
+  tokenVolume: string;
+  swapCount: number;
+}
+
+interface PoolCandlesResponse {
+  success: boolean;
+  data?: {
+    poolId: string;
+    interval: CandleInterval;
+    from: number;
+    to: number;
+    candles: CandleData[];
+  };
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<PoolCandlesResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed'
+    });
+  }
+
+  try {
+    const { poolId, interval = DEFAULT_INTERVAL, from, to } = req.query;
+
+    if (!poolId || typeof poolId !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Pool ID is required'
+      });
+    }
+
+    if (typeof interval !== 'string' || !isCandleInterval(interval)) {
+      return res.status(400).json({
+        success: false,
+        error: `Interval must be one of ${Object.keys(CANDLE_INTERVALS).join(', ')}`
+      });
+    }
+
+    const intervalLength = CANDLE_INTERVALS[interval];
+    const toTime = to !== undefined ? parseTime(to) : Date.now();
+    const fromParam = from !== undefined ? parseTime(from) : undefined;
+
+    if (toTime === null || fromParam === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'from and to must be milliseconds since epoch or ISO dates'
+      });
+    }
+
+    const requestedFrom = fromParam ?? toTime - DEFAULT_CANDLE_COUNT * intervalLength;
+    const fromTime = Math.floor(requestedFrom / intervalLength) * intervalLength;
+    if (toTime <= fromTime) {
+      return res.status(400).json({
+        success: false,
+        error: 'to must be after from'
+      });
+    }
+
+    if (Math.ceil((toTime - fromTime) / intervalLength) > CANDLE_CONSTANTS.MAX_CANDLES_PER_QUERY) {
+      return res.status(400).json({
+        success: false,
+        error: `Range exceeds ${CANDLE_CONSTANTS.MAX_CANDLES_PER_QUERY} ${interval} candles`
+      });
+    }
+
+    const store = getEventStore();
+    await store.refresh();
+    const candleService = new PoolCandleService();
+    await candleService.backfill(store, poolId, fromTime, toTime);
+
+    const candles = candleService.getCandles(poolId, interval, fromTime, toTime).map(candle => ({
+      ...candle,
+      volume: candle.volume.toString(),
+      tokenVolume: candle.tokenVolume.toString()
+    }));
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        poolId,
+        interval,
+        from: fromTime,
+        to: toTime,
+        candles
+      }
+    });
+
+  } catch (error) {
+    console.error('Pool candles API error:', error);
+
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch pool candles'
+    });
+  }
+}
+
+function getEventStore(): FileEventStore {
+  if (!eventStore) {
+    const eventStoreDirectory = process.env.CONTEXT7_EVENT_STORE_DIR;
+    if (!eventStoreDirectory) {
+      throw new Error('Context7 event store not configured');
+    }
+    eventStore = new FileEventStore(eventStoreDirectory);
+  }
+  return eventStore;
+}
+
+// Milliseconds since epoch, or null if the parameter is not a time
+function parseTime(value: string | string[]): number | null {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return null;
+  }
+
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isFinite(time) ? time : null;
+}
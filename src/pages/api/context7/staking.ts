@@ -4,6 +4,16 @@
 
 import { NextApiRequest, NextApiResponse } from 'next';
 import { getEnvironmentConfig } from '../../../config/env';
+import {
+  OracleSignature,
+  SignedRewardReport,
+  verifyRewardReports,
+  loadOracleQuorumConfig,
+  getRewardReportHistory,
+  REWARD_ORACLE_CONSTANTS
+} from '../../../lucid/reward-oracle';
+
+const DEFAULT_REPORT_LIMIT = 50;
 
 interface StakingData {
   totalStaked: string;
@@ -11,13 +21,33 @@ interface StakingData {
   stakePoolId: string;
   lastRewardsSyncSlot: number;
   currentExchangeRate: string;
-  annualPercentageYield: number;
+  verifiedAnnualYield: number | null; // Derived from quorum-verified reward reports only
+  rewardReports: RewardReportSummary[];
   totalRewardsEarned: string;
   nextRewardsSyncSlot: number;
   stakingActive: boolean;
   emergencyWithdrawalsEnabled: boolean;
 }
 
+interface RewardReportSummary {
+  epoch: number;
+  stakePoolId: string;
+  rewardAmount: string;
+  activeStake: string;
+  observedSlot: number;
+  signers: string[];
+}
+
+// Reward report as served by the Context7 indexer; checked by parseRewardReport
+interface RawRewardReport {
+  epoch: number | string;
+  stake_pool_id: string;
+  reward_amount: number | string; // Lovelace
+  active_stake: number | string; // Lovelace
+  observed_slot: number | string;
+  signatures?: OracleSignature[];
+}
+
 interface Context7StakingResponse {
   success: boolean;
   data?: StakingData;
@@ -35,6 +65,14 @@ export default async function handler(
     });
   }
 
+  const limit = parseReportLimit(req.query.limit);
+  if (limit === null) {
+    return res.status(400).json({
+      success: false,
+      error: 'limit must be a positive integer'
+    });
+  }
+
   try {
     const envConfig = getEnvironmentConfig();
 
@@ -60,6 +98,46 @@ export default async function handler(
 
     const context7Data = await response.json();
 
+    // Verify signed reward reports and add them to the report history
+    const oracleQuorum = loadOracleQuorumConfig();
+    const history = getRewardReportHistory();
+
+    if (oracleQuorum) {
+      const reportsResponse = await fetch(`${context7Endpoint}/staking/reward-reports`, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey && { 'Authorization': `Bearer ${apiKey}` })
+        }
+      });
+
+      if (reportsResponse.ok) {
+        const body = await reportsResponse.json();
+        const rawReports: RawRewardReport[] = Array.isArray(body?.reports) ? body.reports : [];
+
+        // Malformed reports and reports without quorum are skipped rather than served
+        for (const raw of rawReports) {
+          try {
+            history.add(verifyRewardReports([parseRewardReport(raw)], oracleQuorum));
+          } catch (error) {
+            console.warn('Rejected reward report:', error instanceof Error ? error.message : error);
+          }
+        }
+      } else {
+        console.warn(`Reward report fetch failed: ${reportsResponse.status} ${reportsResponse.statusText}`);
+      }
+    }
+
+    const rewardReports: RewardReportSummary[] = history.list({ limit })
+      .map(({ report, verification }) => ({
+        epoch: report.epoch,
+        stakePoolId: report.stakePoolId,
+        rewardAmount: report.rewardAmount.toString(),
+        activeStake: report.activeStake.toString(),
+        observedSlot: report.observedSlot,
+        signers: verification.validSigners
+      }));
+
     // Transform Context7 data to our StakingData format
     const stakingData: StakingData = {
       totalStaked: context7Data.total_staked || '0',
@@ -67,7 +145,8 @@ export default async function handler(
       stakePoolId: context7Data.stake_pool_id || '',
       lastRewardsSyncSlot: context7Data.last_rewards_sync_slot || 0,
       currentExchangeRate: context7Data.current_exchange_rate || '1.0',
-      annualPercentageYield: context7Data.annual_percentage_yield || 4.5,
+      verifiedAnnualYield: history.calculateVerifiedApy(),
+      rewardReports,
       totalRewardsEarned: context7Data.total_rewards_earned || '0',
       nextRewardsSyncSlot: context7Data.next_rewards_sync_slot || 0,
       stakingActive: context7Data.staking_active !== false,
@@ -88,3 +167,53 @@ export default async function handler(
     });
   }
 }
+
+function parseRewardReport(raw: RawRewardReport): SignedRewardReport {
+  const epoch = parseWholeNumber(raw?.epoch);
+  const rewardAmount = parseWholeNumber(raw?.reward_amount);
+  const activeStake = parseWholeNumber(raw?.active_stake);
+  const observedSlot = parseWholeNumber(raw?.observed_slot);
+  const signatures = raw?.signatures ?? [];
+
+  if (
+    epoch === null || rewardAmount === null || activeStake === null || observedSlot === null ||
+    typeof raw.stake_pool_id !== 'string' || !Array.isArray(signatures)
+  ) {
+    throw new Error(`Malformed reward report: ${JSON.stringify(raw)}`);
+  }
+
+  return {
+    report: {
+      epoch: Number(epoch),
+      stakePoolId: raw.stake_pool_id,
+      rewardAmount,
+      activeStake,
+      observedSlot: Number(observedSlot)
+    },
+    signatures
+  };
+}
+
+// Report count from the limit query, capped at the history size; null when it is not a positive integer
+function parseReportLimit(value: string | string[] | undefined): number | null {
+  if (value === undefined) {
+    return DEFAULT_REPORT_LIMIT;
+  }
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    return null;
+  }
+
+  const limit = Number(value);
+  return limit >= 1 ? Math.min(limit, REWARD_ORACLE_CONSTANTS.MAX_HISTORY) : null;
+}
+
+// Non-negative integer sent as a JSON number or decimal string, or null
+function parseWholeNumber(value: unknown): bigint | null {
+  if (typeof value === 'number' && Number.isSafeInteger(value) && value >= 0) {
+    return BigInt(value);
+  }
+  if (typeof value === 'string' && /^\d+$/.test(value)) {
+    return BigInt(value);
+  }
+  return null;
+}
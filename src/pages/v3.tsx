@@ -5,7 +5,7 @@ import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { toast, Toaster } from 'react-hot-toast';
 import { PuckSwapV3 } from '../lib/puckswap-v3';
-import { Context7MonitorV3, createContext7MonitorV3 } from '../lib/context7-monitor-v3';
+import { PoolMonitor, createPoolMonitor, DEFAULT_POOL_MONITOR_CONFIG, PoolMonitorConfig } from '../context7/pool_monitor';
 import { SwapV3 } from '../components/SwapV3';
 import { LiquidityV3 } from '../components/LiquidityV3';
 import { WalletConnect } from '../components/WalletConnect';
@@ -24,11 +24,17 @@ interface WalletState {
 // Demo mode configuration
 const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === 'true';
 
+// Monitored pools
+const POOL_ADDRESSES = [
+  'addr1_pool_address_1', // Would be actual pool addresses
+  'addr1_pool_address_2'
+];
+
 export default function PuckSwapV3Page() {
   // State management
   const [activeTab, setActiveTab] = useState<Tab>('swap');
   const [dex, setDex] = useState<PuckSwapV3 | null>(null);
-  const [monitor, setMonitor] = useState<Context7MonitorV3 | null>(null);
+  const [monitor, setMonitor] = useState<PoolMonitor | null>(null);
   const [walletState, setWalletState] = useState<WalletState>({ isConnected: false });
   const [isInitializing, setIsInitializing] = useState<boolean>(true);
   const [showWalletModal, setShowWalletModal] = useState<boolean>(false);
@@ -71,17 +77,14 @@ export default function PuckSwapV3Page() {
         setDex(dexInstance);
 
         // Initialize monitoring
-        const monitorInstance = await createContext7MonitorV3({
+        const monitorInstance = await createPoolMonitor({
+          ...DEFAULT_POOL_MONITOR_CONFIG,
           blockfrostApiKey,
           network: network.toLowerCase() as "mainnet" | "preview" | "preprod",
-          poolAddresses: [
-            'addr1_pool_address_1', // Would be actual pool addresses
-            'addr1_pool_address_2'
-          ],
-          enableWebSocket: true,
-          updateInterval: 5000, // 5 seconds
-          historicalDataDays: 7
-        });
+          poolAddresses: POOL_ADDRESSES,
+          enableBroadcast: false
+        } as PoolMonitorConfig);
+        await monitorInstance.startMonitoring();
         setMonitor(monitorInstance);
 
         setNetworkStatus('online');
@@ -101,7 +104,7 @@ export default function PuckSwapV3Page() {
     // Cleanup on unmount
     return () => {
       if (monitor) {
-        monitor.destroy();
+        monitor.stopMonitoring();
       }
     };
   }, []);
@@ -284,6 +287,7 @@ export default function PuckSwapV3Page() {
                     <SwapV3
                       dex={dex}
                       monitor={monitor}
+                      poolAddress={POOL_ADDRESSES[0]}
                       isConnected={walletState.isConnected}
                       walletAddress={walletState.address}
                       demoMode={DEMO_MODE}
@@ -294,6 +298,7 @@ export default function PuckSwapV3Page() {
                     <LiquidityV3
                       dex={dex}
                       monitor={monitor}
+                      poolAddress={POOL_ADDRESSES[0]}
                       isConnected={walletState.isConnected}
                       walletAddress={walletState.address}
                       demoMode={DEMO_MODE}
@@ -39,6 +39,12 @@ import {
   RewardAddress
 } from "@lucid-evolution/lucid";
 
+import {
+  TransactionSimulator,
+  TransactionDescription,
+  SimulationResult
+} from "../lib/tx-simulator";
+
 export interface MockWalletConfig {
   address: Address;
   utxos: UTxO[];
@@ -54,6 +60,7 @@ export interface MockTransactionResult {
   error?: string;
   fee?: bigint;
   outputs?: UTxO[];
+  simulation?: SimulationResult;
 }
 
 /**
@@ -115,9 +122,16 @@ export class MockWallet {
 
   // ========== TRANSACTION SIMULATION ==========
 
-  async simulateTransaction(txCbor: string): Promise<MockTransactionResult> {
+  async simulateTransaction(
+    txCbor: string,
+    description?: TransactionDescription
+  ): Promise<MockTransactionResult> {
     try {
       console.log("🔄 Mock Wallet: Simulating transaction execution");
+
+      if (description) {
+        return this.applyDescribedTransaction(description);
+      }
       
       // Generate realistic transaction hash
       const txHash = this.generateTxHash();
@@ -154,6 +168,55 @@ export class MockWallet {
     }
   }
 
+  /**
+   * Dry-run a described transaction against the wallet UTxOs
+   * Fails with the simulator's first error; on success the wallet UTxO set and
+   * balance are replaced by the simulated result.
+   */
+  private applyDescribedTransaction(description: TransactionDescription): MockTransactionResult {
+    const txHash = description.txHash ?? this.generateTxHash();
+    const simulation = new TransactionSimulator().simulate(
+      { ...description, txHash },
+      this.config.utxos,
+      { currentSlot: this.currentSlot }
+    );
+
+    if (!simulation.success) {
+      const firstError = simulation.issues.find(issue => issue.severity === 'error');
+      const result: MockTransactionResult = {
+        txHash: "",
+        success: false,
+        error: firstError ? `[${firstError.code}] ${firstError.message}` : "Simulation failed",
+        simulation
+      };
+      this.transactionHistory.push(result);
+      console.error(`❌ Mock Transaction failed: ${result.error}`);
+      return result;
+    }
+
+    this.config.utxos = simulation.resultingUtxos.filter(utxo => utxo.address === this.config.address);
+    this.config.balance = this.config.utxos.reduce((balance, utxo) => {
+      for (const [unit, amount] of Object.entries(utxo.assets)) {
+        balance[unit] = (balance[unit] || 0n) + amount;
+      }
+      return balance;
+    }, {} as Assets);
+
+    const result: MockTransactionResult = {
+      txHash,
+      success: true,
+      fee: simulation.fee,
+      outputs: simulation.created,
+      simulation
+    };
+
+    this.transactionHistory.push(result);
+    this.incrementSlot();
+
+    console.log(`✅ Mock Transaction successful: ${txHash}`);
+    return result;
+  }
+
   private generateTxHash(): TxHash {
     const randomBytes = new Uint8Array(32);
     for (let i = 0; i < 32; i++) {
@@ -3,7 +3,8 @@
  * Comprehensive test configuration for all simulation scenarios
  */
 
-import { getEnvironmentConfig } from "../../../src/config/env";
+import { getEnvironmentConfig, ENV_CONFIG } from "../../../src/lib/environment-config";
+import { EmulatorAddresses } from "../../../src/lib/ledger-emulator";
 
 export interface TestWallet {
   name: string;
@@ -49,10 +50,21 @@ export interface TestCrossChainConfig {
   testTransferAmount: bigint;
 }
 
+export interface TestEmulatorConfig {
+  enabled: boolean; // Run against the in-memory ledger instead of Blockfrost
+  startSlot: number;
+  walletFunding: bigint; // Lovelace given to each test wallet at genesis
+  treasuryFunding: bigint; // Lovelace held by the treasury at genesis
+  addresses?: EmulatorAddresses; // Overrides for contracts missing from deployment/addresses.json
+}
+
 export interface SimulationTestConfig {
   // Environment
   network: "preprod" | "preview" | "mainnet";
   blockfrostApiKey: string;
+
+  // Local ledger emulator
+  emulator: TestEmulatorConfig;
   
   // Test wallets (using test mnemonics for Preprod)
   wallets: {
@@ -117,8 +129,16 @@ export const DEFAULT_TEST_CONFIG: SimulationTestConfig = {
   // Use environment configuration
   network: ENV_CONFIG.network as "preprod",
   blockfrostApiKey: ENV_CONFIG.blockfrostApiKey,
+
+  // Local ledger emulator (PUCKSWAP_EMULATOR=true to run offline)
+  emulator: {
+    enabled: process.env.PUCKSWAP_EMULATOR === 'true',
+    startSlot: 50_000_000,
+    walletFunding: 10_000_000_000n, // 10,000 ADA
+    treasuryFunding: 1_000_000_000n // 1,000 ADA
+  },
   
-  // Test wallets with Preprod testnet mnemonics
+  // Test wallets with Preprod testnet mnemonics (BIP39 test vectors, valid checksums)
   wallets: {
     deployer: {
       name: "deployer",
@@ -126,19 +146,19 @@ export const DEFAULT_TEST_CONFIG: SimulationTestConfig = {
     },
     user1: {
       name: "user1", 
-      mnemonic: "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about"
+      mnemonic: "legal winner thank year wave sausage worth useful legal winner thank year wave sausage worth useful legal winner thank year wave sausage worth title"
     },
     user2: {
       name: "user2",
-      mnemonic: "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon above"
+      mnemonic: "letter advice cage absurd amount doctor acoustic avoid letter advice cage absurd amount doctor acoustic avoid letter advice cage absurd amount doctor acoustic bless"
     },
     user3: {
       name: "user3",
-      mnemonic: "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon absent"
+      mnemonic: "zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo vote"
     },
     governance: {
       name: "governance",
-      mnemonic: "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon absorb"
+      mnemonic: "void come effort suffer camp survey warrior heavy shoot primary clutch crush open amazing screen patrol group space point ten exist slush involve unfold"
     }
   },
   
@@ -257,7 +277,7 @@ export function getTestConfig(): SimulationTestConfig {
  */
 export function validateTestConfig(config: SimulationTestConfig): boolean {
   // Check required fields
-  if (!config.blockfrostApiKey) {
+  if (!config.emulator.enabled && !config.blockfrostApiKey) {
     console.error("❌ Missing Blockfrost API key");
     return false;
   }
@@ -204,7 +204,7 @@ export class PuckSwapV5SimulationRunner {
     // Display network and environment info
     console.log("\n🌍 Environment Information:");
     console.log(`  Network: ${this.config.network.toUpperCase()}`);
-    console.log(`  Blockfrost API: ${this.config.blockfrostApiKey.substring(0, 8)}...`);
+    console.log(`  Provider: ${this.config.emulator.enabled ? 'Ledger emulator' : `Blockfrost (${this.config.blockfrostApiKey.substring(0, 8)}...)`}`);
     console.log(`  Demo Mode: ${process.env.NEXT_PUBLIC_DEMO_MODE === 'true' ? 'Enabled' : 'Disabled'}`);
 
     // Save detailed report if enabled
@@ -3,10 +3,10 @@
  * End-to-end testing of Context7 monitor implementations
  */
 
-import { createContext7MonitorV3 } from "../../../src/lib/context7-monitor-v3";
+import { createPoolMonitor } from "../../../src/context7/pool_monitor";
 import { createPoolRegistryMonitor } from "../../../src/context7/registry_monitor";
 import { createGovernanceMonitor } from "../../../src/context7/governance_monitor";
-import { createStakingMonitor } from "../../../src/context7/staking_monitor";
+import { createStakingMonitor } from "../../../src/context7/staking-monitor";
 import { createCrossChainRouterMonitor } from "../../../src/context7/crosschain_monitor";
 import { getTestConfig, SimulationTestConfig } from "../config/test-config";
 import { executeTest, TestResult } from "../utils/test-helpers";
@@ -121,7 +121,7 @@ export class BackendMonitoringVerification {
         };
 
         // Initialize pool monitor
-        const poolMonitor = await createContext7MonitorV3(monitorConfigs.pool);
+        const poolMonitor = await createPoolMonitor(monitorConfigs.pool);
         this.monitors.set("pool", poolMonitor);
 
         // Initialize registry monitor
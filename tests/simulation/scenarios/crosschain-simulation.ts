@@ -171,7 +171,7 @@ export class CrossChainSimulation {
           }
 
           const userLucid = this.lucidInstances.get(transfer.user)!;
-          const userAddress = await userLucid.wallet.address();
+          const userAddress = await userLucid.wallet().address();
 
           // Generate new nonce
           const newNonce = this.routerState.last_processed_nonce + 1n;
@@ -247,7 +247,7 @@ export class CrossChainSimulation {
           }
 
           const recipientLucid = this.lucidInstances.get(transfer.recipient)!;
-          const recipientAddress = await recipientLucid.wallet.address();
+          const recipientAddress = await recipientLucid.wallet().address();
 
           // Generate new nonce
           const newNonce = this.routerState.last_processed_nonce + 1n;
@@ -5,6 +5,7 @@
 
 import { Lucid, UTxO, Assets, TxHash, Address } from "@lucid-evolution/lucid";
 import { depositStaking, withdrawStaking, syncStakingRewards } from "../../../src/lucid/staking";
+import { getActiveEmulator } from "../../../src/lib/lucid-config";
 import { getTestConfig, SimulationTestConfig, TestStakingConfig } from "../config/test-config";
 import {
   initializeLucidForTesting,
@@ -120,7 +121,7 @@ export class LiquidStakingSimulation {
         this.pADAPolicyId = "a0028f350aaabe0545fdcb56b039bfb08e4bb4d8c4d7c3c7d481c235"; // Mock pADA policy
 
         // Initialize staking state
-        this.stakingState.last_rewards_sync_slot = BigInt(Math.floor(Date.now() / 1000));
+        this.stakingState.last_rewards_sync_slot = BigInt(this.currentSlot());
 
         return {
           stakingAddress: this.stakingAddress,
@@ -206,8 +207,12 @@ export class LiquidStakingSimulation {
 
         const governanceLucid = this.lucidInstances.get("governance")!;
 
-        // Simulate rewards accumulation (5% annual rate)
-        const timeSinceLastSync = Date.now() / 1000 - Number(this.stakingState.last_rewards_sync_slot);
+        // Let one sync interval pass on the emulated ledger
+        getActiveEmulator()?.awaitSlot(this.config.staking.syncInterval);
+
+        // Simulate rewards accumulation (5% annual rate, one slot per second)
+        const syncSlot = this.currentSlot();
+        const timeSinceLastSync = syncSlot - Number(this.stakingState.last_rewards_sync_slot);
         const annualRate = this.config.staking.rewardRate / 100; // 5% = 0.05
         const rewardsAccrued = BigInt(Math.floor(
           Number(this.stakingState.total_staked) * annualRate * (timeSinceLastSync / (365 * 24 * 3600))
@@ -223,7 +228,7 @@ export class LiquidStakingSimulation {
           rewards_accrued: rewardsAccrued,
           old_exchange_rate: this.stakingState.exchange_rate,
           new_exchange_rate: newExchangeRate,
-          sync_slot: Math.floor(Date.now() / 1000),
+          sync_slot: syncSlot,
           total_value_locked: newTotalValue
         };
 
@@ -415,6 +420,13 @@ export class LiquidStakingSimulation {
     this.testResults.push(result);
   }
 
+  /**
+   * Current slot: the emulator's when running offline, else wall-clock seconds
+   */
+  private currentSlot(): number {
+    return getActiveEmulator()?.slot ?? Math.floor(Date.now() / 1000);
+  }
+
   /**
    * Get current staking state
    */
@@ -3,8 +3,10 @@
  * Utility functions for test execution and validation
  */
 
-import { Lucid, UTxO, Assets, Address, TxHash, Data } from "@lucid-evolution/lucid";
-import { createLucidInstance } from "../../../src/lib/lucid-config";
+import { Lucid, UTxO, Assets, Address, TxHash, Data, Constr, fromText } from "@lucid-evolution/lucid";
+import { createLucidInstance, setActiveEmulator, getActiveEmulator } from "../../../src/lib/lucid-config";
+import { PuckSwapLedgerEmulator, EmulatorScriptSeed, loadEmulatorAddresses } from "../../../src/lib/ledger-emulator";
+import { calculateStableSwapOutput } from "../../../src/lucid/utils/stableswap-math";
 import { SimulationTestConfig, TestWallet } from "../config/test-config";
 
 export interface TestResult {
@@ -26,6 +28,83 @@ export interface TestReport {
   summary: string;
 }
 
+/**
+ * Get the shared ledger emulator, creating it on first use
+ * Seeds the configured test pools at the swap validator, plus the staking,
+ * governance and treasury state, at the addresses from deployment/addresses.json
+ * (or the emulator overrides). Contracts without an address are not seeded.
+ * Every Lucid instance created afterwards (including builders) uses this ledger.
+ */
+export function getTestEmulator(config: SimulationTestConfig): PuckSwapLedgerEmulator {
+  const existing = getActiveEmulator();
+  if (existing) {
+    return existing;
+  }
+
+  const network = config.network === "preprod" ? "Preprod" : config.network === "preview" ? "Preview" : "Mainnet";
+  const addresses = loadEmulatorAddresses(network.toLowerCase(), config.emulator.addresses);
+  const startSlot = config.emulator.startSlot;
+
+  const scripts: EmulatorScriptSeed[] = [
+    {
+      // total_staked, total_pADA_minted, stake_pool_id, last_rewards_sync_slot
+      contract: "staking",
+      assets: { lovelace: config.staking.initialStakeAmount },
+      datum: Data.to(new Constr(0, [
+        config.staking.initialStakeAmount,
+        config.staking.initialStakeAmount,
+        fromText(config.staking.stakePoolId),
+        BigInt(startSlot)
+      ]))
+    },
+    {
+      // No proposals yet
+      contract: "governance",
+      assets: { lovelace: 2_000_000n },
+      datum: Data.to(new Constr(0, [new Constr(0, [])]))
+    },
+    {
+      contract: "treasury",
+      assets: { lovelace: config.emulator.treasuryFunding },
+      datum: Data.void()
+    }
+  ];
+
+  const seeded = scripts.filter(script => addresses[script.contract]);
+  const skipped = scripts.filter(script => !addresses[script.contract]).map(script => script.contract);
+  if (skipped.length > 0) {
+    console.warn(`⚠️ Emulator: no address for ${skipped.join(", ")}; not seeded`);
+  }
+
+  const emulator = new PuckSwapLedgerEmulator({ network, startSlot, addresses });
+  emulator.seed({
+    pools: config.testPools.map(pool => ({
+      datum: {
+        pool_nft_policy: pool.lpTokenPolicy || "00".repeat(28),
+        pool_nft_name: fromText(pool.poolId),
+        token_policy: pool.tokenPolicy,
+        token_name: pool.tokenName,
+        ada_reserve: pool.initialAdaReserve,
+        token_reserve: pool.initialTokenReserve,
+        lp_total_supply: pool.initialAdaReserve,
+        fee_bps: BigInt(pool.feeBasisPoints)
+      }
+    })),
+    scripts: seeded
+  });
+
+  setActiveEmulator(emulator);
+  console.log(`🧪 Ledger emulator seeded with ${config.testPools.length} pools and ${seeded.map(script => script.contract).join(", ") || "no script"} state at slot ${emulator.slot}`);
+  return emulator;
+}
+
+/**
+ * Discard the shared emulator so the next scenario starts from genesis
+ */
+export function resetTestEmulator(): void {
+  setActiveEmulator(null);
+}
+
 /**
  * Initialize Lucid instance for testing
  */
@@ -36,15 +115,23 @@ export async function initializeLucidForTesting(
   try {
     console.log(`🔧 Initializing Lucid for wallet: ${wallet.name}`);
     
+    const emulator = config.emulator.enabled ? getTestEmulator(config) : undefined;
+
     const lucid = await createLucidInstance({
-      network: config.network === "preprod" ? "Preprod" : "Mainnet"
+      network: config.network === "preprod" ? "Preprod" : "Mainnet",
+      ...(emulator ? { provider: "emulator" as const, emulator } : {})
     });
     
     // Select wallet from mnemonic
     await lucid.selectWallet.fromSeed(wallet.mnemonic);
 
     // Store wallet address for reference
-    wallet.address = await lucid.wallet.address();
+    wallet.address = await lucid.wallet().address();
+
+    // Fund the wallet once at genesis on the emulated ledger
+    if (emulator && (await emulator.getUtxos(wallet.address!)).length === 0) {
+      emulator.addUtxo(wallet.address!, { lovelace: config.emulator.walletFunding });
+    }
     
     console.log(`✅ Lucid initialized for ${wallet.name}: ${wallet.address.slice(0, 20)}...`);
     return lucid;
@@ -64,6 +151,12 @@ export async function waitForTxConfirmation(
   timeoutMs: number = 120000
 ): Promise<boolean> {
   console.log(`⏳ Waiting for transaction confirmation: ${txHash.slice(0, 16)}...`);
+
+  // Emulated transactions are applied on submit
+  const emulator = getActiveEmulator();
+  if (emulator) {
+    return emulator.awaitTx(txHash);
+  }
   
   const startTime = Date.now();
   
@@ -107,6 +200,13 @@ export async function fundWalletFromFaucet(
   try {
     console.log(`💰 Requesting ${Number(amount) / 1_000_000} ADA from faucet for ${address.slice(0, 20)}...`);
     
+    const emulator = getActiveEmulator();
+    if (emulator) {
+      emulator.addUtxo(address, { lovelace: amount });
+      console.log(`✅ Wallet funded on ledger emulator`);
+      return true;
+    }
+
     // Note: In real implementation, this would call Preprod faucet API
     // For simulation, we'll assume the wallet is already funded
     console.log(`✅ Wallet funding simulated (in real test, would call faucet API)`);
@@ -144,14 +244,28 @@ export async function parsePoolDatum(utxo: UTxO): Promise<any> {
 
 /**
  * Calculate AMM swap output
+ * Pass an amplification to quote a StableSwap pool instead of x·y=k.
  */
 export function calculateSwapOutput(
   adaReserve: bigint,
   tokenReserve: bigint,
   inputAmount: bigint,
   isAdaToToken: boolean,
-  feeBasisPoints: number = 30
+  feeBasisPoints: number = 30,
+  amplification?: bigint
 ): { outputAmount: bigint; newAdaReserve: bigint; newTokenReserve: bigint } {
+  if (amplification !== undefined) {
+    const { outputAmount, newAdaReserve, newTokenReserve } = calculateStableSwapOutput(
+      adaReserve,
+      tokenReserve,
+      inputAmount,
+      !isAdaToToken,
+      amplification,
+      BigInt(feeBasisPoints)
+    );
+    return { outputAmount, newAdaReserve, newTokenReserve };
+  }
+
   const feeNumerator = 1000n - BigInt(feeBasisPoints);
   const feeDenominator = 1000n;
   
@@ -327,6 +441,8 @@ export async function saveTestReport(
 }
 
 export default {
+  getTestEmulator,
+  resetTestEmulator,
   initializeLucidForTesting,
   waitForTxConfirmation,
   getWalletUtxos,